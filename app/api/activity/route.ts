@@ -51,7 +51,7 @@ export async function GET(req: NextRequest) {
   try {
     const fortyEightHoursAgo = new Date(Date.now() - 48 * 60 * 60_000).toISOString();
 
-    const [commsRes, jobsRes, campaignsRes] = await Promise.all([
+    const [commsRes, jobsRes, campaignsRes, notificationsRes] = await Promise.all([
       supabase
         .from('communications')
         .select('id, channel, subject, status, replied_at, sent_at, created_at')
@@ -70,6 +70,13 @@ export async function GET(req: NextRequest) {
         .gte('created_at', fortyEightHoursAgo)
         .order('created_at', { ascending: false })
         .limit(5),
+      supabase
+        .from('notifications')
+        .select('id, severity, title, message, action_command, resolved, created_at')
+        .eq('user_id', auth.userId ?? '')
+        .gte('created_at', fortyEightHoursAgo)
+        .order('created_at', { ascending: false })
+        .limit(10),
     ]);
 
     const activities: DemoActivity[] = [];
@@ -140,6 +147,21 @@ export async function GET(req: NextRequest) {
       }
     }
 
+    // Transform alert notifications
+    for (const note of notificationsRes.data || []) {
+      const severity: DemoActivity['severity'] = note.resolved
+        ? 'success'
+        : note.severity === 'info' || note.severity === 'warning' ? note.severity : 'critical';
+      activities.push({
+        id: `notification-${note.id}`,
+        severity,
+        description: `${note.title}: ${note.message}`,
+        timeAgo: computeTimeAgo(note.created_at),
+        timestamp: note.created_at,
+        ...(note.action_command ? { actionCommand: note.action_command, actionLabel: 'Investigate' } : {}),
+      });
+    }
+
     // Sort by timestamp descending
     activities.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
 
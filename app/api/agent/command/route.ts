@@ -6,6 +6,7 @@ import {
   streamChatCompletion,
 } from '@/src/lib/research/openclaw-client';
 import { authenticate } from '@/lib/api-auth';
+import { withRouteTelemetry } from '@/lib/tracing';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -55,7 +56,7 @@ function buildOpenClawMessages(
 // POST handler — dual mode (SSE streaming or JSON)
 // ---------------------------------------------------------------------------
 
-export async function POST(req: NextRequest) {
+export const POST = withRouteTelemetry('/api/agent/command', async (req: NextRequest) => {
   const auth = await authenticate(req);
   if (!auth.ok) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -222,4 +223,4 @@ export async function POST(req: NextRequest) {
       Connection: 'keep-alive',
     },
   });
-}
+});
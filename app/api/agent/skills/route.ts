@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { skillRegistry } from '@/lib/skills/registry';
+import { withRouteTelemetry } from '@/lib/tracing';
 
 // Import handlers to ensure they self-register
 import '@/lib/skills/handlers/analytics-pipeline';
 import '@/lib/skills/handlers/analytics-kpi';
+import '@/lib/skills/handlers/analytics-experiments';
 import '@/lib/skills/handlers/research-search';
 import '@/lib/skills/handlers/intel-recommendations';
 import '@/lib/skills/handlers/system-help';
@@ -19,7 +21,7 @@ function authenticate(req: NextRequest): boolean {
   return false;
 }
 
-export async function GET(req: NextRequest) {
+export const GET = withRouteTelemetry('/api/agent/skills', async (req: NextRequest) => {
   if (!authenticate(req)) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
@@ -36,4 +38,4 @@ export async function GET(req: NextRequest) {
   }));
 
   return NextResponse.json({ skills, count: skills.length });
-}
+});
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticate } from '@/lib/api-auth';
 import { getServerSupabase } from '@/lib/supabase-server';
+import { withRouteTelemetry } from '@/lib/tracing';
 
 const DEMO_STATE = {
   kpis: {
@@ -16,7 +17,7 @@ const DEMO_STATE = {
   timestamp: new Date().toISOString(),
 };
 
-export async function GET(req: NextRequest) {
+export const GET = withRouteTelemetry('/api/agent/state', async (req: NextRequest) => {
   const auth = await authenticate(req);
   if (!auth.ok) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -132,4 +133,4 @@ export async function GET(req: NextRequest) {
     console.error('agent/state error:', err);
     return NextResponse.json({ ...DEMO_STATE, timestamp: new Date().toISOString(), dataSource: 'demo' });
   }
-}
+});
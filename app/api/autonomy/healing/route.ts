@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticate } from '@/lib/api-auth';
+import { getServerSupabase } from '@/lib/supabase-server';
+import { mapHealingEventRow, type HealingEventRow } from '@/lib/autonomy/self-healing';
 
 export async function GET(req: NextRequest) {
   const auth = await authenticate(req);
@@ -7,9 +9,29 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
-  // Healing events table doesn't exist yet — return empty with demo fallback
-  return NextResponse.json({
-    events: [],
-    dataSource: 'demo',
-  });
+  const supabase = getServerSupabase();
+  if (!supabase) {
+    return NextResponse.json({ events: [], dataSource: 'demo' });
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('healing_events')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error('autonomy/healing query error:', error);
+      return NextResponse.json({ events: [], dataSource: 'demo' });
+    }
+
+    return NextResponse.json({
+      events: ((data ?? []) as HealingEventRow[]).map(mapHealingEventRow),
+      dataSource: 'live',
+    });
+  } catch (err) {
+    console.error('autonomy/healing error:', err);
+    return NextResponse.json({ events: [], dataSource: 'demo' });
+  }
 }
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticate } from '@/lib/api-auth';
 import { getServerSupabase } from '@/lib/supabase-server';
+import { calculateGuardMetrics } from '@/lib/autonomy/predictive-guard';
 import type { AutonomyMetrics } from '@/lib/autonomy/types';
 
 const DEMO_METRICS: AutonomyMetrics = {
@@ -53,7 +54,7 @@ export async function GET(req: NextRequest) {
     const today = new Date().toISOString().split('T')[0];
     const weekAgo = new Date(Date.now() - 7 * 86400000).toISOString();
 
-    const [allTasksRes, weekTasksRes] = await Promise.all([
+    const [allTasksRes, weekTasksRes, weekHealingRes, predictionsRes] = await Promise.all([
       supabase
         .from('autonomous_tasks')
         .select('id, status, priority, created_at, completed_at, confidence_score')
@@ -63,6 +64,15 @@ export async function GET(req: NextRequest) {
         .from('autonomous_tasks')
         .select('id, status, created_at, completed_at')
         .gte('created_at', weekAgo),
+      supabase
+        .from('healing_events')
+        .select('id, status, started_at, resolved_at')
+        .gte('started_at', weekAgo),
+      supabase
+        .from('blocker_predictions')
+        .select('status, confidence')
+        .order('predicted_at', { ascending: false })
+        .limit(500),
     ]);
 
     const allTasks = allTasksRes.data ?? [];
@@ -81,6 +91,16 @@ export async function GET(req: NextRequest) {
     const activeTasks = allTasks.filter(t => t.status === 'in_progress' || t.status === 'assigned').length;
     const blockedTasks = allTasks.filter(t => t.status === 'blocked').length;
 
+    const weekHealing = weekHealingRes.data ?? [];
+    const healedEvents = weekHealing.filter(e => e.status === 'healed' && e.resolved_at);
+    const escalatedEvents = weekHealing.filter(e => e.status === 'escalated');
+    const closedHealing = healedEvents.length + escalatedEvents.length + weekHealing.filter(e => e.status === 'failed').length;
+    const avgTimeToHealMs = healedEvents.length > 0
+      ? Math.round(healedEvents.reduce(
+          (sum, e) => sum + (new Date(e.resolved_at).getTime() - new Date(e.started_at).getTime()), 0
+        ) / healedEvents.length)
+      : 0;
+
     const health = blockedTasks > 5 ? 'critical' : blockedTasks > 0 ? 'degraded' : 'healthy';
 
     const metrics: AutonomyMetrics & { dataSource: string } = {
@@ -99,20 +119,17 @@ export async function GET(req: NextRequest) {
         overrideRate,
       },
       healing: {
-        eventsToday: 0,
-        eventsThisWeek: 0,
-        successRate: 100,
-        avgTimeToHealMs: 0,
-        escalationRate: 0,
-      },
-      predictiveGuard: {
-        totalPredictions: 0,
-        preventedCount: 0,
-        occurredCount: 0,
-        falsePositiveCount: 0,
-        avgConfidence: 0,
-        accuracyRate: 0,
+        eventsToday: weekHealing.filter(e => e.started_at?.startsWith(today)).length,
+        eventsThisWeek: weekHealing.length,
+        successRate: closedHealing > 0 ? Math.round((healedEvents.length / closedHealing) * 100) : 100,
+        avgTimeToHealMs,
+        escalationRate: weekHealing.length > 0
+          ? parseFloat(((escalatedEvents.length / weekHealing.length) * 100).toFixed(1))
+          : 0,
       },
+      predictiveGuard: calculateGuardMetrics(
+        (predictionsRes.data ?? []).map(p => ({ status: p.status, confidence: Number(p.confidence) }))
+      ),
       strategic: {
         activeHypotheses: 0,
         testsRunning: 0,
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/api-auth';
+import { getServerSupabase } from '@/lib/supabase-server';
+import {
+  ApprovalError,
+  ApprovalQueue,
+  SupabaseApprovalQueueStore,
+  getApprovalQueue,
+} from '@/lib/approval-queue';
+
+type Decision = 'approve' | 'reject' | 'request_changes' | 'release';
+
+/**
+ * Decide on a batch: `{ action: 'approve' | 'reject' | 'request_changes', comment? }`.
+ * Approving releases the batch into the email queue; `release` retries a
+ * release that failed part-way.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticate(req);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const { action, comment } = await req.json() as { action?: Decision; comment?: string };
+  if (!action || !['approve', 'reject', 'request_changes', 'release'].includes(action)) {
+    return NextResponse.json({ error: 'action must be approve, reject, request_changes or release' }, { status: 400 });
+  }
+  if (action === 'request_changes' && !comment?.trim()) {
+    return NextResponse.json({ error: 'A comment is required when requesting changes' }, { status: 400 });
+  }
+
+  const supabase = getServerSupabase();
+  const queue = supabase
+    ? new ApprovalQueue({ store: new SupabaseApprovalQueueStore(supabase) })
+    : getApprovalQueue();
+  const review = { reviewer: auth.userId ?? 'api', comment };
+
+  try {
+    const approval =
+      action === 'approve' ? await queue.approve(id, review)
+        : action === 'reject' ? await queue.reject(id, review)
+          : action === 'request_changes' ? await queue.requestChanges(id, review)
+            : await queue.release(id);
+    return NextResponse.json({ approval, dataSource: supabase ? 'live' : 'demo' });
+  } catch (err) {
+    if (err instanceof ApprovalError) {
+      return NextResponse.json({ error: err.message }, { status: err.code === 'not_found' ? 404 : 409 });
+    }
+    console.error('email/approvals/[id]/decision POST error:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
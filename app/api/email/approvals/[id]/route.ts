@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/api-auth';
+import { getServerSupabase } from '@/lib/supabase-server';
+import {
+  ApprovalError,
+  ApprovalQueue,
+  SupabaseApprovalQueueStore,
+  getApprovalQueue,
+  type ApprovalEditInput,
+} from '@/lib/approval-queue';
+
+/**
+ * One batch with per-recipient renders (?offset=0&limit=10)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticate(req);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const search = req.nextUrl.searchParams;
+  const supabase = getServerSupabase();
+  const queue = supabase
+    ? new ApprovalQueue({ store: new SupabaseApprovalQueueStore(supabase) })
+    : getApprovalQueue();
+
+  try {
+    const approval = await queue.get(id);
+    if (!approval) {
+      return NextResponse.json({ error: 'Approval not found' }, { status: 404 });
+    }
+
+    const { total, previews } = await queue.previewRecipients(id, {
+      offset: Number(search.get('offset') ?? 0),
+      limit: Number(search.get('limit') ?? 10),
+    });
+    return NextResponse.json({ approval, previews, total, dataSource: supabase ? 'live' : 'demo' });
+  } catch (err) {
+    console.error('email/approvals/[id] GET error:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Edit a batch's subject, bodies or recipients with a comment.
+ * The batch is re-scored and returns to pending.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticate(req);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const body = await req.json() as Omit<ApprovalEditInput, 'reviewer'>;
+  const supabase = getServerSupabase();
+  const queue = supabase
+    ? new ApprovalQueue({ store: new SupabaseApprovalQueueStore(supabase) })
+    : getApprovalQueue();
+
+  try {
+    const approval = await queue.edit(id, { ...body, reviewer: auth.userId ?? 'api' });
+    return NextResponse.json({ approval, dataSource: supabase ? 'live' : 'demo' });
+  } catch (err) {
+    if (err instanceof ApprovalError) {
+      return NextResponse.json({ error: err.message }, { status: err.code === 'not_found' ? 404 : 409 });
+    }
+    console.error('email/approvals/[id] PATCH error:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
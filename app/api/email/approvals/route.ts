@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/api-auth';
+import { getServerSupabase } from '@/lib/supabase-server';
+import {
+  ApprovalQueue,
+  SupabaseApprovalQueueStore,
+  autoApprovalPolicyFromSettings,
+  getApprovalQueue,
+  type ApprovalRequestInput,
+  type ApprovalStatus,
+} from '@/lib/approval-queue';
+import type { SettingsData } from '@/lib/settings-types';
+
+const OPEN_STATUSES: ApprovalStatus[] = ['pending', 'modifications_requested'];
+
+/**
+ * List batches awaiting review (?status=pending,approved&limit=50).
+ * Without a database the in-memory demo queue is used.
+ */
+export async function GET(req: NextRequest) {
+  const auth = await authenticate(req);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const params = req.nextUrl.searchParams;
+  const status = params.get('status');
+  const limit = params.get('limit');
+  const filter = {
+    status: status ? (status.split(',') as ApprovalStatus[]) : OPEN_STATUSES,
+    limit: limit ? Number(limit) : undefined,
+  };
+
+  const supabase = getServerSupabase();
+  if (!supabase) {
+    return NextResponse.json({ approvals: await getApprovalQueue().list(filter), dataSource: 'demo' });
+  }
+
+  try {
+    const queue = new ApprovalQueue({ store: new SupabaseApprovalQueueStore(supabase) });
+    return NextResponse.json({ approvals: await queue.list(filter), dataSource: 'live' });
+  } catch (err) {
+    console.error('email/approvals GET error:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Submit a batch for review. The requester's autonomy settings decide
+ * whether it is auto-approved and released straight away.
+ */
+export async function POST(req: NextRequest) {
+  const auth = await authenticate(req);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await req.json() as Omit<ApprovalRequestInput, 'expiresAt'> & { expiresAt?: string };
+  if (!body.subject || (!body.bodyHtml && !body.bodyText)) {
+    return NextResponse.json({ error: 'subject and bodyHtml or bodyText are required' }, { status: 400 });
+  }
+
+  const input: ApprovalRequestInput = {
+    ...body,
+    requestedBy: auth.userId ?? body.requestedBy,
+    expiresAt: body.expiresAt ? new Date(body.expiresAt) : undefined,
+  };
+
+  const supabase = getServerSupabase();
+  if (!supabase) {
+    const approval = await getApprovalQueue().submit(input);
+    return NextResponse.json({ approval, dataSource: 'demo' }, { status: 201 });
+  }
+
+  try {
+    let settings: Partial<SettingsData> = {};
+    if (auth.userId) {
+      const { data, error } = await supabase
+        .from('preference_models')
+        .select('*')
+        .eq('user_id', auth.userId)
+        .maybeSingle();
+      if (error) throw error;
+      settings = (data as Partial<SettingsData> | null) ?? {};
+    }
+
+    const queue = new ApprovalQueue({
+      store: new SupabaseApprovalQueueStore(supabase),
+      policy: autoApprovalPolicyFromSettings(settings),
+    });
+    const approval = await queue.submit(input);
+    return NextResponse.json({ approval, dataSource: 'live' }, { status: 201 });
+  } catch (err) {
+    console.error('email/approvals POST error:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/api-auth';
+import { getServerSupabase } from '@/lib/supabase-server';
+import {
+  InboundEmailProcessor,
+  SupabaseInboundStore,
+  parseRawEmail,
+  parseResendWebhook,
+  verifyWebhookSignature,
+  type InboundEmailEvent,
+  type ResendWebhookPayload,
+} from '@/lib/inbound-email';
+import { SuppressionList, SupabaseSuppressionStore } from '@/lib/suppression';
+
+/**
+ * Ingest provider webhooks (JSON) and raw RFC 822 inbound mail
+ * (message/rfc822 or text/plain bodies).
+ *
+ * Signed webhooks are verified with RESEND_WEBHOOK_SECRET; everything else
+ * needs the usual API authentication.
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.text();
+  const contentType = req.headers.get('content-type') ?? '';
+  const isJson = contentType.includes('application/json');
+
+  const signature = {
+    id: req.headers.get('svix-id'),
+    timestamp: req.headers.get('svix-timestamp'),
+    signature: req.headers.get('svix-signature'),
+  };
+  const secret = process.env.RESEND_WEBHOOK_SECRET;
+  const signed = isJson && secret && signature.signature
+    ? verifyWebhookSignature(body, signature, secret)
+    : false;
+
+  if (!signed) {
+    const auth = await authenticate(req);
+    if (!auth.ok) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+  }
+
+  let event: InboundEmailEvent | null;
+  try {
+    event = isJson
+      ? parseResendWebhook(JSON.parse(body) as ResendWebhookPayload, signature.id ?? undefined)
+      : parseRawEmail(body);
+  } catch (err) {
+    console.error('email/inbound parse error:', err);
+    return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+  }
+
+  if (!event) {
+    // Not an inbound signal (e.g. email.sent) - acknowledge so providers stop retrying
+    return NextResponse.json({ ignored: true });
+  }
+
+  const supabase = getServerSupabase();
+  if (!supabase) {
+    return NextResponse.json({ event: event.type, matched: false, dataSource: 'demo' });
+  }
+
+  try {
+    const processor = new InboundEmailProcessor(
+      new SupabaseInboundStore(supabase),
+      new SuppressionList({ store: new SupabaseSuppressionStore(supabase) })
+    );
+    const result = await processor.ingest(event);
+    return NextResponse.json({ ...result, dataSource: 'live' });
+  } catch (err) {
+    console.error('email/inbound error:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
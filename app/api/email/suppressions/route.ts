@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/api-auth';
+import { getServerSupabase } from '@/lib/supabase-server';
+import {
+  SuppressionList,
+  SupabaseSuppressionStore,
+  type SuppressionFilter,
+  type SuppressionInput,
+  type SuppressionReason,
+  type SuppressionType,
+} from '@/lib/suppression';
+
+function filterFrom(req: NextRequest): SuppressionFilter {
+  const params = req.nextUrl.searchParams;
+  const limit = params.get('limit');
+  return {
+    workspaceId: params.has('workspace_id') ? params.get('workspace_id') || null : undefined,
+    type: (params.get('type') as SuppressionType | null) ?? undefined,
+    reason: (params.get('reason') as SuppressionReason | null) ?? undefined,
+    limit: limit ? Number(limit) : undefined,
+  };
+}
+
+/**
+ * List suppressions, or export them with ?format=csv
+ */
+export async function GET(req: NextRequest) {
+  const auth = await authenticate(req);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const supabase = getServerSupabase();
+  if (!supabase) {
+    return NextResponse.json({ suppressions: [], dataSource: 'demo' });
+  }
+
+  try {
+    const list = new SuppressionList({ store: new SupabaseSuppressionStore(supabase) });
+    const filter = filterFrom(req);
+
+    if (req.nextUrl.searchParams.get('format') === 'csv') {
+      return new NextResponse(await list.exportCsv(filter), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="suppressions.csv"',
+        },
+      });
+    }
+
+    const suppressions = await list.list(filter);
+    return NextResponse.json({ suppressions, dataSource: 'live' });
+  } catch (err) {
+    console.error('email/suppressions GET error:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Add suppressions: JSON `{ entries: [...] }` or a CSV body (bulk import).
+ * Query params workspace_id and reason set defaults for CSV rows.
+ */
+export async function POST(req: NextRequest) {
+  const auth = await authenticate(req);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const supabase = getServerSupabase();
+  if (!supabase) {
+    return NextResponse.json({ error: 'No database connection' }, { status: 503 });
+  }
+
+  const list = new SuppressionList({ store: new SupabaseSuppressionStore(supabase) });
+  const contentType = req.headers.get('content-type') ?? '';
+
+  try {
+    if (contentType.includes('text/csv') || contentType.includes('text/plain')) {
+      const params = req.nextUrl.searchParams;
+      const result = await list.importCsv(await req.text(), {
+        workspaceId: params.get('workspace_id'),
+        reason: (params.get('reason') as SuppressionReason | null) ?? undefined,
+        source: 'import',
+      });
+      return NextResponse.json({ ...result, dataSource: 'live' });
+    }
+
+    const body = await req.json() as { entries?: SuppressionInput[] } & Partial<SuppressionInput>;
+    const inputs = body.entries ?? (body.value ? [body as SuppressionInput] : []);
+    if (inputs.length === 0) {
+      return NextResponse.json({ error: 'No suppressions provided' }, { status: 400 });
+    }
+
+    const created = [];
+    const errors: Array<{ value: string; error: string }> = [];
+    for (const input of inputs) {
+      try {
+        created.push(await list.suppress({
+          ...input,
+          expiresAt: input.expiresAt ? new Date(input.expiresAt) : null,
+          source: input.source ?? 'api',
+        }));
+      } catch (err) {
+        errors.push({ value: input.value, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+
+    return NextResponse.json({ suppressions: created, errors, dataSource: 'live' }, { status: created.length > 0 ? 201 : 400 });
+  } catch (err) {
+    console.error('email/suppressions POST error:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Remove a suppression (?value=...&workspace_id=...&type=...)
+ */
+export async function DELETE(req: NextRequest) {
+  const auth = await authenticate(req);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const params = req.nextUrl.searchParams;
+  const value = params.get('value');
+  if (!value) {
+    return NextResponse.json({ error: 'value is required' }, { status: 400 });
+  }
+
+  const supabase = getServerSupabase();
+  if (!supabase) {
+    return NextResponse.json({ error: 'No database connection' }, { status: 503 });
+  }
+
+  try {
+    const list = new SuppressionList({ store: new SupabaseSuppressionStore(supabase) });
+    const removed = await list.unsuppress(
+      value,
+      params.get('workspace_id'),
+      (params.get('type') as SuppressionType | null) ?? undefined
+    );
+    return NextResponse.json({ removed, dataSource: 'live' });
+  } catch (err) {
+    console.error('email/suppressions DELETE error:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/lib/supabase-server';
+import {
+  EmailTracker,
+  SupabaseTrackingStore,
+  getTrackingSecret,
+  trackingRequestFromHeaders,
+  verifyTrackingToken,
+} from '@/lib/email-tracking';
+
+/**
+ * Click redirect. Only signed destinations are followed, so the route
+ * can't be used as an open redirect.
+ */
+export async function GET(req: NextRequest) {
+  const secret = getTrackingSecret();
+  const token = secret ? verifyTrackingToken(req.nextUrl.searchParams.get('t'), secret) : null;
+
+  if (!token || token.type !== 'click' || !token.url) {
+    return NextResponse.json({ error: 'Invalid tracking link' }, { status: 400 });
+  }
+
+  const supabase = getServerSupabase();
+  if (supabase) {
+    try {
+      const tracker = new EmailTracker(new SupabaseTrackingStore(supabase));
+      await tracker.record(token, trackingRequestFromHeaders(req.headers, req.method));
+    } catch (err) {
+      // Never block the redirect on a tracking failure
+      console.error('email/track/click error:', err);
+    }
+  }
+
+  return NextResponse.redirect(token.url, 302);
+}
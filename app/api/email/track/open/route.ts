@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/lib/supabase-server';
+import {
+  EmailTracker,
+  SupabaseTrackingStore,
+  TRACKING_PIXEL,
+  getTrackingSecret,
+  trackingRequestFromHeaders,
+  verifyTrackingToken,
+} from '@/lib/email-tracking';
+
+function pixelResponse() {
+  return new NextResponse(new Uint8Array(TRACKING_PIXEL), {
+    headers: {
+      'Content-Type': 'image/gif',
+      'Content-Length': String(TRACKING_PIXEL.length),
+      'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+    },
+  });
+}
+
+/**
+ * Open tracking pixel. Always returns the 1x1 GIF; hits with a valid
+ * token are recorded (automated fetches are flagged, not counted).
+ */
+export async function GET(req: NextRequest) {
+  const secret = getTrackingSecret();
+  const token = secret ? verifyTrackingToken(req.nextUrl.searchParams.get('t'), secret) : null;
+  const supabase = getServerSupabase();
+
+  if (!token || token.type !== 'open' || !supabase) {
+    return pixelResponse();
+  }
+
+  try {
+    const tracker = new EmailTracker(new SupabaseTrackingStore(supabase));
+    await tracker.record(token, trackingRequestFromHeaders(req.headers, req.method));
+  } catch (err) {
+    console.error('email/track/open error:', err);
+  }
+
+  return pixelResponse();
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/lib/supabase-server';
+import { InboundEmailProcessor, SupabaseInboundStore } from '@/lib/inbound-email';
+import {
+  SuppressionList,
+  SupabaseSuppressionStore,
+  getSuppressionList,
+} from '@/lib/suppression';
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+function page(title: string, body: string, status = 200) {
+  return new NextResponse(
+    `<!doctype html><html><head><meta charset="utf-8"><meta name="robots" content="noindex"><title>${title}</title></head>` +
+    `<body style="font-family:sans-serif;max-width:480px;margin:64px auto;text-align:center">${body}</body></html>`,
+    { status, headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' } }
+  );
+}
+
+/**
+ * Unsubscribe confirmation page. GET never unsubscribes, so link scanners
+ * can't opt recipients out; the button POSTs back to this route.
+ */
+export async function GET(req: NextRequest) {
+  const token = req.nextUrl.searchParams.get('t');
+  const payload = getSuppressionList().verifyToken(token);
+  if (!payload) {
+    return page('Invalid link', '<p>This unsubscribe link is invalid or has expired.</p>', 400);
+  }
+
+  return page(
+    'Unsubscribe',
+    `<p>Unsubscribe <strong>${escapeHtml(payload.email)}</strong> from future emails?</p>` +
+    `<form method="POST"><input type="hidden" name="List-Unsubscribe" value="One-Click">` +
+    `<button type="submit">Unsubscribe</button></form>`
+  );
+}
+
+/**
+ * RFC 8058 one-click unsubscribe (List-Unsubscribe-Post target)
+ */
+export async function POST(req: NextRequest) {
+  const token = req.nextUrl.searchParams.get('t');
+  const payload = getSuppressionList().verifyToken(token);
+  if (!payload) {
+    return NextResponse.json({ error: 'Invalid unsubscribe token' }, { status: 400 });
+  }
+
+  const supabase = getServerSupabase();
+
+  try {
+    const suppressions = supabase
+      ? new SuppressionList({ store: new SupabaseSuppressionStore(supabase) })
+      : getSuppressionList();
+
+    await suppressions.suppress({
+      type: 'address',
+      value: payload.email,
+      workspaceId: payload.workspaceId,
+      reason: 'unsubscribe',
+      source: 'one_click',
+    });
+
+    if (supabase) {
+      // Record the event and stop the enrollment the email came from
+      await new InboundEmailProcessor(new SupabaseInboundStore(supabase)).ingest({
+        type: 'unsubscribe',
+        provider: 'one_click',
+        messageIds: [],
+        from: payload.email,
+        eventKey: payload.sendId ? `unsubscribe:${payload.sendId}` : undefined,
+        occurredAt: new Date(),
+      });
+    }
+  } catch (err) {
+    console.error('email/unsubscribe POST error:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+
+  return page('Unsubscribed', `<p><strong>${escapeHtml(payload.email)}</strong> has been unsubscribed.</p>`);
+}
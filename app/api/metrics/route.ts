@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/api-auth';
+import { getMetricsRegistry, OPENMETRICS_CONTENT_TYPE } from '@/lib/metrics-registry';
+import { getQueueMonitor } from '@/lib/queue-monitor';
+import { getEmailQueueService } from '@/lib/email-queue';
+import { getEmailRateLimiter } from '@/lib/rate-limiter';
+import { getEmailProcessor } from '@/lib/email-processor';
+import { withRouteTelemetry } from '@/lib/tracing';
+
+/**
+ * Scrapers authenticate with METRICS_SCRAPE_TOKEN as a bearer token;
+ * everything else goes through the regular API auth.
+ */
+async function isAuthorized(req: NextRequest): Promise<boolean> {
+  const scrapeToken = process.env.METRICS_SCRAPE_TOKEN;
+  if (scrapeToken && req.headers.get('authorization') === `Bearer ${scrapeToken}`) return true;
+  return (await authenticate(req)).ok;
+}
+
+/**
+ * OpenMetrics scrape endpoint: email queue gauges, skill / research job /
+ * route instruments from the shared registry
+ */
+export const GET = withRouteTelemetry('/api/metrics', async (req: NextRequest) => {
+  if (!(await isAuthorized(req))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const registry = getMetricsRegistry();
+    const monitor = getQueueMonitor(getEmailQueueService(), getEmailRateLimiter(), getEmailProcessor());
+    registry.registerCollector('email-queue', () => monitor.collectMetrics());
+
+    return new NextResponse(await registry.render(), {
+      headers: {
+        'Content-Type': OPENMETRICS_CONTENT_TYPE,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (err) {
+    console.error('metrics route error:', err);
+    return NextResponse.json({ error: 'Failed to collect metrics' }, { status: 500 });
+  }
+});
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticate } from '@/lib/api-auth';
 import { getServerSupabase } from '@/lib/supabase-server';
+import { getNotificationDispatcher, SupabaseNotificationStore, SupabaseNotificationFeed, ActivityFeedChannel } from '@/lib/notifications';
 import type { AnomalyResponse, AnomalyResult } from '@/lib/predictions/types';
 
 const DEMO_DATA: AnomalyResponse = {
@@ -103,6 +104,16 @@ export async function GET(req: NextRequest) {
       }
     }
 
+    // Route critical anomalies to webhooks / email / in-app (deduped per anomaly id)
+    try {
+      const dispatcher = getNotificationDispatcher();
+      dispatcher.setStore(new SupabaseNotificationStore(supabase));
+      dispatcher.setChannel(new ActivityFeedChannel(new SupabaseNotificationFeed(supabase)));
+      await dispatcher.notifyAnomalies(anomalies);
+    } catch (notifyErr) {
+      console.error('predictions/anomalies notify error:', notifyErr);
+    }
+
     const criticalCount = anomalies.filter(a => a.severity === 'critical').length;
     const warningCount = anomalies.filter(a => a.severity === 'warning').length;
     const infoCount = anomalies.filter(a => a.severity === 'info').length;
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/api-auth';
+import { getServerSupabase } from '@/lib/supabase-server';
+import {
+  IdentityError,
+  IdentityResolver,
+  SupabaseIdentityStore,
+  getIdentityResolver,
+} from '@/src/lib/identity/resolver';
+
+/**
+ * Merge history for a prospect: which source records were folded in,
+ * how they matched and which fields they changed. Signed-in users only
+ * see their own prospects.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticate(req);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const supabase = getServerSupabase();
+  const resolver = supabase
+    ? new IdentityResolver({ store: new SupabaseIdentityStore(supabase) })
+    : getIdentityResolver();
+
+  try {
+    const merges = await resolver.getMergeHistory(id, auth.userId);
+    return NextResponse.json({ merges, dataSource: supabase ? 'live' : 'demo' });
+  } catch (err) {
+    if (err instanceof IdentityError) {
+      return NextResponse.json({ error: err.message }, { status: 404 });
+    }
+    console.error('prospects/[id]/merges GET error:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/api-auth';
+import { getServerSupabase } from '@/lib/supabase-server';
+import {
+  IdentityError,
+  IdentityResolver,
+  SupabaseIdentityStore,
+  getIdentityResolver,
+} from '@/src/lib/identity/resolver';
+
+/**
+ * Decide an ambiguous match: `{ decision: 'merge' | 'separate' }`.
+ * Merging folds the record into the candidate prospect; separating
+ * creates a new prospect for it. Signed-in users can only decide their
+ * own reviews.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticate(req);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const { decision } = await req.json() as { decision?: 'merge' | 'separate' };
+  if (decision !== 'merge' && decision !== 'separate') {
+    return NextResponse.json({ error: 'decision must be merge or separate' }, { status: 400 });
+  }
+
+  const supabase = getServerSupabase();
+  const resolver = supabase
+    ? new IdentityResolver({ store: new SupabaseIdentityStore(supabase) })
+    : getIdentityResolver();
+
+  try {
+    const { review, prospect } = await resolver.resolveReview(id, decision, auth.userId ?? 'api', auth.userId);
+    return NextResponse.json({ review, prospect, dataSource: supabase ? 'live' : 'demo' });
+  } catch (err) {
+    if (err instanceof IdentityError) {
+      return NextResponse.json({ error: err.message }, { status: err.code === 'not_found' ? 404 : 409 });
+    }
+    console.error('prospects/reviews/[id] POST error:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/api-auth';
+import { getServerSupabase } from '@/lib/supabase-server';
+import {
+  IdentityResolver,
+  SupabaseIdentityStore,
+  getIdentityResolver,
+  type MatchReviewStatus,
+} from '@/src/lib/identity/resolver';
+
+/**
+ * List ambiguous prospect matches awaiting review (?status=pending&limit=50).
+ * Without a database the in-memory demo resolver is used.
+ */
+export async function GET(req: NextRequest) {
+  const auth = await authenticate(req);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const params = req.nextUrl.searchParams;
+  const limit = params.get('limit');
+  const filter = {
+    userId: auth.userId,
+    status: (params.get('status') as MatchReviewStatus | null) ?? 'pending',
+    limit: limit ? Number(limit) : undefined,
+  };
+
+  const supabase = getServerSupabase();
+  if (!supabase) {
+    return NextResponse.json({ reviews: await getIdentityResolver().listReviews(filter), dataSource: 'demo' });
+  }
+
+  try {
+    const resolver = new IdentityResolver({ store: new SupabaseIdentityStore(supabase) });
+    return NextResponse.json({ reviews: await resolver.listReviews(filter), dataSource: 'live' });
+  } catch (err) {
+    console.error('prospects/reviews GET error:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/api-auth';
+import { getServerSupabase } from '@/lib/supabase-server';
+import { getSequenceEngine, SupabaseSequenceStore } from '@/lib/sequence-engine';
+
+/**
+ * Advance due sequence enrollments once (called by cron or manually)
+ */
+export async function POST(req: NextRequest) {
+  const auth = await authenticate(req);
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const supabase = getServerSupabase();
+  if (!supabase) {
+    return NextResponse.json({ error: 'No database connection' }, { status: 503 });
+  }
+
+  try {
+    const engine = getSequenceEngine();
+    engine.setStore(new SupabaseSequenceStore(supabase));
+
+    const summary = await engine.runOnce();
+    return NextResponse.json({ summary, dataSource: 'live' });
+  } catch (err) {
+    console.error('sequences/run POST error:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
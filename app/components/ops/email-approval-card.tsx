@@ -0,0 +1,243 @@
+'use client';
+
+import { useState } from 'react';
+import { formatAutonomyTime } from '@/app/hooks/use-autonomy';
+import { getRiskScoreColor, type ApprovalDecision } from '@/app/hooks/use-email-approvals';
+import type { ApprovalEditInput, ApprovalQueueEntry, RecipientPreview } from '@/lib/approval-queue';
+
+const fieldStyle = {
+  backgroundColor: 'var(--color-bg-primary)',
+  borderColor: 'var(--color-border)',
+  color: 'var(--color-text-primary)',
+};
+
+export function EmailApprovalCard({
+  approval,
+  onDecide,
+  onEdit,
+  onLoadPreviews,
+}: {
+  approval: ApprovalQueueEntry;
+  onDecide: (id: string, action: ApprovalDecision, comment?: string) => Promise<unknown>;
+  onEdit: (id: string, input: Omit<ApprovalEditInput, 'reviewer'>) => Promise<unknown>;
+  onLoadPreviews: (id: string, offset?: number, limit?: number) => Promise<{ total: number; previews: RecipientPreview[] }>;
+}) {
+  const [comment, setComment] = useState('');
+  const [previews, setPreviews] = useState<RecipientPreview[] | null>(null);
+  const [total, setTotal] = useState(0);
+  const [editing, setEditing] = useState(false);
+  const [subject, setSubject] = useState(approval.subject_template ?? approval.sample_subject ?? '');
+  const [body, setBody] = useState(approval.body_html_template ?? approval.body_text_template ?? approval.sample_body ?? '');
+  const [busy, setBusy] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const run = async (fn: () => Promise<unknown>) => {
+    setBusy(true);
+    setActionError(null);
+    try {
+      await fn();
+      setComment('');
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const togglePreviews = () => run(async () => {
+    if (previews) {
+      setPreviews(null);
+      return;
+    }
+    const result = await onLoadPreviews(approval.id, 0, 5);
+    setPreviews(result.previews);
+    setTotal(result.total);
+  });
+
+  const saveEdit = () => run(async () => {
+    const isHtml = approval.body_html_template !== null || /<[a-z][\s\S]*>/i.test(body);
+    await onEdit(approval.id, {
+      subject,
+      ...(isHtml ? { bodyHtml: body } : { bodyText: body }),
+      comment: comment || undefined,
+    });
+    setEditing(false);
+    setPreviews(null);
+  });
+
+  const lastNote = [...approval.review_history].reverse().find(e => e.comment && e.action !== 'submitted');
+
+  return (
+    <div
+      className="rounded-xl border p-4"
+      style={{
+        backgroundColor: 'var(--color-bg-elevated)',
+        borderColor: 'var(--color-border)',
+        boxShadow: 'var(--shadow-card)',
+      }}
+    >
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-2">
+            <span className={`px-2 py-0.5 text-xs font-medium rounded-full border ${getRiskScoreColor(approval.risk_score)}`}>
+              Risk {approval.risk_score ?? '--'}
+            </span>
+            <span className="text-xs" style={{ color: 'var(--color-text-tertiary)' }}>
+              {approval.emails_count} email{approval.emails_count !== 1 ? 's' : ''}
+            </span>
+            {approval.status === 'modifications_requested' && (
+              <span className="px-2 py-0.5 text-xs font-medium rounded-full border text-amber-600 bg-amber-50 border-amber-200">
+                changes requested
+              </span>
+            )}
+            <span className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+              {formatAutonomyTime(approval.requested_at)}
+            </span>
+          </div>
+
+          {editing ? (
+            <div className="space-y-2">
+              <input
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+                aria-label="Batch subject"
+                className="w-full px-3 py-2 text-sm rounded-lg border outline-none"
+                style={fieldStyle}
+              />
+              <textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                rows={6}
+                aria-label="Batch body"
+                className="w-full px-3 py-2 text-sm font-mono rounded-lg border outline-none"
+                style={fieldStyle}
+              />
+            </div>
+          ) : (
+            <>
+              <h4 className="font-medium truncate" style={{ color: 'var(--color-text-primary)' }}>
+                {approval.sample_subject ?? approval.subject_template}
+              </h4>
+              <p className="text-sm mt-1 line-clamp-3 whitespace-pre-line" style={{ color: 'var(--color-text-secondary)' }}>
+                {(approval.sample_body ?? '').replace(/<[^>]+>/g, ' ')}
+              </p>
+            </>
+          )}
+
+          {approval.risk_factors && approval.risk_factors.length > 0 && (
+            <ul className="mt-3 space-y-0.5 text-xs" style={{ color: 'var(--color-text-tertiary)' }}>
+              {approval.risk_factors.map((factor) => (
+                <li key={factor}>&bull; {factor}</li>
+              ))}
+            </ul>
+          )}
+
+          {lastNote && (
+            <p className="mt-2 text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+              <span className="font-medium">{lastNote.action.replace(/_/g, ' ')}:</span> {lastNote.comment}
+            </p>
+          )}
+
+          {previews && (
+            <div className="mt-3 pt-3 border-t space-y-3" style={{ borderColor: 'var(--color-border-subtle)' }}>
+              {previews.map((preview) => (
+                <div key={preview.to} className="text-xs">
+                  <p className="font-medium" style={{ color: 'var(--color-text-primary)' }}>
+                    {preview.to}: {preview.subject}
+                  </p>
+                  <p className="mt-0.5 line-clamp-2" style={{ color: 'var(--color-text-secondary)' }}>
+                    {(preview.text ?? preview.html ?? '').replace(/<[^>]+>/g, ' ')}
+                  </p>
+                  {preview.missing.length > 0 && (
+                    <p className="text-amber-600 mt-0.5">Missing: {preview.missing.join(', ')}</p>
+                  )}
+                </div>
+              ))}
+              {total > previews.length && (
+                <p className="text-xs" style={{ color: 'var(--color-text-tertiary)' }}>
+                  +{total - previews.length} more recipients
+                </p>
+              )}
+            </div>
+          )}
+
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            placeholder="Comment for the requester"
+            aria-label="Review comment"
+            className="mt-3 w-full px-3 py-2 text-sm rounded-lg border outline-none"
+            style={fieldStyle}
+          />
+          {actionError && <p className="mt-1 text-xs text-rose-600">{actionError}</p>}
+        </div>
+
+        <div className="flex flex-col gap-2">
+          {editing ? (
+            <>
+              <button
+                onClick={saveEdit}
+                disabled={busy}
+                className="px-3 py-1.5 bg-emerald-50 text-emerald-700 text-sm font-medium rounded-md hover:bg-emerald-100 transition-colors border border-emerald-200 disabled:opacity-50"
+              >
+                Save
+              </button>
+              <button
+                onClick={() => setEditing(false)}
+                disabled={busy}
+                className="px-3 py-1.5 text-sm rounded-md transition-colors border"
+                style={{ backgroundColor: 'var(--color-bg-tertiary)', color: 'var(--color-text-secondary)', borderColor: 'var(--color-border)' }}
+              >
+                Cancel
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={() => run(() => onDecide(approval.id, 'approve', comment || undefined))}
+                disabled={busy}
+                aria-label={`Approve and send batch: ${approval.sample_subject ?? approval.id}`}
+                className="px-3 py-1.5 bg-emerald-50 text-emerald-700 text-sm font-medium rounded-md hover:bg-emerald-100 transition-colors border border-emerald-200 disabled:opacity-50"
+              >
+                Approve
+              </button>
+              <button
+                onClick={() => run(() => onDecide(approval.id, 'request_changes', comment))}
+                disabled={busy || !comment.trim()}
+                title={comment.trim() ? undefined : 'Add a comment first'}
+                className="px-3 py-1.5 bg-amber-50 text-amber-700 text-sm font-medium rounded-md hover:bg-amber-100 transition-colors border border-amber-200 disabled:opacity-50"
+              >
+                Request changes
+              </button>
+              <button
+                onClick={() => run(() => onDecide(approval.id, 'reject', comment || undefined))}
+                disabled={busy}
+                aria-label={`Reject batch: ${approval.sample_subject ?? approval.id}`}
+                className="px-3 py-1.5 bg-rose-50 text-rose-700 text-sm font-medium rounded-md hover:bg-rose-100 transition-colors border border-rose-200 disabled:opacity-50"
+              >
+                Reject
+              </button>
+              <button
+                onClick={() => setEditing(true)}
+                disabled={busy}
+                className="px-3 py-1.5 text-sm rounded-md transition-colors border"
+                style={{ backgroundColor: 'var(--color-bg-tertiary)', color: 'var(--color-text-secondary)', borderColor: 'var(--color-border)' }}
+              >
+                Edit
+              </button>
+              <button
+                onClick={togglePreviews}
+                disabled={busy || approval.recipients.length === 0}
+                className="px-3 py-1.5 text-sm rounded-md transition-colors border disabled:opacity-50"
+                style={{ backgroundColor: 'var(--color-bg-tertiary)', color: 'var(--color-text-secondary)', borderColor: 'var(--color-border)' }}
+              >
+                {previews ? 'Hide previews' : 'Preview'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -36,12 +36,16 @@ export function AutonomySettings({
   const [autoExecute, setAutoExecute] = useState(settings.auto_execute_enabled);
   const [threshold, setThreshold] = useState(settings.confidence_threshold);
   const [costGate, setCostGate] = useState(settings.cost_gate_threshold);
+  const [approveMaxRisk, setApproveMaxRisk] = useState(settings.email_auto_approve_max_risk);
+  const [approveMaxBatch, setApproveMaxBatch] = useState(settings.email_auto_approve_max_batch);
 
   useEffect(() => {
     setLevel(settings.autonomy_level);
     setAutoExecute(settings.auto_execute_enabled);
     setThreshold(settings.confidence_threshold);
     setCostGate(settings.cost_gate_threshold);
+    setApproveMaxRisk(settings.email_auto_approve_max_risk);
+    setApproveMaxBatch(settings.email_auto_approve_max_batch);
   }, [settings]);
 
   const handleSave = () => {
@@ -50,6 +54,8 @@ export function AutonomySettings({
       auto_execute_enabled: autoExecute,
       confidence_threshold: threshold,
       cost_gate_threshold: costGate,
+      email_auto_approve_max_risk: approveMaxRisk,
+      email_auto_approve_max_batch: approveMaxBatch,
     });
   };
 
@@ -176,6 +182,55 @@ export function AutonomySettings({
         </div>
       </div>
 
+      {/* Email Auto-Approval */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium" style={{ color: 'var(--color-text-primary)' }}>
+            Email Auto-Approval Risk Limit
+          </label>
+          <span className="text-sm font-semibold" style={{ color: '#de347f' }}>
+            {approveMaxRisk === 0 ? 'Off' : `≤ ${approveMaxRisk}`}
+          </span>
+        </div>
+        <p className="text-xs" style={{ color: 'var(--color-text-tertiary)' }}>
+          Email batches at or below this risk score skip review when auto-execute is on.
+          Conservative mode always requires review.
+        </p>
+        <input
+          type="range"
+          min={0}
+          max={60}
+          step={5}
+          value={approveMaxRisk}
+          aria-label="Email auto-approval maximum risk score"
+          onChange={(e) => setApproveMaxRisk(Number(e.target.value))}
+          className="w-full accent-[#de347f]"
+        />
+        <div className="flex justify-between text-xs" style={{ color: 'var(--color-text-muted)' }}>
+          <span>Off</span>
+          <span>60</span>
+        </div>
+        <div className="flex items-center gap-3 pt-1">
+          <label className="text-xs" style={{ color: 'var(--color-text-tertiary)' }}>
+            Max batch size
+          </label>
+          <input
+            type="number"
+            min={0}
+            step={10}
+            value={approveMaxBatch}
+            aria-label="Email auto-approval maximum batch size"
+            onChange={(e) => setApproveMaxBatch(Number(e.target.value))}
+            className="w-28 px-3 py-1.5 text-sm rounded-lg border outline-none transition-colors"
+            style={{
+              backgroundColor: 'var(--color-bg-primary)',
+              borderColor: 'var(--color-border)',
+              color: 'var(--color-text-primary)',
+            }}
+          />
+        </div>
+      </div>
+
       {/* Save */}
       <div className="pt-2">
         <button
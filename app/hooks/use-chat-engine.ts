@@ -29,6 +29,7 @@ function deriveSessionTitle(text: string, output?: SkillOutput): string {
       'research.prospect_search': 'Prospect Search',
       'analytics.pipeline_summary': 'Pipeline Summary',
       'analytics.kpi_detail': 'KPI Detail',
+      'analytics.experiment_results': 'Experiments',
       'intelligence.recommendations': 'Recommendations',
       'workflow.campaign_create': 'Campaign',
       'workflow.export': 'Export',
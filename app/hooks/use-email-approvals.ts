@@ -0,0 +1,127 @@
+/**
+ * Email Approval Hooks
+ *
+ * Drives the ops review queue for email batches:
+ * - Pending / changes-requested batches from /api/email/approvals
+ * - Per-recipient previews for one batch
+ * - Approve, reject, request changes and edit with comments
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type {
+  ApprovalEditInput,
+  ApprovalQueueEntry,
+  RecipientPreview,
+} from '@/lib/approval-queue';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ApprovalDecision = 'approve' | 'reject' | 'request_changes';
+
+export interface EmailApprovalsResult {
+  approvals: ApprovalQueueEntry[];
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+  decide: (id: string, action: ApprovalDecision, comment?: string) => Promise<ApprovalQueueEntry>;
+  edit: (id: string, input: Omit<ApprovalEditInput, 'reviewer'>) => Promise<ApprovalQueueEntry>;
+  loadPreviews: (id: string, offset?: number, limit?: number) => Promise<{ total: number; previews: RecipientPreview[] }>;
+}
+
+// ============================================================================
+// Hook: useEmailApprovals
+// ============================================================================
+
+async function send<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await globalThis.fetch(url, init);
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`);
+  return json as T;
+}
+
+export function useEmailApprovals(refreshInterval: number = 30000): EmailApprovalsResult {
+  const [approvals, setApprovals] = useState<ApprovalQueueEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isError, setIsError] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchApprovals = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setIsError(false);
+      setError(null);
+      const json = await send<{ approvals: ApprovalQueueEntry[] }>('/api/email/approvals');
+      setApprovals(json.approvals ?? []);
+    } catch (err) {
+      setIsError(true);
+      setError(err instanceof Error ? err : new Error('Failed to fetch approvals'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchApprovals();
+  }, [fetchApprovals]);
+
+  useEffect(() => {
+    if (!refreshInterval || refreshInterval <= 0) return;
+    const interval = setInterval(fetchApprovals, refreshInterval);
+    return () => clearInterval(interval);
+  }, [refreshInterval, fetchApprovals]);
+
+  const decide = useCallback(async (id: string, action: ApprovalDecision, comment?: string) => {
+    const { approval } = await send<{ approval: ApprovalQueueEntry }>(`/api/email/approvals/${id}/decision`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, comment }),
+    });
+    // Decided batches leave the queue; changes-requested ones stay visible
+    setApprovals(prev => approval.status === 'approved' || approval.status === 'rejected'
+      ? prev.filter(a => a.id !== id)
+      : prev.map(a => (a.id === id ? approval : a)));
+    return approval;
+  }, []);
+
+  const edit = useCallback(async (id: string, input: Omit<ApprovalEditInput, 'reviewer'>) => {
+    const { approval } = await send<{ approval: ApprovalQueueEntry }>(`/api/email/approvals/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    setApprovals(prev => prev.map(a => (a.id === id ? approval : a)));
+    return approval;
+  }, []);
+
+  const loadPreviews = useCallback(async (id: string, offset: number = 0, limit: number = 10) => {
+    return send<{ total: number; previews: RecipientPreview[] }>(
+      `/api/email/approvals/${id}?offset=${offset}&limit=${limit}`
+    );
+  }, []);
+
+  return {
+    approvals,
+    isLoading,
+    isError,
+    error,
+    refetch: fetchApprovals,
+    decide,
+    edit,
+    loadPreviews,
+  };
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/** Badge colours for a risk score (same bands as the template linter) */
+export function getRiskScoreColor(score: number | null): string {
+  if (score === null) return 'text-slate-600 bg-slate-50 border-slate-200';
+  if (score >= 60) return 'text-rose-600 bg-rose-50 border-rose-200';
+  if (score >= 30) return 'text-amber-600 bg-amber-50 border-amber-200';
+  return 'text-emerald-600 bg-emerald-50 border-emerald-200';
+}
@@ -0,0 +1,24 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { watchJobProgress, type JobProgress } from '@/lib/sse/job-progress';
+
+/**
+ * Live progress for one research job from the progress SSE stream.
+ * Falls back to polling only while the stream is unavailable.
+ *
+ * @returns null until the first snapshot or event arrives
+ */
+export function useJobProgress(
+  jobId: string,
+  { enabled = true, pollIntervalMs }: { enabled?: boolean; pollIntervalMs?: number } = {}
+): JobProgress | null {
+  const [progress, setProgress] = useState<JobProgress | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !jobId) return;
+    return watchJobProgress(jobId, setProgress, { pollIntervalMs });
+  }, [jobId, enabled, pollIntervalMs]);
+
+  return progress;
+}
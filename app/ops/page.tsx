@@ -9,12 +9,14 @@ import {
   useSelfHealingEvents,
   formatDuration,
 } from '@/app/hooks/use-autonomy';
+import { useEmailApprovals } from '@/app/hooks/use-email-approvals';
 import { RecommendationCard } from '@/app/components/ops/recommendation-card';
 import { ActionItemCard } from '@/app/components/ops/action-item-card';
 import { AutonomyTaskCard } from '@/app/components/ops/autonomy-task-card';
 import { HealingEventCard } from '@/app/components/ops/healing-event-card';
 import { OverrideRateIndicator } from '@/app/components/ops/override-rate';
 import { ConfidenceDistributionBar } from '@/app/components/ops/confidence-distribution';
+import { EmailApprovalCard } from '@/app/components/ops/email-approval-card';
 
 
 function StatCard({ label, children }: { label: string; children: React.ReactNode }) {
@@ -36,7 +38,7 @@ function StatCard({ label, children }: { label: string; children: React.ReactNod
 }
 
 function OpsContent() {
-  const [activeTab, setActiveTab] = useState<'review' | 'performance'>('review');
+  const [activeTab, setActiveTab] = useState<'review' | 'emails' | 'performance'>('review');
 
   const {
     recommendations,
@@ -72,6 +74,15 @@ function OpsContent() {
     escalationRate,
   } = useSelfHealingEvents(30000);
 
+  const {
+    approvals: emailApprovals,
+    isLoading: emailApprovalsLoading,
+    error: emailApprovalsError,
+    decide: decideEmailApproval,
+    edit: editEmailApproval,
+    loadPreviews: loadEmailPreviews,
+  } = useEmailApprovals(30000);
+
   const escalatedEvents = healingEvents.filter(e => e.status === 'escalated');
   const pendingCount = reviewQueue.length + escalatedEvents.length;
 
@@ -144,6 +155,27 @@ function OpsContent() {
                 </span>
               )}
             </button>
+            <button
+              onClick={() => setActiveTab('emails')}
+              className="px-4 py-2.5 text-sm font-medium border-b-2 transition-colors flex items-center gap-2"
+              style={{
+                borderColor: activeTab === 'emails' ? '#de347f' : 'transparent',
+                color: activeTab === 'emails' ? '#de347f' : 'var(--color-text-secondary)',
+              }}
+            >
+              Email Approvals
+              {emailApprovals.length > 0 && (
+                <span
+                  className="px-2 py-0.5 text-xs font-medium rounded-full"
+                  style={{
+                    backgroundColor: activeTab === 'emails' ? 'rgba(222, 52, 127, 0.1)' : 'var(--color-bg-tertiary)',
+                    color: activeTab === 'emails' ? '#de347f' : 'var(--color-text-tertiary)',
+                  }}
+                >
+                  {emailApprovals.length}
+                </span>
+              )}
+            </button>
             <button
               onClick={() => setActiveTab('performance')}
               className="px-4 py-2.5 text-sm font-medium border-b-2 transition-colors"
@@ -212,6 +244,39 @@ function OpsContent() {
             </>
           )}
 
+          {activeTab === 'emails' && (
+            <section>
+              <h2 className="text-base font-semibold mb-3" style={{ color: 'var(--color-text-primary)' }}>
+                Email Batches Awaiting Review
+              </h2>
+              {emailApprovalsError && (
+                <div className="mb-4 p-3 rounded-lg bg-rose-50 border border-rose-200">
+                  <p className="text-sm text-rose-700">{emailApprovalsError.message}</p>
+                </div>
+              )}
+              {emailApprovals.length === 0 ? (
+                <div
+                  className="text-center py-8 border rounded-lg"
+                  style={{ borderColor: 'var(--color-border)', color: 'var(--color-text-tertiary)' }}
+                >
+                  <p>{emailApprovalsLoading ? 'Loading...' : 'No email batches need review'}</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {emailApprovals.map((approval) => (
+                    <EmailApprovalCard
+                      key={approval.id}
+                      approval={approval}
+                      onDecide={decideEmailApproval}
+                      onEdit={editEmailApproval}
+                      onLoadPreviews={loadEmailPreviews}
+                    />
+                  ))}
+                </div>
+              )}
+            </section>
+          )}
+
           {activeTab === 'performance' && (
             <>
               {/* Stats Overview */}
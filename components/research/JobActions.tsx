@@ -1,4 +1,4 @@
-/** JobActions.tsx * * Action buttons for research jobs: * - Cancel button for running jobs * - Retry button for failed jobs * - View results for completed jobs */
+/** JobActions.tsx * * Action buttons for research jobs: * - Cancel button for running jobs * - Retry button for failed jobs * - View results for completed jobs * - Download row errors for imports */
 
 'use client';
 
@@ -10,7 +10,8 @@ import {
   Eye,
   Loader2,
   AlertTriangle,
-  CheckCircle2
+  CheckCircle2,
+  Download
 } from 'lucide-react';
 import { ResearchJob } from '@/lib/research/types';
 import { getSupabaseClient } from '@/lib/supabase-client';
@@ -49,10 +50,17 @@ const buttonConfig = {
     color: 'emerald',
     variant: 'solid' as const,
   },
+  errors: {
+    icon: Download,
+    label: 'Download Errors',
+    loadingLabel: 'Preparing...',
+    color: 'amber',
+    variant: 'outline' as const,
+  },
 };
 
 interface ActionButtonProps {
-  type: 'cancel' | 'retry' | 'view';
+  type: keyof typeof buttonConfig;
   onClick: () => void;
   state: ActionState;
   disabled?: boolean;
@@ -134,6 +142,7 @@ function ActionButton({ type, onClick, state, disabled }: ActionButtonProps) {
 export function JobActions({ job, className, onAction }: JobActionsProps) {
   const [cancelState, setCancelState] = useState<ActionState>({ status: 'idle' });
   const [retryState, setRetryState] = useState<ActionState>({ status: 'idle' });
+  const [errorsState, setErrorsState] = useState<ActionState>({ status: 'idle' });
 
   const supabase = getSupabaseClient();
 
@@ -141,6 +150,7 @@ export function JobActions({ job, className, onAction }: JobActionsProps) {
   const canCancel = ['pending', 'queued', 'active', 'paused'].includes(job.status);
   const canRetry = job.status === 'failed';
   const canView = job.status === 'completed' && job.results_summary;
+  const canDownloadErrors = job.job_type === 'bulk_import' && job.failed_requests > 0;
 
   const handleCancel = async () => {
     if (!canCancel) return;
@@ -211,8 +221,37 @@ export function JobActions({ job, className, onAction }: JobActionsProps) {
     onAction?.('view', job);
   };
 
+  const handleDownloadErrors = async () => {
+    if (!canDownloadErrors) return;
+
+    setErrorsState({ status: 'loading' });
+
+    try {
+      const response = await fetch(`/api/research/jobs/${job.id}/errors?format=csv`);
+      if (!response.ok) throw new Error(`Download failed (${response.status})`);
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `import-${job.id}-errors.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      setErrorsState({ status: 'success' });
+      onAction?.('errors', job);
+
+      setTimeout(() => setErrorsState({ status: 'idle' }), 2000);
+    } catch (err) {
+      setErrorsState({
+        status: 'error',
+        message: err instanceof Error ? err.message : 'Failed to download errors'
+      });
+      setTimeout(() => setErrorsState({ status: 'idle' }), 3000);
+    }
+  };
+
   // If no actions available, return null
-  if (!canCancel && !canRetry && !canView) {
+  if (!canCancel && !canRetry && !canView && !canDownloadErrors) {
     return null;
   }
 
@@ -242,6 +281,13 @@ export function JobActions({ job, className, onAction }: JobActionsProps) {
           state={{ status: 'idle' }}
         />
       )}
+      {canDownloadErrors && (
+        <ActionButton
+          type="errors"
+          onClick={handleDownloadErrors}
+          state={errorsState}
+        />
+      )}
     </div>
   );
 }
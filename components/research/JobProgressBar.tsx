@@ -1,11 +1,13 @@
-/** JobProgressBar.tsx * * Enhanced progress bar component for running jobs with: * - Visual percentage bar * - Estimated time remaining * - Smooth animations */
+/** JobProgressBar.tsx * * Enhanced progress bar component for running jobs with: * - Visual percentage bar * - Estimated time remaining * - Smooth animations * - Live updates from the job progress stream */
 
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { cn } from '@/lib/utils';
 import { Loader2, Clock } from 'lucide-react';
-import { ResearchJob } from '@/lib/research/types';
+import { ResearchJob, ResearchJobStatus } from '@/lib/research/types';
+import { useJobProgress } from '@/app/hooks/use-job-progress';
+import type { JobProgress } from '@/lib/sse/job-progress';
 
 interface JobProgressBarProps {
   job: ResearchJob;
@@ -55,6 +57,25 @@ function calculateTimeEstimate(job: ResearchJob): TimeEstimate | null {
   return { remainingMs, text };
 }
 
+/** Statuses whose progress is streamed */
+const LIVE_STATUSES: ResearchJobStatus[] = ['pending', 'queued', 'active', 'paused'];
+
+/**
+ * Overlay streamed progress on the job row (the stream says `running`
+ * where the row says `active`)
+ */
+function withLiveProgress(job: ResearchJob, live: JobProgress | null): ResearchJob {
+  if (!live) return job;
+  return {
+    ...job,
+    status: live.status === 'running' ? 'active' : live.status,
+    progress_percent: live.percentage,
+    completed_requests: live.processed ?? job.completed_requests,
+    total_requests: live.total ?? job.total_requests,
+    failed_requests: live.errorCount ?? job.failed_requests,
+  };
+}
+
 const sizeConfig = {
   sm: {
     height: 'h-1.5',
@@ -74,11 +95,13 @@ const sizeConfig = {
 };
 
 export function JobProgressBar({ 
-  job, 
+  job: row, 
   className, 
   size = 'md',
   showTimeEstimate = true 
 }: JobProgressBarProps) {
+  const live = useJobProgress(row.id, { enabled: LIVE_STATUSES.includes(row.status) });
+  const job = useMemo(() => withLiveProgress(row, live), [row, live]);
   const [mounted, setMounted] = useState(false);
   const [timeEstimate, setTimeEstimate] = useState<TimeEstimate | null>(null);
 
@@ -88,7 +111,7 @@ export function JobProgressBar({
     setTimeEstimate(calculateTimeEstimate(job));
   }, [job]);
 
-  // Update time estimate every second
+  // Tick the time estimate every second (progress itself is streamed)
   useEffect(() => {
     if (job.status !== 'active') return;
 
@@ -4,7 +4,8 @@
  * Research Jobs List Component
  *
  * Display active and completed research jobs with progress tracking,
- * stats dashboard, and action buttons.
+ * stats dashboard, and action buttons. Chained jobs are shown as a tree,
+ * each follow-up under the job it waits on.
  */
 
 import React, { useEffect, useState, useCallback } from 'react';
@@ -19,6 +20,8 @@ import {
   Cpu,
   RefreshCw,
   AlertCircle,
+  CornerDownRight,
+  Repeat,
 } from 'lucide-react';
 import { ResearchJob, ResearchJobStatus } from '@/lib/research/types';
 import { getSupabaseClient } from '@/lib/supabase-client';
@@ -45,6 +48,14 @@ const statusConfig: Record<ResearchJobStatus, {
   cancelled: { icon: XCircle, color: 'text-slate-400', label: 'Cancelled' },
 };
 
+const ACTIVE_STATUSES: ResearchJobStatus[] = ['pending', 'queued', 'active', 'paused'];
+const FINISHED_STATUSES: ResearchJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+interface JobNode {
+  job: ResearchJob;
+  children: JobNode[];
+}
+
 const jobTypeConfig: Record<ResearchJob['job_type'], { icon: React.ElementType; label: string }> = {
   prospect_search: { icon: Search, label: 'Prospect Search' },
   person_enrich: { icon: User, label: 'Person Enrichment' },
@@ -136,17 +147,18 @@ export function ResearchJobsList({ userId, className = '' }: ResearchJobsListPro
     return () => clearInterval(interval);
   }, [fetchJobs, loading]);
 
-  // Filter jobs
-  const filteredJobs = jobs.filter((job) => {
+  // Filter chains: a chain is shown whole when any of its jobs matches
+  const matchesFilter = (job: ResearchJob) => {
     switch (filter) {
       case 'active':
-        return ['pending', 'queued', 'active', 'paused'].includes(job.status);
+        return ACTIVE_STATUSES.includes(job.status);
       case 'completed':
-        return ['completed', 'failed', 'cancelled'].includes(job.status);
+        return FINISHED_STATUSES.includes(job.status);
       default:
         return true;
     }
-  });
+  };
+  const filteredChains = buildJobTree(jobs).filter((node) => someInTree(node, matchesFilter));
 
   // Handle action completion
   const handleAction = useCallback((action: string, job: ResearchJob) => {
@@ -220,15 +232,15 @@ export function ResearchJobsList({ userId, className = '' }: ResearchJobsListPro
 
         {/* Jobs List */}
         <div className="divide-y divide-slate-800">
-          {filteredJobs.length === 0 ? (
+          {filteredChains.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-12 text-slate-500">
               <Search className="w-12 h-12 mb-4 opacity-50" />
               <p>No {filter} research jobs found</p>
               <p className="mt-2 text-sm">Try typing "research 50 VP Sales in fintech"</p>
             </div>
           ) : (
-            filteredJobs.map((job) => (
-              <JobCard key={job.id} job={job} onAction={handleAction} />
+            filteredChains.map((node) => (
+              <JobTree key={node.job.id} node={node} onAction={handleAction} />
             ))
           )}
         </div>
@@ -237,13 +249,60 @@ export function ResearchJobsList({ userId, className = '' }: ResearchJobsListPro
   );
 }
 
+/**
+ * Arrange jobs into chains by parent_job_id. Jobs whose parent isn't
+ * loaded are shown at the top level.
+ */
+function buildJobTree(jobs: ResearchJob[]): JobNode[] {
+  const nodes = new Map<string, JobNode>(jobs.map((job) => [job.id, { job, children: [] }]));
+  const roots: JobNode[] = [];
+
+  nodes.forEach((node) => {
+    const parent = node.job.parent_job_id ? nodes.get(node.job.parent_job_id) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  // Jobs arrive newest first; follow-ups read in chain order
+  nodes.forEach((node) => node.children.reverse());
+  return roots;
+}
+
+function someInTree(node: JobNode, test: (job: ResearchJob) => boolean): boolean {
+  return test(node.job) || node.children.some((child) => someInTree(child, test));
+}
+
+interface JobTreeProps {
+  node: JobNode;
+  depth?: number;
+  onAction?: (action: string, job: ResearchJob) => void;
+}
+
+function JobTree({ node, depth = 0, onAction }: JobTreeProps) {
+  return (
+    <>
+      <JobCard job={node.job} depth={depth} onAction={onAction} />
+      {node.children.map((child) => (
+        <JobTree key={child.job.id} node={child} depth={depth + 1} onAction={onAction} />
+      ))}
+    </>
+  );
+}
+
 interface JobCardProps {
   job: ResearchJob;
+  /** Position in a job chain; follow-ups are indented under their parent */
+  depth?: number;
   onAction?: (action: string, job: ResearchJob) => void;
 }
 
-function JobCard({ job, onAction }: JobCardProps) {
+function JobCard({ job, depth = 0, onAction }: JobCardProps) {
   const status = statusConfig[job.status];
+  // A pending follow-up is waiting on its parent rather than a schedule
+  const statusLabel = job.parent_job_id && job.status === 'pending' ? 'Waiting on parent' : status.label;
   const jobType = jobTypeConfig[job.job_type];
   const StatusIcon = status.icon;
   const TypeIcon = jobType.icon;
@@ -260,9 +319,16 @@ function JobCard({ job, onAction }: JobCardProps) {
   };
 
   return (
-    <div className="px-6 py-4 hover:bg-slate-800/50 transition-colors">
+    <div
+      className="px-6 py-4 hover:bg-slate-800/50 transition-colors"
+      style={depth > 0 ? { paddingLeft: `${1.5 + depth * 2}rem` } : undefined}
+    >
       <div className="flex items-start justify-between gap-4">
         <div className="flex items-start space-x-4 flex-1">
+          {depth > 0 && (
+            <CornerDownRight className="mt-1 w-4 h-4 text-slate-600 shrink-0" aria-label="Runs after the job above" />
+          )}
+
           {/* Status Icon */}
           <div className={`mt-1 ${status.color}`}>
             <StatusIcon className={`w-5 h-5 ${job.status === 'active' ? 'animate-spin' : ''}`} />
@@ -276,8 +342,14 @@ function JobCard({ job, onAction }: JobCardProps) {
                 {jobType.label}
               </span>
               <span className={`px-2 py-0.5 text-xs rounded-full bg-slate-800 ${status.color}`}>
-                {status.label}
+                {statusLabel}
               </span>
+              {job.schedule_cron && (
+                <span className="flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-slate-800 text-sky-400">
+                  <Repeat className="w-3 h-3" />
+                  {job.schedule_cron}
+                </span>
+              )}
             </div>
 
             {/* Job Details */}
@@ -332,6 +404,7 @@ function JobCard({ job, onAction }: JobCardProps) {
         {/* Metadata */}
         <div className="text-right text-xs text-slate-500 space-y-1 shrink-0">
           <div>Created: {formatDate(job.created_at)}</div>
+          {job.status === 'pending' && job.scheduled_at && (<div>Scheduled: {formatDate(job.scheduled_at)}</div>)}
           {job.started_at && (<div>Started: {formatDate(job.started_at)}</div>)}
           {job.completed_at && (<div>Completed: {formatDate(job.completed_at)}</div>)}
           {job.retry_count > 0 && (<div className="text-amber-400">Retries: {job.retry_count}</div>)}
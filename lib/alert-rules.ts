@@ -0,0 +1,412 @@
+/**
+ * Alert Rules - Declarative Alerting
+ *
+ * Evaluates rules against metric samples fed in by the queue monitor:
+ * - Conditions over any series, with windowed aggregation
+ * - "for" durations (pending until the condition has held long enough)
+ * - Severities and message templates
+ * - Silences by rule, component or severity
+ * - Resolve notifications when a firing rule clears
+ */
+
+import type { Alert, AlertSeverity } from './queue-monitor';
+import type { MetricSample, MetricAggregation } from './metrics-store';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Threshold comparison */
+export type AlertComparator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+
+/** Single rule condition */
+export interface AlertCondition {
+  /** Series name, e.g. email_error_rate */
+  metric: string;
+  /** Only samples carrying these labels */
+  labels?: Record<string, string>;
+  op: AlertComparator;
+  threshold: number;
+  /** Aggregation over the window (default 'last') */
+  aggregation?: MetricAggregation;
+  /** Look-back window in ms (default: latest sample only) */
+  windowMs?: number;
+}
+
+/** Alert rule definition */
+export interface AlertRule {
+  id: string;
+  component: string;
+  severity: AlertSeverity;
+  /** All conditions must hold */
+  conditions: AlertCondition[];
+  /** How long the conditions must hold before firing (ms) */
+  forMs?: number;
+  /**
+   * Message template: {{value}}, {{threshold}} and {{metric}} refer to the
+   * first condition, {{values.<metric>}} to any condition; append :pct to
+   * format as a percentage
+   */
+  message: string;
+  enabled?: boolean;
+}
+
+/** Silence matchers (all set fields must match) */
+export interface SilenceMatchers {
+  ruleId?: string;
+  component?: string;
+  severity?: AlertSeverity;
+}
+
+/** Notification silence */
+export interface Silence {
+  id: string;
+  matchers: SilenceMatchers;
+  startsAt: Date;
+  endsAt: Date;
+  comment?: string;
+  createdBy?: string;
+}
+
+/** Rule evaluation state */
+export type RuleState = 'inactive' | 'pending' | 'firing';
+
+/** Firing / resolved notification */
+export interface AlertNotification {
+  status: 'firing' | 'resolved';
+  alert: Alert;
+}
+
+/** Rule status for dashboards */
+export interface RuleStatus {
+  ruleId: string;
+  state: RuleState;
+  activeSince: Date | null;
+  alert: Alert | null;
+  silenced: boolean;
+  values: Record<string, number | null>;
+}
+
+/** Engine configuration */
+export interface AlertEngineConfig {
+  rules?: AlertRule[];
+  /** Clock (tests) */
+  now?: () => Date;
+}
+
+/** Per-rule tracking */
+interface RuleTracking {
+  state: RuleState;
+  activeSince: Date | null;
+  alert: Alert | null;
+  notified: boolean;
+  values: Record<string, number | null>;
+}
+
+// ============================================================================
+// ALERT RULE ENGINE
+// ============================================================================
+
+/**
+ * Alert Rule Engine
+ *
+ * Buffers recent samples, evaluates every enabled rule on each call to
+ * evaluate() and returns the notifications to deliver.
+ */
+export class AlertRuleEngine {
+  private rules: Map<string, AlertRule> = new Map();
+  private tracking: Map<string, RuleTracking> = new Map();
+  private silences: Map<string, Silence> = new Map();
+  private samples: Map<string, MetricSample[]> = new Map();
+  private now: () => Date;
+
+  constructor(config: AlertEngineConfig = {}) {
+    this.now = config.now ?? (() => new Date());
+    for (const rule of config.rules ?? []) {
+      this.addRule(rule);
+    }
+  }
+
+  /**
+   * Add or replace a rule
+   */
+  addRule(rule: AlertRule): void {
+    if (!rule.id) {
+      throw new Error('Alert rule id is required');
+    }
+    if (rule.conditions.length === 0) {
+      throw new Error(`Alert rule ${rule.id} has no conditions`);
+    }
+    this.rules.set(rule.id, rule);
+  }
+
+  /**
+   * Remove a rule (its alert, if any, is dropped without a notification)
+   */
+  removeRule(ruleId: string): boolean {
+    this.tracking.delete(ruleId);
+    return this.rules.delete(ruleId);
+  }
+
+  /**
+   * Get all rules
+   */
+  getRules(): AlertRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  /**
+   * Silence matching alerts until endsAt
+   */
+  silence(input: Omit<Silence, 'id' | 'startsAt'> & { startsAt?: Date }): Silence {
+    const silence: Silence = {
+      ...input,
+      id: `silence-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      startsAt: input.startsAt ?? this.now(),
+    };
+    this.silences.set(silence.id, silence);
+    return silence;
+  }
+
+  /**
+   * Remove a silence
+   */
+  unsilence(silenceId: string): boolean {
+    return this.silences.delete(silenceId);
+  }
+
+  /**
+   * Get silences that have not expired
+   */
+  getSilences(): Silence[] {
+    const now = this.now().getTime();
+    for (const [id, silence] of this.silences) {
+      if (silence.endsAt.getTime() <= now) this.silences.delete(id);
+    }
+    return Array.from(this.silences.values());
+  }
+
+  /**
+   * Check whether an alert is currently silenced
+   */
+  isSilenced(alert: Pick<Alert, 'component' | 'severity' | 'ruleId'>): boolean {
+    const now = this.now().getTime();
+    return Array.from(this.silences.values()).some(s =>
+      s.startsAt.getTime() <= now &&
+      s.endsAt.getTime() > now &&
+      (s.matchers.ruleId === undefined || s.matchers.ruleId === alert.ruleId) &&
+      (s.matchers.component === undefined || s.matchers.component === alert.component) &&
+      (s.matchers.severity === undefined || s.matchers.severity === alert.severity)
+    );
+  }
+
+  /**
+   * Ingest samples and evaluate all rules
+   */
+  evaluate(samples: MetricSample[] = []): AlertNotification[] {
+    const now = this.now();
+    this.ingest(samples, now);
+
+    const notifications: AlertNotification[] = [];
+
+    for (const rule of this.rules.values()) {
+      if (rule.enabled === false) continue;
+
+      const tracking = this.getTracking(rule.id);
+      const values = rule.conditions.map(c => this.aggregate(c, now));
+      tracking.values = Object.fromEntries(rule.conditions.map((c, i) => [c.metric, values[i]]));
+
+      const holds = rule.conditions.every((c, i) => values[i] !== null && compare(values[i]!, c.op, c.threshold));
+
+      if (!holds) {
+        if (tracking.state === 'firing' && tracking.alert) {
+          tracking.alert.resolvedAt = now;
+          if (tracking.notified) {
+            notifications.push({ status: 'resolved', alert: tracking.alert });
+          }
+        }
+        this.tracking.set(rule.id, { ...this.emptyTracking(), values: tracking.values });
+        continue;
+      }
+
+      if (tracking.state === 'inactive') {
+        tracking.state = 'pending';
+        tracking.activeSince = now;
+      }
+
+      if (tracking.state === 'pending' && now.getTime() - tracking.activeSince!.getTime() >= (rule.forMs ?? 0)) {
+        tracking.state = 'firing';
+        tracking.alert = {
+          id: `alert-${rule.id}-${now.getTime()}`,
+          severity: rule.severity,
+          component: rule.component,
+          message: renderMessage(rule, tracking.values),
+          timestamp: now,
+          ruleId: rule.id,
+          metadata: {
+            ruleId: rule.id,
+            value: values[0],
+            threshold: rule.conditions[0].threshold,
+            values: tracking.values,
+            activeSince: tracking.activeSince,
+          },
+        };
+      }
+
+      // Fire on transition, or once a silence covering the alert expires
+      if (tracking.state === 'firing' && tracking.alert && !tracking.notified && !this.isSilenced(tracking.alert)) {
+        tracking.notified = true;
+        notifications.push({ status: 'firing', alert: tracking.alert });
+      }
+    }
+
+    return notifications;
+  }
+
+  /**
+   * Manually resolve a rule alert; the rule can fire again on a later evaluation
+   */
+  resolve(alertId: string): Alert | null {
+    for (const [ruleId, tracking] of this.tracking) {
+      if (tracking.alert?.id === alertId) {
+        tracking.alert.resolvedAt = this.now();
+        this.tracking.set(ruleId, this.emptyTracking());
+        return tracking.alert;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get firing rule alerts
+   */
+  getFiring(): Alert[] {
+    return Array.from(this.tracking.values())
+      .filter(t => t.state === 'firing' && t.alert)
+      .map(t => t.alert!);
+  }
+
+  /**
+   * Get evaluation status for every rule
+   */
+  getStatus(): RuleStatus[] {
+    return this.getRules().map(rule => {
+      const tracking = this.getTracking(rule.id);
+      return {
+        ruleId: rule.id,
+        state: tracking.state,
+        activeSince: tracking.activeSince,
+        alert: tracking.alert,
+        silenced: tracking.alert ? this.isSilenced(tracking.alert) : this.isSilenced({ ...rule, ruleId: rule.id }),
+        values: tracking.values,
+      };
+    });
+  }
+
+  // Private helper methods
+
+  private emptyTracking(): RuleTracking {
+    return { state: 'inactive', activeSince: null, alert: null, notified: false, values: {} };
+  }
+
+  private getTracking(ruleId: string): RuleTracking {
+    let tracking = this.tracking.get(ruleId);
+    if (!tracking) {
+      tracking = this.emptyTracking();
+      this.tracking.set(ruleId, tracking);
+    }
+    return tracking;
+  }
+
+  private ingest(samples: MetricSample[], now: Date): void {
+    for (const sample of samples) {
+      const series = this.samples.get(sample.series) ?? [];
+      series.push(sample);
+      this.samples.set(sample.series, series);
+    }
+
+    // Keep the longest rule window, plus the latest sample of every series
+    const maxWindow = Math.max(0, ...Array.from(this.rules.values())
+      .flatMap(r => r.conditions.map(c => c.windowMs ?? 0)));
+    const cutoff = now.getTime() - maxWindow;
+
+    for (const [name, series] of this.samples) {
+      const latest = series[series.length - 1].timestamp.getTime();
+      this.samples.set(name, series.filter(s => {
+        const ts = s.timestamp.getTime();
+        return ts >= cutoff || ts === latest;
+      }));
+    }
+  }
+
+  private aggregate(condition: AlertCondition, now: Date): number | null {
+    const series = (this.samples.get(condition.metric) ?? []).filter(s =>
+      !condition.labels || Object.entries(condition.labels).every(([k, v]) => s.labels?.[k] === v)
+    );
+    if (series.length === 0) return null;
+
+    let points: MetricSample[];
+    if (condition.windowMs) {
+      const cutoff = now.getTime() - condition.windowMs;
+      points = series.filter(s => s.timestamp.getTime() >= cutoff);
+    } else {
+      // Latest sampling pass; label sets sampled together are summed
+      const latest = Math.max(...series.map(s => s.timestamp.getTime()));
+      points = series.filter(s => s.timestamp.getTime() === latest);
+    }
+    if (points.length === 0) return null;
+
+    const values = points.map(p => p.value);
+    switch (condition.aggregation ?? 'last') {
+      case 'sum': return values.reduce((a, b) => a + b, 0);
+      case 'avg': return values.reduce((a, b) => a + b, 0) / values.length;
+      case 'min': return Math.min(...values);
+      case 'max': return Math.max(...values);
+      case 'count': return values.length;
+      default: {
+        const latest = Math.max(...points.map(p => p.timestamp.getTime()));
+        return points
+          .filter(p => p.timestamp.getTime() === latest)
+          .reduce((sum, p) => sum + p.value, 0);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// UTILITIES
+// ============================================================================
+
+/**
+ * Compare a value against a threshold
+ */
+export function compare(value: number, op: AlertComparator, threshold: number): boolean {
+  switch (op) {
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+    case '==': return value === threshold;
+    case '!=': return value !== threshold;
+  }
+}
+
+/**
+ * Render a rule message template
+ */
+export function renderMessage(rule: AlertRule, values: Record<string, number | null>): string {
+  const first = rule.conditions[0];
+
+  return rule.message.replace(/\{\{\s*([\w.]+)(?::(pct))?\s*\}\}/g, (match, key: string, format?: string) => {
+    let value: number | string | null | undefined;
+    if (key === 'value') value = values[first.metric];
+    else if (key === 'threshold') value = first.threshold;
+    else if (key === 'metric') return first.metric;
+    else if (key.startsWith('values.')) value = values[key.slice('values.'.length)];
+    else return match;
+
+    if (typeof value !== 'number') return 'n/a';
+    if (format === 'pct') return `${(value * 100).toFixed(1)}%`;
+    return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  });
+}
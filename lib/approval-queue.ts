@@ -0,0 +1,723 @@
+/**
+ * Email Approval Queue - Human Review for Bulk / High-Risk Sends
+ *
+ * Writes batches awaiting review to email_approval_queue:
+ * - Lints the batch template on submit and stores risk_score / risk_factors
+ * - Keeps a rendered sample and a recipients preview for reviewers
+ * - Renders per-recipient previews from the stored template and recipients
+ * - Approve / reject / request changes / edit, each recorded in review_history
+ * - Approved batches are released into EmailQueueService
+ * - Auto-approves low-risk batches under the autonomy settings thresholds
+ * - In-memory store for demo mode and tests, Supabase store in production
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getTemplateLinter, type TemplateLinter, type TemplateLintResult } from './template-linter';
+import { personalize, type ProspectData } from './personalization';
+import { getEmailQueueService, type EmailJobData, type EmailQueueService } from './email-queue';
+import { DEFAULT_SETTINGS, type SettingsData } from './settings-types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'modifications_requested';
+
+export type ReviewAction =
+  | 'submitted'
+  | 'auto_approved'
+  | 'approved'
+  | 'rejected'
+  | 'modifications_requested'
+  | 'edited'
+  | 'released';
+
+/** One review_history item */
+export interface ReviewEvent {
+  action: ReviewAction;
+  /** Reviewer; null for system actions */
+  by: string | null;
+  at: string;
+  comment?: string;
+}
+
+/** One recipient of a batch; rendered against the stored template */
+export interface ApprovalRecipient {
+  to: string;
+  prospect_id?: string;
+  prospect: ProspectData;
+  /** Spintax seed (default: prospect_id, then address) */
+  seed?: string;
+}
+
+/** How a released batch is sent */
+export interface ApprovalSendOptions {
+  from: string;
+  account_id: string;
+  account_age_in_days: number;
+  campaign_id?: string;
+  workspace_id?: string;
+  priority?: EmailJobData['priority'];
+}
+
+/** email_approval_queue row */
+export interface ApprovalQueueEntry {
+  id: string;
+  batch_id: string | null;
+  emails_count: number;
+  risk_score: number | null;
+  risk_factors: string[] | null;
+  template_id: string | null;
+  sample_subject: string | null;
+  sample_body: string | null;
+  recipients_preview: unknown;
+  requested_by: string | null;
+  requested_at: string;
+  status: ApprovalStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  decision_note: string | null;
+  expires_at: string | null;
+  auto_action_on_expire: 'reject' | 'escalate' | null;
+  created_at: string;
+  subject_template: string | null;
+  body_html_template: string | null;
+  body_text_template: string | null;
+  required_fields: string[];
+  recipients: ApprovalRecipient[];
+  send_options: Partial<ApprovalSendOptions>;
+  review_history: ReviewEvent[];
+  auto_approved: boolean;
+  released_at: string | null;
+  released_count: number;
+}
+
+export interface ApprovalRequestInput {
+  batchId?: string;
+  /** Defaults to the number of recipients */
+  emailsCount?: number;
+  templateId?: string;
+  /** Template source; linted, and used as the sample when no render is given */
+  subject: string;
+  bodyHtml?: string | null;
+  bodyText?: string | null;
+  requiredFields?: string[];
+  /** Rendered sample for one recipient (defaults to the first recipient, then the template source) */
+  sample?: { subject: string; body: string };
+  /** Defaults to the first recipients' address, name and company */
+  recipientsPreview?: unknown;
+  /** Required to preview and release the batch */
+  recipients?: ApprovalRecipient[];
+  sendOptions?: ApprovalSendOptions;
+  requestedBy?: string;
+  expiresAt?: Date;
+  autoActionOnExpire?: 'reject' | 'escalate';
+}
+
+export interface ApprovalListFilter {
+  status?: ApprovalStatus | ApprovalStatus[];
+  limit?: number;
+}
+
+export interface ApprovalQueueStore {
+  insert(entry: Omit<ApprovalQueueEntry, 'id'>): Promise<ApprovalQueueEntry>;
+  get(id: string): Promise<ApprovalQueueEntry | null>;
+  list(filter?: ApprovalListFilter): Promise<ApprovalQueueEntry[]>;
+  update(id: string, patch: Partial<Omit<ApprovalQueueEntry, 'id'>>): Promise<ApprovalQueueEntry | null>;
+}
+
+/** When a batch may skip human review */
+export interface AutoApprovalPolicy {
+  enabled: boolean;
+  /** Highest risk_score that is auto-approved */
+  maxRiskScore: number;
+  /** Largest emails_count that is auto-approved */
+  maxBatchSize: number;
+}
+
+export interface ReviewInput {
+  reviewer: string;
+  comment?: string;
+}
+
+export interface ApprovalEditInput extends ReviewInput {
+  subject?: string;
+  bodyHtml?: string | null;
+  bodyText?: string | null;
+  /** Addresses to drop from the batch */
+  removeRecipients?: string[];
+}
+
+/** A recipient rendered for review */
+export interface RecipientPreview {
+  to: string;
+  prospect_id: string | null;
+  subject: string;
+  html: string | null;
+  text: string | null;
+  /** Tokens that had no value for this recipient */
+  missing: string[];
+}
+
+export interface ApprovalQueueConfig {
+  store?: ApprovalQueueStore;
+  linter?: TemplateLinter;
+  policy?: AutoApprovalPolicy;
+  /** Where approved batches are released (default: global EmailQueueService) */
+  emailQueue?: Pick<EmailQueueService, 'addEmail'>;
+  now?: () => Date;
+}
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+/**
+ * Review action on a missing entry (`not_found`) or one in the wrong status (`invalid_state`)
+ */
+export class ApprovalError extends Error {
+  readonly code: 'not_found' | 'invalid_state';
+
+  constructor(message: string, code: 'not_found' | 'invalid_state') {
+    super(message);
+    this.name = 'ApprovalError';
+    this.code = code;
+  }
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Auto-approval is off unless built from settings */
+export const DEFAULT_AUTO_APPROVAL_POLICY: AutoApprovalPolicy = {
+  enabled: false,
+  maxRiskScore: 0,
+  maxBatchSize: 0,
+};
+
+/** Statuses a reviewer can still act on */
+const OPEN_STATUSES: ApprovalStatus[] = ['pending', 'modifications_requested'];
+
+/** Recipients copied into recipients_preview by default */
+const PREVIEW_RECIPIENTS = 10;
+
+// ============================================================================
+// APPROVAL QUEUE CLASS
+// ============================================================================
+
+export class ApprovalQueue {
+  private store: ApprovalQueueStore;
+  private linter: TemplateLinter;
+  private policy: AutoApprovalPolicy;
+  private emailQueue: Pick<EmailQueueService, 'addEmail'> | null;
+  private now: () => Date;
+
+  constructor(config: ApprovalQueueConfig = {}) {
+    this.store = config.store ?? new InMemoryApprovalQueueStore();
+    this.linter = config.linter ?? getTemplateLinter();
+    this.policy = config.policy ?? DEFAULT_AUTO_APPROVAL_POLICY;
+    this.emailQueue = config.emailQueue ?? null;
+    this.now = config.now ?? (() => new Date());
+  }
+
+  /**
+   * Swap the backing store (e.g. per-request Supabase client)
+   */
+  setStore(store: ApprovalQueueStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Replace the auto-approval policy (e.g. the requesting user's settings)
+   */
+  setPolicy(policy: AutoApprovalPolicy): void {
+    this.policy = policy;
+  }
+
+  /**
+   * Lint a batch template and map the result to the risk columns
+   */
+  assess(input: Pick<ApprovalRequestInput, 'subject' | 'bodyHtml' | 'bodyText' | 'requiredFields'>): {
+    risk_score: number;
+    risk_factors: string[];
+    lint: TemplateLintResult;
+  } {
+    const lint = this.linter.lint({
+      subject: input.subject,
+      bodyHtml: input.bodyHtml,
+      bodyText: input.bodyText,
+      requiredFields: input.requiredFields,
+    });
+    return { risk_score: lint.score, risk_factors: lint.factors, lint };
+  }
+
+  /**
+   * Queue a batch for review with its risk assessment.
+   * Batches within the auto-approval policy are approved and released immediately.
+   */
+  async submit(input: ApprovalRequestInput): Promise<ApprovalQueueEntry> {
+    const { risk_score, risk_factors, lint } = this.assess(input);
+    const recipients = input.recipients ?? [];
+    const emailsCount = input.emailsCount ?? recipients.length;
+    const now = this.now().toISOString();
+
+    const template = {
+      subject_template: input.subject,
+      body_html_template: input.bodyHtml ?? null,
+      body_text_template: input.bodyText ?? null,
+    };
+    const sample = input.sample
+      ?? (recipients.length > 0 ? sampleOf(renderRecipient(template, recipients[0])) : null);
+
+    const entry = await this.store.insert({
+      batch_id: input.batchId ?? null,
+      emails_count: emailsCount,
+      risk_score,
+      risk_factors,
+      template_id: input.templateId ?? null,
+      sample_subject: sample?.subject ?? input.subject,
+      sample_body: sample?.body ?? input.bodyHtml ?? input.bodyText ?? null,
+      recipients_preview: input.recipientsPreview ?? (recipients.length > 0 ? previewOf(recipients) : null),
+      requested_by: input.requestedBy ?? null,
+      requested_at: now,
+      status: 'pending',
+      reviewed_by: null,
+      reviewed_at: null,
+      decision_note: null,
+      expires_at: input.expiresAt?.toISOString() ?? null,
+      auto_action_on_expire: input.autoActionOnExpire ?? null,
+      created_at: now,
+      ...template,
+      required_fields: input.requiredFields ?? [],
+      recipients,
+      send_options: input.sendOptions ?? {},
+      review_history: [{ action: 'submitted', by: input.requestedBy ?? null, at: now }],
+      auto_approved: false,
+      released_at: null,
+      released_count: 0,
+    });
+
+    const { policy } = this;
+    if (
+      !policy.enabled ||
+      !lint.passed ||
+      risk_score > policy.maxRiskScore ||
+      emailsCount > policy.maxBatchSize ||
+      (recipients.length > 0 && !isSendable(entry.send_options))
+    ) {
+      return entry;
+    }
+
+    const approved = await this.transition(entry, 'approved', {
+      action: 'auto_approved',
+      by: null,
+      comment: `Risk score ${risk_score} within auto-approval limit ${policy.maxRiskScore}`,
+    }, { auto_approved: true });
+    return this.releaseEntry(approved);
+  }
+
+  /**
+   * Get one entry
+   */
+  get(id: string): Promise<ApprovalQueueEntry | null> {
+    return this.store.get(id);
+  }
+
+  /**
+   * List entries, newest first
+   */
+  list(filter?: ApprovalListFilter): Promise<ApprovalQueueEntry[]> {
+    return this.store.list(filter);
+  }
+
+  /**
+   * Render the batch for a page of recipients
+   */
+  async previewRecipients(
+    id: string,
+    options: { offset?: number; limit?: number } = {}
+  ): Promise<{ total: number; previews: RecipientPreview[] }> {
+    const entry = await this.require(id);
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? 10;
+
+    return {
+      total: entry.recipients.length,
+      previews: entry.recipients.slice(offset, offset + limit).map(r => renderRecipient(entry, r)),
+    };
+  }
+
+  /**
+   * Approve a batch and release it into the email queue
+   */
+  async approve(id: string, review: ReviewInput): Promise<ApprovalQueueEntry> {
+    const entry = await this.requireOpen(id, 'approve');
+    if (entry.recipients.length > 0 && !isSendable(entry.send_options)) {
+      throw new ApprovalError('Batch has no sender configured (send_options.from / account_id)', 'invalid_state');
+    }
+
+    const approved = await this.transition(entry, 'approved', {
+      action: 'approved',
+      by: review.reviewer,
+      comment: review.comment,
+    });
+    return this.releaseEntry(approved);
+  }
+
+  /**
+   * Reject a batch; nothing is sent
+   */
+  async reject(id: string, review: ReviewInput): Promise<ApprovalQueueEntry> {
+    const entry = await this.requireOpen(id, 'reject');
+    return this.transition(entry, 'rejected', {
+      action: 'rejected',
+      by: review.reviewer,
+      comment: review.comment,
+    });
+  }
+
+  /**
+   * Send a batch back to its requester with a comment
+   */
+  async requestChanges(id: string, review: ReviewInput): Promise<ApprovalQueueEntry> {
+    const entry = await this.requireOpen(id, 'request changes on');
+    return this.transition(entry, 'modifications_requested', {
+      action: 'modifications_requested',
+      by: review.reviewer,
+      comment: review.comment,
+    });
+  }
+
+  /**
+   * Edit a batch's template or recipients. The batch is re-linted, its sample
+   * re-rendered, and it goes back to pending for an explicit approval.
+   */
+  async edit(id: string, input: ApprovalEditInput): Promise<ApprovalQueueEntry> {
+    const entry = await this.requireOpen(id, 'edit');
+
+    const template = {
+      subject_template: input.subject ?? entry.subject_template ?? entry.sample_subject ?? '',
+      body_html_template: input.bodyHtml !== undefined ? input.bodyHtml : entry.body_html_template,
+      body_text_template: input.bodyText !== undefined ? input.bodyText : entry.body_text_template,
+    };
+    const removed = new Set((input.removeRecipients ?? []).map(email => email.toLowerCase()));
+    const recipients = entry.recipients.filter(r => !removed.has(r.to.toLowerCase()));
+
+    const { risk_score, risk_factors } = this.assess({
+      subject: template.subject_template,
+      bodyHtml: template.body_html_template,
+      bodyText: template.body_text_template,
+      requiredFields: entry.required_fields,
+    });
+    const sample = recipients.length > 0 ? sampleOf(renderRecipient(template, recipients[0])) : null;
+
+    return this.transition(entry, 'pending', {
+      action: 'edited',
+      by: input.reviewer,
+      comment: input.comment,
+    }, {
+      ...template,
+      recipients,
+      emails_count: recipients.length > 0 || entry.recipients.length > 0
+        ? recipients.length
+        : entry.emails_count,
+      risk_score,
+      risk_factors,
+      sample_subject: sample?.subject ?? template.subject_template,
+      sample_body: sample?.body ?? template.body_html_template ?? template.body_text_template,
+      recipients_preview: recipients.length > 0 ? previewOf(recipients) : entry.recipients_preview,
+    });
+  }
+
+  /**
+   * Release an approved batch (retries a release that failed part-way)
+   */
+  async release(id: string): Promise<ApprovalQueueEntry> {
+    const entry = await this.require(id);
+    if (entry.status !== 'approved') {
+      throw new ApprovalError(`Cannot release a batch that is ${entry.status}`, 'invalid_state');
+    }
+    return this.releaseEntry(entry);
+  }
+
+  // Private helper methods
+
+  private async require(id: string): Promise<ApprovalQueueEntry> {
+    const entry = await this.store.get(id);
+    if (!entry) throw new ApprovalError(`Approval ${id} not found`, 'not_found');
+    return entry;
+  }
+
+  private async requireOpen(id: string, verb: string): Promise<ApprovalQueueEntry> {
+    const entry = await this.require(id);
+    if (!OPEN_STATUSES.includes(entry.status)) {
+      throw new ApprovalError(`Cannot ${verb} a batch that is already ${entry.status}`, 'invalid_state');
+    }
+    return entry;
+  }
+
+  private async transition(
+    entry: ApprovalQueueEntry,
+    status: ApprovalStatus,
+    event: Omit<ReviewEvent, 'at'>,
+    patch: Partial<Omit<ApprovalQueueEntry, 'id'>> = {}
+  ): Promise<ApprovalQueueEntry> {
+    const at = this.now().toISOString();
+    const decided = status !== 'pending';
+    const item: ReviewEvent = { action: event.action, by: event.by, at };
+    if (event.comment) item.comment = event.comment;
+
+    const updated = await this.store.update(entry.id, {
+      ...patch,
+      status,
+      reviewed_by: decided ? event.by : entry.reviewed_by,
+      reviewed_at: decided ? at : entry.reviewed_at,
+      decision_note: event.comment || (decided ? null : entry.decision_note),
+      review_history: [...entry.review_history, item],
+    });
+    if (!updated) throw new ApprovalError(`Approval ${entry.id} not found`, 'not_found');
+    return updated;
+  }
+
+  /**
+   * Render every unreleased recipient and add it to the email queue.
+   * released_count is saved even when a send fails so a retry resumes there.
+   */
+  private async releaseEntry(entry: ApprovalQueueEntry): Promise<ApprovalQueueEntry> {
+    if (entry.released_at) return entry;
+
+    const options = entry.send_options as ApprovalSendOptions;
+    const queue = this.emailQueue ?? getEmailQueueService();
+    let released = entry.released_count;
+
+    try {
+      for (const recipient of entry.recipients.slice(released)) {
+        const render = renderRecipient(entry, recipient);
+        await queue.addEmail({
+          jobId: `${entry.id}-${released}`,
+          to: recipient.to,
+          from: options.from,
+          subject: render.subject,
+          html: render.html ?? undefined,
+          text: render.text ?? undefined,
+          accountId: options.account_id,
+          accountAgeInDays: options.account_age_in_days,
+          campaignId: options.campaign_id,
+          prospectId: recipient.prospect_id,
+          workspaceId: options.workspace_id,
+          priority: options.priority ?? 'normal',
+          metadata: { approvalId: entry.id, batchId: entry.batch_id },
+        });
+        released++;
+      }
+    } catch (err) {
+      await this.store.update(entry.id, { released_count: released });
+      throw err;
+    }
+
+    const at = this.now().toISOString();
+    const updated = await this.store.update(entry.id, {
+      released_at: at,
+      released_count: released,
+      review_history: [
+        ...entry.review_history,
+        { action: 'released', by: null, at, comment: `${released} emails queued` },
+      ],
+    });
+    return updated ?? entry;
+  }
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+/** In-memory store (default; demo mode and tests) */
+export class InMemoryApprovalQueueStore implements ApprovalQueueStore {
+  private entries = new Map<string, ApprovalQueueEntry>();
+  private nextId = 1;
+
+  async insert(entry: Omit<ApprovalQueueEntry, 'id'>): Promise<ApprovalQueueEntry> {
+    const row = { ...entry, id: `approval-${this.nextId++}` };
+    this.entries.set(row.id, row);
+    return { ...row };
+  }
+
+  async get(id: string): Promise<ApprovalQueueEntry | null> {
+    const row = this.entries.get(id);
+    return row ? { ...row } : null;
+  }
+
+  async list(filter: ApprovalListFilter = {}): Promise<ApprovalQueueEntry[]> {
+    const statuses = filter.status ? [filter.status].flat() : null;
+    return Array.from(this.entries.values())
+      .filter(e => !statuses || statuses.includes(e.status))
+      .sort((a, b) => b.requested_at.localeCompare(a.requested_at))
+      .slice(0, filter.limit ?? Infinity)
+      .map(e => ({ ...e }));
+  }
+
+  async update(id: string, patch: Partial<Omit<ApprovalQueueEntry, 'id'>>): Promise<ApprovalQueueEntry | null> {
+    const row = this.entries.get(id);
+    if (!row) return null;
+    const updated = { ...row, ...patch };
+    this.entries.set(id, updated);
+    return { ...updated };
+  }
+}
+
+/**
+ * Reads and writes email_approval_queue in Supabase
+ */
+export class SupabaseApprovalQueueStore implements ApprovalQueueStore {
+  constructor(private client: SupabaseClient) {}
+
+  async insert(entry: Omit<ApprovalQueueEntry, 'id'>): Promise<ApprovalQueueEntry> {
+    const { data, error } = await this.client
+      .from('email_approval_queue')
+      .insert(entry)
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data as ApprovalQueueEntry;
+  }
+
+  async get(id: string): Promise<ApprovalQueueEntry | null> {
+    const { data, error } = await this.client
+      .from('email_approval_queue')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return (data as ApprovalQueueEntry | null) ?? null;
+  }
+
+  async list(filter: ApprovalListFilter = {}): Promise<ApprovalQueueEntry[]> {
+    let query = this.client
+      .from('email_approval_queue')
+      .select('*')
+      .order('requested_at', { ascending: false })
+      .limit(filter.limit ?? 100);
+    if (Array.isArray(filter.status)) query = query.in('status', filter.status);
+    else if (filter.status) query = query.eq('status', filter.status);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data ?? []) as ApprovalQueueEntry[];
+  }
+
+  async update(id: string, patch: Partial<Omit<ApprovalQueueEntry, 'id'>>): Promise<ApprovalQueueEntry | null> {
+    const { data, error } = await this.client
+      .from('email_approval_queue')
+      .update(patch)
+      .eq('id', id)
+      .select('*')
+      .maybeSingle();
+
+    if (error) throw error;
+    return (data as ApprovalQueueEntry | null) ?? null;
+  }
+}
+
+// ============================================================================
+// FACTORY FUNCTIONS
+// ============================================================================
+
+/** Singleton instance */
+let globalApprovalQueue: ApprovalQueue | null = null;
+
+/**
+ * Get or create the global approval queue
+ */
+export function getApprovalQueue(config?: ApprovalQueueConfig): ApprovalQueue {
+  if (!globalApprovalQueue) {
+    globalApprovalQueue = new ApprovalQueue(config);
+  }
+  return globalApprovalQueue;
+}
+
+/**
+ * Reset the global approval queue (useful for testing)
+ */
+export function resetApprovalQueue(): void {
+  globalApprovalQueue = null;
+}
+
+/**
+ * Autonomy levels that always send batches to review. preference_models
+ * stores 'low' | 'medium' | 'high'; the settings UI uses 'conservative'.
+ */
+const CONSERVATIVE_AUTONOMY_LEVELS = new Set(['conservative', 'low']);
+
+/**
+ * Auto-approval policy from a user's autonomy settings. Off unless the user
+ * sets a risk limit; conservative mode or auto-execute off also disable it.
+ */
+export function autoApprovalPolicyFromSettings(settings: Partial<SettingsData>): AutoApprovalPolicy {
+  const maxRiskScore = settings.email_auto_approve_max_risk ?? DEFAULT_SETTINGS.email_auto_approve_max_risk;
+  const maxBatchSize = settings.email_auto_approve_max_batch ?? DEFAULT_SETTINGS.email_auto_approve_max_batch;
+  const autoExecute = settings.auto_execute_enabled ?? DEFAULT_SETTINGS.auto_execute_enabled;
+  const level: string = settings.autonomy_level ?? DEFAULT_SETTINGS.autonomy_level;
+
+  return {
+    enabled: !CONSERVATIVE_AUTONOMY_LEVELS.has(level) && autoExecute && maxRiskScore > 0,
+    maxRiskScore,
+    maxBatchSize,
+  };
+}
+
+// ============================================================================
+// UTILITIES
+// ============================================================================
+
+type BatchTemplate = Pick<ApprovalQueueEntry, 'subject_template' | 'body_html_template' | 'body_text_template'>;
+
+/**
+ * Render the batch template for one recipient
+ */
+function renderRecipient(template: BatchTemplate, recipient: ApprovalRecipient): RecipientPreview {
+  const context = {
+    prospect: { email: recipient.to, ...recipient.prospect },
+    seed: recipient.seed ?? recipient.prospect_id ?? recipient.to,
+  };
+  const subject = personalize(template.subject_template ?? '', context, { escapeHtml: false });
+  const html = template.body_html_template ? personalize(template.body_html_template, context) : null;
+  const text = template.body_text_template
+    ? personalize(template.body_text_template, context, { escapeHtml: false })
+    : null;
+
+  return {
+    to: recipient.to,
+    prospect_id: recipient.prospect_id ?? null,
+    subject: subject.text,
+    html: html?.text ?? null,
+    text: text?.text ?? null,
+    missing: [...new Set([...subject.missing, ...(html?.missing ?? []), ...(text?.missing ?? [])])],
+  };
+}
+
+function sampleOf(render: RecipientPreview): { subject: string; body: string } {
+  return { subject: render.subject, body: render.html ?? render.text ?? '' };
+}
+
+/**
+ * recipients_preview: address, name and company of the first recipients
+ */
+function previewOf(recipients: ApprovalRecipient[]): Array<{ email: string; name: string | null; company: string | null }> {
+  return recipients.slice(0, PREVIEW_RECIPIENTS).map(r => {
+    const { first_name, last_name, company } = r.prospect;
+    const name = [first_name, last_name].filter(Boolean).join(' ');
+    return {
+      email: r.to,
+      name: name || null,
+      company: typeof company === 'string' ? company : company?.name ?? null,
+    };
+  });
+}
+
+function isSendable(options: Partial<ApprovalSendOptions>): options is ApprovalSendOptions {
+  return Boolean(options.from && options.account_id && typeof options.account_age_in_days === 'number');
+}
@@ -0,0 +1,796 @@
+/**
+ * Predictive Guard
+ *
+ * Forecasts task blockers before they happen:
+ * - Learns blocker patterns from historical autonomous_tasks and healing_events
+ * - Scores each pattern's preconditions against open tasks
+ * - Emits PredictedBlockers and auto-creates mitigation tasks via AutonomousTaskGenerator
+ * - Tracks prevented / occurred / false-positive outcomes for GuardMetrics
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getServerSupabase } from '@/lib/supabase-server';
+import { AutonomousTaskGenerator, getTaskGenerator } from './task-generator';
+import { classifyError, type HealingEventRow } from './self-healing';
+import type {
+  AutonomousTask,
+  BlockerPattern as CoreBlockerPattern,
+  GuardMetrics,
+  PredictedBlocker as CorePredictedBlocker,
+  TaskPriority,
+} from './types';
+
+export type { GuardMetrics } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type GuardTaskStatus = 'pending' | 'assigned' | 'in-progress' | 'blocked' | 'completed' | 'cancelled';
+
+/**
+ * Task shape the guard learns from and predicts against
+ */
+export interface Task {
+  id: string;
+  title: string;
+  status: GuardTaskStatus;
+  priority: TaskPriority;
+  assignee?: string;
+  estimatedHours?: number;
+  actualHours?: number;
+  tags?: string[];
+  dependencies?: string[];
+  blockReason?: string;
+  errorType?: string; // Classified type of the last execution error (see classifyError)
+  createdAt: Date;
+  blockedAt?: Date;
+  unblockedAt?: Date;
+  completedAt?: Date;
+}
+
+export type ConditionOperator = 'equals' | 'in' | 'contains' | 'gt' | 'lt' | 'missing' | 'exists';
+
+// Derived fields computed from the task and the batch it is evaluated in
+export type DerivedField = 'createdWeekday' | 'overrunRatio' | 'assigneeLoad';
+
+export interface PatternCondition {
+  field: keyof Task | DerivedField;
+  operator: ConditionOperator;
+  value?: string | number | Array<string | number>;
+  description: string;
+}
+
+export interface MitigationTask {
+  id: string;
+  parentTaskId: string;
+  patternId: string;
+  title: string;
+  description: string;
+  priority: TaskPriority;
+  estimatedHours: number;
+}
+
+export interface BlockerPattern extends CoreBlockerPattern {
+  name: string;
+  conditions: PatternCondition[];
+  frequency: number; // 0-1, share of matching historical tasks that got blocked
+  occurrenceCount: number;
+  avgResolutionTime: number; // ms from blocked to unblocked
+  recommendedAction: string;
+}
+
+/**
+ * Blocker prediction for a single task. Confidence is 0-1 here;
+ * GuardMetrics and persisted rows report it as 0-100.
+ */
+export interface PredictedBlocker extends Omit<CorePredictedBlocker, 'confidence'> {
+  taskId: string;
+  severity: BlockerPattern['severity'];
+  confidence: number;
+  predictedBlockTime: Date;
+  contributingFactors: string[];
+  recommendedAction: string;
+  mitigationTasks: MitigationTask[];
+}
+
+export interface PredictionOptions {
+  minConfidence?: number; // 0-1
+  maxPredictions?: number;
+  lookAheadDays?: number;
+  autoMitigateThreshold?: number; // 0-1
+}
+
+export type PredictionOutcome = NonNullable<CorePredictedBlocker['actualOutcome']>;
+
+export interface PredictionStore {
+  save(prediction: PredictedBlocker): Promise<void>;
+}
+
+export interface PredictiveGuardOptions {
+  autoMitigateThreshold?: number;
+  minOccurrences?: number;
+  taskGenerator?: AutonomousTaskGenerator | null;
+  store?: PredictionStore | null;
+  onPrediction?: (prediction: PredictedBlocker) => void;
+}
+
+interface PatternDefinition {
+  id: string;
+  name: string;
+  description: string;
+  severity: BlockerPattern['severity'];
+  conditions: PatternCondition[];
+  recommendedAction: string;
+  mitigation: { title: string; estimatedHours: number };
+}
+
+interface EvaluationContext {
+  assigneeLoad: Map<string, number>;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DEFAULT_PREDICTION_OPTIONS: Required<PredictionOptions> = {
+  minConfidence: 0.3,
+  maxPredictions: 20,
+  lookAheadDays: 7,
+  autoMitigateThreshold: 0.7,
+};
+
+// A pattern must have matched at least this share of its preconditions to be predicted
+const MIN_MATCH_SCORE = 0.5;
+
+// Confidence boost for critical tasks matching high-severity patterns
+const CRITICAL_TASK_BOOST = 1.15;
+
+const DEFAULT_TIME_TO_BLOCK_MS = 24 * 60 * 60 * 1000;
+
+const OPEN_STATUSES: GuardTaskStatus[] = ['pending', 'assigned', 'in-progress'];
+
+const PATTERN_DEFINITIONS: PatternDefinition[] = [
+  {
+    id: 'pattern-high-priority-no-deps',
+    name: 'High Priority Without Dependencies Mapped',
+    description: 'Urgent work started without its dependencies identified tends to stall on unclear scope',
+    severity: 'high',
+    conditions: [
+      { field: 'priority', operator: 'in', value: ['critical', 'high'], description: 'Priority is critical or high' },
+      { field: 'dependencies', operator: 'missing', description: 'No dependencies mapped' },
+    ],
+    recommendedAction: 'Map dependencies and confirm scope with the requester before starting',
+    mitigation: { title: 'Map dependencies and confirm scope', estimatedHours: 1 },
+  },
+  {
+    id: 'pattern-unassigned-large',
+    name: 'Unassigned Large Task',
+    description: 'Large tasks without an owner sit idle until someone picks them up',
+    severity: 'medium',
+    conditions: [
+      { field: 'estimatedHours', operator: 'gt', value: 8, description: 'Estimated at more than 8 hours' },
+      { field: 'assignee', operator: 'missing', description: 'No assignee' },
+    ],
+    recommendedAction: 'Assign an owner and split the task into smaller deliverables',
+    mitigation: { title: 'Assign owner and split into subtasks', estimatedHours: 0.5 },
+  },
+  {
+    id: 'pattern-external-dependency',
+    name: 'External Dependency',
+    description: 'Tasks relying on third parties get blocked waiting on responses',
+    severity: 'medium',
+    conditions: [
+      { field: 'tags', operator: 'contains', value: 'external', description: 'Depends on an external party' },
+    ],
+    recommendedAction: 'Contact the external party early and agree on a response deadline',
+    mitigation: { title: 'Confirm external party availability and timeline', estimatedHours: 0.5 },
+  },
+  {
+    id: 'pattern-weekend-boundary',
+    name: 'Weekend Boundary',
+    description: 'Tasks started late in the week get blocked over the weekend',
+    severity: 'low',
+    conditions: [
+      { field: 'createdWeekday', operator: 'in', value: [4, 5], description: 'Created on a Thursday or Friday' },
+    ],
+    recommendedAction: 'Hand off open questions before the weekend',
+    mitigation: { title: 'Resolve open questions before the weekend', estimatedHours: 0.5 },
+  },
+  {
+    id: 'pattern-underestimation',
+    name: 'Underestimated Effort',
+    description: 'Tasks running well over their estimate tend to hit blockers',
+    severity: 'medium',
+    conditions: [
+      { field: 'overrunRatio', operator: 'gt', value: 1.5, description: 'Actual effort exceeds estimate by 50%' },
+    ],
+    recommendedAction: 'Re-estimate remaining work and reset expectations',
+    mitigation: { title: 'Re-estimate remaining effort', estimatedHours: 1 },
+  },
+  {
+    id: 'pattern-assignee-overload',
+    name: 'Assignee Overload',
+    description: 'Owners juggling many open tasks become the bottleneck',
+    severity: 'high',
+    conditions: [
+      { field: 'assigneeLoad', operator: 'gt', value: 4, description: 'Assignee holds more than 4 open tasks' },
+    ],
+    recommendedAction: 'Rebalance work across the team',
+    mitigation: { title: 'Rebalance assignee workload', estimatedHours: 1 },
+  },
+];
+
+// Error types that escalate to operator-level blockers
+const HIGH_SEVERITY_ERROR_TYPES = new Set(['auth', 'validation']);
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function buildContext(tasks: Task[]): EvaluationContext {
+  const assigneeLoad = new Map<string, number>();
+  for (const task of tasks) {
+    if (!task.assignee || task.status === 'completed' || task.status === 'cancelled') continue;
+    assigneeLoad.set(task.assignee, (assigneeLoad.get(task.assignee) ?? 0) + 1);
+  }
+  return { assigneeLoad };
+}
+
+function getFieldValue(task: Task, field: PatternCondition['field'], context: EvaluationContext): unknown {
+  switch (field) {
+    case 'createdWeekday':
+      return task.createdAt.getDay();
+    case 'overrunRatio':
+      return task.estimatedHours && task.actualHours ? task.actualHours / task.estimatedHours : undefined;
+    case 'assigneeLoad':
+      return task.assignee ? context.assigneeLoad.get(task.assignee) ?? 0 : undefined;
+    default:
+      return task[field];
+  }
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Evaluate a single pattern condition against a task
+ */
+export function evaluateCondition(task: Task, condition: PatternCondition, context: EvaluationContext = buildContext([task])): boolean {
+  const actual = getFieldValue(task, condition.field, context);
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'equals':
+      return actual === expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual as string | number);
+    case 'contains':
+      if (Array.isArray(actual)) return actual.includes(expected);
+      return typeof actual === 'string' && typeof expected === 'string' &&
+        actual.toLowerCase().includes(expected.toLowerCase());
+    case 'gt':
+      return typeof actual === 'number' && typeof expected === 'number' && actual > expected;
+    case 'lt':
+      return typeof actual === 'number' && typeof expected === 'number' && actual < expected;
+    case 'missing':
+      return isEmpty(actual);
+    case 'exists':
+      return !isEmpty(actual);
+  }
+}
+
+/**
+ * Aggregate prediction outcomes into GuardMetrics (confidence as 0-100)
+ */
+export function calculateGuardMetrics(
+  predictions: { status: CorePredictedBlocker['status']; confidence: number }[]
+): GuardMetrics {
+  const preventedCount = predictions.filter(p => p.status === 'prevented').length;
+  const occurredCount = predictions.filter(p => p.status === 'occurred').length;
+  const falsePositiveCount = predictions.filter(p => p.status === 'false_positive').length;
+  const resolved = preventedCount + occurredCount + falsePositiveCount;
+
+  return {
+    totalPredictions: predictions.length,
+    preventedCount,
+    occurredCount,
+    falsePositiveCount,
+    avgConfidence: Math.round(average(predictions.map(p => p.confidence))),
+    // A prediction was correct if the blocker was real, whether it was prevented or not
+    accuracyRate: resolved > 0 ? Math.round(((preventedCount + occurredCount) / resolved) * 100) : 0,
+  };
+}
+
+// ============================================================================
+// Predictive Guard
+// ============================================================================
+
+export class PredictiveGuard {
+  private patterns: Map<string, BlockerPattern> = new Map();
+  private predictions: Map<string, PredictedBlocker> = new Map();
+  private autoMitigateThreshold: number;
+  private minOccurrences: number;
+  private taskGenerator: AutonomousTaskGenerator | null;
+  private store: PredictionStore | null;
+  private onPrediction?: (prediction: PredictedBlocker) => void;
+
+  constructor(options: PredictiveGuardOptions = {}) {
+    this.autoMitigateThreshold = clamp(
+      options.autoMitigateThreshold ?? DEFAULT_PREDICTION_OPTIONS.autoMitigateThreshold, 0, 1
+    );
+    this.minOccurrences = options.minOccurrences ?? 1;
+    this.taskGenerator = options.taskGenerator === undefined ? getTaskGenerator() : options.taskGenerator;
+    this.store = options.store ?? null;
+    this.onPrediction = options.onPrediction;
+  }
+
+  /**
+   * Learn blocker patterns from historical tasks. Replaces previously learned patterns.
+   */
+  analyzePatterns(historicalTasks: Task[]): BlockerPattern[] {
+    this.patterns.clear();
+
+    const blockedTasks = historicalTasks.filter(t => t.status === 'blocked' || t.blockedAt);
+    if (blockedTasks.length === 0) return [];
+
+    const context = buildContext(historicalTasks);
+    const definitions = [...PATTERN_DEFINITIONS, ...this.buildErrorPatternDefinitions(blockedTasks)];
+
+    for (const definition of definitions) {
+      const matching = historicalTasks.filter(t =>
+        definition.conditions.every(c => evaluateCondition(t, c, context))
+      );
+      const matchingBlocked = matching.filter(t => t.status === 'blocked' || t.blockedAt);
+      if (matchingBlocked.length < this.minOccurrences) continue;
+
+      const frequency = matchingBlocked.length / matching.length;
+      const resolutionTimes = matchingBlocked
+        .filter(t => t.blockedAt && t.unblockedAt)
+        .map(t => t.unblockedAt!.getTime() - t.blockedAt!.getTime());
+      const timesToBlock = matchingBlocked
+        .filter(t => t.blockedAt)
+        .map(t => Math.max(0, t.blockedAt!.getTime() - t.createdAt.getTime()));
+      const lastBlocked = matchingBlocked
+        .map(t => (t.blockedAt ?? t.createdAt).getTime())
+        .reduce((latest, time) => Math.max(latest, time), 0);
+
+      const pattern: BlockerPattern = {
+        id: definition.id,
+        name: definition.name,
+        pattern: definition.description,
+        severity: definition.severity,
+        conditions: definition.conditions,
+        frequency,
+        occurrences: matchingBlocked.length,
+        occurrenceCount: matchingBlocked.length,
+        lastOccurredAt: new Date(lastBlocked).toISOString(),
+        typicalPreconditions: definition.conditions.map(c => c.description),
+        avgResolutionTime: Math.round(average(resolutionTimes)),
+        avgTimeToBlockMs: timesToBlock.length > 0 ? Math.round(average(timesToBlock)) : DEFAULT_TIME_TO_BLOCK_MS,
+        confidence: Math.round(frequency * this.getEvidenceWeight(matchingBlocked.length) * 100),
+        recommendedAction: definition.recommendedAction,
+      };
+
+      this.patterns.set(pattern.id, pattern);
+    }
+
+    return this.getPatterns();
+  }
+
+  /**
+   * Learn patterns from the autonomous_tasks and healing_events tables
+   */
+  async learnFromHistory(client: SupabaseClient | null = getServerSupabase(), sinceDays: number = 90): Promise<BlockerPattern[]> {
+    if (!client) return this.getPatterns();
+
+    const since = new Date(Date.now() - sinceDays * 86400000).toISOString();
+    const [tasksRes, healingRes] = await Promise.all([
+      client
+        .from('autonomous_tasks')
+        .select('id, title, status, priority, assignee, estimated_duration_minutes, blocker_pattern, metadata, created_at, updated_at, completed_at')
+        .gte('created_at', since),
+      client
+        .from('healing_events')
+        .select('*')
+        .gte('started_at', since),
+    ]);
+
+    if (tasksRes.error) throw tasksRes.error;
+    if (healingRes.error) throw healingRes.error;
+
+    const healingByTask = new Map<string, HealingEventRow>();
+    for (const row of (healingRes.data ?? []) as HealingEventRow[]) {
+      const taskId = row.task_id ?? row.task_ref;
+      if (taskId) healingByTask.set(taskId, row);
+    }
+
+    const tasks = ((tasksRes.data ?? []) as AutonomousTaskRow[]).map(row => mapTaskRow(row, healingByTask.get(row.id)));
+    return this.analyzePatterns(tasks);
+  }
+
+  /**
+   * Score learned patterns against open tasks and emit blocker predictions
+   */
+  predictBlockers(currentTasks: Task[], options: PredictionOptions = {}): PredictedBlocker[] {
+    const opts = {
+      ...DEFAULT_PREDICTION_OPTIONS,
+      autoMitigateThreshold: this.autoMitigateThreshold,
+      ...options,
+    };
+    const now = Date.now();
+    const lookAheadMs = opts.lookAheadDays * 24 * 60 * 60 * 1000;
+    const context = buildContext(currentTasks);
+    const candidates: PredictedBlocker[] = [];
+
+    for (const task of currentTasks) {
+      if (!OPEN_STATUSES.includes(task.status)) continue;
+
+      for (const pattern of this.patterns.values()) {
+        const preconditions = pattern.conditions.map(c => {
+          const met = evaluateCondition(task, c, context);
+          return { condition: c.description, met, score: met ? 1 : 0 };
+        });
+        const matchScore = preconditions.filter(p => p.met).length / preconditions.length;
+        if (matchScore < MIN_MATCH_SCORE) continue;
+
+        let confidence = pattern.frequency * this.getEvidenceWeight(pattern.occurrenceCount) * matchScore;
+        if (task.priority === 'critical' && pattern.severity === 'high') {
+          confidence *= CRITICAL_TASK_BOOST;
+        }
+        confidence = clamp(Math.round(confidence * 100) / 100, 0, 1);
+        if (confidence < opts.minConfidence) continue;
+
+        const taskAgeMs = now - task.createdAt.getTime();
+        const predictedBlockTime = new Date(now + clamp(pattern.avgTimeToBlockMs - taskAgeMs, 0, lookAheadMs));
+
+        candidates.push(this.buildPrediction(task, pattern, {
+          confidence,
+          preconditions,
+          predictedBlockTime,
+          autoMitigateThreshold: opts.autoMitigateThreshold,
+        }));
+      }
+    }
+
+    const predictions = candidates
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, opts.maxPredictions);
+
+    for (const prediction of predictions) {
+      this.commitPrediction(prediction);
+    }
+
+    return predictions;
+  }
+
+  /**
+   * Record what actually happened to a predicted blocker:
+   * - blocked: the blocker occurred
+   * - unblocked: the task was at risk but the mitigation kept it moving
+   * - no_issue: the task never hit the predicted blocker
+   */
+  recordOutcome(predictionId: string, outcome: PredictionOutcome): PredictedBlocker | undefined {
+    const prediction = this.predictions.get(predictionId);
+    if (!prediction) return undefined;
+
+    prediction.actualOutcome = outcome;
+    prediction.status = outcome === 'blocked' ? 'occurred' : outcome === 'unblocked' ? 'prevented' : 'false_positive';
+    prediction.resolvedAt = new Date().toISOString();
+
+    void this.persist(prediction);
+    return prediction;
+  }
+
+  /**
+   * Resolve open predictions from the latest task states
+   */
+  reconcile(tasks: Task[]): PredictedBlocker[] {
+    const byId = new Map(tasks.map(t => [t.id, t]));
+    const now = Date.now();
+    const resolved: PredictedBlocker[] = [];
+
+    for (const prediction of this.predictions.values()) {
+      if (prediction.status !== 'predicted') continue;
+
+      const task = byId.get(prediction.taskId);
+      if (!task) continue;
+
+      let outcome: PredictionOutcome | null = null;
+      if (task.status === 'blocked') {
+        outcome = 'blocked';
+      } else if (task.status === 'completed' || now > prediction.predictedBlockTime.getTime()) {
+        const mitigated = prediction.mitigationTask?.status === 'completed';
+        outcome = mitigated ? 'unblocked' : 'no_issue';
+      }
+
+      if (outcome) {
+        resolved.push(this.recordOutcome(prediction.id, outcome)!);
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Get guard accuracy metrics across all tracked predictions
+   */
+  getMetrics(): GuardMetrics {
+    return calculateGuardMetrics(
+      this.getPredictions().map(p => ({ status: p.status, confidence: p.confidence * 100 }))
+    );
+  }
+
+  getPatterns(): BlockerPattern[] {
+    return Array.from(this.patterns.values());
+  }
+
+  getPredictions(): PredictedBlocker[] {
+    return Array.from(this.predictions.values());
+  }
+
+  clearPredictions(): void {
+    this.predictions.clear();
+  }
+
+  setAutoMitigateThreshold(threshold: number): void {
+    this.autoMitigateThreshold = clamp(threshold, 0, 1);
+  }
+
+  // Private helper methods
+
+  // Patterns seen only once or twice get discounted until more evidence arrives
+  private getEvidenceWeight(occurrences: number): number {
+    return 0.5 + 0.5 * Math.min(1, occurrences / 5);
+  }
+
+  private buildErrorPatternDefinitions(blockedTasks: Task[]): PatternDefinition[] {
+    const errorTypes = new Set(
+      blockedTasks.map(t => t.errorType).filter((type): type is string => !!type && type !== 'unknown')
+    );
+
+    return Array.from(errorTypes).map(errorType => ({
+      id: `pattern-error-${errorType}`,
+      name: `Recurring ${errorType.replace(/_/g, ' ')} Errors`,
+      description: `Tasks failing with ${errorType.replace(/_/g, ' ')} errors end up blocked after self-healing`,
+      severity: HIGH_SEVERITY_ERROR_TYPES.has(errorType) ? 'high' : 'medium',
+      conditions: [
+        { field: 'errorType', operator: 'equals', value: errorType, description: `Last error was ${errorType.replace(/_/g, ' ')}` },
+      ],
+      recommendedAction: `Fix the root cause of ${errorType.replace(/_/g, ' ')} errors before retrying`,
+      mitigation: { title: `Resolve ${errorType.replace(/_/g, ' ')} error root cause`, estimatedHours: 2 },
+    }));
+  }
+
+  private buildPrediction(
+    task: Task,
+    pattern: BlockerPattern,
+    params: {
+      confidence: number;
+      preconditions: CorePredictedBlocker['preconditions'];
+      predictedBlockTime: Date;
+      autoMitigateThreshold: number;
+    }
+  ): PredictedBlocker {
+    const autoMitigate = params.confidence >= params.autoMitigateThreshold;
+    const definition = PATTERN_DEFINITIONS.find(d => d.id === pattern.id);
+    const mitigation = definition?.mitigation ?? { title: pattern.recommendedAction, estimatedHours: 2 };
+
+    return {
+      id: generateId('blocker'),
+      patternId: pattern.id,
+      taskId: task.id,
+      severity: pattern.severity,
+      confidence: params.confidence,
+      predictedAt: new Date().toISOString(),
+      predictedFor: params.predictedBlockTime.toISOString(),
+      predictedBlockTime: params.predictedBlockTime,
+      preconditions: params.preconditions,
+      contributingFactors: [
+        ...params.preconditions.filter(p => p.met).map(p => p.condition),
+        `${pattern.name}: ${Math.round(pattern.frequency * 100)}% of ${pattern.occurrenceCount} similar task(s) were blocked`,
+      ],
+      recommendedAction: pattern.recommendedAction,
+      mitigationTasks: autoMitigate
+        ? [{
+            id: generateId('mitigation'),
+            parentTaskId: task.id,
+            patternId: pattern.id,
+            title: `${mitigation.title}: ${task.title}`,
+            description: pattern.recommendedAction,
+            priority: task.priority,
+            estimatedHours: mitigation.estimatedHours,
+          }]
+        : [],
+      autoMitigate,
+      status: 'predicted',
+    };
+  }
+
+  private commitPrediction(prediction: PredictedBlocker): void {
+    // Re-predicting the same task + pattern refreshes the open prediction instead of duplicating it
+    const existing = this.getPredictions().find(
+      p => p.taskId === prediction.taskId && p.patternId === prediction.patternId && p.status === 'predicted'
+    );
+    if (existing) {
+      prediction.id = existing.id;
+      prediction.mitigationTask = existing.mitigationTask;
+      this.predictions.delete(existing.id);
+    }
+
+    if (prediction.autoMitigate && !prediction.mitigationTask && this.taskGenerator) {
+      prediction.mitigationTask = this.taskGenerator.createProactiveMitigationTask(
+        prediction.id,
+        `${prediction.recommendedAction} (task ${prediction.taskId})`,
+        Math.round(prediction.confidence * 100),
+        prediction.preconditions.filter(p => p.met).map(p => p.condition)
+      );
+    }
+
+    this.predictions.set(prediction.id, prediction);
+    this.onPrediction?.(prediction);
+    void this.persist(prediction);
+  }
+
+  private async persist(prediction: PredictedBlocker): Promise<void> {
+    if (!this.store) return;
+
+    try {
+      await this.store.save(prediction);
+    } catch (err) {
+      console.error('[PredictiveGuard] Failed to persist prediction:', err);
+    }
+  }
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+export interface BlockerPredictionRow {
+  id: string;
+  task_ref: string;
+  pattern_id: string;
+  severity: string;
+  confidence: number;
+  status: CorePredictedBlocker['status'];
+  actual_outcome: PredictionOutcome | null;
+  predicted_at: string;
+  predicted_for: string;
+  resolved_at: string | null;
+}
+
+/**
+ * Stores predictions and their outcomes in the blocker_predictions table
+ */
+export class SupabasePredictionStore implements PredictionStore {
+  constructor(
+    private client: SupabaseClient,
+    private userId: string = 'system'
+  ) {}
+
+  async save(prediction: PredictedBlocker): Promise<void> {
+    const { error } = await this.client
+      .from('blocker_predictions')
+      .upsert({
+        id: prediction.id,
+        user_id: this.userId,
+        task_ref: prediction.taskId,
+        pattern_id: prediction.patternId,
+        severity: prediction.severity,
+        confidence: Math.round(prediction.confidence * 100),
+        preconditions: prediction.preconditions,
+        mitigation_task_ref: prediction.mitigationTask?.id ?? null,
+        status: prediction.status,
+        actual_outcome: prediction.actualOutcome ?? null,
+        predicted_at: prediction.predictedAt,
+        predicted_for: prediction.predictedFor,
+        resolved_at: prediction.resolvedAt ?? null,
+      });
+
+    if (error) throw error;
+  }
+}
+
+export interface AutonomousTaskRow {
+  id: string;
+  title: string | null;
+  status: 'pending' | 'assigned' | 'in_progress' | 'blocked' | 'completed' | 'cancelled';
+  priority: TaskPriority | null;
+  assignee: string | null;
+  estimated_duration_minutes: number | null;
+  blocker_pattern: string | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+  updated_at: string | null;
+  completed_at: string | null;
+}
+
+/**
+ * Map an autonomous_tasks row (plus its latest healing event) to a guard Task
+ */
+export function mapTaskRow(row: AutonomousTaskRow, healing?: HealingEventRow): Task {
+  const metadata = row.metadata ?? {};
+  const escalated = healing?.status === 'escalated' || healing?.status === 'failed';
+  const blocked = row.status === 'blocked' || escalated;
+  const blockReason = row.blocker_pattern ?? healing?.error ?? undefined;
+
+  return {
+    id: row.id,
+    title: row.title ?? '',
+    status: blocked ? 'blocked' : row.status === 'in_progress' ? 'in-progress' : row.status,
+    priority: row.priority ?? 'medium',
+    assignee: row.assignee ?? undefined,
+    estimatedHours: row.estimated_duration_minutes ? row.estimated_duration_minutes / 60 : undefined,
+    tags: Array.isArray(metadata.tags) ? (metadata.tags as string[]) : undefined,
+    dependencies: Array.isArray(metadata.dependencies) ? (metadata.dependencies as string[]) : undefined,
+    blockReason,
+    errorType: blockReason ? classifyError(blockReason).type : undefined,
+    createdAt: new Date(row.created_at),
+    blockedAt: blocked
+      ? new Date(healing?.escalated_at ?? row.updated_at ?? row.created_at)
+      : undefined,
+    unblockedAt: healing?.resolved_at ? new Date(healing.resolved_at) : undefined,
+    completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+  };
+}
+
+/**
+ * Convert an AutonomousTask into a guard Task
+ */
+export function fromAutonomousTask(task: AutonomousTask): Task {
+  return {
+    id: task.id,
+    title: task.title,
+    status: task.status === 'in_progress' ? 'in-progress' : task.status,
+    priority: task.priority,
+    assignee: task.assignedTo,
+    errorType: task.execution?.error ? classifyError(task.execution.error).type : undefined,
+    createdAt: new Date(task.createdAt),
+    completedAt: task.completedAt ? new Date(task.completedAt) : undefined,
+  };
+}
+
+/**
+ * Create a predictive guard instance
+ */
+export function createPredictiveGuard(options: PredictiveGuardOptions = {}): PredictiveGuard {
+  return new PredictiveGuard(options);
+}
+
+// Singleton instance
+let globalPredictiveGuard: PredictiveGuard | null = null;
+
+/**
+ * Get or create global predictive guard, persisting to Supabase when configured
+ */
+export function getPredictiveGuard(options?: PredictiveGuardOptions): PredictiveGuard {
+  if (!globalPredictiveGuard) {
+    const supabase = getServerSupabase();
+    globalPredictiveGuard = new PredictiveGuard({
+      store: supabase ? new SupabasePredictionStore(supabase) : null,
+      ...options,
+    });
+  }
+  return globalPredictiveGuard;
+}
+
+/**
+ * Reset global instance (useful for testing)
+ */
+export function resetPredictiveGuard(): void {
+  globalPredictiveGuard = null;
+}
@@ -0,0 +1,568 @@
+/**
+ * Self-Healing Engine
+ *
+ * Recovers failed autonomous tasks without operator involvement:
+ * - Classifies errors into ErrorSeverity (transient / persistent / critical)
+ * - Picks a HealingStrategy per attempt (retry, backoff, circuit breaker, fallback)
+ * - Escalates to an operator once attempts are exhausted, the error is critical
+ *   or no recovery handler is configured
+ * - Persists every real healing outcome to the healing_events table
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getServerSupabase } from '@/lib/supabase-server';
+import type {
+  AutonomousTask,
+  ErrorEvent,
+  ErrorSeverity,
+  HealingAttempt,
+  HealingEvent as HealingRecord,
+  HealingStatus,
+  HealingStrategy,
+} from './types';
+
+export type { HealingAttempt, HealingStrategy, ErrorEvent, ErrorSeverity } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type HealingEventType = 'started' | 'retrying' | 'succeeded' | 'failed' | 'escalated';
+
+/**
+ * Lifecycle event emitted while a task is being healed.
+ * The persisted outcome is the HealingEvent record from ./types.
+ */
+export interface HealingEvent {
+  eventId: string;
+  type: HealingEventType;
+  taskId: string;
+  healingId: string;
+  timestamp: Date;
+  strategy: HealingStrategy;
+  severity: ErrorSeverity;
+  attemptNumber?: number;
+  retryDelayMs?: number;
+  error?: string;
+}
+
+export interface RecoveryContext {
+  taskId: string;
+  task?: AutonomousTask;
+  error: ErrorEvent;
+  attemptNumber: number;
+  strategy: HealingStrategy;
+}
+
+/**
+ * Re-runs (or compensates for) a failed task. Resolve on success, throw on failure.
+ */
+export type RecoveryHandler = (context: RecoveryContext) => Promise<void>;
+
+export interface HealingEventStore {
+  save(record: HealingRecord, details: { severity: ErrorSeverity; errorType: string }): Promise<void>;
+}
+
+export interface SelfHealingConfig {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxAttempts: number;
+  backoffMultiplier: number;
+  jitterRatio: number;
+  circuitBreakerThreshold: number; // Consecutive failures of one error type before the circuit opens
+  circuitResetMs: number;
+  recover?: RecoveryHandler;
+  fallback?: RecoveryHandler;
+  // Demo mode: without a recover handler, succeed or fail at random. Simulated outcomes are never persisted.
+  simulate?: boolean;
+  store?: HealingEventStore | null;
+  onEvent?: (event: HealingEvent) => void;
+  onEscalate?: (taskId: string, error: ErrorEvent, attempts: HealingAttempt[]) => void;
+}
+
+interface TaskHealingState {
+  record: HealingRecord;
+  task?: AutonomousTask;
+  lastError: ErrorEvent;
+}
+
+interface CircuitState {
+  consecutiveFailures: number;
+  openedAt?: number;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DEFAULT_CONFIG: SelfHealingConfig = {
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  maxAttempts: 3,
+  backoffMultiplier: 2,
+  jitterRatio: 0.2,
+  circuitBreakerThreshold: 5,
+  circuitResetMs: 60000,
+};
+
+// Success rate of the simulated recovery used in demo mode (simulate: true)
+const DEMO_RECOVERY_SUCCESS_RATE = 0.7;
+
+const ERROR_PATTERNS: { type: string; severity: ErrorSeverity; pattern: RegExp }[] = [
+  { type: 'auth', severity: 'critical', pattern: /unauthori[sz]ed|forbidden|permission denied|invalid api key|\b40[13]\b/i },
+  { type: 'validation', severity: 'critical', pattern: /violates|constraint|invalid input|malformed/i },
+  { type: 'timeout', severity: 'transient', pattern: /timeout|timed out|ETIMEDOUT/i },
+  { type: 'rate_limit', severity: 'transient', pattern: /rate limit|too many requests|\b429\b/i },
+  { type: 'network', severity: 'transient', pattern: /ECONNREFUSED|ECONNRESET|ENOTFOUND|socket hang up|fetch failed|network/i },
+  { type: 'resource_busy', severity: 'transient', pattern: /busy|locked|unavailable|\b503\b/i },
+];
+
+// Error types where a single immediate retry usually succeeds
+const IMMEDIATE_RETRY_TYPES = new Set(['timeout', 'network']);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Classify an error message into an error type and severity
+ */
+export function classifyError(message: string): { type: string; severity: ErrorSeverity } {
+  const match = ERROR_PATTERNS.find(p => p.pattern.test(message));
+  return match
+    ? { type: match.type, severity: match.severity }
+    : { type: 'unknown', severity: 'persistent' };
+}
+
+function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+}
+
+async function simulateRecovery(): Promise<void> {
+  if (Math.random() > DEMO_RECOVERY_SUCCESS_RATE) {
+    throw new Error('Simulated recovery failed');
+  }
+}
+
+// ============================================================================
+// Self-Healing Engine
+// ============================================================================
+
+export class SelfHealingEngine {
+  private config: SelfHealingConfig;
+  private states: Map<string, TaskHealingState> = new Map();
+  private circuits: Map<string, CircuitState> = new Map();
+  private listeners: Set<(event: HealingEvent) => void> = new Set();
+  private eventSequence = 0;
+
+  constructor(config: Partial<SelfHealingConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    if (this.config.onEvent) {
+      this.listeners.add(this.config.onEvent);
+    }
+  }
+
+  /**
+   * Run the next healing attempt for a failed task.
+   * Call once per failure; the task is escalated after maxAttempts failed attempts.
+   */
+  async monitorTask(task: string | AutonomousTask, error: Error | ErrorEvent): Promise<HealingRecord> {
+    const taskId = typeof task === 'string' ? task : task.id;
+    let state = this.states.get(taskId);
+
+    // Escalated tasks belong to the operator until their history is cleared
+    if (state?.record.status === 'escalated') {
+      return state.record;
+    }
+
+    const errorEvent = this.toErrorEvent(taskId, error, state ? state.record.attempts.length + 1 : 1);
+
+    if (!state) {
+      state = {
+        record: {
+          id: crypto.randomUUID(),
+          errorId: errorEvent.id,
+          taskId,
+          status: 'pending',
+          strategy: 'exponential_backoff',
+          attempts: [],
+          startedAt: new Date().toISOString(),
+        },
+        task: typeof task === 'string' ? undefined : task,
+        lastError: errorEvent,
+      };
+      this.states.set(taskId, state);
+      this.emit('started', state, { error: errorEvent.message });
+    }
+
+    state.lastError = errorEvent;
+    if (typeof task !== 'string') {
+      state.task = task;
+    }
+
+    const attemptNumber = state.record.attempts.length + 1;
+    const strategy = this.selectStrategy(errorEvent, attemptNumber);
+    state.record.strategy = strategy;
+
+    if (strategy === 'operator_escalation') {
+      await this.escalate(state);
+      return state.record;
+    }
+
+    const handler = strategy === 'fallback_execution' && this.config.fallback
+      ? this.config.fallback
+      : this.config.recover ?? (this.config.simulate ? simulateRecovery : undefined);
+
+    // Nothing can re-run the task, so it goes straight to an operator
+    if (!handler) {
+      state.record.strategy = 'operator_escalation';
+      await this.escalate(state, 'No recovery handler configured');
+      return state.record;
+    }
+
+    const delayMs = this.getDelayForStrategy(strategy, attemptNumber, errorEvent.type);
+    state.record.status = 'retrying';
+    this.emit('retrying', state, { attemptNumber, retryDelayMs: delayMs });
+
+    await sleep(delayMs);
+
+    let attemptError: string | undefined;
+    try {
+      await handler({ taskId, task: state.task, error: errorEvent, attemptNumber, strategy });
+    } catch (err) {
+      attemptError = err instanceof Error ? err.message : String(err);
+    }
+
+    const attempt: HealingAttempt = {
+      attemptNumber,
+      strategy,
+      timestamp: new Date().toISOString(),
+      success: !attemptError,
+      error: attemptError,
+      delayMs,
+    };
+    state.record.attempts.push(attempt);
+    this.recordTaskAttempt(state, attemptError);
+    this.updateCircuit(errorEvent.type, !attemptError);
+
+    if (!attemptError) {
+      state.record.status = 'healed';
+      state.record.resolvedAt = attempt.timestamp;
+      if (state.task?.execution) {
+        state.task.execution.healedBy = state.record.id;
+      }
+      this.emit('succeeded', state, { attemptNumber });
+      await this.persist(state);
+      this.states.delete(taskId);
+      return state.record;
+    }
+
+    this.emit('failed', state, { attemptNumber, error: attemptError });
+
+    if (state.record.attempts.length >= this.config.maxAttempts) {
+      await this.escalate(state);
+    } else {
+      await this.persist(state);
+    }
+
+    return state.record;
+  }
+
+  /**
+   * Heal a task end-to-end: keep attempting until it is healed or escalated
+   */
+  async healTask(task: string | AutonomousTask, error: Error | ErrorEvent): Promise<HealingRecord> {
+    let record = await this.monitorTask(task, error);
+    while (record.status === 'retrying') {
+      record = await this.monitorTask(task, error);
+    }
+    return record;
+  }
+
+  /**
+   * Calculate the backoff delay for an attempt:
+   * baseDelayMs * multiplier^(attempt - 1), capped at maxDelayMs, with ±jitterRatio jitter
+   */
+  retryWithBackoff(attemptNumber: number): number {
+    const { baseDelayMs, maxDelayMs, backoffMultiplier, jitterRatio } = this.config;
+    const exponential = Math.min(baseDelayMs * Math.pow(backoffMultiplier, attemptNumber - 1), maxDelayMs);
+    const jitter = 1 + (Math.random() * 2 - 1) * jitterRatio;
+    return Math.round(Math.min(exponential * jitter, maxDelayMs));
+  }
+
+  /**
+   * Pick the healing strategy for the next attempt
+   */
+  selectStrategy(error: ErrorEvent, attemptNumber: number): HealingStrategy {
+    if (error.severity === 'critical') return 'operator_escalation';
+    if (this.isCircuitOpen(error.type)) return 'circuit_breaker';
+
+    if (error.severity === 'transient' && attemptNumber === 1 && IMMEDIATE_RETRY_TYPES.has(error.type)) {
+      return 'immediate_retry';
+    }
+
+    if (
+      error.severity === 'persistent' &&
+      attemptNumber === this.config.maxAttempts &&
+      this.config.fallback
+    ) {
+      return 'fallback_execution';
+    }
+
+    return 'exponential_backoff';
+  }
+
+  /**
+   * Subscribe to healing lifecycle events
+   */
+  subscribeToEvents(listener: (event: HealingEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get the attempts made so far for a task that is still being healed
+   */
+  getAttemptsForTask(taskId: string): HealingAttempt[] {
+    return this.states.get(taskId)?.record.attempts ?? [];
+  }
+
+  /**
+   * Get the in-flight healing record for a task
+   */
+  getHealingRecord(taskId: string): HealingRecord | undefined {
+    return this.states.get(taskId)?.record;
+  }
+
+  /**
+   * Forget a task's healing history (e.g. after an operator resolves an escalation)
+   */
+  clearTaskHistory(taskId: string): void {
+    this.states.delete(taskId);
+  }
+
+  // Private helper methods
+
+  private toErrorEvent(taskId: string, error: Error | ErrorEvent, attemptCount: number): ErrorEvent {
+    if (!(error instanceof Error)) return error;
+
+    const { type, severity } = classifyError(error.message);
+    return {
+      id: `err_${Date.now()}_${++this.eventSequence}`,
+      taskId,
+      type,
+      message: error.message,
+      severity,
+      timestamp: new Date().toISOString(),
+      attemptCount,
+      stackTrace: error.stack,
+    };
+  }
+
+  private getDelayForStrategy(strategy: HealingStrategy, attemptNumber: number, errorType: string): number {
+    switch (strategy) {
+      case 'immediate_retry':
+        return 0;
+      case 'circuit_breaker': {
+        // Wait out the open circuit, then probe (half-open)
+        const openedAt = this.circuits.get(errorType)?.openedAt ?? Date.now();
+        const remaining = openedAt + this.config.circuitResetMs - Date.now();
+        return Math.max(0, Math.min(remaining, this.config.maxDelayMs));
+      }
+      default:
+        return this.retryWithBackoff(attemptNumber);
+    }
+  }
+
+  private isCircuitOpen(errorType: string): boolean {
+    const circuit = this.circuits.get(errorType);
+    return circuit?.openedAt !== undefined;
+  }
+
+  private updateCircuit(errorType: string, success: boolean): void {
+    if (success) {
+      this.circuits.delete(errorType);
+      return;
+    }
+
+    const circuit = this.circuits.get(errorType) ?? { consecutiveFailures: 0 };
+    circuit.consecutiveFailures++;
+    if (circuit.consecutiveFailures >= this.config.circuitBreakerThreshold) {
+      circuit.openedAt = Date.now();
+    }
+    this.circuits.set(errorType, circuit);
+  }
+
+  private recordTaskAttempt(state: TaskHealingState, error?: string): void {
+    if (!state.task) return;
+
+    if (!state.task.execution) {
+      state.task.execution = { attempts: 0 };
+    }
+    state.task.execution.attempts++;
+    state.task.execution.lastAttemptAt = new Date().toISOString();
+    if (error) {
+      state.task.execution.error = error;
+    }
+  }
+
+  private async escalate(state: TaskHealingState, reason?: string): Promise<void> {
+    const { record, lastError } = state;
+    record.status = 'escalated';
+    record.escalatedAt = new Date().toISOString();
+    record.error = reason ? `${reason}: ${lastError.message}` : lastError.message;
+
+    this.emit('escalated', state, { error: record.error });
+
+    try {
+      this.config.onEscalate?.(record.taskId, lastError, record.attempts);
+    } catch (err) {
+      console.error('[SelfHealing] Escalation handler failed:', err);
+    }
+
+    await this.persist(state);
+  }
+
+  private emit(
+    type: HealingEventType,
+    state: TaskHealingState,
+    details: { attemptNumber?: number; retryDelayMs?: number; error?: string } = {}
+  ): void {
+    const event: HealingEvent = {
+      eventId: `heal_evt_${Date.now()}_${++this.eventSequence}`,
+      type,
+      taskId: state.record.taskId,
+      healingId: state.record.id,
+      timestamp: new Date(),
+      strategy: state.record.strategy,
+      severity: state.lastError.severity,
+      ...details,
+    };
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (err) {
+        console.error('[SelfHealing] Event listener failed:', err);
+      }
+    }
+  }
+
+  private async persist(state: TaskHealingState): Promise<void> {
+    // Simulated outcomes must never show up as recovery history
+    if (!this.config.store || (this.config.simulate && !this.config.recover)) return;
+
+    try {
+      await this.config.store.save(state.record, {
+        severity: state.lastError.severity,
+        errorType: state.lastError.type,
+      });
+    } catch (err) {
+      console.error('[SelfHealing] Failed to persist healing event:', err);
+    }
+  }
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+export interface HealingEventRow {
+  id: string;
+  user_id: string;
+  task_id: string | null;
+  task_ref: string | null;
+  error_id: string | null;
+  status: HealingStatus;
+  strategy: HealingStrategy | null;
+  attempts: HealingAttempt[] | null;
+  severity: ErrorSeverity | null;
+  error: string | null;
+  started_at: string;
+  resolved_at: string | null;
+  escalated_at: string | null;
+}
+
+/**
+ * Stores healing outcomes in the healing_events table
+ */
+export class SupabaseHealingEventStore implements HealingEventStore {
+  constructor(
+    private client: SupabaseClient,
+    private userId: string = 'system'
+  ) {}
+
+  async save(record: HealingRecord, details: { severity: ErrorSeverity; errorType: string }): Promise<void> {
+    // task_id references autonomous_tasks; in-memory task IDs are kept in task_ref only
+    const taskId = UUID_PATTERN.test(record.taskId) ? record.taskId : null;
+
+    const { error } = await this.client
+      .from('healing_events')
+      .upsert({
+        id: record.id,
+        user_id: this.userId,
+        task_id: taskId,
+        task_ref: record.taskId,
+        error_id: record.errorId,
+        status: record.status,
+        strategy: record.strategy,
+        attempts: record.attempts,
+        severity: details.severity,
+        error: record.error ?? record.attempts[record.attempts.length - 1]?.error ?? null,
+        started_at: record.startedAt,
+        resolved_at: record.resolvedAt ?? null,
+        escalated_at: record.escalatedAt ?? null,
+      });
+
+    if (error) throw error;
+
+    if (taskId) {
+      await this.client
+        .from('autonomous_tasks')
+        .update({ healing_attempts: record.attempts.length, updated_at: new Date().toISOString() })
+        .eq('id', taskId);
+    }
+  }
+}
+
+/**
+ * Map a healing_events row to the HealingEvent shape used by the dashboard
+ */
+export function mapHealingEventRow(row: HealingEventRow): HealingRecord {
+  return {
+    id: row.id,
+    errorId: row.error_id ?? '',
+    taskId: row.task_id ?? row.task_ref ?? '',
+    status: row.status,
+    strategy: row.strategy ?? 'exponential_backoff',
+    attempts: row.attempts ?? [],
+    startedAt: row.started_at,
+    resolvedAt: row.resolved_at ?? undefined,
+    escalatedAt: row.escalated_at ?? undefined,
+    error: row.error ?? undefined,
+  };
+}
+
+// Singleton instance
+let globalHealingEngine: SelfHealingEngine | null = null;
+
+/**
+ * Get or create global self-healing engine, persisting to Supabase when configured
+ */
+export function getSelfHealingEngine(config?: Partial<SelfHealingConfig>): SelfHealingEngine {
+  if (!globalHealingEngine) {
+    const supabase = getServerSupabase();
+    globalHealingEngine = new SelfHealingEngine({
+      store: supabase ? new SupabaseHealingEventStore(supabase) : null,
+      ...config,
+    });
+  }
+  return globalHealingEngine;
+}
+
+/**
+ * Reset global instance (useful for testing)
+ */
+export function resetSelfHealingEngine(): void {
+  globalHealingEngine = null;
+}
@@ -6,6 +6,7 @@
 
 import type { Recommendation, RecommendationType } from '@/lib/intelligence/recommendation-engine';
 import type { AnomalyResult } from '@/lib/predictions/types';
+import type { ABTestGuardrail, ABTestMetric } from '@/types/sequences';
 
 // ============================================================================
 // Task Generator Types
@@ -189,6 +190,10 @@ export interface ABTestHypothesis {
     sampleSize: number;
     successCriteria: string;
     rollbackCriteria: string;
+    // Metric that decides the test (default replyRate)
+    primaryMetric?: ABTestMetric;
+    // Health metrics that stop or roll back a variant when breached
+    guardrails?: ABTestGuardrail[];
   };
   
   // Status and ownership
@@ -2,7 +2,10 @@
  * Email Processor - Job Handler
  * 
  * Processes email jobs from the queue with:
- * - Rate limiting integration
+ * - Suppression list enforcement
+ * - Sender rotation across a campaign's mailbox pool
+ * - Rate limiting integration (sender, recipient domain and provider)
+ * - Provider deferral (4xx) handling with adaptive backoff
  * - Exponential backoff retry logic
  * - Provider abstraction
  * - Failure handling and dead letter queue
@@ -13,7 +16,9 @@ import {
   EmailRateLimiter,
   getEmailRateLimiter,
   extractDomain,
+  parseDeferral,
   type RateLimitCheck,
+  type DeferralInfo,
 } from './rate-limiter';
 import {
   EmailQueueService,
@@ -23,6 +28,15 @@ import {
   type EmailJobProgress,
   QUEUE_NAMES,
 } from './email-queue';
+import {
+  SuppressionList,
+  getSuppressionList,
+} from './suppression';
+import {
+  SenderPool,
+  getSenderPool,
+  type SenderSelection,
+} from './sender-pool';
 
 // ============================================================================
 // TYPES
@@ -32,7 +46,7 @@ import {
 export interface EmailProvider {
   /** Provider name */
   name: string;
-  /** Send email */
+  /** Send email (providers must forward data.headers, e.g. List-Unsubscribe) */
   send(data: EmailJobData): Promise<{ messageId: string; response: unknown }>;
   /** Validate provider configuration */
   validate(): Promise<{ valid: boolean; error?: string }>;
@@ -44,6 +58,8 @@ export interface EmailProvider {
 export type ProcessingStage = 
   | 'initialized'
   | 'validating'
+  | 'suppression_check'
+  | 'suppressed'
   | 'rate_limit_check'
   | 'queued'
   | 'sending'
@@ -69,6 +85,10 @@ export interface EmailProcessorConfig {
   provider: EmailProvider;
   /** Rate limiter instance */
   rateLimiter?: EmailRateLimiter;
+  /** Suppression list checked before sending */
+  suppressionList?: SuppressionList;
+  /** Mailbox pools that pick the sender for campaign jobs */
+  senderPool?: SenderPool;
   /** Queue service instance */
   queueService?: EmailQueueService;
   /** Log level */
@@ -225,6 +245,8 @@ export class EmailProcessor {
     this.config = {
       provider: config.provider,
       rateLimiter: config.rateLimiter ?? getEmailRateLimiter(),
+      suppressionList: config.suppressionList ?? getSuppressionList(),
+      senderPool: config.senderPool ?? getSenderPool({ rateLimiter: config.rateLimiter }),
       queueService: config.queueService ?? getEmailQueueService(),
       logLevel: config.logLevel ?? 'info',
       onEvent: config.onEvent ?? (() => {}),
@@ -346,7 +368,43 @@ export class EmailProcessor {
       };
     }
 
-    // Step 2: Check rate limits
+    // Step 2: Check suppressions (unsubscribes, hard bounces, complaints)
+    this.emit({
+      eventId: `${jobId}-suppression-check`,
+      jobId,
+      stage: 'suppression_check',
+      timestamp: new Date(),
+      message: 'Checking suppression list',
+    });
+
+    const suppression = await this.config.suppressionList.check(data.to, data.workspaceId);
+    if (suppression.suppressed) {
+      const reason = suppression.entry?.reason ?? 'suppressed';
+      this.log('info', `Recipient suppressed for job ${jobId}: ${reason}`, {
+        to: data.to,
+        type: suppression.entry?.suppression_type,
+      });
+
+      this.emit({
+        eventId: `${jobId}-suppressed`,
+        jobId,
+        stage: 'suppressed',
+        timestamp: new Date(),
+        message: `Recipient suppressed: ${reason}`,
+        metadata: { entry: suppression.entry },
+      });
+
+      this.processedCount++;
+
+      // Not retried: a suppressed recipient stays suppressed
+      return {
+        success: false,
+        sentAt: new Date(),
+        error: `SUPPRESSED: ${reason}`,
+      };
+    }
+
+    // Step 3: Pick a sender and check rate limits
     this.emit({
       eventId: `${jobId}-rate-check`,
       jobId,
@@ -355,17 +413,25 @@ export class EmailProcessor {
       message: 'Checking rate limits',
     });
 
-    const domain = extractDomain(data.from);
-    const rateCheck = this.config.rateLimiter.checkLimit(
-      domain,
-      data.accountId,
-      data.accountAgeInDays
-    );
+    // Campaigns with a mailbox pool send from the mailbox with the most headroom
+    const sender: SenderSelection | null = data.campaignId
+      ? await this.config.senderPool.select(data.campaignId)
+      : null;
+    const mailbox = sender?.mailbox ?? null;
+    const job: EmailJobData = mailbox
+      ? { ...data, from: mailbox.email, accountId: mailbox.accountId, accountAgeInDays: sender!.warmupDay }
+      : data;
+
+    const domain = extractDomain(job.from);
+    const rateCheck = sender
+      ? sender.check
+      : this.config.rateLimiter.checkLimit(domain, job.accountId, job.accountAgeInDays);
 
     if (!rateCheck.allowed) {
       this.log('warn', `Rate limit hit for job ${jobId}: ${rateCheck.reason}`, {
         domain,
-        accountId: data.accountId,
+        accountId: job.accountId,
+        campaignId: data.campaignId,
         retryAfter: rateCheck.retryAfterMs,
       });
 
@@ -383,30 +449,57 @@ export class EmailProcessor {
       }
 
       // Throw rate limit error - this will trigger queue retry
-      const error = new Error(`RATE_LIMITED: ${rateCheck.reason}`);
-      (error as Error & { retryAfterMs: number }).retryAfterMs = rateCheck.retryAfterMs || 60000;
-      throw error;
+      throw createRateLimitError(rateCheck.reason, rateCheck.retryAfterMs);
     }
 
     this.log('debug', `Rate check passed for job ${jobId}`, {
       tier: rateCheck.limits.description,
       usage: rateCheck.currentUsage,
+      mailboxId: mailbox?.id,
     });
 
-    // Step 3: Send email
+    // Step 4: Check recipient domain and provider throttles
+    const destination = await this.config.rateLimiter.resolveDestination(job.to);
+    const destinationCheck = this.config.rateLimiter.checkDestination(destination);
+
+    if (!destinationCheck.allowed) {
+      this.log('warn', `Destination throttled for job ${jobId}: ${destinationCheck.reason}`, {
+        ...destination,
+        retryAfter: destinationCheck.retryAfterMs,
+      });
+
+      this.emit({
+        eventId: `${jobId}-destination-limited`,
+        jobId,
+        stage: 'retrying',
+        timestamp: new Date(),
+        message: `Rate limited: ${destinationCheck.reason}`,
+        metadata: { retryAfterMs: destinationCheck.retryAfterMs, destination },
+      });
+
+      throw createRateLimitError(destinationCheck.reason, destinationCheck.retryAfterMs);
+    }
+
+    // Step 5: Send email
     this.emit({
       eventId: `${jobId}-sending`,
       jobId,
       stage: 'sending',
       timestamp: new Date(),
       message: 'Sending email',
+      metadata: mailbox ? { mailboxId: mailbox.id, from: job.from } : undefined,
     });
 
     try {
-      const response = await this.sendEmail(data);
-
-      // Step 4: Record success
-      this.config.rateLimiter.recordSuccess(domain, data.accountId);
+      const response = await this.sendEmail(job);
+
+      // Step 6: Record success
+      this.config.rateLimiter.recordDestinationSuccess(destination);
+      if (mailbox) {
+        this.config.senderPool.recordSuccess(mailbox);
+      } else {
+        this.config.rateLimiter.recordSuccess(domain, job.accountId);
+      }
 
       this.log('info', `Email sent successfully for job ${jobId}`, {
         messageId: response.messageId,
@@ -430,13 +523,32 @@ export class EmailProcessor {
         messageId: response.messageId,
         providerResponse: response.response,
         sentAt: new Date(),
+        senderEmail: job.from,
       };
     } catch (error) {
-      // Record failure
-      this.config.rateLimiter.recordFailure(domain, data.accountId);
+      const message = error instanceof Error ? error.message : String(error);
+      const { permanent, responseCode } = (error ?? {}) as { permanent?: boolean; responseCode?: number };
+      const deferral = permanent === true ? null : parseDeferral(message, responseCode);
+
+      // Record failure (pool mailboxes are auto-paused when failures spike);
+      // greylisting says nothing about the sender
+      if (deferral?.kind !== 'greylisted') {
+        if (mailbox) {
+          const paused = await this.config.senderPool.recordFailure(mailbox);
+          if (paused) {
+            this.log('warn', `Mailbox ${mailbox.email} auto-paused after repeated failures`, {
+              mailboxId: mailbox.id,
+              campaignId: data.campaignId,
+            });
+          }
+        } else {
+          this.config.rateLimiter.recordFailure(domain, job.accountId);
+        }
+      }
 
       this.log('error', `Email send failed for job ${jobId}`, {
-        error: error instanceof Error ? error.message : String(error),
+        error: message,
+        deferral: deferral?.kind,
       });
 
       this.emit({
@@ -444,14 +556,24 @@ export class EmailProcessor {
         jobId,
         stage: 'failed',
         timestamp: new Date(),
-        error: error instanceof Error ? error : new Error(String(error)),
-        message: error instanceof Error ? error.message : String(error),
+        error: error instanceof Error ? error : new Error(message),
+        message,
       });
 
       this.failureCount++;
       this.processedCount++;
 
-      // Re-throw for queue retry handling
+      // 4xx deferrals back off the destination and retry once the backoff ends
+      if (deferral) {
+        const backoffMs = this.config.rateLimiter.recordDeferral(destination, deferral);
+        throw createRateLimitError(
+          `Deferred by ${destination.provider} (${deferral.code} ${deferral.kind}): ${message}`,
+          backoffMs,
+          deferral
+        );
+      }
+
+      // Re-throw: the queue retries it, or fails it outright when permanent
       throw error;
     }
   }
@@ -460,12 +582,20 @@ export class EmailProcessor {
    * Send email through provider
    */
   private async sendEmail(data: EmailJobData): Promise<{ messageId: string; response: unknown }> {
+    const unsubscribeHeaders = this.config.suppressionList.buildUnsubscribeHeaders(data.to, {
+      workspaceId: data.workspaceId,
+      sendId: data.jobId,
+    });
+    const message = Object.keys(unsubscribeHeaders).length > 0
+      ? { ...data, headers: { ...unsubscribeHeaders, ...data.headers } }
+      : data;
+
     if (this.config.simulate) {
       const simProvider = new SimulatedEmailProvider();
-      return simProvider.send(data);
+      return simProvider.send(message);
     }
 
-    return this.config.provider.send(data);
+    return this.config.provider.send(message);
   }
 
   /**
@@ -547,23 +677,30 @@ export class EmailProcessor {
 let globalEmailProcessor: EmailProcessor | null = null;
 
 /**
- * Get or create the global email processor.
- * Automatically uses Resend when RESEND_API_KEY is set,
- * otherwise falls back to simulated provider.
+ * Create the configured email provider.
+ * Uses EMAIL_PROVIDER ('resend' | 'smtp') when set; otherwise Resend when
+ * RESEND_API_KEY is set, SMTP when SMTP_HOST is set, else the simulated provider.
+ */
+export function createEmailProvider(): EmailProvider {
+  if (process.env.EMAIL_PROVIDER === 'smtp' || (process.env.SMTP_HOST && !process.env.RESEND_API_KEY && process.env.EMAIL_PROVIDER !== 'resend')) {
+    const { SmtpEmailProvider } = require('./email-providers/smtp-provider');
+    return new SmtpEmailProvider();
+  }
+  if (process.env.RESEND_API_KEY) {
+    // Dynamic import to avoid loading Resend in non-email contexts
+    const { ResendEmailProvider } = require('./email-providers/resend-provider');
+    return new ResendEmailProvider();
+  }
+  return new SimulatedEmailProvider();
+}
+
+/**
+ * Get or create the global email processor, sending through
+ * createEmailProvider() unless a provider is given
  */
 export function getEmailProcessor(config?: Partial<Omit<EmailProcessorConfig, 'provider'>> & { provider?: EmailProvider }): EmailProcessor {
   if (!globalEmailProcessor) {
-    let provider: EmailProvider;
-    if (config?.provider) {
-      provider = config.provider;
-    } else if (process.env.RESEND_API_KEY) {
-      // Dynamic import to avoid loading Resend in non-email contexts
-      const { ResendEmailProvider } = require('./email-providers/resend-provider');
-      provider = new ResendEmailProvider();
-    } else {
-      provider = new SimulatedEmailProvider();
-    }
-    globalEmailProcessor = new EmailProcessor({ ...config, provider });
+    globalEmailProcessor = new EmailProcessor({ ...config, provider: config?.provider ?? createEmailProvider() });
   }
   return globalEmailProcessor;
 }
@@ -606,6 +743,27 @@ export function createEmailJob(
   };
 }
 
+/**
+ * Check if a job result was blocked by the suppression list
+ */
+export function isSuppressedResult(result: EmailJobResult): boolean {
+  return !result.success && (result.error?.startsWith('SUPPRESSED:') ?? false);
+}
+
+/**
+ * Build the error thrown for rate limits and deferrals (see isRateLimitError)
+ */
+function createRateLimitError(
+  reason: string | undefined,
+  retryAfterMs?: number,
+  deferral?: DeferralInfo
+): Error & { retryAfterMs: number; deferral?: DeferralInfo } {
+  const error = new Error(`RATE_LIMITED: ${reason}`) as Error & { retryAfterMs: number; deferral?: DeferralInfo };
+  error.retryAfterMs = retryAfterMs || 60000;
+  if (deferral) error.deferral = deferral;
+  return error;
+}
+
 /**
  * Check if error is a rate limit error
  */
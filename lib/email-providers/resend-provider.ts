@@ -34,6 +34,10 @@ export class ResendEmailProvider implements EmailProvider {
       payload.text = data.text;
     }
 
+    if (data.headers && Object.keys(data.headers).length > 0) {
+      payload.headers = data.headers;
+    }
+
     if (data.tags && data.tags.length > 0) {
       payload.tags = data.tags.map(t => ({ name: t, value: t }));
     }
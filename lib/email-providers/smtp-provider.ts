@@ -0,0 +1,804 @@
+/**
+ * SMTP Email Provider
+ *
+ * Implements the EmailProvider interface over plain SMTP so sends can go
+ * through Google Workspace / Microsoft 365 mailboxes or a local MailHog.
+ * - Connection pooling (reuses authenticated connections)
+ * - Implicit TLS (port 465) or STARTTLS upgrade (port 587)
+ * - AUTH PLAIN and AUTH LOGIN
+ * - MIME multipart/alternative with attachments (multipart/mixed)
+ *
+ * Configure with SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS (see fromEnv).
+ */
+
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import { randomBytes } from 'crypto';
+import type { EmailProvider } from '@/lib/email-processor';
+import type { EmailJobData } from '@/lib/email-queue';
+import type { Attachment } from '@/types/sequences';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** SMTP authentication mechanisms */
+export type SmtpAuthMethod = 'PLAIN' | 'LOGIN';
+
+/** SMTP provider configuration */
+export interface SmtpConfig {
+  host: string;
+  /** Default: 465 when secure, otherwise 587 */
+  port?: number;
+  /** Implicit TLS from the first byte (port 465) */
+  secure?: boolean;
+  /** Fail unless the connection is upgraded with STARTTLS (default: true unless secure) */
+  requireTLS?: boolean;
+  /** Never attempt STARTTLS (local test servers only) */
+  ignoreTLS?: boolean;
+  auth?: {
+    user: string;
+    pass: string;
+    /** Default: PLAIN when advertised, otherwise LOGIN */
+    method?: SmtpAuthMethod;
+  };
+  /** Hostname sent in EHLO (default: os.hostname()) */
+  clientName?: string;
+  /** Extra TLS options (e.g. rejectUnauthorized for self-signed test servers) */
+  tls?: tls.ConnectionOptions;
+  pool?: {
+    /** Max concurrent connections (default: 3) */
+    maxConnections?: number;
+    /** Reconnect after this many messages (default: 100) */
+    maxMessagesPerConnection?: number;
+    /** Close idle connections after this long (default: 30s) */
+    idleTimeoutMs?: number;
+  };
+  /** Connect + greeting timeout (default: 10s) */
+  connectionTimeoutMs?: number;
+  /** Inactivity timeout for a single command (default: 60s) */
+  socketTimeoutMs?: number;
+  /** Loads attachment bytes (default: fetch(attachment.url)) */
+  loadAttachment?: (attachment: Attachment) => Promise<Buffer>;
+}
+
+/** A parsed SMTP reply */
+export interface SmtpResponse {
+  code: number;
+  lines: string[];
+  message: string;
+}
+
+/** Attachment content ready for MIME encoding */
+export interface MimeAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+/** Built MIME message */
+export interface MimeMessage {
+  messageId: string;
+  raw: string;
+}
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+/**
+ * SMTP protocol error. 5xx replies are permanent: the email queue fails the
+ * job without retrying it.
+ */
+export class SmtpError extends Error {
+  readonly responseCode?: number;
+  readonly command?: string;
+  readonly permanent: boolean;
+
+  constructor(message: string, responseCode?: number, command?: string) {
+    super(message);
+    this.name = 'SmtpError';
+    this.responseCode = responseCode;
+    this.command = command;
+    this.permanent = responseCode !== undefined && responseCode >= 500;
+  }
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_MAX_CONNECTIONS = 3;
+const DEFAULT_MAX_MESSAGES = 100;
+const DEFAULT_IDLE_TIMEOUT_MS = 30000;
+const DEFAULT_CONNECTION_TIMEOUT_MS = 10000;
+const DEFAULT_SOCKET_TIMEOUT_MS = 60000;
+
+// ============================================================================
+// MIME
+// ============================================================================
+
+function boundary(): string {
+  return `----=_Part_${randomBytes(12).toString('hex')}`;
+}
+
+function stripHeaderBreaks(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
+
+/**
+ * RFC 2047 encode a header value when it contains non-ASCII characters
+ */
+export function encodeHeaderValue(value: string): string {
+  const clean = stripHeaderBreaks(value);
+  if (!/[^\x20-\x7e]/.test(clean)) return clean;
+
+  // Keep encoded words under 75 chars without splitting a character
+  const words: string[] = [];
+  let chunk = '';
+  for (const char of clean) {
+    if (Buffer.byteLength(chunk + char) > 45) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+
+  return words.map(word => `=?UTF-8?B?${Buffer.from(word).toString('base64')}?=`).join('\r\n ');
+}
+
+/**
+ * Encode an address header, encoding only the display name
+ */
+function encodeAddressHeader(value: string): string {
+  const match = value.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (!match || !match[1]) return stripHeaderBreaks(value);
+
+  const name = /[^\x20-\x7e]/.test(match[1])
+    ? encodeHeaderValue(match[1])
+    : `"${match[1].replace(/"/g, '')}"`;
+  return `${name} <${match[2]}>`;
+}
+
+/**
+ * Quoted-printable encode text (RFC 2045), keeping lines under 76 chars
+ */
+export function encodeQuotedPrintable(text: string): string {
+  const lines = text.replace(/\r?\n/g, '\n').split('\n');
+
+  return lines.map(line => {
+    const bytes = Buffer.from(line, 'utf8');
+    let encoded = '';
+    let current = '';
+
+    for (let i = 0; i < bytes.length; i++) {
+      const byte = bytes[i];
+      const isLast = i === bytes.length - 1;
+      let token: string;
+
+      if ((byte === 0x20 || byte === 0x09) && !isLast) {
+        token = String.fromCharCode(byte);
+      } else if (byte >= 33 && byte <= 126 && byte !== 61) {
+        token = String.fromCharCode(byte);
+      } else {
+        token = `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+      }
+
+      if (current.length + token.length > 75) {
+        encoded += `${current}=\r\n`;
+        current = '';
+      }
+      current += token;
+    }
+
+    return encoded + current;
+  }).join('\r\n');
+}
+
+function encodeBase64(content: Buffer): string {
+  return content.toString('base64').replace(/.{1,76}/g, '$&\r\n').trimEnd();
+}
+
+/**
+ * Plain-text fallback for HTML-only messages
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\b[^>]*href=["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi, '$2 ($1)')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|tr)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function textPart(contentType: string, content: string): string {
+  return [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    'Content-Transfer-Encoding: quoted-printable',
+    '',
+    encodeQuotedPrintable(content),
+  ].join('\r\n');
+}
+
+function multipart(type: string, parts: string[]): string {
+  const marker = boundary();
+  return [
+    `Content-Type: multipart/${type}; boundary="${marker}"`,
+    '',
+    ...parts.map(part => `--${marker}\r\n${part}`),
+    `--${marker}--`,
+  ].join('\r\n');
+}
+
+/**
+ * Build an RFC 5322 message: multipart/alternative (text + html), wrapped in
+ * multipart/mixed when there are attachments.
+ */
+export function buildMimeMessage(
+  data: Pick<EmailJobData, 'from' | 'to' | 'subject' | 'html' | 'text' | 'headers'>,
+  attachments: MimeAttachment[] = [],
+  now: Date = new Date()
+): MimeMessage {
+  const domain = envelopeAddress(data.from).split('@')[1] ?? 'localhost';
+  const messageId = `<${now.getTime()}.${randomBytes(8).toString('hex')}@${domain}>`;
+
+  const text = data.text ?? (data.html ? htmlToText(data.html) : '');
+  let body = data.html
+    ? multipart('alternative', [textPart('text/plain', text), textPart('text/html', data.html)])
+    : textPart('text/plain', text);
+
+  if (attachments.length > 0) {
+    body = multipart('mixed', [
+      body,
+      ...attachments.map(attachment => {
+        const filename = encodeHeaderValue(attachment.filename).replace(/"/g, '');
+        return [
+          `Content-Type: ${attachment.contentType}; name="${filename}"`,
+          'Content-Transfer-Encoding: base64',
+          `Content-Disposition: attachment; filename="${filename}"`,
+          '',
+          encodeBase64(attachment.content),
+        ].join('\r\n');
+      }),
+    ]);
+  }
+
+  const reserved = new Set(['from', 'to', 'subject', 'date', 'message-id', 'mime-version', 'content-type', 'content-transfer-encoding']);
+  const custom = Object.entries(data.headers ?? {})
+    .filter(([name]) => /^[\x21-\x39\x3b-\x7e]+$/.test(name) && !reserved.has(name.toLowerCase()))
+    .map(([name, value]) => `${name}: ${stripHeaderBreaks(value)}`);
+
+  const headers = [
+    `From: ${encodeAddressHeader(data.from)}`,
+    `To: ${encodeAddressHeader(data.to)}`,
+    `Subject: ${encodeHeaderValue(data.subject)}`,
+    `Date: ${now.toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    ...custom,
+  ];
+
+  return { messageId, raw: `${headers.join('\r\n')}\r\n${body}\r\n` };
+}
+
+/**
+ * Bare address for the SMTP envelope ("Name <a@b>" -> a@b)
+ */
+export function envelopeAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+// ============================================================================
+// SMTP CONNECTION
+// ============================================================================
+
+/**
+ * One SMTP session (greeting, EHLO, STARTTLS, AUTH, then transactions)
+ */
+class SmtpConnection {
+  messagesSent = 0;
+  closed = false;
+  private socket!: net.Socket;
+  private buffer = '';
+  private pendingLines: string[] = [];
+  private responses: SmtpResponse[] = [];
+  private waiter?: { resolve: (response: SmtpResponse) => void; reject: (error: Error) => void };
+  private failure?: Error;
+  private capabilities: string[] = [];
+
+  private constructor(private config: SmtpConfig) {}
+
+  /**
+   * Open, secure and authenticate a connection
+   */
+  static async open(config: SmtpConfig): Promise<SmtpConnection> {
+    const connection = new SmtpConnection(config);
+    try {
+      await connection.handshake();
+      return connection;
+    } catch (error) {
+      connection.destroy();
+      throw error;
+    }
+  }
+
+  /**
+   * Send one message (MAIL FROM / RCPT TO / DATA)
+   */
+  async send(from: string, to: string, raw: string): Promise<SmtpResponse> {
+    await this.command(`MAIL FROM:<${from}>`, [250]);
+    await this.command(`RCPT TO:<${to}>`, [250, 251]);
+    await this.command('DATA', [354]);
+
+    // Dot-stuff lines starting with "." (RFC 5321 4.5.2)
+    const payload = raw.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    this.write(`${payload}${payload.endsWith('\r\n') ? '' : '\r\n'}.\r\n`);
+    const response = await this.expect(await this.read(), [250], 'DATA');
+
+    this.messagesSent++;
+    return response;
+  }
+
+  /**
+   * Reset after a failed transaction so the connection can be reused
+   */
+  async reset(): Promise<boolean> {
+    try {
+      await this.command('RSET', [250]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async noop(): Promise<void> {
+    await this.command('NOOP', [250]);
+  }
+
+  async quit(): Promise<void> {
+    if (this.closed) return;
+    try {
+      await this.command('QUIT', [221]);
+    } catch {
+      // Closing anyway
+    }
+    this.destroy();
+  }
+
+  destroy(): void {
+    this.closed = true;
+    this.socket?.destroy();
+  }
+
+  // Private helper methods
+
+  private async handshake(): Promise<void> {
+    const { host, secure } = this.config;
+    const port = this.config.port ?? (secure ? 465 : 587);
+    const timeout = this.config.connectionTimeoutMs ?? DEFAULT_CONNECTION_TIMEOUT_MS;
+
+    const socket = secure
+      ? tls.connect({ host, port, servername: host, ...this.config.tls })
+      : net.connect({ host, port });
+    this.attach(socket);
+
+    await withTimeout(
+      new Promise<void>((resolve, reject) => {
+        socket.once(secure ? 'secureConnect' : 'connect', () => resolve());
+        socket.once('error', reject);
+      }),
+      timeout,
+      `Connection to ${host}:${port} timed out`
+    );
+
+    await withTimeout(
+      this.read().then(greeting => this.expect(greeting, [220], 'greeting')),
+      timeout,
+      `No greeting from ${host}:${port}`
+    );
+    await this.ehlo();
+
+    if (!secure && !this.config.ignoreTLS && this.hasCapability('STARTTLS')) {
+      await this.command('STARTTLS', [220]);
+      await this.upgrade();
+      await this.ehlo();
+    } else if (!secure && (this.config.requireTLS ?? !this.config.ignoreTLS)) {
+      throw new SmtpError(`${host} does not support STARTTLS`);
+    }
+
+    if (this.config.auth) {
+      await this.authenticate(this.config.auth);
+    }
+  }
+
+  private async ehlo(): Promise<void> {
+    const name = this.config.clientName ?? os.hostname();
+    const response = await this.command(`EHLO ${name}`);
+    if (response.code === 250) {
+      this.capabilities = response.lines.slice(1).map(line => line.toUpperCase());
+      return;
+    }
+
+    await this.command(`HELO ${name}`, [250]);
+    this.capabilities = [];
+  }
+
+  private hasCapability(name: string): boolean {
+    return this.capabilities.some(cap => cap === name || cap.startsWith(`${name} `));
+  }
+
+  private authMethods(): string[] {
+    const line = this.capabilities.find(cap => cap.startsWith('AUTH ') || cap.startsWith('AUTH='));
+    return line ? line.slice(5).split(/\s+/) : [];
+  }
+
+  private async authenticate(auth: NonNullable<SmtpConfig['auth']>): Promise<void> {
+    const advertised = this.authMethods();
+    const method = auth.method ?? (advertised.includes('PLAIN') || advertised.length === 0 ? 'PLAIN' : 'LOGIN');
+    const encode = (value: string) => Buffer.from(value, 'utf8').toString('base64');
+
+    if (method === 'PLAIN') {
+      await this.command(`AUTH PLAIN ${encode(`\0${auth.user}\0${auth.pass}`)}`, [235], 'AUTH PLAIN');
+      return;
+    }
+
+    await this.command('AUTH LOGIN', [334]);
+    await this.command(encode(auth.user), [334], 'AUTH LOGIN username');
+    await this.command(encode(auth.pass), [235], 'AUTH LOGIN password');
+  }
+
+  private async upgrade(): Promise<void> {
+    const plain = this.socket;
+    this.detach(plain);
+
+    const secured = tls.connect({ socket: plain, servername: this.config.host, ...this.config.tls });
+    this.attach(secured);
+
+    await withTimeout(
+      new Promise<void>((resolve, reject) => {
+        secured.once('secureConnect', () => resolve());
+        secured.once('error', reject);
+      }),
+      this.config.connectionTimeoutMs ?? DEFAULT_CONNECTION_TIMEOUT_MS,
+      'STARTTLS negotiation timed out'
+    );
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.config.socketTimeoutMs ?? DEFAULT_SOCKET_TIMEOUT_MS);
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+    socket.on('timeout', this.onTimeout);
+  }
+
+  private detach(socket: net.Socket): void {
+    socket.removeListener('data', this.onData);
+    socket.removeListener('error', this.onError);
+    socket.removeListener('close', this.onClose);
+    socket.removeListener('timeout', this.onTimeout);
+    socket.setTimeout(0);
+  }
+
+  private onData = (chunk: string): void => {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(index + 1);
+      this.pendingLines.push(line);
+
+      // Final line of a reply: "250 ok" (continuations use "250-")
+      if (line.length < 4 || line[3] === ' ') {
+        const code = Number(line.slice(0, 3));
+        const lines = this.pendingLines.map(l => l.slice(4));
+        this.pendingLines = [];
+        this.deliver({ code, lines, message: lines.join('\n') });
+      }
+    }
+  };
+
+  private onError = (error: Error): void => {
+    this.fail(error);
+  };
+
+  private onClose = (): void => {
+    this.fail(new SmtpError('Connection closed'));
+  };
+
+  private onTimeout = (): void => {
+    this.fail(new SmtpError('Socket timed out'));
+    this.socket.destroy();
+  };
+
+  private deliver(response: SmtpResponse): void {
+    if (this.waiter) {
+      const { resolve } = this.waiter;
+      this.waiter = undefined;
+      resolve(response);
+    } else {
+      this.responses.push(response);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.closed = true;
+    this.failure = this.failure ?? error;
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = undefined;
+      reject(error);
+    }
+  }
+
+  private read(): Promise<SmtpResponse> {
+    const queued = this.responses.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  private write(data: string): void {
+    if (this.closed) throw this.failure ?? new SmtpError('Connection closed');
+    this.socket.write(data);
+  }
+
+  private async command(line: string, expected?: number[], label?: string): Promise<SmtpResponse> {
+    this.write(`${line}\r\n`);
+    const response = await this.read();
+    return expected ? this.expect(response, expected, label ?? line.split(' ')[0]) : response;
+  }
+
+  private expect(response: SmtpResponse, expected: number[], command: string): SmtpResponse {
+    if (!expected.includes(response.code)) {
+      throw new SmtpError(`${command} failed: ${response.code} ${response.message}`, response.code, command);
+    }
+    return response;
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new SmtpError(message)), ms);
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+// ============================================================================
+// CONNECTION POOL
+// ============================================================================
+
+/**
+ * Keeps up to maxConnections authenticated sessions open and hands them out
+ * one message at a time.
+ */
+class SmtpPool {
+  private idle: SmtpConnection[] = [];
+  private open = 0;
+  private waiters: Array<{ resolve: (c: SmtpConnection) => void; reject: (e: Error) => void }> = [];
+  private idleTimers = new Map<SmtpConnection, ReturnType<typeof setTimeout>>();
+  private closing = false;
+
+  constructor(private config: SmtpConfig) {}
+
+  get size(): number {
+    return this.open;
+  }
+
+  async acquire(): Promise<SmtpConnection> {
+    if (this.closing) throw new SmtpError('SMTP pool is closed');
+
+    while (this.idle.length > 0) {
+      const connection = this.idle.pop()!;
+      this.clearIdleTimer(connection);
+      if (!connection.closed) return connection;
+      this.open--;
+    }
+
+    if (this.open < (this.config.pool?.maxConnections ?? DEFAULT_MAX_CONNECTIONS)) {
+      return this.create();
+    }
+
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+
+  release(connection: SmtpConnection, reusable: boolean): void {
+    const maxMessages = this.config.pool?.maxMessagesPerConnection ?? DEFAULT_MAX_MESSAGES;
+    const keep = reusable && !connection.closed && !this.closing && connection.messagesSent < maxMessages;
+
+    if (!keep) {
+      this.open--;
+      void connection.quit();
+      const waiter = this.waiters.shift();
+      if (waiter) this.create().then(waiter.resolve, waiter.reject);
+      return;
+    }
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve(connection);
+      return;
+    }
+
+    this.idle.push(connection);
+    const timer = setTimeout(() => {
+      this.idle = this.idle.filter(c => c !== connection);
+      this.idleTimers.delete(connection);
+      this.open--;
+      void connection.quit();
+    }, this.config.pool?.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS);
+    timer.unref?.();
+    this.idleTimers.set(connection, timer);
+  }
+
+  async close(): Promise<void> {
+    this.closing = true;
+    this.waiters.splice(0).forEach(w => w.reject(new SmtpError('SMTP pool is closed')));
+    const idle = this.idle.splice(0);
+    idle.forEach(connection => this.clearIdleTimer(connection));
+    this.open -= idle.length;
+    await Promise.all(idle.map(connection => connection.quit()));
+  }
+
+  private async create(): Promise<SmtpConnection> {
+    this.open++;
+    try {
+      return await SmtpConnection.open(this.config);
+    } catch (error) {
+      this.open--;
+      throw error;
+    }
+  }
+
+  private clearIdleTimer(connection: SmtpConnection): void {
+    const timer = this.idleTimers.get(connection);
+    if (timer) clearTimeout(timer);
+    this.idleTimers.delete(connection);
+  }
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+export class SmtpEmailProvider implements EmailProvider {
+  name = 'smtp';
+  private config: SmtpConfig;
+  private pool: SmtpPool;
+
+  constructor(config?: SmtpConfig) {
+    const resolved = config ?? SmtpEmailProvider.fromEnv();
+    if (!resolved?.host) {
+      throw new Error('SMTP_HOST is required for SmtpEmailProvider');
+    }
+    this.config = resolved;
+    this.pool = new SmtpPool(resolved);
+  }
+
+  /**
+   * Configuration from SMTP_* environment variables
+   */
+  static fromEnv(env: Record<string, string | undefined> = process.env): SmtpConfig | null {
+    if (!env.SMTP_HOST) return null;
+
+    const secure = env.SMTP_SECURE === 'true' || env.SMTP_PORT === '465';
+    return {
+      host: env.SMTP_HOST,
+      port: env.SMTP_PORT ? Number(env.SMTP_PORT) : undefined,
+      secure,
+      requireTLS: env.SMTP_REQUIRE_TLS ? env.SMTP_REQUIRE_TLS === 'true' : undefined,
+      ignoreTLS: env.SMTP_IGNORE_TLS === 'true',
+      auth: env.SMTP_USER
+        ? {
+          user: env.SMTP_USER,
+          pass: env.SMTP_PASS ?? '',
+          method: env.SMTP_AUTH_METHOD?.toUpperCase() as SmtpAuthMethod | undefined,
+        }
+        : undefined,
+      pool: env.SMTP_POOL_SIZE ? { maxConnections: Number(env.SMTP_POOL_SIZE) } : undefined,
+    };
+  }
+
+  async send(data: EmailJobData): Promise<{ messageId: string; response: unknown }> {
+    const attachments = await this.loadAttachments(data.attachments ?? []);
+    const message = buildMimeMessage(data, attachments);
+
+    const connection = await this.pool.acquire();
+    let reusable = true;
+    try {
+      const response = await connection.send(envelopeAddress(data.from), envelopeAddress(data.to), message.raw);
+      return { messageId: message.messageId, response };
+    } catch (error) {
+      reusable = error instanceof SmtpError && error.responseCode !== undefined && await connection.reset();
+      throw error;
+    } finally {
+      this.pool.release(connection, reusable);
+    }
+  }
+
+  async validate(): Promise<{ valid: boolean; error?: string }> {
+    if (!this.config.host) return { valid: false, error: 'SMTP_HOST not set' };
+    if (this.config.auth && !this.config.auth.pass) return { valid: false, error: 'SMTP_PASS not set' };
+
+    // Connecting proves TLS and credentials work
+    try {
+      const connection = await this.pool.acquire();
+      this.pool.release(connection, true);
+      return { valid: true };
+    } catch (err) {
+      return {
+        valid: false,
+        error: err instanceof Error ? err.message : 'Unknown validation error',
+      };
+    }
+  }
+
+  async health(): Promise<{ healthy: boolean; latency: number }> {
+    const start = Date.now();
+    try {
+      const connection = await this.pool.acquire();
+      let reusable = true;
+      try {
+        await connection.noop();
+      } catch {
+        reusable = false;
+        throw new SmtpError('NOOP failed');
+      } finally {
+        this.pool.release(connection, reusable);
+      }
+      return { healthy: true, latency: Date.now() - start };
+    } catch {
+      return { healthy: false, latency: Date.now() - start };
+    }
+  }
+
+  /**
+   * Close pooled connections
+   */
+  async close(): Promise<void> {
+    await this.pool.close();
+  }
+
+  // Private helper methods
+
+  private async loadAttachments(attachments: Attachment[]): Promise<MimeAttachment[]> {
+    const load = this.config.loadAttachment ?? fetchAttachment;
+    return Promise.all(attachments.map(async attachment => ({
+      filename: attachment.filename,
+      contentType: attachment.contentType || 'application/octet-stream',
+      content: await load(attachment),
+    })));
+  }
+}
+
+/**
+ * Download attachment content from its URL
+ */
+async function fetchAttachment(attachment: Attachment): Promise<Buffer> {
+  const response = await fetch(attachment.url);
+  if (!response.ok) {
+    const error = new Error(`Failed to load attachment ${attachment.filename}: ${response.status}`);
+    (error as Error & { permanent: boolean }).permanent = response.status === 404;
+    throw error;
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
@@ -1,13 +1,17 @@
 /**
- * Email Queue - Bull/Redis Queue Setup
+ * Email Queue - Durable Queue Setup
  * 
  * Manages email sending queue with:
  * - Multiple queue types (high priority, normal, bulk)
  * - Dead letter queue for failed emails
  * - Retry logic with exponential backoff
  * - Job scheduling and rate limiting integration
+ * - Postgres backend (email_sends + SKIP LOCKED) shared by multiple workers
+ * - In-memory backend for development/testing
  */
 
+import type { Attachment } from '@/types/sequences';
+
 /** Email job data structure */
 export interface EmailJobData {
   /** Unique job ID */
@@ -30,6 +34,18 @@ export interface EmailJobData {
   campaignId?: string;
   /** Sequence step number */
   stepNumber?: number;
+  /** Sequence enrollment the send belongs to */
+  enrollmentId?: string;
+  /** email_sequence_steps row the send was generated from */
+  sequenceStepId?: string;
+  /** Prospect being emailed */
+  prospectId?: string;
+  /** Workspace whose suppression list applies */
+  workspaceId?: string;
+  /** Extra MIME headers forwarded by the provider (e.g. List-Unsubscribe) */
+  headers?: Record<string, string>;
+  /** Files to attach (from TouchContent.attachments; fetched by URL) */
+  attachments?: Attachment[];
   /** Metadata */
   metadata?: Record<string, unknown>;
   /** Scheduled send time */
@@ -49,6 +65,8 @@ export interface EmailJobResult {
   providerResponse?: unknown;
   sentAt: Date;
   error?: string;
+  /** Address actually sent from (differs from data.from when a sender pool picked it) */
+  senderEmail?: string;
 }
 
 /** Job progress information */
@@ -81,6 +99,18 @@ export interface QueueConfig {
   };
   /** Max concurrent jobs */
   concurrency?: number;
+  /** Storage backend (defaults to postgres when a database is configured) */
+  backend?: QueueBackendType;
+  /** Postgres connection string (defaults to DATABASE_URL) */
+  databaseUrl?: string;
+  /** Pre-built database client, e.g. a shared pg Pool */
+  database?: QueueDatabase;
+  /** Identifier written to locked_by when claiming jobs */
+  workerId?: string;
+  /** How often workers poll Postgres for due jobs (ms) */
+  pollIntervalMs?: number;
+  /** Claimed jobs older than this are considered abandoned and re-claimed (ms) */
+  lockTimeoutMs?: number;
   /** Queue limit settings */
   limits?: {
     maxWaiting?: number;
@@ -91,6 +121,15 @@ export interface QueueConfig {
   };
 }
 
+/** Queue storage backend */
+export type QueueBackendType = 'memory' | 'postgres';
+
+/** Minimal query interface (satisfied by pg Pool and Client) */
+export interface QueueDatabase {
+  query(text: string, params?: unknown[]): Promise<{ rows: unknown[]; rowCount: number | null }>;
+  end?(): Promise<void>;
+}
+
 /** Queue statistics */
 export interface QueueStats {
   waiting: number;
@@ -160,12 +199,36 @@ export const MAX_RETRIES = 3;
 /** Delay between retries (exponential backoff) */
 export const RETRY_DELAYS = [5000, 15000, 45000]; // 5s, 15s, 45s
 
+/**
+ * Retry delay for a failed attempt: exponential backoff, or longer when the
+ * error carries retryAfterMs (rate limits, provider deferrals)
+ */
+export function getRetryDelay(error: unknown, attemptsMade: number): number {
+  const backoff = RETRY_DELAYS[Math.min(attemptsMade - 1, RETRY_DELAYS.length - 1)];
+  const retryAfterMs = (error as { retryAfterMs?: unknown } | null)?.retryAfterMs;
+  return typeof retryAfterMs === 'number' && retryAfterMs > backoff ? retryAfterMs : backoff;
+}
+
+/**
+ * Whether a failed attempt must not be retried (e.g. an SMTP 5xx reply
+ * such as an unknown mailbox)
+ */
+export function isPermanentError(error: unknown): boolean {
+  return (error as { permanent?: unknown } | null)?.permanent === true;
+}
+
+/** Default Postgres poll interval (ms) */
+export const DEFAULT_POLL_INTERVAL_MS = 1000;
+
+/** Default lock timeout before a claimed job is re-claimed (ms) */
+export const DEFAULT_LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
 // ============================================================================
-// BULLMQ MOCK IMPLEMENTATION (for development without Redis)
+// QUEUE BACKEND CONTRACT
 // ============================================================================
 
-/** Simulated job for in-memory queue */
-interface SimulatedJob {
+/** Job as seen by queue consumers, independent of backend */
+export interface QueueJob {
   id: string;
   data: EmailJobData;
   attemptsMade: number;
@@ -178,24 +241,45 @@ interface SimulatedJob {
   delayUntil?: Date;
 }
 
+/** Operations every queue backend supports */
+export interface QueueBackend {
+  readonly name: string;
+  setDeadLetterQueue(queue: QueueBackend): void;
+  on(event: string, listener: (event: QueueEvent) => void): () => void;
+  add(jobId: string, data: EmailJobData, opts?: { delay?: number; priority?: number }): Promise<QueueJob>;
+  getJob(jobId: string): Promise<QueueJob | undefined>;
+  getJobs(status: QueueJob['status'][]): Promise<QueueJob[]>;
+  remove(jobId: string): Promise<void>;
+  getCounts(): Promise<QueueStats>;
+  process(concurrency: number, processor: (job: QueueJob) => Promise<EmailJobResult>): void;
+  pause(): void;
+  resume(): void;
+  obliterate(): Promise<void>;
+  close(): Promise<void>;
+}
+
+// ============================================================================
+// IN-MEMORY BACKEND (for development/testing)
+// ============================================================================
+
 /** In-memory queue implementation for development/testing */
-class InMemoryQueue {
-  private jobs: Map<string, SimulatedJob> = new Map();
+class InMemoryQueue implements QueueBackend {
+  private jobs: Map<string, QueueJob> = new Map();
   private waiting: string[] = [];
-  private processor?: (job: SimulatedJob) => Promise<EmailJobResult>;
+  private processor?: (job: QueueJob) => Promise<EmailJobResult>;
   private eventListeners: Set<(event: QueueEvent) => void> = new Set();
   private isPaused = false;
   private isProcessing = false;
   private config: QueueConfig;
   readonly name: string;
-  private deadLetterQueue?: InMemoryQueue;
+  private deadLetterQueue?: QueueBackend;
 
   constructor(name: string, config: QueueConfig) {
     this.name = name;
     this.config = config;
   }
 
-  setDeadLetterQueue(queue: InMemoryQueue): void {
+  setDeadLetterQueue(queue: QueueBackend): void {
     this.deadLetterQueue = queue;
   }
 
@@ -214,8 +298,14 @@ class InMemoryQueue {
     });
   }
 
-  async add(jobId: string, data: EmailJobData, opts?: { delay?: number; priority?: number }): Promise<SimulatedJob> {
-    const job: SimulatedJob = {
+  async add(jobId: string, data: EmailJobData, opts?: { delay?: number; priority?: number }): Promise<QueueJob> {
+    // Re-adding a job that is still pending or already sent is a no-op
+    const existing = this.jobs.get(jobId);
+    if (existing && existing.status !== 'failed') {
+      return existing;
+    }
+
+    const job: QueueJob = {
       id: jobId,
       data,
       attemptsMade: 0,
@@ -255,11 +345,11 @@ class InMemoryQueue {
     }
   }
 
-  async getJob(jobId: string): Promise<SimulatedJob | undefined> {
+  async getJob(jobId: string): Promise<QueueJob | undefined> {
     return this.jobs.get(jobId);
   }
 
-  async getJobs(status: SimulatedJob['status'][]): Promise<SimulatedJob[]> {
+  async getJobs(status: QueueJob['status'][]): Promise<QueueJob[]> {
     return Array.from(this.jobs.values()).filter(job => status.includes(job.status));
   }
 
@@ -290,7 +380,7 @@ class InMemoryQueue {
     };
   }
 
-  process(concurrency: number, processor: (job: SimulatedJob) => Promise<EmailJobResult>): void {
+  process(concurrency: number, processor: (job: QueueJob) => Promise<EmailJobResult>): void {
     this.config.concurrency = concurrency;
     this.processor = processor;
     void this.processQueue();
@@ -346,7 +436,7 @@ class InMemoryQueue {
     }
   }
 
-  private async processJob(job: SimulatedJob): Promise<void> {
+  private async processJob(job: QueueJob): Promise<void> {
     if (!this.processor) return;
 
     try {
@@ -365,10 +455,11 @@ class InMemoryQueue {
       job.attemptsMade++;
       
       const maxRetries = job.data.maxRetries ?? MAX_RETRIES;
+      const permanent = isPermanentError(error);
       
-      if (job.attemptsMade < maxRetries) {
-        // Calculate exponential backoff
-        const delay = RETRY_DELAYS[Math.min(job.attemptsMade - 1, RETRY_DELAYS.length - 1)];
+      if (job.attemptsMade < maxRetries && !permanent) {
+        // Calculate exponential backoff (or the error's retryAfterMs)
+        const delay = getRetryDelay(error, job.attemptsMade);
         
         job.status = 'waiting';
         job.delayUntil = new Date(Date.now() + delay);
@@ -403,7 +494,7 @@ class InMemoryQueue {
             type: 'dead:letter:moved',
             timestamp: new Date(),
             jobId: job.id,
-            data: { reason: 'max retries exceeded' },
+            data: { reason: permanent ? 'permanent failure' : 'max retries exceeded' },
           });
         }
       }
@@ -436,6 +527,469 @@ class InMemoryQueue {
     this.waiting = [];
     return Promise.resolve();
   }
+
+  close(): Promise<void> {
+    this.processor = undefined;
+    return Promise.resolve();
+  }
+}
+
+// ============================================================================
+// POSTGRES BACKEND (durable, multi-worker)
+// ============================================================================
+
+/** email_sends columns used by the queue */
+interface EmailSendQueueRow {
+  job_id: string;
+  queue_name: string;
+  status: string;
+  priority: number | null;
+  job_data: EmailJobData;
+  retry_count: number | null;
+  error_message: string | null;
+  queued_at: string | Date;
+  scheduled_for: string | Date | null;
+  locked_at: string | Date | null;
+  sent_at: string | Date | null;
+  failed_at: string | Date | null;
+}
+
+/** email_sends statuses that map to completed jobs */
+const COMPLETED_SEND_STATUSES = ['sent', 'delivered', 'opened', 'clicked', 'replied', 'bounced'];
+
+/** Queue job status -> email_sends statuses */
+const SEND_STATUSES_FOR_JOB: Record<QueueJob['status'], string[]> = {
+  waiting: ['queued', 'scheduled'],
+  delayed: ['scheduled'],
+  active: ['sending'],
+  completed: COMPLETED_SEND_STATUSES,
+  failed: ['failed'],
+};
+
+const toDate = (value: string | Date | null | undefined): Date | undefined =>
+  value ? new Date(value) : undefined;
+
+/**
+ * Map an email_sends row to a queue job
+ */
+function mapEmailSendRow(row: EmailSendQueueRow): QueueJob {
+  const scheduledFor = toDate(row.scheduled_for);
+  const data: EmailJobData = {
+    ...row.job_data,
+    scheduledFor: toDate(row.job_data.scheduledFor),
+  };
+
+  let status: QueueJob['status'];
+  if (row.status === 'sending') {
+    status = 'active';
+  } else if (row.status === 'failed') {
+    status = 'failed';
+  } else if (COMPLETED_SEND_STATUSES.includes(row.status)) {
+    status = 'completed';
+  } else if (scheduledFor && scheduledFor > new Date()) {
+    status = 'delayed';
+  } else {
+    status = 'waiting';
+  }
+
+  return {
+    id: row.job_id,
+    data,
+    attemptsMade: row.retry_count ?? 0,
+    failedReason: row.error_message ?? undefined,
+    createdAt: new Date(row.queued_at),
+    processedAt: toDate(row.locked_at),
+    completedAt: toDate(row.sent_at),
+    status,
+    priority: row.priority ?? 0,
+    delayUntil: status === 'delayed' ? scheduledFor : undefined,
+  };
+}
+
+/**
+ * Postgres-backed queue stored in email_sends.
+ *
+ * Jobs are claimed with FOR UPDATE SKIP LOCKED so any number of workers can
+ * poll the same queue without double-sending. Pause/resume only affect this
+ * worker; other workers keep draining the queue.
+ */
+class PostgresQueue implements QueueBackend {
+  private db: QueueDatabase;
+  private processor?: (job: QueueJob) => Promise<EmailJobResult>;
+  private eventListeners: Set<(event: QueueEvent) => void> = new Set();
+  private isPaused = false;
+  private isPolling = false;
+  private hasPendingWork = false;
+  private activeCount = 0;
+  private pollTimer?: ReturnType<typeof setInterval>;
+  private config: QueueConfig;
+  private workerId: string;
+  readonly name: string;
+  private deadLetterQueue?: QueueBackend;
+
+  constructor(name: string, config: QueueConfig, db: QueueDatabase) {
+    this.name = name;
+    this.config = config;
+    this.db = db;
+    this.workerId = config.workerId ?? `worker_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  setDeadLetterQueue(queue: QueueBackend): void {
+    this.deadLetterQueue = queue;
+  }
+
+  on(event: string, listener: (event: QueueEvent) => void): () => void {
+    this.eventListeners.add(listener);
+    return () => this.eventListeners.delete(listener);
+  }
+
+  private emit(event: QueueEvent): void {
+    this.eventListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch {
+        // Soft failure
+      }
+    });
+  }
+
+  async add(jobId: string, data: EmailJobData, opts?: { delay?: number; priority?: number }): Promise<QueueJob> {
+    const delay = opts?.delay && opts.delay > 0 ? opts.delay : 0;
+    const { rows } = await this.db.query(
+      `INSERT INTO email_sends (
+         job_id, queue_name, status, priority, job_data, retry_count,
+         recipient_email, subject, body_html, body_text, from_email,
+         queued_at, scheduled_for, enrollment_id, sequence_step_id, prospect_id
+       ) VALUES ($1, $2, $3, $4, $5, 0, $6, $7, $8, $9, $10, NOW(),
+         CASE WHEN $11::bigint > 0 THEN NOW() + ($11::bigint * INTERVAL '1 millisecond') END,
+         $12, $13, $14)
+       ON CONFLICT (job_id) DO UPDATE SET
+         queue_name = EXCLUDED.queue_name,
+         status = EXCLUDED.status,
+         priority = EXCLUDED.priority,
+         job_data = EXCLUDED.job_data,
+         retry_count = 0,
+         error_message = NULL,
+         failed_at = NULL,
+         locked_by = NULL,
+         locked_at = NULL,
+         queued_at = NOW(),
+         scheduled_for = EXCLUDED.scheduled_for,
+         updated_at = NOW()
+       WHERE email_sends.status IN ('cancelled', 'failed')
+       RETURNING *`,
+      [
+        jobId,
+        this.name,
+        delay > 0 ? 'scheduled' : 'queued',
+        opts?.priority ?? 0,
+        JSON.stringify(data),
+        data.to,
+        data.subject,
+        data.html ?? null,
+        data.text ?? null,
+        data.from,
+        delay,
+        data.enrollmentId ?? null,
+        data.sequenceStepId ?? null,
+        data.prospectId ?? null,
+      ]
+    );
+
+    // Re-adding a job that is still pending or already sent is a no-op
+    if (rows.length === 0) {
+      const existing = await this.db.query('SELECT * FROM email_sends WHERE job_id = $1', [jobId]);
+      return mapEmailSendRow(existing.rows[0] as EmailSendQueueRow);
+    }
+
+    this.emit({
+      type: 'job:added',
+      timestamp: new Date(),
+      jobId,
+      data: { queue: this.name },
+    });
+
+    void this.poll();
+    return mapEmailSendRow(rows[0] as EmailSendQueueRow);
+  }
+
+  async getJob(jobId: string): Promise<QueueJob | undefined> {
+    const { rows } = await this.db.query(
+      `SELECT * FROM email_sends
+       WHERE job_id = $1 AND queue_name = $2 AND status <> 'cancelled'`,
+      [jobId, this.name]
+    );
+    return rows.length > 0 ? mapEmailSendRow(rows[0] as EmailSendQueueRow) : undefined;
+  }
+
+  async getJobs(status: QueueJob['status'][]): Promise<QueueJob[]> {
+    const sendStatuses = Array.from(new Set(status.flatMap(s => SEND_STATUSES_FOR_JOB[s])));
+    const { rows } = await this.db.query(
+      `SELECT * FROM email_sends
+       WHERE queue_name = $1 AND status = ANY($2)
+       ORDER BY priority DESC, queued_at ASC`,
+      [this.name, sendStatuses]
+    );
+    return (rows as EmailSendQueueRow[])
+      .map(mapEmailSendRow)
+      .filter(job => status.includes(job.status));
+  }
+
+  async remove(jobId: string): Promise<void> {
+    // Cancel rather than delete so the send history survives
+    await this.db.query(
+      `UPDATE email_sends
+       SET status = 'cancelled', locked_by = NULL, locked_at = NULL, updated_at = NOW()
+       WHERE job_id = $1 AND queue_name = $2`,
+      [jobId, this.name]
+    );
+
+    this.emit({
+      type: 'job:removed',
+      timestamp: new Date(),
+      jobId,
+    });
+  }
+
+  async getCounts(): Promise<QueueStats> {
+    const { rows } = await this.db.query(
+      `SELECT
+         COUNT(*) FILTER (WHERE status = 'queued' OR (status = 'scheduled' AND scheduled_for <= NOW())) AS waiting,
+         COUNT(*) FILTER (WHERE status = 'sending') AS active,
+         COUNT(*) FILTER (WHERE status = ANY($2)) AS completed,
+         COUNT(*) FILTER (WHERE status = 'failed') AS failed,
+         COUNT(*) FILTER (WHERE status = 'scheduled' AND scheduled_for > NOW()) AS delayed,
+         COUNT(*) FILTER (WHERE priority > 0 AND status <> 'cancelled') AS prioritized
+       FROM email_sends
+       WHERE queue_name = $1`,
+      [this.name, COMPLETED_SEND_STATUSES]
+    );
+    const row = (rows[0] ?? {}) as Record<string, string | number | undefined>;
+    const count = (key: string) => Number(row[key] ?? 0);
+
+    return {
+      waiting: count('waiting'),
+      active: count('active'),
+      completed: count('completed'),
+      failed: count('failed'),
+      delayed: count('delayed'),
+      paused: this.isPaused ? count('waiting') : 0,
+      prioritized: count('prioritized'),
+    };
+  }
+
+  process(concurrency: number, processor: (job: QueueJob) => Promise<EmailJobResult>): void {
+    this.config.concurrency = concurrency;
+    this.processor = processor;
+
+    if (!this.pollTimer) {
+      this.pollTimer = setInterval(() => {
+        void this.poll();
+      }, this.config.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+      this.pollTimer.unref?.();
+    }
+
+    void this.poll();
+  }
+
+  /**
+   * Claim due jobs up to the free concurrency slots and run them
+   */
+  async poll(): Promise<void> {
+    if (this.isPolling || this.isPaused || !this.processor) return;
+
+    const slots = (this.config.concurrency || 1) - this.activeCount;
+    if (slots <= 0) return;
+
+    this.isPolling = true;
+
+    try {
+      const jobs = await this.claim(slots);
+
+      if (jobs.length === 0) {
+        if (this.hasPendingWork && this.activeCount === 0) {
+          this.hasPendingWork = false;
+          this.emit({
+            type: 'queue:drained',
+            timestamp: new Date(),
+            data: { queue: this.name },
+          });
+        }
+        return;
+      }
+
+      this.hasPendingWork = true;
+      for (const job of jobs) {
+        this.activeCount++;
+        void this.processJob(job);
+      }
+    } catch (error) {
+      console.error('email-queue poll error:', error);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  pause(): void {
+    this.isPaused = true;
+    this.emit({
+      type: 'queue:paused',
+      timestamp: new Date(),
+      data: { queue: this.name },
+    });
+  }
+
+  resume(): void {
+    this.isPaused = false;
+    this.emit({
+      type: 'queue:resumed',
+      timestamp: new Date(),
+      data: { queue: this.name },
+    });
+    void this.poll();
+  }
+
+  async obliterate(): Promise<void> {
+    // Sent rows are engagement history (email_events, analytics) and are kept
+    await this.db.query(
+      `DELETE FROM email_sends
+       WHERE queue_name = $1 AND status IN ('queued', 'scheduled', 'sending', 'failed', 'cancelled')`,
+      [this.name]
+    );
+  }
+
+  async close(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    this.processor = undefined;
+  }
+
+  // Private helper methods
+
+  /**
+   * Atomically lock due jobs for this worker, re-claiming abandoned locks
+   */
+  private async claim(limit: number): Promise<QueueJob[]> {
+    const { rows } = await this.db.query(
+      `UPDATE email_sends
+       SET status = 'sending', locked_by = $2, locked_at = NOW(), updated_at = NOW()
+       WHERE id IN (
+         SELECT id FROM email_sends
+         WHERE queue_name = $1
+           AND (
+             (status IN ('queued', 'scheduled') AND COALESCE(scheduled_for, queued_at) <= NOW())
+             OR (status = 'sending' AND locked_at < NOW() - ($4::bigint * INTERVAL '1 millisecond'))
+           )
+         ORDER BY priority DESC, COALESCE(scheduled_for, queued_at) ASC
+         LIMIT $3
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [this.name, this.workerId, limit, this.config.lockTimeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS]
+    );
+    return (rows as EmailSendQueueRow[]).map(mapEmailSendRow);
+  }
+
+  private async processJob(job: QueueJob): Promise<void> {
+    if (!this.processor) {
+      this.activeCount--;
+      return;
+    }
+
+    try {
+      const result = await this.processor(job);
+
+      if (result.success) {
+        await this.db.query(
+          `UPDATE email_sends
+           SET status = 'sent', sent_at = $3, provider_message_id = $4,
+               from_email = COALESCE($5, from_email),
+               locked_by = NULL, locked_at = NULL, updated_at = NOW()
+           WHERE job_id = $1 AND locked_by = $2`,
+          [job.id, this.workerId, result.sentAt, result.messageId ?? null, result.senderEmail ?? null]
+        );
+      } else {
+        // Processor rejected the job without throwing - not retryable
+        await this.db.query(
+          `UPDATE email_sends
+           SET status = 'failed', failed_at = NOW(), error_message = $3,
+               locked_by = NULL, locked_at = NULL, updated_at = NOW()
+           WHERE job_id = $1 AND locked_by = $2`,
+          [job.id, this.workerId, result.error ?? null]
+        );
+      }
+
+      this.emit({
+        type: 'job:completed',
+        timestamp: new Date(),
+        jobId: job.id,
+        data: result,
+      });
+    } catch (error) {
+      await this.handleFailure(job, error).catch(err => {
+        console.error('email-queue failure handling error:', err);
+      });
+    } finally {
+      this.activeCount--;
+      void this.poll();
+    }
+  }
+
+  private async handleFailure(job: QueueJob, error: unknown): Promise<void> {
+    const attemptsMade = job.attemptsMade + 1;
+    const maxRetries = job.data.maxRetries ?? MAX_RETRIES;
+    const reason = error instanceof Error ? error.message : String(error);
+    const permanent = isPermanentError(error);
+
+    if (attemptsMade < maxRetries && !permanent) {
+      // Calculate exponential backoff (or the error's retryAfterMs)
+      const delay = getRetryDelay(error, attemptsMade);
+
+      await this.db.query(
+        `UPDATE email_sends
+         SET status = 'scheduled', retry_count = $3, error_message = $4,
+             scheduled_for = NOW() + ($5::bigint * INTERVAL '1 millisecond'),
+             locked_by = NULL, locked_at = NULL, updated_at = NOW()
+         WHERE job_id = $1 AND locked_by = $2`,
+        [job.id, this.workerId, attemptsMade, reason, delay]
+      );
+
+      this.emit({
+        type: 'job:retry',
+        timestamp: new Date(),
+        jobId: job.id,
+        data: { attempt: attemptsMade, delay },
+      });
+      return;
+    }
+
+    // Move to dead letter queue in place so the row keeps its history
+    await this.db.query(
+      `UPDATE email_sends
+       SET status = 'failed', failed_at = NOW(), retry_count = $3, error_message = $4,
+           queue_name = $5, locked_by = NULL, locked_at = NULL, updated_at = NOW()
+       WHERE job_id = $1 AND locked_by = $2`,
+      [job.id, this.workerId, attemptsMade, reason, this.deadLetterQueue?.name ?? this.name]
+    );
+
+    this.emit({
+      type: 'job:failed',
+      timestamp: new Date(),
+      jobId: job.id,
+      error: error instanceof Error ? error : new Error(reason),
+    });
+
+    if (this.deadLetterQueue) {
+      this.emit({
+        type: 'dead:letter:moved',
+        timestamp: new Date(),
+        jobId: job.id,
+        data: { reason: permanent ? 'permanent failure' : 'max retries exceeded' },
+      });
+    }
+  }
 }
 
 // ============================================================================
@@ -444,8 +998,10 @@ class InMemoryQueue {
 
 /** Email Queue Service */
 export class EmailQueueService {
-  private queues: Map<string, InMemoryQueue> = new Map();
+  private queues: Map<string, QueueBackend> = new Map();
   private config: QueueConfig;
+  private db?: QueueDatabase;
+  private ownsDb = false;
   private processor?: (job: { data: EmailJobData }) => Promise<EmailJobResult>;
   private eventListeners: Set<(event: QueueEvent) => void> = new Set();
 
@@ -458,15 +1014,40 @@ export class EmailQueueService {
       },
       ...config,
     };
+    this.config.backend = resolveBackend(this.config);
+
+    if (this.config.backend === 'postgres') {
+      this.db = this.config.database ?? this.createPool();
+    }
 
     // Initialize queues
     this.initializeQueues();
   }
 
+  /**
+   * Active storage backend
+   */
+  get backend(): QueueBackendType {
+    return this.config.backend ?? 'memory';
+  }
+
+  private createPool(): QueueDatabase {
+    const connectionString = this.config.databaseUrl ?? process.env.DATABASE_URL;
+    if (!connectionString) {
+      throw new Error('DATABASE_URL is required for the postgres email queue backend');
+    }
+    // Dynamic import to avoid loading pg for the in-memory backend
+    const { Pool } = require('pg') as typeof import('pg');
+    this.ownsDb = true;
+    return new Pool({ connectionString });
+  }
+
   private initializeQueues(): void {
     // Create all queues
     for (const queueName of Object.values(QUEUE_NAMES)) {
-      const queue = new InMemoryQueue(queueName, this.config);
+      const queue: QueueBackend = this.db
+        ? new PostgresQueue(queueName, this.config, this.db)
+        : new InMemoryQueue(queueName, this.config);
       
       // Forward events from all queues
       queue.on('*', (event: QueueEvent) => {
@@ -505,14 +1086,14 @@ export class EmailQueueService {
   /**
    * Get a queue by name
    */
-  getQueue(name: string): InMemoryQueue | undefined {
+  getQueue(name: string): QueueBackend | undefined {
     return this.queues.get(name);
   }
 
   /**
    * Get the appropriate queue for an email job based on priority
    */
-  getQueueForPriority(priority: EmailJobData['priority']): InMemoryQueue {
+  getQueueForPriority(priority: EmailJobData['priority']): QueueBackend {
     const queueName = PRIORITY_QUEUES[priority || 'normal'];
     return this.queues.get(queueName) || this.queues.get(QUEUE_NAMES.NORMAL)!;
   }
@@ -556,7 +1137,7 @@ export class EmailQueueService {
     for (const queueName of [QUEUE_NAMES.HIGH_PRIORITY, QUEUE_NAMES.NORMAL, QUEUE_NAMES.BULK]) {
       const queue = this.queues.get(queueName);
       if (queue) {
-        queue.process(this.config.concurrency || 5, async (job: SimulatedJob) => {
+        queue.process(this.config.concurrency || 5, async (job: QueueJob) => {
           return processor({ data: job.data });
         });
       }
@@ -642,7 +1223,7 @@ export class EmailQueueService {
   /**
    * Get a job by ID from any queue
    */
-  async getJob(jobId: string): Promise<SimulatedJob | undefined> {
+  async getJob(jobId: string): Promise<QueueJob | undefined> {
     for (const queue of this.queues.values()) {
       const job = await queue.getJob(jobId);
       if (job) return job;
@@ -653,7 +1234,7 @@ export class EmailQueueService {
   /**
    * Get failed jobs
    */
-  async getFailedJobs(): Promise<SimulatedJob[]> {
+  async getFailedJobs(): Promise<QueueJob[]> {
     const deadLetter = this.queues.get(QUEUE_NAMES.DEAD_LETTER);
     if (!deadLetter) return [];
     return deadLetter.getJobs(['failed']);
@@ -686,10 +1267,36 @@ export class EmailQueueService {
   async obliterate(): Promise<void> {
     for (const queue of this.queues.values()) {
       await queue.obliterate();
+      await queue.close();
     }
     this.queues.clear();
     this.initializeQueues();
   }
+
+  /**
+   * Stop processing and release the database connection
+   */
+  async close(): Promise<void> {
+    for (const queue of this.queues.values()) {
+      await queue.close();
+    }
+    if (this.db && this.ownsDb) {
+      await this.db.end?.();
+    }
+  }
+}
+
+/**
+ * Pick the queue backend: explicit config, then EMAIL_QUEUE_BACKEND,
+ * then postgres whenever a database is configured.
+ */
+function resolveBackend(config: QueueConfig): QueueBackendType {
+  if (config.backend) return config.backend;
+
+  const envBackend = process.env.EMAIL_QUEUE_BACKEND;
+  if (envBackend === 'memory' || envBackend === 'postgres') return envBackend;
+
+  return config.database || config.databaseUrl || process.env.DATABASE_URL ? 'postgres' : 'memory';
 }
 
 /** Singleton instance */
@@ -709,6 +1316,7 @@ export function getEmailQueueService(config?: Partial<QueueConfig>): EmailQueueS
  * Reset the global email queue service (useful for testing)
  */
 export function resetEmailQueueService(): void {
+  void globalEmailService?.close();
   globalEmailService = null;
 }
 
@@ -0,0 +1,538 @@
+/**
+ * Email Tracking - Opens & Clicks
+ *
+ * Signed open/click tracking for outgoing sequence emails:
+ * - HMAC-signed tracking tokens (no database lookup to validate)
+ * - Pixel and link rewriting for outgoing HTML
+ * - User agent parsing into email client and device type
+ * - Bot, prefetch and Apple Mail Privacy Protection filtering
+ * - email_events, email_sends and sequence_analytics updates
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { applyEngagementSignal, type EngagementScoreRow } from './inbound-email';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** email_events types produced by tracking */
+export type TrackingEventType = 'open' | 'click';
+
+/** Decoded tracking token */
+export interface TrackingTokenPayload {
+  /** email_sends reference (queue job_id or row id) */
+  sendId: string;
+  type: TrackingEventType;
+  /** Destination URL (clicks only) */
+  url?: string;
+  /** 1-based position of the link in the email (clicks only) */
+  position?: number;
+}
+
+/** Options for injecting tracking into outgoing HTML */
+export interface TrackingOptions {
+  /** email_sends reference embedded in every token */
+  sendId: string;
+  /** Public app URL hosting the tracking routes (default: NEXT_PUBLIC_APP_URL) */
+  baseUrl?: string;
+  /** Token signing secret (default: EMAIL_TRACKING_SECRET) */
+  secret?: string;
+  /** Append an open pixel (default: true) */
+  trackOpens?: boolean;
+  /** Rewrite links through the click redirect (default: true) */
+  trackClicks?: boolean;
+}
+
+/** Parsed user agent */
+export interface UserAgentInfo {
+  client: string;
+  device: 'desktop' | 'mobile' | 'tablet' | 'proxy' | 'bot' | 'unknown';
+}
+
+/** Why a request was classified as automated */
+export type AutomatedReason =
+  | 'prefetch'
+  | 'missing_user_agent'
+  | 'security_scanner'
+  | 'apple_mpp'
+  | 'too_fast';
+
+/** Request details used for bot filtering */
+export interface TrackingRequest {
+  type: TrackingEventType;
+  userAgent: string | null;
+  ip: string | null;
+  method?: string;
+  /** Purpose / Sec-Purpose / X-Moz style prefetch hints */
+  purpose?: string | null;
+  sentAt?: Date | null;
+  occurredAt: Date;
+}
+
+/** Result of bot filtering */
+export interface AutomatedCheck {
+  automated: boolean;
+  reason?: AutomatedReason;
+}
+
+/** email_sends fields needed to record tracking */
+export interface TrackedSend {
+  id: string;
+  enrollment_id: string | null;
+  prospect_id: string | null;
+  sequence_id: string | null;
+  status: string | null;
+  sent_at: string | null;
+  opened_at: string | null;
+  clicked_at: string | null;
+}
+
+/** email_events insert for opens and clicks */
+export interface TrackingEventInsert {
+  email_send_id: string;
+  enrollment_id: string | null;
+  event_type: TrackingEventType;
+  event_data: Record<string, unknown>;
+  ip_address: string | null;
+  user_agent: string | null;
+  email_client: string;
+  device_type: UserAgentInfo['device'];
+  link_url: string | null;
+  link_position: string | null;
+  is_automated: boolean;
+  occurred_at: string;
+}
+
+/** sequence_analytics increments for one event */
+export interface AnalyticsIncrement {
+  sequenceId: string;
+  day: string;
+  type: TrackingEventType;
+  unique: boolean;
+}
+
+/** Data access used by tracking */
+export interface TrackingStore {
+  findSend(sendId: string): Promise<TrackedSend | null>;
+  recordEvent(event: TrackingEventInsert): Promise<void>;
+  updateSend(sendId: string, update: Record<string, unknown>): Promise<void>;
+  incrementAnalytics(increment: AnalyticsIncrement): Promise<void>;
+  getEngagementScore(prospectId: string): Promise<EngagementScoreRow | null>;
+  saveEngagementScore(row: EngagementScoreRow): Promise<void>;
+}
+
+/** Result of recording one tracking hit */
+export interface TrackingRecordResult {
+  matched: boolean;
+  automated: boolean;
+  reason?: AutomatedReason;
+  sendId?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const OPEN_PATH = '/api/email/track/open';
+export const CLICK_PATH = '/api/email/track/click';
+
+/** 1x1 transparent GIF */
+export const TRACKING_PIXEL = Buffer.from(
+  'R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7',
+  'base64'
+);
+
+/** Opens this soon after sending come from pre-delivery scanning */
+const MIN_OPEN_SECONDS = 2;
+
+/** Security gateways follow every link within seconds of delivery */
+const MIN_CLICK_SECONDS = 10;
+
+const SCANNER_PATTERN = /bot\b|crawler|spider|scanner|preview|barracuda|mimecast|proofpoint|symantec|messagelabs|forcepoint|trendmicro|fireeye|sophos|headless|phantomjs|python-requests|python-urllib|curl\/|wget\/|go-http-client|okhttp|java\/|libwww|httpclient|axios\//i;
+
+const PREFETCH_PATTERN = /prefetch|prerender|preview/i;
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+function base64url(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+function sign(payload: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(payload).digest();
+}
+
+/**
+ * Create a signed tracking token
+ */
+export function createTrackingToken(payload: TrackingTokenPayload, secret: string): string {
+  const compact = {
+    s: payload.sendId,
+    k: payload.type === 'open' ? 'o' : 'c',
+    ...(payload.url ? { u: payload.url } : {}),
+    ...(payload.position ? { p: payload.position } : {}),
+  };
+  const body = base64url(JSON.stringify(compact));
+  return `${body}.${base64url(sign(body, secret))}`;
+}
+
+/**
+ * Verify a tracking token, returning its payload or null when tampered
+ */
+export function verifyTrackingToken(token: string | null, secret: string): TrackingTokenPayload | null {
+  if (!token) return null;
+
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const provided = Buffer.from(signature, 'base64url');
+  const expected = sign(body, secret);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return null;
+  }
+
+  try {
+    const compact = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as {
+      s?: string; k?: string; u?: string; p?: number;
+    };
+    if (!compact.s || (compact.k !== 'o' && compact.k !== 'c')) return null;
+    if (compact.k === 'c' && !compact.u) return null;
+
+    return {
+      sendId: compact.s,
+      type: compact.k === 'o' ? 'open' : 'click',
+      url: compact.u,
+      position: compact.p,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Tracking secret from the environment, or undefined when tracking is off
+ */
+export function getTrackingSecret(): string | undefined {
+  return process.env.EMAIL_TRACKING_SECRET || undefined;
+}
+
+// ============================================================================
+// HTML INJECTION
+// ============================================================================
+
+function decodeHref(href: string): string {
+  return href.replace(/&amp;/g, '&');
+}
+
+function isTrackableLink(href: string, baseUrl: string): boolean {
+  if (!/^https?:\/\//i.test(href)) return false;
+  if (href.startsWith(`${baseUrl}/api/email/`)) return false;
+  // Never send scanners through unsubscribe links
+  return !/unsubscribe/i.test(href);
+}
+
+/**
+ * Rewrite links and append an open pixel to outgoing HTML.
+ *
+ * Returns the HTML unchanged when no signing secret is configured.
+ */
+export function injectTracking(html: string, options: TrackingOptions): string {
+  const secret = options.secret ?? getTrackingSecret();
+  if (!secret || !html) return html;
+
+  const baseUrl = (options.baseUrl ?? process.env.NEXT_PUBLIC_APP_URL ?? '').replace(/\/$/, '');
+  let result = html;
+
+  if (options.trackClicks !== false) {
+    let position = 0;
+    result = result.replace(
+      /(<a\b[^>]*?\bhref\s*=\s*)(["'])(.*?)\2/gi,
+      (match, prefix: string, quote: string, href: string) => {
+        if (/\bdata-no-track\b/i.test(match) || !isTrackableLink(href, baseUrl)) return match;
+        position++;
+        const token = createTrackingToken(
+          { sendId: options.sendId, type: 'click', url: decodeHref(href), position },
+          secret
+        );
+        return `${prefix}${quote}${baseUrl}${CLICK_PATH}?t=${token}${quote}`;
+      }
+    );
+  }
+
+  if (options.trackOpens !== false) {
+    const token = createTrackingToken({ sendId: options.sendId, type: 'open' }, secret);
+    const pixel = `<img src="${baseUrl}${OPEN_PATH}?t=${token}" width="1" height="1" alt="" style="border:0;width:1px;height:1px;" />`;
+    result = /<\/body>/i.test(result)
+      ? result.replace(/<\/body>/i, `${pixel}</body>`)
+      : `${result}${pixel}`;
+  }
+
+  return result;
+}
+
+// ============================================================================
+// USER AGENT & BOT FILTERING
+// ============================================================================
+
+/**
+ * Parse a user agent into email client and device type
+ */
+export function parseUserAgent(userAgent: string | null): UserAgentInfo {
+  const ua = userAgent ?? '';
+  if (!ua) return { client: 'Unknown', device: 'unknown' };
+
+  if (/GoogleImageProxy|ggpht\.com/i.test(ua)) return { client: 'Gmail', device: 'proxy' };
+  if (/YahooMailProxy/i.test(ua)) return { client: 'Yahoo Mail', device: 'proxy' };
+  if (SCANNER_PATTERN.test(ua)) return { client: 'Scanner', device: 'bot' };
+
+  const device: UserAgentInfo['device'] = /iPad|Tablet|Android(?!.*Mobile)/i.test(ua)
+    ? 'tablet'
+    : /iPhone|iPod|Android|Mobile/i.test(ua)
+      ? 'mobile'
+      : /Windows|Macintosh|Mac OS X|X11|Linux|CrOS/i.test(ua)
+        ? 'desktop'
+        : 'unknown';
+
+  let client = 'Unknown';
+  if (/Outlook|Microsoft Office|ms-office|MSOffice/i.test(ua)) client = 'Outlook';
+  else if (/Thunderbird/i.test(ua)) client = 'Thunderbird';
+  else if (/Edg\//.test(ua)) client = 'Edge';
+  else if (/Chrome\/|CriOS\//.test(ua)) client = 'Chrome';
+  else if (/Firefox\/|FxiOS\//.test(ua)) client = 'Firefox';
+  else if (/AppleWebKit/.test(ua) && /Safari\//.test(ua)) client = 'Safari';
+  else if (/AppleWebKit/.test(ua) && /iPhone|iPad|Macintosh/.test(ua)) client = 'Apple Mail';
+
+  return { client, device };
+}
+
+/**
+ * Apple Mail Privacy Protection fetches through Apple's 17.0.0.0/8 range
+ */
+function isAppleProxyIp(ip: string | null): boolean {
+  if (!ip) return false;
+  const v4 = ip.replace(/^::ffff:/, '');
+  return v4.startsWith('17.');
+}
+
+/**
+ * Classify a tracking hit as automated (scanner, prefetch, MPP) or human
+ */
+export function detectAutomatedRequest(request: TrackingRequest): AutomatedCheck {
+  if (request.method?.toUpperCase() === 'HEAD' || (request.purpose && PREFETCH_PATTERN.test(request.purpose))) {
+    return { automated: true, reason: 'prefetch' };
+  }
+
+  const ua = request.userAgent?.trim() ?? '';
+  if (!ua) return { automated: true, reason: 'missing_user_agent' };
+  if (SCANNER_PATTERN.test(ua)) return { automated: true, reason: 'security_scanner' };
+
+  // MPP preloads every image with a bare UA from Apple's network
+  if (request.type === 'open' && (isAppleProxyIp(request.ip) || ua === 'Mozilla/5.0')) {
+    return { automated: true, reason: 'apple_mpp' };
+  }
+
+  if (request.sentAt) {
+    const seconds = (request.occurredAt.getTime() - request.sentAt.getTime()) / 1000;
+    const minimum = request.type === 'open' ? MIN_OPEN_SECONDS : MIN_CLICK_SECONDS;
+    if (seconds >= 0 && seconds < minimum) return { automated: true, reason: 'too_fast' };
+  }
+
+  return { automated: false };
+}
+
+/**
+ * Build tracking request details from incoming HTTP headers
+ */
+export function trackingRequestFromHeaders(
+  headers: Headers,
+  method: string,
+  occurredAt: Date = new Date()
+): Omit<TrackingRequest, 'type' | 'sentAt'> {
+  return {
+    userAgent: headers.get('user-agent'),
+    ip: headers.get('x-forwarded-for')?.split(',')[0].trim() || headers.get('x-real-ip'),
+    method,
+    purpose: headers.get('sec-purpose') ?? headers.get('purpose') ?? headers.get('x-moz'),
+    occurredAt,
+  };
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * Email Tracker
+ *
+ * Records verified open/click hits. Automated hits are kept in email_events
+ * (flagged is_automated) but never advance the send status, engagement
+ * scores or sequence_analytics.
+ */
+export class EmailTracker {
+  constructor(private store: TrackingStore) {}
+
+  /**
+   * Record one tracking hit for a verified token
+   */
+  async record(
+    token: TrackingTokenPayload,
+    request: Omit<TrackingRequest, 'type' | 'sentAt'>
+  ): Promise<TrackingRecordResult> {
+    const send = await this.store.findSend(token.sendId);
+    if (!send) return { matched: false, automated: false };
+
+    const check = detectAutomatedRequest({
+      ...request,
+      type: token.type,
+      sentAt: send.sent_at ? new Date(send.sent_at) : null,
+    });
+    const agent = parseUserAgent(request.userAgent);
+    const occurredAt = request.occurredAt.toISOString();
+
+    await this.store.recordEvent({
+      email_send_id: send.id,
+      enrollment_id: send.enrollment_id,
+      event_type: token.type,
+      event_data: {
+        automated: check.automated,
+        automated_reason: check.reason ?? null,
+      },
+      ip_address: request.ip,
+      user_agent: request.userAgent,
+      email_client: agent.client,
+      device_type: agent.device,
+      link_url: token.type === 'click' ? token.url ?? null : null,
+      link_position: token.position ? String(token.position) : null,
+      is_automated: check.automated,
+      occurred_at: occurredAt,
+    });
+
+    if (check.automated) {
+      return { matched: true, automated: true, reason: check.reason, sendId: send.id };
+    }
+
+    const firstOpen = !send.opened_at;
+    const firstClick = token.type === 'click' && !send.clicked_at;
+    await this.store.updateSend(send.id, this.sendUpdate(send, token.type, occurredAt));
+
+    if (send.sequence_id) {
+      const day = occurredAt.slice(0, 10);
+      // A click without a recorded open still proves the email was opened
+      if (token.type === 'open' || firstOpen) {
+        await this.store.incrementAnalytics({ sequenceId: send.sequence_id, day, type: 'open', unique: firstOpen });
+      }
+      if (token.type === 'click') {
+        await this.store.incrementAnalytics({ sequenceId: send.sequence_id, day, type: 'click', unique: firstClick });
+      }
+    }
+
+    if (send.prospect_id) {
+      const current = await this.store.getEngagementScore(send.prospect_id);
+      await this.store.saveEngagementScore(
+        applyEngagementSignal(current, send.prospect_id, token.type, request.occurredAt)
+      );
+    }
+
+    return { matched: true, automated: false, sendId: send.id };
+  }
+
+  // Private helper methods
+
+  private sendUpdate(send: TrackedSend, type: TrackingEventType, occurredAt: string): Record<string, unknown> {
+    const update: Record<string, unknown> = {};
+    if (!send.opened_at) update.opened_at = occurredAt;
+    if (type === 'click' && !send.clicked_at) update.clicked_at = occurredAt;
+
+    // Only move forward through the lifecycle (never past replied/bounced)
+    const status = send.status ?? 'sent';
+    if (type === 'click' && ['sent', 'delivered', 'opened'].includes(status)) {
+      update.status = 'clicked';
+    } else if (type === 'open' && ['sent', 'delivered'].includes(status)) {
+      update.status = 'opened';
+    }
+
+    return update;
+  }
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Tracking backed by Supabase
+ */
+export class SupabaseTrackingStore implements TrackingStore {
+  constructor(private client: SupabaseClient) {}
+
+  async findSend(sendId: string): Promise<TrackedSend | null> {
+    const { data, error } = await this.client
+      .from('email_sends')
+      .select('id, enrollment_id, prospect_id, status, sent_at, opened_at, clicked_at, sequence_enrollments(sequence_id)')
+      .eq(UUID_PATTERN.test(sendId) ? 'id' : 'job_id', sendId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const enrollment = data.sequence_enrollments as { sequence_id?: string } | Array<{ sequence_id?: string }> | null;
+    const sequenceId = Array.isArray(enrollment) ? enrollment[0]?.sequence_id : enrollment?.sequence_id;
+
+    return {
+      id: data.id,
+      enrollment_id: data.enrollment_id,
+      prospect_id: data.prospect_id,
+      sequence_id: sequenceId ?? null,
+      status: data.status,
+      sent_at: data.sent_at,
+      opened_at: data.opened_at,
+      clicked_at: data.clicked_at,
+    };
+  }
+
+  async recordEvent(event: TrackingEventInsert): Promise<void> {
+    const { error } = await this.client.from('email_events').insert(event);
+    if (error) throw error;
+  }
+
+  async updateSend(sendId: string, update: Record<string, unknown>): Promise<void> {
+    if (Object.keys(update).length === 0) return;
+    const { error } = await this.client.from('email_sends').update(update).eq('id', sendId);
+    if (error) throw error;
+  }
+
+  async incrementAnalytics(increment: AnalyticsIncrement): Promise<void> {
+    const { error } = await this.client.rpc('increment_sequence_engagement', {
+      p_sequence_id: increment.sequenceId,
+      p_day: increment.day,
+      p_event_type: increment.type,
+      p_unique: increment.unique,
+    });
+    if (error) throw error;
+  }
+
+  async getEngagementScore(prospectId: string): Promise<EngagementScoreRow | null> {
+    const { data, error } = await this.client
+      .from('prospect_engagement_scores')
+      .select('prospect_id, overall_score, email_score, sequence_score, total_emails_received, total_opens, total_clicks, total_replies, last_activity_at, heat_level')
+      .eq('prospect_id', prospectId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as EngagementScoreRow | null;
+  }
+
+  async saveEngagementScore(row: EngagementScoreRow): Promise<void> {
+    const { error } = await this.client
+      .from('prospect_engagement_scores')
+      .upsert({ ...row, updated_at: new Date().toISOString() }, { onConflict: 'prospect_id' });
+
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,814 @@
+/**
+ * Inbound Email - Reply & Bounce Ingestion
+ *
+ * Turns provider webhooks and raw inbound mail into email_events:
+ * - Resend-style webhook JSON (bounced, complained, received)
+ * - Raw RFC 822 replies and DSN bounces (multipart/report)
+ * - Matching to email_sends by Message-ID / In-Reply-To / References
+ * - Enrollment exits (replied, bounced, unsubscribed)
+ * - Suppression entries for hard bounces, complaints and unsubscribes
+ * - prospect_engagement_scores updates
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { EnrollmentRow, EnrollmentUpdate } from './sequence-engine';
+import type { SuppressionList, SuppressionReason } from './suppression';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** email_events types produced by inbound mail */
+export type InboundEventType = 'reply' | 'bounce' | 'unsubscribe' | 'spam_report';
+
+/** email_sends.bounce_category values */
+export type BounceCategory = 'hard_bounce' | 'soft_bounce' | 'spam' | 'invalid';
+
+/** email_events.reply_sentiment values */
+export type ReplySentiment = 'positive' | 'negative' | 'neutral' | 'question';
+
+/** Engagement signals tracked in prospect_engagement_scores */
+export type EngagementSignal = 'open' | 'click' | 'reply' | 'bounce' | 'unsubscribe' | 'spam_report';
+
+/** Normalized inbound event, independent of source */
+export interface InboundEmailEvent {
+  type: InboundEventType;
+  provider: 'resend' | 'rfc822' | 'one_click';
+  /** Provider IDs / Message-IDs that may identify the original send */
+  messageIds: string[];
+  /** Sender of the inbound message (the prospect, for replies) */
+  from?: string;
+  /** Recipient of the original send (the prospect, for bounces) */
+  recipient?: string;
+  subject?: string;
+  /** Reply text with quoted history stripped */
+  body?: string;
+  /** Out-of-office and other automatic responses */
+  autoReply?: boolean;
+  bounceCategory?: BounceCategory;
+  bounceReason?: string;
+  /** Stable key for de-duplicating webhook retries */
+  eventKey?: string;
+  occurredAt: Date;
+}
+
+/** Resend webhook payload (fields used here) */
+export interface ResendWebhookPayload {
+  type: string;
+  created_at?: string;
+  data?: {
+    email_id?: string;
+    message_id?: string;
+    from?: string;
+    to?: string[] | string;
+    subject?: string;
+    text?: string;
+    html?: string;
+    created_at?: string;
+    headers?: Array<{ name: string; value: string }> | Record<string, string>;
+    bounce?: {
+      message?: string;
+      type?: string;
+      subType?: string;
+    };
+  };
+}
+
+/** email_sends row matched to an inbound event */
+export interface MatchedSend {
+  id: string;
+  enrollment_id: string | null;
+  prospect_id: string | null;
+  recipient_email: string;
+}
+
+/** email_events insert */
+export interface EmailEventInsert {
+  email_send_id: string;
+  enrollment_id: string | null;
+  event_type: InboundEventType;
+  event_data: Record<string, unknown>;
+  reply_body?: string | null;
+  reply_sentiment?: ReplySentiment | null;
+  reply_auto_categorized?: boolean;
+  occurred_at: string;
+}
+
+/** prospect_engagement_scores row */
+export interface EngagementScoreRow {
+  prospect_id: string;
+  overall_score: number;
+  email_score: number;
+  sequence_score: number;
+  total_emails_received: number;
+  total_opens: number;
+  total_clicks: number;
+  total_replies: number;
+  last_activity_at: string | null;
+  heat_level: 'cold' | 'warm' | 'hot' | 'very_hot';
+}
+
+/** Enrollment state needed to apply exits */
+export interface InboundEnrollment {
+  id: string;
+  status: EnrollmentRow['status'];
+  abort_on_reply: boolean | null;
+}
+
+/** Data access used by ingestion */
+export interface InboundStore {
+  findSendByMessageIds(messageIds: string[]): Promise<MatchedSend | null>;
+  findLatestSendTo(email: string): Promise<MatchedSend | null>;
+  hasEvent(eventKey: string): Promise<boolean>;
+  recordEvent(event: EmailEventInsert): Promise<void>;
+  updateSend(sendId: string, update: Record<string, unknown>): Promise<void>;
+  getEnrollment(enrollmentId: string): Promise<InboundEnrollment | null>;
+  updateEnrollment(enrollmentId: string, update: EnrollmentUpdate): Promise<void>;
+  getEngagementScore(prospectId: string): Promise<EngagementScoreRow | null>;
+  saveEngagementScore(row: EngagementScoreRow): Promise<void>;
+}
+
+/** Result of ingesting one event */
+export interface InboundIngestResult {
+  matched: boolean;
+  duplicate?: boolean;
+  eventType: InboundEventType;
+  sendId?: string;
+  enrollmentId?: string;
+  enrollmentStatus?: EnrollmentRow['status'];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Max reply body stored in email_events */
+const MAX_REPLY_BODY = 10000;
+
+/** Webhook timestamps older than this are rejected (replay protection) */
+const WEBHOOK_TOLERANCE_MS = 5 * 60 * 1000;
+
+const AUTO_REPLY_SUBJECT = /^(automatic reply|auto(-| )?reply|auto:|out of (the )?office|ooo\b|away from)/i;
+const UNSUBSCRIBE_REPLY = /^\s*(unsubscribe|remove me|stop|opt[ -]?out)\b/i;
+
+const POSITIVE_REPLY = /\b(interested|sounds good|let'?s (talk|chat|connect)|book|schedule|calendar|demo|happy to|would love|yes)\b/i;
+const NEGATIVE_REPLY = /\b(not interested|no thanks|no thank you|unsubscribe|remove me|stop emailing|do not contact|don'?t contact|not a fit)\b/i;
+
+// ============================================================================
+// RFC 822 PARSING
+// ============================================================================
+
+interface MimePart {
+  headers: Record<string, string>;
+  contentType: string;
+  body: string;
+}
+
+/**
+ * Split a message into lower-cased, unfolded headers and raw body
+ */
+function splitMessage(raw: string): { headers: Record<string, string>; body: string } {
+  const normalized = raw.replace(/\r\n/g, '\n');
+  const divider = normalized.indexOf('\n\n');
+  const headerText = divider >= 0 ? normalized.slice(0, divider) : normalized;
+  const body = divider >= 0 ? normalized.slice(divider + 2) : '';
+
+  const headers: Record<string, string> = {};
+  for (const line of headerText.replace(/\n[ \t]+/g, ' ').split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // Keep the first occurrence (closest to the top is the most recent hop)
+    if (!(name in headers)) {
+      headers[name] = line.slice(colon + 1).trim();
+    }
+  }
+
+  return { headers, body };
+}
+
+function decodeBody(body: string, encoding?: string): string {
+  switch (encoding?.toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf8');
+    case 'quoted-printable':
+      return Buffer.from(
+        body
+          .replace(/=\n/g, '')
+          .replace(/=([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+        'latin1'
+      ).toString('utf8');
+    default:
+      return body;
+  }
+}
+
+function getHeaderParam(value: string | undefined, param: string): string | undefined {
+  const match = value?.match(new RegExp(`${param}\\s*=\\s*"?([^";]+)"?`, 'i'));
+  return match?.[1];
+}
+
+/**
+ * Flatten a MIME tree into leaf parts
+ */
+function collectParts(headers: Record<string, string>, body: string): MimePart[] {
+  const contentType = (headers['content-type'] ?? 'text/plain').split(';')[0].trim().toLowerCase();
+  const boundary = getHeaderParam(headers['content-type'], 'boundary');
+
+  if (contentType.startsWith('multipart/') && boundary) {
+    const parts: MimePart[] = [];
+    const sections = body.split(`--${boundary}`).slice(1);
+    for (const section of sections) {
+      if (section.startsWith('--')) break;
+      const child = splitMessage(section.replace(/^\n/, ''));
+      parts.push(...collectParts(child.headers, child.body));
+    }
+    return parts;
+  }
+
+  return [{
+    headers,
+    contentType,
+    body: decodeBody(body, headers['content-transfer-encoding']),
+  }];
+}
+
+/**
+ * Extract a bare address from "Name <addr@host>"
+ */
+export function extractAddress(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const match = value.match(/<([^>]+)>/) ?? value.match(/([^\s<>"]+@[^\s<>"]+)/);
+  return match?.[1].trim().toLowerCase();
+}
+
+/**
+ * Extract message IDs from Message-ID / In-Reply-To / References values
+ */
+export function extractMessageIds(...values: Array<string | undefined>): string[] {
+  const ids: string[] = [];
+  for (const value of values) {
+    if (!value) continue;
+    const bracketed = value.match(/<[^>]+>/g);
+    if (bracketed) {
+      ids.push(...bracketed.map(id => id.slice(1, -1).trim()));
+    } else if (value.trim()) {
+      ids.push(value.trim());
+    }
+  }
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Strip quoted history and signatures from a reply
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const kept: string[] = [];
+
+  for (const line of lines) {
+    if (/^On .+wrote:\s*$/.test(line) || /^-{2,}\s*Original Message\s*-{2,}/i.test(line) || (/^From: .+/.test(line) && kept.length > 0)) {
+      break;
+    }
+    if (line.startsWith('>')) continue;
+    kept.push(line);
+  }
+
+  return kept.join('\n').trim().slice(0, MAX_REPLY_BODY);
+}
+
+/**
+ * Classify a reply for email_events.reply_sentiment
+ */
+export function classifyReplySentiment(text: string): ReplySentiment {
+  if (NEGATIVE_REPLY.test(text)) return 'negative';
+  if (POSITIVE_REPLY.test(text)) return 'positive';
+  if (text.includes('?')) return 'question';
+  return 'neutral';
+}
+
+/**
+ * Map an SMTP enhanced status code (RFC 3463) to a bounce category
+ */
+export function categorizeBounce(status: string | undefined, diagnostic: string = ''): BounceCategory {
+  if (/spam|blocked|blacklist|blocklist|reputation/i.test(diagnostic)) return 'spam';
+  if (!status) return 'hard_bounce';
+  if (status.startsWith('4')) return 'soft_bounce';
+  if (/^5\.1\.[0-3]$/.test(status)) return 'invalid';
+  if (status.startsWith('5.7')) return 'spam';
+  return 'hard_bounce';
+}
+
+/**
+ * Parse a raw RFC 822 message into an inbound event.
+ * Returns null when the message cannot be tied to outbound mail.
+ */
+export function parseRawEmail(raw: string): InboundEmailEvent | null {
+  const { headers, body } = splitMessage(raw);
+  const parts = collectParts(headers, body);
+  const from = extractAddress(headers.from);
+  const subject = headers.subject;
+  const occurredAt = headers.date && !isNaN(Date.parse(headers.date)) ? new Date(headers.date) : new Date();
+  const contentType = headers['content-type'] ?? '';
+
+  const isReport = /multipart\/report/i.test(contentType) && /delivery-status/i.test(contentType);
+  const isDaemon = /^(mailer-daemon|postmaster)@/i.test(from ?? '');
+
+  if (isReport || isDaemon) {
+    const statusPart = parts.find(p => p.contentType === 'message/delivery-status');
+    const originalPart = parts.find(p => p.contentType === 'text/rfc822-headers' || p.contentType === 'message/rfc822');
+    const statusText = statusPart?.body ?? parts.map(p => p.body).join('\n');
+    const original = originalPart ? splitMessage(originalPart.body).headers : {};
+
+    const status = statusText.match(/^Status:\s*([245]\.\d{1,3}\.\d{1,3})/im)?.[1]
+      ?? statusText.match(/\b([45]\.\d{1,3}\.\d{1,3})\b/)?.[1];
+    const diagnostic = statusText.match(/^Diagnostic-Code:\s*(.+)$/im)?.[1]?.trim() ?? '';
+    const action = statusText.match(/^Action:\s*(\S+)/im)?.[1]?.toLowerCase();
+    const recipient = extractAddress(
+      statusText.match(/^Final-Recipient:\s*[^;]+;\s*(.+)$/im)?.[1]
+        ?? statusText.match(/^Original-Recipient:\s*[^;]+;\s*(.+)$/im)?.[1]
+        ?? original.to
+    );
+
+    return {
+      type: 'bounce',
+      provider: 'rfc822',
+      messageIds: extractMessageIds(original['message-id'], headers['in-reply-to'], headers.references),
+      from,
+      recipient,
+      subject,
+      bounceCategory: action === 'delayed' ? 'soft_bounce' : categorizeBounce(status, diagnostic),
+      bounceReason: diagnostic || status || subject,
+      eventKey: extractMessageIds(headers['message-id'])[0],
+      occurredAt,
+    };
+  }
+
+  const messageIds = extractMessageIds(headers['in-reply-to'], headers.references);
+  if (messageIds.length === 0 && !from) return null;
+
+  const textPart = parts.find(p => p.contentType === 'text/plain')
+    ?? parts.find(p => p.contentType === 'text/html');
+  const text = textPart?.contentType === 'text/html'
+    ? textPart.body.replace(/<[^>]+>/g, ' ').replace(/[ \t]+/g, ' ')
+    : textPart?.body ?? '';
+  const replyBody = stripQuotedReply(text);
+
+  const autoSubmitted = headers['auto-submitted'];
+  const autoReply = Boolean(
+    (autoSubmitted && autoSubmitted.toLowerCase() !== 'no') ||
+    headers['x-autoreply'] ||
+    headers['x-autorespond'] ||
+    /^(auto_reply|auto-reply)$/i.test(headers.precedence ?? '') ||
+    AUTO_REPLY_SUBJECT.test(subject ?? '')
+  );
+  const isUnsubscribe = !autoReply && (UNSUBSCRIBE_REPLY.test(subject ?? '') || UNSUBSCRIBE_REPLY.test(replyBody));
+
+  return {
+    type: isUnsubscribe ? 'unsubscribe' : 'reply',
+    provider: 'rfc822',
+    messageIds,
+    from,
+    subject,
+    body: replyBody,
+    autoReply,
+    eventKey: extractMessageIds(headers['message-id'])[0],
+    occurredAt,
+  };
+}
+
+// ============================================================================
+// WEBHOOK PARSING
+// ============================================================================
+
+function getWebhookHeader(
+  headers: NonNullable<ResendWebhookPayload['data']>['headers'],
+  name: string
+): string | undefined {
+  if (!headers) return undefined;
+  if (Array.isArray(headers)) {
+    return headers.find(h => h.name.toLowerCase() === name)?.value;
+  }
+  const key = Object.keys(headers).find(k => k.toLowerCase() === name);
+  return key ? headers[key] : undefined;
+}
+
+/**
+ * Parse a Resend-style webhook into an inbound event.
+ * Returns null for event types that are not inbound signals.
+ */
+export function parseResendWebhook(payload: ResendWebhookPayload, eventKey?: string): InboundEmailEvent | null {
+  const data = payload.data ?? {};
+  const createdAt = payload.created_at ?? data.created_at;
+  const occurredAt = createdAt && !isNaN(Date.parse(createdAt)) ? new Date(createdAt) : new Date();
+  const to = Array.isArray(data.to) ? data.to[0] : data.to;
+
+  switch (payload.type) {
+    case 'email.bounced': {
+      const bounceType = data.bounce?.type?.toLowerCase();
+      const subType = data.bounce?.subType?.toLowerCase() ?? '';
+      const category: BounceCategory = bounceType === 'permanent'
+        ? (subType.includes('suppress') || subType === 'noemail' ? 'invalid' : 'hard_bounce')
+        : 'soft_bounce';
+
+      return {
+        type: 'bounce',
+        provider: 'resend',
+        messageIds: extractMessageIds(data.email_id),
+        recipient: extractAddress(to),
+        subject: data.subject,
+        bounceCategory: category,
+        bounceReason: data.bounce?.message,
+        eventKey,
+        occurredAt,
+      };
+    }
+
+    case 'email.complained':
+      return {
+        type: 'spam_report',
+        provider: 'resend',
+        messageIds: extractMessageIds(data.email_id),
+        recipient: extractAddress(to),
+        subject: data.subject,
+        eventKey,
+        occurredAt,
+      };
+
+    case 'email.received': {
+      const text = data.text ?? (data.html ? data.html.replace(/<[^>]+>/g, ' ') : '');
+      const raw = [
+        `From: ${data.from ?? ''}`,
+        `Subject: ${data.subject ?? ''}`,
+        `Message-ID: ${data.message_id ?? ''}`,
+        `In-Reply-To: ${getWebhookHeader(data.headers, 'in-reply-to') ?? ''}`,
+        `References: ${getWebhookHeader(data.headers, 'references') ?? ''}`,
+        `Auto-Submitted: ${getWebhookHeader(data.headers, 'auto-submitted') ?? 'no'}`,
+        '',
+        text,
+      ].join('\n');
+
+      const parsed = parseRawEmail(raw);
+      return parsed ? { ...parsed, provider: 'resend', eventKey: eventKey ?? parsed.eventKey, occurredAt } : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Verify a Svix-style webhook signature (as used by Resend).
+ *
+ * Signed content is `${id}.${timestamp}.${body}`; the header holds one or
+ * more space-separated `v1,<base64 hmac>` entries.
+ */
+export function verifyWebhookSignature(
+  body: string,
+  headers: { id: string | null; timestamp: string | null; signature: string | null },
+  secret: string,
+  now: Date = new Date()
+): boolean {
+  if (!headers.id || !headers.timestamp || !headers.signature) return false;
+
+  const timestampMs = Number(headers.timestamp) * 1000;
+  if (!Number.isFinite(timestampMs) || Math.abs(now.getTime() - timestampMs) > WEBHOOK_TOLERANCE_MS) {
+    return false;
+  }
+
+  const key = Buffer.from(secret.startsWith('whsec_') ? secret.slice(6) : secret, 'base64');
+  const expected = createHmac('sha256', key)
+    .update(`${headers.id}.${headers.timestamp}.${body}`)
+    .digest();
+
+  return headers.signature.split(' ').some(entry => {
+    const [version, signature] = entry.split(',');
+    if (version !== 'v1' || !signature) return false;
+    const provided = Buffer.from(signature, 'base64');
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+  });
+}
+
+// ============================================================================
+// ENGAGEMENT SCORING
+// ============================================================================
+
+const SIGNAL_POINTS: Record<EngagementSignal, number> = {
+  open: 2,
+  click: 5,
+  reply: 25,
+  bounce: -10,
+  unsubscribe: -100,
+  spam_report: -100,
+};
+
+function heatLevel(score: number): EngagementScoreRow['heat_level'] {
+  if (score >= 75) return 'very_hot';
+  if (score >= 50) return 'hot';
+  if (score >= 20) return 'warm';
+  return 'cold';
+}
+
+/**
+ * Apply one engagement signal to a prospect's score row
+ */
+export function applyEngagementSignal(
+  current: EngagementScoreRow | null,
+  prospectId: string,
+  signal: EngagementSignal,
+  occurredAt: Date
+): EngagementScoreRow {
+  const row: EngagementScoreRow = current ?? {
+    prospect_id: prospectId,
+    overall_score: 0,
+    email_score: 0,
+    sequence_score: 0,
+    total_emails_received: 0,
+    total_opens: 0,
+    total_clicks: 0,
+    total_replies: 0,
+    last_activity_at: null,
+    heat_level: 'cold',
+  };
+
+  const emailScore = Math.max(0, Math.min(100, row.email_score + SIGNAL_POINTS[signal]));
+  const overallScore = Math.round(emailScore * 0.8 + row.sequence_score * 0.2);
+  const positive = signal === 'open' || signal === 'click' || signal === 'reply';
+  const lastActivity = row.last_activity_at ? new Date(row.last_activity_at) : null;
+
+  return {
+    ...row,
+    email_score: emailScore,
+    overall_score: overallScore,
+    total_opens: row.total_opens + (signal === 'open' ? 1 : 0),
+    total_clicks: row.total_clicks + (signal === 'click' ? 1 : 0),
+    total_replies: row.total_replies + (signal === 'reply' ? 1 : 0),
+    last_activity_at: positive && (!lastActivity || occurredAt > lastActivity)
+      ? occurredAt.toISOString()
+      : row.last_activity_at,
+    heat_level: heatLevel(overallScore),
+  };
+}
+
+// ============================================================================
+// INGESTION
+// ============================================================================
+
+/**
+ * Inbound Email Processor
+ *
+ * Matches inbound events to their email_sends row, records the email_event,
+ * updates the send and enrollment, and refreshes the prospect's engagement.
+ */
+export class InboundEmailProcessor {
+  constructor(
+    private store: InboundStore,
+    private suppressions?: SuppressionList
+  ) {}
+
+  /**
+   * Ingest one parsed inbound event
+   */
+  async ingest(event: InboundEmailEvent): Promise<InboundIngestResult> {
+    const send = await this.matchSend(event);
+    if (!send) {
+      return { matched: false, eventType: event.type };
+    }
+
+    if (event.eventKey && await this.store.hasEvent(event.eventKey)) {
+      return { matched: true, duplicate: true, eventType: event.type, sendId: send.id };
+    }
+
+    const occurredAt = event.occurredAt.toISOString();
+
+    await this.store.recordEvent({
+      email_send_id: send.id,
+      enrollment_id: send.enrollment_id,
+      event_type: event.type,
+      event_data: {
+        provider: event.provider,
+        event_key: event.eventKey ?? null,
+        from: event.from ?? null,
+        subject: event.subject ?? null,
+        auto_reply: event.autoReply ?? false,
+        bounce_category: event.bounceCategory ?? null,
+        bounce_reason: event.bounceReason ?? null,
+      },
+      reply_body: event.type === 'reply' ? event.body ?? null : null,
+      reply_sentiment: event.type === 'reply' && event.body && !event.autoReply
+        ? classifyReplySentiment(event.body)
+        : null,
+      reply_auto_categorized: event.type === 'reply',
+      occurred_at: occurredAt,
+    });
+
+    if (event.type === 'reply' && !event.autoReply) {
+      await this.store.updateSend(send.id, { status: 'replied', replied_at: occurredAt });
+    } else if (event.type === 'bounce') {
+      await this.store.updateSend(send.id, {
+        status: 'bounced',
+        bounced_at: occurredAt,
+        bounce_category: event.bounceCategory ?? 'hard_bounce',
+        bounce_reason: event.bounceReason ?? null,
+      });
+    }
+
+    const enrollmentStatus = send.enrollment_id
+      ? await this.updateEnrollment(send.enrollment_id, event)
+      : undefined;
+
+    await this.suppress(send, event);
+
+    if (send.prospect_id && !(event.type === 'reply' && event.autoReply)) {
+      const current = await this.store.getEngagementScore(send.prospect_id);
+      await this.store.saveEngagementScore(
+        applyEngagementSignal(current, send.prospect_id, event.type, event.occurredAt)
+      );
+    }
+
+    return {
+      matched: true,
+      eventType: event.type,
+      sendId: send.id,
+      enrollmentId: send.enrollment_id ?? undefined,
+      enrollmentStatus,
+    };
+  }
+
+  // Private helper methods
+
+  private async matchSend(event: InboundEmailEvent): Promise<MatchedSend | null> {
+    if (event.messageIds.length > 0) {
+      // Provider IDs are often the local part of the Message-ID
+      const candidates = Array.from(new Set(
+        event.messageIds.flatMap(id => [id, `<${id}>`, id.split('@')[0]])
+      ));
+      const send = await this.store.findSendByMessageIds(candidates);
+      if (send) return send;
+    }
+
+    const address = event.type === 'reply' || event.type === 'unsubscribe' ? event.from : event.recipient;
+    return address ? this.store.findLatestSendTo(address) : null;
+  }
+
+  private async suppress(send: MatchedSend, event: InboundEmailEvent): Promise<void> {
+    if (!this.suppressions) return;
+
+    const reason: SuppressionReason | null =
+      event.type === 'unsubscribe' ? 'unsubscribe'
+        : event.type === 'spam_report' ? 'spam_complaint'
+          : event.type === 'bounce' && event.bounceCategory !== 'soft_bounce' ? 'hard_bounce'
+            : null;
+    if (!reason) return;
+
+    await this.suppressions.suppress({
+      type: 'address',
+      value: (event.type === 'bounce' ? event.recipient : undefined) ?? send.recipient_email,
+      reason,
+      source: `inbound:${event.provider}`,
+      notes: event.bounceReason,
+    });
+  }
+
+  private async updateEnrollment(
+    enrollmentId: string,
+    event: InboundEmailEvent
+  ): Promise<EnrollmentRow['status'] | undefined> {
+    const enrollment = await this.store.getEnrollment(enrollmentId);
+    if (!enrollment || !['pending', 'active', 'paused'].includes(enrollment.status)) {
+      return enrollment?.status;
+    }
+
+    const now = event.occurredAt.toISOString();
+    let update: EnrollmentUpdate | null = null;
+
+    switch (event.type) {
+      case 'reply':
+        if (!event.autoReply && enrollment.abort_on_reply !== false) {
+          update = { status: 'completed', exit_reason: 'replied', exit_at: now, completed_at: now, next_step_due_at: null };
+        }
+        break;
+      case 'bounce':
+        update = event.bounceCategory === 'soft_bounce'
+          ? { status: 'paused', paused_at: now }
+          : { status: 'bounced', exit_reason: 'bounced', exit_at: now, next_step_due_at: null };
+        break;
+      case 'unsubscribe':
+      case 'spam_report':
+        update = { status: 'cancelled', exit_reason: 'unsubscribed', exit_at: now, cancelled_at: now, next_step_due_at: null };
+        break;
+    }
+
+    if (!update) return enrollment.status;
+
+    await this.store.updateEnrollment(enrollmentId, update);
+    return update.status;
+  }
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+const SEND_COLUMNS = 'id, enrollment_id, prospect_id, recipient_email';
+
+/**
+ * Inbound ingestion backed by Supabase
+ */
+export class SupabaseInboundStore implements InboundStore {
+  constructor(private client: SupabaseClient) {}
+
+  async findSendByMessageIds(messageIds: string[]): Promise<MatchedSend | null> {
+    const { data, error } = await this.client
+      .from('email_sends')
+      .select(SEND_COLUMNS)
+      .in('provider_message_id', messageIds)
+      .order('sent_at', { ascending: false })
+      .limit(1);
+
+    if (error) throw error;
+    return (data?.[0] as MatchedSend | undefined) ?? null;
+  }
+
+  async findLatestSendTo(email: string): Promise<MatchedSend | null> {
+    const { data, error } = await this.client
+      .from('email_sends')
+      .select(SEND_COLUMNS)
+      .ilike('recipient_email', email)
+      .not('sent_at', 'is', null)
+      .order('sent_at', { ascending: false })
+      .limit(1);
+
+    if (error) throw error;
+    return (data?.[0] as MatchedSend | undefined) ?? null;
+  }
+
+  async hasEvent(eventKey: string): Promise<boolean> {
+    const { count, error } = await this.client
+      .from('email_events')
+      .select('id', { count: 'exact', head: true })
+      .eq('event_data->>event_key', eventKey);
+
+    if (error) throw error;
+    return (count ?? 0) > 0;
+  }
+
+  async recordEvent(event: EmailEventInsert): Promise<void> {
+    const { error } = await this.client.from('email_events').insert(event);
+    if (error) throw error;
+  }
+
+  async updateSend(sendId: string, update: Record<string, unknown>): Promise<void> {
+    const { error } = await this.client.from('email_sends').update(update).eq('id', sendId);
+    if (error) throw error;
+  }
+
+  async getEnrollment(enrollmentId: string): Promise<InboundEnrollment | null> {
+    const { data, error } = await this.client
+      .from('sequence_enrollments')
+      .select('id, status, sequence_id')
+      .eq('id', enrollmentId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const { data: sequence, error: sequenceError } = await this.client
+      .from('email_sequences')
+      .select('abort_on_reply')
+      .eq('id', data.sequence_id)
+      .maybeSingle();
+
+    if (sequenceError) throw sequenceError;
+    return { id: data.id, status: data.status, abort_on_reply: sequence?.abort_on_reply ?? null };
+  }
+
+  async updateEnrollment(enrollmentId: string, update: EnrollmentUpdate): Promise<void> {
+    const { error } = await this.client
+      .from('sequence_enrollments')
+      .update(update)
+      .eq('id', enrollmentId);
+
+    if (error) throw error;
+  }
+
+  async getEngagementScore(prospectId: string): Promise<EngagementScoreRow | null> {
+    const { data, error } = await this.client
+      .from('prospect_engagement_scores')
+      .select('prospect_id, overall_score, email_score, sequence_score, total_emails_received, total_opens, total_clicks, total_replies, last_activity_at, heat_level')
+      .eq('prospect_id', prospectId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as EngagementScoreRow | null;
+  }
+
+  async saveEngagementScore(row: EngagementScoreRow): Promise<void> {
+    const { error } = await this.client
+      .from('prospect_engagement_scores')
+      .upsert({ ...row, updated_at: new Date().toISOString() }, { onConflict: 'prospect_id' });
+
+    if (error) throw error;
+  }
+}
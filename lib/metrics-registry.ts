@@ -0,0 +1,397 @@
+/**
+ * Metrics Registry - Server-wide Counters, Gauges and Histograms
+ *
+ * In-process instruments scraped by /api/metrics:
+ * - Counters, gauges and fixed-bucket histograms with label sets
+ * - Collectors that contribute families at scrape time (queue monitor)
+ * - OpenMetrics text exposition
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Instrument type */
+export type MetricKind = 'counter' | 'gauge' | 'histogram';
+
+/** Label set */
+export type MetricLabels = Record<string, string>;
+
+/** Single exposition line */
+export interface ExpositionSample {
+  /** Appended to the family name, e.g. _total, _bucket */
+  suffix?: string;
+  labels?: MetricLabels;
+  value: number;
+}
+
+/** Metric family as rendered by the exposition */
+export interface MetricFamily {
+  name: string;
+  help: string;
+  type: MetricKind;
+  unit?: string;
+  samples: ExpositionSample[];
+}
+
+/** Scrape-time source of metric families */
+export type MetricsCollector = () => MetricFamily[] | Promise<MetricFamily[]>;
+
+/** Instrument options */
+export interface InstrumentOptions {
+  help: string;
+  /** OpenMetrics unit; must be the name's suffix, e.g. seconds */
+  unit?: string;
+}
+
+/** Histogram options */
+export interface HistogramOptions extends InstrumentOptions {
+  /** Upper bounds, ascending (default DEFAULT_LATENCY_BUCKETS) */
+  buckets?: number[];
+}
+
+/** Registered instrument */
+interface Instrument {
+  kind: MetricKind;
+  collect(): MetricFamily;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Latency buckets in seconds, 5ms to 10s */
+export const DEFAULT_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/** Content type served by the scrape endpoint */
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+
+// ============================================================================
+// INSTRUMENTS
+// ============================================================================
+
+/**
+ * Monotonic counter; rendered with the _total suffix
+ */
+export class Counter implements Instrument {
+  readonly kind = 'counter' as const;
+  private values: Map<string, { labels: MetricLabels; value: number }> = new Map();
+
+  constructor(readonly name: string, private options: InstrumentOptions) {}
+
+  /**
+   * Increment by value (default 1)
+   */
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} cannot decrease`);
+    }
+    const key = labelsId(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  /**
+   * Current value for a label set
+   */
+  get(labels: MetricLabels = {}): number {
+    return this.values.get(labelsId(labels))?.value ?? 0;
+  }
+
+  collect(): MetricFamily {
+    return {
+      name: this.name,
+      help: this.options.help,
+      type: 'counter',
+      unit: this.options.unit,
+      samples: Array.from(this.values.values()).map(v => ({ suffix: '_total', labels: v.labels, value: v.value })),
+    };
+  }
+}
+
+/**
+ * Gauge that can go up and down
+ */
+export class Gauge implements Instrument {
+  readonly kind = 'gauge' as const;
+  private values: Map<string, { labels: MetricLabels; value: number }> = new Map();
+
+  constructor(readonly name: string, private options: InstrumentOptions) {}
+
+  /**
+   * Set the value for a label set
+   */
+  set(labels: MetricLabels, value: number): void {
+    this.values.set(labelsId(labels), { labels, value });
+  }
+
+  /**
+   * Adjust the value for a label set
+   */
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    this.set(labels, this.get(labels) + value);
+  }
+
+  dec(labels: MetricLabels = {}, value: number = 1): void {
+    this.set(labels, this.get(labels) - value);
+  }
+
+  /**
+   * Current value for a label set
+   */
+  get(labels: MetricLabels = {}): number {
+    return this.values.get(labelsId(labels))?.value ?? 0;
+  }
+
+  collect(): MetricFamily {
+    return {
+      name: this.name,
+      help: this.options.help,
+      type: 'gauge',
+      unit: this.options.unit,
+      samples: Array.from(this.values.values()).map(v => ({ labels: v.labels, value: v.value })),
+    };
+  }
+}
+
+/**
+ * Fixed-bucket histogram
+ */
+export class Histogram implements Instrument {
+  readonly kind = 'histogram' as const;
+  readonly buckets: number[];
+  private series: Map<string, { labels: MetricLabels; counts: number[]; count: number; sum: number }> = new Map();
+
+  constructor(readonly name: string, private options: HistogramOptions) {
+    this.buckets = [...(options.buckets ?? DEFAULT_LATENCY_BUCKETS)].sort((a, b) => a - b);
+  }
+
+  /**
+   * Record an observation
+   */
+  observe(labels: MetricLabels, value: number): void {
+    const key = labelsId(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, counts: this.buckets.map(() => 0), count: 0, sum: 0 };
+      this.series.set(key, entry);
+    }
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) entry.counts[i]++;
+    }
+    entry.count++;
+    entry.sum += value;
+  }
+
+  /**
+   * Start a timer; the returned function records the elapsed seconds
+   */
+  startTimer(labels: MetricLabels = {}): (extraLabels?: MetricLabels) => number {
+    const start = performance.now();
+    return (extraLabels = {}) => {
+      const seconds = (performance.now() - start) / 1000;
+      this.observe({ ...labels, ...extraLabels }, seconds);
+      return seconds;
+    };
+  }
+
+  /**
+   * Observation count and sum for a label set
+   */
+  get(labels: MetricLabels = {}): { count: number; sum: number } {
+    const entry = this.series.get(labelsId(labels));
+    return { count: entry?.count ?? 0, sum: entry?.sum ?? 0 };
+  }
+
+  collect(): MetricFamily {
+    const samples: ExpositionSample[] = [];
+    for (const entry of this.series.values()) {
+      this.buckets.forEach((le, i) => {
+        samples.push({ suffix: '_bucket', labels: { ...entry.labels, le: formatNumber(le) }, value: entry.counts[i] });
+      });
+      samples.push({ suffix: '_bucket', labels: { ...entry.labels, le: '+Inf' }, value: entry.count });
+      samples.push({ suffix: '_count', labels: entry.labels, value: entry.count });
+      samples.push({ suffix: '_sum', labels: entry.labels, value: entry.sum });
+    }
+    return { name: this.name, help: this.options.help, type: 'histogram', unit: this.options.unit, samples };
+  }
+}
+
+// ============================================================================
+// METRICS REGISTRY
+// ============================================================================
+
+/**
+ * Metrics Registry
+ *
+ * Instruments are created once per name; asking for an existing name returns
+ * the same instrument, so call sites can look instruments up on every use.
+ */
+export class MetricsRegistry {
+  private instruments: Map<string, Instrument> = new Map();
+  private collectors: Map<string, MetricsCollector> = new Map();
+
+  /**
+   * Get or create a counter
+   */
+  counter(name: string, options: InstrumentOptions): Counter {
+    return this.register(name, 'counter', () => new Counter(name, options)) as Counter;
+  }
+
+  /**
+   * Get or create a gauge
+   */
+  gauge(name: string, options: InstrumentOptions): Gauge {
+    return this.register(name, 'gauge', () => new Gauge(name, options)) as Gauge;
+  }
+
+  /**
+   * Get or create a histogram
+   */
+  histogram(name: string, options: HistogramOptions): Histogram {
+    return this.register(name, 'histogram', () => new Histogram(name, options)) as Histogram;
+  }
+
+  /**
+   * Add or replace a scrape-time collector
+   */
+  registerCollector(id: string, collector: MetricsCollector): void {
+    this.collectors.set(id, collector);
+  }
+
+  /**
+   * Remove a collector
+   */
+  unregisterCollector(id: string): boolean {
+    return this.collectors.delete(id);
+  }
+
+  /**
+   * Collect every instrument and collector; failing collectors are skipped
+   */
+  async collect(): Promise<MetricFamily[]> {
+    const families = Array.from(this.instruments.values()).map(i => i.collect());
+
+    for (const [id, collector] of this.collectors) {
+      try {
+        families.push(...await collector());
+      } catch (error) {
+        console.error(`metrics collector ${id} error:`, error);
+      }
+    }
+
+    return families;
+  }
+
+  /**
+   * Render the OpenMetrics exposition
+   */
+  async render(): Promise<string> {
+    return renderOpenMetrics(await this.collect());
+  }
+
+  // Private helper methods
+
+  private register(name: string, kind: MetricKind, create: () => Instrument): Instrument {
+    if (!METRIC_NAME.test(name)) {
+      throw new Error(`Invalid metric name: ${name}`);
+    }
+    const existing = this.instruments.get(name);
+    if (existing) {
+      if (existing.kind !== kind) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.kind}`);
+      }
+      return existing;
+    }
+    const instrument = create();
+    this.instruments.set(name, instrument);
+    return instrument;
+  }
+}
+
+// ============================================================================
+// FACTORY FUNCTIONS
+// ============================================================================
+
+/** Singleton instance */
+let globalRegistry: MetricsRegistry | null = null;
+
+/**
+ * Get the global metrics registry
+ */
+export function getMetricsRegistry(): MetricsRegistry {
+  if (!globalRegistry) {
+    globalRegistry = new MetricsRegistry();
+  }
+  return globalRegistry;
+}
+
+/**
+ * Reset the global metrics registry (useful for testing)
+ */
+export function resetMetricsRegistry(): void {
+  globalRegistry = null;
+}
+
+// ============================================================================
+// UTILITIES
+// ============================================================================
+
+/**
+ * Render metric families as OpenMetrics text; families sharing a name are merged
+ */
+export function renderOpenMetrics(families: MetricFamily[]): string {
+  const merged = new Map<string, MetricFamily>();
+  for (const family of families) {
+    const existing = merged.get(family.name);
+    if (existing) {
+      existing.samples.push(...family.samples);
+    } else {
+      merged.set(family.name, { ...family, samples: [...family.samples] });
+    }
+  }
+
+  const lines: string[] = [];
+  for (const family of merged.values()) {
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+    if (family.unit) lines.push(`# UNIT ${family.name} ${family.unit}`);
+    lines.push(`# HELP ${family.name} ${escapeHelp(family.help)}`);
+    for (const sample of family.samples) {
+      lines.push(`${family.name}${sample.suffix ?? ''}${formatLabels(sample.labels)} ${formatNumber(sample.value)}`);
+    }
+  }
+  lines.push('# EOF');
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Format a label set as {a="1",b="2"}
+ */
+export function formatLabels(labels: MetricLabels = {}): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabelValue(v)}"`).join(',')}}`;
+}
+
+function labelsId(labels: MetricLabels): string {
+  return Object.keys(labels).sort().map(k => `${k}=${labels[k]}`).join(',');
+}
+
+function formatNumber(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  if (Number.isNaN(value)) return 'NaN';
+  return String(value);
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
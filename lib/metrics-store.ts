@@ -0,0 +1,496 @@
+/**
+ * Metrics Store - Persisted Time Series
+ *
+ * Keeps monitor metrics across restarts:
+ * - Raw samples with short retention
+ * - 1m and 1h rollups (count, sum, min, max, last) for long windows
+ * - Resolution picked from the query window
+ * - Postgres store (metric_samples / metric_rollups) by default
+ * - In-memory store for tests and local development
+ */
+
+import type { QueueDatabase } from './email-queue';
+import type { MetricPoint, MetricType } from './queue-monitor';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Stored resolution */
+export type MetricResolution = 'raw' | '1m' | '1h';
+
+/** Rollup resolution */
+export type RollupResolution = Exclude<MetricResolution, 'raw'>;
+
+/** How bucket values are combined when reading rollups */
+export type MetricAggregation = 'avg' | 'sum' | 'min' | 'max' | 'last' | 'count';
+
+/** Metric point tagged with its series */
+export interface MetricSample extends MetricPoint {
+  /** Series name, e.g. email_throughput */
+  series: string;
+  type: MetricType;
+}
+
+/** Downsampled bucket */
+export interface MetricBucket {
+  series: string;
+  type: MetricType;
+  labels: Record<string, string>;
+  resolution: RollupResolution;
+  /** Bucket start */
+  bucket: Date;
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  last: number;
+  lastAt: Date;
+}
+
+/** Time series query */
+export interface MetricsQuery {
+  series: string;
+  from: Date;
+  to: Date;
+  /** Only points carrying these labels */
+  labels?: Record<string, string>;
+  /** Defaults to the coarsest resolution that fits the window */
+  resolution?: MetricResolution;
+  /** Rollup aggregation (defaults to sum for counters, avg otherwise) */
+  aggregation?: MetricAggregation;
+}
+
+/** Retention per resolution (ms) */
+export interface MetricsRetention {
+  raw: number;
+  '1m': number;
+  '1h': number;
+}
+
+/** Metrics store backend */
+export interface MetricsStore {
+  /** Append samples and update rollups */
+  write(samples: MetricSample[]): Promise<void>;
+  /** Read a series between two dates */
+  query(query: MetricsQuery): Promise<MetricPoint[]>;
+  /** Drop data older than its retention */
+  prune(now?: Date): Promise<void>;
+}
+
+/** Metrics store backend type */
+export type MetricsStoreType = 'memory' | 'postgres';
+
+/** Factory options */
+export interface MetricsStoreOptions {
+  /** Defaults to postgres when a database is configured */
+  backend?: MetricsStoreType;
+  /** Pre-built database client, e.g. a shared pg Pool */
+  database?: QueueDatabase;
+  /** Postgres connection string (defaults to DATABASE_URL) */
+  databaseUrl?: string;
+  retention?: Partial<MetricsRetention>;
+  /** In-memory store: max raw samples kept */
+  maxSamples?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Bucket width per rollup resolution */
+export const RESOLUTION_MS: Record<RollupResolution, number> = {
+  '1m': 60 * 1000,
+  '1h': 60 * 60 * 1000,
+};
+
+/** Default retention */
+export const DEFAULT_RETENTION: MetricsRetention = {
+  raw: 6 * 60 * 60 * 1000, // 6 hours
+  '1m': 7 * 24 * 60 * 60 * 1000, // 7 days
+  '1h': 90 * 24 * 60 * 60 * 1000, // 90 days
+};
+
+/** Largest window served at each resolution */
+const MAX_SPAN: Record<RollupResolution | 'raw', number> = {
+  raw: 60 * 60 * 1000,
+  '1m': 2 * 24 * 60 * 60 * 1000,
+  '1h': Infinity,
+};
+
+const ROLLUP_RESOLUTIONS: RollupResolution[] = ['1m', '1h'];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Stable key for a label set
+ */
+export function labelsKey(labels?: Record<string, string>): string {
+  if (!labels) return '';
+  return Object.keys(labels)
+    .sort()
+    .map(key => `${key}=${labels[key]}`)
+    .join(',');
+}
+
+/**
+ * Default rollup aggregation for a metric type
+ */
+export function defaultAggregation(type: MetricType): MetricAggregation {
+  return type === 'counter' ? 'sum' : 'avg';
+}
+
+/**
+ * Pick the finest resolution that still has data for the window and
+ * keeps the point count reasonable
+ */
+export function pickResolution(
+  from: Date,
+  to: Date,
+  now: Date = new Date(),
+  retention: MetricsRetention = DEFAULT_RETENTION
+): MetricResolution {
+  const span = to.getTime() - from.getTime();
+  const age = now.getTime() - from.getTime();
+
+  for (const resolution of ['raw', ...ROLLUP_RESOLUTIONS] as MetricResolution[]) {
+    if (span <= MAX_SPAN[resolution] && age <= retention[resolution]) {
+      return resolution;
+    }
+  }
+  return '1h';
+}
+
+/**
+ * Downsample samples into rollup buckets
+ */
+export function downsample(samples: MetricSample[], resolution: RollupResolution): MetricBucket[] {
+  const width = RESOLUTION_MS[resolution];
+  const buckets = new Map<string, MetricBucket>();
+
+  for (const sample of samples) {
+    const start = Math.floor(sample.timestamp.getTime() / width) * width;
+    const key = `${sample.series}|${labelsKey(sample.labels)}|${start}`;
+    const existing = buckets.get(key);
+
+    if (existing) {
+      mergeBucket(existing, sample);
+    } else {
+      buckets.set(key, {
+        series: sample.series,
+        type: sample.type,
+        labels: sample.labels ?? {},
+        resolution,
+        bucket: new Date(start),
+        count: 1,
+        sum: sample.value,
+        min: sample.value,
+        max: sample.value,
+        last: sample.value,
+        lastAt: sample.timestamp,
+      });
+    }
+  }
+
+  return Array.from(buckets.values());
+}
+
+/**
+ * Read a bucket with an aggregation
+ */
+export function bucketValue(bucket: Pick<MetricBucket, 'count' | 'sum' | 'min' | 'max' | 'last'>, aggregation: MetricAggregation): number {
+  switch (aggregation) {
+    case 'sum': return bucket.sum;
+    case 'min': return bucket.min;
+    case 'max': return bucket.max;
+    case 'last': return bucket.last;
+    case 'count': return bucket.count;
+    default: return bucket.count > 0 ? bucket.sum / bucket.count : 0;
+  }
+}
+
+function mergeBucket(bucket: MetricBucket, sample: MetricSample): void {
+  bucket.count++;
+  bucket.sum += sample.value;
+  bucket.min = Math.min(bucket.min, sample.value);
+  bucket.max = Math.max(bucket.max, sample.value);
+  if (sample.timestamp.getTime() >= bucket.lastAt.getTime()) {
+    bucket.last = sample.value;
+    bucket.lastAt = sample.timestamp;
+  }
+}
+
+function matchesLabels(labels: Record<string, string> | undefined, filter?: Record<string, string>): boolean {
+  if (!filter) return true;
+  return Object.entries(filter).every(([key, value]) => labels?.[key] === value);
+}
+
+// ============================================================================
+// IN-MEMORY STORE
+// ============================================================================
+
+/**
+ * In-memory metrics store
+ *
+ * Same rollup behaviour as the Postgres store, lost on restart.
+ */
+export class InMemoryMetricsStore implements MetricsStore {
+  private raw: MetricSample[] = [];
+  private rollups: Map<string, MetricBucket> = new Map();
+  private retention: MetricsRetention;
+  private maxSamples: number;
+
+  constructor(options: { retention?: Partial<MetricsRetention>; maxSamples?: number } = {}) {
+    this.retention = { ...DEFAULT_RETENTION, ...options.retention };
+    this.maxSamples = options.maxSamples ?? 100000;
+  }
+
+  async write(samples: MetricSample[]): Promise<void> {
+    this.raw.push(...samples);
+    if (this.raw.length > this.maxSamples) {
+      this.raw.splice(0, this.raw.length - this.maxSamples);
+    }
+
+    for (const resolution of ROLLUP_RESOLUTIONS) {
+      for (const bucket of downsample(samples, resolution)) {
+        const key = `${resolution}|${bucket.series}|${labelsKey(bucket.labels)}|${bucket.bucket.getTime()}`;
+        const existing = this.rollups.get(key);
+        if (!existing) {
+          this.rollups.set(key, bucket);
+          continue;
+        }
+        existing.count += bucket.count;
+        existing.sum += bucket.sum;
+        existing.min = Math.min(existing.min, bucket.min);
+        existing.max = Math.max(existing.max, bucket.max);
+        if (bucket.lastAt.getTime() >= existing.lastAt.getTime()) {
+          existing.last = bucket.last;
+          existing.lastAt = bucket.lastAt;
+        }
+      }
+    }
+  }
+
+  async query(query: MetricsQuery): Promise<MetricPoint[]> {
+    const from = query.from.getTime();
+    const to = query.to.getTime();
+    const resolution = query.resolution ?? pickResolution(query.from, query.to, new Date(), this.retention);
+
+    if (resolution === 'raw') {
+      return this.raw
+        .filter(s => s.series === query.series)
+        .filter(s => s.timestamp.getTime() >= from && s.timestamp.getTime() <= to)
+        .filter(s => matchesLabels(s.labels, query.labels))
+        .map(s => ({ timestamp: s.timestamp, value: s.value, labels: s.labels }));
+    }
+
+    const width = RESOLUTION_MS[resolution];
+    return Array.from(this.rollups.values())
+      .filter(b => b.resolution === resolution && b.series === query.series)
+      .filter(b => b.bucket.getTime() + width > from && b.bucket.getTime() <= to)
+      .filter(b => matchesLabels(b.labels, query.labels))
+      .sort((a, b) => a.bucket.getTime() - b.bucket.getTime())
+      .map(b => ({
+        timestamp: b.bucket,
+        value: bucketValue(b, query.aggregation ?? defaultAggregation(b.type)),
+        labels: b.labels,
+      }));
+  }
+
+  async prune(now: Date = new Date()): Promise<void> {
+    const rawCutoff = now.getTime() - this.retention.raw;
+    this.raw = this.raw.filter(s => s.timestamp.getTime() >= rawCutoff);
+
+    for (const [key, bucket] of this.rollups) {
+      if (bucket.bucket.getTime() < now.getTime() - this.retention[bucket.resolution]) {
+        this.rollups.delete(key);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// POSTGRES STORE
+// ============================================================================
+
+/** metric_samples row */
+interface MetricSampleRow {
+  value: number | string;
+  labels: Record<string, string> | null;
+  recorded_at: string | Date;
+}
+
+/** metric_rollups row */
+interface MetricRollupRow {
+  metric_type: MetricType;
+  labels: Record<string, string> | null;
+  bucket: string | Date;
+  count: number | string;
+  sum: number | string;
+  min: number | string;
+  max: number | string;
+  last: number | string;
+}
+
+/**
+ * Postgres metrics store
+ *
+ * Raw samples go to metric_samples; rollups are upserted into
+ * metric_rollups on write so long windows never scan raw data.
+ */
+export class PostgresMetricsStore implements MetricsStore {
+  private db: QueueDatabase;
+  private retention: MetricsRetention;
+
+  constructor(db: QueueDatabase, options: { retention?: Partial<MetricsRetention> } = {}) {
+    this.db = db;
+    this.retention = { ...DEFAULT_RETENTION, ...options.retention };
+  }
+
+  async write(samples: MetricSample[]): Promise<void> {
+    if (samples.length === 0) return;
+
+    const params: unknown[] = [];
+    const rows = samples.map(s => {
+      params.push(s.series, s.type, JSON.stringify(s.labels ?? {}), labelsKey(s.labels), s.value, s.timestamp.toISOString());
+      const i = params.length - 6;
+      return `($${i + 1}, $${i + 2}, $${i + 3}, $${i + 4}, $${i + 5}, $${i + 6})`;
+    });
+
+    await this.db.query(
+      `INSERT INTO metric_samples (series, metric_type, labels, labels_key, value, recorded_at)
+       VALUES ${rows.join(', ')}`,
+      params
+    );
+
+    for (const resolution of ROLLUP_RESOLUTIONS) {
+      await this.upsertRollups(downsample(samples, resolution));
+    }
+  }
+
+  async query(query: MetricsQuery): Promise<MetricPoint[]> {
+    const resolution = query.resolution ?? pickResolution(query.from, query.to, new Date(), this.retention);
+    const labelFilter = query.labels ? JSON.stringify(query.labels) : null;
+
+    if (resolution === 'raw') {
+      const { rows } = await this.db.query(
+        `SELECT value, labels, recorded_at FROM metric_samples
+         WHERE series = $1 AND recorded_at >= $2 AND recorded_at <= $3
+           AND ($4::jsonb IS NULL OR labels @> $4::jsonb)
+         ORDER BY recorded_at`,
+        [query.series, query.from.toISOString(), query.to.toISOString(), labelFilter]
+      );
+      return (rows as MetricSampleRow[]).map(row => ({
+        timestamp: new Date(row.recorded_at),
+        value: Number(row.value),
+        labels: row.labels ?? {},
+      }));
+    }
+
+    const width = RESOLUTION_MS[resolution];
+    const fromBucket = new Date(Math.floor(query.from.getTime() / width) * width);
+    const { rows } = await this.db.query(
+      `SELECT metric_type, labels, bucket, count, sum, min, max, last FROM metric_rollups
+       WHERE series = $1 AND resolution = $2 AND bucket >= $3 AND bucket <= $4
+         AND ($5::jsonb IS NULL OR labels @> $5::jsonb)
+       ORDER BY bucket`,
+      [query.series, resolution, fromBucket.toISOString(), query.to.toISOString(), labelFilter]
+    );
+
+    return (rows as MetricRollupRow[]).map(row => {
+      const bucket = {
+        count: Number(row.count),
+        sum: Number(row.sum),
+        min: Number(row.min),
+        max: Number(row.max),
+        last: Number(row.last),
+      };
+      return {
+        timestamp: new Date(row.bucket),
+        value: bucketValue(bucket, query.aggregation ?? defaultAggregation(row.metric_type)),
+        labels: row.labels ?? {},
+      };
+    });
+  }
+
+  async prune(now: Date = new Date()): Promise<void> {
+    await this.db.query(
+      'DELETE FROM metric_samples WHERE recorded_at < $1',
+      [new Date(now.getTime() - this.retention.raw).toISOString()]
+    );
+    for (const resolution of ROLLUP_RESOLUTIONS) {
+      await this.db.query(
+        'DELETE FROM metric_rollups WHERE resolution = $1 AND bucket < $2',
+        [resolution, new Date(now.getTime() - this.retention[resolution]).toISOString()]
+      );
+    }
+  }
+
+  // Private helper methods
+
+  private async upsertRollups(buckets: MetricBucket[]): Promise<void> {
+    if (buckets.length === 0) return;
+
+    const params: unknown[] = [];
+    const rows = buckets.map(b => {
+      params.push(
+        b.series, b.type, JSON.stringify(b.labels), labelsKey(b.labels), b.resolution,
+        b.bucket.toISOString(), b.count, b.sum, b.min, b.max, b.last, b.lastAt.toISOString()
+      );
+      const i = params.length - 12;
+      return `(${Array.from({ length: 12 }, (_, n) => `$${i + n + 1}`).join(', ')})`;
+    });
+
+    await this.db.query(
+      `INSERT INTO metric_rollups (
+         series, metric_type, labels, labels_key, resolution,
+         bucket, count, sum, min, max, last, last_at
+       ) VALUES ${rows.join(', ')}
+       ON CONFLICT (series, labels_key, resolution, bucket) DO UPDATE SET
+         count = metric_rollups.count + EXCLUDED.count,
+         sum = metric_rollups.sum + EXCLUDED.sum,
+         min = LEAST(metric_rollups.min, EXCLUDED.min),
+         max = GREATEST(metric_rollups.max, EXCLUDED.max),
+         last = CASE WHEN EXCLUDED.last_at >= metric_rollups.last_at
+                     THEN EXCLUDED.last ELSE metric_rollups.last END,
+         last_at = GREATEST(metric_rollups.last_at, EXCLUDED.last_at)`,
+      params
+    );
+  }
+}
+
+// ============================================================================
+// FACTORY FUNCTIONS
+// ============================================================================
+
+/**
+ * Create a metrics store
+ *
+ * Uses Postgres when a database is configured (or METRICS_STORE=postgres),
+ * otherwise keeps metrics in memory.
+ */
+export function createMetricsStore(options: MetricsStoreOptions = {}): MetricsStore {
+  const envBackend = process.env.METRICS_STORE;
+  const backend = options.backend
+    ?? (envBackend === 'memory' || envBackend === 'postgres' ? envBackend : undefined)
+    ?? (options.database || options.databaseUrl || process.env.DATABASE_URL ? 'postgres' : 'memory');
+
+  if (backend === 'memory') {
+    return new InMemoryMetricsStore({ retention: options.retention, maxSamples: options.maxSamples });
+  }
+
+  let db = options.database;
+  if (!db) {
+    const connectionString = options.databaseUrl ?? process.env.DATABASE_URL;
+    if (!connectionString) {
+      throw new Error('DATABASE_URL is required for the postgres metrics store');
+    }
+    // Dynamic import to avoid loading pg for the in-memory store
+    const { Pool } = require('pg') as typeof import('pg');
+    db = new Pool({ connectionString }) as QueueDatabase;
+  }
+
+  return new PostgresMetricsStore(db, { retention: options.retention });
+}
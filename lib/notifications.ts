@@ -0,0 +1,820 @@
+/**
+ * Notifications - Alert Delivery
+ *
+ * Routes QueueMonitor alerts and critical anomalies to people:
+ * - Webhook (Slack-compatible JSON), email and in-app activity feed channels
+ * - Per-user routing rules by severity, source and component
+ * - Dedup and grouping windows
+ * - Quiet hours (non-critical notifications are held until they end)
+ * - Escalation when an alert stays unresolved
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Alert, AlertSeverity, QueueMonitor } from './queue-monitor';
+import type { AnomalyResult } from './predictions/types';
+import { createEmailProvider } from './email-processor';
+import type { EmailProvider } from './email-processor';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Delivery channel */
+export type NotificationChannelType = 'webhook' | 'email' | 'in_app';
+
+/** Normalized notification */
+export interface Notification {
+  /** Dedup key (alert rule / component, anomaly id) */
+  key: string;
+  /** Producer, e.g. queue-monitor or anomaly */
+  source: string;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  component?: string;
+  timestamp: Date;
+  /** Set when the underlying alert resolved */
+  resolvedAt?: Date;
+  /** Alerts resolve and can escalate; anomalies are one-off */
+  resolvable?: boolean;
+  /** Command offered in the activity feed */
+  actionCommand?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/** Daily window during which non-critical notifications are held */
+export interface QuietHours {
+  /** HH:MM, inclusive */
+  start: string;
+  /** HH:MM, exclusive; may be earlier than start to span midnight */
+  end: string;
+  /** IANA time zone (default UTC) */
+  timezone?: string;
+}
+
+/** Per-user routing rule */
+export interface NotificationRoute {
+  id: string;
+  userId: string;
+  channel: NotificationChannelType;
+  /** Webhook URL or email address (unused for in_app) */
+  target?: string;
+  /** Lowest severity delivered (default warning) */
+  minSeverity?: AlertSeverity;
+  /** Only these sources (default all) */
+  sources?: string[];
+  /** Only these components (default all) */
+  components?: string[];
+  quietHours?: QuietHours;
+  enabled?: boolean;
+}
+
+/** Escalation step for unresolved alerts */
+export interface EscalationStep {
+  /** Time since the alert first fired */
+  afterMs: number;
+  /** Users whose routes receive the escalation */
+  userIds: string[];
+  /** Lowest severity escalated (default error) */
+  minSeverity?: AlertSeverity;
+}
+
+/** Notifications delivered together to one route */
+export interface NotificationBatch {
+  route: NotificationRoute;
+  notifications: Notification[];
+  /** Escalation step number (1-based) when escalating */
+  escalation?: number;
+}
+
+/** Channel implementation */
+export interface NotificationChannel {
+  readonly type: NotificationChannelType;
+  send(batch: NotificationBatch): Promise<void>;
+}
+
+/** Delivery outcome */
+export interface DeliveryResult {
+  routeId: string;
+  userId: string;
+  channel: NotificationChannelType;
+  count: number;
+  success: boolean;
+  error?: string;
+  escalation?: number;
+}
+
+/** In-app feed entry */
+export interface NotificationFeedEntry {
+  userId: string;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  source: string;
+  actionCommand?: string;
+  resolved: boolean;
+  createdAt: Date;
+  metadata?: Record<string, unknown>;
+}
+
+/** In-app feed storage */
+export interface NotificationFeedStore {
+  insert(entries: NotificationFeedEntry[]): Promise<void>;
+}
+
+/** Routing rule storage */
+export interface NotificationStore {
+  loadRoutes(): Promise<NotificationRoute[]>;
+}
+
+/** Dispatcher configuration */
+export interface NotificationDispatcherConfig {
+  channels?: NotificationChannel[];
+  routes?: NotificationRoute[];
+  store?: NotificationStore;
+  /** Same key is not re-sent within this window unless its severity rises */
+  dedupWindowMs?: number;
+  /** Notifications for a route are batched for this long (0 sends immediately) */
+  groupWindowMs?: number;
+  escalation?: EscalationStep[];
+  /** Anomaly severities that are dispatched (default critical only) */
+  anomalySeverities?: AnomalyResult['severity'][];
+  /** How often start() flushes batches and escalations */
+  flushIntervalMs?: number;
+  /** Clock (tests) */
+  now?: () => Date;
+}
+
+/** Dispatcher counters */
+export interface NotificationStats {
+  received: number;
+  deduplicated: number;
+  delivered: number;
+  failed: number;
+  escalated: number;
+  pending: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Severity ordering */
+export const SEVERITY_RANK: Record<AlertSeverity, number> = {
+  info: 0,
+  warning: 1,
+  error: 2,
+  critical: 3,
+};
+
+/** Attachment colors (match the activity feed) */
+const SEVERITY_COLORS: Record<AlertSeverity, string> = {
+  info: '#2563eb',
+  warning: '#ea580c',
+  error: '#dc2626',
+  critical: '#dc2626',
+};
+
+const RESOLVED_COLOR = '#16a34a';
+
+const DEFAULT_DEDUP_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+const DEFAULT_GROUP_WINDOW_MS = 60 * 1000; // 1 minute
+const DEFAULT_FLUSH_INTERVAL_MS = 15 * 1000;
+
+// ============================================================================
+// CONVERSIONS
+// ============================================================================
+
+/**
+ * Build a notification from a QueueMonitor alert
+ */
+export function alertToNotification(alert: Alert): Notification {
+  return {
+    key: alert.ruleId ? `alert:${alert.ruleId}` : `alert:${alert.component}:${alert.message}`,
+    source: 'queue-monitor',
+    severity: alert.severity,
+    title: alert.resolvedAt ? `Resolved: ${alert.component}` : `${alert.component} ${alert.severity}`,
+    message: alert.message,
+    component: alert.component,
+    timestamp: alert.resolvedAt ?? alert.timestamp,
+    resolvedAt: alert.resolvedAt,
+    resolvable: true,
+    metadata: { alertId: alert.id, ...alert.metadata },
+  };
+}
+
+/**
+ * Build a notification from an anomaly
+ */
+export function anomalyToNotification(anomaly: AnomalyResult): Notification {
+  return {
+    key: `anomaly:${anomaly.id}`,
+    source: 'anomaly',
+    severity: anomaly.severity,
+    title: `${anomaly.metric} ${anomaly.type.replace('_', ' ')}`,
+    message: anomaly.message,
+    component: anomaly.affectedEntity?.name,
+    timestamp: new Date(anomaly.detectedAt),
+    metadata: {
+      anomalyId: anomaly.id,
+      value: anomaly.value,
+      expectedRange: anomaly.expectedRange,
+      zScore: anomaly.zScore,
+      recommendedAction: anomaly.recommendedAction,
+    },
+  };
+}
+
+/**
+ * Check whether a time falls inside quiet hours
+ */
+export function isQuietHours(quiet: QuietHours, at: Date): boolean {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: quiet.timezone ?? 'UTC',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const hour = Number(parts.find(p => p.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find(p => p.type === 'minute')?.value ?? 0);
+
+  const current = hour * 60 + minute;
+  const start = toMinutes(quiet.start);
+  const end = toMinutes(quiet.end);
+
+  return start <= end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * Slack-compatible webhook payload (text + legacy attachments)
+ */
+export function formatSlackPayload(batch: NotificationBatch): {
+  text: string;
+  attachments: Array<{
+    color: string;
+    title: string;
+    text: string;
+    fields: Array<{ title: string; value: string; short: boolean }>;
+    ts: number;
+  }>;
+} {
+  const { notifications } = batch;
+  const prefix = batch.escalation ? `Escalated (level ${batch.escalation}): ` : '';
+  const text = notifications.length === 1
+    ? `${prefix}${notifications[0].title}: ${notifications[0].message}`
+    : `${prefix}${notifications.length} notifications (${summarizeSeverities(notifications)})`;
+
+  return {
+    text,
+    attachments: notifications.map(n => ({
+      color: n.resolvedAt ? RESOLVED_COLOR : SEVERITY_COLORS[n.severity],
+      title: n.title,
+      text: n.message,
+      fields: [
+        { title: 'Severity', value: n.resolvedAt ? 'resolved' : n.severity, short: true },
+        { title: 'Source', value: n.component ?? n.source, short: true },
+      ],
+      ts: Math.floor(n.timestamp.getTime() / 1000),
+    })),
+  };
+}
+
+function summarizeSeverities(notifications: Notification[]): string {
+  const counts = new Map<string, number>();
+  for (const n of notifications) {
+    const label = n.resolvedAt ? 'resolved' : n.severity;
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  }
+  return Array.from(counts.entries()).map(([label, count]) => `${count} ${label}`).join(', ');
+}
+
+// ============================================================================
+// CHANNELS
+// ============================================================================
+
+/**
+ * Webhook channel - POSTs Slack-compatible JSON to the route target
+ */
+export class WebhookChannel implements NotificationChannel {
+  readonly type = 'webhook' as const;
+  private fetchImpl: typeof fetch;
+  private timeoutMs: number;
+
+  constructor(options: { fetch?: typeof fetch; timeoutMs?: number } = {}) {
+    this.fetchImpl = options.fetch ?? fetch;
+    this.timeoutMs = options.timeoutMs ?? 10000;
+  }
+
+  async send(batch: NotificationBatch): Promise<void> {
+    if (!batch.route.target) {
+      throw new Error(`Route ${batch.route.id} has no webhook URL`);
+    }
+
+    const response = await this.fetchImpl(batch.route.target, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(formatSlackPayload(batch)),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Email channel - sends through an EmailProvider, bypassing the send queue
+ */
+export class EmailNotificationChannel implements NotificationChannel {
+  readonly type = 'email' as const;
+  private provider: EmailProvider;
+  private from: string;
+
+  constructor(options: { provider: EmailProvider; from: string }) {
+    this.provider = options.provider;
+    this.from = options.from;
+  }
+
+  async send(batch: NotificationBatch): Promise<void> {
+    if (!batch.route.target) {
+      throw new Error(`Route ${batch.route.id} has no email address`);
+    }
+
+    const payload = formatSlackPayload(batch);
+    const lines = batch.notifications.map(n =>
+      `[${n.resolvedAt ? 'RESOLVED' : n.severity.toUpperCase()}] ${n.title}\n${n.message}`
+    );
+
+    await this.provider.send({
+      jobId: `notification-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      to: batch.route.target,
+      from: this.from,
+      subject: payload.text.length > 120 ? `${payload.text.slice(0, 117)}...` : payload.text,
+      text: lines.join('\n\n'),
+      html: batch.notifications.map(n =>
+        `<p><strong style="color:${n.resolvedAt ? RESOLVED_COLOR : SEVERITY_COLORS[n.severity]}">${escapeHtml(n.title)}</strong><br>${escapeHtml(n.message)}</p>`
+      ).join(''),
+      accountId: 'notifications',
+      accountAgeInDays: 365,
+      tags: ['notification'],
+    });
+  }
+}
+
+/**
+ * In-app channel - writes entries to the activity feed
+ */
+export class ActivityFeedChannel implements NotificationChannel {
+  readonly type = 'in_app' as const;
+
+  constructor(private feed: NotificationFeedStore) {}
+
+  async send(batch: NotificationBatch): Promise<void> {
+    await this.feed.insert(batch.notifications.map(n => ({
+      userId: batch.route.userId,
+      severity: n.severity,
+      title: batch.escalation ? `Escalated: ${n.title}` : n.title,
+      message: n.message,
+      source: n.source,
+      actionCommand: n.actionCommand,
+      resolved: Boolean(n.resolvedAt),
+      createdAt: n.timestamp,
+      metadata: n.metadata,
+    })));
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// ============================================================================
+// NOTIFICATION DISPATCHER
+// ============================================================================
+
+/**
+ * Notification Dispatcher
+ *
+ * Matches notifications against routing rules, batches them per route and
+ * delivers through the configured channels.
+ */
+export class NotificationDispatcher {
+  private channels: Map<NotificationChannelType, NotificationChannel> = new Map();
+  private routes: Map<string, NotificationRoute> = new Map();
+  private store?: NotificationStore;
+  private loaded: Promise<void> | null = null;
+  private dedupWindowMs: number;
+  private groupWindowMs: number;
+  private escalation: EscalationStep[];
+  private anomalySeverities: AnomalyResult['severity'][];
+  private flushIntervalMs: number;
+  private now: () => Date;
+
+  // Delivery state
+  private pending: Map<string, { notifications: Notification[]; firstAt: Date }> = new Map();
+  private delivered: Map<string, { sentAt: Date; severity: AlertSeverity }> = new Map();
+  private open: Map<string, { notification: Notification; openedAt: Date; escalated: number }> = new Map();
+  private stats = { received: 0, deduplicated: 0, delivered: 0, failed: 0, escalated: 0 };
+  private flushTimer?: ReturnType<typeof setInterval>;
+
+  constructor(config: NotificationDispatcherConfig = {}) {
+    for (const channel of config.channels ?? []) {
+      this.channels.set(channel.type, channel);
+    }
+    for (const route of config.routes ?? []) {
+      this.routes.set(route.id, route);
+    }
+    this.store = config.store;
+    this.dedupWindowMs = config.dedupWindowMs ?? DEFAULT_DEDUP_WINDOW_MS;
+    this.groupWindowMs = config.groupWindowMs ?? DEFAULT_GROUP_WINDOW_MS;
+    this.escalation = [...(config.escalation ?? [])].sort((a, b) => a.afterMs - b.afterMs);
+    this.anomalySeverities = config.anomalySeverities ?? ['critical'];
+    this.flushIntervalMs = config.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+    this.now = config.now ?? (() => new Date());
+  }
+
+  /**
+   * Set the routing rule store (routes are reloaded on next use)
+   */
+  setStore(store: NotificationStore): void {
+    this.store = store;
+    this.loaded = null;
+  }
+
+  /**
+   * Register (or replace) a channel
+   */
+  setChannel(channel: NotificationChannel): void {
+    this.channels.set(channel.type, channel);
+  }
+
+  /**
+   * Add or replace a routing rule
+   */
+  addRoute(route: NotificationRoute): void {
+    this.routes.set(route.id, route);
+  }
+
+  /**
+   * Remove a routing rule
+   */
+  removeRoute(routeId: string): boolean {
+    this.pending.delete(routeId);
+    return this.routes.delete(routeId);
+  }
+
+  /**
+   * Get routing rules, optionally for one user
+   */
+  getRoutes(userId?: string): NotificationRoute[] {
+    return Array.from(this.routes.values()).filter(r => !userId || r.userId === userId);
+  }
+
+  /**
+   * Dispatch a notification
+   *
+   * Returns deliveries made immediately (critical, or grouping disabled);
+   * batched notifications are delivered by flush().
+   */
+  async notify(notification: Notification): Promise<DeliveryResult[]> {
+    await this.ensureLoaded();
+    const now = this.now();
+    this.stats.received++;
+
+    if (notification.resolvedAt) {
+      this.open.delete(notification.key);
+      // Nothing to resolve if the firing notification was never sent
+      if (!this.delivered.delete(notification.key)) return [];
+    } else {
+      const previous = this.delivered.get(notification.key);
+      if (
+        previous &&
+        now.getTime() - previous.sentAt.getTime() < this.dedupWindowMs &&
+        SEVERITY_RANK[notification.severity] <= SEVERITY_RANK[previous.severity]
+      ) {
+        this.stats.deduplicated++;
+        return [];
+      }
+
+      this.delivered.set(notification.key, { sentAt: now, severity: notification.severity });
+      if (notification.resolvable && !this.open.has(notification.key)) {
+        this.open.set(notification.key, { notification, openedAt: now, escalated: 0 });
+      }
+    }
+
+    for (const route of this.matchRoutes(notification)) {
+      const batch = this.pending.get(route.id) ?? { notifications: [], firstAt: now };
+      batch.notifications.push(notification);
+      this.pending.set(route.id, batch);
+    }
+
+    // Critical notifications do not wait for the grouping window
+    const critical = notification.severity === 'critical' && !notification.resolvedAt;
+    return this.groupWindowMs === 0 || critical ? this.flush() : [];
+  }
+
+  /**
+   * Dispatch a QueueMonitor alert (firing or resolved)
+   */
+  notifyAlert(alert: Alert): Promise<DeliveryResult[]> {
+    return this.notify(alertToNotification(alert));
+  }
+
+  /**
+   * Dispatch anomalies at the configured severities
+   */
+  async notifyAnomalies(anomalies: AnomalyResult[]): Promise<DeliveryResult[]> {
+    const results: DeliveryResult[] = [];
+    for (const anomaly of anomalies) {
+      if (!this.anomalySeverities.includes(anomaly.severity)) continue;
+      results.push(...await this.notify(anomalyToNotification(anomaly)));
+    }
+    return results;
+  }
+
+  /**
+   * Forward a monitor's alerts to this dispatcher
+   */
+  attach(monitor: Pick<QueueMonitor, 'subscribe'>): () => void {
+    return monitor.subscribe(alert => {
+      this.notifyAlert(alert).catch(error => {
+        console.error('notifications dispatch error:', error);
+      });
+    });
+  }
+
+  /**
+   * Deliver batches whose grouping window has elapsed or that hold a
+   * critical notification (outside quiet hours) and escalate alerts that
+   * stayed unresolved
+   */
+  async flush(): Promise<DeliveryResult[]> {
+    const now = this.now();
+    const results: DeliveryResult[] = [];
+
+    for (const [routeId, batch] of this.pending) {
+      const route = this.routes.get(routeId);
+      if (!route) {
+        this.pending.delete(routeId);
+        continue;
+      }
+      const hasCritical = batch.notifications.some(n => n.severity === 'critical' && !n.resolvedAt);
+      if (!hasCritical && now.getTime() - batch.firstAt.getTime() < this.groupWindowMs) continue;
+      if (route.quietHours && !hasCritical && isQuietHours(route.quietHours, now)) continue;
+
+      this.pending.delete(routeId);
+      results.push(await this.deliver({ route, notifications: batch.notifications }));
+    }
+
+    results.push(...await this.escalate(now));
+    this.prune(now);
+
+    return results;
+  }
+
+  /**
+   * Flush periodically
+   */
+  start(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setInterval(() => {
+      this.flush().catch(error => {
+        console.error('notifications flush error:', error);
+      });
+    }, this.flushIntervalMs);
+    this.flushTimer.unref?.();
+  }
+
+  /**
+   * Stop periodic flushing
+   */
+  stop(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+  }
+
+  /**
+   * Get dispatcher statistics
+   */
+  getStats(): NotificationStats {
+    let pending = 0;
+    for (const batch of this.pending.values()) pending += batch.notifications.length;
+    return { ...this.stats, pending };
+  }
+
+  // Private helper methods
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.store) return Promise.resolve();
+    if (!this.loaded) {
+      const store = this.store;
+      this.loaded = store.loadRoutes().then(routes => {
+        for (const route of routes) this.routes.set(route.id, route);
+      }).catch(error => {
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  private matchRoutes(notification: Notification): NotificationRoute[] {
+    return Array.from(this.routes.values()).filter(route =>
+      route.enabled !== false &&
+      SEVERITY_RANK[notification.severity] >= SEVERITY_RANK[route.minSeverity ?? 'warning'] &&
+      (!route.sources || route.sources.includes(notification.source)) &&
+      (!route.components || (notification.component !== undefined && route.components.includes(notification.component)))
+    );
+  }
+
+  private async escalate(now: Date): Promise<DeliveryResult[]> {
+    const results: DeliveryResult[] = [];
+
+    for (const entry of this.open.values()) {
+      const age = now.getTime() - entry.openedAt.getTime();
+
+      while (entry.escalated < this.escalation.length && age >= this.escalation[entry.escalated].afterMs) {
+        const step = this.escalation[entry.escalated];
+        entry.escalated++;
+
+        if (SEVERITY_RANK[entry.notification.severity] < SEVERITY_RANK[step.minSeverity ?? 'error']) continue;
+
+        // Escalations ignore severity filters and quiet hours
+        const routes = Array.from(this.routes.values())
+          .filter(r => r.enabled !== false && step.userIds.includes(r.userId));
+        for (const route of routes) {
+          const result = await this.deliver({ route, notifications: [entry.notification], escalation: entry.escalated });
+          if (result.success) this.stats.escalated++;
+          results.push(result);
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private async deliver(batch: NotificationBatch): Promise<DeliveryResult> {
+    const { route } = batch;
+    const result: DeliveryResult = {
+      routeId: route.id,
+      userId: route.userId,
+      channel: route.channel,
+      count: batch.notifications.length,
+      success: false,
+      escalation: batch.escalation,
+    };
+
+    const channel = this.channels.get(route.channel);
+    if (!channel) {
+      this.stats.failed++;
+      return { ...result, error: `No ${route.channel} channel configured` };
+    }
+
+    try {
+      await channel.send(batch);
+      this.stats.delivered++;
+      return { ...result, success: true };
+    } catch (error) {
+      this.stats.failed++;
+      return { ...result, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private prune(now: Date): void {
+    for (const [key, entry] of this.delivered) {
+      if (now.getTime() - entry.sentAt.getTime() >= this.dedupWindowMs && !this.open.has(key)) {
+        this.delivered.delete(key);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+/** In-memory feed (default; useful for testing) */
+export class InMemoryNotificationFeed implements NotificationFeedStore {
+  entries: NotificationFeedEntry[] = [];
+
+  async insert(entries: NotificationFeedEntry[]): Promise<void> {
+    this.entries.push(...entries);
+  }
+}
+
+/** notification_routes row */
+interface NotificationRouteRow {
+  id: string;
+  user_id: string;
+  channel: NotificationChannelType;
+  target: string | null;
+  min_severity: AlertSeverity | null;
+  sources: string[] | null;
+  components: string[] | null;
+  quiet_hours: QuietHours | null;
+  enabled: boolean;
+}
+
+/**
+ * Loads routing rules from Supabase
+ */
+export class SupabaseNotificationStore implements NotificationStore {
+  constructor(private client: SupabaseClient) {}
+
+  async loadRoutes(): Promise<NotificationRoute[]> {
+    const { data, error } = await this.client
+      .from('notification_routes')
+      .select('id, user_id, channel, target, min_severity, sources, components, quiet_hours, enabled');
+
+    if (error) throw error;
+    return ((data ?? []) as NotificationRouteRow[]).map(row => ({
+      id: row.id,
+      userId: row.user_id,
+      channel: row.channel,
+      target: row.target ?? undefined,
+      minSeverity: row.min_severity ?? undefined,
+      sources: row.sources ?? undefined,
+      components: row.components ?? undefined,
+      quietHours: row.quiet_hours ?? undefined,
+      enabled: row.enabled,
+    }));
+  }
+}
+
+/**
+ * Writes in-app notifications to Supabase
+ */
+export class SupabaseNotificationFeed implements NotificationFeedStore {
+  constructor(private client: SupabaseClient) {}
+
+  async insert(entries: NotificationFeedEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const { error } = await this.client
+      .from('notifications')
+      .insert(entries.map(entry => ({
+        user_id: entry.userId,
+        severity: entry.severity,
+        title: entry.title,
+        message: entry.message,
+        source: entry.source,
+        action_command: entry.actionCommand ?? null,
+        resolved: entry.resolved,
+        metadata: entry.metadata ?? {},
+        created_at: entry.createdAt.toISOString(),
+      })));
+
+    if (error) throw error;
+  }
+}
+
+// ============================================================================
+// FACTORY FUNCTIONS
+// ============================================================================
+
+/** Singleton instance */
+let globalDispatcher: NotificationDispatcher | null = null;
+
+/**
+ * Get or create the global notification dispatcher, flushing periodically
+ *
+ * Defaults to webhook and in-memory in-app channels, plus an email channel
+ * on the configured provider when NOTIFICATION_FROM_EMAIL is set.
+ */
+export function getNotificationDispatcher(config?: NotificationDispatcherConfig): NotificationDispatcher {
+  if (!globalDispatcher) {
+    const from = process.env.NOTIFICATION_FROM_EMAIL;
+    globalDispatcher = new NotificationDispatcher({
+      channels: [
+        new WebhookChannel(),
+        new ActivityFeedChannel(new InMemoryNotificationFeed()),
+        ...(from ? [new EmailNotificationChannel({ provider: createEmailProvider(), from })] : []),
+      ],
+      ...config,
+    });
+    globalDispatcher.start();
+  }
+  return globalDispatcher;
+}
+
+/**
+ * Reset the global notification dispatcher (useful for testing)
+ */
+export function resetNotificationDispatcher(): void {
+  globalDispatcher?.stop();
+  globalDispatcher = null;
+}
@@ -1,15 +1,42 @@
 /**
  * Personalization Engine - Token Replacement System
  * 
- * Handles personalization tokens for email templates:
+ * Handles personalization tokens for email templates (Handlebars-compatible,
+ * parsed by template-parser.ts):
  * - Basic tokens: {{first_name}}, {{company}}, etc.
  * - Nested access: {{company.name}}
  * - Fallback values: {{first_name|there}}
- * - Conditional blocks: {{#if first_name}}...{{/if}}
- * - Date formatting: {{date_format}}
- * - HTML escaping for security
+ * - Blocks: {{#if}} / {{#unless}} / {{#each}} / {{#with}}, nested, with {{else}}
+ * - Helpers: eq, ne, gt, gte, lt, lte, contains, and, or, not, capitalize,
+ *   upper, lower, date, pluralize, join, length
+ * - Date formatting: {{current_date}}, {{date value "MMM d"}}
+ * - HTML escaping for security ({{{raw}}} opts out)
+ * - Spintax {Hi|Hey|Hello}, picked deterministically per recipient seed
+ * - Line/column errors from validateTemplate
+ * - Open/click tracking injection for outgoing HTML
  */
 
+import { injectTracking, type TrackingOptions } from './email-tracking';
+import {
+  parseTemplate,
+  parseTagExpression,
+  positionFinder,
+  tokenize,
+  analyzeTemplate,
+  collectRootPaths,
+  countPermutations,
+  TemplateSyntaxError,
+  type Expression,
+  type PathExpression,
+  type TemplateAst,
+  type TemplateNode,
+  type MustacheNode,
+  type BlockNode,
+  type SpinNode,
+  type HelperSignature,
+  type TemplateDiagnostic,
+} from './template-parser';
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -17,10 +44,11 @@
 export interface ProspectData {
   first_name?: string;
   last_name?: string;
-  company?: string | { name?: string };
+  company?: string | { name?: string; [key: string]: unknown };
   title?: string;
   industry?: string;
-  tech_stack?: string;
+  /** Comma-separated string or list; both work with {{#each tech_stack}} */
+  tech_stack?: string | string[];
   // Additional fields
   [key: string]: unknown;
 }
@@ -29,6 +57,8 @@ export interface PersonalizationContext {
   prospect: ProspectData;
   days_since_research?: number;
   metadata?: Record<string, unknown>;
+  /** Spintax seed; the same seed always renders the same variant (default: prospect id / email) */
+  seed?: string;
 }
 
 export interface PersonalizationOptions {
@@ -40,6 +70,8 @@ export interface PersonalizationOptions {
   dateFormat?: string;
   /** Custom fallback values for specific tokens */
   customDefaults?: Record<string, string>;
+  /** Inject signed open/click tracking into the body (personalizeEmail only) */
+  tracking?: TrackingOptions;
 }
 
 export interface TokenParseResult {
@@ -58,6 +90,34 @@ export interface PersonalizationResult {
   warnings: string[];
 }
 
+/** Template helper: (eq a b), {{capitalize first_name}} */
+export interface TemplateHelper extends HelperSignature {
+  fn: (args: unknown[], hash: Record<string, unknown>, options: PersonalizationOptions) => unknown;
+}
+
+export interface TemplateValidationResult {
+  valid: boolean;
+  /** Messages, with line/column for syntax and helper errors */
+  errors: string[];
+  diagnostics: TemplateDiagnostic[];
+  /** Spintax variants one recipient can receive (0 when the template does not parse) */
+  permutations: number;
+}
+
+/** How much rendered emails differ across a batch of recipients */
+export interface VariationReport {
+  recipients: number;
+  uniqueSubjects: number;
+  uniqueBodies: number;
+  /** Share of recipients whose subject + body nobody else in the batch received (0-1) */
+  uniqueness: number;
+  /** Mean / max pairwise body similarity (word 3-gram Jaccard, 0-1) */
+  averageSimilarity: number;
+  maxSimilarity: number;
+}
+
+export { TemplateSyntaxError };
+
 // ============================================================================
 // DEFAULT VALUES
 // ============================================================================
@@ -72,6 +132,14 @@ const DEFAULT_FALLBACKS: Record<string, string> = {
   days_since_research: 'recently',
 };
 
+/**
+ * Whether a root token always renders something (built-in fallback or a
+ * generated value like current_date)
+ */
+export function hasDefaultValue(path: string, customDefaults: Record<string, string> = {}): boolean {
+  return path in customDefaults || path in DEFAULT_FALLBACKS || path === 'current_date' || path === 'day_of_week';
+}
+
 // ============================================================================
 // ESCAPE UTILITIES
 // ============================================================================
@@ -95,63 +163,67 @@ function escapeHtml(text: string): string {
 // TOKEN PARSING
 // ============================================================================
 
-const TOKEN_REGEX = /\{\{\s*([#\/?]?)([^}|\s]+)((?:\.[^}|\s]+)*)\s*(?:\|([^}]+))?\s*\}\}/g;
-const CONDITIONAL_REGEX = /\{\{\s*(#if|#unless|#each|\/if|\/unless|\/each)\s+([^}]+)\s*\}\}/g;
+/** Parsed templates keyed by source; sequences render the same few templates */
+const AST_CACHE = new Map<string, TemplateAst>();
+const AST_CACHE_LIMIT = 200;
 
 /**
- * Extract all tokens from a template
+ * Parse a template, reusing cached ASTs
+ *
+ * @throws TemplateSyntaxError
  */
-export function extractTokens(template: string): string[] {
-  const tokens = new Set<string>();
-  let match;
-
-  // Regular tokens
-  TOKEN_REGEX.lastIndex = 0;
-  while ((match = TOKEN_REGEX.exec(template)) !== null) {
-    const [, prefix, basePath, subPaths] = match;
-    if (!prefix || prefix === '/') {
-      const fullPath = basePath + (subPaths || '').replace(/\./g, '.');
-      tokens.add(fullPath);
+function getAst(template: string): TemplateAst {
+  let ast = AST_CACHE.get(template);
+  if (!ast) {
+    ast = parseTemplate(template);
+    if (AST_CACHE.size >= AST_CACHE_LIMIT) {
+      AST_CACHE.delete(AST_CACHE.keys().next().value!);
     }
+    AST_CACHE.set(template, ast);
   }
+  return ast;
+}
 
-  return Array.from(tokens);
+/**
+ * Extract all data paths a template reads from the prospect
+ * (values, helper arguments and block conditions)
+ *
+ * @throws TemplateSyntaxError
+ */
+export function extractTokens(template: string): string[] {
+  return collectRootPaths(getAst(template));
 }
 
 /**
  * Parse a token string into components
  */
 export function parseToken(token: string): TokenParseResult {
-  TOKEN_REGEX.lastIndex = 0;
-  const match = TOKEN_REGEX.exec(`{{${token}}}`);
-  
-  if (!match) {
-    return { raw: token, path: token, isConditional: false };
-  }
-
-  const [, prefix, basePath, subPaths, fallback] = match;
-  const fullPath = basePath + (subPaths || '').replace(/\./g, '.');
-
-  let conditionalType: 'if' | 'unless' | 'each' | undefined;
-  let closeTag = false;
+  const plain: TokenParseResult = { raw: token, path: token, isConditional: false, closeTag: false };
+
+  try {
+    const [tag] = tokenize(`{{${token}}}`);
+    if (!tag || tag.kind !== 'tag') return plain;
+
+    if (tag.tag === 'open' || tag.tag === 'close') {
+      const [name, ...rest] = tag.body.trim().split(/\s+/);
+      const conditionalType = name === 'if' || name === 'unless' || name === 'each' ? name : undefined;
+      return {
+        raw: token,
+        path: rest.join(' ') || name,
+        isConditional: true,
+        conditionalType,
+        closeTag: tag.tag === 'close',
+      };
+    }
 
-  if (prefix === '#') {
-    if (basePath === 'if') conditionalType = 'if';
-    else if (basePath === 'unless') conditionalType = 'unless';
-  } else if (prefix === '/') {
-    closeTag = true;
-    if (basePath === 'if') conditionalType = 'if';
-    else if (basePath === 'unless') conditionalType = 'unless';
+    const { expression, fallback } = parseTagExpression(tag.body, tag.bodyOffset, positionFinder(`{{${token}}}`), tag.loc);
+    const path = expression.type === 'path' ? expression.parts.join('.') || 'this'
+      : expression.type === 'call' ? expression.helper
+      : String(expression.value);
+    return { ...plain, path, fallback };
+  } catch {
+    return plain;
   }
-
-  return {
-    raw: token,
-    path: fullPath,
-    fallback,
-    isConditional: !!conditionalType || closeTag,
-    conditionalType,
-    closeTag,
-  };
 }
 
 // ============================================================================
@@ -236,117 +308,287 @@ function formatDate(date: Date, format: string): string {
 }
 
 // ============================================================================
-// CONDITIONAL PROCESSING
+// HELPERS
 // ============================================================================
 
-interface ConditionalBlock {
-  type: 'if' | 'unless';
-  path: string;
-  content: string;
-  startIndex: number;
-  endIndex: number;
+/**
+ * Loose equality: strict, or same string form ("3" == 3)
+ */
+function looseEquals(a: unknown, b: unknown): boolean {
+  return a === b || (a !== null && a !== undefined && b !== null && b !== undefined && String(a) === String(b));
+}
+
+function compareNumbers(a: unknown, b: unknown, op: (x: number, y: number) => boolean): boolean {
+  const x = a instanceof Date ? a.getTime() : Number(a);
+  const y = b instanceof Date ? b.getTime() : Number(b);
+  return a !== null && a !== '' && b !== null && b !== '' && !Number.isNaN(x) && !Number.isNaN(y) && op(x, y);
+}
+
+/**
+ * Arrays as-is; comma-separated strings ("React, Node.js") split into items
+ */
+function toList(value: unknown): unknown[] | null {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') return value.split(',').map(v => v.trim()).filter(Boolean);
+  return null;
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = value === 'now' ? new Date() : new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+function pluralizeWord(word: string): string {
+  if (/[^aeiou]y$/i.test(word)) return word.slice(0, -1) + 'ies';
+  if (/(s|x|z|ch|sh)$/i.test(word)) return word + 'es';
+  return word + 's';
+}
+
+/**
+ * Built-in template helpers
+ */
+export const TEMPLATE_HELPERS: Record<string, TemplateHelper> = {
+  eq: { minArgs: 2, maxArgs: 2, fn: ([a, b]) => looseEquals(a, b) },
+  ne: { minArgs: 2, maxArgs: 2, fn: ([a, b]) => !looseEquals(a, b) },
+  gt: { minArgs: 2, maxArgs: 2, fn: ([a, b]) => compareNumbers(a, b, (x, y) => x > y) },
+  gte: { minArgs: 2, maxArgs: 2, fn: ([a, b]) => compareNumbers(a, b, (x, y) => x >= y) },
+  lt: { minArgs: 2, maxArgs: 2, fn: ([a, b]) => compareNumbers(a, b, (x, y) => x < y) },
+  lte: { minArgs: 2, maxArgs: 2, fn: ([a, b]) => compareNumbers(a, b, (x, y) => x <= y) },
+  contains: {
+    minArgs: 2,
+    maxArgs: 2,
+    // Case-insensitive; lists (including comma-separated strings) match whole items
+    fn: ([haystack, needle]) => {
+      if (needle === null || needle === undefined || needle === '') return false;
+      const target = String(needle).toLowerCase();
+      if (Array.isArray(haystack)) return haystack.some(item => String(item).toLowerCase() === target);
+      if (typeof haystack === 'string') return haystack.toLowerCase().includes(target);
+      return false;
+    },
+  },
+  and: { minArgs: 2, fn: (args) => args.every(arg => isTruthy(arg)) },
+  or: { minArgs: 2, fn: (args) => args.some(arg => isTruthy(arg)) },
+  not: { minArgs: 1, maxArgs: 1, fn: ([value]) => !isTruthy(value) },
+  capitalize: {
+    minArgs: 1,
+    maxArgs: 1,
+    fn: ([value]) => {
+      const text = value === null || value === undefined ? '' : String(value);
+      return text.charAt(0).toUpperCase() + text.slice(1);
+    },
+  },
+  upper: { minArgs: 1, maxArgs: 1, fn: ([value]) => (value === null || value === undefined ? '' : String(value).toUpperCase()) },
+  lower: { minArgs: 1, maxArgs: 1, fn: ([value]) => (value === null || value === undefined ? '' : String(value).toLowerCase()) },
+  date: {
+    minArgs: 1,
+    maxArgs: 2,
+    fn: ([value, format], _hash, options) => {
+      const date = toDate(value);
+      if (!date) return '';
+      return formatDate(date, typeof format === 'string' ? format : options.dateFormat || 'MMMM d, yyyy');
+    },
+  },
+  pluralize: {
+    minArgs: 2,
+    maxArgs: 3,
+    // {{pluralize hiringRoles "role"}} → "roles"; counts lists by length
+    fn: ([count, singular, plural]) => {
+      const n = Array.isArray(count) ? count.length : Number(count);
+      const word = String(singular ?? '');
+      if (n === 1) return word;
+      return typeof plural === 'string' ? plural : pluralizeWord(word);
+    },
+  },
+  join: {
+    minArgs: 1,
+    maxArgs: 2,
+    fn: ([list, separator]) => (toList(list) ?? []).map(item => formatValue(item, { escapeHtml: false })).join(typeof separator === 'string' ? separator : ', '),
+  },
+  length: { minArgs: 1, maxArgs: 1, fn: ([list]) => toList(list)?.length ?? 0 },
+};
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/** Context frame pushed by #each / #with */
+interface RenderFrame {
+  value: unknown;
+  data: Record<string, unknown>;
+  parent: RenderFrame | null;
+}
+
+interface RenderState {
+  context: PersonalizationContext;
+  options: PersonalizationOptions;
+  seed: string;
+  replaced: Set<string>;
+  missing: Set<string>;
+  warnings: string[];
+}
+
+/**
+ * Handlebars truthiness: empty strings, lists, null, false and 0 are falsy
+ */
+function isTruthy(value: unknown, includeZero = false): boolean {
+  if (value === 0) return includeZero;
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== '' && value !== false && !Number.isNaN(value);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
 }
 
 /**
- * Find conditional blocks in template
+ * Resolve a root-level path, including the special tokens
  */
-function findConditionals(template: string): ConditionalBlock[] {
-  const blocks: ConditionalBlock[] = [];
-  const openRegex = /\{\{\s*#(if|unless)\s+([^}]+)\s*\}\}/g;
-  const closeRegex = /\{\{\s*\/(if|unless)\s*\}\}/g;
-
-  type Match = { index: number; type: 'open' | 'close'; tagType: 'if' | 'unless'; path?: string; length: number };
-  const matches: Match[] = [];
-
-  let match;
-  while ((match = openRegex.exec(template)) !== null) {
-    matches.push({
-      index: match.index,
-      type: 'open',
-      tagType: match[1] as 'if' | 'unless',
-      path: match[2].trim(),
-      length: match[0].length,
-    });
+function lookupRoot(path: string, state: RenderState): unknown {
+  if (path === 'days_since_research') return state.context.days_since_research;
+  if (path === 'current_date') return formatDate(new Date(), state.options.dateFormat || 'MMMM d, yyyy');
+  if (path === 'day_of_week') return DAYS[new Date().getDay()];
+  return getNestedValue(state.context.prospect, path);
+}
+
+/**
+ * Resolve a path; returns the root-level key when the path reads the prospect
+ */
+function resolvePath(path: PathExpression, frame: RenderFrame, state: RenderState): { value: unknown; rootKey?: string } {
+  if (path.data) {
+    if (path.parts[0] === 'root') {
+      const rest = path.parts.slice(1).join('.');
+      return rest ? { value: lookupRoot(rest, state), rootKey: rest } : { value: state.context.prospect };
+    }
+    for (let f: RenderFrame | null = frame; f; f = f.parent) {
+      if (path.parts[0] in f.data) return { value: f.data[path.parts[0]] };
+    }
+    return { value: undefined };
   }
 
-  while ((match = closeRegex.exec(template)) !== null) {
-    matches.push({
-      index: match.index,
-      type: 'close',
-      tagType: match[1] as 'if' | 'unless',
-      length: match[0].length,
-    });
+  let target = frame;
+  for (let i = 0; i < path.depth && target.parent; i++) target = target.parent;
+
+  const key = path.parts.join('.');
+  if (!target.parent) {
+    return key ? { value: lookupRoot(key, state), rootKey: key } : { value: state.context.prospect };
   }
+  return { value: key ? getNestedValue(target.value, key) : target.value };
+}
 
-  matches.sort((a, b) => a.index - b.index);
-
-  // Match opening and closing tags
-  const stack: Match[] = [];
-  for (const m of matches) {
-    if (m.type === 'open') {
-      stack.push(m);
-    } else if (m.type === 'close' && stack.length > 0) {
-      const open = stack.pop();
-      if (open && open.tagType === m.tagType) {
-        const closeMatch = template.match(/\{\{\s*\/(if|unless)\s*\}\}/);
-        if (closeMatch) {
-          const endIndex = template.indexOf(closeMatch[0], open.index) + closeMatch[0].length;
-          const fullMatch = template.slice(open.index, endIndex);
-          const contentMatch = fullMatch.match(/\}\}([\s\S]*?)\{\{\s*\//);
-          
-          blocks.push({
-            type: open.tagType,
-            path: open.path || '',
-            content: contentMatch ? contentMatch[1] : '',
-            startIndex: open.index,
-            endIndex,
-          });
-        }
+function evaluate(expression: Expression, frame: RenderFrame, state: RenderState): unknown {
+  switch (expression.type) {
+    case 'literal':
+      return expression.value;
+    case 'path':
+      return resolvePath(expression, frame, state).value;
+    case 'call': {
+      const helper = TEMPLATE_HELPERS[expression.helper];
+      if (!helper) {
+        throw new TemplateSyntaxError(`Unknown helper "${expression.helper}"`, expression.loc);
       }
+      const args = expression.params.map(p => evaluate(p, frame, state));
+      const hash = Object.fromEntries(Object.entries(expression.hash).map(([k, v]) => [k, evaluate(v, frame, state)]));
+      return helper.fn(args, hash, state.options);
     }
   }
+}
+
+function renderMustache(node: MustacheNode, frame: RenderFrame, state: RenderState): string {
+  const { expression } = node;
+  const escape = node.escaped && state.options.escapeHtml !== false;
+  let value: unknown;
+  let rootKey: string | undefined;
+
+  if (expression.type === 'path') {
+    ({ value, rootKey } = resolvePath(expression, frame, state));
+  } else {
+    value = evaluate(expression, frame, state);
+    // Track prospect fields passed straight to a helper
+    if (expression.type === 'call') {
+      for (const param of expression.params) {
+        if (param.type !== 'path') continue;
+        const resolved = resolvePath(param, frame, state);
+        if (resolved.rootKey) (isEmpty(resolved.value) ? state.missing : state.replaced).add(resolved.rootKey);
+      }
+    }
+  }
+
+  const key = rootKey ?? (expression.type === 'path' ? expression.original : undefined);
+
+  if (!isEmpty(value)) {
+    if (key) state.replaced.add(key);
+    return formatValue(value, { escapeHtml: escape });
+  }
+
+  if (key) state.missing.add(key);
+  const fallback = node.fallback
+    ?? (rootKey ? state.options.customDefaults?.[rootKey] ?? DEFAULT_FALLBACKS[rootKey] : undefined);
 
-  return blocks;
+  if (fallback !== undefined) return formatValue(fallback, { escapeHtml: escape });
+  if (expression.type !== 'path' || state.options.removeMissing) return '';
+  return `{{${expression.original}}}`;
 }
 
-/**
- * Process conditional blocks
- */
-function processConditionals(
-  template: string,
-  context: PersonalizationContext,
-  options: PersonalizationOptions
-): { text: string; warnings: string[] } {
-  let result = template;
-  const warnings: string[] = [];
-
-  // Process #if blocks
-  const ifRegex = /\{\{\s*#if\s+([^}]+)\s*\}\}([\s\S]*?)\{\{\s*\/if\s*\}\}/g;
-  result = result.replace(ifRegex, (match, path, content) => {
-    const value = getNestedValue(context.prospect, path.trim());
-    const hasValue = value !== undefined && value !== null && value !== '';
-    
-    if (hasValue) {
-      return content;
-    } else {
-      return '';
+function renderBlock(node: BlockNode, frame: RenderFrame, state: RenderState): string {
+  const value = evaluate(node.params[0], frame, state);
+  const inverse = () => (node.inverse ? renderNodes(node.inverse, frame, state) : '');
+
+  switch (node.helper) {
+    case 'if':
+    case 'unless': {
+      const truthy = isTruthy(value, isTruthy(node.hash.includeZero && evaluate(node.hash.includeZero, frame, state)));
+      return truthy === (node.helper === 'if') ? renderNodes(node.program, frame, state) : inverse();
     }
-  });
 
-  // Process #unless blocks (opposite of #if)
-  const unlessRegex = /\{\{\s*#unless\s+([^}]+)\s*\}\}([\s\S]*?)\{\{\s*\/unless\s*\}\}/g;
-  result = result.replace(unlessRegex, (match, path, content) => {
-    const value = getNestedValue(context.prospect, path.trim());
-    const hasValue = value !== undefined && value !== null && value !== '';
-    
-    if (!hasValue) {
-      return content;
-    } else {
-      return '';
+    case 'with':
+      return isTruthy(value) ? renderNodes(node.program, { value, data: {}, parent: frame }, state) : inverse();
+
+    case 'each': {
+      const list = toList(value);
+      let entries: Array<[string | number, unknown]>;
+      if (list) {
+        entries = list.map((item, i) => [i, item]);
+      } else if (value && typeof value === 'object' && !(value instanceof Date)) {
+        entries = Object.entries(value as Record<string, unknown>);
+      } else {
+        if (!isEmpty(value)) {
+          state.warnings.push(`{{#each}} at line ${node.loc.line}, column ${node.loc.column} expects a list`);
+        }
+        entries = [];
+      }
+
+      if (entries.length === 0) return inverse();
+      return entries.map(([key, item], i) => renderNodes(node.program, {
+        value: item,
+        data: { index: i, key, first: i === 0, last: i === entries.length - 1 },
+        parent: frame,
+      }, state)).join('');
     }
-  });
+  }
+}
+
+/**
+ * Pick a spintax option from the seed and the group's position, so each
+ * group varies independently but re-renders identically
+ */
+function renderSpin(node: SpinNode, frame: RenderFrame, state: RenderState): string {
+  const choice = hashString(`${state.seed}:${node.loc.offset}`) % node.options.length;
+  return renderNodes(node.options[choice], frame, state);
+}
 
-  return { text: result, warnings };
+function renderNodes(nodes: TemplateNode[], frame: RenderFrame, state: RenderState): string {
+  let out = '';
+  for (const node of nodes) {
+    if (node.type === 'text') out += node.value;
+    else if (node.type === 'mustache') out += renderMustache(node, frame, state);
+    else if (node.type === 'spin') out += renderSpin(node, frame, state);
+    else out += renderBlock(node, frame, state);
+  }
+  return out;
 }
 
 // ============================================================================
@@ -355,76 +597,38 @@ function processConditionals(
 
 /**
  * Personalize a template with prospect data
+ *
+ * @throws TemplateSyntaxError for malformed templates or unknown helpers
  */
 export function personalize(
   template: string,
   context: PersonalizationContext,
   options: PersonalizationOptions = {}
 ): PersonalizationResult {
-  const replaced: string[] = [];
-  const missing: string[] = [];
-  const warnings: string[] = [];
-
-  // First process conditionals
-  const conditionalResult = processConditionals(template, context, options);
-  let text = conditionalResult.text;
-  warnings.push(...conditionalResult.warnings);
-
-  // Then process regular tokens
-  TOKEN_REGEX.lastIndex = 0;
-  const tokens = extractTokens(template);
-
-  for (const tokenPath of tokens) {
-    // Skip conditional tokens - already processed
-    if (tokenPath.startsWith('#') || tokenPath.startsWith('/')) continue;
-
-    const regex = new RegExp(`\\{\\{\\s*${tokenPath.replace(/\./g, '\\.?')}[^}]*\\|?([^}]*)\\s*\\}\\}`, 'g');
-    
-    // Get value from context
-    let value: unknown;
-    let fallback: string | undefined;
-
-    // Parse the full token to get fallback
-    const tokenMatch = template.match(new RegExp(`\\{\\{\\s*${tokenPath}\\s*(?:\\|([^}]+))?\\s*\\}\\}`));
-    if (tokenMatch && tokenMatch[1]) {
-      fallback = tokenMatch[1].trim();
-    }
-
-    // Special tokens
-    if (tokenPath === 'days_since_research') {
-      value = context.days_since_research;
-    } else if (tokenPath === 'current_date') {
-      value = formatDate(new Date(), options.dateFormat || 'MMMM d, yyyy');
-    } else if (tokenPath === 'day_of_week') {
-      value = DAYS[new Date().getDay()];
-    } else {
-      value = getNestedValue(context.prospect, tokenPath);
-    }
-
-    // Apply fallback
-    if (value === undefined || value === null || value === '') {
-      fallback = fallback || options.customDefaults?.[tokenPath] || DEFAULT_FALLBACKS[tokenPath];
-      if (fallback !== undefined) {
-        value = fallback;
-        missing.push(tokenPath);
-      } else {
-        missing.push(tokenPath);
-        value = options.removeMissing ? '' : `{{${tokenPath}}}`;
-      }
-    } else {
-      replaced.push(tokenPath);
-    }
+  const state: RenderState = {
+    context,
+    options,
+    seed: context.seed ?? String(context.prospect.id ?? context.prospect.email ?? ''),
+    replaced: new Set(),
+    missing: new Set(),
+    warnings: [],
+  };
 
-    // Replace in text
-    const fullRegex = new RegExp(`\\{\\{\\s*${tokenPath.replace(/\./g, '\\.')}\\s*(?:\\|[^}]+)?\\s*\\}\\}`, 'g');
-    text = text.replace(fullRegex, formatValue(value, options));
-  }
+  const text = renderNodes(getAst(template).body, { value: context.prospect, data: {}, parent: null }, state);
 
-  return { text, replaced, missing, warnings };
+  return {
+    text,
+    replaced: Array.from(state.replaced),
+    missing: Array.from(state.missing),
+    warnings: state.warnings,
+  };
 }
 
 /**
- * Personalize subject and body together
+ * Personalize subject and body together.
+ *
+ * When `options.tracking` is set and a tracking secret is configured, links
+ * in the personalized body are rewritten and an open pixel is appended.
  */
 export function personalizeEmail(
   subject: string,
@@ -440,42 +644,44 @@ export function personalizeEmail(
 
   return {
     subject: subjectResult.text,
-    body: bodyResult.text,
+    body: options.tracking ? injectTracking(bodyResult.text, options.tracking) : bodyResult.text,
     tokens: allTokens,
     missing: allMissing,
   };
 }
 
 /**
- * Validate a template for required tokens
+ * Validate a template: syntax, helper usage and required tokens.
+ * Errors carry the line/column of the offending tag.
  */
 export function validateTemplate(
   template: string,
   requiredFields: string[] = []
-): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
-  const tokens = extractTokens(template);
-
-  for (const field of requiredFields) {
-    if (!tokens.includes(field)) {
-      errors.push(`Required field "${field}" not used in template`);
-    }
+): TemplateValidationResult {
+  const diagnostics: TemplateDiagnostic[] = [];
+  let ast: TemplateAst;
+
+  try {
+    ast = getAst(template);
+  } catch (error) {
+    if (!(error instanceof TemplateSyntaxError)) throw error;
+    diagnostics.push({ severity: 'error', message: error.message, line: error.line, column: error.column });
+    return { valid: false, errors: [error.message], diagnostics, permutations: 0 };
   }
 
-  // Check for unmatched conditional tags
-  const openIf = (template.match(/\{\{\s*#if\s+/g) || []).length;
-  const closeIf = (template.match(/\{\{\s*\/if\s*\}\}/g) || []).length;
-  if (openIf !== closeIf) {
-    errors.push(`Unmatched #if blocks: ${openIf} opened, ${closeIf} closed`);
+  for (const d of analyzeTemplate(ast, TEMPLATE_HELPERS)) {
+    diagnostics.push({ ...d, message: `${d.message} (line ${d.line}, column ${d.column})` });
   }
 
-  const openUnless = (template.match(/\{\{\s*#unless\s+/g) || []).length;
-  const closeUnless = (template.match(/\{\{\s*\/unless\s*\}\}/g) || []).length;
-  if (openUnless !== closeUnless) {
-    errors.push(`Unmatched #unless blocks: ${openUnless} opened, ${closeUnless} closed`);
+  const tokens = collectRootPaths(ast);
+  for (const field of requiredFields) {
+    if (!tokens.includes(field)) {
+      diagnostics.push({ severity: 'error', message: `Required field "${field}" not used in template`, line: 1, column: 1 });
+    }
   }
 
-  return { valid: errors.length === 0, errors };
+  const errors = diagnostics.filter(d => d.severity === 'error').map(d => d.message);
+  return { valid: errors.length === 0, errors, diagnostics, permutations: countPermutations(ast) };
 }
 
 /**
@@ -492,25 +698,119 @@ export function getPreviewData(): ProspectData {
   };
 }
 
+/** Synthetic recipients rendered when previewTemplate gets no batch */
+const PREVIEW_BATCH_SIZE = 20;
+
+/** Pairwise similarity is quadratic; larger batches are sampled */
+const MAX_VARIATION_SAMPLE = 200;
+
 /**
- * Preview a template with sample data
+ * Preview a template with sample data, plus a variation report across a
+ * batch of recipients (sample recipients with distinct seeds by default)
  */
 export function previewTemplate(
   subject: string,
   body: string,
-  options: PersonalizationOptions = {}
-): { subject: string; body: string; tokens: string[] } {
+  options: PersonalizationOptions = {},
+  batch?: PersonalizationContext[]
+): { subject: string; body: string; tokens: string[]; variation: VariationReport } {
   const context: PersonalizationContext = {
     prospect: getPreviewData(),
     days_since_research: 2,
   };
 
+  const recipients = batch ?? Array.from({ length: PREVIEW_BATCH_SIZE }, (_, i) => ({
+    ...context,
+    seed: `preview-${i + 1}`,
+  }));
+  const renderOptions = { ...options, tracking: undefined };
+  const renders = recipients.slice(0, MAX_VARIATION_SAMPLE).map(recipient => {
+    const email = personalizeEmail(subject, body, recipient, renderOptions);
+    return { subject: email.subject, body: email.body };
+  });
+
   return {
     ...personalizeEmail(subject, body, context, options),
-    tokens: extractTokens(subject + ' ' + body),
+    tokens: [...new Set([...extractTokens(subject), ...extractTokens(body)])],
+    variation: analyzeVariation(renders),
+  };
+}
+
+// ============================================================================
+// VARIATION
+// ============================================================================
+
+/**
+ * Uniqueness and pairwise similarity of rendered emails
+ */
+export function analyzeVariation(renders: Array<{ subject: string; body: string }>): VariationReport {
+  const counts = new Map<string, number>();
+  for (const r of renders) {
+    const key = `${r.subject}\u0000${r.body}`;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  const unique = Array.from(counts.values()).filter(c => c === 1).length;
+
+  const shingles = renders.map(r => wordShingles(r.body));
+  let total = 0;
+  let max = 0;
+  let pairs = 0;
+  for (let i = 0; i < shingles.length; i++) {
+    for (let j = i + 1; j < shingles.length; j++) {
+      const similarity = jaccard(shingles[i], shingles[j]);
+      total += similarity;
+      max = Math.max(max, similarity);
+      pairs++;
+    }
+  }
+
+  return {
+    recipients: renders.length,
+    uniqueSubjects: new Set(renders.map(r => r.subject)).size,
+    uniqueBodies: new Set(renders.map(r => r.body)).size,
+    uniqueness: renders.length ? round(unique / renders.length) : 0,
+    averageSimilarity: pairs ? round(total / pairs) : renders.length ? 1 : 0,
+    maxSimilarity: pairs ? round(max) : renders.length ? 1 : 0,
   };
 }
 
+/**
+ * Word 3-grams of the visible text (tags stripped)
+ */
+function wordShingles(text: string): Set<string> {
+  const words = text.replace(/<[^>]*>/g, ' ').toLowerCase().split(/[^\p{L}\p{N}']+/u).filter(Boolean);
+  const shingles = new Set<string>();
+  if (words.length < 3) {
+    if (words.length) shingles.add(words.join(' '));
+    return shingles;
+  }
+  for (let i = 0; i + 3 <= words.length; i++) shingles.add(words.slice(i, i + 3).join(' '));
+  return shingles;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * 32-bit FNV-1a; stable across processes, unlike Math.random
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
 // ============================================================================
 // EXPORTS
 // ============================================================================
@@ -521,6 +821,7 @@ export default {
   extractTokens,
   validateTemplate,
   previewTemplate,
+  analyzeVariation,
   getPreviewData,
   getNestedValue,
   parseToken,
@@ -6,12 +6,21 @@
  * - Processing rate tracking
  * - Error rate analysis
  * - Health check endpoints
- * - Alert generation
+ * - Persisted metric history (see metrics-store.ts)
+ * - Rule-based alerting (see alert-rules.ts)
  */
 
 import type { EmailQueueService } from './email-queue';
-import type { EmailRateLimiter } from './rate-limiter';
+import type { EmailRateLimiter, RecipientProvider, DeferralKind } from './rate-limiter';
 import type { EmailProcessor } from './email-processor';
+import type { SenderPool, MailboxStatus } from './sender-pool';
+import { createMetricsStore } from './metrics-store';
+import type { MetricsStore, MetricSample } from './metrics-store';
+import { AlertRuleEngine } from './alert-rules';
+import type { AlertRule, AlertNotification } from './alert-rules';
+import { renderOpenMetrics } from './metrics-registry';
+import type { MetricFamily } from './metrics-registry';
+import { getNotificationDispatcher } from './notifications';
 
 // ============================================================================
 // TYPES
@@ -73,6 +82,8 @@ export interface Alert {
   message: string;
   timestamp: Date;
   resolvedAt?: Date;
+  /** Set for alerts raised by an alert rule */
+  ruleId?: string;
   metadata?: Record<string, unknown>;
 }
 
@@ -113,6 +124,34 @@ export interface DomainRateMetrics {
   tier: string;
   maxDaily: number;
   utilization: number; // 0-1
+  /** Rate limiter account key */
+  accountId?: string;
+  /** Set for mailboxes managed by the sender pool */
+  mailbox?: {
+    id: string;
+    email: string;
+    status: MailboxStatus;
+    pausedReason: string | null;
+    warmupDay: number;
+    campaignIds: string[];
+  };
+}
+
+/** Recipient domain / provider throttle metrics */
+export interface DestinationMetrics {
+  scope: 'domain' | 'provider';
+  name: string;
+  provider: RecipientProvider;
+  sentThisHour: number;
+  sentThisMinute: number;
+  totalSent: number;
+  /** Null when the destination has no window limit (consumer domains) */
+  maxPerHour: number | null;
+  utilization: number; // 0-1
+  deferrals: number;
+  consecutiveDeferrals: number;
+  backoffUntil: Date | null;
+  lastDeferral: { code: number; kind: DeferralKind; at: Date } | null;
 }
 
 /** Monitor configuration */
@@ -129,7 +168,13 @@ export interface MonitorConfig {
   latencyThresholdMs: number;
   /** Alert threshold - rate limit utilization */
   rateLimitUtilization: number;
-  /** Callback for alerts */
+  /** Sender pool whose mailboxes are reported in domain metrics */
+  senderPool?: SenderPool;
+  /** Persisted metric history (defaults to createMetricsStore()) */
+  metricsStore?: MetricsStore;
+  /** Alert rules (defaults to createDefaultAlertRules() with the thresholds above) */
+  alertRules?: AlertRule[];
+  /** Callback for alerts (resolve notifications carry resolvedAt) */
   onAlert?: (alert: Alert) => void;
   /** Callback for metrics */
   onMetrics?: (metrics: SystemMetrics) => void;
@@ -143,10 +188,11 @@ export interface SystemMetrics {
   activeAlerts: Alert[];
   health: HealthCheck[];
   domainMetrics: DomainRateMetrics[];
+  destinationMetrics: DestinationMetrics[];
 }
 
 /** Time window for metrics aggregation */
-export type TimeWindow = '1m' | '5m' | '15m' | '1h' | '6h' | '24h';
+export type TimeWindow = '1m' | '5m' | '15m' | '1h' | '6h' | '24h' | '7d' | '30d';
 
 // ============================================================================
 // CONSTANTS
@@ -170,8 +216,23 @@ const WINDOW_DURATIONS: Record<TimeWindow, number> = {
   '1h': 60 * 60 * 1000,
   '6h': 6 * 60 * 60 * 1000,
   '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
 };
 
+/** Series written by the monitor on every sample */
+export const MONITOR_SERIES = {
+  QUEUE_DEPTH: 'email_queue_depth',
+  QUEUE_WAITING: 'email_queue_waiting',
+  THROUGHPUT: 'email_throughput',
+  ERROR_RATE: 'email_error_rate',
+  LATENCY: 'email_latency_ms',
+  RATE_LIMIT_UTILIZATION: 'email_rate_limit_utilization',
+} as const;
+
+/** How often old metrics are pruned from the store */
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
 // ============================================================================
 // QUEUE MONITOR
 // ============================================================================
@@ -194,9 +255,14 @@ export class QueueMonitor {
   private errorCount: MetricPoint[] = [];
   private queueDepths: Map<string, MetricPoint[]> = new Map();
   
+  private pendingLatency: MetricPoint[] = [];
+  private metricsStore: MetricsStore;
+  private lastPruneAt = 0;
+  
   // Alerting
   private activeAlerts: Map<string, Alert> = new Map();
   private eventListeners: Set<(event: Alert) => void> = new Set();
+  private alertEngine: AlertRuleEngine;
   
   // Sampling
   private sampleInterval?: NodeJS.Timeout;
@@ -220,6 +286,18 @@ export class QueueMonitor {
       ...DEFAULT_CONFIG,
       ...config,
     };
+    
+    this.metricsStore = this.config.metricsStore ?? createMetricsStore();
+    this.alertEngine = new AlertRuleEngine({
+      rules: this.config.alertRules ?? createDefaultAlertRules(this.config),
+    });
+  }
+
+  /**
+   * Get the alert rule engine (rules, silences, rule status)
+   */
+  getAlertEngine(): AlertRuleEngine {
+    return this.alertEngine;
   }
 
   /**
@@ -273,16 +351,28 @@ export class QueueMonitor {
   }
 
   /**
-   * Resolve alert
+   * Resolve alert and notify subscribers
    */
   resolveAlert(alertId: string): void {
     const alert = this.activeAlerts.get(alertId);
     if (alert) {
+      this.alertEngine.resolve(alertId);
       alert.resolvedAt = new Date();
       this.activeAlerts.delete(alertId);
+      this.emitAlert(alert);
     }
   }
 
+  /**
+   * Record a processing latency sample (ms)
+   */
+  recordLatency(durationMs: number): void {
+    const point = { timestamp: new Date(), value: durationMs };
+    this.latency.push(point);
+    this.pendingLatency.push(point);
+    this.pruneMetrics(this.latency);
+  }
+
   /**
    * Start monitoring
    */
@@ -331,11 +421,21 @@ export class QueueMonitor {
     let totalFailed = 0;
     let totalWaiting = 0;
     
+    const samples: MetricSample[] = [];
+    
     for (const [name, queueStats] of Object.entries(stats)) {
       totalWaiting += queueStats.waiting;
       totalProcessed += queueStats.completed;
       totalFailed += queueStats.failed;
       
+      samples.push({
+        series: MONITOR_SERIES.QUEUE_DEPTH,
+        type: 'gauge',
+        timestamp: now,
+        value: queueStats.waiting + queueStats.active,
+        labels: { queue: name },
+      });
+      
       // Track queue depth
       if (!this.queueDepths.has(name)) {
         this.queueDepths.set(name, []);
@@ -365,8 +465,29 @@ export class QueueMonitor {
     this.pruneMetrics(this.throughput);
     this.pruneMetrics(this.errorCount);
     
-    // Check for alerts
-    this.checkAlerts(totalWaiting, errorRate, throughput);
+    const utilization = this.getDomainMetrics().reduce((max, d) => Math.max(max, d.utilization), 0);
+    samples.push(
+      { series: MONITOR_SERIES.QUEUE_WAITING, type: 'gauge', timestamp: now, value: totalWaiting },
+      { series: MONITOR_SERIES.THROUGHPUT, type: 'gauge', timestamp: now, value: throughput },
+      { series: MONITOR_SERIES.ERROR_RATE, type: 'gauge', timestamp: now, value: errorRate },
+      { series: MONITOR_SERIES.RATE_LIMIT_UTILIZATION, type: 'gauge', timestamp: now, value: utilization },
+      ...this.pendingLatency.map(p => ({ ...p, series: MONITOR_SERIES.LATENCY, type: 'gauge' as const })),
+    );
+    this.pendingLatency = [];
+    
+    // Evaluate alert rules
+    this.checkAlerts(samples);
+    
+    // Persist history
+    try {
+      await this.metricsStore.write(samples);
+      if (now.getTime() - this.lastPruneAt >= PRUNE_INTERVAL_MS) {
+        this.lastPruneAt = now.getTime();
+        await this.metricsStore.prune(now);
+      }
+    } catch (error) {
+      console.error('queue-monitor metrics store error:', error);
+    }
     
     // Emit metrics snapshot
     if (this.config.onMetrics) {
@@ -415,56 +536,22 @@ export class QueueMonitor {
   }
 
   /**
-   * Check for alert conditions
+   * Evaluate alert rules and deliver firing / resolved notifications
    */
-  private checkAlerts(queueDepth: number, errorRate: number, throughput: number): void {
-    // Queue depth warning
-    if (queueDepth > this.config.queueDepthWarning) {
-      const existingAlert = Array.from(this.activeAlerts.values()).find(
-        a => a.component === 'queue' && a.message.includes('depth')
-      );
-      
-      if (!existingAlert) {
-        this.createAlert(
-          'queue',
-          'warning',
-          `Queue depth exceeded ${this.config.queueDepthWarning} jobs (current: ${queueDepth})`,
-          { queueDepth, threshold: this.config.queueDepthWarning }
-        );
-      }
-    }
+  private checkAlerts(samples: MetricSample[]): AlertNotification[] {
+    const notifications = this.alertEngine.evaluate(samples);
     
-    // Error rate alert
-    if (errorRate > this.config.errorRateThreshold) {
-      const existingAlert = Array.from(this.activeAlerts.values()).find(
-        a => a.component === 'processor' && a.message.includes('error rate')
-      );
-      
-      if (!existingAlert) {
-        this.createAlert(
-          'processor',
-          'error',
-          `Error rate ${(errorRate * 100).toFixed(1)}% exceeds threshold ${(this.config.errorRateThreshold * 100).toFixed(1)}%`,
-          { errorRate, threshold: this.config.errorRateThreshold }
-        );
-      }
+    // Rule alerts stay active while firing, including silenced ones
+    for (const alert of this.activeAlerts.values()) {
+      if (alert.ruleId) this.activeAlerts.delete(alert.id);
     }
-    
-    // No throughput alert
-    if (throughput === 0 && queueDepth > 0) {
-      const existingAlert = Array.from(this.activeAlerts.values()).find(
-        a => a.component === 'processor' && a.message.includes('No throughput')
-      );
-      
-      if (!existingAlert) {
-        this.createAlert(
-          'processor',
-          'critical',
-          `No throughput detected with ${queueDepth} jobs in queue`,
-          { queueDepth, throughput }
-        );
-      }
+    for (const alert of this.alertEngine.getFiring()) {
+      this.activeAlerts.set(alert.id, alert);
     }
+    
+    notifications.forEach(({ alert }) => this.emitAlert(alert));
+    
+    return notifications;
   }
 
   /**
@@ -652,12 +739,36 @@ export class QueueMonitor {
   }
 
   /**
-   * Get domain rate metrics
+   * Get domain rate metrics (pool mailboxes use their warmup ramp)
    */
   getDomainMetrics(): DomainRateMetrics[] {
-    const tracked = this.rateLimiter.getAllTracked();
+    const mailboxes = this.config.senderPool?.getMailboxMetrics() ?? [];
+    const pooled = new Set(mailboxes.map(m => `${m.domain}:${m.accountId}`));
+    const tracked = this.rateLimiter.getAllTracked()
+      .filter(t => !pooled.has(`${t.domain}:${t.accountId}`));
     
-    return tracked.map(t => {
+    const poolMetrics: DomainRateMetrics[] = mailboxes.map(m => ({
+      domain: m.domain,
+      sentToday: m.sentToday,
+      sentThisHour: m.sentThisHour,
+      sentThisMinute: m.sentThisMinute,
+      failureCount: m.failureCount,
+      consecutiveFailures: m.consecutiveFailures,
+      tier: m.tier.description,
+      maxDaily: m.tier.maxPerDay,
+      utilization: m.sentToday / m.tier.maxPerDay,
+      accountId: m.accountId,
+      mailbox: {
+        id: m.mailboxId,
+        email: m.email,
+        status: m.status,
+        pausedReason: m.pausedReason,
+        warmupDay: m.warmupDay,
+        campaignIds: m.campaignIds,
+      },
+    }));
+    
+    return [...tracked.map(t => {
       const age = Math.ceil((Date.now() - t.firstSentAt.getTime()) / (1000 * 60 * 60 * 24));
       
       // Get tier based on account age
@@ -680,6 +791,34 @@ export class QueueMonitor {
         tier,
         maxDaily,
         utilization: t.sentToday / maxDaily,
+        accountId: t.accountId,
+      };
+    }), ...poolMetrics];
+  }
+
+  /**
+   * Get recipient domain and provider metrics (throttling and deferral backoff)
+   */
+  getDestinationMetrics(): DestinationMetrics[] {
+    return this.rateLimiter.getAllDestinations().map(d => {
+      const limit = this.rateLimiter.getDestinationLimit(d);
+      const backingOff = d.backoffUntil !== null && d.backoffUntil.getTime() > Date.now();
+      
+      return {
+        scope: d.scope,
+        name: d.name,
+        provider: d.provider,
+        sentThisHour: d.sentThisHour,
+        sentThisMinute: d.sentThisMinute,
+        totalSent: d.totalSent,
+        maxPerHour: limit?.maxPerHour ?? null,
+        utilization: limit ? d.sentThisHour / limit.maxPerHour : 0,
+        deferrals: d.deferrals,
+        consecutiveDeferrals: d.consecutiveDeferrals,
+        backoffUntil: backingOff ? d.backoffUntil : null,
+        lastDeferral: d.lastDeferral
+          ? { code: d.lastDeferral.code, kind: d.lastDeferral.kind, at: d.lastDeferral.at }
+          : null,
       };
     });
   }
@@ -698,6 +837,7 @@ export class QueueMonitor {
     
     const rates = this.getRateMetrics();
     const domainMetrics = this.getDomainMetrics();
+    const destinationMetrics = this.getDestinationMetrics();
     
     return {
       timestamp: new Date(),
@@ -706,6 +846,7 @@ export class QueueMonitor {
       activeAlerts: Array.from(this.activeAlerts.values()),
       health,
       domainMetrics,
+      destinationMetrics,
     };
   }
 
@@ -717,58 +858,82 @@ export class QueueMonitor {
   }
 
   /**
-   * Get historical metrics for a window
+   * Get historical metrics for a window from the metrics store
+   * (raw samples for short windows, rollups for longer ones)
    */
-  getHistoricalMetrics(window: TimeWindow): {
+  async getHistoricalMetrics(window: TimeWindow): Promise<{
     throughput: MetricPoint[];
     errors: MetricPoint[];
     latency: MetricPoint[];
-  } {
-    const cutoff = Date.now() - WINDOW_DURATIONS[window];
+  }> {
+    const to = new Date();
+    const from = new Date(to.getTime() - WINDOW_DURATIONS[window]);
     
-    return {
-      throughput: this.throughput.filter(m => m.timestamp.getTime() >= cutoff),
-      errors: this.errorCount.filter(m => m.timestamp.getTime() >= cutoff),
-      latency: this.latency.filter(m => m.timestamp.getTime() >= cutoff),
-    };
+    const [throughput, errors, latency] = await Promise.all([
+      this.metricsStore.query({ series: MONITOR_SERIES.THROUGHPUT, from, to }),
+      this.metricsStore.query({ series: MONITOR_SERIES.ERROR_RATE, from, to }),
+      this.metricsStore.query({ series: MONITOR_SERIES.LATENCY, from, to }),
+    ]);
+    
+    return { throughput, errors, latency };
   }
 
   /**
-   * Export metrics in Prometheus format
+   * Collect current metrics as exposition families (scraped by /api/metrics)
    */
-  async exportPrometheusMetrics(): Promise<string> {
-    const lines: string[] = [];
-    const timestamp = Date.now();
-    
+  async collectMetrics(): Promise<MetricFamily[]> {
+    const gauge = (name: string, help: string, samples: MetricFamily['samples']): MetricFamily =>
+      ({ name, help, type: 'gauge', samples });
+
     // Queue metrics
     const queues = await this.getQueueMetrics();
-    for (const q of queues) {
-      lines.push(`email_queue_depth{queue="${q.queueName}"} ${q.waiting} ${timestamp}`);
-      lines.push(`email_queue_active{queue="${q.queueName}"} ${q.active} ${timestamp}`);
-      lines.push(`email_queue_failed{queue="${q.queueName}"} ${q.failed} ${timestamp}`);
-    }
-    
+    const families: MetricFamily[] = [
+      gauge('email_queue_depth', 'Waiting jobs per queue', queues.map(q => ({ labels: { queue: q.queueName }, value: q.waiting }))),
+      gauge('email_queue_active', 'Active jobs per queue', queues.map(q => ({ labels: { queue: q.queueName }, value: q.active }))),
+      gauge('email_queue_failed', 'Failed jobs per queue', queues.map(q => ({ labels: { queue: q.queueName }, value: q.failed }))),
+    ];
+
     // Rate metrics
     const rates = this.getRateMetrics();
-    lines.push(`email_throughput ${rates.throughput} ${timestamp}`);
-    lines.push(`email_success_rate ${rates.successRate} ${timestamp}`);
-    lines.push(`email_error_rate ${rates.errorRate} ${timestamp}`);
-    
+    families.push(
+      gauge('email_throughput', 'Emails sent per minute (5m average)', [{ value: rates.throughput }]),
+      gauge('email_success_rate', 'Send success rate', [{ value: rates.successRate }]),
+      gauge('email_error_rate', 'Send error rate', [{ value: rates.errorRate }]),
+    );
+
     // Domain metrics
     const domains = this.getDomainMetrics();
-    for (const d of domains) {
-      lines.push(`email_domain_sent{domain="${d.domain}"} ${d.sentToday} ${timestamp}`);
-      lines.push(`email_domain_utilization{domain="${d.domain}"} ${d.utilization} ${timestamp}`);
-    }
-    
+    families.push(
+      gauge('email_domain_sent', 'Emails sent today per sending domain', domains.map(d => ({ labels: { domain: d.domain }, value: d.sentToday }))),
+      gauge('email_domain_utilization', 'Daily limit utilization per sending domain', domains.map(d => ({ labels: { domain: d.domain }, value: d.utilization }))),
+    );
+
+    // Destination metrics
+    const destinations = this.getDestinationMetrics().map(d => ({
+      labels: { scope: d.scope, name: d.name, provider: d.provider },
+      destination: d,
+    }));
+    families.push(
+      gauge('email_destination_sent_hour', 'Emails sent this hour per recipient domain / provider', destinations.map(d => ({ labels: d.labels, value: d.destination.sentThisHour }))),
+      gauge('email_destination_deferrals', 'Deferrals per recipient domain / provider', destinations.map(d => ({ labels: d.labels, value: d.destination.deferrals }))),
+      gauge('email_destination_backoff', 'Whether a recipient domain / provider is backing off', destinations.map(d => ({ labels: d.labels, value: d.destination.backoffUntil ? 1 : 0 }))),
+    );
+
     // Health metrics
     const health = await this.getHealthChecks();
-    for (const h of health) {
-      const healthValue = h.status === 'healthy' ? 1 : h.status === 'degraded' ? 0.5 : 0;
-      lines.push(`email_health{component="${h.component}"} ${healthValue} ${timestamp}`);
-    }
-    
-    return lines.join('\\n');
+    families.push(gauge('email_health', 'Component health (1 healthy, 0.5 degraded, 0 unhealthy)', health.map(h => ({
+      labels: { component: h.component },
+      value: h.status === 'healthy' ? 1 : h.status === 'degraded' ? 0.5 : 0,
+    }))));
+
+    return families;
+  }
+
+  /**
+   * Export metrics in Prometheus / OpenMetrics text format
+   */
+  async exportPrometheusMetrics(): Promise<string> {
+    return renderOpenMetrics(await this.collectMetrics());
   }
 
   /**
@@ -800,6 +965,64 @@ export class QueueMonitor {
   }
 }
 
+// ============================================================================
+// DEFAULT ALERT RULES
+// ============================================================================
+
+/**
+ * Build the default alert rules from monitor thresholds
+ */
+export function createDefaultAlertRules(
+  thresholds: Pick<MonitorConfig, 'queueDepthWarning' | 'errorRateThreshold' | 'latencyThresholdMs' | 'rateLimitUtilization'>
+): AlertRule[] {
+  return [
+    {
+      id: 'queue-depth',
+      component: 'queue',
+      severity: 'warning',
+      conditions: [{ metric: MONITOR_SERIES.QUEUE_WAITING, op: '>', threshold: thresholds.queueDepthWarning }],
+      message: 'Queue depth exceeded {{threshold}} jobs (current: {{value}})',
+    },
+    {
+      id: 'error-rate',
+      component: 'processor',
+      severity: 'error',
+      conditions: [{ metric: MONITOR_SERIES.ERROR_RATE, op: '>', threshold: thresholds.errorRateThreshold }],
+      message: 'Error rate {{value:pct}} exceeds threshold {{threshold:pct}}',
+    },
+    {
+      id: 'no-throughput',
+      component: 'processor',
+      severity: 'critical',
+      conditions: [
+        { metric: MONITOR_SERIES.THROUGHPUT, op: '==', threshold: 0 },
+        { metric: MONITOR_SERIES.QUEUE_WAITING, op: '>', threshold: 0 },
+      ],
+      message: `No throughput detected with {{values.${MONITOR_SERIES.QUEUE_WAITING}}} jobs in queue`,
+    },
+    {
+      id: 'latency',
+      component: 'processor',
+      severity: 'warning',
+      conditions: [{
+        metric: MONITOR_SERIES.LATENCY,
+        op: '>',
+        threshold: thresholds.latencyThresholdMs,
+        aggregation: 'avg',
+        windowMs: WINDOW_DURATIONS['5m'],
+      }],
+      message: 'Average processing latency {{value}}ms exceeds {{threshold}}ms',
+    },
+    {
+      id: 'rate-limit-utilization',
+      component: 'rate-limiter',
+      severity: 'warning',
+      conditions: [{ metric: MONITOR_SERIES.RATE_LIMIT_UTILIZATION, op: '>', threshold: thresholds.rateLimitUtilization }],
+      message: 'Rate limit utilization {{value:pct}} exceeds {{threshold:pct}}',
+    },
+  ];
+}
+
 // ============================================================================
 // FACTORY FUNCTIONS
 // ============================================================================
@@ -808,7 +1031,8 @@ export class QueueMonitor {
 let globalQueueMonitor: QueueMonitor | null = null;
 
 /**
- * Get or create the global queue monitor
+ * Get or create the global queue monitor, routing its alerts through the
+ * global notification dispatcher
  */
 export function getQueueMonitor(
   queueService: EmailQueueService,
@@ -818,6 +1042,7 @@ export function getQueueMonitor(
 ): QueueMonitor {
   if (!globalQueueMonitor) {
     globalQueueMonitor = new QueueMonitor(queueService, rateLimiter, processor, config);
+    getNotificationDispatcher().attach(globalQueueMonitor);
   }
   return globalQueueMonitor;
 }
@@ -9,9 +9,16 @@
  * - Day 31+: 1000/day
  * 
  * Tracks by domain and account to ensure safe warm-up patterns
- * and maintain sender reputation.
+ * and maintain sender reputation. Callers with their own warmup ramp
+ * (see lib/sender-pool.ts) can pass a tier instead of using RATE_TIERS.
+ * 
+ * Also throttles the receiving side:
+ * - Per-recipient-domain and per-MX-provider (Google, Microsoft, ...) limits
+ * - 4xx deferral parsing (421/450/451) into adaptive exponential backoff
  */
 
+import { promises as dns } from 'dns';
+
 /** Rate limit configuration for a specific tier */
 export interface RateLimitTier {
   /** Maximum emails per day */
@@ -63,6 +70,83 @@ export interface RateLimiterConfig {
   onLimitHit?: (domain: string, accountId: string, reason: string) => void;
   /** Hard limit enforcement - reject if true, queue if false */
   hardLimit: boolean;
+  /** Recipient domain/provider limits (merged over DEFAULT_DESTINATION_LIMITS) */
+  destinationLimits?: Partial<Omit<DestinationLimits, 'providers'>> & {
+    providers?: Partial<Record<RecipientProvider, DestinationLimit>>;
+  };
+  /** MX lookup used to detect the recipient provider (null disables lookups) */
+  resolveMx?: ((domain: string) => Promise<string[]>) | null;
+}
+
+/** Mailbox provider hosting a recipient domain */
+export type RecipientProvider =
+  | 'google'
+  | 'microsoft'
+  | 'yahoo'
+  | 'apple'
+  | 'proofpoint'
+  | 'mimecast'
+  | 'other';
+
+/** Where an email is going */
+export interface Destination {
+  /** Recipient domain (e.g. acme.com) */
+  domain: string;
+  /** Provider behind the domain's MX records */
+  provider: RecipientProvider;
+}
+
+/** Sending limits toward one destination (across all senders) */
+export interface DestinationLimit {
+  maxPerHour: number;
+  maxPerMinute: number;
+}
+
+/** Receiving-side limit configuration */
+export interface DestinationLimits {
+  /** Limit per business recipient domain (consumer domains use the provider limit) */
+  recipientDomain: DestinationLimit;
+  /** Limit per provider across every domain it hosts */
+  providers: Record<RecipientProvider, DestinationLimit>;
+  /** Backoff ceiling after repeated deferrals */
+  maxBackoffMs: number;
+}
+
+/** What kind of temporary rejection a provider returned */
+export type DeferralKind = 'greylisted' | 'rate_limited' | 'reputation' | 'temporary';
+
+/** Parsed 4xx deferral */
+export interface DeferralInfo {
+  code: number;
+  enhancedCode?: string;
+  kind: DeferralKind;
+  /** Retry hint from the response text, if any */
+  retryAfterMs?: number;
+  message: string;
+}
+
+/** Tracking record for a recipient domain or provider */
+export interface DestinationTracking {
+  scope: 'domain' | 'provider';
+  name: string;
+  provider: RecipientProvider;
+  sentThisHour: number;
+  sentThisMinute: number;
+  windowStartHour: Date;
+  windowStartMinute: Date;
+  totalSent: number;
+  deferrals: number;
+  consecutiveDeferrals: number;
+  backoffUntil: Date | null;
+  lastDeferral: (DeferralInfo & { at: Date }) | null;
+}
+
+/** Destination check result */
+export interface DestinationCheck {
+  allowed: boolean;
+  reason?: string;
+  retryAfterMs?: number;
+  destination: Destination;
 }
 
 /** Rate limit tiers based on account age in days */
@@ -79,6 +163,58 @@ export const RATE_TIERS: Record<number, RateLimitTier> = {
   Infinity: { maxPerDay: 1000, maxPerHour: 200, maxPerMinute: 50, description: 'Mature (Day 31+)' },
 };
 
+/** Default receiving-side limits */
+export const DEFAULT_DESTINATION_LIMITS: DestinationLimits = {
+  recipientDomain: { maxPerHour: 50, maxPerMinute: 5 },
+  providers: {
+    google: { maxPerHour: 600, maxPerMinute: 30 },
+    microsoft: { maxPerHour: 400, maxPerMinute: 20 },
+    yahoo: { maxPerHour: 200, maxPerMinute: 10 },
+    apple: { maxPerHour: 200, maxPerMinute: 10 },
+    proofpoint: { maxPerHour: 300, maxPerMinute: 15 },
+    mimecast: { maxPerHour: 300, maxPerMinute: 15 },
+    other: { maxPerHour: 1000, maxPerMinute: 60 },
+  },
+  maxBackoffMs: 4 * 60 * 60 * 1000,
+};
+
+/** First backoff per deferral kind (doubles on each consecutive deferral) */
+const DEFERRAL_BACKOFF_MS: Record<DeferralKind, number> = {
+  greylisted: 5 * 60 * 1000,
+  temporary: 2 * 60 * 1000,
+  rate_limited: 15 * 60 * 1000,
+  reputation: 30 * 60 * 1000,
+};
+
+/** Consumer mailbox domains and their provider */
+const CONSUMER_DOMAINS: Record<string, RecipientProvider> = {
+  'gmail.com': 'google',
+  'googlemail.com': 'google',
+  'outlook.com': 'microsoft',
+  'hotmail.com': 'microsoft',
+  'live.com': 'microsoft',
+  'msn.com': 'microsoft',
+  'yahoo.com': 'yahoo',
+  'ymail.com': 'yahoo',
+  'aol.com': 'yahoo',
+  'icloud.com': 'apple',
+  'me.com': 'apple',
+  'mac.com': 'apple',
+};
+
+/** MX host patterns per provider */
+const MX_PROVIDER_PATTERNS: Array<[RegExp, RecipientProvider]> = [
+  [/(^|\.)(google|googlemail)\.com$/, 'google'],
+  [/\.mail\.protection\.outlook\.com$|(^|\.)outlook\.com$|hotmail\.com$/, 'microsoft'],
+  [/yahoodns\.net$|(^|\.)yahoo\.com$|aol\.com$/, 'yahoo'],
+  [/(^|\.)icloud\.com$|(^|\.)me\.com$/, 'apple'],
+  [/pphosted\.com$|ppe-hosted\.com$/, 'proofpoint'],
+  [/mimecast\.com$/, 'mimecast'],
+];
+
+const MX_CACHE_TTL_MS = 60 * 60 * 1000;
+const MX_LOOKUP_TIMEOUT_MS = 2000;
+
 /** Event emitted when rate limit is checked */
 export interface RateLimitEvent {
   eventId: string;
@@ -122,6 +258,54 @@ export function extractDomain(email: string): string {
   return match?.[1]?.toLowerCase() || 'unknown';
 }
 
+/**
+ * Classify an MX host into a recipient provider
+ */
+export function classifyMxHost(host: string): RecipientProvider {
+  const normalized = host.toLowerCase().replace(/\.$/, '');
+  for (const [pattern, provider] of MX_PROVIDER_PATTERNS) {
+    if (pattern.test(normalized)) return provider;
+  }
+  return 'other';
+}
+
+/**
+ * Parse a temporary SMTP rejection (421/450/451/452) into a deferral.
+ * Only real SMTP replies count: the reply code the provider parsed, or a
+ * reply code at the start of the message. Ports, HTTP statuses and other
+ * 4xx numbers inside an error message are not deferrals.
+ * 
+ * @param response - SMTP reply or provider error message
+ * @param responseCode - Reply code from the provider (SmtpError.responseCode)
+ * @returns Deferral details, or null when the response is not a 4xx deferral
+ */
+export function parseDeferral(response: string, responseCode?: number): DeferralInfo | null {
+  const code = responseCode ?? Number(response.match(/^(4\d\d)[\s-]/)?.[1]);
+  if (!code || code < 400 || code >= 500) return null;
+
+  const enhancedCode = response.match(/\b(4\.\d{1,3}\.\d{1,3})\b/)?.[1];
+
+  let kind: DeferralKind = 'temporary';
+  if (/gr[ae]ylist/i.test(response)) {
+    kind = 'greylisted';
+  } else if (/reputation|complaint|unsolicited|spam|blocked|4\.7\.650|\bTS0[1-3]\b/i.test(response)) {
+    kind = 'reputation';
+  } else if (/rate|too many|throttl|limit|volume|server busy|4\.7\.28|4\.7\.500|4\.3\.2|4\.5\.3/i.test(response)) {
+    kind = 'rate_limited';
+  }
+
+  const hint = response.match(/(?:retry|try again)\s+(?:in|after)\s+(\d+)\s*(seconds?|secs?|minutes?|mins?|hours?|hrs?)\b/i);
+  const unitMs = hint ? (/^h/i.test(hint[2]) ? 3600000 : /^m/i.test(hint[2]) ? 60000 : 1000) : 0;
+
+  return {
+    code,
+    enhancedCode,
+    kind,
+    retryAfterMs: hint ? Number(hint[1]) * unitMs : undefined,
+    message: response.trim(),
+  };
+}
+
 /**
  * Rate Limiter for Email Sending
  * 
@@ -131,6 +315,9 @@ export function extractDomain(email: string): string {
 export class EmailRateLimiter {
   private config: RateLimiterConfig;
   private domainTracking: Map<string, DomainTracking> = new Map();
+  private destinationTracking: Map<string, DestinationTracking> = new Map();
+  private mxCache: Map<string, { provider: RecipientProvider; expiresAt: number }> = new Map();
+  private destinationLimits: DestinationLimits;
   private eventListeners: Set<(event: RateLimitEvent) => void> = new Set();
 
   constructor(config: Partial<RateLimiterConfig> = {}) {
@@ -139,6 +326,11 @@ export class EmailRateLimiter {
       useInMemory: true,
       ...config,
     };
+    this.destinationLimits = {
+      ...DEFAULT_DESTINATION_LIMITS,
+      ...config.destinationLimits,
+      providers: { ...DEFAULT_DESTINATION_LIMITS.providers, ...config.destinationLimits?.providers },
+    };
   }
 
   /**
@@ -261,14 +453,16 @@ export class EmailRateLimiter {
    * @param domain - Domain to check
    * @param accountId - Account identifier
    * @param accountAgeInDays - Age of the account in days
+   * @param tierOverride - Limits to apply instead of the age-based tier
    * @returns Rate limit check result
    */
   checkLimit(
     domain: string,
     accountId: string,
-    accountAgeInDays: number
+    accountAgeInDays: number,
+    tierOverride?: RateLimitTier
   ): RateLimitCheck {
-    const tier = getRateLimitTier(accountAgeInDays);
+    const tier = tierOverride ?? getRateLimitTier(accountAgeInDays);
     const tracking = this.getOrCreateTracking(domain, accountId);
     
     const result: RateLimitCheck = {
@@ -409,6 +603,16 @@ export class EmailRateLimiter {
     return Array.from(this.domainTracking.values());
   }
 
+  /**
+   * Reset the consecutive failure streak (e.g. when a paused sender is resumed)
+   */
+  resetFailures(domain: string, accountId: string): void {
+    const tracking = this.domainTracking.get(this.getTrackingKey(domain, accountId));
+    if (tracking) {
+      tracking.consecutiveFailures = 0;
+    }
+  }
+
   /**
    * Clear tracking data for a domain/account
    */
@@ -422,7 +626,220 @@ export class EmailRateLimiter {
    */
   clearAllTracking(): void {
     this.domainTracking.clear();
+    this.destinationTracking.clear();
+  }
+
+  /**
+   * Resolve the recipient domain and the provider hosting it
+   * 
+   * @param recipient - Recipient email address
+   * @returns Destination (provider is 'other' when MX lookup fails)
+   */
+  async resolveDestination(recipient: string): Promise<Destination> {
+    const domain = extractDomain(recipient);
+    const consumer = CONSUMER_DOMAINS[domain];
+    if (consumer) return { domain, provider: consumer };
+
+    const cached = this.mxCache.get(domain);
+    if (cached && cached.expiresAt > Date.now()) {
+      return { domain, provider: cached.provider };
+    }
+
+    const provider = await this.lookupProvider(domain);
+    this.mxCache.set(domain, { provider, expiresAt: Date.now() + MX_CACHE_TTL_MS });
+    return { domain, provider };
   }
+
+  /**
+   * Check whether a destination can take another email now
+   * 
+   * @param destination - Recipient domain and provider
+   * @returns Destination check result
+   */
+  checkDestination(destination: Destination): DestinationCheck {
+    const now = Date.now();
+    const scopes = this.destinationScopes(destination);
+
+    // Active deferral backoff wins over window limits
+    for (const { tracking } of scopes) {
+      if (tracking.backoffUntil && tracking.backoffUntil.getTime() > now) {
+        return {
+          allowed: false,
+          reason: `Backing off ${tracking.scope} ${tracking.name} after ${tracking.lastDeferral?.kind ?? 'deferral'} (${tracking.lastDeferral?.code ?? 4})`,
+          retryAfterMs: tracking.backoffUntil.getTime() - now,
+          destination,
+        };
+      }
+    }
+
+    for (const { tracking, limit } of scopes) {
+      if (!limit) continue;
+
+      if (tracking.sentThisHour >= limit.maxPerHour) {
+        return {
+          allowed: false,
+          reason: `Hourly limit for ${tracking.scope} ${tracking.name} exceeded: ${tracking.sentThisHour}/${limit.maxPerHour}`,
+          retryAfterMs: 60 * 60 * 1000 - (now - tracking.windowStartHour.getTime()),
+          destination,
+        };
+      }
+
+      if (tracking.sentThisMinute >= limit.maxPerMinute) {
+        return {
+          allowed: false,
+          reason: `Per-minute limit for ${tracking.scope} ${tracking.name} exceeded: ${tracking.sentThisMinute}/${limit.maxPerMinute}`,
+          retryAfterMs: 60 * 1000 - (now - tracking.windowStartMinute.getTime()),
+          destination,
+        };
+      }
+    }
+
+    return { allowed: true, destination };
+  }
+
+  /**
+   * Record a delivered email to a destination
+   */
+  recordDestinationSuccess(destination: Destination): void {
+    for (const { tracking } of this.destinationScopes(destination)) {
+      tracking.sentThisHour++;
+      tracking.sentThisMinute++;
+      tracking.totalSent++;
+      tracking.consecutiveDeferrals = 0;
+    }
+  }
+
+  /**
+   * Record a 4xx deferral and back off the destination.
+   * Greylisting and generic deferrals back off the recipient domain only;
+   * rate and reputation deferrals also back off the whole provider.
+   * 
+   * @returns Backoff applied (ms)
+   */
+  recordDeferral(destination: Destination, deferral: DeferralInfo): number {
+    const [domainScope, providerScope] = this.destinationScopes(destination);
+    const targets = deferral.kind === 'rate_limited' || deferral.kind === 'reputation'
+      ? [domainScope, providerScope]
+      : [domainScope];
+
+    let backoffMs = 0;
+    for (const { tracking } of targets) {
+      tracking.deferrals++;
+      tracking.consecutiveDeferrals++;
+      tracking.lastDeferral = { ...deferral, at: new Date() };
+
+      const exponential = DEFERRAL_BACKOFF_MS[deferral.kind] * Math.pow(2, tracking.consecutiveDeferrals - 1);
+      const delay = Math.min(
+        Math.max(exponential, deferral.retryAfterMs ?? 0),
+        this.destinationLimits.maxBackoffMs
+      );
+      tracking.backoffUntil = new Date(Date.now() + delay);
+      backoffMs = Math.max(backoffMs, delay);
+    }
+
+    return backoffMs;
+  }
+
+  /**
+   * Get all tracked recipient domains and providers
+   */
+  getAllDestinations(): DestinationTracking[] {
+    return Array.from(this.destinationTracking.values()).map(tracking => this.refreshDestination(tracking));
+  }
+
+  /**
+   * Limit that applies to a tracked destination (undefined when unlimited)
+   */
+  getDestinationLimit(tracking: DestinationTracking): DestinationLimit | undefined {
+    if (tracking.scope === 'provider') {
+      return this.destinationLimits.providers[tracking.provider];
+    }
+    return CONSUMER_DOMAINS[tracking.name] ? undefined : this.destinationLimits.recipientDomain;
+  }
+
+  /**
+   * Tracking records for a destination: [recipient domain, provider]
+   */
+  private destinationScopes(destination: Destination): Array<{ tracking: DestinationTracking; limit?: DestinationLimit }> {
+    const domain = this.getOrCreateDestination('domain', destination.domain, destination.provider);
+    const provider = this.getOrCreateDestination('provider', destination.provider, destination.provider);
+    return [
+      { tracking: domain, limit: this.getDestinationLimit(domain) },
+      { tracking: provider, limit: this.getDestinationLimit(provider) },
+    ];
+  }
+
+  private getOrCreateDestination(scope: DestinationTracking['scope'], name: string, provider: RecipientProvider): DestinationTracking {
+    const key = `${scope}:${name}`;
+    let tracking = this.destinationTracking.get(key);
+
+    if (!tracking) {
+      const now = new Date();
+      tracking = {
+        scope,
+        name,
+        provider,
+        sentThisHour: 0,
+        sentThisMinute: 0,
+        windowStartHour: now,
+        windowStartMinute: now,
+        totalSent: 0,
+        deferrals: 0,
+        consecutiveDeferrals: 0,
+        backoffUntil: null,
+        lastDeferral: null,
+      };
+      this.destinationTracking.set(key, tracking);
+    }
+
+    return this.refreshDestination(tracking);
+  }
+
+  /**
+   * Reset elapsed hour/minute windows
+   */
+  private refreshDestination(tracking: DestinationTracking): DestinationTracking {
+    const now = new Date();
+    if (now.getTime() - tracking.windowStartHour.getTime() >= 60 * 60 * 1000) {
+      tracking.sentThisHour = 0;
+      tracking.windowStartHour = now;
+    }
+    if (now.getTime() - tracking.windowStartMinute.getTime() >= 60 * 1000) {
+      tracking.sentThisMinute = 0;
+      tracking.windowStartMinute = now;
+    }
+    return tracking;
+  }
+
+  /**
+   * Provider from the domain's lowest-preference MX record
+   */
+  private async lookupProvider(domain: string): Promise<RecipientProvider> {
+    const resolve = this.config.resolveMx === undefined ? defaultResolveMx : this.config.resolveMx;
+    if (!resolve || domain === 'unknown') return 'other';
+
+    try {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const hosts = await Promise.race([
+        resolve(domain),
+        new Promise<string[]>(resolve => {
+          timer = setTimeout(() => resolve([]), MX_LOOKUP_TIMEOUT_MS);
+        }),
+      ]).finally(() => clearTimeout(timer));
+      return hosts.length > 0 ? classifyMxHost(hosts[0]) : 'other';
+    } catch {
+      // Unresolvable domains fall back to the generic provider limits
+      return 'other';
+    }
+  }
+}
+
+/**
+ * MX hosts ordered by preference
+ */
+async function defaultResolveMx(domain: string): Promise<string[]> {
+  const records = await dns.resolveMx(domain);
+  return records.sort((a, b) => a.priority - b.priority).map(record => record.exchange);
 }
 
 /** Singleton instance */
@@ -0,0 +1,506 @@
+/**
+ * Sender Pool - Multi-Mailbox Rotation & Warmup
+ *
+ * Spreads a campaign's sends across several mailboxes:
+ * - Campaigns are assigned a pool of mailboxes
+ * - Each send uses the mailbox with the most remaining daily headroom
+ * - Per-mailbox warmup ramps replace the age-based RATE_TIERS
+ * - Mailboxes are auto-paused when consecutive failures spike
+ *
+ * Usage counters live in EmailRateLimiter (keyed by domain:accountId), so a
+ * mailbox shared by several campaigns has a single budget.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  EmailRateLimiter,
+  getEmailRateLimiter,
+  extractDomain,
+  type RateLimitCheck,
+  type RateLimitTier,
+} from './rate-limiter';
+import { getServerSupabase } from './supabase-server';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Linear warmup ramp for one mailbox */
+export interface WarmupRamp {
+  /** Daily limit on warmup day 1 */
+  startPerDay: number;
+  /** Added to the daily limit each day */
+  dailyIncrease: number;
+  /** Daily limit once warmup completes */
+  maxPerDay: number;
+  /** Hourly limit as a share of the daily limit (default 0.2) */
+  hourlyShare?: number;
+  /** Per-minute limit as a share of the daily limit (default 0.05) */
+  minuteShare?: number;
+}
+
+/** Mailbox availability */
+export type MailboxStatus = 'active' | 'paused';
+
+/** A sending mailbox */
+export interface SenderMailbox {
+  id: string;
+  /** Sender address used as the job's from */
+  email: string;
+  /** Rate limiter account key */
+  accountId: string;
+  workspaceId?: string | null;
+  /** Day 1 of the warmup ramp */
+  warmupStartedAt: Date;
+  /** Ramp for this mailbox (default: DEFAULT_WARMUP_RAMP) */
+  ramp?: WarmupRamp;
+  status: MailboxStatus;
+  pausedReason?: string | null;
+  pausedAt?: Date | null;
+}
+
+/** Mailbox chosen for a send (mailbox is null when none can send) */
+export interface SenderSelection {
+  mailbox: SenderMailbox | null;
+  /** Rate limit check for the chosen mailbox, or the closest one to freeing up */
+  check: RateLimitCheck;
+  /** Warmup day of the chosen mailbox */
+  warmupDay: number;
+}
+
+/** Mailbox state for monitoring */
+export interface MailboxMetrics {
+  mailboxId: string;
+  email: string;
+  domain: string;
+  accountId: string;
+  campaignIds: string[];
+  status: MailboxStatus;
+  pausedReason: string | null;
+  warmupDay: number;
+  tier: RateLimitTier;
+  sentToday: number;
+  sentThisHour: number;
+  sentThisMinute: number;
+  headroom: number;
+  failureCount: number;
+  consecutiveFailures: number;
+}
+
+/** Campaign to mailbox assignment */
+export interface MailboxAssignment {
+  campaignId: string;
+  mailboxId: string;
+}
+
+/** Persistence for mailboxes and assignments */
+export interface SenderPoolStore {
+  loadMailboxes(): Promise<SenderMailbox[]>;
+  loadAssignments(): Promise<MailboxAssignment[]>;
+  saveStatus(mailboxId: string, status: MailboxStatus, reason: string | null, pausedAt: Date | null): Promise<void>;
+}
+
+/** Sender pool configuration */
+export interface SenderPoolConfig {
+  /** Rate limiter holding usage counters */
+  rateLimiter?: EmailRateLimiter;
+  /** Mailbox persistence (optional; register mailboxes directly otherwise) */
+  store?: SenderPoolStore;
+  /** Consecutive failures before a mailbox is auto-paused */
+  failureThreshold?: number;
+  /** Called when a mailbox is auto-paused */
+  onPause?: (mailbox: SenderMailbox) => void;
+  /** Clock (overridable for tests) */
+  now?: () => Date;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Conservative ramp for a fresh Google/Microsoft mailbox */
+export const DEFAULT_WARMUP_RAMP: WarmupRamp = {
+  startPerDay: 10,
+  dailyIncrease: 5,
+  maxPerDay: 50,
+  hourlyShare: 0.2,
+  minuteShare: 0.05,
+};
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// WARMUP
+// ============================================================================
+
+/**
+ * Day of warmup (day 1 = the day warmup started)
+ */
+export function getWarmupDay(startedAt: Date, now: Date = new Date()): number {
+  return Math.max(1, Math.floor((now.getTime() - startedAt.getTime()) / DAY_MS) + 1);
+}
+
+/**
+ * Rate limit tier for a warmup day on a ramp
+ */
+export function getWarmupTier(ramp: WarmupRamp, warmupDay: number): RateLimitTier {
+  const maxPerDay = Math.min(ramp.maxPerDay, ramp.startPerDay + ramp.dailyIncrease * (warmupDay - 1));
+  const warm = maxPerDay >= ramp.maxPerDay;
+
+  return {
+    maxPerDay,
+    maxPerHour: Math.max(1, Math.ceil(maxPerDay * (ramp.hourlyShare ?? DEFAULT_WARMUP_RAMP.hourlyShare!))),
+    maxPerMinute: Math.max(1, Math.ceil(maxPerDay * (ramp.minuteShare ?? DEFAULT_WARMUP_RAMP.minuteShare!))),
+    description: warm ? `Warm (${maxPerDay}/day)` : `Warmup day ${warmupDay} (${maxPerDay}/day)`,
+  };
+}
+
+// ============================================================================
+// SENDER POOL
+// ============================================================================
+
+/**
+ * Sender Pool
+ *
+ * Picks a mailbox per send and pauses mailboxes that keep failing.
+ */
+export class SenderPool {
+  private rateLimiter: EmailRateLimiter;
+  private store?: SenderPoolStore;
+  private failureThreshold: number;
+  private onPause?: (mailbox: SenderMailbox) => void;
+  private now: () => Date;
+
+  private mailboxes: Map<string, SenderMailbox> = new Map();
+  private assignments: Map<string, Set<string>> = new Map();
+  private loaded: Promise<void> | null = null;
+
+  constructor(config: SenderPoolConfig = {}) {
+    this.rateLimiter = config.rateLimiter ?? getEmailRateLimiter();
+    this.store = config.store;
+    this.failureThreshold = config.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.onPause = config.onPause;
+    this.now = config.now ?? (() => new Date());
+  }
+
+  /**
+   * Set the data store (e.g. once a Supabase client is available)
+   */
+  setStore(store: SenderPoolStore): void {
+    this.store = store;
+    this.loaded = null;
+  }
+
+  /**
+   * Register (or replace) a mailbox
+   */
+  addMailbox(mailbox: Omit<SenderMailbox, 'accountId' | 'status'> & Partial<Pick<SenderMailbox, 'accountId' | 'status'>>): SenderMailbox {
+    const entry: SenderMailbox = {
+      ...mailbox,
+      email: mailbox.email.toLowerCase(),
+      accountId: mailbox.accountId ?? mailbox.id,
+      status: mailbox.status ?? 'active',
+    };
+    this.mailboxes.set(entry.id, entry);
+    return entry;
+  }
+
+  /**
+   * Assign mailboxes to a campaign
+   */
+  assign(campaignId: string, mailboxIds: string[]): void {
+    const pool = this.assignments.get(campaignId) ?? new Set<string>();
+    mailboxIds.forEach(id => pool.add(id));
+    this.assignments.set(campaignId, pool);
+  }
+
+  /**
+   * Remove a mailbox from a campaign
+   */
+  unassign(campaignId: string, mailboxId: string): void {
+    this.assignments.get(campaignId)?.delete(mailboxId);
+  }
+
+  /**
+   * Mailboxes assigned to a campaign
+   */
+  async getPool(campaignId: string): Promise<SenderMailbox[]> {
+    await this.ensureLoaded();
+    return Array.from(this.assignments.get(campaignId) ?? [])
+      .map(id => this.mailboxes.get(id))
+      .filter((mailbox): mailbox is SenderMailbox => !!mailbox);
+  }
+
+  /**
+   * Pick the active mailbox with the most daily headroom.
+   *
+   * @returns null when the campaign has no pool (use the job's own sender)
+   */
+  async select(campaignId: string): Promise<SenderSelection | null> {
+    const pool = await this.getPool(campaignId);
+    if (pool.length === 0) return null;
+
+    let best: { mailbox: SenderMailbox; check: RateLimitCheck; warmupDay: number; headroom: number } | null = null;
+    let blocked: SenderSelection | null = null;
+
+    for (const mailbox of pool.filter(m => m.status === 'active')) {
+      const warmupDay = getWarmupDay(mailbox.warmupStartedAt, this.now());
+      const tier = getWarmupTier(mailbox.ramp ?? DEFAULT_WARMUP_RAMP, warmupDay);
+      const check = this.rateLimiter.checkLimit(extractDomain(mailbox.email), mailbox.accountId, warmupDay, tier);
+
+      if (!check.allowed) {
+        // Remember whichever blocked mailbox frees up first
+        if (!blocked || (check.retryAfterMs ?? Infinity) < (blocked.check.retryAfterMs ?? Infinity)) {
+          blocked = { mailbox: null, check, warmupDay };
+        }
+        continue;
+      }
+
+      const headroom = tier.maxPerDay - check.currentUsage.daily;
+      if (!best || headroom > best.headroom) {
+        best = { mailbox, check, warmupDay, headroom };
+      }
+    }
+
+    if (best) {
+      return { mailbox: best.mailbox, check: best.check, warmupDay: best.warmupDay };
+    }
+
+    if (blocked) {
+      return { ...blocked, check: { ...blocked.check, reason: `All mailboxes at limit (next: ${blocked.check.reason})` } };
+    }
+
+    const warmupDay = getWarmupDay(pool[0].warmupStartedAt, this.now());
+    return {
+      mailbox: null,
+      warmupDay,
+      check: {
+        allowed: false,
+        reason: `All ${pool.length} mailboxes in pool are paused`,
+        currentUsage: { daily: 0, hourly: 0, minutely: 0 },
+        limits: getWarmupTier(pool[0].ramp ?? DEFAULT_WARMUP_RAMP, warmupDay),
+      },
+    };
+  }
+
+  /**
+   * Record a successful send from a mailbox
+   */
+  recordSuccess(mailbox: SenderMailbox): void {
+    this.rateLimiter.recordSuccess(extractDomain(mailbox.email), mailbox.accountId);
+  }
+
+  /**
+   * Record a failed send; auto-pauses the mailbox past the failure threshold
+   *
+   * @returns true when the mailbox was paused
+   */
+  async recordFailure(mailbox: SenderMailbox): Promise<boolean> {
+    const domain = extractDomain(mailbox.email);
+    this.rateLimiter.recordFailure(domain, mailbox.accountId);
+
+    const failures = this.rateLimiter.getTracking(domain, mailbox.accountId)?.consecutiveFailures ?? 0;
+    const current = this.mailboxes.get(mailbox.id);
+    if (failures < this.failureThreshold || current?.status === 'paused') {
+      return false;
+    }
+
+    await this.pause(mailbox.id, `Auto-paused after ${failures} consecutive failures`);
+    if (this.onPause && current) {
+      try {
+        this.onPause(current);
+      } catch {
+        // Soft failure
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Take a mailbox out of rotation
+   */
+  async pause(mailboxId: string, reason: string): Promise<void> {
+    await this.ensureLoaded();
+    const mailbox = this.mailboxes.get(mailboxId);
+    if (!mailbox) return;
+
+    mailbox.status = 'paused';
+    mailbox.pausedReason = reason;
+    mailbox.pausedAt = this.now();
+    await this.store?.saveStatus(mailboxId, 'paused', reason, mailbox.pausedAt);
+  }
+
+  /**
+   * Put a paused mailbox back into rotation with a clean failure streak
+   */
+  async resume(mailboxId: string): Promise<void> {
+    await this.ensureLoaded();
+    const mailbox = this.mailboxes.get(mailboxId);
+    if (!mailbox) return;
+
+    mailbox.status = 'active';
+    mailbox.pausedReason = null;
+    mailbox.pausedAt = null;
+    this.rateLimiter.resetFailures(extractDomain(mailbox.email), mailbox.accountId);
+    await this.store?.saveStatus(mailboxId, 'active', null, null);
+  }
+
+  /**
+   * Per-mailbox usage, warmup and status
+   */
+  getMailboxMetrics(): MailboxMetrics[] {
+    return Array.from(this.mailboxes.values()).map(mailbox => {
+      const domain = extractDomain(mailbox.email);
+      const warmupDay = getWarmupDay(mailbox.warmupStartedAt, this.now());
+      const tier = getWarmupTier(mailbox.ramp ?? DEFAULT_WARMUP_RAMP, warmupDay);
+      const tracking = this.rateLimiter.getTracking(domain, mailbox.accountId);
+      const sentToday = tracking?.sentToday ?? 0;
+
+      return {
+        mailboxId: mailbox.id,
+        email: mailbox.email,
+        domain,
+        accountId: mailbox.accountId,
+        campaignIds: Array.from(this.assignments.entries())
+          .filter(([, ids]) => ids.has(mailbox.id))
+          .map(([campaignId]) => campaignId),
+        status: mailbox.status,
+        pausedReason: mailbox.pausedReason ?? null,
+        warmupDay,
+        tier,
+        sentToday,
+        sentThisHour: tracking?.sentThisHour ?? 0,
+        sentThisMinute: tracking?.sentThisMinute ?? 0,
+        headroom: Math.max(0, tier.maxPerDay - sentToday),
+        failureCount: tracking?.failureCount ?? 0,
+        consecutiveFailures: tracking?.consecutiveFailures ?? 0,
+      };
+    });
+  }
+
+  /**
+   * Reload mailboxes and assignments from the store
+   */
+  async refresh(): Promise<void> {
+    if (!this.store) return;
+    this.loaded = this.load(this.store);
+    await this.loaded;
+  }
+
+  // Private helper methods
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.store) return Promise.resolve();
+    if (!this.loaded) {
+      this.loaded = this.load(this.store).catch(error => {
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async load(store: SenderPoolStore): Promise<void> {
+    const [mailboxes, assignments] = await Promise.all([store.loadMailboxes(), store.loadAssignments()]);
+
+    this.mailboxes = new Map(mailboxes.map(mailbox => [mailbox.id, mailbox]));
+    this.assignments = new Map();
+    for (const { campaignId, mailboxId } of assignments) {
+      this.assign(campaignId, [mailboxId]);
+    }
+  }
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+/** Row shape of sender_mailboxes */
+interface SenderMailboxRow {
+  id: string;
+  workspace_id: string | null;
+  email: string;
+  account_id: string | null;
+  warmup_started_at: string;
+  warmup_ramp: WarmupRamp | null;
+  status: MailboxStatus;
+  paused_reason: string | null;
+  paused_at: string | null;
+}
+
+/**
+ * Loads mailboxes and campaign assignments from Supabase
+ */
+export class SupabaseSenderPoolStore implements SenderPoolStore {
+  constructor(private client: SupabaseClient) {}
+
+  async loadMailboxes(): Promise<SenderMailbox[]> {
+    const { data, error } = await this.client
+      .from('sender_mailboxes')
+      .select('id, workspace_id, email, account_id, warmup_started_at, warmup_ramp, status, paused_reason, paused_at');
+
+    if (error) throw error;
+    return ((data ?? []) as SenderMailboxRow[]).map(row => ({
+      id: row.id,
+      email: row.email.toLowerCase(),
+      accountId: row.account_id ?? row.id,
+      workspaceId: row.workspace_id,
+      warmupStartedAt: new Date(row.warmup_started_at),
+      ramp: row.warmup_ramp ?? undefined,
+      status: row.status,
+      pausedReason: row.paused_reason,
+      pausedAt: row.paused_at ? new Date(row.paused_at) : null,
+    }));
+  }
+
+  async loadAssignments(): Promise<MailboxAssignment[]> {
+    const { data, error } = await this.client
+      .from('campaign_mailboxes')
+      .select('campaign_id, mailbox_id');
+
+    if (error) throw error;
+    return ((data ?? []) as Array<{ campaign_id: string; mailbox_id: string }>).map(row => ({
+      campaignId: row.campaign_id,
+      mailboxId: row.mailbox_id,
+    }));
+  }
+
+  async saveStatus(mailboxId: string, status: MailboxStatus, reason: string | null, pausedAt: Date | null): Promise<void> {
+    const { error } = await this.client
+      .from('sender_mailboxes')
+      .update({ status, paused_reason: reason, paused_at: pausedAt?.toISOString() ?? null })
+      .eq('id', mailboxId);
+
+    if (error) throw error;
+  }
+}
+
+// ============================================================================
+// FACTORY FUNCTIONS
+// ============================================================================
+
+/** Singleton instance */
+let globalSenderPool: SenderPool | null = null;
+
+/**
+ * Get or create the global sender pool, loading sender_mailboxes and
+ * campaign_mailboxes when Supabase is configured
+ */
+export function getSenderPool(config?: SenderPoolConfig): SenderPool {
+  if (!globalSenderPool) {
+    const supabase = getServerSupabase();
+    globalSenderPool = new SenderPool({
+      store: supabase ? new SupabaseSenderPoolStore(supabase) : undefined,
+      ...config,
+    });
+  }
+  return globalSenderPool;
+}
+
+/**
+ * Reset the global sender pool (useful for testing)
+ */
+export function resetSenderPool(): void {
+  globalSenderPool = null;
+}
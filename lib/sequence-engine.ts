@@ -0,0 +1,834 @@
+/**
+ * Sequence Engine - Enrollment Scheduler
+ *
+ * Advances sequence enrollments step by step:
+ * - Walks due enrollments (pending/active, next_step_due_at reached)
+ * - Applies step waits and send windows in the sequence timezone
+ * - Evaluates TouchConditions against email_events
+ * - Personalizes step content and enqueues EmailJobData
+ * - Exits enrollments on reply, meeting, bounce or unsubscribe
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  EmailQueueService,
+  getEmailQueueService,
+  type EmailJobData,
+} from './email-queue';
+import { personalize, personalizeEmail, type ProspectData } from './personalization';
+import type { TouchCondition } from '@/types/sequences';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** email_sequences row (fields used by the engine) */
+export interface SequenceRow {
+  id: string;
+  name: string;
+  status: 'draft' | 'active' | 'paused' | 'archived';
+  abort_on_reply: boolean | null;
+  abort_on_meeting: boolean | null;
+  default_send_timezone: string | null;
+  business_hours_only: boolean | null;
+}
+
+/** email_sequence_steps row */
+export interface SequenceStepRow {
+  id: string;
+  sequence_id: string;
+  step_number: number;
+  template_id: string | null;
+  subject_override: string | null;
+  body_override: string | null;
+  wait_days: number | null;
+  wait_hours: number | null;
+  wait_minutes: number | null;
+  send_window_start: string | null;
+  send_window_end: string | null;
+  respect_weekends: boolean | null;
+  /** TouchCondition, e.g. { "type": "if_not_replied" }; empty means always */
+  condition_config: Partial<TouchCondition> | null;
+  variant_for: string | null;
+  is_active: boolean | null;
+}
+
+/** sequence_enrollments row */
+export interface EnrollmentRow {
+  id: string;
+  sequence_id: string;
+  prospect_id: string | null;
+  status: 'pending' | 'active' | 'paused' | 'completed' | 'cancelled' | 'bounced';
+  current_step: number | null;
+  assigned_variant: string | null;
+  enrolled_at: string;
+  started_at: string | null;
+  next_step_due_at: string | null;
+  personalization_context: Record<string, unknown> | null;
+}
+
+/** email_templates row (content fields) */
+export interface TemplateRow {
+  id: string;
+  subject: string;
+  body_html: string | null;
+  body_text: string | null;
+}
+
+/** prospects row (fields used for personalization) */
+export interface ProspectRow {
+  id: string;
+  person_email: string | null;
+  person_first_name: string | null;
+  person_last_name: string | null;
+  person_title: string | null;
+  company_name: string | null;
+  company_industry: string | null;
+  technologies: string[] | null;
+}
+
+/** email_events row */
+export interface EmailEventRow {
+  email_send_id: string | null;
+  event_type: 'open' | 'click' | 'reply' | 'bounce' | 'spam_report' | 'unsubscribe' | 'forward';
+  occurred_at: string;
+  event_data?: Record<string, unknown> | null;
+}
+
+/** Engagement history for one enrollment */
+export interface EnrollmentEngagement {
+  events: EmailEventRow[];
+  /** email_sends for the enrollment, used to map events to steps */
+  sends: Array<{ id: string; sequence_step_id: string | null }>;
+}
+
+/** Enrollment columns the engine writes */
+export type EnrollmentUpdate = Partial<Pick<EnrollmentRow, 'status' | 'current_step' | 'started_at' | 'next_step_due_at'>> & {
+  completed_at?: string;
+  paused_at?: string;
+  cancelled_at?: string;
+  exit_reason?: ExitReason;
+  exit_at?: string;
+};
+
+/** Why an enrollment left its sequence */
+export type ExitReason = 'replied' | 'bounced' | 'unsubscribed' | 'meeting_booked' | 'sequence_complete';
+
+/** Data access used by the engine */
+export interface SequenceStore {
+  listDueEnrollments(now: Date, limit: number): Promise<EnrollmentRow[]>;
+  getSequence(sequenceId: string): Promise<SequenceRow | null>;
+  getSteps(sequenceId: string): Promise<SequenceStepRow[]>;
+  getTemplate(templateId: string): Promise<TemplateRow | null>;
+  getProspect(prospectId: string): Promise<ProspectRow | null>;
+  getEngagement(enrollmentId: string): Promise<EnrollmentEngagement>;
+  hasMeetingSince(prospectId: string, since: Date): Promise<boolean>;
+  updateEnrollment(enrollmentId: string, update: EnrollmentUpdate): Promise<void>;
+}
+
+/** Send window for a step, in a given timezone */
+export interface SendWindow {
+  /** 'HH:MM' or 'HH:MM:SS' local start */
+  start: string;
+  /** 'HH:MM' or 'HH:MM:SS' local end (exclusive) */
+  end: string;
+  respectWeekends: boolean;
+  timezone: string;
+}
+
+/** Sender identity for sequence emails */
+export interface SequenceSender {
+  from: string;
+  accountId: string;
+  accountAgeInDays: number;
+}
+
+/** Sequence engine configuration */
+export interface SequenceEngineConfig {
+  /** Data access (required to run) */
+  store?: SequenceStore;
+  /** Queue that receives personalized jobs */
+  queueService?: EmailQueueService;
+  /** Default sender when the enrollment context has none */
+  sender?: Partial<SequenceSender>;
+  /** Max enrollments handled per run */
+  batchSize?: number;
+  /** Clock (overridable for tests) */
+  now?: () => Date;
+}
+
+/** Outcome of advancing one enrollment */
+export interface SequenceAdvanceResult {
+  enrollmentId: string;
+  action: 'enqueued' | 'skipped' | 'waiting' | 'exited' | 'completed' | 'paused';
+  stepNumber?: number;
+  jobId?: string;
+  scheduledFor?: Date;
+  reason?: string;
+}
+
+/** Summary of a scheduler run */
+export interface SequenceRunSummary {
+  processed: number;
+  enqueued: number;
+  skipped: number;
+  exited: number;
+  completed: number;
+  errors: number;
+  results: SequenceAdvanceResult[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_TIMEZONE = 'America/New_York';
+const DEFAULT_WINDOW_START = '09:00';
+const DEFAULT_WINDOW_END = '17:00';
+const DEFAULT_BATCH_SIZE = 100;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// ============================================================================
+// TIMING
+// ============================================================================
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Wall-clock parts of an instant in a timezone
+ */
+function getZonedParts(date: Date, timezone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? '0';
+
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at an instant (ms)
+ */
+function getTimezoneOffset(timestamp: number, timezone: string): number {
+  const p = getZonedParts(new Date(timestamp), timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return asUtc - Math.floor(timestamp / MINUTE_MS) * MINUTE_MS;
+}
+
+/**
+ * Convert a local wall-clock time in a timezone to an instant.
+ * Day overflow (e.g. day + 1) is normalized.
+ */
+function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, timezone: string): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = getTimezoneOffset(guess, timezone);
+  const result = guess - offset;
+
+  // Re-check across DST transitions
+  const correctedOffset = getTimezoneOffset(result, timezone);
+  return new Date(correctedOffset === offset ? result : guess - correctedOffset);
+}
+
+function parseTime(value: string): { hour: number; minute: number } {
+  const [hour, minute] = value.split(':').map(Number);
+  return { hour: hour || 0, minute: minute || 0 };
+}
+
+/**
+ * Move a send time forward into the next open send window
+ */
+export function applySendWindow(date: Date, window: SendWindow): Date {
+  const start = parseTime(window.start);
+  const end = parseTime(window.end);
+  const startMinutes = start.hour * 60 + start.minute;
+  const endMinutes = end.hour * 60 + end.minute;
+
+  let candidate = date;
+
+  // Two weeks is more than enough to clear any weekend/window combination
+  for (let i = 0; i < 14; i++) {
+    const p = getZonedParts(candidate, window.timezone);
+    const minutes = p.hour * 60 + p.minute;
+    const nextDayStart = () => zonedTimeToUtc(p.year, p.month, p.day + 1, start.hour, start.minute, window.timezone);
+
+    if (window.respectWeekends && (p.weekday === 0 || p.weekday === 6)) {
+      candidate = nextDayStart();
+      continue;
+    }
+    if (minutes < startMinutes) {
+      return zonedTimeToUtc(p.year, p.month, p.day, start.hour, start.minute, window.timezone);
+    }
+    if (minutes >= endMinutes) {
+      candidate = nextDayStart();
+      continue;
+    }
+    return candidate;
+  }
+
+  return candidate;
+}
+
+/**
+ * When a step becomes due: its wait after `from`, moved into the send window
+ */
+export function computeStepDue(from: Date, step: SequenceStepRow, sequence: SequenceRow): Date {
+  const waitMs =
+    (step.wait_days ?? 0) * DAY_MS +
+    (step.wait_hours ?? 0) * HOUR_MS +
+    (step.wait_minutes ?? 0) * MINUTE_MS;
+  const due = new Date(from.getTime() + waitMs);
+
+  if (sequence.business_hours_only === false) {
+    return due;
+  }
+
+  return applySendWindow(due, {
+    start: step.send_window_start ?? DEFAULT_WINDOW_START,
+    end: step.send_window_end ?? DEFAULT_WINDOW_END,
+    respectWeekends: step.respect_weekends ?? true,
+    timezone: sequence.default_send_timezone ?? DEFAULT_TIMEZONE,
+  });
+}
+
+// ============================================================================
+// CONDITIONS
+// ============================================================================
+
+/**
+ * Evaluate a step's TouchCondition against the enrollment's email events.
+ *
+ * Events are scoped to `referenceStepId` (the condition's previousTouchId or
+ * the last step sent) when that step has a recorded send; otherwise all of
+ * the enrollment's events count. Opens and clicks flagged as automated
+ * (scanners, prefetch, Apple MPP) are ignored. Custom conditions are not
+ * evaluated here and always pass.
+ */
+export function evaluateTouchCondition(
+  condition: Partial<TouchCondition> | null | undefined,
+  engagement: EnrollmentEngagement,
+  referenceStepId?: string
+): boolean {
+  const type = condition?.type ?? 'always';
+  if (type === 'always' || type === 'custom') return true;
+
+  const stepId = condition?.previousTouchId ?? referenceStepId;
+  const sendIds = new Set(
+    engagement.sends.filter(s => stepId && s.sequence_step_id === stepId).map(s => s.id)
+  );
+  const human = engagement.events.filter(e => e.event_data?.automated !== true);
+  const events = sendIds.size > 0
+    ? human.filter(e => e.email_send_id && sendIds.has(e.email_send_id))
+    : human;
+  const has = (...types: EmailEventRow['event_type'][]) => events.some(e => types.includes(e.event_type));
+
+  switch (type) {
+    // A click implies the message was opened even if the pixel was blocked
+    case 'if_opened': return has('open', 'click');
+    case 'if_not_opened': return !has('open', 'click');
+    case 'if_clicked': return has('click');
+    case 'if_replied': return has('reply');
+    case 'if_not_replied': return !has('reply');
+    default: return true;
+  }
+}
+
+// ============================================================================
+// SEQUENCE ENGINE
+// ============================================================================
+
+/**
+ * Sequence Engine
+ *
+ * Turns sequence enrollments into scheduled email jobs. Each run picks up
+ * enrollments whose next step is due, checks exit conditions, and either
+ * enqueues, skips or waits on the next step.
+ */
+export class SequenceEngine {
+  private store?: SequenceStore;
+  private queueService: EmailQueueService;
+  private sender: Partial<SequenceSender>;
+  private batchSize: number;
+  private now: () => Date;
+  private timer?: ReturnType<typeof setInterval>;
+  private isRunning = false;
+
+  constructor(config: SequenceEngineConfig = {}) {
+    this.store = config.store;
+    this.queueService = config.queueService ?? getEmailQueueService();
+    this.sender = {
+      from: process.env.SEQUENCE_FROM_EMAIL,
+      accountId: 'default',
+      accountAgeInDays: 30,
+      ...config.sender,
+    };
+    this.batchSize = config.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.now = config.now ?? (() => new Date());
+  }
+
+  /**
+   * Set the data store (e.g. once a Supabase client is available)
+   */
+  setStore(store: SequenceStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Process every due enrollment once
+   */
+  async runOnce(): Promise<SequenceRunSummary> {
+    const summary: SequenceRunSummary = {
+      processed: 0,
+      enqueued: 0,
+      skipped: 0,
+      exited: 0,
+      completed: 0,
+      errors: 0,
+      results: [],
+    };
+    if (!this.store || this.isRunning) return summary;
+
+    this.isRunning = true;
+    const sequences = new Map<string, SequenceRow | null>();
+    const steps = new Map<string, SequenceStepRow[]>();
+
+    try {
+      const enrollments = await this.store.listDueEnrollments(this.now(), this.batchSize);
+
+      for (const enrollment of enrollments) {
+        try {
+          if (!sequences.has(enrollment.sequence_id)) {
+            sequences.set(enrollment.sequence_id, await this.store.getSequence(enrollment.sequence_id));
+            steps.set(enrollment.sequence_id, await this.store.getSteps(enrollment.sequence_id));
+          }
+
+          const sequence = sequences.get(enrollment.sequence_id);
+          if (!sequence || sequence.status !== 'active') continue;
+
+          const result = await this.advanceEnrollment(enrollment, sequence, steps.get(enrollment.sequence_id) ?? []);
+          summary.processed++;
+          summary.results.push(result);
+
+          if (result.action === 'enqueued') summary.enqueued++;
+          if (result.action === 'skipped') summary.skipped++;
+          if (result.action === 'exited') summary.exited++;
+          if (result.action === 'completed') summary.completed++;
+        } catch (err) {
+          summary.errors++;
+          console.error(`[SequenceEngine] Failed to advance enrollment ${enrollment.id}:`, err);
+        }
+      }
+    } finally {
+      this.isRunning = false;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Advance a single enrollment by at most one step
+   */
+  async advanceEnrollment(
+    enrollment: EnrollmentRow,
+    sequence: SequenceRow,
+    allSteps: SequenceStepRow[]
+  ): Promise<SequenceAdvanceResult> {
+    const store = this.requireStore();
+    const now = this.now();
+    const engagement = await store.getEngagement(enrollment.id);
+
+    // Exit checks come first so a reply stops the very next touch
+    const exit = await this.checkExit(enrollment, sequence, engagement);
+    if (exit) {
+      await store.updateEnrollment(enrollment.id, {
+        status: exit === 'bounced' ? 'bounced' : exit === 'unsubscribed' ? 'cancelled' : 'completed',
+        exit_reason: exit,
+        exit_at: now.toISOString(),
+        next_step_due_at: null,
+      });
+      return { enrollmentId: enrollment.id, action: 'exited', reason: exit };
+    }
+
+    const steps = this.stepsForEnrollment(enrollment, allSteps);
+    const currentStep = enrollment.current_step ?? 0;
+    const nextStep = steps.find(s => s.step_number > currentStep);
+
+    if (!nextStep) {
+      await this.complete(enrollment.id, now);
+      return { enrollmentId: enrollment.id, action: 'completed', reason: 'sequence_complete' };
+    }
+
+    // First touch: schedule relative to enrollment, then wait for it
+    if (!enrollment.next_step_due_at) {
+      const due = computeStepDue(new Date(enrollment.enrolled_at), nextStep, sequence);
+      if (due > now) {
+        await store.updateEnrollment(enrollment.id, {
+          status: 'active',
+          started_at: enrollment.started_at ?? now.toISOString(),
+          next_step_due_at: due.toISOString(),
+        });
+        return { enrollmentId: enrollment.id, action: 'waiting', stepNumber: nextStep.step_number, scheduledFor: due };
+      }
+    }
+
+    const previousStep = [...steps].reverse().find(s => s.step_number <= currentStep);
+    const conditionMet = evaluateTouchCondition(nextStep.condition_config, engagement, previousStep?.id);
+    const followingStep = steps.find(s => s.step_number > nextStep.step_number);
+
+    if (!conditionMet) {
+      if (!followingStep) {
+        await this.complete(enrollment.id, now, nextStep.step_number);
+        return { enrollmentId: enrollment.id, action: 'completed', stepNumber: nextStep.step_number, reason: 'condition_not_met' };
+      }
+
+      await store.updateEnrollment(enrollment.id, {
+        status: 'active',
+        started_at: enrollment.started_at ?? now.toISOString(),
+        current_step: nextStep.step_number,
+        next_step_due_at: computeStepDue(now, followingStep, sequence).toISOString(),
+      });
+      return { enrollmentId: enrollment.id, action: 'skipped', stepNumber: nextStep.step_number, reason: 'condition_not_met' };
+    }
+
+    const job = await this.buildJob(enrollment, sequence, nextStep);
+    if ('error' in job) {
+      await store.updateEnrollment(enrollment.id, { status: 'paused', paused_at: now.toISOString() });
+      return { enrollmentId: enrollment.id, action: 'paused', stepNumber: nextStep.step_number, reason: job.error };
+    }
+
+    const scheduledFor = applySendWindowFor(now, nextStep, sequence);
+    if (scheduledFor > now) {
+      job.scheduledFor = scheduledFor;
+    }
+    await this.queueService.addEmail(job);
+
+    if (followingStep) {
+      await store.updateEnrollment(enrollment.id, {
+        status: 'active',
+        started_at: enrollment.started_at ?? now.toISOString(),
+        current_step: nextStep.step_number,
+        next_step_due_at: computeStepDue(scheduledFor, followingStep, sequence).toISOString(),
+      });
+    } else {
+      await this.complete(enrollment.id, now, nextStep.step_number);
+    }
+
+    return {
+      enrollmentId: enrollment.id,
+      action: 'enqueued',
+      stepNumber: nextStep.step_number,
+      jobId: job.jobId,
+      scheduledFor,
+    };
+  }
+
+  /**
+   * Run the scheduler on an interval
+   */
+  start(intervalMs: number = 60000): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, intervalMs);
+    void this.runOnce();
+  }
+
+  /**
+   * Stop the interval scheduler
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  // Private helper methods
+
+  private requireStore(): SequenceStore {
+    if (!this.store) {
+      throw new Error('SequenceEngine has no store configured');
+    }
+    return this.store;
+  }
+
+  private stepsForEnrollment(enrollment: EnrollmentRow, steps: SequenceStepRow[]): SequenceStepRow[] {
+    const variant = enrollment.assigned_variant ?? 'control';
+    return steps
+      .filter(s => s.is_active !== false)
+      .filter(s => !s.variant_for || s.variant_for === variant)
+      .sort((a, b) => a.step_number - b.step_number);
+  }
+
+  private async checkExit(
+    enrollment: EnrollmentRow,
+    sequence: SequenceRow,
+    engagement: EnrollmentEngagement
+  ): Promise<ExitReason | null> {
+    const has = (type: EmailEventRow['event_type']) => engagement.events.some(e => e.event_type === type);
+    // Soft bounces pause the enrollment at ingestion; only permanent ones exit
+    const hardBounce = engagement.events.some(
+      e => e.event_type === 'bounce' && e.event_data?.bounce_category !== 'soft_bounce'
+    );
+
+    if (hardBounce) return 'bounced';
+    if (has('unsubscribe') || has('spam_report')) return 'unsubscribed';
+    if (sequence.abort_on_reply !== false && has('reply')) return 'replied';
+
+    if (sequence.abort_on_meeting !== false && enrollment.prospect_id) {
+      const booked = await this.requireStore().hasMeetingSince(enrollment.prospect_id, new Date(enrollment.enrolled_at));
+      if (booked) return 'meeting_booked';
+    }
+
+    return null;
+  }
+
+  private async complete(enrollmentId: string, now: Date, currentStep?: number): Promise<void> {
+    await this.requireStore().updateEnrollment(enrollmentId, {
+      status: 'completed',
+      ...(currentStep !== undefined ? { current_step: currentStep } : {}),
+      completed_at: now.toISOString(),
+      exit_reason: 'sequence_complete',
+      exit_at: now.toISOString(),
+      next_step_due_at: null,
+    });
+  }
+
+  private async buildJob(
+    enrollment: EnrollmentRow,
+    sequence: SequenceRow,
+    step: SequenceStepRow
+  ): Promise<EmailJobData | { error: string }> {
+    const store = this.requireStore();
+    const context = enrollment.personalization_context ?? {};
+    const prospect = enrollment.prospect_id ? await store.getProspect(enrollment.prospect_id) : null;
+    const template = step.template_id ? await store.getTemplate(step.template_id) : null;
+
+    const to = (context.email as string | undefined) ?? prospect?.person_email ?? undefined;
+    if (!to) return { error: 'missing_recipient' };
+
+    const from = (context.from_email as string | undefined) ?? this.sender.from;
+    if (!from) return { error: 'missing_sender' };
+
+    const subject = step.subject_override ?? template?.subject;
+    const html = step.body_override ?? template?.body_html ?? undefined;
+    const text = step.body_override ? undefined : template?.body_text ?? undefined;
+    if (!subject || (!html && !text)) return { error: 'missing_content' };
+
+    const personalization = {
+      prospect: { ...prospectData(prospect), ...context },
+      // Spintax stays stable across re-renders of the same prospect and step
+      seed: `${enrollment.prospect_id ?? enrollment.id}:${step.step_number}`,
+    };
+    const jobId = `seq-${enrollment.id}-${step.step_number}`;
+
+    return {
+      jobId,
+      to,
+      from,
+      subject: personalize(subject, personalization, { escapeHtml: false }).text,
+      // Tracking tokens reference the send by its queue job ID
+      html: html ? personalizeEmail(subject, html, personalization, { tracking: { sendId: jobId } }).body : undefined,
+      text: text ? personalize(text, personalization, { escapeHtml: false }).text : undefined,
+      accountId: this.sender.accountId ?? 'default',
+      accountAgeInDays: this.sender.accountAgeInDays ?? 30,
+      campaignId: sequence.id,
+      stepNumber: step.step_number,
+      enrollmentId: enrollment.id,
+      sequenceStepId: step.id,
+      prospectId: enrollment.prospect_id ?? undefined,
+      priority: 'normal',
+      tags: ['sequence'],
+      metadata: {
+        sequenceId: sequence.id,
+        templateId: step.template_id,
+        variant: enrollment.assigned_variant ?? 'control',
+      },
+    };
+  }
+}
+
+/**
+ * Earliest in-window send time at or after `now` for a step
+ */
+function applySendWindowFor(now: Date, step: SequenceStepRow, sequence: SequenceRow): Date {
+  return computeStepDue(now, { ...step, wait_days: 0, wait_hours: 0, wait_minutes: 0 }, sequence);
+}
+
+/**
+ * Map a prospects row to personalization fields
+ */
+function prospectData(prospect: ProspectRow | null): ProspectData {
+  if (!prospect) return {};
+  return {
+    first_name: prospect.person_first_name ?? undefined,
+    last_name: prospect.person_last_name ?? undefined,
+    company: prospect.company_name ?? undefined,
+    title: prospect.person_title ?? undefined,
+    industry: prospect.company_industry ?? undefined,
+    tech_stack: prospect.technologies?.length ? prospect.technologies.join(', ') : undefined,
+    email: prospect.person_email ?? undefined,
+  };
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+/**
+ * Reads sequences and enrollments from Supabase
+ */
+export class SupabaseSequenceStore implements SequenceStore {
+  constructor(private client: SupabaseClient) {}
+
+  async listDueEnrollments(now: Date, limit: number): Promise<EnrollmentRow[]> {
+    const { data, error } = await this.client
+      .from('sequence_enrollments')
+      .select('*')
+      .in('status', ['pending', 'active'])
+      .or(`next_step_due_at.is.null,next_step_due_at.lte.${now.toISOString()}`)
+      .order('next_step_due_at', { ascending: true, nullsFirst: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data ?? []) as EnrollmentRow[];
+  }
+
+  async getSequence(sequenceId: string): Promise<SequenceRow | null> {
+    const { data, error } = await this.client
+      .from('email_sequences')
+      .select('*')
+      .eq('id', sequenceId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as SequenceRow | null;
+  }
+
+  async getSteps(sequenceId: string): Promise<SequenceStepRow[]> {
+    const { data, error } = await this.client
+      .from('email_sequence_steps')
+      .select('*')
+      .eq('sequence_id', sequenceId)
+      .order('step_number', { ascending: true });
+
+    if (error) throw error;
+    return (data ?? []) as SequenceStepRow[];
+  }
+
+  async getTemplate(templateId: string): Promise<TemplateRow | null> {
+    const { data, error } = await this.client
+      .from('email_templates')
+      .select('id, subject, body_html, body_text')
+      .eq('id', templateId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as TemplateRow | null;
+  }
+
+  async getProspect(prospectId: string): Promise<ProspectRow | null> {
+    const { data, error } = await this.client
+      .from('prospects')
+      .select('id, person_email, person_first_name, person_last_name, person_title, company_name, company_industry, technologies')
+      .eq('id', prospectId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as ProspectRow | null;
+  }
+
+  async getEngagement(enrollmentId: string): Promise<EnrollmentEngagement> {
+    const [eventsRes, sendsRes] = await Promise.all([
+      this.client
+        .from('email_events')
+        .select('email_send_id, event_type, occurred_at, event_data')
+        .eq('enrollment_id', enrollmentId)
+        .eq('is_automated', false),
+      this.client
+        .from('email_sends')
+        .select('id, sequence_step_id')
+        .eq('enrollment_id', enrollmentId),
+    ]);
+
+    if (eventsRes.error) throw eventsRes.error;
+    if (sendsRes.error) throw sendsRes.error;
+
+    return {
+      events: (eventsRes.data ?? []) as EmailEventRow[],
+      sends: (sendsRes.data ?? []) as EnrollmentEngagement['sends'],
+    };
+  }
+
+  async hasMeetingSince(prospectId: string, since: Date): Promise<boolean> {
+    const { count, error } = await this.client
+      .from('communications')
+      .select('id', { count: 'exact', head: true })
+      .eq('prospect_id', prospectId)
+      .eq('channel', 'meeting')
+      .gte('created_at', since.toISOString());
+
+    if (error) throw error;
+    return (count ?? 0) > 0;
+  }
+
+  async updateEnrollment(enrollmentId: string, update: EnrollmentUpdate): Promise<void> {
+    const { error } = await this.client
+      .from('sequence_enrollments')
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', enrollmentId);
+
+    if (error) throw error;
+  }
+}
+
+// ============================================================================
+// FACTORY FUNCTIONS
+// ============================================================================
+
+/** Singleton instance */
+let globalSequenceEngine: SequenceEngine | null = null;
+
+/**
+ * Get or create the global sequence engine
+ */
+export function getSequenceEngine(config?: SequenceEngineConfig): SequenceEngine {
+  if (!globalSequenceEngine) {
+    globalSequenceEngine = new SequenceEngine(config);
+  }
+  return globalSequenceEngine;
+}
+
+/**
+ * Reset the global sequence engine (useful for testing)
+ */
+export function resetSequenceEngine(): void {
+  globalSequenceEngine?.stop();
+  globalSequenceEngine = null;
+}
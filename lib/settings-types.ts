@@ -3,6 +3,10 @@ export interface SettingsData {
   confidence_threshold: number;
   auto_execute_enabled: boolean;
   cost_gate_threshold: number;
+  /** Email batches at or below this risk score skip human review (0 = never) */
+  email_auto_approve_max_risk: number;
+  /** Largest batch that may be auto-approved */
+  email_auto_approve_max_batch: number;
   icp_industries: string[];
   icp_company_size: { min: number; max: number };
   icp_geographies: string[];
@@ -16,6 +20,8 @@ export const DEFAULT_SETTINGS: SettingsData = {
   confidence_threshold: 80,
   auto_execute_enabled: true,
   cost_gate_threshold: 1.0,
+  email_auto_approve_max_risk: 0,
+  email_auto_approve_max_batch: 100,
   icp_industries: [],
   icp_company_size: { min: 50, max: 10000 },
   icp_geographies: [],
@@ -8,6 +8,8 @@
 import { skillRegistry } from './registry';
 import type { SkillInput, SkillOutput, SkillContext } from './types';
 import { parseCommand, matchSkill } from '@/lib/nlp/command-parser';
+import { getMetricsRegistry } from '@/lib/metrics-registry';
+import { getTracer } from '@/lib/tracing';
 
 // Ensure all skill handlers are imported so they self-register
 import './register-all';
@@ -66,34 +68,68 @@ export function matchFromText(text: string, context: SkillContext): SkillMatch |
 
 /**
  * Execute a skill by structured input (skillId + params).
+ * Records a skill.execute span and per-skill latency / error metrics.
  */
 export async function executeSkill(input: SkillInput): Promise<SkillOutput> {
+  const skill = skillRegistry.get(input.skillId);
+  // Unregistered ids share one label so free-form input can't grow the series
+  const skillLabel = skill ? skill.id : 'unknown';
+
+  return getTracer().withSpan('skill.execute', {
+    attributes: { 'skill.id': skillLabel, 'skill.source': input.context.source },
+  }, async (span) => {
+    const { output, failure } = await runSkill(input);
+    const seconds = output.executionMs / 1000;
+
+    span.setAttribute('skill.status', output.status);
+    if (failure) span.setStatus('error', failure);
+
+    const registry = getMetricsRegistry();
+    registry.histogram('skill_execution_duration_seconds', { help: 'executeSkill latency by skill', unit: 'seconds' })
+      .observe({ skill_id: skillLabel, status: output.status }, seconds);
+    if (output.status === 'error') {
+      registry.counter('skill_execution_errors', { help: 'executeSkill errors by skill' })
+        .inc({ skill_id: skillLabel, reason: failure ? (skill ? 'exception' : 'unknown_skill') : 'handler' });
+    }
+
+    return output;
+  });
+}
+
+async function runSkill(input: SkillInput): Promise<{ output: SkillOutput; failure?: string }> {
   const start = performance.now();
   const skill = skillRegistry.get(input.skillId);
 
   if (!skill) {
     return {
-      skillId: input.skillId,
-      status: 'error',
-      blocks: [{ type: 'error', message: `Unknown skill: ${input.skillId}`, suggestion: 'Type "help" to see available commands.' }],
-      followUps: [{ label: 'Show help', command: 'help' }],
-      executionMs: Math.round(performance.now() - start),
-      dataFreshness: 'mock',
+      failure: `Unknown skill: ${input.skillId}`,
+      output: {
+        skillId: input.skillId,
+        status: 'error',
+        blocks: [{ type: 'error', message: `Unknown skill: ${input.skillId}`, suggestion: 'Type "help" to see available commands.' }],
+        followUps: [{ label: 'Show help', command: 'help' }],
+        executionMs: Math.round(performance.now() - start),
+        dataFreshness: 'mock',
+      },
     };
   }
 
   try {
     const output = await skill.handler(input);
     output.executionMs = Math.round(performance.now() - start);
-    return output;
+    return { output };
   } catch (err) {
+    getTracer().activeSpan()?.recordException(err);
     return {
-      skillId: input.skillId,
-      status: 'error',
-      blocks: [{ type: 'error', message: err instanceof Error ? err.message : 'Execution failed', suggestion: 'Try again or type "help".' }],
-      followUps: [{ label: 'Show help', command: 'help' }],
-      executionMs: Math.round(performance.now() - start),
-      dataFreshness: 'mock',
+      failure: err instanceof Error ? err.message : 'Execution failed',
+      output: {
+        skillId: input.skillId,
+        status: 'error',
+        blocks: [{ type: 'error', message: err instanceof Error ? err.message : 'Execution failed', suggestion: 'Try again or type "help".' }],
+        followUps: [{ label: 'Show help', command: 'help' }],
+        executionMs: Math.round(performance.now() - start),
+        dataFreshness: 'mock',
+      },
     };
   }
 }
@@ -0,0 +1,258 @@
+/**
+ * Skill: analytics.experiment_results
+ *
+ * Multi-metric A/B experiment readout: primary metric with Holm correction
+ * across variants, plus bounce / unsubscribe / spam complaint guardrails.
+ */
+
+import { skillRegistry } from '../registry';
+import type { SkillInput, SkillOutput, TableBlock, InsightBlock } from '../types';
+import { getServerSupabase } from '@/lib/supabase-server';
+import {
+  DEFAULT_GUARDRAILS,
+  analyzeMultiMetric,
+  countVariantEvents,
+  type MultiMetricAnalysis,
+  type VariantCounts,
+} from '@/src/lib/testing/analysis';
+import type { ABAnalysisMode, ABTestEvent, ABTestGuardrail, ABTestMetric } from '@/types/sequences';
+
+const QUERY_TIMEOUT_MS = 3_000;
+const MAX_TESTS = 5;
+
+const METRIC_LABELS: Record<ABTestMetric, string> = {
+  openRate: 'Open rate',
+  clickRate: 'Click rate',
+  replyRate: 'Reply rate',
+  bookRate: 'Meeting rate',
+};
+
+const DECISION_LABELS: Record<string, string> = {
+  continue: 'Running',
+  winner: 'Winner',
+  stop: 'Stopped',
+  rollback: 'Rolled back',
+};
+
+async function handler(input: SkillInput): Promise<SkillOutput> {
+  const start = Date.now();
+  const testId = input.params.testId as string | undefined;
+
+  const supabase = getServerSupabase();
+  if (!supabase) {
+    return mockResponse(Date.now() - start);
+  }
+
+  try {
+    let query = supabase
+      .from('ab_tests')
+      .select('id, name, status, primary_metric, analysis_mode, confidence_threshold, min_sample, guardrails, ab_test_variants(id, variant_key, name, is_control, stopped_at)')
+      .order('updated_at', { ascending: false })
+      .limit(MAX_TESTS);
+    query = testId ? query.eq('id', testId) : query.in('status', ['running', 'paused']);
+
+    const { data: tests, error } = await Promise.race([
+      query,
+      new Promise<never>((_, reject) =>
+        setTimeout(() => reject(new Error('Supabase query timeout')), QUERY_TIMEOUT_MS)
+      ),
+    ]);
+
+    if (error || !tests || tests.length === 0) {
+      return mockResponse(Date.now() - start);
+    }
+
+    const { data: events, error: eventsError } = await supabase
+      .from('ab_test_events')
+      .select('test_id, variant_id, event_type, created_at')
+      .in('test_id', tests.map(t => t.id));
+
+    if (eventsError) throw eventsError;
+
+    const blocks: SkillOutput['blocks'] = [];
+    for (const test of tests) {
+      const variants = (test.ab_test_variants ?? []) as Array<{ id: string; variant_key: string; name: string; is_control: boolean }>;
+      const metric = test.primary_metric as ABTestMetric;
+      const counts = countVariantEvents(
+        (events ?? [])
+          .filter(e => e.test_id === test.id)
+          .map(e => ({ variantId: e.variant_id, eventType: e.event_type as ABTestEvent['eventType'], createdAt: e.created_at })),
+        variants.map(v => ({ id: v.id, variantKey: v.variant_key, isControl: v.is_control })),
+        metric
+      );
+
+      const analysis = analyzeMultiMetric(counts, {
+        testId: test.id,
+        metric,
+        mode: (test.analysis_mode as ABAnalysisMode | null) ?? 'frequentist',
+        confidenceThreshold: test.confidence_threshold ?? 0.95,
+        guardrails: (test.guardrails as ABTestGuardrail[] | null) ?? DEFAULT_GUARDRAILS,
+        minSample: test.min_sample ?? 0,
+      });
+
+      blocks.push(variantTable(test.name, counts, analysis), experimentInsight(test.name, analysis));
+    }
+
+    return {
+      skillId: 'analytics.experiment_results',
+      status: 'success',
+      blocks,
+      followUps: [
+        { label: 'Pipeline summary', command: 'show pipeline health' },
+        { label: 'Drill into reply rate', command: 'drill into reply rate' },
+      ],
+      executionMs: Date.now() - start,
+      dataFreshness: 'live',
+    };
+  } catch (err) {
+    console.error('analytics.experiment_results error:', err);
+    return mockResponse(Date.now() - start);
+  }
+}
+
+/**
+ * One row per variant: primary result, guardrail rates and the decision
+ */
+function variantTable(name: string, counts: VariantCounts[], analysis: MultiMetricAnalysis): TableBlock {
+  return {
+    type: 'table',
+    title: `${name} — ${METRIC_LABELS[analysis.primaryMetric]}`,
+    columns: [
+      { key: 'variant', label: 'Variant' },
+      { key: 'sent', label: 'Sent', format: 'number' },
+      { key: 'rate', label: METRIC_LABELS[analysis.primaryMetric], format: 'percent' },
+      { key: 'lift', label: 'Lift', format: 'percent' },
+      { key: 'adjustedP', label: 'Adj. p', format: 'number' },
+      { key: 'bounceRate', label: 'Bounce', format: 'percent' },
+      { key: 'unsubscribeRate', label: 'Unsub', format: 'percent' },
+      { key: 'decision', label: 'Status', format: 'badge' },
+    ],
+    rows: analysis.results.map(result => {
+      const c = counts.find(v => v.variantId === result.variantId)!;
+      const sent = Math.max(c.sent, 1);
+      return {
+        variant: result.isControl ? `${result.variantKey.toUpperCase()} (control)` : result.variantKey.toUpperCase(),
+        sent: c.sent,
+        rate: round(result.metrics[analysis.primaryMetric]),
+        lift: result.statistics.liftVsControl !== undefined ? round(result.statistics.liftVsControl) : null,
+        adjustedP: result.statistics.adjustedPValue !== undefined ? round(result.statistics.adjustedPValue, 3) : null,
+        bounceRate: round((c.bounced / sent) * 100),
+        unsubscribeRate: round((c.unsubscribed / sent) * 100),
+        decision: DECISION_LABELS[analysis.decisions[result.variantId]],
+      };
+    }),
+  };
+}
+
+/**
+ * Summarize an analysis: guardrail breaches outrank a primary-metric win
+ */
+export function experimentInsight(name: string, analysis: MultiMetricAnalysis): InsightBlock {
+  const label = METRIC_LABELS[analysis.primaryMetric];
+  const keyOf = (variantId: string) =>
+    analysis.results.find(r => r.variantId === variantId)?.variantKey.toUpperCase() ?? variantId;
+  const breaches = analysis.guardrails.filter(c => c.breached);
+  const breachText = breaches.map(c => `Variant ${keyOf(c.variantId)}: ${c.reason}.`).join(' ');
+  const treatments = analysis.results.filter(r => !r.isControl);
+  const bestP = Math.min(1, ...treatments.map(r => r.statistics.adjustedPValue ?? 1));
+  const correction = `Holm-corrected across ${analysis.comparisons} comparison${analysis.comparisons === 1 ? '' : 's'}`;
+
+  if (breaches.some(c => c.action === 'rollback')) {
+    return {
+      type: 'insight',
+      title: `${name}: rolled back to control`,
+      description: `${breachText} All traffic returns to control regardless of ${label.toLowerCase()}.`,
+      severity: 'critical',
+      confidence: 1 - Math.min(...breaches.map(c => c.pValue)),
+    };
+  }
+
+  const winner = analysis.results.find(r => r.variantId === analysis.winnerId);
+  const winnerText = winner
+    ? `Variant ${winner.variantKey.toUpperCase()} wins on ${label.toLowerCase()} (${round(winner.metrics[analysis.primaryMetric])}%, +${round(winner.statistics.liftVsControl ?? 0)}% lift, adj. p = ${round(winner.statistics.adjustedPValue ?? 1, 3)}; ${correction}).`
+    : '';
+
+  if (breaches.length > 0) {
+    return {
+      type: 'insight',
+      title: `${name}: ${new Set(breaches.map(c => c.variantId)).size === 1 ? `variant ${keyOf(breaches[0].variantId)}` : 'variants'} stopped on guardrails`,
+      description: `${breachText} ${winnerText}`.trim(),
+      severity: 'warning',
+      confidence: 1 - Math.min(...breaches.map(c => c.pValue)),
+    };
+  }
+
+  if (winner) {
+    return {
+      type: 'insight',
+      title: `${name}: variant ${winner.variantKey.toUpperCase()} wins`,
+      description: `${winnerText} No guardrails breached.`,
+      severity: 'success',
+      confidence: 1 - (winner.statistics.adjustedPValue ?? 1),
+    };
+  }
+
+  const leader = [...treatments].sort((a, b) => (b.statistics.liftVsControl ?? 0) - (a.statistics.liftVsControl ?? 0))[0];
+  return {
+    type: 'insight',
+    title: `${name}: no winner yet`,
+    description: leader
+      ? `Variant ${leader.variantKey.toUpperCase()} leads on ${label.toLowerCase()} at ${round(leader.statistics.liftVsControl ?? 0)}% lift, not yet significant (${correction}, adj. p = ${round(leader.statistics.adjustedPValue ?? 1, 3)}). Guardrails healthy.`
+      : 'No variants to compare yet.',
+    severity: 'info',
+    confidence: 1 - bestP,
+  };
+}
+
+function round(value: number, digits: number = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function mockResponse(executionMs: number): SkillOutput {
+  const counts: VariantCounts[] = [
+    { variantId: 'mock-a', variantKey: 'a', isControl: true, sent: 1200, opened: 540, clicked: 60, replied: 42, booked: 9, bounced: 18, unsubscribed: 6, complained: 0 },
+    { variantId: 'mock-b', variantKey: 'b', isControl: false, sent: 1180, opened: 566, clicked: 71, replied: 78, booked: 15, bounced: 20, unsubscribed: 7, complained: 1 },
+    { variantId: 'mock-c', variantKey: 'c', isControl: false, sent: 1210, opened: 610, clicked: 64, replied: 81, booked: 14, bounced: 74, unsubscribed: 9, complained: 1 },
+  ];
+  const analysis = analyzeMultiMetric(counts, {
+    testId: 'mock-test',
+    metric: 'replyRate',
+    mode: 'frequentist',
+    minSample: 500,
+  });
+  const name = 'Q3 opener test';
+
+  return {
+    skillId: 'analytics.experiment_results',
+    status: 'success',
+    blocks: [variantTable(name, counts, analysis), experimentInsight(name, analysis)],
+    followUps: [
+      { label: 'Pipeline summary', command: 'show pipeline health' },
+      { label: 'Drill into reply rate', command: 'drill into reply rate' },
+    ],
+    executionMs,
+    dataFreshness: 'mock',
+  };
+}
+
+skillRegistry.register({
+  id: 'analytics.experiment_results',
+  name: 'Experiment Results',
+  description: 'A/B experiment readout with multiple-comparison correction and guardrail checks.',
+  domain: 'analytics',
+  inputSchema: { testId: { type: 'string', optional: true } },
+  responseType: ['table', 'insight'],
+  triggerPatterns: [
+    '\\b(experiments?|a/b|ab tests?|split tests?|variants?)\\b',
+    '\\b(guardrails?|bounces?|unsubscribes?|spam complaints?)\\b',
+    '\\b(winner|winning|lift|significan\\w*)\\b',
+  ],
+  estimatedMs: 500,
+  examples: [
+    'show experiment results',
+    'which A/B variant is winning',
+    'check experiment guardrails',
+  ],
+  handler,
+});
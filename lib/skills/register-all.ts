@@ -4,6 +4,7 @@
  */
 import './handlers/analytics-pipeline';
 import './handlers/analytics-kpi';
+import './handlers/analytics-experiments';
 import './handlers/research-search';
 import './handlers/research-enrich';
 import './handlers/intel-recommendations';
@@ -0,0 +1,182 @@
+/**
+ * Client-side research job progress watcher.
+ *
+ * Streams GET /api/research/jobs/[id]/progress with
+ * `Accept: text/event-stream` and resumes with Last-Event-ID after a dropped
+ * connection, so no event is missed. While the stream is unavailable it
+ * polls the JSON endpoint instead and keeps retrying the stream with
+ * backoff; polling stops as soon as the stream is back.
+ */
+
+import { parseSSEBuffer } from './parse-sse';
+
+/** Job statuses as the progress endpoint reports them */
+export type JobProgressStatus =
+  | 'pending'
+  | 'queued'
+  | 'running'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+/** Latest known progress of one job */
+export interface JobProgress {
+  status: JobProgressStatus;
+  percentage: number;
+  processed?: number;
+  total?: number;
+  errorCount?: number;
+}
+
+export interface WatchJobProgressOptions {
+  /** Poll interval while the stream is unavailable */
+  pollIntervalMs?: number;
+  /** Delay before reconnecting; doubles per failed attempt */
+  retryDelayMs?: number;
+  fetchImpl?: typeof fetch;
+}
+
+/** Snapshot frames and the JSON endpoint share this shape */
+interface ProgressSnapshot {
+  status: JobProgressStatus;
+  progress: { percentage: number; processed: number; total: number };
+  counts?: { error?: number };
+}
+
+/** `progress` / `status` frames */
+interface ProgressEvent {
+  status: JobProgressStatus;
+  percentage?: number;
+  processed?: number;
+  total?: number;
+  errorCount?: number;
+}
+
+const FINISHED_STATUSES: JobProgressStatus[] = ['completed', 'failed', 'cancelled'];
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+/**
+ * Watch a job until it finishes or the returned function is called
+ */
+export function watchJobProgress(
+  jobId: string,
+  onProgress: (progress: JobProgress) => void,
+  options: WatchJobProgressOptions = {}
+): () => void {
+  const fetchImpl = options.fetchImpl ?? globalThis.fetch.bind(globalThis);
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  const url = `/api/research/jobs/${encodeURIComponent(jobId)}/progress`;
+  const controller = new AbortController();
+
+  let current: JobProgress | null = null;
+  let lastEventId: string | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | undefined;
+  let failures = 0;
+
+  const finished = () => controller.signal.aborted || (current !== null && FINISHED_STATUSES.includes(current.status));
+
+  const apply = (next: JobProgress) => {
+    current = next;
+    onProgress(next);
+  };
+
+  const poll = async () => {
+    try {
+      const res = await fetchImpl(url, { signal: controller.signal });
+      if (res.ok) apply(fromSnapshot(await res.json() as ProgressSnapshot));
+    } catch {
+      // Try again on the next tick
+    }
+  };
+
+  const stopPolling = () => {
+    clearInterval(pollTimer);
+    pollTimer = undefined;
+  };
+
+  const startPolling = () => {
+    if (pollTimer) return;
+    void poll();
+    pollTimer = setInterval(() => void poll(), pollIntervalMs);
+  };
+
+  const listen = async () => {
+    const headers: Record<string, string> = { Accept: 'text/event-stream' };
+    if (lastEventId) headers['Last-Event-ID'] = lastEventId;
+
+    const res = await fetchImpl(url, { headers, signal: controller.signal });
+    if (!res.ok || !res.body) throw new Error(`HTTP ${res.status}`);
+    failures = 0;
+    stopPolling();
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (!finished()) {
+        const { value, done } = await reader.read();
+        if (done) return;
+
+        const parsed = parseSSEBuffer(buffer + decoder.decode(value, { stream: true }));
+        buffer = parsed.remaining;
+
+        for (const evt of parsed.events) {
+          if (evt.id) lastEventId = evt.id;
+          const data = JSON.parse(evt.data);
+          if (evt.event === 'snapshot') apply(fromSnapshot(data as ProgressSnapshot));
+          else if (evt.event === 'progress' || evt.event === 'status') apply(fromEvent(data as ProgressEvent, current));
+        }
+      }
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+  };
+
+  void (async () => {
+    while (!finished()) {
+      try {
+        await listen();
+      } catch {
+        if (controller.signal.aborted) break;
+        failures++;
+        startPolling();
+      }
+      if (finished()) break;
+
+      // Reconnect (with Last-Event-ID); back off while the stream keeps failing
+      const delay = Math.min(retryDelayMs * 2 ** Math.max(0, failures - 1), MAX_RETRY_DELAY_MS);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+    stopPolling();
+  })();
+
+  return () => {
+    controller.abort();
+    stopPolling();
+  };
+}
+
+function fromSnapshot(snapshot: ProgressSnapshot): JobProgress {
+  return {
+    status: snapshot.status,
+    percentage: snapshot.progress.percentage,
+    processed: snapshot.progress.processed,
+    total: snapshot.progress.total,
+    errorCount: snapshot.counts?.error,
+  };
+}
+
+function fromEvent(event: ProgressEvent, previous: JobProgress | null): JobProgress {
+  return {
+    status: event.status,
+    percentage: event.percentage ?? previous?.percentage ?? 0,
+    processed: event.processed ?? previous?.processed,
+    total: event.total ?? previous?.total,
+    errorCount: event.errorCount ?? previous?.errorCount,
+  };
+}
@@ -1,14 +1,16 @@
 /**
  * Client-side SSE (Server-Sent Events) buffer parser.
  *
- * Splits a raw text buffer on double-newline boundaries, extracts `event:`
- * and `data:` fields from each complete frame, and returns any leftover
+ * Splits a raw text buffer on double-newline boundaries, extracts `event:`,
+ * `id:` and `data:` fields from each complete frame, and returns any leftover
  * bytes so the caller can prepend them to the next chunk.
  */
 
 export interface SSEEvent {
   event: string;
   data: string;
+  /** Value of the frame's `id:` line, if any (the stream's resume cursor) */
+  id?: string;
 }
 
 export interface ParseResult {
@@ -21,6 +23,7 @@ export interface ParseResult {
  *
  * Each SSE frame is delimited by `\n\n`. A frame may contain:
  *   event: <name>\n
+ *   id: <cursor>\n
  *   data: <payload>\n
  *
  * If no `event:` line is present the event name defaults to `"message"`.
@@ -37,11 +40,14 @@ export function parseSSEBuffer(buffer: string): ParseResult {
     if (!frame.trim()) continue;
 
     let eventName = 'message';
+    let id: string | undefined;
     const dataLines: string[] = [];
 
     for (const line of frame.split('\n')) {
       if (line.startsWith('event:')) {
         eventName = line.slice(6).trim();
+      } else if (line.startsWith('id:')) {
+        id = line.slice(3).trim();
       } else if (line.startsWith('data:')) {
         dataLines.push(line.slice(5).trimStart());
       }
@@ -49,7 +55,9 @@ export function parseSSEBuffer(buffer: string): ParseResult {
     }
 
     if (dataLines.length > 0) {
-      events.push({ event: eventName, data: dataLines.join('\n') });
+      const event: SSEEvent = { event: eventName, data: dataLines.join('\n') };
+      if (id !== undefined) event.id = id;
+      events.push(event);
     }
   }
 
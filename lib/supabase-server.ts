@@ -1,13 +1,24 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { tracedFetch } from './tracing';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
 
+const supabaseFetch = tracedFetch({
+  attributes: { 'db.system': 'postgresql', 'peer.service': 'supabase' },
+  // /rest/v1/<table>, /rest/v1/rpc/<fn>, /auth/v1/..., /storage/v1/...
+  spanName: (method, url) => `supabase ${method} ${url.pathname.replace(/^\/(rest|auth|storage)\/v1\//, '')}`,
+});
+
 /**
  * Returns a server-side Supabase client, or null if env vars are missing.
  * Every API route should use this instead of inline createClient calls.
+ * Requests go through tracedFetch, so each query shows up as a client span.
  */
 export function getServerSupabase(): SupabaseClient | null {
   if (!supabaseUrl || !supabaseKey) return null;
-  return createClient(supabaseUrl, supabaseKey);
+  return createClient(supabaseUrl, supabaseKey, {
+    global: { fetch: supabaseFetch },
+  });
 }
+
@@ -0,0 +1,607 @@
+/**
+ * Suppression List - Unsubscribes, Bounces & Complaints
+ *
+ * Decides whether a recipient may be emailed at all:
+ * - Address and domain suppressions (domains cover their subdomains)
+ * - Global entries and workspace-scoped entries
+ * - Optional expiry for temporary suppressions
+ * - Signed one-click unsubscribe tokens and RFC 8058 headers
+ * - Bulk CSV import and export
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { extractDomain } from './rate-limiter';
+import { getServerSupabase } from './supabase-server';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** What a suppression matches */
+export type SuppressionType = 'address' | 'domain';
+
+/** Why a recipient is suppressed */
+export type SuppressionReason =
+  | 'unsubscribe'
+  | 'hard_bounce'
+  | 'spam_complaint'
+  | 'manual'
+  | 'import';
+
+/** email_suppressions row */
+export interface SuppressionEntry {
+  suppression_type: SuppressionType;
+  /** Lowercased address or domain */
+  value: string;
+  /** Workspace the entry applies to (null = every workspace) */
+  workspace_id: string | null;
+  reason: SuppressionReason;
+  source: string | null;
+  notes: string | null;
+  created_at: string;
+  expires_at: string | null;
+}
+
+/** Input for adding a suppression */
+export interface SuppressionInput {
+  type?: SuppressionType;
+  value: string;
+  workspaceId?: string | null;
+  reason?: SuppressionReason;
+  source?: string;
+  notes?: string;
+  expiresAt?: Date | null;
+}
+
+/** Filter for listing suppressions */
+export interface SuppressionFilter {
+  workspaceId?: string | null;
+  type?: SuppressionType;
+  reason?: SuppressionReason;
+  limit?: number;
+}
+
+/** Result of checking a recipient */
+export interface SuppressionCheck {
+  suppressed: boolean;
+  entry?: SuppressionEntry;
+}
+
+/** Result of a bulk import */
+export interface SuppressionImportResult {
+  imported: number;
+  skipped: number;
+  errors: Array<{ line: number; error: string }>;
+}
+
+/** Decoded unsubscribe token */
+export interface UnsubscribeTokenPayload {
+  email: string;
+  workspaceId?: string;
+  /** Send the unsubscribe came from, for attribution */
+  sendId?: string;
+}
+
+/** Storage for suppression entries */
+export interface SuppressionStore {
+  /** Entries matching any of the values (either scope) */
+  findMatches(addresses: string[], domains: string[], workspaceId: string | null): Promise<SuppressionEntry[]>;
+  /** Insert or refresh entries, returning how many were written */
+  upsert(entries: SuppressionEntry[]): Promise<number>;
+  remove(type: SuppressionType, value: string, workspaceId: string | null): Promise<boolean>;
+  list(filter: SuppressionFilter): Promise<SuppressionEntry[]>;
+}
+
+/** Suppression list configuration */
+export interface SuppressionListConfig {
+  store?: SuppressionStore;
+  /** Unsubscribe signing secret (default: EMAIL_UNSUBSCRIBE_SECRET or EMAIL_TRACKING_SECRET) */
+  secret?: string;
+  /** Public app URL hosting the unsubscribe route (default: NEXT_PUBLIC_APP_URL) */
+  baseUrl?: string;
+  /** Optional mailto: fallback for List-Unsubscribe */
+  mailto?: string;
+  /** Clock (overridable for tests) */
+  now?: () => Date;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const UNSUBSCRIBE_PATH = '/api/email/unsubscribe';
+
+export const SUPPRESSION_CSV_COLUMNS = [
+  'type',
+  'value',
+  'workspace_id',
+  'reason',
+  'source',
+  'notes',
+  'created_at',
+  'expires_at',
+] as const;
+
+const SUPPRESSION_REASONS: SuppressionReason[] = ['unsubscribe', 'hard_bounce', 'spam_complaint', 'manual', 'import'];
+
+const MAX_IMPORT_ROWS = 50000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Normalize an address or domain for storage and lookup
+ */
+export function normalizeSuppressionValue(value: string): string {
+  return value.trim().toLowerCase().replace(/^mailto:/, '').replace(/^@/, '');
+}
+
+/**
+ * A domain and all its parent domains (sub.acme.com -> acme.com)
+ */
+function domainCandidates(domain: string): string[] {
+  const parts = domain.split('.');
+  const candidates: string[] = [];
+  for (let i = 0; i < parts.length - 1; i++) {
+    candidates.push(parts.slice(i).join('.'));
+  }
+  return candidates;
+}
+
+function inferType(value: string): SuppressionType {
+  return value.includes('@') ? 'address' : 'domain';
+}
+
+function isValidValue(type: SuppressionType, value: string): boolean {
+  return type === 'address'
+    ? /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)
+    : /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(value);
+}
+
+function csvEscape(value: string | null): string {
+  if (value === null) return '';
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Split CSV text into rows (RFC 4180 quoting)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// ============================================================================
+// UNSUBSCRIBE TOKENS
+// ============================================================================
+
+/**
+ * Unsubscribe secret from the environment
+ */
+export function getUnsubscribeSecret(): string | undefined {
+  return process.env.EMAIL_UNSUBSCRIBE_SECRET || process.env.EMAIL_TRACKING_SECRET || undefined;
+}
+
+/**
+ * Create a signed one-click unsubscribe token
+ */
+export function createUnsubscribeToken(payload: UnsubscribeTokenPayload, secret: string): string {
+  const body = Buffer.from(JSON.stringify({
+    e: payload.email.toLowerCase(),
+    ...(payload.workspaceId ? { w: payload.workspaceId } : {}),
+    ...(payload.sendId ? { s: payload.sendId } : {}),
+  })).toString('base64url');
+  const signature = createHmac('sha256', secret).update(`unsubscribe.${body}`).digest('base64url');
+  return `${body}.${signature}`;
+}
+
+/**
+ * Verify an unsubscribe token, returning its payload or null when tampered
+ */
+export function verifyUnsubscribeToken(token: string | null, secret: string): UnsubscribeTokenPayload | null {
+  if (!token) return null;
+
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const provided = Buffer.from(signature, 'base64url');
+  const expected = createHmac('sha256', secret).update(`unsubscribe.${body}`).digest();
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return null;
+  }
+
+  try {
+    const compact = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as { e?: string; w?: string; s?: string };
+    if (!compact.e) return null;
+    return { email: compact.e, workspaceId: compact.w, sendId: compact.s };
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// SUPPRESSION LIST
+// ============================================================================
+
+/**
+ * Suppression List
+ *
+ * Checked by EmailProcessor before every send. Workspace checks include
+ * global entries; global checks only see global entries.
+ */
+export class SuppressionList {
+  private store: SuppressionStore;
+  private secret?: string;
+  private baseUrl: string;
+  private mailto?: string;
+  private now: () => Date;
+
+  constructor(config: SuppressionListConfig = {}) {
+    this.store = config.store ?? new InMemorySuppressionStore();
+    this.secret = config.secret ?? getUnsubscribeSecret();
+    this.baseUrl = (config.baseUrl ?? process.env.NEXT_PUBLIC_APP_URL ?? '').replace(/\/$/, '');
+    this.mailto = config.mailto;
+    this.now = config.now ?? (() => new Date());
+  }
+
+  /**
+   * Swap the backing store (e.g. per-request Supabase client)
+   */
+  setStore(store: SuppressionStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Check whether a recipient is suppressed
+   */
+  async check(email: string, workspaceId?: string | null): Promise<SuppressionCheck> {
+    const address = normalizeSuppressionValue(email);
+    const domain = extractDomain(address);
+    const now = this.now().getTime();
+
+    const matches = (await this.store.findMatches([address], domainCandidates(domain), workspaceId ?? null))
+      .filter(entry => !entry.expires_at || new Date(entry.expires_at).getTime() > now);
+
+    if (matches.length === 0) return { suppressed: false };
+
+    // Prefer the most specific match for reporting
+    const entry = matches.find(m => m.suppression_type === 'address') ?? matches[0];
+    return { suppressed: true, entry };
+  }
+
+  /**
+   * Add (or refresh) one suppression
+   */
+  async suppress(input: SuppressionInput): Promise<SuppressionEntry> {
+    const entry = this.toEntry(input);
+    if (!isValidValue(entry.suppression_type, entry.value)) {
+      throw new Error(`Invalid ${entry.suppression_type} suppression: ${input.value}`);
+    }
+    await this.store.upsert([entry]);
+    return entry;
+  }
+
+  /**
+   * Remove a suppression
+   */
+  async unsuppress(value: string, workspaceId?: string | null, type?: SuppressionType): Promise<boolean> {
+    const normalized = normalizeSuppressionValue(value);
+    return this.store.remove(type ?? inferType(normalized), normalized, workspaceId ?? null);
+  }
+
+  /**
+   * List suppressions
+   */
+  async list(filter: SuppressionFilter = {}): Promise<SuppressionEntry[]> {
+    return this.store.list(filter);
+  }
+
+  /**
+   * Import suppressions from CSV.
+   *
+   * Accepts the export format (type,value,...), a header with an `email`
+   * or `domain` column, or a bare list of one address/domain per line.
+   */
+  async importCsv(csv: string, defaults: Omit<SuppressionInput, 'value' | 'type'> = {}): Promise<SuppressionImportResult> {
+    const rows = parseCsv(csv).filter(row => row.some(cell => cell.trim() !== ''));
+    const result: SuppressionImportResult = { imported: 0, skipped: 0, errors: [] };
+    if (rows.length === 0) return result;
+
+    if (rows.length > MAX_IMPORT_ROWS + 1) {
+      throw new Error(`Import exceeds ${MAX_IMPORT_ROWS} rows`);
+    }
+
+    const header = rows[0].map(cell => cell.trim().toLowerCase());
+    const valueIndex = ['value', 'email', 'domain'].map(name => header.indexOf(name)).find(i => i >= 0) ?? -1;
+    const hasHeader = valueIndex >= 0;
+    const column = (row: string[], name: string) => {
+      const index = header.indexOf(name);
+      return hasHeader && index >= 0 ? row[index]?.trim() || undefined : undefined;
+    };
+
+    const entries = new Map<string, SuppressionEntry>();
+    rows.slice(hasHeader ? 1 : 0).forEach((row, i) => {
+      const line = i + (hasHeader ? 2 : 1);
+      const raw = hasHeader ? row[valueIndex] : row[0];
+      if (!raw?.trim()) {
+        result.skipped++;
+        return;
+      }
+
+      const reason = column(row, 'reason') as SuppressionReason | undefined;
+      if (reason && !SUPPRESSION_REASONS.includes(reason)) {
+        result.errors.push({ line, error: `Unknown reason: ${reason}` });
+        return;
+      }
+
+      const type = (column(row, 'type') as SuppressionType | undefined)
+        ?? ({ email: 'address', domain: 'domain' } as Record<string, SuppressionType>)[header[valueIndex]];
+      const expires = column(row, 'expires_at');
+      const entry = this.toEntry({
+        ...defaults,
+        type,
+        value: raw,
+        workspaceId: column(row, 'workspace_id') ?? defaults.workspaceId,
+        reason: reason ?? defaults.reason ?? 'import',
+        source: column(row, 'source') ?? defaults.source ?? 'import',
+        notes: column(row, 'notes') ?? defaults.notes,
+        expiresAt: expires ? new Date(expires) : defaults.expiresAt,
+      });
+
+      if (!isValidValue(entry.suppression_type, entry.value)) {
+        result.errors.push({ line, error: `Invalid ${entry.suppression_type}: ${raw.trim()}` });
+        return;
+      }
+
+      const key = `${entry.suppression_type}:${entry.value}:${entry.workspace_id ?? ''}`;
+      if (entries.has(key)) {
+        result.skipped++;
+        return;
+      }
+      entries.set(key, entry);
+    });
+
+    result.imported = entries.size > 0 ? await this.store.upsert(Array.from(entries.values())) : 0;
+    return result;
+  }
+
+  /**
+   * Export suppressions as CSV (importable with importCsv)
+   */
+  async exportCsv(filter: SuppressionFilter = {}): Promise<string> {
+    const entries = await this.store.list(filter);
+    const lines = entries.map(entry => [
+      entry.suppression_type,
+      entry.value,
+      entry.workspace_id,
+      entry.reason,
+      entry.source,
+      entry.notes,
+      entry.created_at,
+      entry.expires_at,
+    ].map(csvEscape).join(','));
+
+    return [SUPPRESSION_CSV_COLUMNS.join(','), ...lines].join('\n') + '\n';
+  }
+
+  /**
+   * RFC 8058 one-click unsubscribe headers for a recipient.
+   *
+   * Returns no headers when no unsubscribe secret is configured.
+   */
+  buildUnsubscribeHeaders(email: string, options: { workspaceId?: string; sendId?: string } = {}): Record<string, string> {
+    if (!this.secret || !this.baseUrl) return {};
+
+    const token = createUnsubscribeToken({ email, ...options }, this.secret);
+    const targets = [`<${this.baseUrl}${UNSUBSCRIBE_PATH}?t=${token}>`];
+    if (this.mailto) {
+      targets.push(`<mailto:${this.mailto}?subject=unsubscribe>`);
+    }
+
+    return {
+      'List-Unsubscribe': targets.join(', '),
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    };
+  }
+
+  /**
+   * Verify a one-click unsubscribe token
+   */
+  verifyToken(token: string | null): UnsubscribeTokenPayload | null {
+    return this.secret ? verifyUnsubscribeToken(token, this.secret) : null;
+  }
+
+  // Private helper methods
+
+  private toEntry(input: SuppressionInput): SuppressionEntry {
+    const value = normalizeSuppressionValue(input.value);
+    return {
+      suppression_type: input.type ?? inferType(value),
+      value,
+      workspace_id: input.workspaceId ?? null,
+      reason: input.reason ?? 'manual',
+      source: input.source ?? null,
+      notes: input.notes ?? null,
+      created_at: this.now().toISOString(),
+      expires_at: input.expiresAt ? input.expiresAt.toISOString() : null,
+    };
+  }
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+/**
+ * In-memory suppression store (default; lost on restart)
+ */
+export class InMemorySuppressionStore implements SuppressionStore {
+  private entries = new Map<string, SuppressionEntry>();
+
+  async findMatches(addresses: string[], domains: string[], workspaceId: string | null): Promise<SuppressionEntry[]> {
+    return Array.from(this.entries.values()).filter(entry =>
+      (entry.workspace_id === null || entry.workspace_id === workspaceId) &&
+      (entry.suppression_type === 'address' ? addresses : domains).includes(entry.value)
+    );
+  }
+
+  async upsert(entries: SuppressionEntry[]): Promise<number> {
+    for (const entry of entries) {
+      this.entries.set(this.key(entry.suppression_type, entry.value, entry.workspace_id), entry);
+    }
+    return entries.length;
+  }
+
+  async remove(type: SuppressionType, value: string, workspaceId: string | null): Promise<boolean> {
+    return this.entries.delete(this.key(type, value, workspaceId));
+  }
+
+  async list(filter: SuppressionFilter): Promise<SuppressionEntry[]> {
+    return Array.from(this.entries.values())
+      .filter(entry => filter.workspaceId === undefined || entry.workspace_id === filter.workspaceId)
+      .filter(entry => !filter.type || entry.suppression_type === filter.type)
+      .filter(entry => !filter.reason || entry.reason === filter.reason)
+      .slice(0, filter.limit ?? Infinity);
+  }
+
+  private key(type: SuppressionType, value: string, workspaceId: string | null): string {
+    return `${type}:${value}:${workspaceId ?? ''}`;
+  }
+}
+
+const SUPPRESSION_COLUMNS = 'suppression_type, value, workspace_id, reason, source, notes, created_at, expires_at';
+
+/**
+ * Suppressions backed by the email_suppressions table
+ */
+export class SupabaseSuppressionStore implements SuppressionStore {
+  constructor(private client: SupabaseClient) {}
+
+  async findMatches(addresses: string[], domains: string[], workspaceId: string | null): Promise<SuppressionEntry[]> {
+    const values = [...addresses, ...domains];
+    let query = this.client
+      .from('email_suppressions')
+      .select(SUPPRESSION_COLUMNS)
+      .in('value', values);
+
+    query = workspaceId
+      ? query.or(`workspace_id.is.null,workspace_id.eq."${workspaceId}"`)
+      : query.is('workspace_id', null);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    // Both lists share the value column; keep type-consistent matches only
+    return ((data ?? []) as SuppressionEntry[]).filter(entry =>
+      (entry.suppression_type === 'address' ? addresses : domains).includes(entry.value)
+    );
+  }
+
+  async upsert(entries: SuppressionEntry[]): Promise<number> {
+    const { error } = await this.client
+      .from('email_suppressions')
+      .upsert(entries, { onConflict: 'suppression_type,value,workspace_id' });
+
+    if (error) throw error;
+    return entries.length;
+  }
+
+  async remove(type: SuppressionType, value: string, workspaceId: string | null): Promise<boolean> {
+    let query = this.client
+      .from('email_suppressions')
+      .delete({ count: 'exact' })
+      .eq('suppression_type', type)
+      .eq('value', value);
+
+    query = workspaceId ? query.eq('workspace_id', workspaceId) : query.is('workspace_id', null);
+
+    const { count, error } = await query;
+    if (error) throw error;
+    return (count ?? 0) > 0;
+  }
+
+  async list(filter: SuppressionFilter): Promise<SuppressionEntry[]> {
+    let query = this.client
+      .from('email_suppressions')
+      .select(SUPPRESSION_COLUMNS)
+      .order('created_at', { ascending: false })
+      .limit(filter.limit ?? MAX_IMPORT_ROWS);
+
+    if (filter.workspaceId !== undefined) {
+      query = filter.workspaceId ? query.eq('workspace_id', filter.workspaceId) : query.is('workspace_id', null);
+    }
+    if (filter.type) query = query.eq('suppression_type', filter.type);
+    if (filter.reason) query = query.eq('reason', filter.reason);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data ?? []) as SuppressionEntry[];
+  }
+}
+
+// ============================================================================
+// FACTORY FUNCTIONS
+// ============================================================================
+
+/** Singleton instance */
+let globalSuppressionList: SuppressionList | null = null;
+
+/**
+ * Get or create the global suppression list, reading email_suppressions when
+ * Supabase is configured
+ */
+export function getSuppressionList(config?: SuppressionListConfig): SuppressionList {
+  if (!globalSuppressionList) {
+    const supabase = getServerSupabase();
+    globalSuppressionList = new SuppressionList({
+      store: supabase ? new SupabaseSuppressionStore(supabase) : undefined,
+      ...config,
+    });
+  }
+  return globalSuppressionList;
+}
+
+/**
+ * Reset the global suppression list (useful for testing)
+ */
+export function resetSuppressionList(): void {
+  globalSuppressionList = null;
+}
@@ -0,0 +1,407 @@
+/**
+ * Template Linter - Deliverability & Correctness Checks
+ *
+ * Scores email templates before they go out:
+ * - Spam trigger phrases in the subject and body
+ * - Excessive links and images, image-heavy bodies
+ * - All-caps subjects
+ * - HTML bodies without a plain-text alternative
+ * - Broken {{tokens}}, unused required_fields and tokens that can render raw
+ * - Missing unsubscribe / opt-out link
+ *
+ * The 0-100 score and factor list feed email_approval_queue.risk_score /
+ * risk_factors and SequenceBuilder.validate().
+ */
+
+import {
+  parseTemplate,
+  analyzeTemplate,
+  collectRootPaths,
+  TemplateSyntaxError,
+  type TemplateAst,
+  type TemplateNode,
+} from './template-parser';
+import { TEMPLATE_HELPERS, hasDefaultValue } from './personalization';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LintRule =
+  | 'template_syntax'
+  | 'missing_required_field'
+  | 'unguarded_token'
+  | 'spam_phrase'
+  | 'too_many_links'
+  | 'too_many_images'
+  | 'image_heavy'
+  | 'all_caps_subject'
+  | 'missing_plain_text'
+  | 'missing_unsubscribe';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface LintFinding {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  /** Points added to the risk score */
+  weight: number;
+  part: 'subject' | 'html' | 'text';
+  line?: number;
+  column?: number;
+}
+
+export interface TemplateLintInput {
+  subject: string;
+  bodyHtml?: string | null;
+  bodyText?: string | null;
+  /** email_templates.required_fields: enrollment guarantees these are present */
+  requiredFields?: string[];
+  /** Workspace-level fallbacks (PersonalizationOptions.customDefaults) */
+  customDefaults?: Record<string, string>;
+}
+
+export interface TemplateLintResult {
+  /** 0 (clean) to 100 */
+  score: number;
+  level: RiskLevel;
+  /** False when any finding is an error (template would misrender) */
+  passed: boolean;
+  findings: LintFinding[];
+  /** One line per finding, for email_approval_queue.risk_factors */
+  factors: string[];
+}
+
+export interface TemplateLinterConfig {
+  spamPhrases?: string[];
+  /** Links before too_many_links fires (default: 3) */
+  maxLinks?: number;
+  /** Images before too_many_images fires (default: 2) */
+  maxImages?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Phrases spam filters and recipients associate with bulk mail */
+export const DEFAULT_SPAM_PHRASES = [
+  '100% free',
+  'act now',
+  'apply now',
+  'as seen on',
+  'buy now',
+  'call now',
+  'cash bonus',
+  'click here',
+  'click below',
+  'dear friend',
+  'double your',
+  'earn money',
+  'exclusive deal',
+  'extra income',
+  'free access',
+  'free gift',
+  'free trial',
+  'guaranteed',
+  'limited time',
+  'lowest price',
+  'make money',
+  'no cost',
+  'no obligation',
+  'once in a lifetime',
+  'order now',
+  'risk-free',
+  'risk free',
+  'special promotion',
+  'this is not spam',
+  'urgent',
+  'winner',
+  'you have been selected',
+];
+
+const DEFAULT_MAX_LINKS = 3;
+const DEFAULT_MAX_IMAGES = 2;
+
+/** Visible characters per image below which a body reads as image-heavy */
+const MIN_TEXT_PER_IMAGE = 200;
+
+/** Spam phrases stop adding points after this many */
+const MAX_SPAM_PHRASE_FINDINGS = 3;
+
+const WEIGHTS: Record<LintRule, number> = {
+  template_syntax: 40,
+  missing_required_field: 25,
+  unguarded_token: 10,
+  spam_phrase: 10,
+  too_many_links: 15,
+  too_many_images: 10,
+  image_heavy: 10,
+  all_caps_subject: 20,
+  missing_plain_text: 10,
+  missing_unsubscribe: 15,
+};
+
+const UNSUBSCRIBE_PATTERN = /unsubscribe|opt[\s-]?out|manage (your )?preferences|\{\{\s*unsubscribe_url/i;
+
+// ============================================================================
+// TEMPLATE LINTER CLASS
+// ============================================================================
+
+export class TemplateLinter {
+  private spamPhrases: string[];
+  private maxLinks: number;
+  private maxImages: number;
+
+  constructor(config: TemplateLinterConfig = {}) {
+    this.spamPhrases = (config.spamPhrases ?? DEFAULT_SPAM_PHRASES).map(p => p.toLowerCase());
+    this.maxLinks = config.maxLinks ?? DEFAULT_MAX_LINKS;
+    this.maxImages = config.maxImages ?? DEFAULT_MAX_IMAGES;
+  }
+
+  /**
+   * Lint a template (subject + HTML and/or text body)
+   */
+  lint(input: TemplateLintInput): TemplateLintResult {
+    const findings: LintFinding[] = [];
+    const required = input.requiredFields ?? [];
+    const parts = [
+      { part: 'subject' as const, source: input.subject },
+      { part: 'html' as const, source: input.bodyHtml ?? '' },
+      { part: 'text' as const, source: input.bodyText ?? '' },
+    ].filter(p => p.source.trim() !== '');
+
+    // Tokens
+    const usedTokens = new Set<string>();
+    for (const { part, source } of parts) {
+      const ast = this.parse(source, part, findings);
+      if (!ast) continue;
+      collectRootPaths(ast).forEach(t => usedTokens.add(t));
+      for (const d of analyzeTemplate(ast, TEMPLATE_HELPERS)) {
+        findings.push(finding('template_syntax', 'error', `${partLabel(part)}: ${d.message}`, part, d));
+      }
+      for (const token of findUnguardedTokens(ast, required, input.customDefaults)) {
+        findings.push(finding(
+          'unguarded_token',
+          'warning',
+          `{{${token.path}}} has no fallback and is not in required_fields; it renders raw when missing`,
+          part,
+          token.loc
+        ));
+      }
+    }
+
+    for (const field of required) {
+      if (!usedTokens.has(field)) {
+        findings.push(finding('missing_required_field', 'error', `Required field "${field}" is not used in the template`, 'subject'));
+      }
+    }
+
+    // Content
+    const subjectText = stripTags(input.subject);
+    const html = input.bodyHtml ?? '';
+    const bodyText = `${htmlToText(html)} ${stripTags(input.bodyText ?? '')}`;
+
+    this.checkSpamPhrases(subjectText, bodyText, findings);
+
+    const links = countLinks(html, input.bodyText ?? '');
+    if (links > this.maxLinks) {
+      findings.push(finding('too_many_links', 'warning', `${links} links (max ${this.maxLinks}); cold emails with many links get filtered`, html ? 'html' : 'text'));
+    }
+
+    const images = (html.match(/<img\b/gi) ?? []).length;
+    if (images > this.maxImages) {
+      findings.push(finding('too_many_images', 'warning', `${images} images (max ${this.maxImages})`, 'html'));
+    } else if (images > 0 && htmlToText(html).length < images * MIN_TEXT_PER_IMAGE) {
+      findings.push(finding('image_heavy', 'warning', 'Body is mostly images; add more text', 'html'));
+    }
+
+    if (isAllCaps(subjectText)) {
+      findings.push(finding('all_caps_subject', 'warning', 'Subject is in all caps', 'subject'));
+    }
+
+    if (html.trim() && !input.bodyText?.trim()) {
+      findings.push(finding('missing_plain_text', 'warning', 'HTML body has no plain-text alternative', 'html'));
+    }
+
+    if (!UNSUBSCRIBE_PATTERN.test(html) && !UNSUBSCRIBE_PATTERN.test(input.bodyText ?? '')) {
+      findings.push(finding('missing_unsubscribe', 'warning', 'No unsubscribe or opt-out link in the body', html ? 'html' : 'text'));
+    }
+
+    return summarize(findings);
+  }
+
+  // Private helper methods
+
+  private parse(source: string, part: LintFinding['part'], findings: LintFinding[]): TemplateAst | null {
+    try {
+      return parseTemplate(source);
+    } catch (error) {
+      if (!(error instanceof TemplateSyntaxError)) throw error;
+      findings.push(finding('template_syntax', 'error', `${partLabel(part)}: ${error.message}`, part, error));
+      return null;
+    }
+  }
+
+  private checkSpamPhrases(subject: string, body: string, findings: LintFinding[]): void {
+    let count = 0;
+    for (const phrase of this.spamPhrases) {
+      const pattern = new RegExp(`\\b${escapeRegExp(phrase)}\\b`, 'i');
+      const part = pattern.test(subject) ? 'subject' : pattern.test(body) ? 'html' : null;
+      if (!part) continue;
+
+      findings.push({
+        ...finding('spam_phrase', 'warning', `Spam phrase "${phrase}" in ${part === 'subject' ? 'subject' : 'body'}`, part),
+        weight: count < MAX_SPAM_PHRASE_FINDINGS ? WEIGHTS.spam_phrase : 0,
+      });
+      count++;
+    }
+  }
+}
+
+// ============================================================================
+// FACTORY FUNCTIONS
+// ============================================================================
+
+/** Singleton instance */
+let globalLinter: TemplateLinter | null = null;
+
+/**
+ * Get or create the global template linter
+ */
+export function getTemplateLinter(config?: TemplateLinterConfig): TemplateLinter {
+  if (!globalLinter) {
+    globalLinter = new TemplateLinter(config);
+  }
+  return globalLinter;
+}
+
+/**
+ * Reset the global template linter (useful for testing)
+ */
+export function resetTemplateLinter(): void {
+  globalLinter = null;
+}
+
+/**
+ * Lint with the shared linter
+ */
+export function lintTemplate(input: TemplateLintInput): TemplateLintResult {
+  return getTemplateLinter().lint(input);
+}
+
+/**
+ * Risk level for a 0-100 score
+ */
+export function riskLevel(score: number): RiskLevel {
+  if (score >= 60) return 'high';
+  if (score >= 30) return 'medium';
+  return 'low';
+}
+
+// ============================================================================
+// UTILITIES
+// ============================================================================
+
+function finding(
+  rule: LintRule,
+  severity: LintSeverity,
+  message: string,
+  part: LintFinding['part'],
+  loc?: { line: number; column: number }
+): LintFinding {
+  return { rule, severity, message, weight: WEIGHTS[rule], part, line: loc?.line, column: loc?.column };
+}
+
+function summarize(findings: LintFinding[]): TemplateLintResult {
+  const score = Math.min(100, findings.reduce((sum, f) => sum + f.weight, 0));
+  return {
+    score,
+    level: riskLevel(score),
+    passed: !findings.some(f => f.severity === 'error'),
+    findings,
+    factors: findings.map(f => f.message),
+  };
+}
+
+function partLabel(part: LintFinding['part']): string {
+  return part === 'subject' ? 'Subject' : part === 'html' ? 'HTML body' : 'Text body';
+}
+
+/**
+ * Root-level {{tokens}} that render raw when the prospect lacks the field:
+ * no fallback, no built-in default, not required and not inside {{#if token}}
+ */
+function findUnguardedTokens(
+  ast: TemplateAst,
+  required: string[],
+  customDefaults: Record<string, string> = {}
+): Array<{ path: string; loc: { line: number; column: number } }> {
+  const found = new Map<string, { path: string; loc: { line: number; column: number } }>();
+
+  const visit = (nodes: TemplateNode[], guards: Set<string>) => {
+    for (const node of nodes) {
+      if (node.type === 'mustache') {
+        const e = node.expression;
+        if (e.type !== 'path' || e.data || e.depth > 0 || e.parts.length === 0) continue;
+        const path = e.parts.join('.');
+        if (node.fallback !== undefined || guards.has(path) || required.includes(path) || hasDefaultValue(path, customDefaults)) continue;
+        if (!found.has(path)) found.set(path, { path, loc: node.loc });
+      } else if (node.type === 'block') {
+        // #each / #with bodies resolve against the item, not the prospect
+        if (node.helper === 'each' || node.helper === 'with') {
+          if (node.inverse) visit(node.inverse, guards);
+          continue;
+        }
+        const param = node.params[0];
+        const guarded = param?.type === 'path' && !param.data && param.depth === 0 ? param.parts.join('.') : null;
+        const truthy = new Set(guards);
+        if (guarded) truthy.add(guarded);
+        visit(node.program, node.helper === 'if' ? truthy : guards);
+        if (node.inverse) visit(node.inverse, node.helper === 'unless' ? truthy : guards);
+      } else if (node.type === 'spin') {
+        node.options.forEach(option => visit(option, guards));
+      }
+    }
+  };
+
+  visit(ast.body, new Set());
+  return Array.from(found.values());
+}
+
+function stripTags(text: string): string {
+  return text.replace(/\{\{[\s\S]*?\}\}/g, ' ');
+}
+
+function htmlToText(html: string): string {
+  return stripTags(html)
+    .replace(/<(style|script)[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function countLinks(html: string, text: string): number {
+  const anchors = (html.match(/<a\b[^>]*\bhref\s*=/gi) ?? []).length;
+  const bare = (text.match(/https?:\/\/[^\s<>"')]+/gi) ?? []).length;
+  // Text bodies usually repeat the HTML links; count the larger
+  return Math.max(anchors, bare);
+}
+
+/**
+ * Mostly upper-case letters, ignoring short subjects and acronyms
+ */
+function isAllCaps(subject: string): boolean {
+  const letters = subject.replace(/[^A-Za-z]/g, '');
+  if (letters.length < 8) return false;
+  const upper = letters.replace(/[^A-Z]/g, '').length;
+  return upper / letters.length > 0.7;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
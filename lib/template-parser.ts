@@ -0,0 +1,875 @@
+/**
+ * Template Parser - Handlebars-compatible Template Language
+ *
+ * Tokenizer, parser and AST for personalization templates:
+ * - Mustaches {{path}}, raw {{{path}}} / {{& path}}, fallbacks {{path|text}}
+ * - Blocks #if / #unless / #each / #with with {{else}} and {{else if}}
+ * - Helper calls and subexpressions: {{capitalize first_name}}, (eq a "b")
+ * - Paths: this, ../parent, @index / @first / @last / @key, @root
+ * - Comments, \{{ escapes, ~ whitespace control and standalone block lines
+ * - Spintax groups {Hi|Hey|Hello}, nested and mixed with tags
+ * - Line/column positions on every node and error
+ *
+ * Rendering and the helper set live in personalization.ts.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Source position (1-based line / column) */
+export interface SourcePosition {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+/** Built-in block helpers */
+export type BlockHelper = 'if' | 'unless' | 'each' | 'with';
+
+export interface PathExpression {
+  type: 'path';
+  original: string;
+  /** Segments after this / ../ / @ prefixes */
+  parts: string[];
+  /** Number of ../ hops */
+  depth: number;
+  /** @index, @first, @root.x ... */
+  data: boolean;
+  loc: SourcePosition;
+}
+
+export interface LiteralExpression {
+  type: 'literal';
+  value: string | number | boolean | null | undefined;
+  loc: SourcePosition;
+}
+
+export interface CallExpression {
+  type: 'call';
+  helper: string;
+  params: Expression[];
+  hash: Record<string, Expression>;
+  loc: SourcePosition;
+}
+
+export type Expression = PathExpression | LiteralExpression | CallExpression;
+
+export interface TextNode {
+  type: 'text';
+  value: string;
+  loc: SourcePosition;
+}
+
+export interface MustacheNode {
+  type: 'mustache';
+  expression: Expression;
+  /** False for {{{raw}}} and {{& raw}} */
+  escaped: boolean;
+  /** Text after | used when the value is empty */
+  fallback?: string;
+  loc: SourcePosition;
+}
+
+export interface BlockNode {
+  type: 'block';
+  helper: BlockHelper;
+  params: Expression[];
+  hash: Record<string, Expression>;
+  program: TemplateNode[];
+  inverse: TemplateNode[] | null;
+  loc: SourcePosition;
+}
+
+/** Spintax group: one option is picked per recipient */
+export interface SpinNode {
+  type: 'spin';
+  options: TemplateNode[][];
+  loc: SourcePosition;
+}
+
+export type TemplateNode = TextNode | MustacheNode | BlockNode | SpinNode;
+
+/** Parsed template */
+export interface TemplateAst {
+  type: 'template';
+  body: TemplateNode[];
+}
+
+/** Lexer output */
+export type TemplateToken =
+  | { kind: 'text'; value: string; loc: SourcePosition }
+  | { kind: 'tag'; tag: TagKind; body: string; bodyOffset: number; stripLeft: boolean; stripRight: boolean; raw: string; loc: SourcePosition }
+  | { kind: 'spin'; mark: SpinMark; loc: SourcePosition };
+
+/** Spintax delimiters: { | } */
+export type SpinMark = 'open' | 'option' | 'close';
+
+/** Tag classification */
+export type TagKind = 'mustache' | 'raw' | 'open' | 'close' | 'else' | 'comment';
+
+/** Helper signature used by analyzeTemplate */
+export interface HelperSignature {
+  minArgs: number;
+  /** Omit for variadic helpers */
+  maxArgs?: number;
+}
+
+/** Validation finding */
+export interface TemplateDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  line: number;
+  column: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const BLOCK_HELPERS: Record<BlockHelper, HelperSignature> = {
+  if: { minArgs: 1, maxArgs: 1 },
+  unless: { minArgs: 1, maxArgs: 1 },
+  each: { minArgs: 1, maxArgs: 1 },
+  with: { minArgs: 1, maxArgs: 1 },
+};
+
+/** Data variables set by #each */
+const DATA_VARIABLES = new Set(['index', 'first', 'last', 'key']);
+
+const PATH_SEGMENT = /^[\w$-]+$/;
+
+const SPIN_MARKS: Record<string, SpinMark> = { '{': 'open', '|': 'option', '}': 'close' };
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+/**
+ * Syntax error with the position of the offending tag
+ */
+export class TemplateSyntaxError extends Error {
+  readonly line: number;
+  readonly column: number;
+  readonly offset: number;
+
+  constructor(message: string, loc: SourcePosition) {
+    super(`${message} (line ${loc.line}, column ${loc.column})`);
+    this.name = 'TemplateSyntaxError';
+    this.line = loc.line;
+    this.column = loc.column;
+    this.offset = loc.offset;
+  }
+}
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+/**
+ * Split a template into text and tag tokens, applying ~ whitespace control
+ * and removing whitespace around standalone block / comment lines
+ */
+export function tokenize(template: string): TemplateToken[] {
+  const position = positionFinder(template);
+  const spinMarks = findSpinMarks(template, position);
+  const tokens: TemplateToken[] = [];
+  let text = '';
+  let textStart = 0;
+  let i = 0;
+
+  const flushText = () => {
+    if (text) tokens.push({ kind: 'text', value: text, loc: position(textStart) });
+    text = '';
+  };
+
+  // Literal text; \{ \| \} print the character
+  const appendText = (value: string) => {
+    text += value.replace(/\\([{|}])/g, '$1');
+  };
+
+  while (i < template.length) {
+    const open = template.indexOf('{{', i);
+    while (spinMarks.length > 0 && spinMarks[0] < i) spinMarks.shift();
+    const mark = spinMarks[0];
+
+    if (mark !== undefined && (open === -1 || mark < open)) {
+      if (mark > i) {
+        if (!text) textStart = i;
+        appendText(template.slice(i, mark));
+      }
+      flushText();
+      tokens.push({ kind: 'spin', mark: SPIN_MARKS[template[mark]], loc: position(mark) });
+      spinMarks.shift();
+      i = mark + 1;
+      textStart = i;
+      continue;
+    }
+
+    if (open === -1) {
+      if (!text) textStart = i;
+      appendText(template.slice(i));
+      break;
+    }
+
+    // \{{ renders the tag literally
+    if (open > 0 && template[open - 1] === '\\') {
+      if (!text) textStart = i;
+      const close = template.indexOf('}}', open + 2);
+      const end = close === -1 ? template.length : close + 2;
+      appendText(template.slice(i, open - 1));
+      text += template.slice(open, end);
+      i = end;
+      continue;
+    }
+
+    if (open > i) {
+      if (!text) textStart = i;
+      appendText(template.slice(i, open));
+    }
+    flushText();
+
+    const tag = readTag(template, open, position);
+    tokens.push(tag.token);
+    i = tag.end;
+    textStart = i;
+  }
+  flushText();
+
+  applyWhitespaceControl(tokens);
+  return tokens.filter(t => t.kind !== 'text' || t.value !== '');
+}
+
+function readTag(
+  template: string,
+  start: number,
+  position: (offset: number) => SourcePosition
+): { token: TemplateToken; end: number } {
+  const loc = position(start);
+  let i = start + 2;
+  const triple = template[i] === '{';
+  if (triple) i++;
+
+  const stripLeft = template[i] === '~';
+  if (stripLeft) i++;
+
+  // Comments end at --}} or }} without looking at their content
+  if (!triple && template.startsWith('!', i)) {
+    const long = template.startsWith('!--', i);
+    const terminator = long ? '--}}' : '}}';
+    const close = template.indexOf(terminator, i);
+    if (close === -1) throw new TemplateSyntaxError('Unclosed comment', loc);
+    const end = close + terminator.length;
+    const stripRight = template[close - 1] === '~';
+    return {
+      token: { kind: 'tag', tag: 'comment', body: '', bodyOffset: i, stripLeft, stripRight, raw: template.slice(start, end), loc },
+      end,
+    };
+  }
+
+  // Scan to the closing braces, skipping quoted strings; after a fallback
+  // pipe the rest is plain text
+  let quote: string | null = null;
+  let fallback = false;
+  let j = i;
+  for (; j < template.length; j++) {
+    const ch = template[j];
+    if (quote) {
+      if (ch === '\\') j++;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+    if (!fallback && (ch === '"' || ch === "'")) quote = ch;
+    else if (ch === '|') fallback = true;
+    else if (ch === '{' && template[j + 1] === '{') break;
+    else if (ch === '}' && template[j + 1] === '}') break;
+  }
+
+  if (j >= template.length || template[j] === '{') {
+    throw new TemplateSyntaxError(`Unclosed tag "${template.slice(start, Math.min(j, start + 30)).trim()}"`, loc);
+  }
+
+  let bodyEnd = j;
+  const stripRight = template[bodyEnd - 1] === '~';
+  if (stripRight) bodyEnd--;
+
+  let end = j + 2;
+  if (triple) {
+    if (template[end] !== '}') throw new TemplateSyntaxError('Expected }}} to close {{{', loc);
+    end++;
+  }
+
+  let body = template.slice(i, bodyEnd);
+  let bodyOffset = i;
+  let tag: TagKind = triple ? 'raw' : 'mustache';
+
+  if (!triple) {
+    const sigil = body.trimStart()[0];
+    const skip = body.length - body.trimStart().length + 1;
+    if (sigil === '#') tag = 'open';
+    else if (sigil === '/') tag = 'close';
+    else if (sigil === '&') tag = 'raw';
+    else if (sigil === '^' && body.trim() === '^') tag = 'else';
+    else if (sigil === '^') throw new TemplateSyntaxError('Inverted sections are not supported; use {{#unless}}', loc);
+    else if (sigil === '>') throw new TemplateSyntaxError('Partials are not supported', loc);
+    else if (/^\s*else(\s|$)/.test(body)) tag = 'else';
+
+    if (tag === 'open' || tag === 'close' || tag === 'raw') {
+      body = body.slice(skip);
+      bodyOffset += skip;
+    } else if (tag === 'else') {
+      const keyword = body.match(/^\s*(else|\^)/)![0];
+      body = body.slice(keyword.length);
+      bodyOffset += keyword.length;
+    }
+  }
+
+  return {
+    token: { kind: 'tag', tag, body, bodyOffset, stripLeft, stripRight, raw: template.slice(start, end), loc },
+    end,
+  };
+}
+
+/**
+ * Offsets of spintax delimiters outside tags. A {...} pair only counts as a
+ * group when it has a | at its own level, so CSS rules and other literal
+ * braces pass through untouched.
+ */
+function findSpinMarks(template: string, position: (offset: number) => SourcePosition): number[] {
+  const marks: number[] = [];
+  const open: Array<{ start: number; options: number[] }> = [];
+
+  for (let i = 0; i < template.length; i++) {
+    const ch = template[i];
+
+    // \{ \| \} are literal; \{{ is an escaped tag, skipped below
+    if (ch === '\\' && '{|}'.includes(template[i + 1] ?? '') && !template.startsWith('{{', i + 1)) {
+      i++;
+      continue;
+    }
+
+    // Skip tags and comments; the tokenizer reports unclosed ones
+    if (ch === '{' && template[i + 1] === '{') {
+      const triple = template[i + 2] === '{';
+      const terminator = template.startsWith('{{!--', i) ? '--}}' : '}}';
+      const close = template.indexOf(terminator, i + 2);
+      if (close === -1) break;
+      i = close + terminator.length - 1;
+      if (triple && template[i + 1] === '}') i++;
+      continue;
+    }
+
+    if (ch === '{') {
+      open.push({ start: i, options: [] });
+    } else if (ch === '|' && open.length > 0) {
+      open[open.length - 1].options.push(i);
+    } else if (ch === '}' && open.length > 0) {
+      const group = open.pop()!;
+      if (group.options.length > 0) marks.push(group.start, ...group.options, i);
+    }
+  }
+
+  const unclosed = open.find(g => g.options.length > 0);
+  if (unclosed) {
+    throw new TemplateSyntaxError('Unclosed spintax group: missing }', position(unclosed.start));
+  }
+
+  return marks.sort((a, b) => a - b);
+}
+
+function applyWhitespaceControl(tokens: TemplateToken[]): void {
+  tokens.forEach((token, i) => {
+    if (token.kind !== 'tag') return;
+    const prev = tokens[i - 1];
+    const next = tokens[i + 1];
+
+    if (token.stripLeft && prev?.kind === 'text') prev.value = prev.value.trimEnd();
+    if (token.stripRight && next?.kind === 'text') next.value = next.value.trimStart();
+
+    // Standalone block tags take their line with them
+    if (token.tag === 'mustache' || token.tag === 'raw') return;
+    const prevOk = !prev || (prev.kind === 'text' && /(^|\n)[ \t]*$/.test(prev.value) && (prev.value.includes('\n') || i === 1));
+    const nextOk = !next || (next.kind === 'text' && /^[ \t]*(\r?\n|$)/.test(next.value));
+    if (prevOk && nextOk && (prev || next)) {
+      if (prev?.kind === 'text') prev.value = prev.value.replace(/[ \t]*$/, '');
+      if (next?.kind === 'text') next.value = next.value.replace(/^[ \t]*(\r?\n)?/, '');
+    }
+  });
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+interface OpenBlock {
+  kind: 'block';
+  node: BlockNode;
+  inInverse: boolean;
+  /** Opened by {{else if}}; closed by the outer block's close tag */
+  chained: boolean;
+}
+
+interface OpenSpin {
+  kind: 'spin';
+  node: SpinNode;
+}
+
+/** Blocks and spintax groups must nest inside each other */
+type OpenScope = OpenBlock | OpenSpin;
+
+function describeScope(scope: OpenScope): string {
+  const at = `line ${scope.node.loc.line}, column ${scope.node.loc.column}`;
+  return scope.kind === 'spin' ? `the spintax group opened at ${at}` : `the {{#${scope.node.helper}}} block opened at ${at}`;
+}
+
+/**
+ * Parse a template into an AST
+ *
+ * @throws TemplateSyntaxError
+ */
+export function parseTemplate(template: string): TemplateAst {
+  const position = positionFinder(template);
+  const root: TemplateNode[] = [];
+  const stack: OpenScope[] = [];
+
+  const target = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    if (top.kind === 'spin') return top.node.options[top.node.options.length - 1];
+    return top.inInverse ? top.node.inverse! : top.node.program;
+  };
+
+  /** Pop {{else if}} blocks, which end with their outer block */
+  const popChained = () => {
+    let top = stack[stack.length - 1];
+    while (top?.kind === 'block' && top.chained) {
+      stack.pop();
+      top = stack[stack.length - 1];
+    }
+    return top;
+  };
+
+  for (const token of tokenize(template)) {
+    if (token.kind === 'text') {
+      target().push({ type: 'text', value: token.value, loc: token.loc });
+      continue;
+    }
+
+    if (token.kind === 'spin') {
+      if (token.mark === 'open') {
+        const node: SpinNode = { type: 'spin', options: [[]], loc: token.loc };
+        target().push(node);
+        stack.push({ kind: 'spin', node });
+        continue;
+      }
+
+      const top = token.mark === 'close' ? popChained() : stack[stack.length - 1];
+      if (top?.kind !== 'spin') {
+        // Delimiters are paired up front, so an open block sits in between
+        throw new TemplateSyntaxError(
+          `Spintax ${token.mark === 'close' ? '}' : '|'} inside ${describeScope(top!)}; close the block within the same option`,
+          token.loc
+        );
+      }
+      if (token.mark === 'option') top.node.options.push([]);
+      else stack.pop();
+      continue;
+    }
+
+    switch (token.tag) {
+      case 'comment':
+        break;
+
+      case 'mustache':
+      case 'raw': {
+        const { expression, fallback } = parseTagExpression(token.body, token.bodyOffset, position, token.loc);
+        target().push({ type: 'mustache', expression, escaped: token.tag === 'mustache', fallback, loc: token.loc });
+        break;
+      }
+
+      case 'open': {
+        const node = parseBlockOpen(token.body, token.bodyOffset, position, token.loc);
+        target().push(node);
+        stack.push({ kind: 'block', node, inInverse: false, chained: false });
+        break;
+      }
+
+      case 'else': {
+        const top = stack[stack.length - 1];
+        if (!top) throw new TemplateSyntaxError('{{else}} outside of a block', token.loc);
+        if (top.kind === 'spin') throw new TemplateSyntaxError(`{{else}} inside ${describeScope(top)}`, token.loc);
+        if (top.inInverse) throw new TemplateSyntaxError(`Duplicate {{else}} in {{#${top.node.helper}}} block`, token.loc);
+
+        top.inInverse = true;
+        top.node.inverse = [];
+        if (token.body.trim()) {
+          // {{else if x}} opens a chained block inside the inverse
+          const node = parseBlockOpen(token.body, token.bodyOffset, position, token.loc);
+          top.node.inverse.push(node);
+          stack.push({ kind: 'block', node, inInverse: false, chained: true });
+        }
+        break;
+      }
+
+      case 'close': {
+        const name = token.body.trim();
+        popChained();
+        const open = stack.pop();
+        if (!open) {
+          throw new TemplateSyntaxError(`Unmatched {{/${name}}}: no open block`, token.loc);
+        }
+        if (open.kind === 'spin') {
+          throw new TemplateSyntaxError(`Unmatched {{/${name}}}: ${describeScope(open)} is still open`, token.loc);
+        }
+        if (open.node.helper !== name) {
+          const at = open.node.loc;
+          throw new TemplateSyntaxError(
+            `Unmatched {{/${name}}}: expected {{/${open.node.helper}}} for the block opened at line ${at.line}, column ${at.column}`,
+            token.loc
+          );
+        }
+        break;
+      }
+    }
+  }
+
+  const unclosed = stack.filter((s): s is OpenBlock => s.kind === 'block' && !s.chained).pop();
+  if (unclosed) {
+    throw new TemplateSyntaxError(`Unmatched {{#${unclosed.node.helper}}}: missing {{/${unclosed.node.helper}}}`, unclosed.node.loc);
+  }
+
+  return { type: 'template', body: root };
+}
+
+function parseBlockOpen(
+  body: string,
+  bodyOffset: number,
+  position: (offset: number) => SourcePosition,
+  loc: SourcePosition
+): BlockNode {
+  const reader = new ExpressionReader(body, bodyOffset, position);
+  const head = reader.readHead();
+  if (!head || head.type !== 'path' || head.parts.length !== 1 || head.data) {
+    throw new TemplateSyntaxError('Expected a block helper name after {{#', loc);
+  }
+
+  const helper = head.parts[0];
+  if (!(helper in BLOCK_HELPERS)) {
+    throw new TemplateSyntaxError(`Unknown block helper "#${helper}" (use #if, #unless, #each or #with)`, loc);
+  }
+
+  const { params, hash } = reader.readArguments();
+  reader.expectEnd();
+  if (reader.fallback !== undefined) {
+    throw new TemplateSyntaxError('Fallbacks (|) are not allowed in block tags', loc);
+  }
+
+  const signature = BLOCK_HELPERS[helper as BlockHelper];
+  if (params.length < signature.minArgs || params.length > (signature.maxArgs ?? Infinity)) {
+    throw new TemplateSyntaxError(`{{#${helper}}} expects exactly one argument, got ${params.length}`, loc);
+  }
+
+  return { type: 'block', helper: helper as BlockHelper, params, hash, program: [], inverse: null, loc };
+}
+
+/**
+ * Parse the body of a mustache tag into an expression and optional fallback
+ *
+ * @throws TemplateSyntaxError
+ */
+export function parseTagExpression(
+  body: string,
+  bodyOffset: number,
+  position: (offset: number) => SourcePosition,
+  loc: SourcePosition
+): { expression: Expression; fallback?: string } {
+  const reader = new ExpressionReader(body, bodyOffset, position);
+  const head = reader.readHead();
+  if (!head) throw new TemplateSyntaxError('Empty tag', loc);
+
+  const { params, hash } = reader.readArguments();
+  reader.expectEnd();
+  if (params.length === 0 && Object.keys(hash).length === 0) {
+    return { expression: head, fallback: reader.fallback };
+  }
+
+  if (head.type !== 'path' || head.parts.length !== 1 || head.data || head.depth > 0) {
+    throw new TemplateSyntaxError(`"${body.trim()}" is not a helper call`, head.loc);
+  }
+  return {
+    expression: { type: 'call', helper: head.parts[0], params, hash, loc: head.loc },
+    fallback: reader.fallback,
+  };
+}
+
+/**
+ * Reads expressions from a tag body
+ */
+class ExpressionReader {
+  private i = 0;
+  fallback?: string;
+
+  constructor(
+    private body: string,
+    private offset: number,
+    private position: (offset: number) => SourcePosition
+  ) {}
+
+  readHead(): Expression | null {
+    this.skipSpace();
+    if (this.done()) return null;
+    return this.readExpression();
+  }
+
+  readArguments(): { params: Expression[]; hash: Record<string, Expression> } {
+    const params: Expression[] = [];
+    const hash: Record<string, Expression> = {};
+
+    for (;;) {
+      this.skipSpace();
+      if (this.done()) break;
+
+      const ch = this.body[this.i];
+      if (ch === '|') {
+        this.fallback = this.body.slice(this.i + 1).trim();
+        this.i = this.body.length;
+        break;
+      }
+      if (ch === ')') break;
+
+      const key = this.body.slice(this.i).match(/^([\w-]+)=/);
+      if (key) {
+        this.i += key[0].length;
+        hash[key[1]] = this.readExpression();
+      } else {
+        if (Object.keys(hash).length > 0) this.fail('Positional arguments must come before key=value arguments');
+        params.push(this.readExpression());
+      }
+    }
+
+    return { params, hash };
+  }
+
+  expectEnd(): void {
+    this.skipSpace();
+    if (!this.done()) this.fail(`Unexpected "${this.body[this.i]}"`);
+  }
+
+  private readExpression(): Expression {
+    this.skipSpace();
+    const loc = this.loc();
+    const ch = this.body[this.i];
+
+    if (ch === '(') {
+      this.i++;
+      const head = this.readHead();
+      if (!head || head.type !== 'path' || head.parts.length !== 1 || head.data) {
+        this.fail('Expected a helper name after (');
+      }
+      const { params, hash } = this.readArguments();
+      this.skipSpace();
+      if (this.body[this.i] !== ')') this.fail('Missing ) to close subexpression', loc);
+      this.i++;
+      return { type: 'call', helper: (head as PathExpression).parts[0], params, hash, loc };
+    }
+
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      this.i++;
+      while (this.i < this.body.length && this.body[this.i] !== ch) {
+        if (this.body[this.i] === '\\' && this.i + 1 < this.body.length) this.i++;
+        value += this.body[this.i++];
+      }
+      if (this.done()) this.fail('Unterminated string literal', loc);
+      this.i++;
+      return { type: 'literal', value, loc };
+    }
+
+    const word = this.body.slice(this.i).match(/^[^\s()=|"']+/)?.[0];
+    if (!word) this.fail(`Unexpected "${ch}"`);
+    this.i += word!.length;
+
+    if (/^-?\d+(\.\d+)?$/.test(word!)) return { type: 'literal', value: Number(word), loc };
+    if (word === 'true' || word === 'false') return { type: 'literal', value: word === 'true', loc };
+    if (word === 'null') return { type: 'literal', value: null, loc };
+    if (word === 'undefined') return { type: 'literal', value: undefined, loc };
+
+    return this.parsePath(word!, loc);
+  }
+
+  private parsePath(original: string, loc: SourcePosition): PathExpression {
+    let rest = original;
+    let depth = 0;
+    let data = false;
+
+    if (rest.startsWith('@')) {
+      data = true;
+      rest = rest.slice(1);
+    }
+    while (rest.startsWith('../')) {
+      depth++;
+      rest = rest.slice(3);
+    }
+    if (rest === 'this' || rest === '.') {
+      rest = '';
+    } else if (rest.startsWith('this.') || rest.startsWith('this/') || rest.startsWith('./')) {
+      rest = rest.slice(rest.startsWith('./') ? 2 : 5);
+    }
+
+    const parts = rest ? rest.split(/[./]/) : [];
+    if (parts.some(p => !PATH_SEGMENT.test(p))) {
+      this.fail(`Invalid path "${original}"`, loc);
+    }
+    if (data && (parts.length === 0 || (parts[0] !== 'root' && !DATA_VARIABLES.has(parts[0])))) {
+      this.fail(`Unknown data variable "${original}"`, loc);
+    }
+
+    return { type: 'path', original, parts, depth, data, loc };
+  }
+
+  private skipSpace(): void {
+    while (this.i < this.body.length && /\s/.test(this.body[this.i])) this.i++;
+  }
+
+  private done(): boolean {
+    return this.i >= this.body.length;
+  }
+
+  private loc(): SourcePosition {
+    return this.position(this.offset + this.i);
+  }
+
+  private fail(message: string, loc: SourcePosition = this.loc()): never {
+    throw new TemplateSyntaxError(message, loc);
+  }
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Visit every expression in the AST with the block nesting depth it sits at
+ */
+export function walkExpressions(
+  ast: TemplateAst,
+  visit: (expression: Expression, scopeDepth: number) => void
+): void {
+  const visitExpression = (expression: Expression, depth: number) => {
+    visit(expression, depth);
+    if (expression.type === 'call') {
+      expression.params.forEach(p => visitExpression(p, depth));
+      Object.values(expression.hash).forEach(h => visitExpression(h, depth));
+    }
+  };
+
+  const visitNodes = (nodes: TemplateNode[], depth: number) => {
+    for (const node of nodes) {
+      if (node.type === 'mustache') {
+        visitExpression(node.expression, depth);
+      } else if (node.type === 'block') {
+        node.params.forEach(p => visitExpression(p, depth));
+        Object.values(node.hash).forEach(h => visitExpression(h, depth));
+        // #each / #with change the context for their program only
+        const changesScope = node.helper === 'each' || node.helper === 'with';
+        visitNodes(node.program, changesScope ? depth + 1 : depth);
+        if (node.inverse) visitNodes(node.inverse, depth);
+      } else if (node.type === 'spin') {
+        node.options.forEach(option => visitNodes(option, depth));
+      }
+    }
+  };
+
+  visitNodes(ast.body, 0);
+}
+
+/**
+ * Data paths that resolve against the root context (prospect fields)
+ */
+export function collectRootPaths(ast: TemplateAst): string[] {
+  const paths = new Set<string>();
+
+  walkExpressions(ast, (expression, scopeDepth) => {
+    if (expression.type !== 'path' || expression.parts.length === 0) return;
+    if (expression.data) {
+      if (expression.parts[0] === 'root' && expression.parts.length > 1) paths.add(expression.parts.slice(1).join('.'));
+      return;
+    }
+    if (expression.depth === scopeDepth) paths.add(expression.parts.join('.'));
+  });
+
+  return Array.from(paths);
+}
+
+/**
+ * Check helper names, arity and scope references against a helper table
+ */
+export function analyzeTemplate(ast: TemplateAst, helpers: Record<string, HelperSignature>): TemplateDiagnostic[] {
+  const diagnostics: TemplateDiagnostic[] = [];
+  const report = (severity: TemplateDiagnostic['severity'], message: string, loc: SourcePosition) =>
+    diagnostics.push({ severity, message, line: loc.line, column: loc.column });
+
+  walkExpressions(ast, (expression, scopeDepth) => {
+    if (expression.type === 'call') {
+      const signature = helpers[expression.helper];
+      if (!signature) {
+        report('error', `Unknown helper "${expression.helper}"`, expression.loc);
+        return;
+      }
+      const count = expression.params.length;
+      if (count < signature.minArgs || count > (signature.maxArgs ?? Infinity)) {
+        const expected = signature.maxArgs === signature.minArgs
+          ? `${signature.minArgs}`
+          : signature.maxArgs === undefined ? `at least ${signature.minArgs}` : `${signature.minArgs}-${signature.maxArgs}`;
+        report('error', `Helper "${expression.helper}" expects ${expected} argument(s), got ${count}`, expression.loc);
+      }
+    } else if (expression.type === 'path') {
+      if (expression.depth > scopeDepth) {
+        report('error', `"${expression.original}" goes above the root context`, expression.loc);
+      } else if (expression.data && expression.parts[0] !== 'root' && scopeDepth === 0) {
+        report('error', `"${expression.original}" is only available inside {{#each}}`, expression.loc);
+      }
+    }
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Number of distinct spintax variants one recipient can receive. Only one
+ * branch of an {{#if}} renders, so blocks count their larger branch.
+ */
+export function countPermutations(ast: TemplateAst): number {
+  const count = (nodes: TemplateNode[]): number => nodes.reduce((total, node) => {
+    if (node.type === 'spin') return total * node.options.reduce((sum, option) => sum + count(option), 0);
+    if (node.type === 'block') return total * Math.max(count(node.program), node.inverse ? count(node.inverse) : 1);
+    return total;
+  }, 1);
+
+  return count(ast.body);
+}
+
+// ============================================================================
+// UTILITIES
+// ============================================================================
+
+/**
+ * Build an offset → line/column lookup for a template
+ */
+export function positionFinder(template: string): (offset: number) => SourcePosition {
+  const lineStarts = [0];
+  for (let i = 0; i < template.length; i++) {
+    if (template[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  return (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1, offset };
+  };
+}
@@ -0,0 +1,617 @@
+/**
+ * Tracing - OpenTelemetry-style Spans
+ *
+ * Lightweight tracer for following a request across the server:
+ * - Spans with attributes, events and status, parented through async context
+ * - W3C traceparent propagation in and out
+ * - Batched OTLP/HTTP JSON export to a local collector
+ * - Route wrapper recording request spans and latency histograms
+ * - fetch wrapper producing client spans (used by the Supabase client)
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomBytes } from 'node:crypto';
+import { getMetricsRegistry } from './metrics-registry';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Span kind (OTLP numbering) */
+export type SpanKind = 'internal' | 'server' | 'client' | 'producer' | 'consumer';
+
+/** Span status */
+export type SpanStatusCode = 'unset' | 'ok' | 'error';
+
+/** Attribute value */
+export type AttributeValue = string | number | boolean;
+
+/** Attribute map */
+export type SpanAttributes = Record<string, AttributeValue | undefined>;
+
+/** Propagated span identity */
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  sampled: boolean;
+}
+
+/** Timed span event */
+export interface SpanEvent {
+  name: string;
+  time: number;
+  attributes?: SpanAttributes;
+}
+
+/** Finished span as handed to exporters */
+export interface SpanData {
+  name: string;
+  kind: SpanKind;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  /** Epoch milliseconds (fractional) */
+  startTime: number;
+  endTime: number;
+  attributes: SpanAttributes;
+  events: SpanEvent[];
+  status: { code: SpanStatusCode; message?: string };
+}
+
+/** Span exporter */
+export interface SpanExporter {
+  export(spans: SpanData[]): Promise<void>;
+}
+
+/** Options for starting a span */
+export interface StartSpanOptions {
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+  /** Explicit parent; null starts a new trace (default: active span) */
+  parent?: SpanContext | null;
+}
+
+/** Tracer configuration */
+export interface TracerConfig {
+  serviceName?: string;
+  /** No exporter means spans are propagated but not recorded */
+  exporter?: SpanExporter;
+  /** Fraction of new traces to record (default 1) */
+  sampleRatio?: number;
+  /** Export once this many spans are buffered (default 256) */
+  maxBatchSize?: number;
+  /** Drop spans beyond this buffer size (default 2048) */
+  maxQueueSize?: number;
+  /** Periodic export interval (default 5s) */
+  flushIntervalMs?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_SERVICE_NAME = 'adzeta-gtmos';
+
+const OTLP_SPAN_KIND: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+  producer: 4,
+  consumer: 5,
+};
+
+const OTLP_STATUS_CODE: Record<SpanStatusCode, number> = {
+  unset: 0,
+  ok: 1,
+  error: 2,
+};
+
+const TRACEPARENT = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+// ============================================================================
+// SPAN
+// ============================================================================
+
+/**
+ * Span
+ *
+ * Non-recording spans (unsampled, or no exporter) still carry ids so the
+ * trace context keeps propagating.
+ */
+export class Span {
+  readonly context: SpanContext;
+  readonly parentSpanId?: string;
+  readonly startTime: number;
+  private endTime: number | null = null;
+  private attributes: SpanAttributes = {};
+  private events: SpanEvent[] = [];
+  private status: SpanData['status'] = { code: 'unset' };
+
+  constructor(
+    readonly name: string,
+    readonly kind: SpanKind,
+    context: SpanContext,
+    parentSpanId: string | undefined,
+    private onEnd: (span: SpanData) => void
+  ) {
+    this.context = context;
+    this.parentSpanId = parentSpanId;
+    this.startTime = nowMs();
+  }
+
+  /**
+   * Whether the span will be exported
+   */
+  get recording(): boolean {
+    return this.context.sampled && this.endTime === null;
+  }
+
+  setAttribute(key: string, value: AttributeValue | undefined): this {
+    if (this.recording && value !== undefined) this.attributes[key] = value;
+    return this;
+  }
+
+  setAttributes(attributes: SpanAttributes): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      this.setAttribute(key, value);
+    }
+    return this;
+  }
+
+  addEvent(name: string, attributes?: SpanAttributes): this {
+    if (this.recording) this.events.push({ name, time: nowMs(), attributes });
+    return this;
+  }
+
+  /**
+   * Record an exception event and mark the span as failed
+   */
+  recordException(error: unknown): this {
+    const message = error instanceof Error ? error.message : String(error);
+    this.addEvent('exception', {
+      'exception.type': error instanceof Error ? error.name : typeof error,
+      'exception.message': message,
+      'exception.stacktrace': error instanceof Error ? error.stack : undefined,
+    });
+    return this.setStatus('error', message);
+  }
+
+  setStatus(code: SpanStatusCode, message?: string): this {
+    if (this.recording) this.status = { code, message };
+    return this;
+  }
+
+  /**
+   * End the span; later calls are ignored
+   */
+  end(): void {
+    if (this.endTime !== null) return;
+    const sampled = this.context.sampled;
+    this.endTime = nowMs();
+    if (!sampled) return;
+
+    this.onEnd({
+      name: this.name,
+      kind: this.kind,
+      traceId: this.context.traceId,
+      spanId: this.context.spanId,
+      parentSpanId: this.parentSpanId,
+      startTime: this.startTime,
+      endTime: this.endTime,
+      attributes: this.attributes,
+      events: this.events,
+      status: this.status,
+    });
+  }
+}
+
+// ============================================================================
+// TRACER
+// ============================================================================
+
+/**
+ * Tracer
+ *
+ * The active span follows async execution via AsyncLocalStorage, so spans
+ * started inside withSpan() callbacks are parented automatically.
+ */
+export class Tracer {
+  readonly serviceName: string;
+  private exporter: SpanExporter | null;
+  private sampleRatio: number;
+  private maxBatchSize: number;
+  private maxQueueSize: number;
+  private flushIntervalMs: number;
+  private storage = new AsyncLocalStorage<Span>();
+  private buffer: SpanData[] = [];
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private inFlight: Promise<void> = Promise.resolve();
+  private dropped = 0;
+
+  constructor(config: TracerConfig = {}) {
+    this.serviceName = config.serviceName ?? DEFAULT_SERVICE_NAME;
+    this.exporter = config.exporter ?? null;
+    this.sampleRatio = config.sampleRatio ?? 1;
+    this.maxBatchSize = config.maxBatchSize ?? 256;
+    this.maxQueueSize = config.maxQueueSize ?? 2048;
+    this.flushIntervalMs = config.flushIntervalMs ?? 5000;
+  }
+
+  /**
+   * Whether spans are exported at all
+   */
+  get enabled(): boolean {
+    return this.exporter !== null;
+  }
+
+  /**
+   * Start a span; the caller must end it
+   */
+  startSpan(name: string, options: StartSpanOptions = {}): Span {
+    const parent = options.parent === undefined ? this.activeSpan()?.context : options.parent ?? undefined;
+
+    const context: SpanContext = {
+      traceId: parent?.traceId ?? randomHex(16),
+      spanId: randomHex(8),
+      sampled: this.enabled && (parent ? parent.sampled : Math.random() < this.sampleRatio),
+    };
+
+    const span = new Span(name, options.kind ?? 'internal', context, parent?.spanId, data => this.enqueue(data));
+    if (options.attributes) span.setAttributes(options.attributes);
+    return span;
+  }
+
+  /**
+   * Run fn inside a new active span; errors are recorded and rethrown
+   */
+  async withSpan<T>(name: string, options: StartSpanOptions, fn: (span: Span) => Promise<T> | T): Promise<T> {
+    const span = this.startSpan(name, options);
+    try {
+      return await this.storage.run(span, () => fn(span));
+    } catch (error) {
+      span.recordException(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Get the span active in the current async context
+   */
+  activeSpan(): Span | undefined {
+    return this.storage.getStore();
+  }
+
+  /**
+   * Export buffered spans
+   */
+  async flush(): Promise<void> {
+    const batch = this.buffer.splice(0, this.buffer.length);
+    if (batch.length > 0 && this.exporter) {
+      const exporter = this.exporter;
+      this.inFlight = this.inFlight.then(() => exporter.export(batch)).catch(error => {
+        console.error('tracing export error:', error);
+      });
+    }
+    await this.inFlight;
+  }
+
+  /**
+   * Stop the flush timer and export what is left
+   */
+  async shutdown(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flush();
+  }
+
+  /**
+   * Get export statistics
+   */
+  getStats(): { buffered: number; dropped: number } {
+    return { buffered: this.buffer.length, dropped: this.dropped };
+  }
+
+  // Private helper methods
+
+  private enqueue(span: SpanData): void {
+    if (this.buffer.length >= this.maxQueueSize) {
+      this.dropped++;
+      return;
+    }
+    this.buffer.push(span);
+
+    if (!this.flushTimer && this.flushIntervalMs > 0) {
+      this.flushTimer = setInterval(() => void this.flush(), this.flushIntervalMs);
+      this.flushTimer.unref?.();
+    }
+    if (this.buffer.length >= this.maxBatchSize) {
+      void this.flush();
+    }
+  }
+}
+
+// ============================================================================
+// EXPORTERS
+// ============================================================================
+
+/**
+ * Keeps exported spans in memory (tests, debugging)
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  readonly spans: SpanData[] = [];
+
+  async export(spans: SpanData[]): Promise<void> {
+    this.spans.push(...spans);
+  }
+
+  reset(): void {
+    this.spans.length = 0;
+  }
+}
+
+/** OTLP exporter options */
+export interface OTLPHttpExporterOptions {
+  /** Traces endpoint, e.g. http://localhost:4318/v1/traces */
+  endpoint: string;
+  serviceName?: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Exports spans as OTLP/HTTP JSON (Jaeger, Tempo, otel-collector on :4318)
+ */
+export class OTLPHttpExporter implements SpanExporter {
+  private fetchFn: typeof fetch;
+
+  constructor(private options: OTLPHttpExporterOptions) {
+    this.fetchFn = options.fetch ?? fetch;
+  }
+
+  async export(spans: SpanData[]): Promise<void> {
+    if (spans.length === 0) return;
+
+    const response = await this.fetchFn(this.options.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.options.headers },
+      body: JSON.stringify(toOtlpPayload(spans, this.options.serviceName ?? DEFAULT_SERVICE_NAME)),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 10000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OTLP collector responded with ${response.status}`);
+    }
+  }
+}
+
+// ============================================================================
+// INSTRUMENTATION
+// ============================================================================
+
+/** Options for tracedFetch */
+export interface TracedFetchOptions {
+  fetch?: typeof fetch;
+  /** Span name (default "<METHOD> <host>") */
+  spanName?: (method: string, url: URL) => string;
+  attributes?: SpanAttributes;
+}
+
+/**
+ * Wrap fetch so every request becomes a client span and carries traceparent.
+ * Query strings are left out of span attributes (they can hold filter values).
+ */
+export function tracedFetch(options: TracedFetchOptions = {}): typeof fetch {
+  const baseFetch = options.fetch ?? fetch;
+
+  return async (input, init) => {
+    const tracer = getTracer();
+    const request = input instanceof Request ? input : null;
+    const url = new URL(request ? request.url : input.toString());
+    const method = (init?.method ?? request?.method ?? 'GET').toUpperCase();
+    const name = options.spanName ? options.spanName(method, url) : `${method} ${url.host}`;
+
+    return tracer.withSpan(name, {
+      kind: 'client',
+      attributes: {
+        ...options.attributes,
+        'http.request.method': method,
+        'server.address': url.hostname,
+        'url.path': url.pathname,
+      },
+    }, async span => {
+      const headers = new Headers(init?.headers ?? request?.headers);
+      headers.set('traceparent', formatTraceparent(span.context));
+
+      const response = await baseFetch(input, { ...init, headers });
+      span.setAttribute('http.response.status_code', response.status);
+      if (response.status >= 500) span.setStatus('error', `HTTP ${response.status}`);
+      return response;
+    });
+  };
+}
+
+/**
+ * Wrap a route handler with a server span (parented to an incoming
+ * traceparent) and the http_server_request_duration_seconds histogram.
+ * For streamed responses the latency covers time to the response headers.
+ */
+export function withRouteTelemetry<Req extends Request, Args extends unknown[]>(
+  route: string,
+  handler: (req: Req, ...args: Args) => Promise<Response> | Response
+): (req: Req, ...args: Args) => Promise<Response> {
+  return async (req, ...args) => {
+    const method = req.method.toUpperCase();
+    const duration = getMetricsRegistry().histogram('http_server_request_duration_seconds', {
+      help: 'API route latency',
+      unit: 'seconds',
+    });
+    const stopTimer = duration.startTimer({ route, method });
+
+    let status = 500;
+    try {
+      return await getTracer().withSpan(`${method} ${route}`, {
+        kind: 'server',
+        parent: parseTraceparent(req.headers.get('traceparent')) ?? null,
+        attributes: { 'http.request.method': method, 'http.route': route },
+      }, async span => {
+        const response = await handler(req, ...args);
+        status = response.status;
+        span.setAttribute('http.response.status_code', status);
+        if (status >= 500) span.setStatus('error', `HTTP ${status}`);
+        return response;
+      });
+    } finally {
+      stopTimer({ status: String(status) });
+    }
+  };
+}
+
+// ============================================================================
+// FACTORY FUNCTIONS
+// ============================================================================
+
+/** Singleton instance */
+let globalTracer: Tracer | null = null;
+
+/**
+ * Get the global tracer; exports to OTEL_EXPORTER_OTLP_TRACES_ENDPOINT or
+ * OTEL_EXPORTER_OTLP_ENDPOINT + /v1/traces when either is set
+ */
+export function getTracer(): Tracer {
+  if (!globalTracer) {
+    globalTracer = createTracerFromEnv(process.env);
+  }
+  return globalTracer;
+}
+
+/**
+ * Replace the global tracer (useful for testing)
+ */
+export function setTracer(tracer: Tracer): void {
+  globalTracer = tracer;
+}
+
+/**
+ * Reset the global tracer (useful for testing)
+ */
+export function resetTracer(): void {
+  if (globalTracer) {
+    void globalTracer.shutdown();
+  }
+  globalTracer = null;
+}
+
+/**
+ * Build a tracer from OTEL_* environment variables
+ */
+export function createTracerFromEnv(env: Record<string, string | undefined>): Tracer {
+  const serviceName = env.OTEL_SERVICE_NAME || DEFAULT_SERVICE_NAME;
+  const endpoint = env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+    || (env.OTEL_EXPORTER_OTLP_ENDPOINT ? `${env.OTEL_EXPORTER_OTLP_ENDPOINT.replace(/\/$/, '')}/v1/traces` : undefined);
+
+  if (!endpoint || env.OTEL_SDK_DISABLED === 'true') {
+    return new Tracer({ serviceName });
+  }
+
+  const ratio = parseFloat(env.OTEL_TRACES_SAMPLER_ARG ?? '');
+  return new Tracer({
+    serviceName,
+    sampleRatio: Number.isFinite(ratio) ? ratio : 1,
+    exporter: new OTLPHttpExporter({
+      endpoint,
+      serviceName,
+      headers: parseHeaderList(env.OTEL_EXPORTER_OTLP_HEADERS),
+    }),
+  });
+}
+
+// ============================================================================
+// UTILITIES
+// ============================================================================
+
+/**
+ * Parse a W3C traceparent header
+ */
+export function parseTraceparent(header: string | null | undefined): SpanContext | null {
+  const match = header?.trim().toLowerCase().match(TRACEPARENT);
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) return null;
+  return { traceId: match[1], spanId: match[2], sampled: (parseInt(match[3], 16) & 1) === 1 };
+}
+
+/**
+ * Format a W3C traceparent header
+ */
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+/**
+ * Convert spans to an OTLP/HTTP JSON ExportTraceServiceRequest
+ */
+export function toOtlpPayload(spans: SpanData[], serviceName: string): Record<string, unknown> {
+  return {
+    resourceSpans: [{
+      resource: { attributes: toOtlpAttributes({ 'service.name': serviceName }) },
+      scopeSpans: [{
+        scope: { name: serviceName },
+        spans: spans.map(span => ({
+          traceId: span.traceId,
+          spanId: span.spanId,
+          parentSpanId: span.parentSpanId,
+          name: span.name,
+          kind: OTLP_SPAN_KIND[span.kind],
+          startTimeUnixNano: toUnixNano(span.startTime),
+          endTimeUnixNano: toUnixNano(span.endTime),
+          attributes: toOtlpAttributes(span.attributes),
+          events: span.events.map(event => ({
+            name: event.name,
+            timeUnixNano: toUnixNano(event.time),
+            attributes: toOtlpAttributes(event.attributes ?? {}),
+          })),
+          status: { code: OTLP_STATUS_CODE[span.status.code], message: span.status.message },
+        })),
+      }],
+    }],
+  };
+}
+
+function toOtlpAttributes(attributes: SpanAttributes): Array<{ key: string; value: Record<string, unknown> }> {
+  return Object.entries(attributes)
+    .filter((entry): entry is [string, AttributeValue] => entry[1] !== undefined)
+    .map(([key, value]) => ({
+      key,
+      value: typeof value === 'string' ? { stringValue: value }
+        : typeof value === 'boolean' ? { boolValue: value }
+        : Number.isInteger(value) ? { intValue: String(value) }
+        : { doubleValue: value },
+    }));
+}
+
+/** Epoch milliseconds to a nanosecond string without losing precision */
+function toUnixNano(ms: number): string {
+  const whole = Math.floor(ms);
+  const fraction = Math.min(999999, Math.floor((ms - whole) * 1e6));
+  return `${whole}${String(fraction).padStart(6, '0')}`;
+}
+
+function nowMs(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+function randomHex(bytes: number): string {
+  return randomBytes(bytes).toString('hex');
+}
+
+function parseHeaderList(value: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of (value ?? '').split(',')) {
+    const index = pair.indexOf('=');
+    if (index > 0) headers[pair.slice(0, index).trim()] = decodeURIComponent(pair.slice(index + 1).trim());
+  }
+  return headers;
+}
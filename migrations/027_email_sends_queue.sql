@@ -0,0 +1,29 @@
+-- Migration: Durable email queue on email_sends
+-- Lets EmailQueueService workers claim jobs with FOR UPDATE SKIP LOCKED
+
+ALTER TABLE email_sends
+  ADD COLUMN IF NOT EXISTS job_id TEXT,
+  ADD COLUMN IF NOT EXISTS queue_name TEXT,
+  ADD COLUMN IF NOT EXISTS priority INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS job_data JSONB,
+  ADD COLUMN IF NOT EXISTS locked_by TEXT,
+  ADD COLUMN IF NOT EXISTS locked_at TIMESTAMPTZ;
+
+-- Queue job IDs are caller-supplied and must be unique across workers
+-- (rows sent outside the queue keep job_id NULL, which never conflicts)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_sends_job_id ON email_sends(job_id);
+
+-- Claim index: due jobs per queue ordered by priority
+CREATE INDEX IF NOT EXISTS idx_email_sends_queue_claim
+  ON email_sends(queue_name, priority DESC, COALESCE(scheduled_for, queued_at))
+  WHERE status IN ('queued', 'scheduled');
+
+-- Stale lock recovery
+CREATE INDEX IF NOT EXISTS idx_email_sends_queue_locked
+  ON email_sends(queue_name, locked_at)
+  WHERE status = 'sending';
+
+COMMENT ON COLUMN email_sends.job_id IS 'EmailQueueService job ID (unique)';
+COMMENT ON COLUMN email_sends.queue_name IS 'email:priority, email:normal, email:bulk or email:dead-letter';
+COMMENT ON COLUMN email_sends.job_data IS 'Full EmailJobData payload used by queue workers';
+COMMENT ON COLUMN email_sends.locked_by IS 'Worker currently sending this row';
@@ -0,0 +1,40 @@
+-- Migration: Open & click tracking
+-- Flags automated hits (scanners, prefetch, Apple MPP) and rolls human
+-- opens/clicks into sequence_analytics
+
+ALTER TABLE email_events
+  ADD COLUMN IF NOT EXISTS is_automated BOOLEAN DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_email_events_human
+  ON email_events(email_send_id, event_type)
+  WHERE is_automated = false;
+
+COMMENT ON COLUMN email_events.is_automated IS 'Hit from a security scanner, prefetch or Apple Mail Privacy Protection (excluded from analytics)';
+
+-- Increment daily open/click counters for a sequence
+CREATE OR REPLACE FUNCTION increment_sequence_engagement(
+  p_sequence_id UUID,
+  p_day DATE,
+  p_event_type TEXT,
+  p_unique BOOLEAN
+) RETURNS VOID AS $$
+BEGIN
+  INSERT INTO sequence_analytics (sequence_id, period_type, period_start, period_end)
+  VALUES (p_sequence_id, 'daily', p_day, p_day)
+  ON CONFLICT (sequence_id, period_type, period_start) DO NOTHING;
+
+  IF p_event_type = 'open' THEN
+    UPDATE sequence_analytics
+    SET emails_opened = COALESCE(emails_opened, 0) + 1,
+        unique_opens = COALESCE(unique_opens, 0) + CASE WHEN p_unique THEN 1 ELSE 0 END,
+        updated_at = NOW()
+    WHERE sequence_id = p_sequence_id AND period_type = 'daily' AND period_start = p_day;
+  ELSIF p_event_type = 'click' THEN
+    UPDATE sequence_analytics
+    SET emails_clicked = COALESCE(emails_clicked, 0) + 1,
+        unique_clicks = COALESCE(unique_clicks, 0) + CASE WHEN p_unique THEN 1 ELSE 0 END,
+        updated_at = NOW()
+    WHERE sequence_id = p_sequence_id AND period_type = 'daily' AND period_start = p_day;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
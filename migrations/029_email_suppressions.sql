@@ -0,0 +1,40 @@
+-- Migration: Email suppression list
+-- Addresses and domains that must never be emailed, globally or per workspace
+
+CREATE TABLE IF NOT EXISTS email_suppressions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- What is suppressed
+  suppression_type TEXT NOT NULL
+    CHECK (suppression_type IN ('address', 'domain')),
+  value TEXT NOT NULL,
+
+  -- Scope (NULL = every workspace)
+  workspace_id TEXT,
+
+  -- Why
+  reason TEXT NOT NULL
+    CHECK (reason IN ('unsubscribe', 'hard_bounce', 'spam_complaint', 'manual', 'import')),
+  source TEXT,
+  notes TEXT,
+
+  -- Timing
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ,
+
+  -- One entry per value and scope (global entries share the NULL scope)
+  CONSTRAINT email_suppressions_unique
+    UNIQUE NULLS NOT DISTINCT (suppression_type, value, workspace_id),
+  CONSTRAINT email_suppressions_lowercase CHECK (value = LOWER(value))
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_suppressions_value ON email_suppressions(value);
+CREATE INDEX IF NOT EXISTS idx_email_suppressions_workspace ON email_suppressions(workspace_id);
+
+ALTER TABLE email_suppressions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY suppressions_select_all ON email_suppressions
+  FOR SELECT TO authenticated USING (true);
+
+COMMENT ON TABLE email_suppressions IS 'Unsubscribes, hard bounces, complaints and manual blocks checked before every send';
+COMMENT ON COLUMN email_suppressions.value IS 'Lowercased address, or domain (also covers its subdomains)';
@@ -0,0 +1,65 @@
+-- Migration: Sender mailboxes and campaign sender pools
+-- Campaigns rotate sends across several mailboxes, each on its own warmup ramp
+
+CREATE TABLE IF NOT EXISTS sender_mailboxes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id TEXT,
+
+  -- Identity
+  email TEXT NOT NULL,
+  account_id TEXT,
+
+  -- Warmup: day 1 is warmup_started_at; NULL ramp uses the default ramp
+  warmup_started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  warmup_ramp JSONB,
+
+  -- Availability
+  status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'paused')),
+  paused_reason TEXT,
+  paused_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT sender_mailboxes_unique UNIQUE NULLS NOT DISTINCT (email, workspace_id)
+);
+
+CREATE TABLE IF NOT EXISTS campaign_mailboxes (
+  campaign_id TEXT NOT NULL,
+  mailbox_id UUID NOT NULL REFERENCES sender_mailboxes(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (campaign_id, mailbox_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sender_mailboxes_workspace ON sender_mailboxes(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_campaign_mailboxes_mailbox ON campaign_mailboxes(mailbox_id);
+
+-- Trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_sender_mailboxes_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_sender_mailboxes ON sender_mailboxes;
+CREATE TRIGGER trigger_update_sender_mailboxes
+  BEFORE UPDATE ON sender_mailboxes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sender_mailboxes_updated_at();
+
+ALTER TABLE sender_mailboxes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE campaign_mailboxes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY sender_mailboxes_select_all ON sender_mailboxes
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY campaign_mailboxes_select_all ON campaign_mailboxes
+  FOR SELECT TO authenticated USING (true);
+
+COMMENT ON TABLE sender_mailboxes IS 'Sending mailboxes (Google/Microsoft inboxes) rotated by the email processor';
+COMMENT ON COLUMN sender_mailboxes.warmup_ramp IS '{"startPerDay", "dailyIncrease", "maxPerDay", "hourlyShare"?, "minuteShare"?}';
+COMMENT ON COLUMN sender_mailboxes.paused_reason IS 'Set when paused manually or automatically after consecutive failures';
+COMMENT ON TABLE campaign_mailboxes IS 'Mailboxes assigned to a campaign (sequence id)';
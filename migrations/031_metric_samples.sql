@@ -0,0 +1,52 @@
+-- Migration: Persisted monitor metrics
+-- Raw QueueMonitor samples plus 1m / 1h rollups so historical windows survive restarts
+
+CREATE TABLE IF NOT EXISTS metric_samples (
+  id BIGSERIAL PRIMARY KEY,
+  series TEXT NOT NULL,
+  metric_type TEXT NOT NULL
+    CHECK (metric_type IN ('counter', 'gauge', 'histogram', 'summary')),
+  labels JSONB NOT NULL DEFAULT '{}',
+  labels_key TEXT NOT NULL DEFAULT '',
+  value DOUBLE PRECISION NOT NULL,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS metric_rollups (
+  series TEXT NOT NULL,
+  metric_type TEXT NOT NULL
+    CHECK (metric_type IN ('counter', 'gauge', 'histogram', 'summary')),
+  labels JSONB NOT NULL DEFAULT '{}',
+  labels_key TEXT NOT NULL DEFAULT '',
+  resolution TEXT NOT NULL
+    CHECK (resolution IN ('1m', '1h')),
+  bucket TIMESTAMPTZ NOT NULL,
+
+  -- Aggregates; readers pick avg (sum / count), sum, min, max or last
+  count BIGINT NOT NULL DEFAULT 0,
+  sum DOUBLE PRECISION NOT NULL DEFAULT 0,
+  min DOUBLE PRECISION NOT NULL,
+  max DOUBLE PRECISION NOT NULL,
+  last DOUBLE PRECISION NOT NULL,
+  last_at TIMESTAMPTZ NOT NULL,
+
+  PRIMARY KEY (series, labels_key, resolution, bucket)
+);
+
+CREATE INDEX IF NOT EXISTS idx_metric_samples_series_time ON metric_samples(series, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_metric_samples_recorded_at ON metric_samples(recorded_at);
+CREATE INDEX IF NOT EXISTS idx_metric_rollups_series_time ON metric_rollups(series, resolution, bucket);
+
+ALTER TABLE metric_samples ENABLE ROW LEVEL SECURITY;
+ALTER TABLE metric_rollups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY metric_samples_select_all ON metric_samples
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY metric_rollups_select_all ON metric_rollups
+  FOR SELECT TO authenticated USING (true);
+
+COMMENT ON TABLE metric_samples IS 'Raw QueueMonitor samples (pruned after the raw retention, 6h by default)';
+COMMENT ON COLUMN metric_samples.labels_key IS 'Sorted k=v label string used to group series';
+COMMENT ON TABLE metric_rollups IS 'Downsampled metrics upserted on write (1m kept 7 days, 1h kept 90 days by default)';
+COMMENT ON COLUMN metric_rollups.bucket IS 'Bucket start, truncated to the resolution';
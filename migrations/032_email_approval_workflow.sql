@@ -0,0 +1,28 @@
+-- Migration: Email approval workflow
+-- Stores batch templates and recipients on email_approval_queue so reviewers can preview,
+-- edit and release batches, plus per-user auto-approval thresholds
+
+ALTER TABLE email_approval_queue
+  ADD COLUMN IF NOT EXISTS subject_template TEXT,
+  ADD COLUMN IF NOT EXISTS body_html_template TEXT,
+  ADD COLUMN IF NOT EXISTS body_text_template TEXT,
+  ADD COLUMN IF NOT EXISTS required_fields TEXT[] NOT NULL DEFAULT '{}',
+  -- [{ to, prospect_id?, prospect: {...}, seed? }]
+  ADD COLUMN IF NOT EXISTS recipients JSONB NOT NULL DEFAULT '[]',
+  -- { from, account_id, account_age_in_days, campaign_id?, workspace_id?, priority? }
+  ADD COLUMN IF NOT EXISTS send_options JSONB NOT NULL DEFAULT '{}',
+  -- [{ action, by, at, comment? }]
+  ADD COLUMN IF NOT EXISTS review_history JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS auto_approved BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS released_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS released_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_email_approval_queue_status_requested
+  ON email_approval_queue(status, requested_at DESC);
+
+-- Auto-approval thresholds (Settings > Autonomy); off until a user opts in
+ALTER TABLE preference_models
+  ADD COLUMN IF NOT EXISTS email_auto_approve_max_risk INTEGER NOT NULL DEFAULT 0
+    CHECK (email_auto_approve_max_risk BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS email_auto_approve_max_batch INTEGER NOT NULL DEFAULT 100
+    CHECK (email_auto_approve_max_batch >= 0);
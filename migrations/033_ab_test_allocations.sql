@@ -0,0 +1,25 @@
+-- Migration: Adaptive A/B allocation
+-- Thompson sampling settings on ab_tests and an audit trail of every re-weight
+
+ALTER TABLE IF EXISTS ab_tests
+  ADD COLUMN IF NOT EXISTS allocation_mode TEXT NOT NULL DEFAULT 'fixed'
+    CHECK (allocation_mode IN ('fixed', 'thompson')),
+  ADD COLUMN IF NOT EXISTS exploration_floor DOUBLE PRECISION NOT NULL DEFAULT 0.05
+    CHECK (exploration_floor >= 0 AND exploration_floor <= 0.5),
+  ADD COLUMN IF NOT EXISTS reweight_every INTEGER NOT NULL DEFAULT 50
+    CHECK (reweight_every > 0);
+
+CREATE TABLE IF NOT EXISTS ab_test_allocations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  test_id UUID NOT NULL,
+  reason TEXT NOT NULL
+    CHECK (reason IN ('initial', 'events', 'interval', 'manual')),
+  total_trials INTEGER NOT NULL DEFAULT 0,
+  exploration_floor DOUBLE PRECISION NOT NULL,
+  -- [{ variantId, trials, successes, alpha, beta, posteriorMean, probabilityBest, previousWeight, weight }]
+  variants JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ab_test_allocations_test
+  ON ab_test_allocations(test_id, created_at DESC);
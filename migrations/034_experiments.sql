@@ -0,0 +1,171 @@
+-- Migration: Unified A/B experiments
+-- One schema for sequence, touch and template tests, and a validated ab_test_config contract
+
+CREATE TABLE IF NOT EXISTS ab_tests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  type TEXT NOT NULL DEFAULT 'sequence',
+  sequence_id UUID,
+  sequence_ids UUID[],
+  touch_id TEXT,
+  template_id TEXT,
+  split DOUBLE PRECISION NOT NULL DEFAULT 0.5,
+  min_sample INTEGER NOT NULL DEFAULT 100,
+  max_sample INTEGER,
+  confidence_threshold DOUBLE PRECISION NOT NULL DEFAULT 0.95,
+  primary_metric TEXT NOT NULL DEFAULT 'replyRate',
+  analysis_mode TEXT NOT NULL DEFAULT 'frequentist',
+  allocation_mode TEXT NOT NULL DEFAULT 'fixed'
+    CHECK (allocation_mode IN ('fixed', 'thompson')),
+  exploration_floor DOUBLE PRECISION NOT NULL DEFAULT 0.05
+    CHECK (exploration_floor >= 0 AND exploration_floor <= 0.5),
+  reweight_every INTEGER NOT NULL DEFAULT 50
+    CHECK (reweight_every > 0),
+  status TEXT NOT NULL DEFAULT 'draft',
+  winning_variant_id UUID,
+  confidence DOUBLE PRECISION,
+  started_at TIMESTAMPTZ,
+  ended_at TIMESTAMPTZ,
+  auto_end_at TIMESTAMPTZ,
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Tables created before this migration (033 only altered them when present)
+ALTER TABLE ab_tests
+  ADD COLUMN IF NOT EXISTS sequence_ids UUID[],
+  ADD COLUMN IF NOT EXISTS template_id TEXT,
+  ADD COLUMN IF NOT EXISTS analysis_mode TEXT NOT NULL DEFAULT 'frequentist',
+  ADD COLUMN IF NOT EXISTS allocation_mode TEXT NOT NULL DEFAULT 'fixed',
+  ADD COLUMN IF NOT EXISTS exploration_floor DOUBLE PRECISION NOT NULL DEFAULT 0.05,
+  ADD COLUMN IF NOT EXISTS reweight_every INTEGER NOT NULL DEFAULT 50,
+  ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS ended_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS auto_end_at TIMESTAMPTZ;
+
+-- Statuses from the retired sequence-level model
+UPDATE ab_tests SET status = CASE status
+    WHEN 'pending' THEN 'draft'
+    WHEN 'complete' THEN 'completed'
+    WHEN 'winner_declared' THEN 'winner_selected'
+    ELSE status
+  END
+  WHERE status IN ('pending', 'complete', 'winner_declared');
+
+ALTER TABLE ab_tests DROP CONSTRAINT IF EXISTS ab_tests_type_check;
+ALTER TABLE ab_tests ADD CONSTRAINT ab_tests_type_check
+  CHECK (type IN ('sequence', 'touch', 'template'));
+
+ALTER TABLE ab_tests DROP CONSTRAINT IF EXISTS ab_tests_status_check;
+ALTER TABLE ab_tests ADD CONSTRAINT ab_tests_status_check
+  CHECK (status IN ('draft', 'running', 'paused', 'completed', 'winner_selected'));
+
+ALTER TABLE ab_tests DROP CONSTRAINT IF EXISTS ab_tests_analysis_mode_check;
+ALTER TABLE ab_tests ADD CONSTRAINT ab_tests_analysis_mode_check
+  CHECK (analysis_mode IN ('frequentist', 'chi_square', 'bayesian', 'sequential'));
+
+CREATE TABLE IF NOT EXISTS ab_test_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  test_id UUID NOT NULL REFERENCES ab_tests(id) ON DELETE CASCADE,
+  variant_key TEXT NOT NULL,
+  name TEXT NOT NULL,
+  weight DOUBLE PRECISION NOT NULL DEFAULT 0.5,
+  touch_variants JSONB,
+  template_id TEXT,
+  sample_size INTEGER NOT NULL DEFAULT 0,
+  metrics JSONB NOT NULL DEFAULT '{}',
+  is_control BOOLEAN NOT NULL DEFAULT false,
+  is_winner BOOLEAN,
+  confidence_vs_control DOUBLE PRECISION,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (test_id, variant_key)
+);
+
+ALTER TABLE ab_test_variants
+  ADD COLUMN IF NOT EXISTS template_id TEXT;
+
+CREATE TABLE IF NOT EXISTS ab_test_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  test_id UUID NOT NULL REFERENCES ab_tests(id) ON DELETE CASCADE,
+  variant_id UUID NOT NULL REFERENCES ab_test_variants(id) ON DELETE CASCADE,
+  prospect_id TEXT NOT NULL,
+  sequence_id UUID,
+  touch_id TEXT,
+  event_type TEXT NOT NULL
+    CHECK (event_type IN ('sent', 'opened', 'clicked', 'replied', 'meeting_booked', 'unsubscribed')),
+  metadata JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ab_tests_status ON ab_tests(status);
+CREATE INDEX IF NOT EXISTS idx_ab_test_variants_test ON ab_test_variants(test_id);
+CREATE INDEX IF NOT EXISTS idx_ab_test_events_test
+  ON ab_test_events(test_id, variant_id, created_at);
+
+-- ab_test_config contract (mirrors validateABTestConfig in src/lib/testing/experiment-config.ts).
+-- Missing keys fall back to defaults, so legacy '{}' rows stay valid.
+CREATE OR REPLACE FUNCTION is_valid_ab_test_config(p_config JSONB)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_variants INTEGER;
+  v_weights INTEGER;
+BEGIN
+  IF p_config IS NULL OR p_config = '{}'::JSONB THEN
+    RETURN true;
+  END IF;
+
+  IF jsonb_typeof(p_config) <> 'object' THEN
+    RETURN false;
+  END IF;
+
+  IF p_config ? 'enabled' AND jsonb_typeof(p_config->'enabled') <> 'boolean' THEN
+    RETURN false;
+  END IF;
+
+  IF COALESCE(p_config->>'level', 'sequence') NOT IN ('sequence', 'touch', 'template')
+    OR COALESCE(p_config->>'primaryMetric', 'replyRate') NOT IN ('openRate', 'clickRate', 'replyRate', 'bookRate')
+    OR COALESCE(p_config->>'analysisMode', 'frequentist') NOT IN ('frequentist', 'chi_square', 'bayesian', 'sequential') THEN
+    RETURN false;
+  END IF;
+
+  IF p_config ? 'confidenceThreshold' AND NOT (
+    jsonb_typeof(p_config->'confidenceThreshold') = 'number'
+    AND (p_config->>'confidenceThreshold')::NUMERIC > 0
+    AND (p_config->>'confidenceThreshold')::NUMERIC < 1
+  ) THEN
+    RETURN false;
+  END IF;
+
+  IF jsonb_typeof(COALESCE(p_config->'variants', '[]')) <> 'array'
+    OR jsonb_typeof(COALESCE(p_config->'weights', '[]')) <> 'array' THEN
+    RETURN false;
+  END IF;
+
+  v_variants := jsonb_array_length(COALESCE(p_config->'variants', '[]'));
+  v_weights := jsonb_array_length(COALESCE(p_config->'weights', '[]'));
+
+  -- Weights are read as INTEGER[] by assign_ab_variant()
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(p_config->'weights', '[]')) AS w
+    WHERE jsonb_typeof(w) <> 'number' OR (w::TEXT)::NUMERIC < 0 OR (w::TEXT)::NUMERIC <> trunc((w::TEXT)::NUMERIC)
+  ) THEN
+    RETURN false;
+  END IF;
+
+  IF v_weights > 0 AND v_weights <> v_variants THEN
+    RETURN false;
+  END IF;
+
+  IF COALESCE((p_config->>'enabled')::BOOLEAN, false) AND v_variants < 2 THEN
+    RETURN false;
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+ALTER TABLE email_sequences DROP CONSTRAINT IF EXISTS email_sequences_ab_test_config_check;
+ALTER TABLE email_sequences ADD CONSTRAINT email_sequences_ab_test_config_check
+  CHECK (is_valid_ab_test_config(ab_test_config)) NOT VALID;
@@ -0,0 +1,20 @@
+-- Migration: Experiment guardrails
+-- Guardrail metrics per test, stopped variants, and bounce / spam complaint events
+
+ALTER TABLE ab_tests
+  ADD COLUMN IF NOT EXISTS guardrails JSONB NOT NULL DEFAULT '[
+    {"metric": "bounceRate", "maxRate": 0.05, "maxIncrease": 0.01, "action": "stop"},
+    {"metric": "unsubscribeRate", "maxRate": 0.02, "maxIncrease": 0.005, "action": "stop"},
+    {"metric": "spamComplaintRate", "maxRate": 0.003, "maxIncrease": 0.001, "action": "rollback"}
+  ]';
+
+ALTER TABLE ab_test_variants
+  ADD COLUMN IF NOT EXISTS stopped_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS stop_reason TEXT;
+
+ALTER TABLE ab_test_events DROP CONSTRAINT IF EXISTS ab_test_events_event_type_check;
+ALTER TABLE ab_test_events ADD CONSTRAINT ab_test_events_event_type_check
+  CHECK (event_type IN (
+    'sent', 'opened', 'clicked', 'replied', 'meeting_booked',
+    'unsubscribed', 'bounced', 'spam_complaint'
+  ));
@@ -0,0 +1,74 @@
+-- Migration: Prospect identity resolution
+-- Normalized match keys, field-level source attribution, merge history,
+-- a review queue for ambiguous matches and company domain aliases
+
+ALTER TABLE prospects
+  ADD COLUMN IF NOT EXISTS source_provider_id TEXT,
+  ADD COLUMN IF NOT EXISTS person_email_normalized TEXT,
+  ADD COLUMN IF NOT EXISTS person_linkedin_slug TEXT,
+  ADD COLUMN IF NOT EXISTS company_domain_canonical TEXT,
+  ADD COLUMN IF NOT EXISTS company_name_normalized TEXT,
+  ADD COLUMN IF NOT EXISTS field_sources JSONB NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS source_records JSONB NOT NULL DEFAULT '[]';
+
+CREATE INDEX IF NOT EXISTS idx_prospects_email_normalized ON prospects(user_id, person_email_normalized)
+  WHERE person_email_normalized IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_prospects_linkedin_slug ON prospects(user_id, person_linkedin_slug)
+  WHERE person_linkedin_slug IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_prospects_domain_canonical ON prospects(user_id, company_domain_canonical);
+CREATE INDEX IF NOT EXISTS idx_prospects_company_normalized ON prospects(user_id, company_name_normalized);
+
+-- Merge history: one row per record merged into a prospect
+CREATE TABLE IF NOT EXISTS prospect_merges (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    prospect_id UUID NOT NULL REFERENCES prospects(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+    source TEXT NOT NULL,
+    source_id TEXT,
+    source_job_id UUID,
+    match_score NUMERIC(4,3) NOT NULL,
+    matched_on TEXT[] NOT NULL DEFAULT '{}',
+    changes JSONB NOT NULL DEFAULT '[]',
+    decided_by TEXT NOT NULL DEFAULT 'auto',
+    review_id UUID,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prospect_merges_prospect ON prospect_merges(prospect_id, created_at DESC);
+
+-- Ambiguous matches awaiting a human decision
+CREATE TABLE IF NOT EXISTS prospect_match_reviews (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id TEXT NOT NULL,
+    candidate_prospect_id UUID NOT NULL REFERENCES prospects(id) ON DELETE CASCADE,
+    record JSONB NOT NULL,
+    match_score NUMERIC(4,3) NOT NULL,
+    matched_on TEXT[] NOT NULL DEFAULT '{}',
+    conflicts TEXT[] NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'merged', 'separate')),
+    resolved_prospect_id UUID REFERENCES prospects(id) ON DELETE SET NULL,
+    reviewed_by TEXT,
+    reviewed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prospect_match_reviews_pending ON prospect_match_reviews(user_id, created_at)
+  WHERE status = 'pending';
+
+-- Company domain aliases (acquisitions, regional and legacy domains)
+CREATE TABLE IF NOT EXISTS company_domain_aliases (
+    alias_domain TEXT PRIMARY KEY,
+    canonical_domain TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (alias_domain <> canonical_domain)
+);
+
+ALTER TABLE prospect_merges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prospect_match_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can see and manage their own merge history and reviews
+CREATE POLICY "Users can manage own prospect merges" ON prospect_merges
+    FOR ALL USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Users can manage own match reviews" ON prospect_match_reviews
+    FOR ALL USING (auth.uid()::text = user_id);
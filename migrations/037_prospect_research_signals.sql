@@ -0,0 +1,11 @@
+-- Migration: Prospect cleansing and signal scan state
+-- Email verification result from data_cleansing jobs and the time of the
+-- last signal_detection scan
+
+ALTER TABLE prospects
+  ADD COLUMN IF NOT EXISTS email_status TEXT
+    CHECK (email_status IN ('valid', 'risky', 'invalid', 'unknown')),
+  ADD COLUMN IF NOT EXISTS signals_checked_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_prospects_email_status ON prospects(user_id, email_status);
+CREATE INDEX IF NOT EXISTS idx_prospects_signals_checked ON prospects(user_id, signals_checked_at NULLS FIRST);
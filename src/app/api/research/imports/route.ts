@@ -0,0 +1,188 @@
+/**
+ * Research Imports API
+ * POST /api/research/imports - Upload a CSV/XLSX file as a bulk_import job
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { randomUUID } from 'crypto';
+import { detectFormat, readRows } from '@/lib/research/spreadsheet';
+import {
+  mappingFromSuggestions,
+  suggestColumnMapping,
+  validateColumnMapping,
+  type BulkImportParams,
+  type ColumnMapping,
+} from '@/lib/research/bulk-import';
+import { IMPORT_BUCKET } from '@/lib/services/job-queue-service';
+
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+const SAMPLE_ROWS = 5;
+
+// POST /api/research/imports - Preview column mappings or create the import job
+//
+// multipart/form-data:
+//   file     CSV or XLSX (required)
+//   preview  "true" to return headers, sample rows and suggested mappings only
+//   mapping  JSON array of prospect fields (or null) per column; defaults to the suggestions
+//   name     job name; defaults to the file name
+export async function POST(request: NextRequest) {
+  try {
+    const userId = request.headers.get('x-user-id');
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const form = await request.formData();
+    const file = form.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'file is required' },
+        { status: 400 }
+      );
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json(
+        { error: `File exceeds the ${MAX_FILE_BYTES / 1024 / 1024} MB limit` },
+        { status: 413 }
+      );
+    }
+
+    const format = detectFormat(file.name, file.type);
+    if (!format) {
+      return NextResponse.json(
+        { error: 'Unsupported file type. Upload a CSV or XLSX file' },
+        { status: 415 }
+      );
+    }
+
+    // Read the header, a sample and the row count; the job streams the file again
+    let headers: string[] = [];
+    const sampleRows: string[][] = [];
+    let rowCount = 0;
+    try {
+      for await (const row of readRows(file.stream(), format)) {
+        if (headers.length === 0) {
+          headers = row.map(cell => cell.trim());
+          continue;
+        }
+        if (row.every(cell => !cell.trim())) continue;
+        if (sampleRows.length < SAMPLE_ROWS) sampleRows.push(row);
+        rowCount++;
+      }
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Could not read file', details: error instanceof Error ? error.message : String(error) },
+        { status: 400 }
+      );
+    }
+
+    if (headers.length === 0 || rowCount === 0) {
+      return NextResponse.json(
+        { error: 'File needs a header row and at least one data row' },
+        { status: 400 }
+      );
+    }
+
+    const suggestions = suggestColumnMapping(headers, sampleRows);
+
+    if (form.get('preview') === 'true') {
+      return NextResponse.json({
+        headers,
+        sampleRows,
+        rowCount,
+        suggestions,
+        mapping: mappingFromSuggestions(suggestions),
+      });
+    }
+
+    let mapping: ColumnMapping = mappingFromSuggestions(suggestions);
+    const mappingField = form.get('mapping');
+    if (typeof mappingField === 'string' && mappingField) {
+      try {
+        mapping = JSON.parse(mappingField);
+      } catch {
+        return NextResponse.json(
+          { error: 'mapping must be valid JSON' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const mappingErrors = validateColumnMapping(mapping, headers.length);
+    if (mappingErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid column mapping', details: mappingErrors, suggestions },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          persistSession: false,
+          autoRefreshToken: false,
+        },
+      }
+    );
+
+    const path = `${userId}/${randomUUID()}-${file.name.replace(/[^\w.-]+/g, '_')}`;
+    const { error: uploadError } = await supabase.storage
+      .from(IMPORT_BUCKET)
+      .upload(path, file, { contentType: file.type || undefined });
+
+    if (uploadError) {
+      console.error('Failed to store import file:', uploadError);
+      return NextResponse.json(
+        { error: 'Failed to store file', details: uploadError.message },
+        { status: 500 }
+      );
+    }
+
+    const importParams: BulkImportParams = { path, filename: file.name, format, mapping, rowCount };
+    const name = form.get('name');
+
+    const { data: job, error } = await supabase
+      .from('research_jobs')
+      .insert({
+        name: typeof name === 'string' && name.trim() ? name.trim().slice(0, 255) : `Import ${file.name}`,
+        type: 'bulk_import',
+        status: 'queued',
+        search_params: { import: importParams, sources: ['upload'] },
+        sources: ['upload'],
+        progress_percentage: 0,
+        total_records: rowCount,
+        processed_records: 0,
+        success_count: 0,
+        error_count: 0,
+        skip_count: 0,
+        retry_count: 0,
+        max_retries: 3,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Failed to create import job:', error);
+      await supabase.storage.from(IMPORT_BUCKET).remove([path]);
+      return NextResponse.json(
+        { error: 'Failed to create job', details: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ job, mapping, suggestions }, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/research/imports error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
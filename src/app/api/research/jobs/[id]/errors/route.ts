@@ -0,0 +1,87 @@
+/**
+ * Job Row Errors API
+ * GET /api/research/jobs/[id]/errors - Per-row import errors (CSV or JSON)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { toCsv } from '@/lib/research/spreadsheet';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/research/jobs/[id]/errors?format=csv|json - Download row errors
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const format = new URL(request.url).searchParams.get('format') ?? 'csv';
+
+    const userId = request.headers.get('x-user-id');
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          persistSession: false,
+          autoRefreshToken: false,
+        },
+      }
+    );
+
+    const { data: job, error: jobError } = await supabase
+      .from('research_jobs')
+      .select('id, name')
+      .eq('id', id)
+      .eq('created_by', userId)
+      .single();
+
+    if (jobError) {
+      if (jobError.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: 'Job not found' },
+          { status: 404 }
+        );
+      }
+      throw jobError;
+    }
+
+    const { data: errors, error } = await supabase
+      .from('research_job_row_errors')
+      .select('row_number, column_name, field, value, message')
+      .eq('job_id', id)
+      .order('row_number', { ascending: true });
+
+    if (error) throw error;
+
+    if (format === 'json') {
+      return NextResponse.json({ errors: errors || [] });
+    }
+
+    const csv = toCsv([
+      ['row', 'column', 'field', 'value', 'error'],
+      ...(errors || []).map(e => [e.row_number, e.column_name, e.field, e.value, e.message]),
+    ]);
+    const filename = `${job.name.replace(/[^\w.-]+/g, '_')}-errors.csv`;
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('GET /api/research/jobs/[id]/errors error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,20 +2,67 @@
  * Job Progress API
  * GET /api/research/jobs/[id]/progress
  * UI-ready progress tracking endpoint
+ *
+ * With `Accept: text/event-stream` the response is an SSE stream of
+ * `progress` and `status` events instead of a one-off snapshot. Use the id
+ * `all` to multiplex every job of the user on one stream. A reconnecting
+ * client sends Last-Event-ID (or ?lastEventId=) and gets the events it
+ * missed; a fresh connection starts with a `snapshot` event per job.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createJobEventStream, getJobEventBus } from '@/lib/research/progress-events';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
-// GET /api/research/jobs/[id]/progress - Get job progress
+/** Multiplexes all of the user's jobs */
+const ALL_JOBS = 'all';
+
+const ACTIVE_STATUSES = ['pending', 'queued', 'running', 'paused'];
+
+const PROGRESS_COLUMNS = `
+  id,
+  status,
+  progress_percentage,
+  total_records,
+  processed_records,
+  success_count,
+  error_count,
+  skip_count,
+  result_summary,
+  last_error,
+  started_at,
+  completed_at,
+  updated_at,
+  created_by
+`;
+
+type ProgressRow = {
+  id: string;
+  status: string;
+  progress_percentage: number;
+  total_records: number | null;
+  processed_records: number;
+  success_count: number | null;
+  error_count: number | null;
+  skip_count: number | null;
+  result_summary: Record<string, unknown> | null;
+  last_error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  updated_at: string;
+  created_by: string;
+};
+
+// GET /api/research/jobs/[id]/progress - Get job progress (or stream it)
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    
+    const userId = request.headers.get('x-user-id');
+
     const supabase = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
       process.env.SUPABASE_SERVICE_ROLE_KEY!,
@@ -27,24 +74,27 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       }
     );
 
+    const wantsSSE = request.headers.get('accept')?.includes('text/event-stream') ?? false;
+    if (wantsSSE) {
+      return streamProgress(request, supabase, id, userId);
+    }
+
+    if (id === ALL_JOBS) {
+      if (!userId) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        );
+      }
+
+      const jobs = await getActiveJobs(supabase, userId);
+      return NextResponse.json({ jobs: jobs.map(toProgress) });
+    }
+
     // Get job with progress info
     const { data: job, error } = await supabase
       .from('research_jobs')
-      .select(`
-        id,
-        status,
-        progress_percentage,
-        total_records,
-        processed_records,
-        success_count,
-        error_count,
-        skip_count,
-        result_summary,
-        last_error,
-        started_at,
-        completed_at,
-        updated_at
-      `)
+      .select(PROGRESS_COLUMNS)
       .eq('id', id)
       .single();
 
@@ -58,47 +108,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       throw error;
     }
 
-    // Calculate additional metrics
-    const now = new Date();
-    const startedAt = job.started_at ? new Date(job.started_at) : null;
-    const completedAt = job.completed_at ? new Date(job.completed_at) : null;
-    
-    let estimatedTimeRemaining: number | null = null;
-    let processingRate: number | null = null;
-    
-    if (startedAt && !completedAt && job.processed_records > 0) {
-      const elapsedMs = now.getTime() - startedAt.getTime();
-      const recordsPerMs = job.processed_records / elapsedMs;
-      const remainingRecords = (job.total_records || 0) - job.processed_records;
-      estimatedTimeRemaining = Math.ceil((remainingRecords / recordsPerMs) / 1000); // seconds
-      processingRate = Math.round(recordsPerMs * 1000 * 60); // records per minute
-    }
-
-    return NextResponse.json({
-      id: job.id,
-      status: job.status,
-      progress: {
-        percentage: job.progress_percentage,
-        processed: job.processed_records,
-        total: job.total_records || 0,
-      },
-      counts: {
-        success: job.success_count || 0,
-        error: job.error_count || 0,
-        skipped: job.skip_count || 0,
-      },
-      results: job.result_summary || {},
-      error: job.last_error,
-      timing: {
-        startedAt: job.started_at,
-        completedAt: job.completed_at,
-        updatedAt: job.updated_at,
-      },
-      estimates: {
-        estimatedTimeRemaining,
-        processingRate,
-      },
-    });
+    return NextResponse.json(toProgress(job as ProgressRow));
   } catch (error) {
     console.error(`GET /api/research/jobs/[id]/progress error:`, error);
     return NextResponse.json(
@@ -107,3 +117,127 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     );
   }
 }
+
+/**
+ * SSE stream of one job's events, or all of the user's with id `all`
+ */
+async function streamProgress(
+  request: NextRequest,
+  supabase: SupabaseClient,
+  id: string,
+  userId: string | null
+): Promise<Response> {
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const jobId = id === ALL_JOBS ? undefined : id;
+  if (jobId) {
+    const { data: job, error } = await supabase
+      .from('research_jobs')
+      .select('id, created_by')
+      .eq('id', jobId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    if (!job || job.created_by !== userId) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+  }
+
+  const stream = createJobEventStream(getJobEventBus(), {
+    userId,
+    jobId,
+    lastEventId: request.headers.get('last-event-id') || request.nextUrl.searchParams.get('lastEventId'),
+    snapshot: async () => {
+      const jobs = jobId ? await getJobs(supabase, [jobId]) : await getActiveJobs(supabase, userId);
+      return jobs.map(job => ({ event: 'snapshot', data: toProgress(job) }));
+    },
+    signal: request.signal,
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Stop reverse proxies from buffering the stream
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
+async function getJobs(supabase: SupabaseClient, ids: string[]): Promise<ProgressRow[]> {
+  const { data, error } = await supabase
+    .from('research_jobs')
+    .select(PROGRESS_COLUMNS)
+    .in('id', ids);
+
+  if (error) throw error;
+  return (data || []) as ProgressRow[];
+}
+
+async function getActiveJobs(supabase: SupabaseClient, userId: string): Promise<ProgressRow[]> {
+  const { data, error } = await supabase
+    .from('research_jobs')
+    .select(PROGRESS_COLUMNS)
+    .eq('created_by', userId)
+    .in('status', ACTIVE_STATUSES)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as ProgressRow[];
+}
+
+/**
+ * UI-ready progress for a job row, with rate and time-remaining estimates
+ */
+function toProgress(job: ProgressRow) {
+  // Calculate additional metrics
+  const now = new Date();
+  const startedAt = job.started_at ? new Date(job.started_at) : null;
+  const completedAt = job.completed_at ? new Date(job.completed_at) : null;
+
+  let estimatedTimeRemaining: number | null = null;
+  let processingRate: number | null = null;
+
+  if (startedAt && !completedAt && job.processed_records > 0) {
+    const elapsedMs = now.getTime() - startedAt.getTime();
+    const recordsPerMs = job.processed_records / elapsedMs;
+    const remainingRecords = (job.total_records || 0) - job.processed_records;
+    estimatedTimeRemaining = Math.ceil((remainingRecords / recordsPerMs) / 1000); // seconds
+    processingRate = Math.round(recordsPerMs * 1000 * 60); // records per minute
+  }
+
+  return {
+    id: job.id,
+    status: job.status,
+    progress: {
+      percentage: job.progress_percentage,
+      processed: job.processed_records,
+      total: job.total_records || 0,
+    },
+    counts: {
+      success: job.success_count || 0,
+      error: job.error_count || 0,
+      skipped: job.skip_count || 0,
+    },
+    results: job.result_summary || {},
+    error: job.last_error,
+    timing: {
+      startedAt: job.started_at,
+      completedAt: job.completed_at,
+      updatedAt: job.updated_at,
+    },
+    estimates: {
+      estimatedTimeRemaining,
+      processingRate,
+    },
+  };
+}
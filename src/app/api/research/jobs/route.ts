@@ -7,36 +7,65 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { z } from 'zod';
 import { jobQueueService } from '@/lib/services/job-queue-service';
+import { ScheduleError, validateSchedule } from '@/lib/research/schedule';
 
 // Validation schemas
+const filtersSchema = z.object({
+  industries: z.array(z.string()).optional(),
+  companySize: z.array(z.string()).optional(),
+  jobTitles: z.array(z.string()).optional(),
+  technologies: z.array(z.string()).optional(),
+  fundingStage: z.array(z.string()).optional(),
+  signalTypes: z.array(z.string()).optional(),
+  locations: z.array(z.string()).optional(),
+  excludeCompanies: z.array(z.string()).optional(),
+});
+
+const jobTypeSchema = z.enum([
+  'prospect_search',
+  'company_enrichment',
+  'bulk_import',
+  'signal_detection',
+  'list_building',
+  'data_cleansing',
+  'competitor_research',
+]);
+
 const createJobSchema = z.object({
   name: z.string().min(1).max(255),
   description: z.string().max(1000).optional(),
-  type: z.enum([
-    'prospect_search',
-    'company_enrichment',
-    'bulk_import',
-    'signal_detection',
-    'list_building',
-    'data_cleansing',
-    'competitor_research',
-  ]),
+  type: jobTypeSchema,
   searchParams: z.object({
-    filters: z.object({
-      industries: z.array(z.string()).optional(),
-      companySize: z.array(z.string()).optional(),
-      jobTitles: z.array(z.string()).optional(),
-      technologies: z.array(z.string()).optional(),
-      fundingStage: z.array(z.string()).optional(),
-      signalTypes: z.array(z.string()).optional(),
-      locations: z.array(z.string()).optional(),
-      excludeCompanies: z.array(z.string()).optional(),
-    }).optional(),
+    filters: filtersSchema.optional(),
     limit: z.number().min(1).max(10000).default(1000),
     sortBy: z.string().optional(),
     sources: z.array(z.string()).default(['apollo']),
+    list: z.object({
+      segments: z.array(z.object({
+        name: z.string().min(1).max(100),
+        quota: z.number().int().min(1).max(10000),
+        filters: filtersSchema.optional(),
+      })).min(1).max(50).optional(),
+      minGrade: z.enum(['A', 'B', 'C', 'D', 'E', 'F']).optional(),
+    }).optional(),
+    competitors: z.array(z.string().min(1).max(255)).min(1).max(25).optional(),
+    netNewOnly: z.boolean().optional(),
   }).optional().default({ limit: 1000, sources: ['apollo'] }),
   scheduledAt: z.string().datetime().optional(),
+  // Recurring jobs, e.g. { cron: '0 9 * * mon', timezone: 'Europe/London' }
+  schedule: z.object({
+    cron: z.string().min(1).max(100),
+    timezone: z.string().min(1).max(64).optional(),
+  }).optional(),
+  // Follow-up jobs run one after another once this job completes
+  then: z.array(z.object({
+    type: jobTypeSchema,
+    name: z.string().min(1).max(255).optional(),
+    searchParams: z.object({
+      filters: filtersSchema.optional(),
+      limit: z.number().min(1).max(10000).optional(),
+    }).optional(),
+  })).max(5).default([]),
   assignToCampaignId: z.string().uuid().optional(),
   assignToUserId: z.string().uuid().optional(),
   tags: z.array(z.string()).default([]),
@@ -131,17 +160,19 @@ export async function POST(request: NextRequest) {
 
     const validated = validationResult.data;
 
-    // Create server-side Supabase client
-    const supabase = createClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.SUPABASE_SERVICE_ROLE_KEY!,
-      {
-        auth: {
-          persistSession: false,
-          autoRefreshToken: false,
-        },
+    if (validated.schedule) {
+      try {
+        validateSchedule(validated.schedule);
+      } catch (error) {
+        if (error instanceof ScheduleError) {
+          return NextResponse.json(
+            { error: 'Invalid schedule', details: error.message },
+            { status: 400 }
+          );
+        }
+        throw error;
       }
-    );
+    }
 
     // Get user ID from header (set by middleware)
     const userId = request.headers.get('x-user-id');
@@ -152,42 +183,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create the job
-    const { data: job, error } = await supabase
-      .from('research_jobs')
-      .insert({
-        name: validated.name,
-        description: validated.description,
-        type: validated.type,
-        status: validated.scheduledAt ? 'pending' : 'queued',
-        search_params: validated.searchParams,
-        sources: validated.searchParams.sources || ['apollo'],
-        progress_percentage: 0,
-        total_records: 0,
-        processed_records: 0,
-        success_count: 0,
-        error_count: 0,
-        skip_count: 0,
-        retry_count: 0,
-        max_retries: 3,
-        scheduled_at: validated.scheduledAt,
-        created_by: userId,
-        assign_to_campaign_id: validated.assignToCampaignId,
-        assign_to_user_id: validated.assignToUserId,
-        tags: validated.tags,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Failed to create job:', error);
-      return NextResponse.json(
-        { error: 'Failed to create job', details: error.message },
-        { status: 500 }
-      );
-    }
+    // Create the job and any follow-ups
+    const [job, ...chain] = await jobQueueService.createJobChain({
+      name: validated.name,
+      description: validated.description,
+      type: validated.type,
+      searchParams: validated.searchParams,
+      progressPercentage: 0,
+      totalRecords: 0,
+      processedRecords: 0,
+      successCount: 0,
+      errorCount: 0,
+      skipCount: 0,
+      retryCount: 0,
+      maxRetries: 3,
+      scheduledAt: validated.scheduledAt ? new Date(validated.scheduledAt) : undefined,
+      schedule: validated.schedule,
+      createdBy: userId,
+      assignToCampaignId: validated.assignToCampaignId,
+      assignToUserId: validated.assignToUserId,
+      tags: validated.tags,
+    }, validated.then);
 
-    return NextResponse.json({ job }, { status: 201 });
+    return NextResponse.json({ job, chain }, { status: 201 });
   } catch (error) {
     console.error('POST /api/research/jobs error:', error);
     return NextResponse.json(
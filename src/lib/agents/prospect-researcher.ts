@@ -7,6 +7,7 @@
 
 import { invokeOpenClawTool } from '@/lib/research/openclaw-client';
 import { memoryStore } from './memory-store';
+import { clusterRecords, fromResearchProspect } from '../identity/matching';
 
 // =============================================================================
 // TYPES
@@ -421,19 +422,45 @@ export function scoreProspects(
 }
 
 /**
- * Deduplicate prospects by email/domain
+ * Deduplicate prospects by identity: normalized email, LinkedIn URL, or a
+ * fuzzy name match at the same canonical company domain. Duplicates are
+ * folded into the first occurrence, filling its empty fields.
  */
 export function deduplicateProspects(prospects: Prospect[]): Prospect[] {
-  const seen = new Set<string>();
-  
-  return prospects.filter(p => {
-    const key = p.contact.email || `${p.company.domain}-${p.contact.firstName}-${p.contact.lastName}`;
-    if (seen.has(key)) return false;
-    seen.add(key);
-    return true;
+  const clusters = clusterRecords(prospects.map(fromResearchProspect));
+
+  return clusters.map(indexes => {
+    const [first, ...duplicates] = indexes.map(i => prospects[i]);
+    return duplicates.reduce(fillMissing, first);
   });
 }
 
+/**
+ * Fill empty or placeholder company/contact fields from a duplicate
+ */
+function fillMissing(prospect: Prospect, duplicate: Prospect): Prospect {
+  const missing = (value: unknown) => !value || value === 'Unknown' || value === ', ';
+  const fill = <T extends Record<string, unknown>>(target: T, source: T): T => {
+    const result = { ...target };
+    for (const key of Object.keys(source) as Array<keyof T>) {
+      if (missing(result[key]) && !missing(source[key])) result[key] = source[key];
+    }
+    return result;
+  };
+
+  return {
+    ...prospect,
+    company: fill(prospect.company, duplicate.company),
+    contact: fill(prospect.contact, duplicate.contact),
+    signals: {
+      hiring: prospect.signals.hiring || duplicate.signals.hiring,
+      funding: prospect.signals.funding || duplicate.signals.funding,
+      leadershipChange: prospect.signals.leadershipChange || duplicate.signals.leadershipChange,
+      techStack: Array.from(new Set([...prospect.signals.techStack, ...duplicate.signals.techStack])),
+    },
+  };
+}
+
 /**
  * Filter prospects by minimum quality score
  */
@@ -399,6 +399,12 @@ export class ApolloClient {
   }
 }
 
+/** The Apollo calls research pipelines use; LocalApolloClient stands in for tests */
+export type ApolloApi = Pick<
+  ApolloClient,
+  'searchProspects' | 'searchOrganizations' | 'enrichPersonByEmail' | 'enrichOrganizationByDomain'
+>;
+
 /**
  * Create Apollo client from environment variables
  */
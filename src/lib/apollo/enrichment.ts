@@ -51,6 +51,40 @@ const DEFAULT_BULK_OPTIONS: BulkEnrichmentOptions = {
   concurrency: 2,
 };
 
+/** Technologies that indicate a good fit */
+export const TARGET_TECHNOLOGIES = [
+  'aws', 'amazon web services', 'gcp', 'google cloud', 'azure', 'microsoft azure',
+  'kubernetes', 'k8s', 'docker', 'terraform', 'pulumi',
+  'datadog', 'grafana', 'prometheus', 'new relic',
+  'snowflake', 'databricks', 'dbt',
+  'stripe', 'twilio', 'segment',
+];
+
+/**
+ * Technologies that match any target (substring either way)
+ */
+export function matchTechnologies(technologies: string[], targets: string[] = TARGET_TECHNOLOGIES): string[] {
+  return technologies.filter(tech =>
+    targets.some(target => {
+      const t = target.toLowerCase();
+      return tech.toLowerCase().includes(t) || t.includes(tech.toLowerCase());
+    })
+  );
+}
+
+/**
+ * Growth-stage funding or intent keywords on the organization
+ */
+export function hasIntentSignals(org: ApolloOrganization): boolean {
+  if (org.funding_stage && ['series_b', 'series_c', 'series_d', 'growth'].includes(org.funding_stage.toLowerCase())) {
+    return true;
+  }
+
+  // Keywords suggesting buying intent
+  const intentKeywords = ['scale', 'growth', 'expand', 'new initiative', 'digital transformation'];
+  return (org.keywords ?? []).some(kw => intentKeywords.some(ik => kw.toLowerCase().includes(ik)));
+}
+
 /**
  * Detect buying signals from Apollo data
  */
@@ -89,33 +123,11 @@ export function detectSignals(
 
   // Tech stack indicators
   if (org.technologies) {
-    const targetTechs = [
-      'aws', 'amazon web services', 'gcp', 'google cloud', 'azure', 'microsoft azure',
-      'kubernetes', 'k8s', 'docker', 'terraform', 'pulumi',
-      'datadog', 'grafana', 'prometheus', 'new relic',
-      'snowflake', 'databricks', 'dbt',
-      'stripe', 'twilio', 'segment',
-    ];
-
-    signals.techStackMatch = org.technologies.filter(tech => 
-      targetTechs.some(target => 
-        tech.toLowerCase().includes(target) || target.includes(tech.toLowerCase())
-      )
-    );
+    signals.techStackMatch = matchTechnologies(org.technologies);
   }
 
   // High-growth intent indicators
-  if (org.funding_stage && ['series_b', 'series_c', 'series_d', 'growth'].includes(org.funding_stage.toLowerCase())) {
-    signals.intentData = true;
-  }
-
-  // Keywords suggesting buying intent
-  if (org.keywords) {
-    const intentKeywords = ['scale', 'growth', 'expand', 'new initiative', 'digital transformation'];
-    if (org.keywords.some(kw => intentKeywords.some(ik => kw.toLowerCase().includes(ik)))) {
-      signals.intentData = true;
-    }
-  }
+  signals.intentData = hasIntentSignals(org);
 
   return signals;
 }
@@ -0,0 +1,193 @@
+/**
+ * Local Apollo Client
+ * In-memory stand-in for the Apollo API, for tests and offline runs
+ *
+ * - Serves search and enrichment from a fixed set of people and organizations
+ * - Applies the common search filters (titles, seniorities, departments,
+ *   industries, sizes, technologies, funding stages, domains, locations)
+ * - Paginates like the real API and records every call
+ */
+
+import {
+  ApolloApiError,
+  type ApolloApi,
+  type ApolloEnrichmentResult,
+  type ApolloOrganization,
+  type ApolloPerson,
+  type ApolloSearchFilters,
+  type ApolloSearchResult,
+} from './client';
+
+export interface LocalApolloData {
+  /** People link to an organization by `organization.id` or their email domain */
+  people?: ApolloPerson[];
+  organizations?: ApolloOrganization[];
+}
+
+export interface LocalApolloCall {
+  method: keyof ApolloApi;
+  args: unknown[];
+}
+
+const DEFAULT_PER_PAGE = 25;
+
+export class LocalApolloClient implements ApolloApi {
+  private people: ApolloPerson[];
+  private organizations: ApolloOrganization[];
+
+  /** Every call made, in order */
+  readonly calls: LocalApolloCall[] = [];
+
+  constructor(data: LocalApolloData = {}) {
+    this.organizations = [...(data.organizations ?? [])];
+    this.people = [...(data.people ?? [])];
+  }
+
+  /**
+   * Replace or add an organization (e.g. to simulate new funding between scans)
+   */
+  upsertOrganization(org: ApolloOrganization): void {
+    const index = this.organizations.findIndex(o => o.id === org.id);
+    if (index >= 0) this.organizations[index] = org;
+    else this.organizations.push(org);
+  }
+
+  async searchProspects(filters: ApolloSearchFilters): Promise<ApolloSearchResult> {
+    this.calls.push({ method: 'searchProspects', args: [filters] });
+
+    const matches = this.people
+      .map(person => ({ ...person, organization: this.organizationOf(person) }))
+      .filter(person =>
+        matchesPerson(person, filters) &&
+        (person.organization ? matchesOrganization(person.organization, filters) : !hasOrganizationFilters(filters))
+      );
+
+    const page = paginate(matches, filters);
+    const organizations = Array.from(
+      new Map(page.items.flatMap(p => (p.organization ? [[p.organization.id, p.organization]] : []))).values()
+    );
+    return { people: page.items, organizations, pagination: page.pagination };
+  }
+
+  async searchOrganizations(filters: ApolloSearchFilters): Promise<ApolloSearchResult> {
+    this.calls.push({ method: 'searchOrganizations', args: [filters] });
+
+    const page = paginate(this.organizations.filter(org => matchesOrganization(org, filters)), filters);
+    return { people: [], organizations: page.items, pagination: page.pagination };
+  }
+
+  async enrichPersonByEmail(email: string): Promise<ApolloEnrichmentResult> {
+    this.calls.push({ method: 'enrichPersonByEmail', args: [email] });
+
+    const target = email.trim().toLowerCase();
+    const person = this.people.find(p =>
+      [p.email, p.work_email, p.personal_email].some(e => e?.toLowerCase() === target)
+    );
+    if (!person) return {};
+
+    const organization = this.organizationOf(person);
+    return { person: { ...person, organization }, organization, confidence_score: 1, match_reasons: ['email'] };
+  }
+
+  async enrichOrganizationByDomain(domain: string): Promise<ApolloOrganization> {
+    this.calls.push({ method: 'enrichOrganizationByDomain', args: [domain] });
+
+    const org = this.organizations.find(o => o.domain && bareDomain(o.domain) === bareDomain(domain));
+    if (!org) {
+      throw new ApolloApiError('Organization not found', 404);
+    }
+    return org;
+  }
+
+  private organizationOf(person: ApolloPerson): ApolloOrganization | undefined {
+    const id = person.organization?.id;
+    if (id) {
+      return this.organizations.find(o => o.id === id) ?? person.organization;
+    }
+    const domain = (person.work_email ?? person.email)?.split('@')[1];
+    return domain ? this.organizations.find(o => o.domain && bareDomain(o.domain) === bareDomain(domain)) : undefined;
+  }
+}
+
+// ============================================
+// FILTERING
+// ============================================
+
+function matchesPerson(person: ApolloPerson, filters: ApolloSearchFilters): boolean {
+  const title = person.title?.toLowerCase() ?? '';
+  return (
+    anyOf(filters.person_titles, t => title.includes(t.toLowerCase())) &&
+    anyOf(filters.person_seniorities, s => equals(person.seniority, s)) &&
+    anyOf(filters.person_departments, d => equals(person.department, d)) &&
+    anyOf(filters.person_locations, l => includes(locationOf(person.organization), l))
+  );
+}
+
+function matchesOrganization(org: ApolloOrganization, filters: ApolloSearchFilters): boolean {
+  const technologies = org.technologies ?? [];
+  return (
+    anyOf(filters.organization_ids, id => org.id === id) &&
+    anyOf(filters.organization_names, n => equals(org.name, n)) &&
+    anyOf(filters.organization_domains, d => !!org.domain && bareDomain(org.domain) === bareDomain(d)) &&
+    anyOf(filters.organization_industries, i => includes(org.industry, i)) &&
+    anyOf(filters.organization_size, s => org.size === s) &&
+    anyOf(filters.organization_technologies, t => technologies.some(tech => equals(tech, t))) &&
+    anyOf(filters.organization_funding_stages, f => equals(org.funding_stage, f)) &&
+    anyOf(filters.organization_locations, l => includes(locationOf(org), l))
+  );
+}
+
+function hasOrganizationFilters(filters: ApolloSearchFilters): boolean {
+  return [
+    filters.organization_ids,
+    filters.organization_names,
+    filters.organization_domains,
+    filters.organization_industries,
+    filters.organization_size,
+    filters.organization_technologies,
+    filters.organization_funding_stages,
+    filters.organization_locations,
+  ].some(values => values && values.length > 0);
+}
+
+function paginate<T>(items: T[], filters: ApolloSearchFilters): { items: T[]; pagination: ApolloSearchResult['pagination'] } {
+  const perPage = filters.per_page ?? DEFAULT_PER_PAGE;
+  const page = filters.page ?? 1;
+  return {
+    items: items.slice((page - 1) * perPage, page * perPage),
+    pagination: {
+      page,
+      per_page: perPage,
+      total_entries: items.length,
+      total_pages: Math.ceil(items.length / perPage),
+    },
+  };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/** An unset or empty filter matches everything */
+function anyOf(values: Array<string | number> | undefined, test: (value: string) => boolean): boolean {
+  return !values || values.length === 0 || values.some(value => test(String(value)));
+}
+
+function equals(value: string | undefined, target: string): boolean {
+  return value?.toLowerCase() === target.toLowerCase();
+}
+
+function includes(value: string | undefined, target: string): boolean {
+  return value?.toLowerCase().includes(target.toLowerCase()) ?? false;
+}
+
+function locationOf(org: ApolloOrganization | undefined): string | undefined {
+  const location = org?.location;
+  return location ? [location.city, location.state, location.country].filter(Boolean).join(', ') : undefined;
+}
+
+function bareDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/.*$/, '');
+}
+
+export default LocalApolloClient;
@@ -0,0 +1,462 @@
+/**
+ * Prospect Identity Matching
+ * Pure matching and merging of prospect records from every source
+ *
+ * - Source adapters: Apollo REST, Apollo MCP, OpenClaw research, imports
+ * - Match scoring on email, LinkedIn slug and fuzzy name + company
+ * - Clustering a batch into one group per person
+ * - Field-level merge by source priority with per-field attribution
+ */
+
+import type { ApolloOrganization, ApolloPerson } from '../apollo/client';
+import {
+  DEFAULT_DOMAIN_ALIASES,
+  employerDomain,
+  nameSimilarity,
+  normalizeCompanyName,
+  normalizeDomain,
+  normalizeEmail,
+  normalizeLinkedInUrl,
+  normalizePersonName,
+} from './normalize';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ProspectSource = 'apollo' | 'apollo_mcp' | 'openclaw' | 'bulk_import' | 'manual';
+
+/** prospects columns that are merged field by field */
+export type ProspectField =
+  | 'person_name'
+  | 'person_first_name'
+  | 'person_last_name'
+  | 'person_email'
+  | 'person_phone'
+  | 'person_title'
+  | 'person_seniority'
+  | 'person_department'
+  | 'person_linkedin_url'
+  | 'person_location'
+  | 'company_name'
+  | 'company_domain'
+  | 'company_website'
+  | 'company_linkedin_url'
+  | 'company_industry'
+  | 'company_size'
+  | 'company_location';
+
+export type ProspectFields = Partial<Record<ProspectField, string | null>>;
+
+/** One observation of a person from one source */
+export interface ProspectRecord {
+  source: ProspectSource;
+  /** Provider id (Apollo person id, import row number, …) */
+  sourceId?: string;
+  /** Research job that produced the record */
+  jobId?: string;
+  /** ISO timestamp; defaults to ingest time */
+  observedAt?: string;
+  fields: ProspectFields;
+}
+
+/** Where a merged field value came from */
+export interface FieldSource {
+  source: ProspectSource;
+  sourceId?: string;
+  observedAt: string;
+}
+
+export type FieldSources = Partial<Record<ProspectField, FieldSource>>;
+
+export interface FieldChange {
+  field: ProspectField;
+  from: string | null;
+  to: string;
+}
+
+/** Normalized keys a record is matched on */
+export interface IdentityKeys {
+  email: string | null;
+  linkedin: string | null;
+  domain: string | null;
+  companyName: string | null;
+  name: string | null;
+}
+
+export type MatchKey = 'email' | 'linkedin' | 'name_domain' | 'name_company';
+
+export interface MatchResult {
+  /** 0 (different people) to 1 (same person) */
+  score: number;
+  matchedOn: MatchKey[];
+  /** Keys both records carry with different values */
+  conflicts: Array<'email' | 'linkedin'>;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const PROSPECT_FIELDS: ProspectField[] = [
+  'person_name',
+  'person_first_name',
+  'person_last_name',
+  'person_email',
+  'person_phone',
+  'person_title',
+  'person_seniority',
+  'person_department',
+  'person_linkedin_url',
+  'person_location',
+  'company_name',
+  'company_domain',
+  'company_website',
+  'company_linkedin_url',
+  'company_industry',
+  'company_size',
+  'company_location',
+];
+
+/** Scores at or above `merge` merge automatically; `review` and above are queued */
+export const MATCH_THRESHOLDS = {
+  merge: 0.95,
+  review: 0.8,
+};
+
+/**
+ * Which source wins a field both sides carry. User-supplied data outranks
+ * providers; ties go to the most recent observation.
+ */
+export const SOURCE_PRIORITY: Record<ProspectSource, number> = {
+  manual: 5,
+  bulk_import: 4,
+  apollo: 3,
+  apollo_mcp: 3,
+  openclaw: 2,
+};
+
+/** Placeholder values some sources emit for missing data */
+const EMPTY_VALUES = new Set(['', 'unknown', 'n/a', 'na', 'none', 'null', '-', ',']);
+
+// ============================================
+// SOURCE ADAPTERS
+// ============================================
+
+/**
+ * Record from an Apollo REST person (ApolloClient.searchProspects / enrichment)
+ */
+export function fromApolloPerson(
+  person: ApolloPerson,
+  organization: ApolloOrganization | undefined = person.organization,
+  jobId?: string
+): ProspectRecord {
+  return {
+    source: 'apollo',
+    sourceId: person.id,
+    jobId,
+    fields: clean({
+      person_name: person.name,
+      person_first_name: person.first_name,
+      person_last_name: person.last_name,
+      person_email: person.email || person.work_email || person.personal_email,
+      person_phone: person.phone_numbers?.[0],
+      person_title: person.title,
+      person_seniority: person.seniority,
+      person_department: person.department,
+      person_linkedin_url: person.linkedin_url,
+      company_name: organization?.name,
+      company_domain: organization?.domain,
+      company_website: organization?.website_url,
+      company_linkedin_url: organization?.linkedin_url,
+      company_industry: organization?.industry,
+      company_size: organization?.size,
+      company_location: joinLocation(organization?.location?.city, organization?.location?.state, organization?.location?.country),
+    }),
+  };
+}
+
+/**
+ * Record from an ApolloMCPClient prospect
+ */
+export function fromMCPProspect(prospect: {
+  id: string;
+  firstName: string;
+  lastName: string;
+  name: string;
+  title: string;
+  company: string;
+  companyDomain?: string;
+  industry?: string;
+  companySize?: string;
+  location?: string;
+  email?: string;
+  phone?: string;
+  linkedInUrl?: string;
+}): ProspectRecord {
+  return {
+    source: 'apollo_mcp',
+    sourceId: prospect.id,
+    fields: clean({
+      person_name: prospect.name,
+      person_first_name: prospect.firstName,
+      person_last_name: prospect.lastName,
+      person_email: prospect.email,
+      person_phone: prospect.phone,
+      person_title: prospect.title,
+      person_linkedin_url: prospect.linkedInUrl,
+      person_location: prospect.location,
+      company_name: prospect.company,
+      company_domain: prospect.companyDomain,
+      company_industry: prospect.industry,
+      company_size: prospect.companySize,
+    }),
+  };
+}
+
+/**
+ * Record from a ProspectResearcher prospect (OpenClaw `apollo.search`)
+ */
+export function fromResearchProspect(prospect: {
+  id: string;
+  company: { name: string; domain: string; industry: string; size: string; location: string; website: string };
+  contact: { firstName: string; lastName: string; title: string; email: string; phone?: string; linkedIn?: string };
+  enrichment?: { enrichedAt: Date };
+}): ProspectRecord {
+  return {
+    source: 'openclaw',
+    sourceId: prospect.id,
+    observedAt: prospect.enrichment?.enrichedAt.toISOString(),
+    fields: clean({
+      person_name: joinName(prospect.contact.firstName, prospect.contact.lastName),
+      person_first_name: prospect.contact.firstName,
+      person_last_name: prospect.contact.lastName,
+      person_email: prospect.contact.email,
+      person_phone: prospect.contact.phone,
+      person_title: prospect.contact.title,
+      person_linkedin_url: prospect.contact.linkedIn,
+      company_name: prospect.company.name,
+      company_domain: prospect.company.domain,
+      company_website: prospect.company.website,
+      company_industry: prospect.company.industry,
+      company_size: prospect.company.size,
+      company_location: prospect.company.location,
+    }),
+  };
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+/**
+ * Normalized match keys. The company domain falls back to the website and
+ * then to the email's domain unless it is a free mailbox provider.
+ */
+export function identityKeys(
+  fields: ProspectFields,
+  aliases: Record<string, string> = DEFAULT_DOMAIN_ALIASES
+): IdentityKeys {
+  const email = normalizeEmail(fields.person_email);
+  return {
+    email,
+    linkedin: normalizeLinkedInUrl(fields.person_linkedin_url),
+    domain:
+      normalizeDomain(fields.company_domain, aliases) ??
+      normalizeDomain(fields.company_website, aliases) ??
+      normalizeDomain(employerDomain(email), aliases),
+    companyName: normalizeCompanyName(fields.company_name),
+    name: normalizePersonName(fields.person_first_name, fields.person_last_name, fields.person_name),
+  };
+}
+
+/**
+ * Score how likely two records describe the same person.
+ *
+ * Email is decisive; a shared LinkedIn slug nearly so, and different slugs
+ * rule a match out. Otherwise the names are compared fuzzily within the same
+ * company (domain, then normalized name), and different work emails count
+ * against the match.
+ */
+export function scoreMatch(a: IdentityKeys, b: IdentityKeys): MatchResult {
+  const sameLinkedIn = Boolean(a.linkedin && a.linkedin === b.linkedin);
+
+  if (a.email && a.email === b.email) {
+    return { score: 1, matchedOn: sameLinkedIn ? ['email', 'linkedin'] : ['email'], conflicts: [] };
+  }
+  if (sameLinkedIn) {
+    return { score: 0.98, matchedOn: ['linkedin'], conflicts: [] };
+  }
+
+  const conflicts: MatchResult['conflicts'] = [];
+  if (a.linkedin && b.linkedin) return { score: 0, matchedOn: [], conflicts: ['linkedin'] };
+  if (a.email && b.email) conflicts.push('email');
+
+  const companyKey: MatchKey | null =
+    a.domain && a.domain === b.domain ? 'name_domain'
+      : a.companyName && a.companyName === b.companyName ? 'name_company'
+        : null;
+  if (!companyKey || !a.name || !b.name) return { score: 0, matchedOn: [], conflicts };
+
+  const similarity = personNameSimilarity(a.name, b.name) * (companyKey === 'name_domain' ? 1 : 0.97);
+  const score = Math.max(0, similarity - (conflicts.length > 0 ? 0.15 : 0));
+
+  return { score, matchedOn: score > 0 ? [companyKey] : [], conflicts };
+}
+
+/**
+ * Group a batch into one cluster per person (indexes into `records`, first
+ * occurrence order). Records join the best-scoring cluster at or above the
+ * merge threshold.
+ */
+export function clusterRecords(
+  records: ProspectRecord[],
+  aliases: Record<string, string> = DEFAULT_DOMAIN_ALIASES,
+  threshold: number = MATCH_THRESHOLDS.merge
+): number[][] {
+  const clusters: Array<{ members: number[]; keys: IdentityKeys[] }> = [];
+  const index = new Map<string, Set<number>>();
+
+  records.forEach((record, i) => {
+    const keys = identityKeys(record.fields, aliases);
+    const lookups = indexKeys(keys);
+
+    const candidates = new Set<number>();
+    for (const key of lookups) index.get(key)?.forEach(c => candidates.add(c));
+
+    let best: { cluster: number; score: number } | null = null;
+    for (const c of [...candidates].sort((x, y) => x - y)) {
+      const score = Math.max(...clusters[c].keys.map(k => scoreMatch(keys, k).score));
+      if (score >= threshold && (!best || score > best.score)) best = { cluster: c, score };
+    }
+
+    const target = best ? best.cluster : clusters.push({ members: [], keys: [] }) - 1;
+    clusters[target].members.push(i);
+    clusters[target].keys.push(keys);
+    for (const key of lookups) {
+      if (!index.has(key)) index.set(key, new Set());
+      index.get(key)!.add(target);
+    }
+  });
+
+  return clusters.map(c => c.members);
+}
+
+/**
+ * Lookup keys a candidate must share with a record to be scored at all
+ */
+export function indexKeys(keys: IdentityKeys): string[] {
+  return [
+    keys.email && `email:${keys.email}`,
+    keys.linkedin && `linkedin:${keys.linkedin}`,
+    keys.domain && `domain:${keys.domain}`,
+    keys.companyName && `company:${keys.companyName}`,
+  ].filter((key): key is string => Boolean(key));
+}
+
+// ============================================
+// MERGING
+// ============================================
+
+/**
+ * Merge a record into the current field values. Empty fields are filled;
+ * a differing value is replaced when the incoming source ranks higher, or
+ * ranks the same and was observed no earlier.
+ */
+export function mergeFields(
+  current: { fields: ProspectFields; fieldSources: FieldSources },
+  record: ProspectRecord,
+  now: Date = new Date()
+): { fields: ProspectFields; fieldSources: FieldSources; changes: FieldChange[] } {
+  const fields = { ...current.fields };
+  const fieldSources = { ...current.fieldSources };
+  const changes: FieldChange[] = [];
+  const attribution: FieldSource = {
+    source: record.source,
+    ...(record.sourceId ? { sourceId: record.sourceId } : {}),
+    observedAt: record.observedAt ?? now.toISOString(),
+  };
+
+  for (const field of PROSPECT_FIELDS) {
+    const incoming = cleanValue(record.fields[field]);
+    if (incoming === null) continue;
+
+    const existing = cleanValue(fields[field]);
+    if (existing !== null && sameValue(field, existing, incoming)) continue;
+
+    const owner = fieldSources[field];
+    const wins =
+      existing === null ||
+      !owner ||
+      SOURCE_PRIORITY[record.source] > SOURCE_PRIORITY[owner.source] ||
+      (SOURCE_PRIORITY[record.source] === SOURCE_PRIORITY[owner.source] && attribution.observedAt >= owner.observedAt);
+    if (!wins) continue;
+
+    fields[field] = incoming;
+    fieldSources[field] = attribution;
+    changes.push({ field, from: existing, to: incoming });
+  }
+
+  return { fields, fieldSources, changes };
+}
+
+/**
+ * Display name for a record; prospects.person_name is required
+ */
+export function displayName(fields: ProspectFields): string {
+  return (
+    cleanValue(fields.person_name) ??
+    joinName(fields.person_first_name, fields.person_last_name) ??
+    cleanValue(fields.person_email) ??
+    'Unknown'
+  );
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * First and last names compared separately, the last name weighted higher,
+ * so a surname typo is ambiguous rather than an automatic match
+ */
+function personNameSimilarity(a: string, b: string): number {
+  const aParts = a.split(' ');
+  const bParts = b.split(' ');
+  if (aParts.length < 2 || bParts.length < 2) return nameSimilarity(a, b);
+
+  const first = nameSimilarity(aParts[0], bParts[0]);
+  const last = nameSimilarity(aParts[aParts.length - 1], bParts[bParts.length - 1]);
+  return 0.4 * first + 0.6 * last;
+}
+
+function sameValue(field: ProspectField, a: string, b: string): boolean {
+  if (field === 'person_email') return normalizeEmail(a) === normalizeEmail(b);
+  if (field === 'person_linkedin_url' || field === 'company_linkedin_url') {
+    return normalizeLinkedInUrl(a) === normalizeLinkedInUrl(b);
+  }
+  if (field === 'company_domain' || field === 'company_website') return normalizeDomain(a) === normalizeDomain(b);
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function cleanValue(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed && !EMPTY_VALUES.has(trimmed.toLowerCase()) ? trimmed : null;
+}
+
+function clean(fields: ProspectFields): ProspectFields {
+  const result: ProspectFields = {};
+  for (const [field, value] of Object.entries(fields) as Array<[ProspectField, string | null | undefined]>) {
+    const cleaned = cleanValue(value);
+    if (cleaned !== null) result[field] = cleaned;
+  }
+  return result;
+}
+
+function joinName(first?: string | null, last?: string | null): string | null {
+  return cleanValue([cleanValue(first), cleanValue(last)].filter(Boolean).join(' '));
+}
+
+function joinLocation(...parts: Array<string | undefined>): string | null {
+  return cleanValue(parts.filter(Boolean).join(', '));
+}
@@ -0,0 +1,229 @@
+/**
+ * Identity Normalization
+ * Canonical keys for matching people and companies across prospect sources
+ *
+ * - Emails: lowercased, plus-tags dropped, Gmail dots removed
+ * - LinkedIn: `in/<slug>` / `company/<slug>` from any profile URL form
+ * - Domains: bare host without protocol, www or path, mapped through aliases
+ * - Company names: punctuation and legal suffixes (Inc, LLC, GmbH…) removed
+ * - Person names: accents stripped and common nicknames folded
+ */
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Mailbox providers whose domain says nothing about the employer */
+export const FREE_EMAIL_DOMAINS = new Set([
+  'gmail.com',
+  'googlemail.com',
+  'yahoo.com',
+  'hotmail.com',
+  'outlook.com',
+  'live.com',
+  'msn.com',
+  'icloud.com',
+  'me.com',
+  'aol.com',
+  'proton.me',
+  'protonmail.com',
+  'gmx.com',
+]);
+
+/** Built-in company domain aliases (alias → canonical); extended per workspace */
+export const DEFAULT_DOMAIN_ALIASES: Record<string, string> = {
+  'googlemail.com': 'gmail.com',
+  'fb.com': 'meta.com',
+  'facebook.com': 'meta.com',
+  'alphabet.com': 'google.com',
+  'amazon.co.uk': 'amazon.com',
+};
+
+const COMPANY_SUFFIXES = new Set([
+  'inc', 'incorporated', 'llc', 'llp', 'ltd', 'limited', 'corp', 'corporation',
+  'co', 'company', 'gmbh', 'ag', 'sa', 'sas', 'bv', 'nv', 'plc', 'pty', 'oy', 'ab',
+  'group', 'holdings', 'hq',
+]);
+
+const NICKNAMES: Record<string, string> = {
+  al: 'albert', alex: 'alexander', andy: 'andrew', drew: 'andrew', ben: 'benjamin',
+  bill: 'william', will: 'william', liam: 'william', bob: 'robert', rob: 'robert',
+  bobby: 'robert', chris: 'christopher', dan: 'daniel', danny: 'daniel', dave: 'david',
+  ed: 'edward', eddie: 'edward', jim: 'james', jimmy: 'james', jamie: 'james',
+  jen: 'jennifer', jenny: 'jennifer', joe: 'joseph', joey: 'joseph',
+  kate: 'katherine', katie: 'katherine', kathy: 'katherine', liz: 'elizabeth',
+  beth: 'elizabeth', matt: 'matthew', mike: 'michael', nick: 'nicholas', pat: 'patrick',
+  rick: 'richard', rich: 'richard', dick: 'richard', sam: 'samuel', steve: 'steven',
+  stephen: 'steven', sue: 'susan', tom: 'thomas', tommy: 'thomas', tony: 'anthony',
+  vicky: 'victoria', zach: 'zachary',
+};
+
+// ============================================
+// PEOPLE
+// ============================================
+
+/**
+ * Canonical mailbox address, or null when the value is not an email
+ */
+export function normalizeEmail(email?: string | null): string | null {
+  const value = email?.trim().toLowerCase();
+  if (!value) return null;
+
+  const match = /^([^\s@]+)@([^\s@]+\.[^\s@]+)$/.exec(value);
+  if (!match) return null;
+
+  let [, local, domain] = match;
+  if (domain === 'googlemail.com') domain = 'gmail.com';
+  local = local.split('+')[0];
+  if (domain === 'gmail.com') local = local.replace(/\./g, '');
+
+  return local ? `${local}@${domain}` : null;
+}
+
+/**
+ * Domain part of an email, or null for free mailbox providers
+ */
+export function employerDomain(email?: string | null): string | null {
+  const normalized = normalizeEmail(email);
+  if (!normalized) return null;
+  const domain = normalized.split('@')[1];
+  return FREE_EMAIL_DOMAINS.has(domain) ? null : domain;
+}
+
+/**
+ * `in/<slug>` for people and `company/<slug>` for companies, from full URLs,
+ * locale subdomains, tracking parameters or a bare slug
+ */
+export function normalizeLinkedInUrl(url?: string | null): string | null {
+  const value = url?.trim().toLowerCase();
+  if (!value) return null;
+
+  const match = /(?:^|linkedin\.com\/)(in|pub|company|school)\/([^/?#\s]+)/.exec(value);
+  if (!match) return null;
+
+  const kind = match[1] === 'pub' ? 'in' : match[1];
+  const slug = safeDecode(match[2]).replace(/\/+$/, '');
+  return slug ? `${kind}/${slug}` : null;
+}
+
+/**
+ * Lowercase, accent-free full name with nicknames folded to their formal form
+ */
+export function normalizePersonName(
+  firstName?: string | null,
+  lastName?: string | null,
+  fullName?: string | null
+): string | null {
+  const first = tokens(firstName);
+  const last = tokens(lastName);
+  const parts = first.length > 0 || last.length > 0 ? [...first, ...last] : tokens(fullName);
+
+  // Drop middle initials, keep the rest in order
+  const kept = parts.filter((part, i) => part.length > 1 || i === 0 || i === parts.length - 1);
+  if (kept.length === 0) return null;
+
+  kept[0] = NICKNAMES[kept[0]] ?? kept[0];
+  return kept.join(' ');
+}
+
+// ============================================
+// COMPANIES
+// ============================================
+
+/**
+ * Bare registrable host for a domain, website or email, mapped through aliases
+ */
+export function normalizeDomain(
+  input?: string | null,
+  aliases: Record<string, string> = DEFAULT_DOMAIN_ALIASES
+): string | null {
+  let value = input?.trim().toLowerCase();
+  if (!value) return null;
+
+  if (value.includes('@')) value = value.split('@').pop()!;
+  value = value
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+    .split(/[/?#]/)[0]
+    .split(':')[0]
+    .replace(/^www\d*\./, '')
+    .replace(/\.+$/, '');
+
+  if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(value)) return null;
+  return aliases[value] ?? DEFAULT_DOMAIN_ALIASES[value] ?? value;
+}
+
+/**
+ * Company name without punctuation or legal suffixes ("Acme, Inc." → "acme")
+ */
+export function normalizeCompanyName(name?: string | null): string | null {
+  const parts = tokens(name?.replace(/&/g, ' and '));
+  while (parts.length > 1 && COMPANY_SUFFIXES.has(parts[parts.length - 1])) parts.pop();
+  if (parts[0] === 'the' && parts.length > 1) parts.shift();
+  return parts.length > 0 ? parts.join(' ') : null;
+}
+
+// ============================================
+// SIMILARITY
+// ============================================
+
+/**
+ * Jaro-Winkler similarity in [0, 1]
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (a === b) return a.length > 0 ? 1 : 0;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const end = Math.min(i + window + 1, b.length);
+    for (let j = Math.max(0, i - window); j < end; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function tokens(value?: string | null): string[] {
+  if (!value) return [];
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .split(/[\s-]+/)
+    .filter(Boolean);
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,798 @@
+/**
+ * Prospect Identity Resolver
+ * Resolves incoming prospect records against the prospects table
+ *
+ * - Finds candidates by normalized email, LinkedIn slug, company domain or name
+ * - Auto-merges confident matches field by field with source attribution
+ * - Queues ambiguous matches in prospect_match_reviews for a human decision
+ * - Records every merge in prospect_merges
+ * - Canonicalizes company domains through company_domain_aliases
+ * - In-memory store for demo mode and tests, Supabase store in production
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DEFAULT_DOMAIN_ALIASES } from './normalize';
+import {
+  MATCH_THRESHOLDS,
+  PROSPECT_FIELDS,
+  displayName,
+  identityKeys,
+  mergeFields,
+  scoreMatch,
+  type FieldChange,
+  type FieldSources,
+  type IdentityKeys,
+  type MatchKey,
+  type MatchResult,
+  type ProspectFields,
+  type ProspectRecord,
+  type ProspectSource,
+} from './matching';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** A resolved person in the prospects table */
+export interface StoredProspect {
+  id: string;
+  userId: string;
+  sourceJobId: string | null;
+  fields: ProspectFields;
+  fieldSources: FieldSources;
+  keys: IdentityKeys;
+  /** Every source record merged into this prospect */
+  sources: Array<{ source: ProspectSource; sourceId?: string }>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** One prospect_merges row */
+export interface ProspectMerge {
+  id: string;
+  prospectId: string;
+  userId: string;
+  source: ProspectSource;
+  sourceId: string | null;
+  sourceJobId: string | null;
+  score: number;
+  matchedOn: MatchKey[];
+  changes: FieldChange[];
+  /** 'auto' or the reviewer who approved the merge */
+  decidedBy: string;
+  reviewId: string | null;
+  createdAt: string;
+}
+
+export type MatchReviewStatus = 'pending' | 'merged' | 'separate';
+
+/** One prospect_match_reviews row */
+export interface MatchReview {
+  id: string;
+  userId: string;
+  candidateProspectId: string;
+  record: ProspectRecord;
+  score: number;
+  matchedOn: MatchKey[];
+  conflicts: MatchResult['conflicts'];
+  status: MatchReviewStatus;
+  resolvedProspectId: string | null;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+export interface MatchReviewFilter {
+  userId?: string;
+  status?: MatchReviewStatus;
+  candidateProspectId?: string;
+  limit?: number;
+}
+
+export type IngestOutcome =
+  | { action: 'created'; prospect: StoredProspect }
+  | { action: 'merged'; prospect: StoredProspect; match: MatchResult; changes: FieldChange[] }
+  | { action: 'review'; review: MatchReview };
+
+export interface IngestSummary {
+  created: number;
+  merged: number;
+  queued: number;
+  outcomes: IngestOutcome[];
+}
+
+export interface ReviewResolution {
+  review: MatchReview;
+  prospect: StoredProspect;
+}
+
+export type NewProspect = Omit<StoredProspect, 'id' | 'createdAt' | 'updatedAt'>;
+export type ProspectPatch = Pick<StoredProspect, 'fields' | 'fieldSources' | 'keys' | 'sources'>;
+
+export interface IdentityStore {
+  findCandidates(userId: string, keys: IdentityKeys): Promise<StoredProspect[]>;
+  getProspect(id: string): Promise<StoredProspect | null>;
+  insertProspect(prospect: NewProspect): Promise<StoredProspect>;
+  updateProspect(id: string, patch: ProspectPatch): Promise<StoredProspect>;
+  addMerge(merge: Omit<ProspectMerge, 'id' | 'createdAt'>): Promise<ProspectMerge>;
+  listMerges(prospectId: string): Promise<ProspectMerge[]>;
+  insertReview(review: Omit<MatchReview, 'id' | 'createdAt'>): Promise<MatchReview>;
+  getReview(id: string): Promise<MatchReview | null>;
+  listReviews(filter?: MatchReviewFilter): Promise<MatchReview[]>;
+  updateReview(id: string, patch: Partial<Omit<MatchReview, 'id'>>): Promise<MatchReview | null>;
+  /** alias domain → canonical domain */
+  getDomainAliases(): Promise<Record<string, string>>;
+}
+
+export interface IdentityResolverConfig {
+  store?: IdentityStore;
+  /** Extra aliases on top of DEFAULT_DOMAIN_ALIASES and the store's */
+  domainAliases?: Record<string, string>;
+  thresholds?: Partial<typeof MATCH_THRESHOLDS>;
+}
+
+// ============================================
+// ERRORS
+// ============================================
+
+/**
+ * Review decision on a missing or another user's review (`not_found`) or one
+ * already decided (`invalid_state`)
+ */
+export class IdentityError extends Error {
+  readonly code: 'not_found' | 'invalid_state';
+
+  constructor(message: string, code: 'not_found' | 'invalid_state') {
+    super(message);
+    this.name = 'IdentityError';
+    this.code = code;
+  }
+}
+
+// ============================================
+// RESOLVER
+// ============================================
+
+export class IdentityResolver {
+  private store: IdentityStore;
+  private thresholds: typeof MATCH_THRESHOLDS;
+  private configAliases: Record<string, string>;
+  private aliases: Record<string, string> | null = null;
+
+  constructor(config: IdentityResolverConfig = {}) {
+    this.store = config.store ?? new InMemoryIdentityStore();
+    this.thresholds = { ...MATCH_THRESHOLDS, ...config.thresholds };
+    this.configAliases = config.domainAliases ?? {};
+  }
+
+  /**
+   * Resolve one record: merge into the best match, queue it for review, or
+   * create a new prospect
+   */
+  async ingest(userId: string, record: ProspectRecord): Promise<IngestOutcome> {
+    const best = await this.bestMatch(userId, record);
+
+    if (best && best.match.score >= this.thresholds.merge) {
+      const { prospect, changes } = await this.merge(best.prospect, record, best.match, 'auto', null);
+      return { action: 'merged', prospect, match: best.match, changes };
+    }
+
+    if (best && best.match.score >= this.thresholds.review) {
+      return { action: 'review', review: await this.queueReview(userId, best.prospect, record, best.match) };
+    }
+
+    return { action: 'created', prospect: await this.create(userId, record) };
+  }
+
+  /**
+   * The existing prospect a record would merge into or be reviewed against,
+   * without changing anything
+   */
+  async findMatch(userId: string, record: ProspectRecord): Promise<{ prospect: StoredProspect; match: MatchResult } | null> {
+    const best = await this.bestMatch(userId, record);
+    return best && best.match.score >= this.thresholds.review ? best : null;
+  }
+
+  /**
+   * Resolve records in order, so later records match prospects created by
+   * earlier ones
+   */
+  async ingestMany(userId: string, records: ProspectRecord[]): Promise<IngestSummary> {
+    const summary: IngestSummary = { created: 0, merged: 0, queued: 0, outcomes: [] };
+    for (const record of records) {
+      const outcome = await this.ingest(userId, record);
+      summary.outcomes.push(outcome);
+      if (outcome.action === 'created') summary.created++;
+      else if (outcome.action === 'merged') summary.merged++;
+      else summary.queued++;
+    }
+    return summary;
+  }
+
+  async listReviews(filter: MatchReviewFilter = {}): Promise<MatchReview[]> {
+    return this.store.listReviews({ status: 'pending', ...filter });
+  }
+
+  /**
+   * Decide an ambiguous match: `merge` folds the record into the candidate,
+   * `separate` creates a new prospect for it. With `userId`, reviews owned
+   * by anyone else are reported as not found.
+   */
+  async resolveReview(
+    id: string,
+    decision: 'merge' | 'separate',
+    reviewer: string,
+    userId?: string
+  ): Promise<ReviewResolution> {
+    const review = await this.store.getReview(id);
+    if (!review || (userId && review.userId !== userId)) {
+      throw new IdentityError(`Match review ${id} not found`, 'not_found');
+    }
+    if (review.status !== 'pending') {
+      throw new IdentityError(`Match review ${id} is already ${review.status}`, 'invalid_state');
+    }
+
+    let prospect: StoredProspect;
+    if (decision === 'merge') {
+      const candidate = await this.store.getProspect(review.candidateProspectId);
+      if (!candidate || candidate.userId !== review.userId) throw new IdentityError(`Prospect ${review.candidateProspectId} not found`, 'not_found');
+      const match = { score: review.score, matchedOn: review.matchedOn, conflicts: review.conflicts };
+      prospect = (await this.merge(candidate, review.record, match, reviewer, review.id)).prospect;
+    } else {
+      prospect = await this.create(review.userId, review.record);
+    }
+
+    const updated = await this.store.updateReview(id, {
+      status: decision === 'merge' ? 'merged' : 'separate',
+      resolvedProspectId: prospect.id,
+      reviewedBy: reviewer,
+      reviewedAt: new Date().toISOString(),
+    });
+
+    return { review: updated ?? review, prospect };
+  }
+
+  /**
+   * Merges folded into a prospect. With `userId`, another user's prospect is
+   * reported as not found.
+   */
+  async getMergeHistory(prospectId: string, userId?: string): Promise<ProspectMerge[]> {
+    if (userId) {
+      const prospect = await this.store.getProspect(prospectId);
+      if (!prospect || prospect.userId !== userId) {
+        throw new IdentityError(`Prospect ${prospectId} not found`, 'not_found');
+      }
+    }
+    return this.store.listMerges(prospectId);
+  }
+
+  // ============================================
+  // PRIVATE HELPERS
+  // ============================================
+
+  private async domainAliases(): Promise<Record<string, string>> {
+    if (!this.aliases) {
+      this.aliases = { ...DEFAULT_DOMAIN_ALIASES, ...(await this.store.getDomainAliases()), ...this.configAliases };
+    }
+    return this.aliases;
+  }
+
+  private async bestMatch(userId: string, record: ProspectRecord): Promise<{ prospect: StoredProspect; match: MatchResult } | null> {
+    const keys = identityKeys(record.fields, await this.domainAliases());
+    const candidates = await this.store.findCandidates(userId, keys);
+
+    let best: { prospect: StoredProspect; match: MatchResult } | null = null;
+    for (const prospect of candidates) {
+      const match = scoreMatch(keys, prospect.keys);
+      if (!best || match.score > best.match.score) best = { prospect, match };
+    }
+    return best;
+  }
+
+  private async create(userId: string, record: ProspectRecord): Promise<StoredProspect> {
+    const { fields, fieldSources } = mergeFields({ fields: {}, fieldSources: {} }, record);
+    return this.store.insertProspect({
+      userId,
+      sourceJobId: record.jobId ?? null,
+      fields,
+      fieldSources,
+      keys: identityKeys(fields, await this.domainAliases()),
+      sources: [sourceRef(record)],
+    });
+  }
+
+  private async merge(
+    prospect: StoredProspect,
+    record: ProspectRecord,
+    match: MatchResult,
+    decidedBy: string,
+    reviewId: string | null
+  ): Promise<{ prospect: StoredProspect; changes: FieldChange[] }> {
+    const { fields, fieldSources, changes } = mergeFields(prospect, record);
+    const ref = sourceRef(record);
+    const known = prospect.sources.some(s => s.source === ref.source && s.sourceId === ref.sourceId);
+
+    const updated = changes.length > 0 || !known
+      ? await this.store.updateProspect(prospect.id, {
+        fields,
+        fieldSources,
+        keys: identityKeys(fields, await this.domainAliases()),
+        sources: known ? prospect.sources : [...prospect.sources, ref],
+      })
+      : prospect;
+
+    await this.store.addMerge({
+      prospectId: prospect.id,
+      userId: prospect.userId,
+      source: record.source,
+      sourceId: record.sourceId ?? null,
+      sourceJobId: record.jobId ?? null,
+      score: match.score,
+      matchedOn: match.matchedOn,
+      changes,
+      decidedBy,
+      reviewId,
+    });
+
+    return { prospect: updated, changes };
+  }
+
+  /** Re-ingesting a record that is already awaiting review reuses that review */
+  private async queueReview(
+    userId: string,
+    candidate: StoredProspect,
+    record: ProspectRecord,
+    match: MatchResult
+  ): Promise<MatchReview> {
+    const pending = await this.store.listReviews({ userId, status: 'pending', candidateProspectId: candidate.id });
+    const existing = pending.find(r =>
+      r.record.source === record.source &&
+      (record.sourceId ? r.record.sourceId === record.sourceId : sameFields(r.record.fields, record.fields))
+    );
+    if (existing) return existing;
+
+    return this.store.insertReview({
+      userId,
+      candidateProspectId: candidate.id,
+      record,
+      score: match.score,
+      matchedOn: match.matchedOn,
+      conflicts: match.conflicts,
+      status: 'pending',
+      resolvedProspectId: null,
+      reviewedBy: null,
+      reviewedAt: null,
+    });
+  }
+}
+
+// ============================================
+// PERSISTENCE
+// ============================================
+
+/** In-memory store (default; demo mode and tests) */
+export class InMemoryIdentityStore implements IdentityStore {
+  private prospects = new Map<string, StoredProspect>();
+  private merges: ProspectMerge[] = [];
+  private reviews = new Map<string, MatchReview>();
+  private nextId = 1;
+
+  constructor(private aliases: Record<string, string> = {}) {}
+
+  async findCandidates(userId: string, keys: IdentityKeys): Promise<StoredProspect[]> {
+    return Array.from(this.prospects.values())
+      .filter(p => p.userId === userId && sharesKey(p.keys, keys))
+      .map(p => structuredClone(p));
+  }
+
+  async getProspect(id: string): Promise<StoredProspect | null> {
+    const prospect = this.prospects.get(id);
+    return prospect ? structuredClone(prospect) : null;
+  }
+
+  async insertProspect(prospect: NewProspect): Promise<StoredProspect> {
+    const now = new Date().toISOString();
+    const row = { ...structuredClone(prospect), id: `prospect-${this.nextId++}`, createdAt: now, updatedAt: now };
+    this.prospects.set(row.id, row);
+    return structuredClone(row);
+  }
+
+  async updateProspect(id: string, patch: ProspectPatch): Promise<StoredProspect> {
+    const row = this.prospects.get(id);
+    if (!row) throw new Error(`Prospect ${id} not found`);
+    const updated = { ...row, ...structuredClone(patch), updatedAt: new Date().toISOString() };
+    this.prospects.set(id, updated);
+    return structuredClone(updated);
+  }
+
+  async addMerge(merge: Omit<ProspectMerge, 'id' | 'createdAt'>): Promise<ProspectMerge> {
+    const row = { ...structuredClone(merge), id: `merge-${this.nextId++}`, createdAt: new Date().toISOString() };
+    this.merges.push(row);
+    return structuredClone(row);
+  }
+
+  async listMerges(prospectId: string): Promise<ProspectMerge[]> {
+    return this.merges.filter(m => m.prospectId === prospectId).map(m => structuredClone(m));
+  }
+
+  async insertReview(review: Omit<MatchReview, 'id' | 'createdAt'>): Promise<MatchReview> {
+    const row = { ...structuredClone(review), id: `review-${this.nextId++}`, createdAt: new Date().toISOString() };
+    this.reviews.set(row.id, row);
+    return structuredClone(row);
+  }
+
+  async getReview(id: string): Promise<MatchReview | null> {
+    const review = this.reviews.get(id);
+    return review ? structuredClone(review) : null;
+  }
+
+  async listReviews(filter: MatchReviewFilter = {}): Promise<MatchReview[]> {
+    return Array.from(this.reviews.values())
+      .filter(r =>
+        (!filter.userId || r.userId === filter.userId) &&
+        (!filter.status || r.status === filter.status) &&
+        (!filter.candidateProspectId || r.candidateProspectId === filter.candidateProspectId)
+      )
+      .slice(0, filter.limit ?? Infinity)
+      .map(r => structuredClone(r));
+  }
+
+  async updateReview(id: string, patch: Partial<Omit<MatchReview, 'id'>>): Promise<MatchReview | null> {
+    const row = this.reviews.get(id);
+    if (!row) return null;
+    const updated = { ...row, ...structuredClone(patch) };
+    this.reviews.set(id, updated);
+    return structuredClone(updated);
+  }
+
+  async getDomainAliases(): Promise<Record<string, string>> {
+    return { ...this.aliases };
+  }
+}
+
+/** prospects.source_type for each record source */
+const SOURCE_TYPES: Record<ProspectSource, string> = {
+  apollo: 'apollo',
+  apollo_mcp: 'apollo',
+  openclaw: 'api',
+  bulk_import: 'upload',
+  manual: 'manual',
+};
+
+/** Candidates scored per record; a shared company domain can match many rows */
+const MAX_CANDIDATES = 200;
+
+const PROSPECT_COLUMNS = [
+  'id',
+  'user_id',
+  'source_job_id',
+  'field_sources',
+  'source_records',
+  'person_email_normalized',
+  'person_linkedin_slug',
+  'company_domain_canonical',
+  'company_name_normalized',
+  'created_at',
+  'updated_at',
+  ...PROSPECT_FIELDS,
+].join(', ');
+
+type ProspectRow = Record<string, unknown> & {
+  id: string;
+  user_id: string;
+  source_job_id: string | null;
+  field_sources: FieldSources | null;
+  source_records: StoredProspect['sources'] | null;
+  person_email_normalized: string | null;
+  person_linkedin_slug: string | null;
+  company_domain_canonical: string | null;
+  company_name_normalized: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * Reads and writes prospects, prospect_merges, prospect_match_reviews and
+ * company_domain_aliases in Supabase
+ */
+export class SupabaseIdentityStore implements IdentityStore {
+  constructor(private client: SupabaseClient) {}
+
+  async findCandidates(userId: string, keys: IdentityKeys): Promise<StoredProspect[]> {
+    const clauses = [
+      keys.email && `person_email_normalized.eq.${quote(keys.email)}`,
+      keys.linkedin && `person_linkedin_slug.eq.${quote(keys.linkedin)}`,
+      keys.domain && `company_domain_canonical.eq.${quote(keys.domain)}`,
+      keys.companyName && `company_name_normalized.eq.${quote(keys.companyName)}`,
+    ].filter(Boolean);
+    if (clauses.length === 0) return [];
+
+    const { data, error } = await this.client
+      .from('prospects')
+      .select(PROSPECT_COLUMNS)
+      .eq('user_id', userId)
+      .or(clauses.join(','))
+      .limit(MAX_CANDIDATES);
+
+    if (error) throw error;
+    return ((data ?? []) as unknown as ProspectRow[]).map(rowToProspect);
+  }
+
+  async getProspect(id: string): Promise<StoredProspect | null> {
+    const { data, error } = await this.client
+      .from('prospects')
+      .select(PROSPECT_COLUMNS)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? rowToProspect(data as unknown as ProspectRow) : null;
+  }
+
+  async insertProspect(prospect: NewProspect): Promise<StoredProspect> {
+    const first = prospect.sources[0];
+    const { data, error } = await this.client
+      .from('prospects')
+      .insert({
+        user_id: prospect.userId,
+        source_job_id: prospect.sourceJobId,
+        source_type: SOURCE_TYPES[first?.source ?? 'manual'],
+        source_provider_id: first?.sourceId ?? null,
+        ...prospectColumns(prospect),
+      })
+      .select(PROSPECT_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return rowToProspect(data as unknown as ProspectRow);
+  }
+
+  async updateProspect(id: string, patch: ProspectPatch): Promise<StoredProspect> {
+    const { data, error } = await this.client
+      .from('prospects')
+      .update({ ...prospectColumns(patch), updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select(PROSPECT_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return rowToProspect(data as unknown as ProspectRow);
+  }
+
+  async addMerge(merge: Omit<ProspectMerge, 'id' | 'createdAt'>): Promise<ProspectMerge> {
+    const { data, error } = await this.client
+      .from('prospect_merges')
+      .insert({
+        prospect_id: merge.prospectId,
+        user_id: merge.userId,
+        source: merge.source,
+        source_id: merge.sourceId,
+        source_job_id: merge.sourceJobId,
+        match_score: round(merge.score),
+        matched_on: merge.matchedOn,
+        changes: merge.changes,
+        decided_by: merge.decidedBy,
+        review_id: merge.reviewId,
+      })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return rowToMerge(data);
+  }
+
+  async listMerges(prospectId: string): Promise<ProspectMerge[]> {
+    const { data, error } = await this.client
+      .from('prospect_merges')
+      .select('*')
+      .eq('prospect_id', prospectId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data ?? []).map(rowToMerge);
+  }
+
+  async insertReview(review: Omit<MatchReview, 'id' | 'createdAt'>): Promise<MatchReview> {
+    const { data, error } = await this.client
+      .from('prospect_match_reviews')
+      .insert(reviewColumns(review))
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return rowToReview(data);
+  }
+
+  async getReview(id: string): Promise<MatchReview | null> {
+    const { data, error } = await this.client
+      .from('prospect_match_reviews')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? rowToReview(data) : null;
+  }
+
+  async listReviews(filter: MatchReviewFilter = {}): Promise<MatchReview[]> {
+    let query = this.client
+      .from('prospect_match_reviews')
+      .select('*')
+      .order('created_at', { ascending: true })
+      .limit(filter.limit ?? 100);
+    if (filter.userId) query = query.eq('user_id', filter.userId);
+    if (filter.status) query = query.eq('status', filter.status);
+    if (filter.candidateProspectId) query = query.eq('candidate_prospect_id', filter.candidateProspectId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data ?? []).map(rowToReview);
+  }
+
+  async updateReview(id: string, patch: Partial<Omit<MatchReview, 'id'>>): Promise<MatchReview | null> {
+    const { data, error } = await this.client
+      .from('prospect_match_reviews')
+      .update(reviewColumns(patch))
+      .eq('id', id)
+      .select('*')
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? rowToReview(data) : null;
+  }
+
+  async getDomainAliases(): Promise<Record<string, string>> {
+    const { data, error } = await this.client
+      .from('company_domain_aliases')
+      .select('alias_domain, canonical_domain');
+
+    if (error) throw error;
+    return Object.fromEntries((data ?? []).map(row => [row.alias_domain, row.canonical_domain]));
+  }
+}
+
+// ============================================
+// FACTORY FUNCTIONS
+// ============================================
+
+/** Singleton instance */
+let globalIdentityResolver: IdentityResolver | null = null;
+
+/**
+ * Get or create the global identity resolver (in-memory unless a store is given)
+ */
+export function getIdentityResolver(config?: IdentityResolverConfig): IdentityResolver {
+  if (!globalIdentityResolver) {
+    globalIdentityResolver = new IdentityResolver(config);
+  }
+  return globalIdentityResolver;
+}
+
+/**
+ * Reset the global identity resolver (useful for testing)
+ */
+export function resetIdentityResolver(): void {
+  globalIdentityResolver = null;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function sourceRef(record: ProspectRecord): StoredProspect['sources'][number] {
+  return record.sourceId ? { source: record.source, sourceId: record.sourceId } : { source: record.source };
+}
+
+function sharesKey(a: IdentityKeys, b: IdentityKeys): boolean {
+  return (
+    Boolean(a.email && a.email === b.email) ||
+    Boolean(a.linkedin && a.linkedin === b.linkedin) ||
+    Boolean(a.domain && a.domain === b.domain) ||
+    Boolean(a.companyName && a.companyName === b.companyName)
+  );
+}
+
+function sameFields(a: ProspectFields, b: ProspectFields): boolean {
+  return PROSPECT_FIELDS.every(field => (a[field] ?? null) === (b[field] ?? null));
+}
+
+/** PostgREST `or` filter value, quoted so dots, commas and slashes are literal */
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function prospectColumns(prospect: ProspectPatch): Record<string, unknown> {
+  const columns: Record<string, unknown> = {};
+  for (const field of PROSPECT_FIELDS) columns[field] = prospect.fields[field] ?? null;
+
+  return {
+    ...columns,
+    person_name: displayName(prospect.fields),
+    field_sources: prospect.fieldSources,
+    source_records: prospect.sources,
+    person_email_normalized: prospect.keys.email,
+    person_linkedin_slug: prospect.keys.linkedin,
+    company_domain_canonical: prospect.keys.domain,
+    company_name_normalized: prospect.keys.companyName,
+  };
+}
+
+function rowToProspect(row: ProspectRow): StoredProspect {
+  const fields: ProspectFields = {};
+  for (const field of PROSPECT_FIELDS) {
+    const value = row[field];
+    if (typeof value === 'string' && value) fields[field] = value;
+  }
+
+  return {
+    id: row.id,
+    userId: row.user_id,
+    sourceJobId: row.source_job_id,
+    fields,
+    fieldSources: row.field_sources ?? {},
+    keys: {
+      email: row.person_email_normalized,
+      linkedin: row.person_linkedin_slug,
+      domain: row.company_domain_canonical,
+      companyName: row.company_name_normalized,
+      name: identityKeys(fields).name,
+    },
+    sources: row.source_records ?? [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function rowToMerge(row: Record<string, any>): ProspectMerge {
+  return {
+    id: row.id,
+    prospectId: row.prospect_id,
+    userId: row.user_id,
+    source: row.source,
+    sourceId: row.source_id,
+    sourceJobId: row.source_job_id,
+    score: Number(row.match_score),
+    matchedOn: row.matched_on ?? [],
+    changes: row.changes ?? [],
+    decidedBy: row.decided_by,
+    reviewId: row.review_id,
+    createdAt: row.created_at,
+  };
+}
+
+function reviewColumns(review: Partial<Omit<MatchReview, 'id'>>): Record<string, unknown> {
+  const columns: Record<string, unknown> = {
+    user_id: review.userId,
+    candidate_prospect_id: review.candidateProspectId,
+    record: review.record,
+    match_score: review.score !== undefined ? round(review.score) : undefined,
+    matched_on: review.matchedOn,
+    conflicts: review.conflicts,
+    status: review.status,
+    resolved_prospect_id: review.resolvedProspectId,
+    reviewed_by: review.reviewedBy,
+    reviewed_at: review.reviewedAt,
+  };
+  return Object.fromEntries(Object.entries(columns).filter(([, value]) => value !== undefined));
+}
+
+function rowToReview(row: Record<string, any>): MatchReview {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    candidateProspectId: row.candidate_prospect_id,
+    record: row.record,
+    score: Number(row.match_score),
+    matchedOn: row.matched_on ?? [],
+    conflicts: row.conflicts ?? [],
+    status: row.status,
+    resolvedProspectId: row.resolved_prospect_id,
+    reviewedBy: row.reviewed_by,
+    reviewedAt: row.reviewed_at,
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,344 @@
+/**
+ * Bulk Prospect Import
+ * Column mapping, row validation and identity-resolved import for
+ * bulk_import research jobs
+ *
+ * - Suggests a prospect field for each column from its header and sample values
+ * - Validates emails, domains, websites and LinkedIn URLs per row
+ * - Resolves every valid row through the IdentityResolver, so rows that match
+ *   an existing prospect (or an earlier row) merge instead of duplicating
+ * - Collects per-row errors for download
+ */
+
+import { PROSPECT_FIELDS, type ProspectField, type ProspectFields, type ProspectRecord } from '../identity/matching';
+import { normalizeDomain, normalizeEmail, normalizeLinkedInUrl } from '../identity/normalize';
+import type { IdentityResolver } from '../identity/resolver';
+import type { SpreadsheetFormat } from './spreadsheet';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Target field per column, in column order; null skips the column */
+export type ColumnMapping = Array<ProspectField | null>;
+
+export interface ColumnSuggestion {
+  column: number;
+  header: string;
+  field: ProspectField | null;
+  /** 0–1; exact header synonyms score 1 */
+  confidence: number;
+  reason: 'header' | 'content' | null;
+}
+
+/** Where an uploaded import file lives; stored in research_jobs.search_params.import */
+export interface BulkImportParams {
+  path: string;
+  filename: string;
+  format: SpreadsheetFormat;
+  mapping: ColumnMapping;
+  /** Data rows counted at upload (header excluded) */
+  rowCount: number;
+}
+
+export interface RowError {
+  /** 1-based line in the file; the header is row 1 */
+  row: number;
+  column?: string;
+  field?: ProspectField;
+  value?: string;
+  message: string;
+}
+
+export interface BulkImportProgress {
+  processed: number;
+  total: number;
+  created: number;
+  merged: number;
+  queuedForReview: number;
+  failed: number;
+}
+
+export interface BulkImportOptions {
+  userId: string;
+  jobId?: string;
+  /** File rows, header first */
+  rows: AsyncIterable<string[]>;
+  resolver: IdentityResolver;
+  /** Suggested from the header when omitted */
+  mapping?: ColumnMapping;
+  /** Expected data rows, for progress */
+  total?: number;
+  onProgress?: (progress: BulkImportProgress) => void | Promise<void>;
+  /** Rows between progress reports (default 100) */
+  progressEvery?: number;
+  signal?: AbortSignal;
+}
+
+export interface BulkImportResult extends BulkImportProgress {
+  headers: string[];
+  mapping: ColumnMapping;
+  /** Blank rows */
+  skipped: number;
+  errors: RowError[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Normalized header names per field; exact matches rank in list order */
+const HEADER_SYNONYMS: Record<ProspectField, string[]> = {
+  person_email: ['email', 'emailaddress', 'workemail', 'businessemail', 'contactemail', 'mail'],
+  person_first_name: ['firstname', 'givenname', 'fname', 'first'],
+  person_last_name: ['lastname', 'surname', 'familyname', 'lname', 'last'],
+  person_name: ['fullname', 'contactname', 'name', 'contact', 'person'],
+  person_title: ['jobtitle', 'title', 'position', 'role', 'designation'],
+  person_phone: ['phonenumber', 'phone', 'mobile', 'telephone', 'directdial', 'tel'],
+  person_seniority: ['seniority', 'level'],
+  person_department: ['department', 'function', 'team'],
+  person_linkedin_url: ['linkedinurl', 'linkedinprofile', 'linkedin', 'profileurl'],
+  person_location: ['location', 'personlocation', 'city'],
+  company_name: ['companyname', 'company', 'organization', 'organisation', 'accountname', 'account', 'employer'],
+  company_domain: ['companydomain', 'domain', 'emaildomain'],
+  company_website: ['companywebsite', 'website', 'homepage', 'url', 'web'],
+  company_linkedin_url: ['companylinkedinurl', 'companylinkedin'],
+  company_industry: ['industry', 'sector', 'vertical'],
+  company_size: ['companysize', 'employeecount', 'numberofemployees', 'employees', 'headcount', 'size'],
+  company_location: ['companylocation', 'headquarters', 'hq', 'country'],
+};
+
+/** Suggestions below this confidence are left unmapped */
+export const MIN_MAPPING_CONFIDENCE = 0.5;
+
+const SAMPLE_MATCH_RATIO = 0.8;
+
+// ============================================
+// COLUMN MAPPING
+// ============================================
+
+/**
+ * Suggest a prospect field per column. Header synonyms are tried first,
+ * then sample values (emails, LinkedIn URLs, domains); each field is used
+ * at most once, highest confidence first.
+ */
+export function suggestColumnMapping(headers: string[], sampleRows: string[][] = []): ColumnSuggestion[] {
+  const candidates: Array<{ column: number; field: ProspectField; confidence: number; reason: 'header' | 'content' }> = [];
+
+  headers.forEach((header, column) => {
+    const key = normalizeHeader(header);
+    for (const field of PROSPECT_FIELDS) {
+      HEADER_SYNONYMS[field].forEach((synonym, rank) => {
+        if (key === synonym) {
+          candidates.push({ column, field, confidence: 1 - rank * 0.01, reason: 'header' });
+        } else if (synonym.length >= 4 && key.includes(synonym)) {
+          // "Contact Email Address" → email: prefer synonyms that cover more of
+          // the header and end it (the head noun)
+          const coverage = synonym.length / key.length;
+          candidates.push({ column, field, confidence: 0.6 + coverage * 0.1 + (key.endsWith(synonym) ? 0.1 : 0), reason: 'header' });
+        }
+      });
+    }
+
+    const field = sniffField(sampleRows.map(row => row[column] ?? ''));
+    if (field) candidates.push({ column, field: field.field, confidence: field.confidence, reason: 'content' });
+  });
+
+  const suggestions: ColumnSuggestion[] = headers.map((header, column) => ({
+    column,
+    header,
+    field: null,
+    confidence: 0,
+    reason: null,
+  }));
+  const used = new Set<ProspectField>();
+
+  for (const candidate of candidates.sort((a, b) => b.confidence - a.confidence || a.column - b.column)) {
+    const suggestion = suggestions[candidate.column];
+    if (suggestion.field || used.has(candidate.field) || candidate.confidence < MIN_MAPPING_CONFIDENCE) continue;
+    suggestion.field = candidate.field;
+    suggestion.confidence = Math.round(candidate.confidence * 100) / 100;
+    suggestion.reason = candidate.reason;
+    used.add(candidate.field);
+  }
+
+  return suggestions;
+}
+
+export function mappingFromSuggestions(suggestions: ColumnSuggestion[]): ColumnMapping {
+  return suggestions.map(s => s.field);
+}
+
+/**
+ * Problems with a mapping: unknown fields, fields mapped twice, or no way to
+ * identify a person
+ */
+export function validateColumnMapping(mapping: unknown, columns: number): string[] {
+  if (!Array.isArray(mapping)) return ['mapping must be an array with one entry per column'];
+
+  const errors: string[] = [];
+  if (mapping.length !== columns) errors.push(`mapping has ${mapping.length} entries for ${columns} columns`);
+
+  const fields = mapping.filter((field): field is ProspectField => field !== null);
+  const unknown = fields.filter(field => !PROSPECT_FIELDS.includes(field));
+  if (unknown.length > 0) errors.push(`unknown fields: ${unknown.join(', ')}`);
+
+  const duplicates = fields.filter((field, i) => fields.indexOf(field) !== i);
+  if (duplicates.length > 0) errors.push(`fields mapped more than once: ${[...new Set(duplicates)].join(', ')}`);
+
+  const has = (field: ProspectField) => fields.includes(field);
+  const named = has('person_name') || has('person_first_name') || has('person_last_name');
+  const company = has('company_name') || has('company_domain') || has('company_website');
+  if (!has('person_email') && !has('person_linkedin_url') && !(named && company)) {
+    errors.push('map an email, a LinkedIn URL, or a name with a company');
+  }
+
+  return errors;
+}
+
+// ============================================
+// ROW VALIDATION
+// ============================================
+
+/**
+ * Map one data row to a bulk_import record, or the reasons it cannot be imported
+ */
+export function validateRow(
+  cells: string[],
+  rowNumber: number,
+  headers: string[],
+  mapping: ColumnMapping
+): { record: ProspectRecord | null; errors: RowError[] } {
+  const fields: ProspectFields = {};
+  const errors: RowError[] = [];
+  const error = (column: number, message: string) => {
+    const field = mapping[column] ?? undefined;
+    errors.push({ row: rowNumber, column: headers[column], field, value: cells[column]?.trim(), message });
+  };
+
+  mapping.forEach((field, column) => {
+    const value = cells[column]?.trim();
+    if (!field || !value) return;
+
+    if (field === 'person_email' && !normalizeEmail(value)) return error(column, 'Invalid email address');
+    if ((field === 'company_domain' || field === 'company_website') && !normalizeDomain(value)) {
+      return error(column, field === 'company_domain' ? 'Invalid domain' : 'Invalid website');
+    }
+    if (field === 'person_linkedin_url' && !normalizeLinkedInUrl(value)?.startsWith('in/')) {
+      return error(column, 'Invalid LinkedIn profile URL');
+    }
+    fields[field] = value;
+  });
+
+  const named = fields.person_name || fields.person_first_name || fields.person_last_name;
+  const company = fields.company_name || fields.company_domain || fields.company_website;
+  if (errors.length === 0 && !fields.person_email && !fields.person_linkedin_url && !(named && company)) {
+    errors.push({ row: rowNumber, message: 'Row needs an email, a LinkedIn URL, or a name with a company' });
+  }
+
+  if (errors.length > 0) return { record: null, errors };
+  return { record: { source: 'bulk_import', sourceId: `row-${rowNumber}`, fields }, errors };
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+/**
+ * Import rows through the identity resolver. Invalid rows are reported and
+ * skipped; blank rows are ignored.
+ */
+export async function runBulkImport(options: BulkImportOptions): Promise<BulkImportResult> {
+  const { resolver, userId, jobId, signal } = options;
+  const progressEvery = options.progressEvery ?? 100;
+  const iterator = options.rows[Symbol.asyncIterator]();
+
+  const header = await iterator.next();
+  const headers = header.done ? [] : header.value.map(h => h.trim());
+  const mapping = options.mapping ?? mappingFromSuggestions(suggestColumnMapping(headers));
+
+  const result: BulkImportResult = {
+    headers,
+    mapping,
+    processed: 0,
+    total: options.total ?? 0,
+    created: 0,
+    merged: 0,
+    queuedForReview: 0,
+    failed: 0,
+    skipped: 0,
+    errors: [],
+  };
+
+  let rowNumber = 1;
+  while (!signal?.aborted) {
+    const next = await iterator.next();
+    if (next.done) break;
+    rowNumber++;
+
+    const cells = next.value;
+    if (cells.every(cell => !cell.trim())) {
+      result.skipped++;
+      continue;
+    }
+
+    const { record, errors } = validateRow(cells, rowNumber, headers, mapping);
+    if (record) {
+      const outcome = await resolver.ingest(userId, { ...record, jobId });
+      if (outcome.action === 'created') result.created++;
+      else if (outcome.action === 'merged') result.merged++;
+      else result.queuedForReview++;
+    } else {
+      result.failed++;
+      result.errors.push(...errors);
+    }
+
+    result.processed++;
+    if (result.processed % progressEvery === 0) await options.onProgress?.(progressOf(result));
+  }
+
+  result.total = Math.max(result.total, result.processed);
+  await options.onProgress?.(progressOf(result));
+  return result;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Field implied by a column's sample values, when most of them agree
+ */
+function sniffField(values: string[]): { field: ProspectField; confidence: number } | null {
+  const present = values.map(v => v.trim()).filter(Boolean);
+  if (present.length === 0) return null;
+
+  const share = (test: (value: string) => boolean) => present.filter(test).length / present.length;
+  const checks: Array<[ProspectField, number, (value: string) => boolean]> = [
+    ['person_email', 0.9, v => normalizeEmail(v) !== null],
+    ['person_linkedin_url', 0.9, v => normalizeLinkedInUrl(v)?.startsWith('in/') ?? false],
+    ['company_linkedin_url', 0.85, v => normalizeLinkedInUrl(v)?.startsWith('company/') ?? false],
+    ['company_website', 0.6, v => /^(https?:\/\/|www\.)/i.test(v) && normalizeDomain(v) !== null],
+    ['company_domain', 0.55, v => /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(v)],
+  ];
+
+  for (const [field, confidence, test] of checks) {
+    if (share(test) >= SAMPLE_MATCH_RATIO) return { field, confidence };
+  }
+  return null;
+}
+
+function progressOf(result: BulkImportResult): BulkImportProgress {
+  return {
+    processed: result.processed,
+    total: Math.max(result.total, result.processed),
+    created: result.created,
+    merged: result.merged,
+    queuedForReview: result.queuedForReview,
+    failed: result.failed,
+  };
+}
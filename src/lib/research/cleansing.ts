@@ -0,0 +1,220 @@
+/**
+ * Prospect Data Cleansing
+ * Normalization and email verification for data_cleansing research jobs
+ *
+ * - Titles: whitespace, casing and common abbreviations ("sr. vp of mktg" →
+ *   "Senior VP of Marketing")
+ * - Seniorities: mapped onto Apollo's seniority values, derived from the
+ *   title when missing or unrecognized
+ * - Company names: display form without legal suffixes ("GLOBEX CORP." → "Globex")
+ * - Emails: syntax, disposable domains, MX records and role addresses
+ */
+
+import { promises as dns } from 'dns';
+import { normalizeEmail } from '../identity/normalize';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Apollo's person seniority values */
+export type Seniority =
+  | 'owner'
+  | 'founder'
+  | 'c_suite'
+  | 'partner'
+  | 'vp'
+  | 'head'
+  | 'director'
+  | 'manager'
+  | 'senior'
+  | 'entry'
+  | 'intern';
+
+export type EmailStatus = 'valid' | 'risky' | 'invalid' | 'unknown';
+
+export interface EmailVerification {
+  email: string;
+  status: EmailStatus;
+  reason?: 'syntax' | 'disposable' | 'no_mx' | 'role_address' | 'dns_error';
+}
+
+export interface EmailVerifier {
+  verify(email: string): Promise<EmailVerification>;
+}
+
+export interface MxRecord {
+  exchange: string;
+  priority: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const SENIORITIES: Seniority[] = [
+  'owner', 'founder', 'c_suite', 'partner', 'vp', 'head', 'director', 'manager', 'senior', 'entry', 'intern',
+];
+
+/** Lowercased (dots removed) → display form */
+const TITLE_WORDS: Record<string, string> = {
+  ceo: 'CEO', cto: 'CTO', cfo: 'CFO', coo: 'COO', cmo: 'CMO', cro: 'CRO', cio: 'CIO', ciso: 'CISO',
+  cpo: 'CPO', cso: 'CSO', vp: 'VP', svp: 'SVP', evp: 'EVP', avp: 'AVP', gm: 'GM',
+  hr: 'HR', it: 'IT', qa: 'QA', ui: 'UI', ux: 'UX', ai: 'AI', ml: 'ML', seo: 'SEO', pr: 'PR',
+  sdr: 'SDR', bdr: 'BDR', ae: 'AE', gtm: 'GTM', b2b: 'B2B', saas: 'SaaS', devops: 'DevOps',
+  sr: 'Senior', jr: 'Junior', mgr: 'Manager', dir: 'Director', eng: 'Engineering', engr: 'Engineer',
+  mktg: 'Marketing', ops: 'Operations', dev: 'Development', exec: 'Executive', asst: 'Assistant',
+};
+
+const TITLE_LOWERCASE = new Set(['of', 'and', 'the', 'for', 'in', 'to', 'at', 'a', 'an', 'on']);
+
+/** Checked in order; "vice president" must win over "president" */
+const SENIORITY_PATTERNS: Array<[Seniority, RegExp]> = [
+  ['founder', /\b(co-?)?founder\b/],
+  ['owner', /\bowner\b/],
+  ['vp', /\b(vp|svp|evp|avp|vice president)\b/],
+  ['c_suite', /\b(chief [a-z ]*officer|ceo|cto|cfo|coo|cmo|cro|cio|ciso|cpo|president)\b/],
+  ['partner', /\b(managing )?partner\b/],
+  ['head', /\bhead\b/],
+  ['director', /\bdirector\b/],
+  ['manager', /\b(manager|lead|supervisor)\b/],
+  ['senior', /\b(senior|principal|staff)\b/],
+  ['intern', /\b(intern|internship|trainee)\b/],
+  ['entry', /\b(junior|associate|assistant|coordinator|analyst|representative)\b/],
+];
+
+const SENIORITY_ALIASES: Record<string, Seniority> = {
+  csuite: 'c_suite', clevel: 'c_suite', cxo: 'c_suite', executive: 'c_suite',
+  vicepresident: 'vp', founders: 'founder', cofounder: 'founder',
+  junior: 'entry', entrylevel: 'entry', individualcontributor: 'entry', mid: 'senior',
+};
+
+/** Legal suffixes dropped from display names (kept: brand words like "Group") */
+const LEGAL_SUFFIXES = /(,?\s+(inc|incorporated|llc|l\.l\.c|llp|ltd|limited|corp|corporation|co|gmbh|ag|s\.?a|s\.?a\.?s|b\.?v|n\.?v|plc|pty|oy|ab)\.?)+$/i;
+
+const DISPOSABLE_DOMAINS = new Set([
+  'mailinator.com', 'guerrillamail.com', '10minutemail.com', 'tempmail.com', 'temp-mail.org',
+  'yopmail.com', 'trashmail.com', 'sharklasers.com', 'getnada.com', 'dispostable.com',
+]);
+
+const ROLE_ADDRESSES = new Set([
+  'info', 'sales', 'support', 'admin', 'hello', 'contact', 'team', 'office', 'marketing',
+  'billing', 'jobs', 'careers', 'help', 'noreply', 'no-reply', 'hr', 'press',
+]);
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+/**
+ * Clean up a job title's spacing, casing and abbreviations
+ */
+export function normalizeTitle(title?: string | null): string | null {
+  const value = title?.replace(/\s+/g, ' ').replace(/^[\s,;|/-]+|[\s,;|/-]+$/g, '');
+  if (!value) return null;
+
+  let first = true;
+  return value
+    .split(/(\s+|[/,&()-])/)
+    .map(token => {
+      if (!/[a-z0-9]/i.test(token)) return token;
+      const word = fixWord(token, first);
+      first = false;
+      return word;
+    })
+    .join('');
+}
+
+/**
+ * Map a seniority onto Apollo's values; unrecognized values give null
+ */
+export function normalizeSeniority(seniority?: string | null): Seniority | null {
+  const value = seniority?.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (!value) return null;
+  if ((SENIORITIES as string[]).includes(value)) return value as Seniority;
+  return SENIORITY_ALIASES[value.replace(/_/g, '')] ?? seniorityFromTitle(seniority);
+}
+
+/**
+ * Seniority implied by a job title, or null when the title doesn't say
+ */
+export function seniorityFromTitle(title?: string | null): Seniority | null {
+  const value = title?.toLowerCase().replace(/\./g, '').replace(/\bsr\b/g, 'senior').replace(/\bjr\b/g, 'junior');
+  if (!value) return null;
+  return SENIORITY_PATTERNS.find(([, pattern]) => pattern.test(value))?.[0] ?? null;
+}
+
+/**
+ * Display form of a company name: trimmed, legal suffixes removed and
+ * all-caps or all-lowercase names title-cased (short acronyms kept)
+ */
+export function cleanCompanyName(name?: string | null): string | null {
+  const value = name?.replace(/\s+/g, ' ').trim().replace(LEGAL_SUFFIXES, '').replace(/[\s,]+$/, '');
+  if (!value) return null;
+
+  const letters = value.replace(/[^a-z]/gi, '');
+  const uniformCase = letters === letters.toUpperCase() || letters === letters.toLowerCase();
+  if (!uniformCase || (letters === letters.toUpperCase() && letters.length <= 4)) return value;
+  return value.replace(/[a-z0-9']+/gi, word => (word.length <= 3 && word === word.toUpperCase() && /[A-Z]/.test(word)
+    ? word
+    : word[0].toUpperCase() + word.slice(1).toLowerCase()));
+}
+
+// ============================================
+// EMAIL VERIFICATION
+// ============================================
+
+/**
+ * Verifies emails by syntax, disposable domain, MX records and role address.
+ * MX lookups are cached per domain.
+ */
+export class DnsEmailVerifier implements EmailVerifier {
+  private resolveMx: (domain: string) => Promise<MxRecord[]>;
+  private mxCache = new Map<string, Promise<'ok' | 'missing' | 'error'>>();
+
+  constructor(options: { resolveMx?: (domain: string) => Promise<MxRecord[]> } = {}) {
+    this.resolveMx = options.resolveMx ?? (domain => dns.resolveMx(domain));
+  }
+
+  async verify(email: string): Promise<EmailVerification> {
+    const normalized = normalizeEmail(email);
+    if (!normalized) return { email, status: 'invalid', reason: 'syntax' };
+
+    const [local, domain] = email.trim().toLowerCase().split('@');
+    if (DISPOSABLE_DOMAINS.has(domain)) return { email, status: 'invalid', reason: 'disposable' };
+
+    const mx = await this.lookup(domain);
+    if (mx === 'missing') return { email, status: 'invalid', reason: 'no_mx' };
+    if (mx === 'error') return { email, status: 'unknown', reason: 'dns_error' };
+
+    if (ROLE_ADDRESSES.has(local.split('+')[0])) return { email, status: 'risky', reason: 'role_address' };
+    return { email, status: 'valid' };
+  }
+
+  private lookup(domain: string): Promise<'ok' | 'missing' | 'error'> {
+    let result = this.mxCache.get(domain);
+    if (!result) {
+      result = this.resolveMx(domain).then(
+        records => (records.length > 0 ? 'ok' : 'missing'),
+        (error: NodeJS.ErrnoException) => (error.code === 'ENOTFOUND' || error.code === 'ENODATA' ? 'missing' : 'error')
+      );
+      this.mxCache.set(domain, result);
+    }
+    return result;
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function fixWord(word: string, first: boolean): string {
+  const key = word.toLowerCase().replace(/\./g, '');
+  if (TITLE_WORDS[key]) return TITLE_WORDS[key];
+  if (!first && TITLE_LOWERCASE.has(key)) return key;
+
+  // Deliberate mixed case ("iOS", "McKinsey") is kept
+  if (/[a-z][A-Z]/.test(word)) return word;
+
+  return word[0].toUpperCase() + word.slice(1).toLowerCase();
+}
@@ -1,9 +1,18 @@
 /**
  * Research Job Queue
  * Async job processing for prospect discovery and data tasks
+ *
+ * Progress and status changes are published to a JobEventBus when one is
+ * configured, for the SSE progress stream.
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { getMetricsRegistry } from '@/lib/metrics-registry';
+import { getTracer } from '@/lib/tracing';
+import type { BulkImportParams } from './bulk-import';
+import type { ListBuildingParams } from './processors';
+import type { JobEventBus, JobEventInput } from './progress-events';
+import { nextRunAt, pickClaimableJob, validateSchedule, type JobSchedule } from './schedule';
 
 export type JobType = 
   | 'prospect_search'
@@ -45,6 +54,16 @@ export interface ResearchJob {
     limit?: number;
     sortBy?: string;
     sources?: string[];
+    /** Uploaded file for bulk_import jobs */
+    import?: BulkImportParams;
+    /** Segments, quotas and ICP for list_building jobs */
+    list?: ListBuildingParams;
+    /** Competitor names or domains for competitor_research jobs */
+    competitors?: string[];
+    /** Skip people who match an existing prospect instead of merging them */
+    netNewOnly?: boolean;
+    /** Only read prospects created by this job (a chain's prospect_search) */
+    sourceJobId?: string;
   };
   
   // Progress tracking
@@ -63,6 +82,21 @@ export interface ResearchJob {
     topIndustries?: Record<string, number>;
     signalsDetected?: Record<string, number>;
     enrichmentRate?: number;
+    prospectsMerged?: number;
+    prospectsSkipped?: number;
+    queuedForReview?: number;
+    rowErrors?: number;
+    prospectsUpdated?: number;
+    emailVerification?: Record<string, number>;
+    listSegments?: Record<string, number>;
+    competitorProfiles?: Array<{
+      name: string;
+      domain?: string;
+      industry?: string;
+      employeeCount?: number;
+      fundingStage?: string;
+      technologies: string[];
+    }>;
   };
   
   // Error handling
@@ -78,6 +112,14 @@ export interface ResearchJob {
   createdAt: Date;
   updatedAt: Date;
   
+  // Chains and recurrence
+  /** Job this one waits on; it is queued once the parent completes */
+  parentJobId?: string;
+  /** Recurring jobs queue their next run when they finish */
+  schedule?: JobSchedule;
+  /** First job of the recurring series this run belongs to */
+  recurrenceId?: string;
+  
   // Ownership
   createdBy: string;
   organizationId?: string;
@@ -96,6 +138,9 @@ export interface JobProgress {
   total: number;
   message?: string;
   estimatedTimeRemaining?: number; // seconds
+  successCount?: number;
+  errorCount?: number;
+  skipCount?: number;
 }
 
 export interface JobQueueConfig {
@@ -103,6 +148,19 @@ export interface JobQueueConfig {
   maxConcurrentJobs?: number;
   pollIntervalMs?: number;
   defaultMaxRetries?: number;
+  /** Running jobs allowed per user (created_by) */
+  maxConcurrentJobsPerUser?: number;
+  /** Receives progress and status events */
+  events?: JobEventBus;
+}
+
+export type NewResearchJob = Omit<ResearchJob, 'id' | 'createdAt' | 'updatedAt' | 'status'>;
+
+/** A follow-up job in a chain created by createJobChain */
+export interface JobChainStep {
+  type: JobType;
+  name?: string;
+  searchParams?: ResearchJob['searchParams'];
 }
 
 export interface JobProcessor {
@@ -113,21 +171,29 @@ export interface JobProcessorRegistry {
   [jobType: string]: JobProcessor;
 }
 
+/** Oldest claimable jobs considered per claim */
+const CLAIM_CANDIDATES = 25;
+
 export class ResearchJobQueue {
   private supabase: SupabaseClient;
   private maxConcurrentJobs: number;
   private pollIntervalMs: number;
   private defaultMaxRetries: number;
+  private maxConcurrentJobsPerUser: number;
+  private events: JobEventBus | null;
   private processors: JobProcessorRegistry = {};
   private runningJobs: Map<string, AbortController> = new Map();
   private isRunning: boolean = false;
   private workers: Promise<void>[] = [];
+  private claiming: Promise<unknown> = Promise.resolve();
 
   constructor(config: JobQueueConfig) {
     this.supabase = config.supabase;
     this.maxConcurrentJobs = config.maxConcurrentJobs || 3;
     this.pollIntervalMs = config.pollIntervalMs || 5000;
     this.defaultMaxRetries = config.defaultMaxRetries || 3;
+    this.maxConcurrentJobsPerUser = config.maxConcurrentJobsPerUser || 2;
+    this.events = config.events || null;
   }
 
   /**
@@ -138,45 +204,79 @@ export class ResearchJobQueue {
   }
 
   /**
-   * Create a new research job
+   * Create a new research job. Recurring jobs without a scheduledAt first
+   * run at their next scheduled time; chained jobs stay pending until
+   * their parent completes.
    */
-  async createJob(job: Omit<ResearchJob, 'id' | 'createdAt' | 'updatedAt' | 'status'>): Promise<ResearchJob> {
-    const now = new Date().toISOString();
-    
-    const { data, error } = await this.supabase
-      .from('research_jobs')
-      .insert({
-        name: job.name,
-        description: job.description,
-        type: job.type,
-        status: job.scheduledAt && new Date(job.scheduledAt) > new Date() ? 'pending' : 'queued',
-        search_params: job.searchParams,
-        sources: job.searchParams?.sources || ['apollo'],
-        progress_percentage: 0,
-        total_records: job.totalRecords || 0,
-        processed_records: 0,
-        success_count: 0,
-        error_count: 0,
-        skip_count: 0,
-        retry_count: 0,
-        max_retries: job.maxRetries || this.defaultMaxRetries,
-        scheduled_at: job.scheduledAt,
-        created_by: job.createdBy,
-        organization_id: job.organizationId,
-        assign_to_campaign_id: job.assignToCampaignId,
-        assign_to_user_id: job.assignToUserId,
-        tags: job.tags || [],
-        created_at: now,
-        updated_at: now,
-      })
-      .select()
-      .single();
+  async createJob(job: NewResearchJob): Promise<ResearchJob> {
+    let scheduledAt = job.scheduledAt;
+    if (job.schedule) {
+      validateSchedule(job.schedule);
+      scheduledAt ??= nextRunAt(job.schedule);
+    }
 
-    if (error) {
-      throw new Error(`Failed to create job: ${error.message}`);
+    let status: JobStatus = scheduledAt && new Date(scheduledAt) > new Date() ? 'pending' : 'queued';
+    if (job.parentJobId) {
+      const parentStatus = await this.getJobStatus(job.parentJobId);
+      if (!parentStatus) {
+        throw new Error(`Failed to create job: parent job ${job.parentJobId} not found`);
+      }
+      if (parentStatus === 'failed' || parentStatus === 'cancelled') {
+        throw new Error(`Failed to create job: parent job ${job.parentJobId} is ${parentStatus}`);
+      }
+      if (parentStatus !== 'completed') status = 'pending';
     }
 
-    return this.transformFromRow(data);
+    const created = await this.insertJob({ ...job, scheduledAt }, status);
+
+    // The parent may have finished between the check and the insert
+    if (job.parentJobId && status === 'pending') {
+      const parentStatus = await this.getJobStatus(job.parentJobId);
+      if (parentStatus === 'completed') {
+        await this.resumeJob(created.id, 'pending');
+        created.status = 'queued';
+      } else if (parentStatus === 'failed' || parentStatus === 'cancelled') {
+        await this.cancelJob(created.id, `Parent job ${parentStatus}`);
+        created.status = 'cancelled';
+      }
+    }
+
+    getMetricsRegistry().counter('research_jobs_created', { help: 'Research jobs created by type' })
+      .inc({ type: job.type });
+
+    return created;
+  }
+
+  /**
+   * Create a job and follow-ups that each wait on the one before, e.g.
+   * prospect_search → company_enrichment → signal_detection. Follow-ups
+   * inherit the first job's filters and read only the prospects it creates.
+   */
+  async createJobChain(job: NewResearchJob, steps: JobChainStep[]): Promise<ResearchJob[]> {
+    const root = await this.createJob(job);
+    const chain = [root];
+
+    for (const step of steps) {
+      chain.push(await this.createJob({
+        name: step.name || `${job.name}: ${step.type.replace(/_/g, ' ')}`,
+        type: step.type,
+        searchParams: { filters: job.searchParams.filters, ...step.searchParams, sourceJobId: root.id },
+        parentJobId: chain[chain.length - 1].id,
+        progressPercentage: 0,
+        totalRecords: 0,
+        processedRecords: 0,
+        successCount: 0,
+        errorCount: 0,
+        skipCount: 0,
+        retryCount: 0,
+        maxRetries: job.maxRetries,
+        createdBy: job.createdBy,
+        organizationId: job.organizationId,
+        tags: job.tags,
+      }));
+    }
+
+    return chain;
   }
 
   /**
@@ -190,6 +290,9 @@ export class ResearchJobQueue {
     if (progress.percentage !== undefined) updates.progress_percentage = progress.percentage;
     if (progress.processed !== undefined) updates.processed_records = progress.processed;
     if (progress.total !== undefined) updates.total_records = progress.total;
+    if (progress.successCount !== undefined) updates.success_count = progress.successCount;
+    if (progress.errorCount !== undefined) updates.error_count = progress.errorCount;
+    if (progress.skipCount !== undefined) updates.skip_count = progress.skipCount;
 
     const { error } = await this.supabase
       .from('research_jobs')
@@ -202,10 +305,11 @@ export class ResearchJobQueue {
   }
 
   /**
-   * Complete a job
+   * Complete a job and, for a recurring job, queue its next run. Pending
+   * follow-ups are queued by the settle_research_job_children trigger.
    */
   async completeJob(jobId: string, resultSummary: ResearchJob['resultSummary']): Promise<void> {
-    const { error } = await this.supabase
+    const { data, error } = await this.supabase
       .from('research_jobs')
       .update({
         status: 'completed',
@@ -214,20 +318,26 @@ export class ResearchJobQueue {
         result_summary: resultSummary,
         updated_at: new Date().toISOString(),
       })
-      .eq('id', jobId);
+      .eq('id', jobId)
+      .select('id, created_by');
 
     if (error) {
       throw new Error(`Failed to complete job: ${error.message}`);
     }
+
+    this.publishStatus(data, 'completed', { percentage: 100 });
+
+    await this.scheduleNextRun(jobId);
   }
 
   /**
-   * Fail a job
+   * Fail a job, or queue it again while it has retries left. A recurring
+   * job that fails for good still gets its next run.
    */
   async failJob(jobId: string, error: string, details?: Record<string, unknown>): Promise<void> {
     const { data: job } = await this.supabase
       .from('research_jobs')
-      .select('retry_count, max_retries')
+      .select('retry_count, max_retries, created_by')
       .eq('id', jobId)
       .single();
 
@@ -256,11 +366,23 @@ export class ResearchJobQueue {
 
     if (updateError) {
       console.error(`Failed to update failed job ${jobId}:`, updateError);
+      return;
+    }
+
+    if (job?.created_by) {
+      this.publishStatus([{ id: jobId, created_by: job.created_by }], updates.status as JobStatus, {
+        message: shouldRetry ? `Retrying (${retryCount + 1}/${maxRetries}): ${error}` : error,
+      });
+    }
+
+    if (!shouldRetry) {
+      await this.scheduleNextRun(jobId);
     }
   }
 
   /**
-   * Cancel a job
+   * Cancel a job (its follow-ups are cancelled with it). Cancelling a run
+   * of a recurring job ends the series.
    */
   async cancelJob(jobId: string, reason?: string): Promise<void> {
     // Abort running job
@@ -269,7 +391,7 @@ export class ResearchJobQueue {
       controller.abort();
     }
 
-    const { error } = await this.supabase
+    const { data, error } = await this.supabase
       .from('research_jobs')
       .update({
         status: 'cancelled',
@@ -277,11 +399,14 @@ export class ResearchJobQueue {
         completed_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       })
-      .eq('id', jobId);
+      .eq('id', jobId)
+      .select('id, created_by');
 
     if (error) {
       throw new Error(`Failed to cancel job: ${error.message}`);
     }
+
+    this.publishStatus(data, 'cancelled', { message: reason || 'Manually cancelled' });
   }
 
   /**
@@ -293,35 +418,41 @@ export class ResearchJobQueue {
       controller.abort();
     }
 
-    const { error } = await this.supabase
+    const { data, error } = await this.supabase
       .from('research_jobs')
       .update({
         status: 'paused',
         updated_at: new Date().toISOString(),
       })
-      .eq('id', jobId);
+      .eq('id', jobId)
+      .select('id, created_by');
 
     if (error) {
       throw new Error(`Failed to pause job: ${error.message}`);
     }
+
+    this.publishStatus(data, 'paused');
   }
 
   /**
-   * Resume a paused job
+   * Resume a paused job (or release a follow-up held as pending)
    */
-  async resumeJob(jobId: string): Promise<void> {
-    const { error } = await this.supabase
+  async resumeJob(jobId: string, from: 'paused' | 'pending' = 'paused'): Promise<void> {
+    const { data, error } = await this.supabase
       .from('research_jobs')
       .update({
         status: 'queued',
         updated_at: new Date().toISOString(),
       })
       .eq('id', jobId)
-      .eq('status', 'paused');
+      .eq('status', from)
+      .select('id, created_by');
 
     if (error) {
       throw new Error(`Failed to resume job: ${error.message}`);
     }
+
+    this.publishStatus(data, 'queued');
   }
 
   /**
@@ -486,45 +617,244 @@ export class ResearchJobQueue {
   }
 
   /**
-   * Claim a job from the queue
+   * Claim a job from the queue. Workers in this process claim one at a time
+   * so per-user running counts are current.
    */
   private async claimJob(): Promise<ResearchJob | null> {
+    const claim = this.claiming.then(() => this.claimNextJob());
+    this.claiming = claim.catch(() => undefined);
+    return claim;
+  }
+
+  /**
+   * Claim the oldest due job whose parent has completed and whose owner is
+   * under maxConcurrentJobsPerUser
+   */
+  private async claimNextJob(): Promise<ResearchJob | null> {
     const { data, error } = await this.supabase
       .from('research_jobs')
       .select('*')
       .in('status', ['queued', 'pending'])
       .or('scheduled_at.is.null,scheduled_at.lte.now()')
+      // Follow-ups stay pending until their parent completes
+      .or('parent_job_id.is.null,status.eq.queued')
       .order('created_at', { ascending: true })
-      .limit(1)
-      .single();
+      .limit(CLAIM_CANDIDATES);
+
+    if (error || !data || data.length === 0) return null;
+
+    const candidates = data.map(row => this.transformFromRow(row));
+    const [parentStatuses, runningByUser] = await Promise.all([
+      this.getParentStatuses(candidates),
+      this.getRunningCounts(candidates),
+    ]);
+    const { job, blocked } = pickClaimableJob(candidates, {
+      parentStatuses,
+      runningByUser,
+      maxJobsPerUser: this.maxConcurrentJobsPerUser,
+    });
 
-    if (error || !data) return null;
+    for (const stuck of blocked) {
+      await this.cancelJob(stuck.id, `Parent job ${stuck.parentJobId} did not complete`);
+    }
+    if (!job) return null;
 
-    // Mark as running
-    const { error: updateError } = await this.supabase
+    // Mark as running (unless another worker got there first)
+    const { data: claimed, error: updateError } = await this.supabase
       .from('research_jobs')
       .update({
         status: 'running',
         started_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       })
-      .eq('id', data.id)
-      .eq('status', data.status);
+      .eq('id', job.id)
+      .eq('status', job.status)
+      .select('id');
+
+    if (updateError || !claimed || claimed.length === 0) return null;
+
+    this.publishStatus([{ id: job.id, created_by: job.createdBy }], 'running');
+    return { ...job, status: 'running' };
+  }
+
+  private async getParentStatuses(jobs: ResearchJob[]): Promise<Map<string, JobStatus>> {
+    const parentIds = Array.from(new Set(jobs.flatMap(job => (job.parentJobId ? [job.parentJobId] : []))));
+    if (parentIds.length === 0) return new Map();
+
+    const { data, error } = await this.supabase
+      .from('research_jobs')
+      .select('id, status')
+      .in('id', parentIds);
+
+    if (error) {
+      throw new Error(`Failed to read parent jobs: ${error.message}`);
+    }
+    return new Map((data || []).map(row => [row.id as string, row.status as JobStatus]));
+  }
+
+  private async getRunningCounts(jobs: ResearchJob[]): Promise<Map<string, number>> {
+    const { data, error } = await this.supabase
+      .from('research_jobs')
+      .select('created_by')
+      .eq('status', 'running')
+      .in('created_by', Array.from(new Set(jobs.map(job => job.createdBy))));
+
+    if (error) {
+      throw new Error(`Failed to count running jobs: ${error.message}`);
+    }
+
+    const counts = new Map<string, number>();
+    for (const row of data || []) {
+      counts.set(row.created_by as string, (counts.get(row.created_by as string) || 0) + 1);
+    }
+    return counts;
+  }
+
+  /**
+   * Queue the next run of a finished recurring job, with copies of its
+   * follow-ups. Runs are unique per series and time, so a repeat call is a
+   * no-op.
+   */
+  private async scheduleNextRun(jobId: string): Promise<void> {
+    const job = await this.getJob(jobId);
+    if (!job?.schedule || job.parentJobId) return;
+
+    try {
+      const after = new Date(Math.max(Date.now(), job.scheduledAt?.getTime() ?? 0));
+      const next = await this.insertJob({
+        ...job,
+        totalRecords: 0,
+        scheduledAt: nextRunAt(job.schedule, after),
+        recurrenceId: job.recurrenceId ?? job.id,
+      }, 'pending');
+
+      await this.copyChildren(job.id, next.id, { from: job.id, to: next.id });
+    } catch (error) {
+      console.error(`Failed to schedule next run of job ${jobId}:`, error);
+    }
+  }
+
+  private async copyChildren(fromParentId: string, toParentId: string, root: { from: string; to: string }): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('research_jobs')
+      .select('*')
+      .eq('parent_job_id', fromParentId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to read follow-ups: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      const child = this.transformFromRow(row);
+      const copy = await this.insertJob({
+        ...child,
+        totalRecords: 0,
+        searchParams: {
+          ...child.searchParams,
+          sourceJobId: child.searchParams.sourceJobId === root.from ? root.to : child.searchParams.sourceJobId,
+        },
+        parentJobId: toParentId,
+      }, 'pending');
+      await this.copyChildren(child.id, copy.id, root);
+    }
+  }
+
+  private async getJobStatus(jobId: string): Promise<JobStatus | null> {
+    const { data } = await this.supabase
+      .from('research_jobs')
+      .select('status')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    return (data?.status as JobStatus | undefined) ?? null;
+  }
+
+  private async insertJob(job: NewResearchJob, status: JobStatus): Promise<ResearchJob> {
+    const now = new Date().toISOString();
+
+    const { data, error } = await this.supabase
+      .from('research_jobs')
+      .insert({
+        name: job.name,
+        description: job.description,
+        type: job.type,
+        status,
+        search_params: job.searchParams,
+        sources: job.searchParams?.sources || ['apollo'],
+        progress_percentage: 0,
+        total_records: job.totalRecords || 0,
+        processed_records: 0,
+        success_count: 0,
+        error_count: 0,
+        skip_count: 0,
+        retry_count: 0,
+        max_retries: job.maxRetries || this.defaultMaxRetries,
+        scheduled_at: job.scheduledAt,
+        parent_job_id: job.parentJobId,
+        schedule_cron: job.schedule?.cron,
+        schedule_timezone: job.schedule?.timezone,
+        recurrence_id: job.recurrenceId,
+        created_by: job.createdBy,
+        organization_id: job.organizationId,
+        assign_to_campaign_id: job.assignToCampaignId,
+        assign_to_user_id: job.assignToUserId,
+        tags: job.tags || [],
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
 
-    if (updateError) return null;
+    if (error) {
+      throw new Error(`Failed to create job: ${error.message}`);
+    }
 
+    this.publishStatus([data], status);
     return this.transformFromRow(data);
   }
 
   /**
-   * Process a single job
+   * Process a single job inside a research.job span, recording throughput
+   * and duration by type and outcome
    */
   private async processJob(job: ResearchJob): Promise<void> {
+    const registry = getMetricsRegistry();
+    const running = registry.gauge('research_jobs_running', { help: 'Research jobs currently processing' });
+    const stopTimer = registry.histogram('research_job_duration_seconds', {
+      help: 'Research job processing time by type and outcome',
+      unit: 'seconds',
+      buckets: [1, 5, 15, 30, 60, 120, 300, 600, 1800, 3600],
+    }).startTimer({ type: job.type });
+    let outcome = 'failed';
+
+    running.inc({ type: job.type });
+    try {
+      await getTracer().withSpan('research.job', {
+        kind: 'consumer',
+        attributes: { 'job.id': job.id, 'job.type': job.type, 'job.retry_count': job.retryCount },
+      }, async (span) => {
+        outcome = await this.runProcessor(job);
+        span.setAttribute('job.outcome', outcome);
+        if (outcome === 'failed') span.setStatus('error', 'Job failed');
+      });
+    } finally {
+      running.dec({ type: job.type });
+      stopTimer({ outcome });
+      registry.counter('research_jobs_processed', { help: 'Research jobs processed by type and outcome' })
+        .inc({ type: job.type, outcome });
+    }
+  }
+
+  /**
+   * Run the registered processor; returns completed, failed or aborted
+   */
+  private async runProcessor(job: ResearchJob): Promise<'completed' | 'failed' | 'aborted'> {
     const processor = this.processors[job.type];
     
     if (!processor) {
       await this.failJob(job.id, `No processor registered for job type: ${job.type}`);
-      return;
+      return 'failed';
     }
 
     const controller = new AbortController();
@@ -533,28 +863,69 @@ export class ResearchJobQueue {
     try {
       const updateProgress = (progress: JobProgress) => {
         this.updateProgress(job.id, progress);
+        this.publish({
+          type: 'progress',
+          jobId: job.id,
+          userId: job.createdBy,
+          status: 'running',
+          percentage: progress.percentage,
+          processed: progress.processed,
+          total: progress.total,
+          successCount: progress.successCount,
+          errorCount: progress.errorCount,
+          skipCount: progress.skipCount,
+          message: progress.message,
+        });
       };
 
       const success = await processor(job, updateProgress);
 
       if (success) {
         await this.completeJob(job.id, job.resultSummary);
+        return 'completed';
       } else if (!controller.signal.aborted) {
         await this.failJob(job.id, 'Processor returned false');
+        return 'failed';
       }
+      return 'aborted';
     } catch (error) {
       if (!controller.signal.aborted) {
+        getTracer().activeSpan()?.recordException(error);
         await this.failJob(
           job.id,
           error instanceof Error ? error.message : 'Unknown error',
           { stack: error instanceof Error ? error.stack : undefined }
         );
+        return 'failed';
       }
+      return 'aborted';
     } finally {
       this.runningJobs.delete(job.id);
     }
   }
 
+  /**
+   * Publish a job event; failures are logged and never fail the job
+   */
+  private publish(event: JobEventInput): void {
+    this.events?.publish(event).catch(error => {
+      console.error(`Failed to publish ${event.type} event for job ${event.jobId}:`, error);
+    });
+  }
+
+  /**
+   * Publish a status event for each job row an update returned
+   */
+  private publishStatus(
+    rows: Array<{ id: string; created_by: string }> | null,
+    status: JobStatus,
+    details: Partial<Pick<JobEventInput, 'percentage' | 'message'>> = {}
+  ): void {
+    for (const row of rows || []) {
+      this.publish({ type: 'status', jobId: row.id, userId: row.created_by, status, ...details });
+    }
+  }
+
   /**
    * Transform database row to ResearchJob object
    */
@@ -587,6 +958,11 @@ export class ResearchJobQueue {
       assignToCampaignId: row.assign_to_campaign_id as string | undefined,
       assignToUserId: row.assign_to_user_id as string | undefined,
       tags: row.tags as string[] || [],
+      parentJobId: (row.parent_job_id as string | null) ?? undefined,
+      schedule: row.schedule_cron
+        ? { cron: row.schedule_cron as string, timezone: (row.schedule_timezone as string | null) ?? undefined }
+        : undefined,
+      recurrenceId: (row.recurrence_id as string | null) ?? undefined,
     };
   }
 
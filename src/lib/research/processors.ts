@@ -0,0 +1,737 @@
+/**
+ * Research Pipelines
+ * Processors for the data_cleansing, list_building, company_enrichment,
+ * signal_detection and competitor_research job types
+ *
+ * - data_cleansing: normalizes titles, seniorities and company names and
+ *   verifies emails across a user's prospects
+ * - company_enrichment: fills in missing company details from Apollo
+ * - list_building: fills per-segment quotas from Apollo, graded against the
+ *   job's ICP and resolved into prospects
+ * - signal_detection: re-reads each prospect company from Apollo and records
+ *   new funding, hiring and tech signals as QualitySignals
+ * - competitor_research: profiles competitors and finds prospects at
+ *   companies running their product
+ *
+ * Jobs that read existing prospects are limited to searchParams.sourceJobId's
+ * prospects when set (the follow-ups in a job chain).
+ *
+ * Each reports JobProgress as it goes. Apollo, the prospect store and the
+ * identity resolver are passed in, so a LocalApolloClient and in-memory
+ * stores can stand in.
+ */
+
+import type { ApolloApi, ApolloOrganization, ApolloPerson, ApolloSearchFilters } from '../apollo/client';
+import { ApolloApiError } from '../apollo/client';
+import { detectSignals, hasIntentSignals, matchTechnologies } from '../apollo/enrichment';
+import { fromApolloPerson, type ProspectField, type ProspectFields } from '../identity/matching';
+import { employerDomain, normalizeDomain } from '../identity/normalize';
+import type { IdentityResolver } from '../identity/resolver';
+import {
+  ProspectQualityScorer,
+  scoreToGrade,
+  type ICPProfile,
+  type ProspectData,
+  type QualityGrade,
+  type QualitySignals,
+} from '../scoring/prospect-quality';
+import {
+  DnsEmailVerifier,
+  cleanCompanyName,
+  normalizeSeniority,
+  normalizeTitle,
+  seniorityFromTitle,
+  type EmailStatus,
+  type EmailVerifier,
+} from './cleansing';
+import type { JobProgress, ResearchJob } from './job-queue';
+import type { ListMember, ResearchProspect, ResearchProspectPatch, ResearchProspectStore } from './prospect-store';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ResearchFilters = NonNullable<ResearchJob['searchParams']['filters']>;
+
+export type ResultSummary = NonNullable<ResearchJob['resultSummary']>;
+
+export interface ListSegment {
+  name: string;
+  quota: number;
+  /** Merged over the job's filters */
+  filters?: ResearchFilters;
+}
+
+/** search_params.list for list_building jobs */
+export interface ListBuildingParams {
+  /** One segment per filtered industry (or a single segment) when omitted */
+  segments?: ListSegment[];
+  /** Worst grade admitted to the list (default E) */
+  minGrade?: QualityGrade;
+  /** Overrides the ICP derived from the job's filters */
+  icp?: Partial<ICPProfile>;
+}
+
+export type SignalType = 'funding' | 'hiring' | 'tech';
+
+export interface ResearchProcessorContext {
+  /** Created on first use, so jobs that never call Apollo don't need a key */
+  apollo: () => ApolloApi;
+  prospects: ResearchProspectStore;
+  resolver: IdentityResolver;
+  /** Defaults to DNS MX verification */
+  emailVerifier?: EmailVerifier;
+  now?: () => Date;
+}
+
+export type UpdateProgress = (progress: JobProgress) => void;
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const PROSPECT_PAGE_SIZE = 200;
+const SEARCH_PAGE_SIZE = 50;
+/** Apollo pages searched per segment or competitor before giving up */
+const MAX_SEARCH_PAGES = 10;
+/** Prospects between progress reports */
+const PROGRESS_EVERY = 25;
+
+const DEFAULT_MIN_GRADE: QualityGrade = 'E';
+const DEFAULT_COMPETITOR_QUOTA = 25;
+
+/** Headcount growth since the last scan that counts as hiring */
+const HIRING_GROWTH_RATIO = 0.05;
+const HIRING_GROWTH_MIN = 3;
+
+// ============================================
+// DATA CLEANSING
+// ============================================
+
+/**
+ * Normalize titles, seniorities and company names and verify emails for
+ * the job owner's prospects (up to searchParams.limit)
+ */
+export async function runDataCleansing(
+  job: ResearchJob,
+  context: ResearchProcessorContext,
+  updateProgress: UpdateProgress
+): Promise<ResultSummary> {
+  const verifier = context.emailVerifier ?? new DnsEmailVerifier();
+  const total = Math.min(
+    await context.prospects.countProspects(job.createdBy, { sourceJobId: job.searchParams.sourceJobId }),
+    job.searchParams.limit ?? Infinity
+  );
+  const progress = tracker(job, total, updateProgress);
+  const emailStatuses: Record<EmailStatus, number> = { valid: 0, risky: 0, invalid: 0, unknown: 0 };
+
+  progress.report(`Cleansing ${total} prospects...`);
+
+  for await (const prospect of eachProspect(context.prospects, job, total)) {
+    try {
+      const { patch, emailStatus } = await cleanseProspect(prospect, verifier);
+      if (emailStatus) emailStatuses[emailStatus]++;
+
+      if (Object.keys(patch).length > 0) {
+        await context.prospects.updateProspect(prospect.id, patch);
+        progress.success();
+      } else {
+        progress.skip();
+      }
+    } catch (error) {
+      console.error(`data_cleansing failed for prospect ${prospect.id}:`, error);
+      progress.fail();
+    }
+
+    if (progress.processed % PROGRESS_EVERY === 0) {
+      progress.report(`Cleansed ${progress.processed} of ${total} prospects (${emailStatuses.invalid} invalid emails)`);
+    }
+  }
+
+  progress.done(`Cleansed ${progress.processed} prospects: ${progress.successCount} updated`);
+
+  return {
+    prospectsUpdated: progress.successCount,
+    emailVerification: emailStatuses,
+  };
+}
+
+async function cleanseProspect(
+  prospect: ResearchProspect,
+  verifier: EmailVerifier
+): Promise<{ patch: ResearchProspectPatch; emailStatus: EmailStatus | null }> {
+  const { fields } = prospect;
+  const cleaned: ResearchProspectPatch['fields'] = {};
+
+  const title = normalizeTitle(fields.person_title);
+  if (title && title !== fields.person_title) cleaned.person_title = title;
+
+  const seniority = normalizeSeniority(fields.person_seniority) ?? seniorityFromTitle(title);
+  if (seniority && seniority !== fields.person_seniority) cleaned.person_seniority = seniority;
+
+  const company = cleanCompanyName(fields.company_name);
+  if (company && company !== fields.company_name) cleaned.company_name = company;
+
+  const patch: ResearchProspectPatch = Object.keys(cleaned).length > 0 ? { fields: cleaned } : {};
+
+  let emailStatus: EmailStatus | null = null;
+  if (fields.person_email) {
+    emailStatus = (await verifier.verify(fields.person_email)).status;
+    if (emailStatus !== prospect.emailStatus) patch.emailStatus = emailStatus;
+  }
+
+  return { patch, emailStatus };
+}
+
+// ============================================
+// LIST BUILDING
+// ============================================
+
+/**
+ * Fill each segment's quota with Apollo people that grade at or above the
+ * minimum against the ICP. People are resolved into prospects (so existing
+ * prospects are reused) and the list is saved in rank order.
+ */
+export async function runListBuilding(
+  job: ResearchJob,
+  context: ResearchProcessorContext,
+  updateProgress: UpdateProgress
+): Promise<ResultSummary> {
+  const apollo = context.apollo();
+  const params = job.searchParams.list ?? {};
+  const segments = listSegments(job);
+  const minGrade = params.minGrade ?? DEFAULT_MIN_GRADE;
+  const exclude = excludedCompanies(job.searchParams.filters);
+  const total = segments.reduce((sum, s) => sum + s.quota, 0);
+  const progress = tracker(job, total, updateProgress, 'successCount');
+
+  const members: ListMember[] = [];
+  const seenPeople = new Set<string>();
+  const listed = new Set<string>();
+  const filled: Record<string, number> = {};
+  const industries: Record<string, number> = {};
+  const companies = new Set<string>();
+  let created = 0;
+  let merged = 0;
+  let queuedForReview = 0;
+
+  progress.report(`Building a list of ${total} across ${segments.length} segments...`);
+
+  for (const segment of segments) {
+    const filters = { ...job.searchParams.filters, ...segment.filters };
+    const scorer = new ProspectQualityScorer(icpFor(filters, params.icp));
+    filled[segment.name] = 0;
+
+    await searchPages(apollo, toApolloFilters(filters), async (person, org) => {
+      if (filled[segment.name] >= segment.quota) return false;
+
+      if (seenPeople.has(person.id) || !org || isExcluded(org, exclude)) {
+        progress.skip();
+        return true;
+      }
+      seenPeople.add(person.id);
+
+      const scored = scorer.score(toProspectData(person, org));
+      if (scored.qualityScore > minGrade) {
+        progress.skip();
+        return true;
+      }
+
+      const outcome = await context.resolver.ingest(job.createdBy, fromApolloPerson(person, org, job.id));
+      if (outcome.action === 'review') {
+        queuedForReview++;
+        progress.skip();
+        return true;
+      }
+      if (listed.has(outcome.prospect.id)) {
+        progress.skip();
+        return true;
+      }
+
+      if (outcome.action === 'created') created++;
+      else merged++;
+      listed.add(outcome.prospect.id);
+      members.push({
+        prospectId: outcome.prospect.id,
+        segment: segment.name,
+        grade: scored.qualityScore,
+        score: scored.detailedBreakdown.total,
+        rank: members.length + 1,
+      });
+      filled[segment.name]++;
+      companies.add(org.id);
+      if (org.industry) industries[org.industry] = (industries[org.industry] ?? 0) + 1;
+
+      progress.success();
+      if (progress.successCount % PROGRESS_EVERY === 0 || filled[segment.name] === segment.quota) {
+        progress.report(`Segment "${segment.name}": ${filled[segment.name]} of ${segment.quota}`);
+      }
+      return true;
+    });
+  }
+
+  await context.prospects.saveListMembers(job.id, members);
+
+  const averageScore = members.length > 0 ? members.reduce((sum, m) => sum + m.score, 0) / members.length : 0;
+  progress.done(`Listed ${members.length} of ${total} prospects`);
+
+  return {
+    prospectsCreated: created,
+    prospectsMerged: merged,
+    queuedForReview,
+    companiesFound: companies.size,
+    averageQualityScore: members.length > 0 ? scoreToGrade(averageScore) : undefined,
+    topIndustries: industries,
+    listSegments: filled,
+  };
+}
+
+/**
+ * The job's segments, or one per filtered industry sharing the limit
+ */
+export function listSegments(job: ResearchJob): ListSegment[] {
+  const configured = job.searchParams.list?.segments;
+  if (configured && configured.length > 0) return configured;
+
+  const limit = job.searchParams.limit ?? 100;
+  const industries = job.searchParams.filters?.industries ?? [];
+  if (industries.length === 0) return [{ name: 'All', quota: limit }];
+
+  const quota = Math.ceil(limit / industries.length);
+  return industries.map(industry => ({ name: industry, quota, filters: { industries: [industry] } }));
+}
+
+// ============================================
+// COMPANY ENRICHMENT
+// ============================================
+
+/**
+ * Fill in missing company details (domain, website, LinkedIn, industry,
+ * size, location) from Apollo, one lookup per company. Values already set
+ * are kept, and the signal snapshot is left to signal_detection.
+ */
+export async function runCompanyEnrichment(
+  job: ResearchJob,
+  context: ResearchProcessorContext,
+  updateProgress: UpdateProgress
+): Promise<ResultSummary> {
+  const apollo = context.apollo();
+  const byDomain = await prospectsByDomain(context.prospects, job);
+  const progress = tracker(job, byDomain.size, updateProgress);
+  let updated = 0;
+  progress.report(`Enriching ${byDomain.size} companies...`);
+
+  for (const [domain, prospects] of byDomain) {
+    try {
+      const company = companyFields(await apollo.enrichOrganizationByDomain(domain));
+      for (const prospect of prospects) {
+        const missing = Object.fromEntries(
+          Object.entries(company).filter(([field, value]) => value && !prospect.fields[field as ProspectField])
+        );
+        if (Object.keys(missing).length === 0) continue;
+        await context.prospects.updateProspect(prospect.id, { fields: missing });
+        updated++;
+      }
+      progress.success();
+    } catch (error) {
+      if (error instanceof ApolloApiError && error.statusCode === 404) {
+        progress.skip();
+      } else {
+        console.error(`company_enrichment failed for ${domain}:`, error);
+        progress.fail();
+      }
+    }
+
+    progress.report(`Enriched ${progress.processed} of ${byDomain.size} companies (${updated} prospects updated)`);
+  }
+
+  progress.done(`Enriched ${byDomain.size} companies`);
+
+  return {
+    companiesFound: byDomain.size,
+    prospectsUpdated: updated,
+    enrichmentRate: byDomain.size > 0 ? progress.successCount / byDomain.size : 0,
+  };
+}
+
+// ============================================
+// SIGNAL DETECTION
+// ============================================
+
+/**
+ * Re-read every prospect company from Apollo and record funding, hiring
+ * and tech signals that are new since the stored company snapshot
+ */
+export async function runSignalDetection(
+  job: ResearchJob,
+  context: ResearchProcessorContext,
+  updateProgress: UpdateProgress
+): Promise<ResultSummary> {
+  const apollo = context.apollo();
+  const now = context.now?.() ?? new Date();
+  const filters = job.searchParams.filters ?? {};
+  const wanted = new Set((filters.signalTypes ?? ['funding', 'hiring', 'tech']).map(t => t.toLowerCase()));
+
+  const byDomain = await prospectsByDomain(context.prospects, job);
+  const progress = tracker(job, byDomain.size, updateProgress);
+  const detected: Record<SignalType, number> = { funding: 0, hiring: 0, tech: 0 };
+  progress.report(`Scanning ${byDomain.size} companies for signals...`);
+
+  for (const [domain, prospects] of byDomain) {
+    try {
+      const org = await apollo.enrichOrganizationByDomain(domain);
+      const scan = detectCompanySignals(prospects[0], org, {
+        now,
+        targetTechnologies: filters.technologies,
+      });
+      const found = scan.detected.filter(type => wanted.has(type));
+      for (const type of found) detected[type]++;
+
+      for (const prospect of prospects) {
+        await context.prospects.updateProspect(prospect.id, {
+          signals: scan.signals,
+          technologies: org.technologies ?? prospect.technologies,
+          companyEmployeeCount: org.employee_count ?? prospect.companyEmployeeCount,
+          companyFundingStage: org.funding_stage ?? prospect.companyFundingStage,
+          signalsCheckedAt: now.toISOString(),
+        });
+      }
+      progress.success();
+    } catch (error) {
+      if (error instanceof ApolloApiError && error.statusCode === 404) {
+        progress.skip();
+      } else {
+        console.error(`signal_detection failed for ${domain}:`, error);
+        progress.fail();
+      }
+    }
+
+    progress.report(
+      `Scanned ${progress.processed} of ${byDomain.size} companies ` +
+      `(${detected.funding} funding, ${detected.hiring} hiring, ${detected.tech} tech)`
+    );
+  }
+
+  progress.done(`Scanned ${byDomain.size} companies`);
+
+  return {
+    companiesFound: byDomain.size,
+    signalsDetected: detected,
+  };
+}
+
+/**
+ * Current QualitySignals for a company and which of them are new compared
+ * with the snapshot stored on the prospect. Funding and tech count as new
+ * when the snapshot doesn't have them; hiring needs a stored headcount to
+ * compare against.
+ */
+export function detectCompanySignals(
+  previous: Pick<ResearchProspect, 'technologies' | 'companyEmployeeCount' | 'companyFundingStage' | 'signals'>,
+  org: ApolloOrganization,
+  options: { now?: Date; targetTechnologies?: string[] } = {}
+): { signals: QualitySignals; detected: SignalType[] } {
+  const now = options.now ?? new Date();
+  const detected: SignalType[] = [];
+
+  const fundingStage = org.funding_stage ?? undefined;
+  const fundingAmount = org.funding_amount ?? undefined;
+  const newFunding =
+    (!!fundingStage && fundingStage !== (previous.companyFundingStage ?? previous.signals?.fundingStage)) ||
+    (!!fundingAmount && fundingAmount !== previous.signals?.fundingAmount);
+  if (newFunding) detected.push('funding');
+
+  const before = previous.companyEmployeeCount;
+  const growth = before && org.employee_count ? org.employee_count - before : 0;
+  const newHiring = !!before && growth >= HIRING_GROWTH_MIN && growth >= before * HIRING_GROWTH_RATIO;
+  if (newHiring) detected.push('hiring');
+
+  const known = new Set(previous.technologies.map(t => t.toLowerCase()));
+  const techStackMatch = matchTechnologies(org.technologies ?? [], options.targetTechnologies?.length ? options.targetTechnologies : undefined);
+  const newTech = techStackMatch.filter(tech => !known.has(tech.toLowerCase()));
+  if (newTech.length > 0) detected.push('tech');
+
+  const eventType: QualitySignals['eventType'] = newFunding ? 'funding' : newHiring ? 'hiring' : newTech.length > 0 ? 'other' : undefined;
+
+  return {
+    signals: {
+      isHiring: newHiring || (previous.signals?.isHiring ?? false),
+      hiringCount: newHiring ? growth : previous.signals?.hiringCount,
+      raisedFunding: !!fundingStage || !!fundingAmount,
+      fundingStage,
+      fundingAmount,
+      fundingDate: newFunding ? now : previous.signals?.fundingDate,
+      techStackMatch,
+      intentData: hasIntentSignals(org),
+      recentEvent: detected.length > 0,
+      eventType: eventType ?? previous.signals?.eventType,
+      eventDate: detected.length > 0 ? now : previous.signals?.eventDate,
+    },
+    detected,
+  };
+}
+
+// ============================================
+// COMPETITOR RESEARCH
+// ============================================
+
+/**
+ * Profile each competitor (by domain when given one) and resolve prospects
+ * at companies that list the competitor's product in their tech stack
+ */
+export async function runCompetitorResearch(
+  job: ResearchJob,
+  context: ResearchProcessorContext,
+  updateProgress: UpdateProgress
+): Promise<ResultSummary> {
+  const competitors = job.searchParams.competitors ?? [];
+  if (competitors.length === 0) {
+    throw new Error('competitor_research job has no competitors');
+  }
+
+  const apollo = context.apollo();
+  const perCompetitor = Math.ceil((job.searchParams.limit ?? DEFAULT_COMPETITOR_QUOTA * competitors.length) / competitors.length);
+  const progress = tracker(job, perCompetitor * competitors.length, updateProgress, 'successCount');
+  const exclude = excludedCompanies(job.searchParams.filters);
+
+  const profiles: NonNullable<ResultSummary['competitorProfiles']> = [];
+  const found: Record<string, number> = {};
+  const companies = new Set<string>();
+  let created = 0;
+  let merged = 0;
+  let queuedForReview = 0;
+
+  for (const [index, competitor] of competitors.entries()) {
+    progress.report(`Researching ${competitor} (${index + 1} of ${competitors.length})...`);
+
+    const domain = competitor.includes('.') ? normalizeDomain(competitor) : null;
+    let org: ApolloOrganization | null = null;
+    if (domain) {
+      try {
+        org = await apollo.enrichOrganizationByDomain(domain);
+      } catch (error) {
+        if (!(error instanceof ApolloApiError && error.statusCode === 404)) throw error;
+      }
+    }
+
+    const name = org?.name ?? competitor;
+    profiles.push({
+      name,
+      domain: org?.domain ?? domain ?? undefined,
+      industry: org?.industry,
+      employeeCount: org?.employee_count,
+      fundingStage: org?.funding_stage,
+      technologies: org?.technologies ?? [],
+    });
+    found[name] = 0;
+
+    const filters: ApolloSearchFilters = {
+      ...toApolloFilters(job.searchParams.filters ?? {}),
+      organization_technologies: [name],
+    };
+    await searchPages(apollo, filters, async (person, personOrg) => {
+      if (found[name] >= perCompetitor) return false;
+
+      // The competitor's own staff and excluded companies aren't targets
+      const ownStaff = !!personOrg && (personOrg.id === org?.id || (!!domain && sameDomain(personOrg.domain, domain)));
+      if (!personOrg || ownStaff || isExcluded(personOrg, exclude)) {
+        progress.skip();
+        return true;
+      }
+
+      const outcome = await context.resolver.ingest(job.createdBy, fromApolloPerson(person, personOrg, job.id));
+      if (outcome.action === 'created') created++;
+      else if (outcome.action === 'merged') merged++;
+      else queuedForReview++;
+
+      found[name]++;
+      companies.add(personOrg.id);
+      progress.success();
+      if (progress.successCount % PROGRESS_EVERY === 0) {
+        progress.report(`${name}: ${found[name]} prospects at companies using it`);
+      }
+      return true;
+    });
+  }
+
+  progress.done(`Researched ${competitors.length} competitors`);
+
+  return {
+    prospectsCreated: created,
+    prospectsMerged: merged,
+    queuedForReview,
+    companiesFound: companies.size,
+    signalsDetected: found,
+    competitorProfiles: profiles,
+  };
+}
+
+// ============================================
+// SHARED
+// ============================================
+
+/**
+ * Map research filters onto Apollo search filters
+ */
+export function toApolloFilters(filters: ResearchFilters): ApolloSearchFilters {
+  return {
+    organization_industries: filters.industries,
+    organization_size: filters.companySize,
+    person_titles: filters.jobTitles,
+    organization_technologies: filters.technologies,
+    organization_funding_stages: filters.fundingStage,
+    person_locations: filters.locations,
+  };
+}
+
+/**
+ * Counts behind a job's JobProgress updates. Quota-driven jobs measure
+ * completion by successes rather than candidates processed.
+ */
+function tracker(
+  job: ResearchJob,
+  total: number,
+  updateProgress: UpdateProgress,
+  basis: 'processed' | 'successCount' = 'processed'
+) {
+  const state = {
+    processed: 0,
+    successCount: 0,
+    errorCount: 0,
+    skipCount: 0,
+    success() { state.processed++; state.successCount++; },
+    skip() { state.processed++; state.skipCount++; },
+    fail() { state.processed++; state.errorCount++; },
+    report(message: string, percentage?: number) {
+      updateProgress({
+        jobId: job.id,
+        status: 'running',
+        percentage: percentage ?? Math.min(99, Math.round((state[basis] / Math.max(total, 1)) * 100)),
+        processed: state.processed,
+        total,
+        successCount: state.successCount,
+        errorCount: state.errorCount,
+        skipCount: state.skipCount,
+        message,
+      });
+    },
+    done(message: string) {
+      state.report(message, 100);
+    },
+  };
+  return state;
+}
+
+async function* eachProspect(
+  store: ResearchProspectStore,
+  job: ResearchJob,
+  limit: number
+): AsyncGenerator<ResearchProspect> {
+  let after: string | undefined;
+  let yielded = 0;
+  while (yielded < limit) {
+    const page = await store.listProspects(job.createdBy, {
+      after,
+      limit: Math.min(PROSPECT_PAGE_SIZE, limit - yielded),
+      sourceJobId: job.searchParams.sourceJobId,
+    });
+    for (const prospect of page) yield prospect;
+    yielded += page.length;
+    if (page.length === 0) return;
+    after = page[page.length - 1].id;
+  }
+}
+
+/**
+ * The job's prospects (up to searchParams.limit) grouped by company domain
+ */
+async function prospectsByDomain(store: ResearchProspectStore, job: ResearchJob): Promise<Map<string, ResearchProspect[]>> {
+  const byDomain = new Map<string, ResearchProspect[]>();
+  for await (const prospect of eachProspect(store, job, job.searchParams.limit ?? Infinity)) {
+    const domain = companyDomain(prospect);
+    if (domain) byDomain.set(domain, [...(byDomain.get(domain) ?? []), prospect]);
+  }
+  return byDomain;
+}
+
+/**
+ * Walk Apollo search pages until the visitor returns false or results run out
+ */
+async function searchPages(
+  apollo: ApolloApi,
+  filters: ApolloSearchFilters,
+  visit: (person: ApolloPerson, org: ApolloOrganization | undefined) => Promise<boolean>
+): Promise<void> {
+  for (let page = 1; page <= MAX_SEARCH_PAGES; page++) {
+    const result = await apollo.searchProspects({ ...filters, page, per_page: SEARCH_PAGE_SIZE });
+
+    for (const person of result.people ?? []) {
+      const org = person.organization ?? result.organizations?.find(o => sameDomain(o.domain, employerDomain(person.email ?? person.work_email)));
+      if (!(await visit(person, org))) return;
+    }
+    if (page >= (result.pagination?.total_pages ?? 0)) return;
+  }
+}
+
+function icpFor(filters: ResearchFilters, overrides: Partial<ICPProfile> = {}): ICPProfile {
+  return {
+    targetIndustries: filters.industries ?? [],
+    targetSize: filters.companySize ?? [],
+    targetTitles: filters.jobTitles ?? [],
+    targetDepartments: [],
+    targetSeniorities: [],
+    targetFundingStages: filters.fundingStage,
+    targetLocations: filters.locations,
+    niceToHaveTech: filters.technologies,
+    excludeIndustries: [],
+    ...overrides,
+  };
+}
+
+function toProspectData(person: ApolloPerson, org: ApolloOrganization): ProspectData {
+  return {
+    companyName: org.name,
+    industry: org.industry,
+    size: org.size,
+    fundingStage: org.funding_stage,
+    location: [org.location?.city, org.location?.state].filter(Boolean).join(', ') || undefined,
+    techStack: org.technologies ?? [],
+    contactTitle: person.title,
+    department: person.department,
+    seniority: person.seniority,
+    email: person.email ?? person.work_email,
+    signals: detectSignals(person, org),
+  };
+}
+
+function companyFields(org: ApolloOrganization): ProspectFields {
+  return {
+    company_name: org.name,
+    company_domain: org.domain,
+    company_website: org.website_url,
+    company_linkedin_url: org.linkedin_url,
+    company_industry: org.industry,
+    company_size: org.size,
+    company_location: [org.location?.city, org.location?.state, org.location?.country].filter(Boolean).join(', ') || undefined,
+  };
+}
+
+function companyDomain(prospect: ResearchProspect): string | null {
+  const { fields } = prospect;
+  return normalizeDomain(fields.company_domain) ?? normalizeDomain(fields.company_website) ?? employerDomain(fields.person_email);
+}
+
+function excludedCompanies(filters: ResearchFilters | undefined): Set<string> {
+  return new Set((filters?.excludeCompanies ?? []).map(c => normalizeDomain(c) ?? c.trim().toLowerCase()));
+}
+
+function isExcluded(org: ApolloOrganization, exclude: Set<string>): boolean {
+  if (exclude.size === 0) return false;
+  const domain = normalizeDomain(org.domain);
+  return exclude.has(org.name.trim().toLowerCase()) || (!!domain && exclude.has(domain));
+}
+
+function sameDomain(a: string | null | undefined, b: string | null | undefined): boolean {
+  const left = normalizeDomain(a);
+  return !!left && left === normalizeDomain(b);
+}
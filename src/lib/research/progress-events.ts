@@ -0,0 +1,429 @@
+/**
+ * Research Job Progress Events
+ * Push channel for job progress and status changes
+ *
+ * - Postgres: events are stored in research_job_events and announced with
+ *   NOTIFY; each process holds one LISTEN connection and fans events out
+ * - In memory (demo mode, no DATABASE_URL): an in-process bus that keeps
+ *   the last REPLAY_LIMIT events per user
+ * - Event ids increase per user, so a client reconnecting with
+ *   Last-Event-ID gets the events it missed
+ * - Streams are SSE in the lib/sse/parse-sse format (event/id/data frames)
+ */
+
+import type { JobStatus } from './job-queue';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type JobEventType = 'progress' | 'status';
+
+export interface JobEvent {
+  /** Resume cursor, sent as the SSE id */
+  id: string;
+  type: JobEventType;
+  jobId: string;
+  userId: string;
+  status: JobStatus;
+  percentage?: number;
+  processed?: number;
+  total?: number;
+  successCount?: number;
+  errorCount?: number;
+  skipCount?: number;
+  message?: string;
+  /** ISO timestamp */
+  at: string;
+}
+
+export type JobEventInput = Omit<JobEvent, 'id' | 'at'>;
+
+export interface JobEventBus {
+  publish(event: JobEventInput): Promise<JobEvent>;
+  /** Live events for one user; returns an unsubscribe function */
+  subscribe(userId: string, listener: (event: JobEvent) => void): () => void;
+  /** A user's events after `lastEventId`, oldest first (at most REPLAY_LIMIT) */
+  eventsSince(userId: string, lastEventId: string): Promise<JobEvent[]>;
+  close(): Promise<void>;
+}
+
+/** The parts of a pg Pool the Postgres bus uses */
+export interface EventDatabase {
+  query(text: string, params?: unknown[]): Promise<{ rows: unknown[] }>;
+  connect(): Promise<EventListenClient>;
+  end?(): Promise<void>;
+}
+
+/** A NOTIFY message as pg delivers it */
+export interface EventNotification {
+  channel: string;
+  payload?: string;
+}
+
+export interface EventListenClient {
+  query(text: string): Promise<unknown>;
+  on(event: 'notification', listener: (message: EventNotification) => void): unknown;
+  on(event: 'error', listener: (error: Error) => void): unknown;
+  release(destroy?: boolean): void;
+}
+
+export interface JobEventStreamOptions {
+  userId: string;
+  /** Only this job's events (default: all of the user's jobs) */
+  jobId?: string;
+  /** From the Last-Event-ID header; missed events are replayed first */
+  lastEventId?: string | null;
+  /** Frames sent on a fresh connection (no lastEventId), e.g. current progress */
+  snapshot?: () => Promise<Array<{ event: string; data: unknown }>>;
+  /** Closes the stream (the request's signal) */
+  signal?: AbortSignal;
+  heartbeatMs?: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const JOB_EVENTS_CHANNEL = 'research_job_events';
+
+/** Events replayed per reconnect */
+export const REPLAY_LIMIT = 500;
+
+const MAX_MESSAGE_LENGTH = 500;
+const HEARTBEAT_MS = 15000;
+/** Client reconnect delay sent as the SSE retry field */
+const RETRY_MS = 3000;
+const RELISTEN_DELAY_MS = 1000;
+/** Postgres publishes between prunes of day-old events */
+const PRUNE_EVERY = 1000;
+
+// ============================================
+// IN-MEMORY BUS
+// ============================================
+
+/**
+ * Per-user listener sets shared by both buses
+ */
+class Listeners {
+  private byUser = new Map<string, Set<(event: JobEvent) => void>>();
+
+  get size(): number {
+    return this.byUser.size;
+  }
+
+  add(userId: string, listener: (event: JobEvent) => void): () => void {
+    const listeners = this.byUser.get(userId) ?? new Set();
+    listeners.add(listener);
+    this.byUser.set(userId, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) this.byUser.delete(userId);
+    };
+  }
+
+  emit(event: JobEvent): void {
+    this.byUser.get(event.userId)?.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Job event listener failed:', error);
+      }
+    });
+  }
+}
+
+/** In-process bus (demo mode and tests) */
+export class InMemoryJobEventBus implements JobEventBus {
+  private listeners = new Listeners();
+  private history = new Map<string, JobEvent[]>();
+  // Seeded from the clock so ids keep increasing across restarts and a
+  // client's Last-Event-ID never hides new events
+  private lastId = Date.now();
+
+  async publish(input: JobEventInput): Promise<JobEvent> {
+    const event: JobEvent = {
+      ...input,
+      message: truncate(input.message),
+      id: String(++this.lastId),
+      at: new Date().toISOString(),
+    };
+
+    const history = this.history.get(event.userId) ?? [];
+    history.push(event);
+    if (history.length > REPLAY_LIMIT) history.splice(0, history.length - REPLAY_LIMIT);
+    this.history.set(event.userId, history);
+
+    this.listeners.emit(event);
+    return event;
+  }
+
+  subscribe(userId: string, listener: (event: JobEvent) => void): () => void {
+    return this.listeners.add(userId, listener);
+  }
+
+  async eventsSince(userId: string, lastEventId: string): Promise<JobEvent[]> {
+    const after = parseEventId(lastEventId);
+    if (after === null) return [];
+    return (this.history.get(userId) ?? []).filter(event => Number(event.id) > after);
+  }
+
+  async close(): Promise<void> {
+    this.history.clear();
+  }
+}
+
+// ============================================
+// POSTGRES BUS
+// ============================================
+
+type JobEventRow = {
+  id: string | number;
+  job_id: string;
+  user_id: string;
+  type: JobEventType;
+  payload: Omit<JobEvent, 'id' | 'jobId' | 'userId' | 'type' | 'at'>;
+  created_at: string;
+};
+
+/**
+ * Stores events in research_job_events and NOTIFYs them in the same
+ * statement; subscribers share one LISTEN connection
+ */
+export class PostgresJobEventBus implements JobEventBus {
+  private listeners = new Listeners();
+  private listening: Promise<EventListenClient> | null = null;
+  private closed = false;
+  private published = 0;
+
+  constructor(private db: EventDatabase, private options: { ownsDb?: boolean } = {}) {}
+
+  async publish(input: JobEventInput): Promise<JobEvent> {
+    const { jobId, userId, type, ...payload } = input;
+    const result = await this.db.query(
+      `WITH event AS (
+         INSERT INTO research_job_events (job_id, user_id, type, payload)
+         VALUES ($1, $2, $3, $4)
+         RETURNING id, job_id, user_id, type, payload, created_at
+       )
+       SELECT event.*, pg_notify('${JOB_EVENTS_CHANNEL}', row_to_json(event)::text)
+       FROM event`,
+      [jobId, userId, type, JSON.stringify({ ...payload, message: truncate(payload.message) })]
+    );
+
+    if (++this.published % PRUNE_EVERY === 0) {
+      this.db.query('SELECT prune_research_job_events()').catch(error => {
+        console.error('Failed to prune job events:', error);
+      });
+    }
+    return rowToEvent(result.rows[0] as JobEventRow);
+  }
+
+  subscribe(userId: string, listener: (event: JobEvent) => void): () => void {
+    const unsubscribe = this.listeners.add(userId, listener);
+    this.listen();
+    return unsubscribe;
+  }
+
+  async eventsSince(userId: string, lastEventId: string): Promise<JobEvent[]> {
+    const after = parseEventId(lastEventId);
+    if (after === null) return [];
+
+    const result = await this.db.query(
+      `SELECT id, job_id, user_id, type, payload, created_at
+       FROM research_job_events
+       WHERE user_id = $1 AND id > $2
+       ORDER BY id ASC
+       LIMIT $3`,
+      [userId, after, REPLAY_LIMIT]
+    );
+    return (result.rows as JobEventRow[]).map(rowToEvent);
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    const listening = this.listening;
+    this.listening = null;
+    if (listening) {
+      (await listening.catch(() => null))?.release();
+    }
+    if (this.options.ownsDb) await this.db.end?.();
+  }
+
+  /**
+   * Open the LISTEN connection if it isn't open; a dropped connection is
+   * reopened while anyone is subscribed
+   */
+  private listen(): void {
+    if (this.listening || this.closed) return;
+
+    const listening = this.db.connect().then(async client => {
+      client.on('notification', message => {
+        if (message.channel !== JOB_EVENTS_CHANNEL || !message.payload) return;
+        try {
+          this.listeners.emit(rowToEvent(JSON.parse(message.payload) as JobEventRow));
+        } catch (error) {
+          console.error('Invalid job event notification:', error);
+        }
+      });
+      client.on('error', error => {
+        console.error('Job event LISTEN connection failed:', error);
+        client.release(true);
+        this.relisten(listening);
+      });
+      await client.query(`LISTEN ${JOB_EVENTS_CHANNEL}`);
+      return client;
+    });
+
+    listening.catch(error => {
+      console.error('Failed to LISTEN for job events:', error);
+      this.relisten(listening);
+    });
+    this.listening = listening;
+  }
+
+  private relisten(failed: Promise<EventListenClient>): void {
+    if (this.listening !== failed) return;
+    this.listening = null;
+    setTimeout(() => {
+      if (this.listeners.size > 0) this.listen();
+    }, RELISTEN_DELAY_MS);
+  }
+}
+
+// ============================================
+// SSE
+// ============================================
+
+/**
+ * One SSE frame: `event:`, optional `id:` and a JSON `data:` line
+ */
+export function sseFrame(event: string, data: unknown, id?: string): string {
+  return `event: ${event}\n${id ? `id: ${id}\n` : ''}data: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * SSE stream of a user's job events (optionally one job). Missed events
+ * are replayed from lastEventId before live ones; live events that arrive
+ * during the replay are held back and de-duplicated by id.
+ */
+export function createJobEventStream(bus: JobEventBus, options: JobEventStreamOptions): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      let replaying = true;
+      let lastId = parseEventId(options.lastEventId) ?? 0;
+      const held: JobEvent[] = [];
+
+      const send = (text: string) => {
+        if (!closed) controller.enqueue(encoder.encode(text));
+      };
+      const deliver = (event: JobEvent) => {
+        if (Number(event.id) <= lastId || (options.jobId && event.jobId !== options.jobId)) return;
+        lastId = Number(event.id);
+        send(sseFrame(event.type, event, event.id));
+      };
+
+      const unsubscribe = bus.subscribe(options.userId, event => {
+        if (replaying) held.push(event);
+        else deliver(event);
+      });
+      const heartbeat = setInterval(() => send(': ping\n\n'), options.heartbeatMs ?? HEARTBEAT_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      if (options.signal?.aborted) return cleanup();
+      options.signal?.addEventListener('abort', cleanup, { once: true });
+
+      send(`retry: ${RETRY_MS}\n\n`);
+      try {
+        if (options.lastEventId) {
+          (await bus.eventsSince(options.userId, options.lastEventId)).forEach(deliver);
+        } else if (options.snapshot) {
+          for (const frame of await options.snapshot()) send(sseFrame(frame.event, frame.data));
+        }
+      } catch (error) {
+        console.error('Failed to replay job events:', error);
+        send(sseFrame('error', { message: 'Failed to replay job events' }));
+      }
+
+      replaying = false;
+      held.splice(0).forEach(deliver);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+}
+
+// ============================================
+// SINGLETON
+// ============================================
+
+let busInstance: JobEventBus | null = null;
+
+/**
+ * Shared bus: Postgres when DATABASE_URL is set (or RESEARCH_EVENTS=postgres),
+ * otherwise in memory
+ */
+export function getJobEventBus(): JobEventBus {
+  if (!busInstance) {
+    const envBackend = process.env.RESEARCH_EVENTS;
+    const backend = envBackend === 'memory' || envBackend === 'postgres'
+      ? envBackend
+      : process.env.DATABASE_URL ? 'postgres' : 'memory';
+
+    if (backend === 'postgres') {
+      if (!process.env.DATABASE_URL) {
+        throw new Error('DATABASE_URL is required for postgres research job events');
+      }
+      // Dynamic import to avoid loading pg for the in-memory bus
+      const { Pool } = require('pg') as typeof import('pg');
+      busInstance = new PostgresJobEventBus(new Pool({ connectionString: process.env.DATABASE_URL }), { ownsDb: true });
+    } else {
+      busInstance = new InMemoryJobEventBus();
+    }
+  }
+  return busInstance;
+}
+
+export async function resetJobEventBus(): Promise<void> {
+  await busInstance?.close();
+  busInstance = null;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function parseEventId(id: string | null | undefined): number | null {
+  return id && /^\d+$/.test(id.trim()) ? Number(id.trim()) : null;
+}
+
+function truncate(message: string | undefined): string | undefined {
+  return message && message.length > MAX_MESSAGE_LENGTH ? `${message.slice(0, MAX_MESSAGE_LENGTH - 1)}…` : message;
+}
+
+function rowToEvent(row: JobEventRow): JobEvent {
+  return {
+    ...row.payload,
+    id: String(row.id),
+    type: row.type,
+    jobId: row.job_id,
+    userId: row.user_id,
+    at: new Date(row.created_at).toISOString(),
+  };
+}
@@ -0,0 +1,254 @@
+/**
+ * Research Prospect Store
+ * Prospect reads and writes for the research pipelines
+ *
+ * - Pages through a user's prospects in id order, optionally only those a
+ *   given research job created
+ * - Updates cleansed fields, email verification and company signals
+ * - Saves list_building membership per job
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PROSPECT_FIELDS, type ProspectFields } from '../identity/matching';
+import type { QualityGrade, QualitySignals } from '../scoring/prospect-quality';
+import type { EmailStatus } from './cleansing';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ResearchProspect {
+  id: string;
+  userId: string;
+  /** Research job that created the prospect */
+  sourceJobId: string | null;
+  fields: ProspectFields;
+  technologies: string[];
+  companyEmployeeCount: number | null;
+  companyFundingStage: string | null;
+  /** prospects.intent_signals, as of the last signal scan */
+  signals: QualitySignals | null;
+  emailStatus: EmailStatus | null;
+  signalsCheckedAt: string | null;
+}
+
+/** Changed values only; `fields` entries overwrite, others are left alone */
+export type ResearchProspectPatch = Partial<Omit<ResearchProspect, 'id' | 'userId' | 'sourceJobId' | 'fields'>> & {
+  fields?: ProspectFields;
+};
+
+/** One prospect on a list_building job's list */
+export interface ListMember {
+  prospectId: string;
+  segment: string;
+  grade: QualityGrade;
+  score: number;
+  /** 1-based position across the whole list */
+  rank: number;
+}
+
+export interface ProspectScope {
+  /** Only prospects created by this research job */
+  sourceJobId?: string;
+}
+
+export interface ResearchProspectStore {
+  countProspects(userId: string, scope?: ProspectScope): Promise<number>;
+  /** A user's prospects in id order, starting after `after` */
+  listProspects(userId: string, page: ProspectScope & { after?: string; limit: number }): Promise<ResearchProspect[]>;
+  updateProspect(id: string, patch: ResearchProspectPatch): Promise<void>;
+  /** Replaces the job's list */
+  saveListMembers(jobId: string, members: ListMember[]): Promise<void>;
+}
+
+// ============================================
+// PERSISTENCE
+// ============================================
+
+/** In-memory store (tests and local runs) */
+export class InMemoryResearchProspectStore implements ResearchProspectStore {
+  private prospects = new Map<string, ResearchProspect>();
+  private lists = new Map<string, ListMember[]>();
+
+  /**
+   * Seed a prospect; unset values default to empty
+   */
+  add(prospect: Pick<ResearchProspect, 'id' | 'userId' | 'fields'> & Partial<ResearchProspect>): ResearchProspect {
+    const row: ResearchProspect = {
+      sourceJobId: null,
+      technologies: [],
+      companyEmployeeCount: null,
+      companyFundingStage: null,
+      signals: null,
+      emailStatus: null,
+      signalsCheckedAt: null,
+      ...structuredClone(prospect),
+    };
+    this.prospects.set(row.id, row);
+    return structuredClone(row);
+  }
+
+  get(id: string): ResearchProspect | null {
+    const prospect = this.prospects.get(id);
+    return prospect ? structuredClone(prospect) : null;
+  }
+
+  getList(jobId: string): ListMember[] {
+    return structuredClone(this.lists.get(jobId) ?? []);
+  }
+
+  async countProspects(userId: string, scope: ProspectScope = {}): Promise<number> {
+    return this.forUser(userId, scope).length;
+  }
+
+  async listProspects(userId: string, page: ProspectScope & { after?: string; limit: number }): Promise<ResearchProspect[]> {
+    return this.forUser(userId, page)
+      .filter(p => !page.after || p.id > page.after)
+      .slice(0, page.limit)
+      .map(p => structuredClone(p));
+  }
+
+  async updateProspect(id: string, patch: ResearchProspectPatch): Promise<void> {
+    const row = this.prospects.get(id);
+    if (!row) throw new Error(`Prospect ${id} not found`);
+    const { fields, ...rest } = structuredClone(patch);
+    this.prospects.set(id, { ...row, ...rest, fields: { ...row.fields, ...fields } });
+  }
+
+  async saveListMembers(jobId: string, members: ListMember[]): Promise<void> {
+    this.lists.set(jobId, structuredClone(members));
+  }
+
+  private forUser(userId: string, scope: ProspectScope): ResearchProspect[] {
+    return Array.from(this.prospects.values())
+      .filter(p => p.userId === userId && (!scope.sourceJobId || p.sourceJobId === scope.sourceJobId))
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  }
+}
+
+const RESEARCH_COLUMNS = [
+  'id',
+  'user_id',
+  'source_job_id',
+  'technologies',
+  'company_employee_count',
+  'company_funding_stage',
+  'intent_signals',
+  'email_status',
+  'signals_checked_at',
+  ...PROSPECT_FIELDS,
+].join(', ');
+
+type ResearchProspectRow = Record<string, unknown> & {
+  id: string;
+  user_id: string;
+  source_job_id: string | null;
+  technologies: string[] | null;
+  company_employee_count: number | null;
+  company_funding_stage: string | null;
+  intent_signals: Partial<QualitySignals> | null;
+  email_status: EmailStatus | null;
+  signals_checked_at: string | null;
+};
+
+const LIST_MEMBER_BATCH = 500;
+
+/**
+ * Reads and writes prospects and research_list_members in Supabase
+ */
+export class SupabaseResearchProspectStore implements ResearchProspectStore {
+  constructor(private client: SupabaseClient) {}
+
+  async countProspects(userId: string, scope: ProspectScope = {}): Promise<number> {
+    let query = this.client
+      .from('prospects')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId);
+    if (scope.sourceJobId) query = query.eq('source_job_id', scope.sourceJobId);
+
+    const { count, error } = await query;
+    if (error) throw error;
+    return count ?? 0;
+  }
+
+  async listProspects(userId: string, page: ProspectScope & { after?: string; limit: number }): Promise<ResearchProspect[]> {
+    let query = this.client
+      .from('prospects')
+      .select(RESEARCH_COLUMNS)
+      .eq('user_id', userId)
+      .order('id', { ascending: true })
+      .limit(page.limit);
+    if (page.after) query = query.gt('id', page.after);
+    if (page.sourceJobId) query = query.eq('source_job_id', page.sourceJobId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return ((data ?? []) as unknown as ResearchProspectRow[]).map(rowToResearchProspect);
+  }
+
+  async updateProspect(id: string, patch: ResearchProspectPatch): Promise<void> {
+    const columns: Record<string, unknown> = { ...patch.fields };
+    if (patch.technologies !== undefined) columns.technologies = patch.technologies;
+    if (patch.companyEmployeeCount !== undefined) columns.company_employee_count = patch.companyEmployeeCount;
+    if (patch.companyFundingStage !== undefined) columns.company_funding_stage = patch.companyFundingStage;
+    if (patch.signals !== undefined) columns.intent_signals = patch.signals ?? {};
+    if (patch.emailStatus !== undefined) {
+      columns.email_status = patch.emailStatus;
+      columns.is_email_verified = patch.emailStatus === 'valid';
+    }
+    if (patch.signalsCheckedAt !== undefined) columns.signals_checked_at = patch.signalsCheckedAt;
+
+    const { error } = await this.client
+      .from('prospects')
+      .update({ ...columns, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async saveListMembers(jobId: string, members: ListMember[]): Promise<void> {
+    const { error: deleteError } = await this.client.from('research_list_members').delete().eq('job_id', jobId);
+    if (deleteError) throw deleteError;
+
+    for (let i = 0; i < members.length; i += LIST_MEMBER_BATCH) {
+      const { error } = await this.client.from('research_list_members').insert(
+        members.slice(i, i + LIST_MEMBER_BATCH).map(m => ({
+          job_id: jobId,
+          prospect_id: m.prospectId,
+          segment: m.segment,
+          quality_grade: m.grade,
+          quality_score: m.score,
+          rank: m.rank,
+        }))
+      );
+      if (error) throw error;
+    }
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function rowToResearchProspect(row: ResearchProspectRow): ResearchProspect {
+  const fields: ProspectFields = {};
+  for (const field of PROSPECT_FIELDS) {
+    const value = row[field];
+    if (typeof value === 'string' && value) fields[field] = value;
+  }
+
+  // Rows never scanned hold the column default ({}) or free-form intent data
+  const signals = Array.isArray(row.intent_signals?.techStackMatch) ? (row.intent_signals as QualitySignals) : null;
+  return {
+    id: row.id,
+    userId: row.user_id,
+    sourceJobId: row.source_job_id,
+    fields,
+    technologies: row.technologies ?? [],
+    companyEmployeeCount: row.company_employee_count,
+    companyFundingStage: row.company_funding_stage,
+    signals,
+    emailStatus: row.email_status,
+    signalsCheckedAt: row.signals_checked_at,
+  };
+}
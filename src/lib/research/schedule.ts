@@ -0,0 +1,319 @@
+/**
+ * Research Job Scheduling
+ * Cron schedules for recurring jobs and the claim order for chained jobs
+ *
+ * - Five-field cron expressions (minute hour day-of-month month day-of-week)
+ *   with lists, ranges, steps, month/day names and @daily-style aliases
+ * - Next run times in any IANA timezone; wall-clock times skipped by a DST
+ *   change are skipped for that day
+ * - Claim selection: oldest job whose parent has completed and whose owner
+ *   is under the per-user concurrency limit
+ */
+
+import type { JobStatus, ResearchJob } from './job-queue';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface JobSchedule {
+  /** e.g. "0 9 * * mon" for every Monday at 09:00 */
+  cron: string;
+  /** IANA timezone the cron fields are read in (default UTC) */
+  timezone?: string;
+}
+
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 = Sunday */
+  daysOfWeek: Set<number>;
+  /** Day of month or day of week is `*`; when both are restricted either may match */
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+/** Whether a job's parent lets it run */
+export type DependencyState = 'ready' | 'waiting' | 'blocked';
+
+export interface ClaimOptions {
+  /** Status of each candidate's parent job, by parent id */
+  parentStatuses: Map<string, JobStatus>;
+  /** Running jobs per owner (created_by) */
+  runningByUser: Map<string, number>;
+  maxJobsPerUser: number;
+}
+
+export interface ClaimSelection<T> {
+  job: T | null;
+  /** Candidates whose parent failed or was cancelled; they can never run */
+  blocked: T[];
+}
+
+// ============================================
+// ERRORS
+// ============================================
+
+export class ScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScheduleError';
+  }
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const ALIASES: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const FIELDS: Array<{ name: string; min: number; max: number; names?: string[]; nameOffset?: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+/** Give up looking for a next run after this long (e.g. "0 0 31 2 *") */
+const MAX_LOOKAHEAD_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+
+// ============================================
+// CRON
+// ============================================
+
+/**
+ * Parse a five-field cron expression or alias
+ */
+export function parseCron(expression: string): CronExpression {
+  const source = ALIASES[expression.trim().toLowerCase()] ?? expression.trim();
+  const parts = source.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new ScheduleError(`Cron expression "${expression}" must have 5 fields, got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i], expression));
+
+  // 7 is Sunday too
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === '*' || parts[2] === '?',
+    anyDayOfWeek: parts[4] === '*' || parts[4] === '?',
+  };
+}
+
+/**
+ * First run strictly after `after`, in the schedule's timezone
+ */
+export function nextRunAt(schedule: JobSchedule, after: Date = new Date()): Date {
+  const cron = parseCron(schedule.cron);
+  const clock = wallClock(schedule.timezone ?? 'UTC');
+  const limit = after.getTime() + MAX_LOOKAHEAD_MS;
+
+  let time = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  while (time <= limit) {
+    const now = clock(time);
+
+    if (!matchesDay(cron, now)) {
+      time += ((24 - now.hour) * 60 - now.minute) * MINUTE_MS;
+      continue;
+    }
+
+    const hour = firstAtOrAfter(cron.hours, now.hour);
+    if (hour === null) {
+      time += ((24 - now.hour) * 60 - now.minute) * MINUTE_MS;
+      continue;
+    }
+    if (hour !== now.hour) {
+      time += ((hour - now.hour) * 60 - now.minute) * MINUTE_MS;
+      continue;
+    }
+
+    const minute = firstAtOrAfter(cron.minutes, now.minute);
+    if (minute === null) {
+      time += (60 - now.minute) * MINUTE_MS;
+      continue;
+    }
+    return new Date(time + (minute - now.minute) * MINUTE_MS);
+  }
+
+  throw new ScheduleError(`Cron expression "${schedule.cron}" has no run in the next 5 years`);
+}
+
+/**
+ * Throws ScheduleError unless the cron expression and timezone are usable
+ */
+export function validateSchedule(schedule: JobSchedule): void {
+  parseCron(schedule.cron);
+  wallClock(schedule.timezone ?? 'UTC');
+}
+
+// ============================================
+// CLAIM ORDER
+// ============================================
+
+/**
+ * A chained job can run once its parent completes; a failed or cancelled
+ * parent blocks it for good. Jobs without a parent (or whose parent row is
+ * gone) are ready.
+ */
+export function dependencyState(job: Pick<ResearchJob, 'parentJobId'>, parentStatuses: Map<string, JobStatus>): DependencyState {
+  if (!job.parentJobId) return 'ready';
+  const parent = parentStatuses.get(job.parentJobId);
+  if (!parent || parent === 'completed') return 'ready';
+  if (parent === 'failed' || parent === 'cancelled') return 'blocked';
+  return 'waiting';
+}
+
+/**
+ * Pick the first candidate (callers pass them oldest first) that is ready
+ * and whose owner has a free slot
+ */
+export function pickClaimableJob<T extends Pick<ResearchJob, 'parentJobId' | 'createdBy'>>(
+  candidates: T[],
+  options: ClaimOptions
+): ClaimSelection<T> {
+  const blocked: T[] = [];
+  let job: T | null = null;
+
+  for (const candidate of candidates) {
+    const state = dependencyState(candidate, options.parentStatuses);
+    if (state === 'blocked') blocked.push(candidate);
+    if (job || state !== 'ready') continue;
+    if ((options.runningByUser.get(candidate.createdBy) ?? 0) >= options.maxJobsPerUser) continue;
+    job = candidate;
+  }
+
+  return { job, blocked };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function parseField(
+  part: string,
+  field: (typeof FIELDS)[number],
+  expression: string
+): Set<number> {
+  const values = new Set<number>();
+  const invalid = (detail: string) =>
+    new ScheduleError(`Invalid ${field.name} "${part}" in cron expression "${expression}": ${detail}`);
+
+  for (const item of part.toLowerCase().split(',')) {
+    const [range, stepText] = item.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw invalid('step must be a positive integer');
+
+    let start: number;
+    let end: number;
+    if (range === '*' || range === '?') {
+      start = field.min;
+      end = field.max;
+    } else {
+      const [low, high] = range.split('-');
+      start = fieldValue(low, field);
+      // "5/15" runs from 5 to the end of the range
+      end = high !== undefined ? fieldValue(high, field) : stepText !== undefined ? field.max : start;
+    }
+
+    if (Number.isNaN(start) || Number.isNaN(end)) throw invalid('not a number or name');
+    if (start < field.min || end > field.max || start > end) {
+      throw invalid(`must be within ${field.min}-${field.max}`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+}
+
+function fieldValue(text: string, field: (typeof FIELDS)[number]): number {
+  const named = field.names?.indexOf(text) ?? -1;
+  if (named >= 0) return named + (field.nameOffset ?? 0);
+  return /^\d+$/.test(text) ? Number(text) : NaN;
+}
+
+interface WallTime {
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+const clocks = new Map<string, (time: number) => WallTime>();
+
+/**
+ * Wall-clock reader for a timezone (formatters are cached)
+ */
+function wallClock(timeZone: string): (time: number) => WallTime {
+  let clock = clocks.get(timeZone);
+  if (clock) return clock;
+
+  let format: Intl.DateTimeFormat;
+  try {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+  } catch {
+    throw new ScheduleError(`Unknown timezone "${timeZone}"`);
+  }
+
+  clock = (time: number) => {
+    const parts: Record<string, string> = {};
+    for (const part of format.formatToParts(new Date(time))) parts[part.type] = part.value;
+    return {
+      month: Number(parts.month),
+      day: Number(parts.day),
+      weekday: DAY_NAMES.indexOf(parts.weekday.slice(0, 3).toLowerCase()),
+      hour: Number(parts.hour),
+      minute: Number(parts.minute),
+    };
+  };
+  clocks.set(timeZone, clock);
+  return clock;
+}
+
+function matchesDay(cron: CronExpression, now: WallTime): boolean {
+  if (!cron.months.has(now.month)) return false;
+  const dayOfMonth = cron.daysOfMonth.has(now.day);
+  const dayOfWeek = cron.daysOfWeek.has(now.weekday);
+  if (cron.anyDayOfMonth) return dayOfWeek;
+  if (cron.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+function firstAtOrAfter(values: Set<number>, from: number): number | null {
+  let best: number | null = null;
+  for (const value of values) {
+    if (value >= from && (best === null || value < best)) best = value;
+  }
+  return best;
+}
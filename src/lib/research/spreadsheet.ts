@@ -0,0 +1,369 @@
+/**
+ * Spreadsheet Reading
+ * Row-by-row readers for prospect import files
+ *
+ * - CSV is parsed incrementally from a byte stream (quoted fields, escaped
+ *   quotes, CRLF, BOM and comma / semicolon / tab delimiters)
+ * - XLSX is read in memory: only the parts for the first worksheet are
+ *   inflated (each capped in size), resolving shared and inline strings
+ * - Rows keep their position: blank lines come through as empty rows so
+ *   row numbers match the file
+ */
+
+import { inflateRawSync } from 'zlib';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+/** Chunks as they arrive from an upload or storage download */
+export type ByteSource = AsyncIterable<Uint8Array | string> | ReadableStream<Uint8Array> | Uint8Array;
+
+const DELIMITERS = [',', ';', '\t'];
+
+/** Largest uncompressed XLSX part read (guards against zip bombs) */
+const MAX_XLSX_PART_BYTES = 50 * 1024 * 1024;
+
+// ============================================
+// FORMAT DETECTION
+// ============================================
+
+/**
+ * Format from the file name, falling back to the content type
+ */
+export function detectFormat(filename: string, contentType?: string | null): SpreadsheetFormat | null {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'csv' || extension === 'tsv' || extension === 'txt') return 'csv';
+  if (extension === 'xlsx') return 'xlsx';
+
+  if (contentType?.includes('spreadsheetml')) return 'xlsx';
+  if (contentType?.includes('csv') || contentType?.startsWith('text/')) return 'csv';
+  return null;
+}
+
+/**
+ * Rows of a CSV or XLSX file, header row first
+ */
+export async function* readRows(source: ByteSource, format: SpreadsheetFormat): AsyncGenerator<string[]> {
+  if (format === 'csv') {
+    yield* parseCsv(source);
+    return;
+  }
+
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of byteChunks(source)) {
+    chunks.push(typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk);
+  }
+  yield* readXlsx(Buffer.concat(chunks));
+}
+
+// ============================================
+// CSV
+// ============================================
+
+/**
+ * Parse CSV incrementally. The delimiter is detected from the first line
+ * unless given.
+ */
+export async function* parseCsv(source: ByteSource, options: { delimiter?: string } = {}): AsyncGenerator<string[]> {
+  const decoder = new TextDecoder('utf-8');
+  let delimiter = options.delimiter ?? null;
+  let pending = '';
+  let state: 'field' | 'quoted' | 'quote_in_quoted' = 'field';
+  let field = '';
+  let row: string[] = [];
+  let afterCR = false;
+  let started = false;
+
+  const rows: string[][] = [];
+  const consume = (text: string) => {
+    for (const ch of text) {
+      if (state === 'quoted') {
+        if (ch === '"') state = 'quote_in_quoted';
+        else field += ch;
+        continue;
+      }
+      if (state === 'quote_in_quoted') {
+        if (ch === '"') {
+          field += '"';
+          state = 'quoted';
+          continue;
+        }
+        state = 'field';
+      }
+
+      if (afterCR && ch === '\n') {
+        afterCR = false;
+        continue;
+      }
+      afterCR = false;
+
+      if (ch === '"' && field === '') {
+        state = 'quoted';
+      } else if (ch === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (ch === '\n' || ch === '\r') {
+        row.push(field);
+        rows.push(row);
+        field = '';
+        row = [];
+        afterCR = ch === '\r';
+      } else {
+        field += ch;
+      }
+    }
+  };
+
+  for await (const chunk of byteChunks(source)) {
+    let text = typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    if (!started) {
+      pending += text;
+      // Wait for a full first line before choosing the delimiter
+      if (!/[\r\n]/.test(pending)) continue;
+      text = startCsv();
+    }
+    consume(text);
+    yield* rows.splice(0);
+  }
+
+  const rest = decoder.decode();
+  consume(started ? rest : startCsv() + rest);
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  yield* rows.splice(0);
+
+  function startCsv(): string {
+    started = true;
+    const text = pending.replace(/^\uFEFF/, '');
+    pending = '';
+    delimiter ??= detectDelimiter(text.split(/\r?\n|\r/)[0]);
+    return text;
+  }
+}
+
+/**
+ * Serialize rows as CSV, quoting fields that need it. Strings that Excel or
+ * Sheets would run as a formula are prefixed with `'`.
+ */
+export function toCsv(rows: Array<Array<string | number | null | undefined>>): string {
+  return rows
+    .map(row => row
+      .map(value => {
+        let text = value === null || value === undefined ? '' : String(value);
+        if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+        return /[",\r\n]/.test(text) || /^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(','))
+    .join('\r\n');
+}
+
+/** Leading characters that make a spreadsheet cell a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function detectDelimiter(line: string): string {
+  const unquoted = line.replace(/"[^"]*"/g, '');
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of DELIMITERS) {
+    const count = unquoted.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// ============================================
+// XLSX
+// ============================================
+
+/**
+ * Rows of the first worksheet in an XLSX workbook
+ */
+export function* readXlsx(buffer: Uint8Array): Generator<string[]> {
+  const entries = zipEntries(buffer);
+  const text = (name: string) => {
+    const entry = entries.get(name);
+    return entry ? new TextDecoder('utf-8').decode(readZipEntry(buffer, entry)) : null;
+  };
+
+  const sheetPath = firstSheetPath(text('xl/workbook.xml'), text('xl/_rels/workbook.xml.rels'));
+  const sheet = text(sheetPath);
+  if (!sheet) throw new Error('Workbook has no worksheets');
+
+  const sharedStrings = Array.from(
+    (text('xl/sharedStrings.xml') ?? '').matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g),
+    match => textRuns(match[1])
+  );
+
+  let nextRow = 1;
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(attribute(rowMatch[1], 'r')) || nextRow;
+    // Keep row numbers aligned with the sheet
+    for (; nextRow < rowNumber; nextRow++) yield [];
+    nextRow = rowNumber + 1;
+
+    const row: string[] = [];
+    let nextColumn = 0;
+    for (const cell of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const ref = attribute(cell[1], 'r');
+      const column = ref ? columnIndex(ref) : nextColumn;
+      nextColumn = column + 1;
+      while (row.length < column) row.push('');
+      row[column] = cellValue(attribute(cell[1], 't'), cell[2] ?? '', sharedStrings);
+    }
+    yield row;
+  }
+}
+
+function firstSheetPath(workbook: string | null, rels: string | null): string {
+  const sheet = workbook?.match(/<sheet\b([^>]*?)\/?>/);
+  const relId = sheet ? attribute(sheet[1], 'r:id') : null;
+  const target = relId
+    ? Array.from((rels ?? '').matchAll(/<Relationship\b([^>]*?)\/?>/g))
+      .map(match => match[1])
+      .find(attrs => attribute(attrs, 'Id') === relId)
+    : undefined;
+  const path = target ? attribute(target, 'Target') : null;
+
+  if (!path) return 'xl/worksheets/sheet1.xml';
+  return path.startsWith('/') ? path.slice(1) : `xl/${path}`;
+}
+
+function cellValue(type: string | null, inner: string, sharedStrings: string[]): string {
+  if (type === 'inlineStr') return textRuns(inner);
+
+  const raw = inner.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+  if (raw === undefined) return '';
+  const value = decodeXml(raw);
+
+  if (type === 's') return sharedStrings[Number(value)] ?? '';
+  if (type === 'b') return value === '1' ? 'TRUE' : 'FALSE';
+  return value;
+}
+
+/** Concatenated <t> runs, so rich text reads as plain text */
+function textRuns(xml: string): string {
+  return Array.from(xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), match => decodeXml(match[1])).join('');
+}
+
+function columnIndex(ref: string): number {
+  let index = 0;
+  for (const ch of ref.replace(/\d+$/, '').toUpperCase()) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+function attribute(attrs: string, name: string): string | null {
+  const match = new RegExp(`(?:^|\\s)${name.replace(':', '\\:')}="([^"]*)"`).exec(attrs);
+  return match ? decodeXml(match[1]) : null;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localOffset: number;
+}
+
+/**
+ * Central directory of a ZIP archive by path; entries are only inflated
+ * when read
+ */
+function zipEntries(buffer: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const decoder = new TextDecoder('utf-8');
+
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65_557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a valid XLSX file');
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Corrupt XLSX central directory');
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(buffer.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      name,
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      uncompressedSize: view.getUint32(offset + 24, true),
+      localOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Contents of one stored or deflated entry, at most MAX_XLSX_PART_BYTES
+ */
+function readZipEntry(buffer: Uint8Array, entry: ZipEntry): Uint8Array {
+  const tooLarge = () => new Error(`XLSX part ${entry.name} is larger than ${MAX_XLSX_PART_BYTES / 1024 / 1024} MB uncompressed`);
+  if (entry.uncompressedSize > MAX_XLSX_PART_BYTES) throw tooLarge();
+
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const local = entry.localOffset;
+  const dataStart = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+  const data = buffer.subarray(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.method === 0) return data;
+  if (entry.method !== 8) throw new Error(`Unsupported XLSX compression for ${entry.name}`);
+  try {
+    // The declared size can lie, so cap the output too
+    return inflateRawSync(data, { maxOutputLength: MAX_XLSX_PART_BYTES });
+  } catch (error) {
+    if (error instanceof RangeError) throw tooLarge();
+    throw new Error(`Corrupt XLSX part ${entry.name}`);
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function* byteChunks(source: ByteSource): AsyncGenerator<Uint8Array | string> {
+  if (source instanceof Uint8Array) {
+    yield source;
+    return;
+  }
+  if (!('getReader' in source)) {
+    yield* source;
+    return;
+  }
+
+  const reader = source.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -26,6 +26,7 @@ import {
 } from './templates';
 
 import { supabase } from '@/lib/supabase';
+import { lintTemplate } from '@/lib/template-linter';
 
 // ============================================
 // DEFAULT CONFIGURATION
@@ -48,6 +49,7 @@ const DEFAULT_BUILDER_CONFIG: SequenceBuilderConfig = {
 export class SequenceBuilder {
   private config: SequenceBuilderConfig;
   private sequence: Partial<Sequence>;
+  private touchContent = new Map<string, Partial<Record<TouchVariant['variantKey'], TouchContent>>>();
   private db = supabase;
 
   constructor(config: Partial<SequenceBuilderConfig> = {}) {
@@ -323,6 +325,9 @@ export class SequenceBuilder {
       throw new Error(`Touch not found: ${touchId}`);
     }
 
+    // Kept for linting in validate()
+    this.touchContent.set(touchId, { ...this.touchContent.get(touchId), [variantKey]: content });
+
     // This would typically create or update a TouchVariant record
     // For now, we track it in the sequence variants
     const sequenceVariant = this.sequence.variants?.find(v => v.variantKey === variantKey);
@@ -345,10 +350,26 @@ export class SequenceBuilder {
   }
 
   /**
-   * Validate the sequence before building
+   * Allocate variant traffic with Thompson sampling instead of fixed weights.
+   * Combine with withAutoWinner() to still declare a winner at the threshold.
    */
-  validate(): { valid: boolean; errors: string[] } {
+  withAdaptiveAllocation(explorationFloor: number = 0.05, reweightEvery: number = 50): this {
+    return this.withConfig({
+      allocationMode: 'thompson',
+      explorationFloor,
+      reweightEvery,
+    });
+  }
+
+  /**
+   * Validate the sequence before building.
+   * Email content is linted: broken tokens are errors, deliverability
+   * issues are warnings, and riskScore is the worst touch's lint score.
+   */
+  validate(): { valid: boolean; errors: string[]; warnings: string[]; riskScore: number } {
     const errors: string[] = [];
+    const warnings: string[] = [];
+    let riskScore = 0;
 
     if (!this.sequence.name || this.sequence.name.length < 2) {
       errors.push('Sequence name must be at least 2 characters');
@@ -380,7 +401,26 @@ export class SequenceBuilder {
       }
     }
 
-    return { valid: errors.length === 0, errors };
+    for (const touch of this.sequence.touches || []) {
+      if (touch.channel !== 'email') continue;
+      for (const [variantKey, content] of Object.entries(this.touchContent.get(touch.id) ?? {})) {
+        if (!content) continue;
+        const isHtml = /<[a-z][\s\S]*>/i.test(content.body);
+        const lint = lintTemplate({
+          subject: content.subject ?? '',
+          bodyHtml: isHtml ? content.body : null,
+          bodyText: isHtml ? null : content.body,
+          requiredFields: content.personalizationFields,
+        });
+        const label = `Touch ${touch.order} variant ${variantKey.toUpperCase()}`;
+        for (const finding of lint.findings) {
+          (finding.severity === 'error' ? errors : warnings).push(`${label}: ${finding.message}`);
+        }
+        riskScore = Math.max(riskScore, lint.score);
+      }
+    }
+
+    return { valid: errors.length === 0, errors, warnings, riskScore };
   }
 
   /**
@@ -5,6 +5,17 @@
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import ResearchJobQueue from '@/lib/research/job-queue';
+import { getJobEventBus } from '@/lib/research/progress-events';
+import { IdentityResolver, SupabaseIdentityStore } from '@/lib/identity/resolver';
+import { fromApolloPerson } from '@/lib/identity/matching';
+import type { RowError } from '@/lib/research/bulk-import';
+import type { ResearchProcessorContext } from '@/lib/research/processors';
+import type { ApolloApi } from '@/lib/apollo/client';
+
+/** Storage bucket for uploaded bulk_import files */
+export const IMPORT_BUCKET = 'research-imports';
+
+const ROW_ERROR_BATCH = 500;
 
 let queueInstance: ResearchJobQueue | null = null;
 
@@ -27,12 +38,14 @@ export function getJobQueue(): ResearchJobQueue {
     queueInstance = new ResearchJobQueue({
       supabase,
       maxConcurrentJobs: parseInt(process.env.RESEARCH_WORKERS || '3', 10),
+      maxConcurrentJobsPerUser: parseInt(process.env.RESEARCH_JOBS_PER_USER || '2', 10),
       pollIntervalMs: 5000,
       defaultMaxRetries: 3,
+      events: getJobEventBus(),
     });
 
     // Register default processors
-    registerDefaultProcessors(queueInstance);
+    registerDefaultProcessors(queueInstance, supabase);
   }
 
   return queueInstance;
@@ -41,7 +54,9 @@ export function getJobQueue(): ResearchJobQueue {
 /**
  * Register default job processors
  */
-function registerDefaultProcessors(queue: ResearchJobQueue): void {
+function registerDefaultProcessors(queue: ResearchJobQueue, supabase: SupabaseClient): void {
+  const resolver = new IdentityResolver({ store: new SupabaseIdentityStore(supabase) });
+
   // Prospect search processor
   queue.registerProcessor('prospect_search', async (job, updateProgress) => {
     // Import dynamically to avoid bundling issues
@@ -95,6 +110,9 @@ function registerDefaultProcessors(queue: ResearchJobQueue): void {
 
     // Process results
     let created = 0;
+    let merged = 0;
+    let queuedForReview = 0;
+    let skipped = 0;
     for (const result of results) {
       if (result.person && result.organization) {
         const prospectData = {
@@ -114,10 +132,17 @@ function registerDefaultProcessors(queue: ResearchJobQueue): void {
         };
 
         const scored = scorer.score(prospectData);
-        
-        // Save to database (simplified)
-        // In reality, this would be a batch insert
-        created++;
+
+        // Resolve against existing prospects instead of inserting duplicates
+        const record = fromApolloPerson(result.person, result.organization, job.id);
+        if (job.searchParams.netNewOnly && await resolver.findMatch(job.createdBy, record)) {
+          skipped++;
+          continue;
+        }
+        const outcome = await resolver.ingest(job.createdBy, record);
+        if (outcome.action === 'created') created++;
+        else if (outcome.action === 'merged') merged++;
+        else queuedForReview++;
       }
     }
 
@@ -125,14 +150,15 @@ function registerDefaultProcessors(queue: ResearchJobQueue): void {
       jobId: job.id,
       status: 'running',
       percentage: 90,
-      processed: created,
+      processed: created + merged + queuedForReview + skipped,
       total: results.length,
-      message: 'Finalizing...',
+      message: `Finalizing... (${merged} merged, ${queuedForReview} queued for review, ${skipped} already known)`,
     });
 
     // Update result summary
     job.resultSummary = {
       prospectsCreated: created,
+      prospectsSkipped: skipped,
       companiesFound: new Set(results.map(r => r.organization?.name).filter(Boolean)).size,
       enrichmentRate: results.filter(r => r.confidence > 70).length / results.length,
     };
@@ -140,83 +166,132 @@ function registerDefaultProcessors(queue: ResearchJobQueue): void {
     return true;
   });
 
+  // Research pipelines share Apollo, the prospect store and the resolver
+  const researchContext = async (): Promise<ResearchProcessorContext> => {
+    const { createApolloClientFromEnv } = await import('@/lib/apollo/client');
+    const { SupabaseResearchProspectStore } = await import('@/lib/research/prospect-store');
+    let apollo: ApolloApi | null = null;
+    return {
+      apollo: () => (apollo ??= createApolloClientFromEnv()),
+      prospects: new SupabaseResearchProspectStore(supabase),
+      resolver,
+    };
+  };
+
   // Company enrichment processor
   queue.registerProcessor('company_enrichment', async (job, updateProgress) => {
-    updateProgress({
-      jobId: job.id,
-      status: 'running',
-      percentage: 0,
-      processed: 0,
-      total: 100,
-      message: 'Starting company enrichment...',
-    });
-
-    // TODO: Implement company enrichment
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
-    updateProgress({
-      jobId: job.id,
-      status: 'running',
-      percentage: 100,
-      processed: 100,
-      total: 100,
-      message: 'Completed',
-    });
-
+    const { runCompanyEnrichment } = await import('@/lib/research/processors');
+    job.resultSummary = await runCompanyEnrichment(job, await researchContext(), updateProgress);
     return true;
   });
 
   // Signal detection processor
   queue.registerProcessor('signal_detection', async (job, updateProgress) => {
-    updateProgress({
-      jobId: job.id,
-      status: 'running',
-      percentage: 0,
-      processed: 0,
-      total: 100,
-      message: 'Scanning for buying signals...',
-    });
-
-    // TODO: Implement signal detection
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    const { runSignalDetection } = await import('@/lib/research/processors');
+    job.resultSummary = await runSignalDetection(job, await researchContext(), updateProgress);
+    return true;
+  });
 
-    job.resultSummary = {
-      signalsDetected: {
-        funding: 0,
-        hiring: 0,
-      },
-    };
+  // List building processor
+  queue.registerProcessor('list_building', async (job, updateProgress) => {
+    const { runListBuilding } = await import('@/lib/research/processors');
+    job.resultSummary = await runListBuilding(job, await researchContext(), updateProgress);
+    return true;
+  });
 
-    updateProgress({
-      jobId: job.id,
-      status: 'running',
-      percentage: 100,
-      processed: 100,
-      total: 100,
-      message: 'Completed',
-    });
+  // Data cleansing processor
+  queue.registerProcessor('data_cleansing', async (job, updateProgress) => {
+    const { runDataCleansing } = await import('@/lib/research/processors');
+    job.resultSummary = await runDataCleansing(job, await researchContext(), updateProgress);
+    return true;
+  });
 
+  // Competitor research processor
+  queue.registerProcessor('competitor_research', async (job, updateProgress) => {
+    const { runCompetitorResearch } = await import('@/lib/research/processors');
+    job.resultSummary = await runCompetitorResearch(job, await researchContext(), updateProgress);
     return true;
   });
 
   // Bulk import processor
   queue.registerProcessor('bulk_import', async (job, updateProgress) => {
+    const params = job.searchParams.import;
+    if (!params) {
+      throw new Error('bulk_import job has no uploaded file');
+    }
+
     updateProgress({
       jobId: job.id,
       status: 'running',
       percentage: 0,
       processed: 0,
-      total: job.totalRecords,
-      message: 'Processing import...',
+      total: params.rowCount,
+      message: `Reading ${params.filename}...`,
+    });
+
+    const { data: file, error } = await supabase.storage.from(IMPORT_BUCKET).download(params.path);
+    if (error || !file) {
+      throw new Error(`Failed to download import file: ${error?.message ?? 'not found'}`);
+    }
+
+    const { readRows } = await import('@/lib/research/spreadsheet');
+    const { runBulkImport } = await import('@/lib/research/bulk-import');
+
+    const result = await runBulkImport({
+      userId: job.createdBy,
+      jobId: job.id,
+      rows: readRows(file.stream(), params.format),
+      mapping: params.mapping,
+      resolver,
+      total: params.rowCount,
+      onProgress: progress => updateProgress({
+        jobId: job.id,
+        status: 'running',
+        percentage: Math.min(99, Math.round((progress.processed / Math.max(progress.total, 1)) * 100)),
+        processed: progress.processed,
+        total: progress.total,
+        successCount: progress.created,
+        errorCount: progress.failed,
+        skipCount: progress.merged + progress.queuedForReview,
+        message: `Imported ${progress.processed} of ${progress.total} rows`,
+      }),
     });
 
-    // TODO: Implement bulk import
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    await saveRowErrors(supabase, job.id, result.errors);
+
+    job.resultSummary = {
+      prospectsCreated: result.created,
+      prospectsMerged: result.merged,
+      queuedForReview: result.queuedForReview,
+      rowErrors: result.errors.length,
+    };
 
     return true;
   });
 }
 
+/**
+ * Replace a job's stored row errors (a retried job starts clean)
+ */
+async function saveRowErrors(supabase: SupabaseClient, jobId: string, errors: RowError[]): Promise<void> {
+  const { error: deleteError } = await supabase.from('research_job_row_errors').delete().eq('job_id', jobId);
+  if (deleteError) throw deleteError;
+
+  for (let i = 0; i < errors.length; i += ROW_ERROR_BATCH) {
+    const { error } = await supabase.from('research_job_row_errors').insert(
+      errors.slice(i, i + ROW_ERROR_BATCH).map(e => ({
+        job_id: jobId,
+        row_number: e.row,
+        column_name: e.column ?? null,
+        field: e.field ?? null,
+        value: e.value ?? null,
+        message: e.message,
+      }))
+    );
+    if (error) throw error;
+  }
+}
+
 /**
  * Exported singleton instance methods
  */
@@ -263,6 +338,18 @@ export const jobQueueService = {
     return queue.createJob(job);
   },
 
+  /**
+   * Create a job followed by a chain of dependent jobs
+   */
+  async createJobChain(
+    job: Parameters<ResearchJobQueue['createJobChain']>[0],
+    steps: Parameters<ResearchJobQueue['createJobChain']>[1],
+    supabase?: SupabaseClient
+  ) {
+    const queue = getJobQueue();
+    return queue.createJobChain(job, steps);
+  },
+
   /**
    * Cancel a job
    */
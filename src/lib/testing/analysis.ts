@@ -0,0 +1,436 @@
+/**
+ * Experiment Analysis
+ * One result shape for every analysis mode in significance.ts
+ *
+ * - frequentist: two-proportion z-test with post-hoc power
+ * - chi_square: 2x2 chi-square test against control
+ * - bayesian: probability of beating control from the beta posteriors
+ * - sequential: z-test with a per-look alpha over period results
+ *
+ * Every mode also reports the z-test confidence interval for the rate
+ * difference, so results can be compared side by side.
+ *
+ * analyzeMultiMetric() adds Holm correction across variants and guardrail
+ * checks (bounce, unsubscribe, spam complaint) that can stop or roll back
+ * a variant even when it wins on the primary metric.
+ */
+
+import type {
+  ABAnalysisMode,
+  ABGuardrailMetric,
+  ABTestEvent,
+  ABTestGuardrail,
+  ABTestMetric,
+  ABTestResult,
+  ABTestVariant,
+} from '@/types/sequences';
+import {
+  bayesianAnalysis,
+  calculateStatisticalSignificance,
+  chiSquareTest,
+  sequentialTest,
+  statisticalPower,
+} from './significance';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Raw event counts for one variant */
+export interface VariantCounts {
+  variantId: string;
+  variantKey: string;
+  isControl: boolean;
+  sent: number;
+  opened: number;
+  clicked: number;
+  replied: number;
+  booked: number;
+  bounced: number;
+  unsubscribed: number;
+  complained: number;
+  /** Sends and primary-metric conversions per period, oldest first (sequential mode) */
+  periods?: Array<{ sent: number; conversions: number }>;
+}
+
+export interface AnalysisOptions {
+  testId: string;
+  metric: ABTestMetric;
+  mode: ABAnalysisMode;
+  /** Default 0.95 */
+  confidenceThreshold?: number;
+  /** Posterior draws for bayesian mode (default 10000) */
+  simulations?: number;
+}
+
+export interface MultiMetricOptions extends AnalysisOptions {
+  /** Default DEFAULT_GUARDRAILS */
+  guardrails?: ABTestGuardrail[];
+  /** Sends every live variant needs before a winner is called */
+  minSample?: number;
+}
+
+export type VariantDecision = 'continue' | 'winner' | 'stop' | 'rollback';
+
+/** One guardrail evaluated for one variant against control */
+export interface GuardrailCheck {
+  variantId: string;
+  metric: ABGuardrailMetric;
+  rate: number;
+  controlRate: number;
+  increase: number;
+  /** One-sided: variant is worse than control */
+  pValue: number;
+  breached: boolean;
+  action: ABTestGuardrail['action'];
+  reason?: string;
+}
+
+export interface MultiMetricAnalysis {
+  testId: string;
+  primaryMetric: ABTestMetric;
+  mode: ABAnalysisMode;
+  correction: 'holm';
+  /** Variant-vs-control comparisons the correction covers */
+  comparisons: number;
+  results: ABTestResult[];
+  guardrails: GuardrailCheck[];
+  decisions: Record<string, VariantDecision>;
+  winnerId: string | null;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Count that is a conversion for each metric */
+export const METRIC_COUNTS: Record<ABTestMetric, 'opened' | 'clicked' | 'replied' | 'booked'> = {
+  openRate: 'opened',
+  clickRate: 'clicked',
+  replyRate: 'replied',
+  bookRate: 'booked',
+};
+
+/** Event type that counts toward each tally */
+const EVENT_COUNTS: Record<ABTestEvent['eventType'], keyof Omit<VariantCounts, 'variantId' | 'variantKey' | 'isControl' | 'periods'>> = {
+  sent: 'sent',
+  opened: 'opened',
+  clicked: 'clicked',
+  replied: 'replied',
+  meeting_booked: 'booked',
+  bounced: 'bounced',
+  unsubscribed: 'unsubscribed',
+  spam_complaint: 'complained',
+};
+
+/** Count behind each guardrail metric */
+const GUARDRAIL_COUNTS: Record<ABGuardrailMetric, 'bounced' | 'unsubscribed' | 'complained'> = {
+  bounceRate: 'bounced',
+  unsubscribeRate: 'unsubscribed',
+  spamComplaintRate: 'complained',
+};
+
+const GUARDRAIL_LABELS: Record<ABGuardrailMetric, string> = {
+  bounceRate: 'Bounce rate',
+  unsubscribeRate: 'Unsubscribe rate',
+  spamComplaintRate: 'Spam complaint rate',
+};
+
+/** Cold-email health limits applied when a test declares no guardrails */
+export const DEFAULT_GUARDRAILS: ABTestGuardrail[] = [
+  { metric: 'bounceRate', maxRate: 0.05, maxIncrease: 0.01, action: 'stop' },
+  { metric: 'unsubscribeRate', maxRate: 0.02, maxIncrease: 0.005, action: 'stop' },
+  { metric: 'spamComplaintRate', maxRate: 0.003, maxIncrease: 0.001, action: 'rollback' },
+];
+
+const DEFAULT_GUARDRAIL_MIN_SAMPLE = 100;
+
+// ============================================
+// COUNTS
+// ============================================
+
+/**
+ * Tally ab_test_events per variant, with one period per UTC day for
+ * sequential looks. Every variant gets the same days, zero-filled.
+ */
+export function countVariantEvents(
+  events: Array<Pick<ABTestEvent, 'variantId' | 'eventType' | 'createdAt'>>,
+  variants: Array<Pick<ABTestVariant, 'id' | 'variantKey' | 'isControl'>>,
+  metric: ABTestMetric
+): VariantCounts[] {
+  const days = Array.from(new Set(events.map(e => (e.createdAt ?? '').slice(0, 10)))).sort();
+  const counts = new Map<string, VariantCounts>(variants.map(v => [v.id, {
+    variantId: v.id,
+    variantKey: v.variantKey,
+    isControl: v.isControl,
+    sent: 0,
+    opened: 0,
+    clicked: 0,
+    replied: 0,
+    booked: 0,
+    bounced: 0,
+    unsubscribed: 0,
+    complained: 0,
+    periods: days.map(() => ({ sent: 0, conversions: 0 })),
+  }]));
+
+  for (const event of events) {
+    const variant = counts.get(event.variantId);
+    const field = EVENT_COUNTS[event.eventType];
+    if (!variant) continue;
+
+    variant[field]++;
+    const period = variant.periods![days.indexOf((event.createdAt ?? '').slice(0, 10))];
+    if (field === 'sent') period.sent++;
+    if (field === METRIC_COUNTS[metric]) period.conversions++;
+  }
+
+  return Array.from(counts.values());
+}
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+/**
+ * Conversions for the metric, capped at sends
+ */
+export function conversionsFor(counts: VariantCounts, metric: ABTestMetric): number {
+  return Math.min(counts[METRIC_COUNTS[metric]], counts.sent);
+}
+
+/**
+ * Compare every variant with the control using the chosen mode.
+ * Rates in `metrics` are percentages, as in TestResults.
+ */
+export function analyzeExperiment(variants: VariantCounts[], options: AnalysisOptions): ABTestResult[] {
+  const confidence = options.confidenceThreshold ?? 0.95;
+  const control = variants.find(v => v.isControl) ?? variants[0];
+  if (!control) return [];
+
+  const controlConversions = conversionsFor(control, options.metric);
+  const controlRate = control.sent > 0 ? controlConversions / control.sent : 0;
+
+  return variants.map(variant => {
+    const conversions = conversionsFor(variant, options.metric);
+    const rate = variant.sent > 0 ? conversions / variant.sent : 0;
+    const result: ABTestResult = {
+      testId: options.testId,
+      variantId: variant.variantId,
+      variantKey: variant.variantKey,
+      isControl: variant.variantId === control.variantId,
+      sampleSize: variant.sent,
+      conversions,
+      metrics: rates(variant),
+      statistics: { mode: options.mode, confidenceInterval: [0, 0], significant: false },
+    };
+    if (result.isControl) return result;
+
+    const z = calculateStatisticalSignificance(control.sent, controlConversions, variant.sent, conversions, confidence);
+    const stats = result.statistics;
+    stats.confidenceInterval = z.confidenceInterval;
+    stats.standardError = z.standardError;
+    stats.liftVsControl = controlRate > 0 ? ((rate - controlRate) / controlRate) * 100 : undefined;
+    if (control.sent === 0 || variant.sent === 0) return result;
+
+    const alpha = 1 - confidence;
+    switch (options.mode) {
+      case 'frequentist':
+        stats.zScore = z.zScore;
+        stats.pValue = z.pValue;
+        stats.power = statisticalPower(control.sent, controlRate, variant.sent, rate, confidence);
+        stats.significant = z.significant;
+        break;
+
+      case 'chi_square': {
+        const chi = chiSquareTest([
+          [controlConversions, control.sent - controlConversions],
+          [conversions, variant.sent - conversions],
+        ]);
+        stats.chi2 = chi.chi2;
+        stats.pValue = chi.pValue;
+        stats.significant = chi.pValue < alpha && rate > controlRate;
+        break;
+      }
+
+      case 'bayesian': {
+        const bayes = bayesianAnalysis(control.sent, controlConversions, variant.sent, conversions, options.simulations);
+        stats.probabilityBeatsControl = bayes.probabilityTreatmentWins;
+        stats.credibleInterval = bayes.credibleInterval;
+        stats.significant = bayes.probabilityTreatmentWins >= confidence;
+        break;
+      }
+
+      case 'sequential': {
+        const controlPeriods = control.periods ?? [{ sent: control.sent, conversions: controlConversions }];
+        const variantPeriods = variant.periods ?? [{ sent: variant.sent, conversions }];
+        const seq = sequentialTest(
+          { control: controlPeriods.map(p => p.sent), treatment: variantPeriods.map(p => p.sent) },
+          { control: controlPeriods.map(p => p.conversions), treatment: variantPeriods.map(p => p.conversions) },
+          alpha
+        );
+        stats.zScore = seq.currentZ;
+        stats.pValue = seq.pValue;
+        stats.shouldStop = seq.shouldStop;
+        stats.significant = seq.significant && rate > controlRate;
+        break;
+      }
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Best significant variant by lift, once every variant has `minSample` sends
+ */
+export function selectWinner(results: ABTestResult[], minSample: number = 0): ABTestResult | null {
+  if (results.some(r => r.sampleSize < minSample)) return null;
+
+  const winners = results
+    .filter(r => !r.isControl && r.statistics.significant && (r.statistics.liftVsControl ?? 0) > 0)
+    .sort((a, b) => (b.statistics.liftVsControl ?? 0) - (a.statistics.liftVsControl ?? 0));
+
+  return winners[0] ?? null;
+}
+
+// ============================================
+// MULTI-METRIC ANALYSIS
+// ============================================
+
+/**
+ * Holm-Bonferroni adjusted p-values, in input order
+ */
+export function holmAdjust(pValues: number[]): number[] {
+  const m = pValues.length;
+  const order = pValues.map((p, i) => ({ p, i })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(m);
+
+  let running = 0;
+  order.forEach(({ p, i }, rank) => {
+    running = Math.max(running, Math.min(1, (m - rank) * p));
+    adjusted[i] = running;
+  });
+
+  return adjusted;
+}
+
+/**
+ * Evaluate one guardrail for a variant against control
+ */
+export function checkGuardrail(
+  control: VariantCounts,
+  variant: VariantCounts,
+  guardrail: ABTestGuardrail,
+  alpha: number = 0.05
+): GuardrailCheck {
+  const field = GUARDRAIL_COUNTS[guardrail.metric];
+  const rate = variant.sent > 0 ? variant[field] / variant.sent : 0;
+  const controlRate = control.sent > 0 ? control[field] / control.sent : 0;
+  const increase = rate - controlRate;
+
+  // One-sided: is the variant worse than control?
+  const z = calculateStatisticalSignificance(control.sent, control[field], variant.sent, variant[field]);
+  const pValue = z.zScore > 0 ? z.pValue / 2 : 1 - z.pValue / 2;
+
+  const label = GUARDRAIL_LABELS[guardrail.metric];
+  let reason: string | undefined;
+  if (guardrail.maxRate !== undefined && variant.sent >= (guardrail.minSample ?? DEFAULT_GUARDRAIL_MIN_SAMPLE) && rate > guardrail.maxRate) {
+    reason = `${label} ${percent(rate)} above the ${percent(guardrail.maxRate)} limit`;
+  } else if (guardrail.maxIncrease !== undefined && increase > guardrail.maxIncrease && pValue < alpha) {
+    reason = `${label} up ${percent(increase)} vs control (${percent(rate)} vs ${percent(controlRate)})`;
+  }
+
+  return {
+    variantId: variant.variantId,
+    metric: guardrail.metric,
+    rate,
+    controlRate,
+    increase,
+    pValue,
+    breached: reason !== undefined,
+    action: guardrail.action,
+    reason,
+  };
+}
+
+/**
+ * Primary-metric analysis with Holm correction across variants, plus
+ * guardrails. A variant that breaches a guardrail is stopped (or the test
+ * rolled back) and can't win, whatever its primary result.
+ */
+export function analyzeMultiMetric(variants: VariantCounts[], options: MultiMetricOptions): MultiMetricAnalysis {
+  const confidence = options.confidenceThreshold ?? 0.95;
+  const alpha = 1 - confidence;
+  const guardrails = options.guardrails ?? DEFAULT_GUARDRAILS;
+  const results = analyzeExperiment(variants, options);
+  const control = variants.find(v => v.isControl) ?? variants[0];
+  const treatments = results.filter(r => !r.isControl);
+
+  // Bayesian results have no p-value; use the posterior error probability
+  const pValues = treatments.map(r => {
+    const p = options.mode === 'bayesian' ? 1 - (r.statistics.probabilityBeatsControl ?? 0) : r.statistics.pValue ?? 1;
+    return Number.isFinite(p) ? p : 1;
+  });
+  const adjusted = holmAdjust(pValues);
+
+  // Sequential mode spends alpha evenly across looks
+  const looks = options.mode === 'sequential' ? Math.max(control?.periods?.length ?? 1, 1) : 1;
+  const rateOf = (r: ABTestResult) => (r.sampleSize > 0 ? r.conversions / r.sampleSize : 0);
+  const controlResult = results.find(r => r.isControl);
+
+  treatments.forEach((result, i) => {
+    const better = controlResult !== undefined && rateOf(result) > rateOf(controlResult);
+    result.statistics.adjustedPValue = adjusted[i];
+    result.statistics.significant = better && (options.mode === 'bayesian'
+      ? adjusted[i] <= alpha
+      : adjusted[i] < alpha / looks);
+  });
+
+  const checks = control
+    ? variants.filter(v => v.variantId !== control.variantId)
+      .flatMap(v => guardrails.map(g => checkGuardrail(control, v, g, alpha)))
+    : [];
+
+  const decisions: Record<string, VariantDecision> = {};
+  for (const result of results) {
+    const breaches = checks.filter(c => c.variantId === result.variantId && c.breached);
+    decisions[result.variantId] = breaches.some(c => c.action === 'rollback')
+      ? 'rollback'
+      : breaches.length > 0 ? 'stop' : 'continue';
+  }
+
+  const eligible = results.filter(r => r.isControl || decisions[r.variantId] === 'continue');
+  const winner = selectWinner(eligible, options.minSample ?? 0);
+  if (winner) decisions[winner.variantId] = 'winner';
+
+  return {
+    testId: options.testId,
+    primaryMetric: options.metric,
+    mode: options.mode,
+    correction: 'holm',
+    comparisons: treatments.length,
+    results,
+    guardrails: checks,
+    decisions,
+    winnerId: winner?.variantId ?? null,
+  };
+}
+
+// ============================================
+// UTILITY FUNCTIONS
+// ============================================
+
+function percent(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+function rates(counts: VariantCounts): ABTestResult['metrics'] {
+  const sent = Math.max(counts.sent, 1); // Avoid division by zero
+  return {
+    openRate: (counts.opened / sent) * 100,
+    clickRate: (counts.clicked / sent) * 100,
+    replyRate: (counts.replied / sent) * 100,
+    bookRate: (counts.booked / sent) * 100,
+  };
+}
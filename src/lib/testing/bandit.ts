@@ -0,0 +1,249 @@
+/**
+ * Adaptive Traffic Allocation
+ * Thompson sampling over the variant beta posteriors
+ *
+ * - Weight = probability the variant is best, from betaPosterior / probabilityOfBeingBest
+ * - Every variant keeps at least the exploration floor
+ * - Re-weights after N new sends, or after an interval once new sends arrived
+ * - Keeps every allocation with the posteriors that produced it
+ *
+ * Assignment stays hash-based, so the weights decide the split and the same
+ * prospect always lands in the same bucket for a given allocation.
+ */
+
+import { betaPosterior, probabilityOfBeingBest } from './significance';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type AllocationMode = 'fixed' | 'thompson';
+
+export type AllocationReason = 'initial' | 'events' | 'interval' | 'manual';
+
+/** Cumulative results for one variant on the primary metric */
+export interface VariantObservation {
+  variantId: string;
+  trials: number;
+  successes: number;
+}
+
+export interface AllocationConfig {
+  /** Minimum share per variant (default 0.05; capped at 1 / variants) */
+  explorationFloor?: number;
+  /** Re-weight after this many new trials (default 50) */
+  reweightEvery?: number;
+  /** Re-weight at least this often while trials keep arriving (default 1 hour) */
+  reweightIntervalMs?: number;
+  /** Posterior draws per re-weight (default 10000) */
+  simulations?: number;
+  now?: () => Date;
+}
+
+/** One allocation decision and the evidence behind it */
+export interface AllocationSnapshot {
+  testId: string;
+  at: string;
+  reason: AllocationReason;
+  totalTrials: number;
+  explorationFloor: number;
+  variants: Array<{
+    variantId: string;
+    trials: number;
+    successes: number;
+    alpha: number;
+    beta: number;
+    posteriorMean: number;
+    probabilityBest: number;
+    previousWeight: number;
+    weight: number;
+  }>;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const DEFAULT_EXPLORATION_FLOOR = 0.05;
+export const DEFAULT_REWEIGHT_EVERY = 50;
+export const DEFAULT_REWEIGHT_INTERVAL_MS = 60 * 60 * 1000;
+const DEFAULT_SIMULATIONS = 10000;
+
+// ============================================
+// WEIGHTS
+// ============================================
+
+/**
+ * Thompson sampling weights: each variant's probability of being best,
+ * rescaled so every variant keeps at least `explorationFloor`
+ */
+export function thompsonWeights(
+  observations: VariantObservation[],
+  options: { explorationFloor?: number; simulations?: number } = {}
+): { weights: number[]; probabilityBest: number[] } {
+  if (observations.length === 0) return { weights: [], probabilityBest: [] };
+
+  const floor = clampFloor(options.explorationFloor ?? DEFAULT_EXPLORATION_FLOOR, observations.length);
+  const probabilityBest = probabilityOfBeingBest(
+    observations.map(o => betaPosterior(o.trials, o.successes)),
+    options.simulations ?? DEFAULT_SIMULATIONS
+  );
+  const weights = probabilityBest.map(p => floor + (1 - floor * observations.length) * p);
+
+  return { weights, probabilityBest };
+}
+
+function clampFloor(floor: number, variants: number): number {
+  return Math.min(Math.max(floor, 0), 1 / variants);
+}
+
+// ============================================
+// ALLOCATOR
+// ============================================
+
+export class BanditAllocator {
+  private weights: Map<string, number>;
+  private observations = new Map<string, VariantObservation>();
+  private history: AllocationSnapshot[] = [];
+  private trialsAtLastReweight = 0;
+  private lastReweightAt: Date;
+  private explorationFloor: number;
+  private reweightEvery: number;
+  private reweightIntervalMs: number;
+  private simulations: number;
+  private now: () => Date;
+
+  constructor(
+    private testId: string,
+    variantIds: string[],
+    config: AllocationConfig & {
+      /** Starting weights (default: equal split) */
+      initialWeights?: Record<string, number>;
+      /** Resume from a persisted allocation instead of starting fresh */
+      lastSnapshot?: AllocationSnapshot;
+    } = {}
+  ) {
+    this.explorationFloor = clampFloor(config.explorationFloor ?? DEFAULT_EXPLORATION_FLOOR, variantIds.length);
+    this.reweightEvery = config.reweightEvery ?? DEFAULT_REWEIGHT_EVERY;
+    this.reweightIntervalMs = config.reweightIntervalMs ?? DEFAULT_REWEIGHT_INTERVAL_MS;
+    this.simulations = config.simulations ?? DEFAULT_SIMULATIONS;
+    this.now = config.now ?? (() => new Date());
+
+    for (const variantId of variantIds) {
+      this.observations.set(variantId, { variantId, trials: 0, successes: 0 });
+    }
+
+    const last = config.lastSnapshot;
+    if (last) {
+      this.weights = new Map(last.variants.map(v => [v.variantId, v.weight]));
+      for (const v of last.variants) {
+        if (this.observations.has(v.variantId)) {
+          this.observations.set(v.variantId, { variantId: v.variantId, trials: v.trials, successes: v.successes });
+        }
+      }
+      this.trialsAtLastReweight = last.totalTrials;
+      this.lastReweightAt = new Date(last.at);
+      this.history.push(last);
+      return;
+    }
+
+    this.weights = new Map(variantIds.map(id => [id, config.initialWeights?.[id] ?? 1 / variantIds.length]));
+    this.lastReweightAt = this.now();
+    this.history.push(this.snapshot('initial', variantIds.map(() => 1 / variantIds.length)));
+  }
+
+  /**
+   * Current weights by variant id
+   */
+  getWeights(): Record<string, number> {
+    return Object.fromEntries(this.weights);
+  }
+
+  /**
+   * Weights in the order of `variantIds` (for assignVariant)
+   */
+  weightsFor(variantIds: string[]): number[] {
+    return variantIds.map(id => this.weights.get(id) ?? 0);
+  }
+
+  /**
+   * Every allocation so far, oldest first
+   */
+  getHistory(): AllocationSnapshot[] {
+    return [...this.history];
+  }
+
+  /**
+   * Update cumulative results and re-weight if enough has changed.
+   * Returns the new allocation, or null when weights were left alone.
+   */
+  observe(observations: VariantObservation[]): AllocationSnapshot | null {
+    for (const o of observations) {
+      if (this.observations.has(o.variantId)) this.observations.set(o.variantId, { ...o });
+    }
+
+    const reason = this.dueReason();
+    return reason ? this.reweight(reason) : null;
+  }
+
+  /**
+   * Recompute weights from the current posteriors
+   */
+  reweight(reason: AllocationReason = 'manual'): AllocationSnapshot {
+    const observations = Array.from(this.observations.values());
+    const { weights, probabilityBest } = thompsonWeights(observations, {
+      explorationFloor: this.explorationFloor,
+      simulations: this.simulations,
+    });
+
+    const snapshot = this.snapshot(reason, probabilityBest, weights);
+    observations.forEach((o, i) => this.weights.set(o.variantId, weights[i]));
+    this.trialsAtLastReweight = snapshot.totalTrials;
+    this.lastReweightAt = new Date(snapshot.at);
+    this.history.push(snapshot);
+    return snapshot;
+  }
+
+  // Private helper methods
+
+  private totalTrials(): number {
+    return Array.from(this.observations.values()).reduce((sum, o) => sum + o.trials, 0);
+  }
+
+  private dueReason(): AllocationReason | null {
+    const newTrials = this.totalTrials() - this.trialsAtLastReweight;
+    if (newTrials <= 0) return null;
+    if (newTrials >= this.reweightEvery) return 'events';
+    if (this.now().getTime() - this.lastReweightAt.getTime() >= this.reweightIntervalMs) return 'interval';
+    return null;
+  }
+
+  private snapshot(reason: AllocationReason, probabilityBest: number[], weights?: number[]): AllocationSnapshot {
+    const observations = Array.from(this.observations.values());
+
+    return {
+      testId: this.testId,
+      at: this.now().toISOString(),
+      reason,
+      totalTrials: this.totalTrials(),
+      explorationFloor: this.explorationFloor,
+      variants: observations.map((o, i) => {
+        const { alpha, beta } = betaPosterior(o.trials, o.successes);
+        const previousWeight = this.weights.get(o.variantId) ?? 0;
+        return {
+          variantId: o.variantId,
+          trials: o.trials,
+          successes: o.successes,
+          alpha,
+          beta,
+          posteriorMean: alpha / (alpha + beta),
+          probabilityBest: probabilityBest[i],
+          previousWeight,
+          weight: weights?.[i] ?? previousWeight,
+        };
+      }),
+    };
+  }
+}
+
+export default BanditAllocator;
@@ -0,0 +1,124 @@
+/**
+ * A/B Test Config Contract
+ * Typed, validated email_sequences.ab_test_config
+ *
+ * - Missing fields fall back to DEFAULT_AB_TEST_CONFIG, so legacy '{}' rows read as disabled
+ * - Enabled configs need at least two unique variants with integer weights
+ * - Weights are integers because assign_ab_variant() reads them as INTEGER[]
+ */
+
+import type { ABAnalysisMode, ABTest, ABTestConfig, ABTestLevel, ABTestMetric } from '@/types/sequences';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ABTestConfigValidation {
+  valid: boolean;
+  errors: string[];
+  /** Normalized config (defaults applied); only safe to persist when valid */
+  config: ABTestConfig;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const AB_TEST_LEVELS: ABTestLevel[] = ['sequence', 'touch', 'template'];
+export const AB_TEST_METRICS: ABTestMetric[] = ['openRate', 'clickRate', 'replyRate', 'bookRate'];
+export const AB_ANALYSIS_MODES: ABAnalysisMode[] = ['frequentist', 'chi_square', 'bayesian', 'sequential'];
+
+export const DEFAULT_AB_TEST_CONFIG: ABTestConfig = {
+  enabled: false,
+  level: 'sequence',
+  variants: [],
+  weights: [],
+  primaryMetric: 'replyRate',
+  analysisMode: 'frequentist',
+  confidenceThreshold: 0.95,
+  minSample: 100,
+  autoDeclareWinner: true,
+};
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Validate a raw ab_test_config value (e.g. straight from the JSONB column)
+ */
+export function validateABTestConfig(value: unknown): ABTestConfigValidation {
+  const errors: string[] = [];
+  const raw = (value ?? {}) as Record<string, unknown>;
+
+  if (value != null && (typeof value !== 'object' || Array.isArray(value))) {
+    return { valid: false, errors: ['ab_test_config must be an object'], config: { ...DEFAULT_AB_TEST_CONFIG } };
+  }
+
+  const config: ABTestConfig = {
+    ...DEFAULT_AB_TEST_CONFIG,
+    ...(raw as Partial<ABTestConfig>),
+  };
+
+  if (typeof config.enabled !== 'boolean') errors.push('enabled must be a boolean');
+  if (config.testId !== undefined && typeof config.testId !== 'string') errors.push('testId must be a string');
+  if (!AB_TEST_LEVELS.includes(config.level)) errors.push(`level must be one of ${AB_TEST_LEVELS.join(', ')}`);
+  if (!AB_TEST_METRICS.includes(config.primaryMetric)) {
+    errors.push(`primaryMetric must be one of ${AB_TEST_METRICS.join(', ')}`);
+  }
+  if (!AB_ANALYSIS_MODES.includes(config.analysisMode)) {
+    errors.push(`analysisMode must be one of ${AB_ANALYSIS_MODES.join(', ')}`);
+  }
+  if (typeof config.confidenceThreshold !== 'number' || config.confidenceThreshold <= 0 || config.confidenceThreshold >= 1) {
+    errors.push('confidenceThreshold must be between 0 and 1');
+  }
+  if (!Number.isInteger(config.minSample) || config.minSample <= 0) errors.push('minSample must be a positive integer');
+  if (typeof config.autoDeclareWinner !== 'boolean') errors.push('autoDeclareWinner must be a boolean');
+
+  if (!Array.isArray(config.variants) || config.variants.some(v => typeof v !== 'string' || v.length === 0)) {
+    errors.push('variants must be an array of variant keys');
+  } else {
+    if (new Set(config.variants).size !== config.variants.length) errors.push('variants must be unique');
+    if (config.enabled && config.variants.length < 2) errors.push('enabled tests need at least two variants');
+
+    if (!Array.isArray(config.weights)) {
+      errors.push('weights must be an array');
+    } else {
+      // Equal split when weights are omitted
+      if (config.weights.length === 0 && config.variants.length > 0) {
+        config.weights = config.variants.map(() => 1);
+      }
+      if (config.weights.length !== config.variants.length) errors.push('weights must match variants in length');
+      if (config.weights.some(w => !Number.isInteger(w) || w < 0)) errors.push('weights must be non-negative integers');
+      else if (config.enabled && config.weights.reduce((a, b) => a + b, 0) === 0) errors.push('weights must not all be zero');
+    }
+  }
+
+  return { valid: errors.length === 0, errors, config };
+}
+
+/**
+ * Parse a stored config, falling back to the disabled default when invalid
+ */
+export function parseABTestConfig(value: unknown): ABTestConfig {
+  const result = validateABTestConfig(value);
+  return result.valid ? result.config : { ...DEFAULT_AB_TEST_CONFIG };
+}
+
+/**
+ * Config for a test's sequence: running tests are enabled, weights in whole percent
+ */
+export function toABTestConfig(test: ABTest): ABTestConfig {
+  return {
+    enabled: test.status === 'running',
+    testId: test.id,
+    level: test.type,
+    variants: test.variants.map(v => v.variantKey),
+    weights: test.variants.map(v => Math.round(v.weight * 100)),
+    primaryMetric: test.primaryMetric,
+    analysisMode: test.analysisMode,
+    confidenceThreshold: test.confidenceThreshold,
+    minSample: test.minSample,
+    autoDeclareWinner: true,
+  };
+}
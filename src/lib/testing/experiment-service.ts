@@ -0,0 +1,565 @@
+/**
+ * Experiment Service
+ * One A/B testing service for sequence, touch and template experiments
+ *
+ * - Tests, variants and events persist to ab_tests / ab_test_variants / ab_test_events
+ * - Analysis runs on raw event counts in any mode from significance.ts
+ * - Guardrails (bounce, unsubscribe, spam complaints) stop or roll back variants
+ * - Running tests keep email_sequences.ab_test_config in sync (validated contract)
+ * - Thompson-mode tests re-weight through BanditAllocator
+ */
+
+import { supabase } from '@/lib/supabase';
+import type {
+  ABAnalysisMode,
+  ABTest,
+  ABTestGuardrail,
+  ABTestLevel,
+  ABTestMetric,
+  ABTestResult,
+  ABTestStatus,
+  ABTestVariant,
+} from '@/types/sequences';
+import { createABTestEvent, getVariantCounts, getVariantObservations, hashToUnitInterval } from './tracker';
+import {
+  DEFAULT_GUARDRAILS,
+  analyzeExperiment,
+  analyzeMultiMetric,
+  type MultiMetricAnalysis,
+} from './analysis';
+import { toABTestConfig, validateABTestConfig } from './experiment-config';
+import {
+  BanditAllocator,
+  DEFAULT_EXPLORATION_FLOOR,
+  DEFAULT_REWEIGHT_EVERY,
+  type AllocationMode,
+  type AllocationSnapshot,
+} from './bandit';
+
+export interface CreateExperimentInput {
+  name: string;
+  description?: string;
+  /** Inferred from the targets when omitted: templateId → template, touchId → touch */
+  type?: ABTestLevel;
+  sequenceId?: string;
+  sequenceIds?: string[];
+  touchId?: string;
+  templateId?: string;
+  variantCount?: number;
+  variants?: string[];
+  /** Template-level tests: template variant per test variant, in order */
+  variantTemplateIds?: string[];
+  split?: number;
+  minSample?: number;
+  maxSample?: number;
+  confidenceThreshold?: number;
+  primaryMetric?: ABTestMetric;
+  analysisMode?: ABAnalysisMode;
+  /** Default DEFAULT_GUARDRAILS */
+  guardrails?: ABTestGuardrail[];
+  allocationMode?: AllocationMode;
+  explorationFloor?: number;
+  reweightEvery?: number;
+  createdBy: string;
+}
+
+/** Statuses written by the retired sequence-level model */
+const LEGACY_STATUSES: Record<string, ABTestStatus> = {
+  pending: 'draft',
+  complete: 'completed',
+  winner_declared: 'winner_selected',
+};
+
+export class ExperimentService {
+  private supabase = supabase;
+  private allocators = new Map<string, BanditAllocator>();
+
+  /**
+   * Create a new A/B test with automatic variant generation
+   */
+  async createTest(config: CreateExperimentInput): Promise<ABTest> {
+    const type = config.type ?? (config.templateId ? 'template' : config.touchId ? 'touch' : 'sequence');
+    this.assertTargets(type, config);
+
+    const variantCount = config.variantCount || 2;
+    const variantNames = Array.isArray(config.variants)
+      ? config.variants
+      : this.generateVariantNames(variantCount);
+    const split = config.split || 0.5;
+
+    const testData = {
+      name: config.name,
+      description: config.description,
+      type,
+      sequence_id: config.sequenceId,
+      sequence_ids: config.sequenceIds,
+      touch_id: config.touchId,
+      template_id: config.templateId,
+      split,
+      min_sample: config.minSample || 100,
+      max_sample: config.maxSample,
+      confidence_threshold: config.confidenceThreshold || 0.95,
+      primary_metric: config.primaryMetric || 'replyRate',
+      analysis_mode: config.analysisMode || 'frequentist',
+      guardrails: config.guardrails ?? DEFAULT_GUARDRAILS,
+      allocation_mode: config.allocationMode || 'fixed',
+      exploration_floor: config.explorationFloor ?? DEFAULT_EXPLORATION_FLOOR,
+      reweight_every: config.reweightEvery ?? DEFAULT_REWEIGHT_EVERY,
+      status: 'draft' as ABTestStatus,
+      created_by: config.createdBy,
+    };
+
+    const { data: test, error } = await this.supabase
+      .from('ab_tests')
+      .insert([testData])
+      .select()
+      .single();
+
+    if (error || !test) throw error;
+
+    // Control gets the split, the rest share the remainder
+    const variants = variantNames.map((name, i) => ({
+      test_id: test.id,
+      variant_key: String.fromCharCode(97 + i),
+      name,
+      weight: i === 0 ? split : (1 - split) / (variantNames.length - 1),
+      touch_variants: type === 'touch' && config.touchId ? { [config.touchId]: name } : undefined,
+      template_id: type === 'template' ? config.variantTemplateIds?.[i] ?? config.templateId : undefined,
+      is_control: i === 0,
+    }));
+
+    const { data: variantRows, error: variantError } = await this.supabase
+      .from('ab_test_variants')
+      .insert(variants)
+      .select();
+
+    if (variantError) throw variantError;
+
+    return this.hydrateTest({ ...test, ab_test_variants: variantRows ?? [] });
+  }
+
+  private generateVariantNames(count: number): string[] {
+    const letters = ['A', 'B', 'C', 'D'];
+    return letters.slice(0, count).map(l => `Variant ${l}`);
+  }
+
+  private assertTargets(type: ABTestLevel, config: CreateExperimentInput): void {
+    if (type === 'touch' && !(config.sequenceId && config.touchId)) {
+      throw new Error('Touch-level tests need a sequenceId and touchId');
+    }
+    if (type === 'template' && !config.templateId) {
+      throw new Error('Template-level tests need a templateId');
+    }
+    if (type === 'sequence' && !config.sequenceId && !config.sequenceIds?.length) {
+      throw new Error('Sequence-level tests need a sequenceId or sequenceIds');
+    }
+  }
+
+  /**
+   * Start a test (change status from draft to running)
+   */
+  async startTest(testId: string): Promise<ABTest> {
+    const test = await this.updateTest(testId, {
+      status: 'running',
+      started_at: new Date().toISOString(),
+    });
+    await this.syncSequenceConfig(test);
+    return test;
+  }
+
+  /**
+   * Get test by ID
+   */
+  async getTest(testId: string): Promise<ABTest> {
+    const { data, error } = await this.supabase
+      .from('ab_tests')
+      .select('*, ab_test_variants(*)')
+      .eq('id', testId)
+      .single();
+
+    if (error || !data) throw error;
+    return this.hydrateTest(data);
+  }
+
+  private async updateTest(testId: string, changes: Record<string, unknown>): Promise<ABTest> {
+    const { data, error } = await this.supabase
+      .from('ab_tests')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', testId)
+      .select('*, ab_test_variants(*)')
+      .single();
+
+    if (error || !data) throw error;
+    return this.hydrateTest(data);
+  }
+
+  private hydrateTest(data: Record<string, unknown>): ABTest {
+    const variants: ABTestVariant[] = (data.ab_test_variants as Record<string, unknown>[] || []).map(v => ({
+      id: v.id as string,
+      testId: v.test_id as string,
+      variantKey: v.variant_key as string,
+      name: v.name as string,
+      weight: v.weight as number,
+      touchVariants: v.touch_variants as Record<string, string> | undefined,
+      templateId: v.template_id as string | undefined,
+      sampleSize: (v.sample_size as number | undefined) ?? 0,
+      metrics: (v.metrics as ABTestVariant['metrics'] | undefined) ?? { openRate: 0, clickRate: 0, replyRate: 0, bookRate: 0 },
+      isControl: v.is_control as boolean,
+      isWinner: v.is_winner as boolean | undefined,
+      confidenceVsControl: v.confidence_vs_control as number | undefined,
+      stoppedAt: v.stopped_at as string | undefined,
+      stopReason: v.stop_reason as string | undefined,
+    }));
+    const status = data.status as string;
+
+    return {
+      id: data.id as string,
+      name: data.name as string,
+      description: data.description as string | undefined,
+      type: data.type as ABTestLevel,
+      sequenceId: data.sequence_id as string | undefined,
+      sequenceIds: data.sequence_ids as string[] | undefined,
+      touchId: data.touch_id as string | undefined,
+      templateId: data.template_id as string | undefined,
+      variants,
+      split: data.split as number,
+      minSample: data.min_sample as number,
+      maxSample: data.max_sample as number | undefined,
+      confidenceThreshold: data.confidence_threshold as number,
+      primaryMetric: data.primary_metric as ABTestMetric,
+      analysisMode: (data.analysis_mode as ABAnalysisMode | undefined) ?? 'frequentist',
+      guardrails: (data.guardrails as ABTestGuardrail[] | undefined) ?? DEFAULT_GUARDRAILS,
+      allocationMode: (data.allocation_mode as AllocationMode | undefined) ?? 'fixed',
+      explorationFloor: (data.exploration_floor as number | undefined) ?? DEFAULT_EXPLORATION_FLOOR,
+      reweightEvery: (data.reweight_every as number | undefined) ?? DEFAULT_REWEIGHT_EVERY,
+      status: LEGACY_STATUSES[status] ?? (status as ABTestStatus),
+      winningVariantId: data.winning_variant_id as string | undefined,
+      confidence: data.confidence as number | undefined,
+      startedAt: data.started_at as string | undefined,
+      endedAt: data.ended_at as string | undefined,
+      autoEndAt: data.auto_end_at as string | undefined,
+      createdAt: data.created_at as string,
+      updatedAt: data.updated_at as string,
+      createdBy: data.created_by as string | undefined,
+    };
+  }
+
+  /**
+   * Write the test's validated ab_test_config to every sequence it runs on
+   */
+  async syncSequenceConfig(test: ABTest): Promise<void> {
+    const sequenceIds = test.sequenceIds?.length ? test.sequenceIds : test.sequenceId ? [test.sequenceId] : [];
+    if (sequenceIds.length === 0) return;
+
+    const { valid, errors, config } = validateABTestConfig(toABTestConfig(test));
+    if (!valid) throw new Error(`Invalid ab_test_config for test ${test.id}: ${errors.join('; ')}`);
+
+    const { error } = await this.supabase
+      .from('email_sequences')
+      .update({ ab_test_config: config })
+      .in('id', sequenceIds);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Assign prospects to test variants.
+   * Guardrails are enforced first, so stopped variants get no new prospects;
+   * Thompson-mode tests then re-weight from the latest results.
+   */
+  async assignProspectsToVariants(
+    testId: string,
+    prospectIds: string[]
+  ): Promise<Record<string, string>> {
+    let test = await this.getTest(testId);
+    if (test.status === 'running' && test.guardrails.length > 0) {
+      const { decisions } = await this.enforceGuardrails(testId);
+      if (Object.values(decisions).some(d => d === 'stop' || d === 'rollback')) test = await this.getTest(testId);
+    }
+
+    const live = test.variants.filter(v => !v.stoppedAt);
+    const variants = test.allocationMode === 'thompson' && test.status === 'running'
+      ? await this.updateAllocation({ ...test, variants: live })
+      : live;
+    const assignments: Record<string, string> = {};
+
+    for (const prospectId of prospectIds) {
+      // Use consistent hashing based on prospect ID
+      const variant = this.assignVariant(prospectId, variants);
+      assignments[prospectId] = variant.id;
+
+      // Track enrollment event
+      await createABTestEvent({
+        testId,
+        variantId: variant.id,
+        prospectId,
+        sequenceId: test.sequenceId,
+        touchId: test.touchId,
+        eventType: 'sent',
+        metadata: { enrollment: true, templateId: variant.templateId },
+      });
+    }
+
+    return assignments;
+  }
+
+  private assignVariant(prospectId: string, variants: ABTestVariant[]): ABTestVariant {
+    // Use consistent hashing based on prospect ID
+    const totalWeight = variants.reduce((sum, v) => sum + v.weight, 0);
+    const threshold = hashToUnitInterval(prospectId) * totalWeight;
+
+    let cumulativeWeight = 0;
+    for (const variant of variants) {
+      cumulativeWeight += variant.weight;
+      if (threshold < cumulativeWeight) {
+        return variant;
+      }
+    }
+
+    return variants[variants.length - 1];
+  }
+
+  /**
+   * Feed the latest results to the test's allocator and persist a new
+   * allocation when one is due. Returns the variants with current weights.
+   */
+  private async updateAllocation(test: ABTest): Promise<ABTestVariant[]> {
+    const allocator = await this.getAllocator(test);
+    const snapshot = allocator.observe(await getVariantObservations(test.id, test.primaryMetric));
+
+    const weights = allocator.getWeights();
+    const variants = test.variants.map(v => ({ ...v, weight: weights[v.id] ?? v.weight }));
+    if (snapshot) {
+      await this.persistAllocation(snapshot);
+      await this.syncSequenceConfig({ ...test, variants });
+    }
+
+    return variants;
+  }
+
+  /**
+   * Re-weight a Thompson-mode test now, regardless of the schedule
+   */
+  async reweightAllocation(testId: string): Promise<AllocationSnapshot> {
+    const test = await this.getTest(testId);
+    const allocator = await this.getAllocator(test);
+    allocator.observe(await getVariantObservations(test.id, test.primaryMetric));
+    const snapshot = allocator.reweight('manual');
+    await this.persistAllocation(snapshot);
+
+    const weights = allocator.getWeights();
+    await this.syncSequenceConfig({ ...test, variants: test.variants.map(v => ({ ...v, weight: weights[v.id] ?? v.weight })) });
+    return snapshot;
+  }
+
+  /**
+   * Allocation history for a test, oldest first: weights, posteriors and
+   * the reason each re-weight happened
+   */
+  async getAllocationHistory(testId: string): Promise<AllocationSnapshot[]> {
+    const { data, error } = await this.supabase
+      .from('ab_test_allocations')
+      .select('*')
+      .eq('test_id', testId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data ?? []).map((row: Record<string, unknown>) => this.hydrateAllocation(row));
+  }
+
+  private async getAllocator(test: ABTest): Promise<BanditAllocator> {
+    const cached = this.allocators.get(test.id);
+    if (cached) return cached;
+
+    const { data, error } = await this.supabase
+      .from('ab_test_allocations')
+      .select('*')
+      .eq('test_id', test.id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const allocator = new BanditAllocator(test.id, test.variants.map(v => v.id), {
+      explorationFloor: test.explorationFloor,
+      reweightEvery: test.reweightEvery,
+      initialWeights: Object.fromEntries(test.variants.map(v => [v.id, v.weight])),
+      lastSnapshot: data ? this.hydrateAllocation(data) : undefined,
+    });
+    if (!data) await this.persistAllocation(allocator.getHistory()[0]);
+
+    this.allocators.set(test.id, allocator);
+    return allocator;
+  }
+
+  private async persistAllocation(snapshot: AllocationSnapshot): Promise<void> {
+    for (const variant of snapshot.variants) {
+      const { error } = await this.supabase
+        .from('ab_test_variants')
+        .update({ weight: variant.weight })
+        .eq('id', variant.variantId);
+      if (error) throw error;
+    }
+
+    const { error } = await this.supabase
+      .from('ab_test_allocations')
+      .insert([{
+        test_id: snapshot.testId,
+        reason: snapshot.reason,
+        total_trials: snapshot.totalTrials,
+        exploration_floor: snapshot.explorationFloor,
+        variants: snapshot.variants,
+        created_at: snapshot.at,
+      }]);
+    if (error) throw error;
+  }
+
+  private hydrateAllocation(row: Record<string, unknown>): AllocationSnapshot {
+    return {
+      testId: row.test_id as string,
+      at: row.created_at as string,
+      reason: row.reason as AllocationSnapshot['reason'],
+      totalTrials: row.total_trials as number,
+      explorationFloor: row.exploration_floor as number,
+      variants: row.variants as AllocationSnapshot['variants'],
+    };
+  }
+
+  /**
+   * Analyze test results in the test's analysis mode, or another mode
+   * for comparison
+   */
+  async analyzeResults(testId: string, mode?: ABAnalysisMode): Promise<ABTestResult[]> {
+    const test = await this.getTest(testId);
+    const counts = await getVariantCounts(test.id, test.variants, test.primaryMetric);
+
+    return analyzeExperiment(counts, {
+      testId,
+      metric: test.primaryMetric,
+      mode: mode ?? test.analysisMode,
+      confidenceThreshold: test.confidenceThreshold,
+    });
+  }
+
+  /**
+   * Primary metric with Holm correction across variants, plus the test's
+   * guardrails. Stopped variants stay in the analysis for reporting.
+   */
+  async analyzeMetrics(testId: string, mode?: ABAnalysisMode): Promise<MultiMetricAnalysis> {
+    const test = await this.getTest(testId);
+    const counts = await getVariantCounts(test.id, test.variants, test.primaryMetric);
+
+    return analyzeMultiMetric(counts, {
+      testId,
+      metric: test.primaryMetric,
+      mode: mode ?? test.analysisMode,
+      confidenceThreshold: test.confidenceThreshold,
+      guardrails: test.guardrails,
+      minSample: test.minSample,
+    });
+  }
+
+  /**
+   * Stop variants that breach a 'stop' guardrail. A 'rollback' breach stops
+   * every variant and pauses the test, so all traffic returns to control.
+   */
+  async enforceGuardrails(testId: string): Promise<MultiMetricAnalysis> {
+    const test = await this.getTest(testId);
+    const analysis = await this.analyzeMetrics(testId);
+    const live = test.variants.filter(v => !v.isControl && !v.stoppedAt);
+    const breached = live.filter(v => analysis.decisions[v.id] === 'stop' || analysis.decisions[v.id] === 'rollback');
+    if (breached.length === 0) return analysis;
+
+    const rollback = breached.some(v => analysis.decisions[v.id] === 'rollback');
+    const now = new Date().toISOString();
+
+    for (const variant of rollback ? live : breached) {
+      const reasons = analysis.guardrails
+        .filter(c => c.variantId === variant.id && c.breached)
+        .map(c => c.reason);
+      const { error } = await this.supabase
+        .from('ab_test_variants')
+        .update({
+          weight: 0,
+          stopped_at: now,
+          stop_reason: reasons.length > 0 ? reasons.join('; ') : 'Rolled back to control',
+        })
+        .eq('id', variant.id);
+      if (error) throw error;
+    }
+
+    if (rollback) await this.updateTest(testId, { status: 'paused' });
+
+    // Rebuild the allocator from the remaining variants on next use
+    this.allocators.delete(testId);
+    await this.syncSequenceConfig(await this.getTest(testId));
+    return analysis;
+  }
+
+  /**
+   * Get winning variant (if any): significant after correction, with no
+   * guardrail breached
+   */
+  async getWinner(testId: string): Promise<ABTestVariant | null> {
+    const test = await this.getTest(testId);
+    const { winnerId } = await this.analyzeMetrics(testId);
+
+    if (!winnerId) return null;
+    return test.variants.find(v => v.id === winnerId) || null;
+  }
+
+  /**
+   * Select winning variant and complete test
+   */
+  async selectWinner(testId: string, variantId: string): Promise<ABTest> {
+    const now = new Date().toISOString();
+    await this.updateTest(testId, {
+      status: 'winner_selected',
+      winning_variant_id: variantId,
+      ended_at: now,
+    });
+
+    // Update variant
+    const { error } = await this.supabase
+      .from('ab_test_variants')
+      .update({ is_winner: true })
+      .eq('id', variantId);
+
+    if (error) throw error;
+
+    const test = await this.getTest(testId);
+    await this.syncSequenceConfig(test);
+    return test;
+  }
+
+  /**
+   * Get test progress
+   */
+  async getTestProgress(testId: string): Promise<{
+    totalEnrolled: number;
+    totalSent: number;
+    variantBreakdown: Record<string, { enrolled: number; sent: number; openRate: number; replyRate: number }>;
+  }> {
+    const results = await this.analyzeResults(testId);
+
+    const breakdown: Record<string, { enrolled: number; sent: number; openRate: number; replyRate: number }> = {};
+
+    for (const result of results) {
+      breakdown[result.variantKey] = {
+        enrolled: result.sampleSize,
+        sent: result.sampleSize,
+        openRate: result.metrics.openRate,
+        replyRate: result.metrics.replyRate,
+      };
+    }
+
+    return {
+      totalEnrolled: results.reduce((sum, r) => sum + r.sampleSize, 0),
+      totalSent: results.reduce((sum, r) => sum + r.sampleSize, 0),
+      variantBreakdown: breakdown,
+    };
+  }
+}
+
+export { ExperimentService as default };
@@ -7,6 +7,7 @@
  * - Chi-square test for independence
  * - Confidence intervals
  * - Sample size calculations
+ * - Beta posteriors and probability-of-best (Thompson sampling allocation)
  */
 
 export interface SignificanceResult {
@@ -148,6 +149,29 @@ export function isSignificant(
   return result.significant;
 }
 
+/**
+ * Post-hoc power of a two-proportion z-test at the observed rates
+ */
+export function statisticalPower(
+  controlSample: number,
+  controlRate: number,
+  treatmentSample: number,
+  treatmentRate: number,
+  confidenceLevel: number = 0.95
+): number {
+  if (controlSample <= 0 || treatmentSample <= 0) return 0;
+
+  const se = Math.sqrt(
+    (controlRate * (1 - controlRate)) / controlSample +
+    (treatmentRate * (1 - treatmentRate)) / treatmentSample
+  );
+  if (se === 0) return 0;
+
+  const zAlpha = Z_SCORES[confidenceLevel] || 1.96;
+  const z = (treatmentRate - controlRate) / se;
+  return standardNormalCDF(z - zAlpha) + standardNormalCDF(-z - zAlpha);
+}
+
 /**
  * Calculate required sample size for A/B test
  * Uses standard power analysis formula for proportions
@@ -248,6 +272,26 @@ export function chiSquareTest(
   };
 }
 
+/**
+ * Beta distribution parameters
+ */
+export interface BetaPosterior {
+  alpha: number;
+  beta: number;
+}
+
+/**
+ * Beta posterior for a conversion rate (uniform Beta(1, 1) prior)
+ */
+export function betaPosterior(sample: number, conversions: number): BetaPosterior {
+  const alphaPrior = 1;
+  const betaPrior = 1;
+  return {
+    alpha: alphaPrior + conversions,
+    beta: betaPrior + Math.max(sample - conversions, 0),
+  };
+}
+
 /**
  * Bayesian analysis for A/B test
  * Returns probability that treatment is better than control
@@ -259,15 +303,9 @@ export function bayesianAnalysis(
   treatmentConversions: number,
   simulations: number = 10000
 ): { probabilityTreatmentWins: number; expectedLift: number; credibleInterval: [number, number] } {
-  // Beta prior (uniform)
-  const alphaPrior = 1;
-  const betaPrior = 1;
-
   // Posterior parameters
-  const controlAlpha = alphaPrior + controlConversions;
-  const controlBeta = betaPrior + controlSample - controlConversions;
-  const treatmentAlpha = alphaPrior + treatmentConversions;
-  const treatmentBeta = betaPrior + treatmentSample - treatmentConversions;
+  const { alpha: controlAlpha, beta: controlBeta } = betaPosterior(controlSample, controlConversions);
+  const { alpha: treatmentAlpha, beta: treatmentBeta } = betaPosterior(treatmentSample, treatmentConversions);
 
   // Monte Carlo simulation
   let treatmentWins = 0;
@@ -296,6 +334,34 @@ export function bayesianAnalysis(
   };
 }
 
+/**
+ * Probability that each arm has the highest rate (multi-variant generalization
+ * of bayesianAnalysis). Each simulation draws one rate per posterior, as
+ * Thompson sampling does, and counts which arm wins.
+ */
+export function probabilityOfBeingBest(
+  posteriors: BetaPosterior[],
+  simulations: number = 10000
+): number[] {
+  const wins = posteriors.map(() => 0);
+  if (posteriors.length === 0) return wins;
+
+  for (let i = 0; i < simulations; i++) {
+    let best = 0;
+    let bestRate = -1;
+    posteriors.forEach((posterior, arm) => {
+      const rate = sampleBeta(posterior.alpha, posterior.beta);
+      if (rate > bestRate) {
+        best = arm;
+        bestRate = rate;
+      }
+    });
+    wins[best]++;
+  }
+
+  return wins.map(w => w / simulations);
+}
+
 /**
  * Sequential testing (optional early stopping)
  * Uses optimistic bounds for valid p-values with optional stopping
@@ -473,7 +539,7 @@ function chiSquaredCDF(x: number, df: number): number {
 /**
  * Sample from Beta distribution (Box-Muller style)
  */
-function sampleBeta(alpha: number, beta: number): number {
+export function sampleBeta(alpha: number, beta: number): number {
   const x = sampleGamma(alpha, 1);
   const y = sampleGamma(beta, 1);
   return x / (x + y);
@@ -532,8 +598,11 @@ export {
 export default {
   calculateStatisticalSignificance,
   isSignificant,
+  statisticalPower,
   calculateSampleSize,
   chiSquareTest,
   bayesianAnalysis,
+  betaPosterior,
+  probabilityOfBeingBest,
   proportionConfidenceInterval,
 };
@@ -4,18 +4,11 @@
  */
 
 import { supabase } from '@/lib/supabase';
+import type { ABTestEvent, ABTestMetric, ABTestVariant } from '@/types/sequences';
+import { countVariantEvents, type VariantCounts } from './analysis';
+import type { BanditAllocator, VariantObservation } from './bandit';
 
-export interface ABTestEvent {
-  id?: string;
-  testId: string;
-  variantId: string;
-  prospectId: string;
-  sequenceId: string;
-  touchId?: string;
-  eventType: 'sent' | 'opened' | 'clicked' | 'replied' | 'meeting_booked' | 'unsubscribed';
-  metadata?: Record<string, any>;
-  createdAt?: string;
-}
+export type { ABTestEvent };
 
 export interface TestResults {
   test_id: string;
@@ -143,6 +136,60 @@ export async function getTestResults(testId: string): Promise<TestResults[]> {
   return results;
 }
 
+/** Event counted as a success for each primary metric */
+const METRIC_EVENTS = {
+  openRate: 'opened',
+  clickRate: 'clicked',
+  replyRate: 'replied',
+  bookRate: 'meeting_booked',
+} as const;
+
+/**
+ * Per-variant trials (sends) and successes on the primary metric,
+ * as fed to the Thompson sampling allocator
+ */
+export async function getVariantObservations(
+  testId: string,
+  primaryMetric: ABTestMetric
+): Promise<VariantObservation[]> {
+  const results = await getTestResults(testId);
+  return results.map(r => ({
+    variantId: r.variant_id,
+    trials: r.sent,
+    successes: Math.min(r[METRIC_EVENTS[primaryMetric]], r.sent),
+  }));
+}
+
+/**
+ * Raw per-variant counts with daily periods, as fed to analyzeExperiment()
+ */
+export async function getVariantCounts(
+  testId: string,
+  variants: Array<Pick<ABTestVariant, 'id' | 'variantKey' | 'isControl'>>,
+  primaryMetric: ABTestMetric
+): Promise<VariantCounts[]> {
+  const { data: events, error } = await supabase
+    .from('ab_test_events')
+    .select('variant_id, event_type, created_at')
+    .eq('test_id', testId)
+    .order('created_at', { ascending: true });
+
+  if (error || !events) {
+    console.error('Error fetching variant counts:', error);
+    return countVariantEvents([], variants, primaryMetric);
+  }
+
+  return countVariantEvents(
+    events.map((e: Record<string, unknown>) => ({
+      variantId: e.variant_id as string,
+      eventType: e.event_type as ABTestEvent['eventType'],
+      createdAt: e.created_at as string,
+    })),
+    variants,
+    primaryMetric
+  );
+}
+
 /**
  * Get real-time event stream for a test
  */
@@ -210,29 +257,36 @@ export async function batchCreateEvents(
   };
 }
 
+/**
+ * Map a prospect ID to [0, 1) with a stable string hash
+ */
+export function hashToUnitInterval(prospectId: string): number {
+  const hash = prospectId.split('').reduce((acc, char) => {
+    return ((acc << 5) - acc + char.charCodeAt(0)) | 0;
+  }, 0);
+  return (hash >>> 0) / 4294967296;
+}
+
 /**
  * Get variant assignment for a prospect
- * Uses consistent hashing for 50/50 or custom split
+ * Uses consistent hashing for 50/50 or custom split. Pass a BanditAllocator
+ * instead of weights for adaptive (Thompson sampling) allocation.
  */
 export function assignVariant(
   prospectId: string,
   variants: string[],
-  weights?: number[]
+  weights?: number[] | BanditAllocator
 ): string {
-  // Simple hash-based assignment
-  const hash = prospectId.split('').reduce((acc, char) => {
-    return ((acc << 5) - acc) + char.charCodeAt(0);
-  }, 0);
+  const split = weights && !Array.isArray(weights) ? weights.weightsFor(variants) : weights;
 
   // Use weights or uniform distribution
-  const totalWeight = weights?.reduce((a, b) => a + b, 0) || variants.length;
-  const normalizedHash = Math.abs(hash) / Number.MAX_SAFE_INTEGER;
-  const threshold = normalizedHash * totalWeight;
+  const totalWeight = split?.reduce((a, b) => a + b, 0) || variants.length;
+  const threshold = hashToUnitInterval(prospectId) * totalWeight;
 
   let cumulativeWeight = 0;
   for (let i = 0; i < variants.length; i++) {
-    cumulativeWeight += weights?.[i] || 1;
-    if (threshold <= cumulativeWeight) {
+    cumulativeWeight += split?.[i] ?? 1;
+    if (threshold < cumulativeWeight) {
       return variants[i];
     }
   }
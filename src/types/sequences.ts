@@ -12,8 +12,20 @@ export type TouchStatus = 'draft' | 'scheduled' | 'sending' | 'sent' | 'opened'
 // Sequence status
 export type SequenceStatus = 'draft' | 'active' | 'paused' | 'completed' | 'archived';
 
-// A/B Test status
-export type ABTestStatus = 'pending' | 'running' | 'paused' | 'complete' | 'winner_declared';
+// A/B Test status (ab_tests.status)
+export type ABTestStatus = 'draft' | 'running' | 'paused' | 'completed' | 'winner_selected';
+
+// What an A/B test varies: whole sequences, one touch, or one email template
+export type ABTestLevel = 'sequence' | 'touch' | 'template';
+
+// Metric that decides the winner
+export type ABTestMetric = 'openRate' | 'clickRate' | 'replyRate' | 'bookRate';
+
+// Health metrics a variant must not degrade, whatever its primary result
+export type ABGuardrailMetric = 'bounceRate' | 'unsubscribeRate' | 'spamComplaintRate';
+
+// Statistical method used to analyze results (see lib/testing/significance.ts)
+export type ABAnalysisMode = 'frequentist' | 'chi_square' | 'bayesian' | 'sequential';
 
 /**
  * Base touch structure - a single outreach step
@@ -176,6 +188,12 @@ export interface SequenceConfig {
   autoDeclareWinner: boolean;
   confidenceThreshold: number;
   minSampleSize: number;
+  /** 'thompson' shifts traffic toward the leading variant as results arrive */
+  allocationMode?: 'fixed' | 'thompson';
+  /** Minimum traffic share per variant in thompson mode */
+  explorationFloor?: number;
+  /** New sends between re-weights in thompson mode */
+  reweightEvery?: number;
 }
 
 /**
@@ -258,45 +276,52 @@ export interface ProspectSequenceMetrics {
 }
 
 /**
- * A/B Test definition
+ * A/B Test definition (ab_tests + ab_test_variants)
  */
 export interface ABTest {
   id: string;
   name: string;
   description?: string;
-  type: 'touch' | 'sequence'; // Testing individual touches vs entire sequences
-  
-  // For touch-level testing
+  type: ABTestLevel;
+
+  // Sequence-level: sequenceIds (or sequenceId with touchVariants per variant)
+  // Touch-level: sequenceId + touchId
+  // Template-level: templateId; variants point at template variants
   sequenceId?: string;
-  touchId?: string;
-  
-  // For sequence-level testing
   sequenceIds?: string[];
-  
+  touchId?: string;
+  templateId?: string;
+
   // Variants
   variants: ABTestVariant[];
-  
+
   // Configuration
   split: number; // Default split (0.5 = 50/50)
   minSample: number;
   maxSample?: number;
   confidenceThreshold: number; // e.g., 0.95 for 95%
-  
-  // Primary metric for determining winner
-  primaryMetric: 'openRate' | 'clickRate' | 'replyRate' | 'bookRate';
-  
+  primaryMetric: ABTestMetric;
+  analysisMode: ABAnalysisMode;
+  guardrails: ABTestGuardrail[];
+
+  // Allocation ('thompson' shifts weights toward the leader as results arrive)
+  allocationMode: 'fixed' | 'thompson';
+  explorationFloor: number;
+  reweightEvery: number;
+
   // Status
   status: ABTestStatus;
   winningVariantId?: string;
   confidence?: number;
-  
+
   // Schedule
-  startedAt?: Date;
-  endedAt?: Date;
-  autoEndAt?: Date;
-  
-  createdAt: Date;
-  updatedAt: Date;
+  startedAt?: string;
+  endedAt?: string;
+  autoEndAt?: string;
+
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
 }
 
 /**
@@ -308,43 +333,66 @@ export interface ABTestVariant {
   variantKey: string; // 'a', 'b', 'c', 'd'
   name: string;
   weight: number; // Traffic allocation (0-1)
-  
+
   // For sequence-level tests
   touchVariants?: Record<string, string>; // Which variant to use for each touch
-  
+  // For template-level tests
+  templateId?: string;
+
   // Metrics
   sampleSize: number;
-  metrics: VariantSequenceMetrics;
-  
+  metrics: Pick<VariantSequenceMetrics, 'openRate' | 'clickRate' | 'replyRate' | 'bookRate'>;
+
   // Winning
   isControl: boolean;
   isWinner?: boolean;
   confidenceVsControl?: number;
+
+  // Set when a guardrail stopped the variant
+  stoppedAt?: string;
+  stopReason?: string;
+}
+
+/**
+ * Guardrail on a health metric. A variant breaches it when its rate passes
+ * the ceiling, or rises more than maxIncrease over control (significantly).
+ * 'stop' pulls the variant; 'rollback' sends all traffic back to control.
+ */
+export interface ABTestGuardrail {
+  metric: ABGuardrailMetric;
+  maxRate?: number; // Absolute ceiling (0.003 = 0.3%)
+  maxIncrease?: number; // Largest tolerated increase over control (0.01 = 1 point)
+  minSample?: number; // Sends before the ceiling applies (default 100)
+  action: 'stop' | 'rollback';
 }
 
 /**
- * Event for tracking A/B test interactions
+ * Event for tracking A/B test interactions (ab_test_events)
  */
 export interface ABTestEvent {
-  id: string;
+  id?: string;
   testId: string;
   variantId: string;
   prospectId: string;
-  sequenceId: string;
+  sequenceId?: string;
   touchId?: string;
-  eventType: 'enroll' | 'send' | 'open' | 'click' | 'reply' | 'book' | 'bounce' | 'unsubscribe';
-  timestamp: Date;
+  eventType: 'sent' | 'opened' | 'clicked' | 'replied' | 'meeting_booked' | 'unsubscribed' | 'bounced' | 'spam_complaint';
   metadata?: Record<string, unknown>;
+  createdAt?: string;
 }
 
 /**
- * Statistical result for A/B test analysis
+ * Statistical result for A/B test analysis. Each mode fills the fields it
+ * computes; `significant` always means "beats control at the test's
+ * confidence threshold", so results compare across modes.
  */
 export interface ABTestResult {
   testId: string;
   variantId: string;
   variantKey: string;
+  isControl: boolean;
   sampleSize: number;
+  conversions: number;
   metrics: {
     openRate: number;
     clickRate: number;
@@ -353,15 +401,39 @@ export interface ABTestResult {
   };
   // Statistical calculations
   statistics: {
-    confidenceInterval: [number, number];
-    standardError: number;
+    mode: ABAnalysisMode;
+    confidenceInterval: [number, number]; // Difference vs control (rate)
+    standardError?: number;
     zScore?: number;
     pValue?: number;
+    adjustedPValue?: number; // Holm-corrected across variants (multi-metric analysis)
+    power?: number;
+    chi2?: number;
+    probabilityBeatsControl?: number; // Bayesian
+    credibleInterval?: [number, number]; // Bayesian, relative lift
+    shouldStop?: boolean; // Sequential
     significant: boolean;
     liftVsControl?: number; // Percentage improvement
   };
 }
 
+/**
+ * Typed contract for email_sequences.ab_test_config (read by the
+ * assign_ab_variant() SQL function). Validate with validateABTestConfig().
+ */
+export interface ABTestConfig {
+  enabled: boolean;
+  testId?: string;
+  level: ABTestLevel;
+  variants: string[]; // Variant keys; the first is the control
+  weights: number[]; // Integer weights, same order as variants
+  primaryMetric: ABTestMetric;
+  analysisMode: ABAnalysisMode;
+  confidenceThreshold: number;
+  minSample: number;
+  autoDeclareWinner: boolean;
+}
+
 /**
  * Template for pre-built sequences
  */
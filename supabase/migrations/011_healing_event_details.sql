@@ -0,0 +1,8 @@
+-- Migration: Add error details to healing_events
+-- Lets the self-healing engine record in-memory task IDs, error severity and the final error
+
+ALTER TABLE healing_events ADD COLUMN IF NOT EXISTS task_ref TEXT;
+ALTER TABLE healing_events ADD COLUMN IF NOT EXISTS severity TEXT CHECK (severity IN ('transient', 'persistent', 'critical'));
+ALTER TABLE healing_events ADD COLUMN IF NOT EXISTS error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_healing_events_started ON healing_events(started_at DESC);
@@ -0,0 +1,38 @@
+-- Migration: Create blocker_predictions table
+-- Tracks predictive guard forecasts and their outcomes for GuardMetrics
+
+CREATE TABLE IF NOT EXISTS blocker_predictions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  task_ref TEXT NOT NULL,
+  pattern_id TEXT NOT NULL,
+  severity TEXT CHECK (severity IN ('high', 'medium', 'low')),
+  confidence NUMERIC(5,2) CHECK (confidence >= 0 AND confidence <= 100),
+  preconditions JSONB DEFAULT '[]',
+  mitigation_task_ref TEXT,
+  status TEXT CHECK (status IN ('predicted', 'prevented', 'occurred', 'false_positive')) DEFAULT 'predicted',
+  actual_outcome TEXT CHECK (actual_outcome IN ('blocked', 'unblocked', 'no_issue')),
+  predicted_at TIMESTAMPTZ DEFAULT NOW(),
+  predicted_for TIMESTAMPTZ,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_blocker_predictions_status ON blocker_predictions(status);
+CREATE INDEX IF NOT EXISTS idx_blocker_predictions_task ON blocker_predictions(task_ref);
+CREATE INDEX IF NOT EXISTS idx_blocker_predictions_predicted ON blocker_predictions(predicted_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE blocker_predictions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can see their own predictions
+CREATE POLICY "Users can view own blocker predictions" ON blocker_predictions
+    FOR SELECT USING (auth.uid()::text = user_id);
+
+-- Policy: System can create predictions
+CREATE POLICY "System can create blocker predictions" ON blocker_predictions
+    FOR INSERT WITH CHECK (true);
+
+-- Policy: System can update predictions
+CREATE POLICY "System can update blocker predictions" ON blocker_predictions
+    FOR UPDATE USING (true);
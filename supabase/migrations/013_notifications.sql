@@ -0,0 +1,74 @@
+-- Migration: Create notification_routes and notifications tables
+-- Per-user alert routing rules and the in-app notification feed
+
+CREATE TABLE IF NOT EXISTS notification_routes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('webhook', 'email', 'in_app')),
+  target TEXT,
+  min_severity TEXT CHECK (min_severity IN ('info', 'warning', 'error', 'critical')) DEFAULT 'warning',
+  sources TEXT[],
+  components TEXT[],
+  quiet_hours JSONB,
+  enabled BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  severity TEXT CHECK (severity IN ('info', 'warning', 'error', 'critical')) NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  source TEXT,
+  action_command TEXT,
+  resolved BOOLEAN DEFAULT FALSE,
+  metadata JSONB DEFAULT '{}',
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_routes_user ON notification_routes(user_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_id, created_at DESC);
+
+-- Trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_notification_routes_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_notification_routes ON notification_routes;
+CREATE TRIGGER trigger_update_notification_routes
+  BEFORE UPDATE ON notification_routes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_notification_routes_updated_at();
+
+-- Enable Row Level Security
+ALTER TABLE notification_routes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users manage their own routing rules
+CREATE POLICY "Users can view own notification routes" ON notification_routes
+    FOR SELECT USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Users can manage own notification routes" ON notification_routes
+    FOR ALL USING (auth.uid()::text = user_id) WITH CHECK (auth.uid()::text = user_id);
+
+-- Policy: Users can see their own notifications
+CREATE POLICY "Users can view own notifications" ON notifications
+    FOR SELECT USING (auth.uid()::text = user_id);
+
+-- Policy: System can create notifications
+CREATE POLICY "System can create notifications" ON notifications
+    FOR INSERT WITH CHECK (true);
+
+-- Policy: Users can mark notifications read
+CREATE POLICY "Users can update own notifications" ON notifications
+    FOR UPDATE USING (auth.uid()::text = user_id);
+
+COMMENT ON COLUMN notification_routes.target IS 'Webhook URL (Slack-compatible) or email address; NULL for in_app';
+COMMENT ON COLUMN notification_routes.quiet_hours IS '{"start": "HH:MM", "end": "HH:MM", "timezone"?: IANA zone}';
@@ -0,0 +1,20 @@
+-- Migration: Create research_job_row_errors and the research-imports bucket
+-- Per-row validation errors from bulk_import jobs, downloadable as CSV
+
+CREATE TABLE IF NOT EXISTS research_job_row_errors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES research_jobs(id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL,
+  column_name TEXT,
+  field TEXT,
+  value TEXT,
+  message TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_research_job_row_errors_job ON research_job_row_errors(job_id, row_number);
+
+-- Uploaded import files, stored under <user id>/<upload id>-<file name>
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('research-imports', 'research-imports', false)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,17 @@
+-- Migration: Create research_list_members
+-- Ranked prospect lists assembled by list_building jobs, one row per prospect
+
+CREATE TABLE IF NOT EXISTS research_list_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES research_jobs(id) ON DELETE CASCADE,
+  prospect_id UUID NOT NULL REFERENCES prospects(id) ON DELETE CASCADE,
+  segment TEXT NOT NULL,
+  quality_grade TEXT NOT NULL CHECK (quality_grade IN ('A', 'B', 'C', 'D', 'E', 'F')),
+  quality_score INTEGER NOT NULL,
+  rank INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (job_id, prospect_id)
+);
+
+CREATE INDEX idx_research_list_members_job ON research_list_members(job_id, rank);
+CREATE INDEX idx_research_list_members_prospect ON research_list_members(prospect_id);
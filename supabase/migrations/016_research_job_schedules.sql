@@ -0,0 +1,46 @@
+-- Migration: Research job schedules and chains
+-- Recurring jobs run on a cron schedule; chained jobs wait on parent_job_id
+
+ALTER TABLE research_jobs
+  ADD COLUMN IF NOT EXISTS schedule_cron TEXT,
+  ADD COLUMN IF NOT EXISTS schedule_timezone TEXT,
+  -- First job of a recurring series; NULL on the first job itself
+  ADD COLUMN IF NOT EXISTS recurrence_id UUID REFERENCES research_jobs(id) ON DELETE SET NULL;
+
+-- Children released or cancelled when their parent finishes
+CREATE INDEX IF NOT EXISTS idx_research_jobs_parent ON research_jobs(parent_job_id)
+  WHERE parent_job_id IS NOT NULL;
+
+-- One run per series per scheduled time, so a run is never spawned twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_research_jobs_recurrence_run ON research_jobs(recurrence_id, scheduled_at)
+  WHERE recurrence_id IS NOT NULL AND parent_job_id IS NULL;
+
+-- Per-user concurrency checks at claim time
+CREATE INDEX IF NOT EXISTS idx_research_jobs_running_user ON research_jobs(created_by)
+  WHERE status = 'running';
+
+-- Queue a job's pending follow-ups when it completes; cancel them when it
+-- fails or is cancelled (cancelling a follow-up cascades further down)
+CREATE OR REPLACE FUNCTION settle_research_job_children()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' THEN
+    UPDATE research_jobs
+    SET status = 'queued'
+    WHERE parent_job_id = NEW.id AND status = 'pending';
+  ELSIF NEW.status IN ('failed', 'cancelled') THEN
+    UPDATE research_jobs
+    SET status = 'cancelled',
+        last_error = 'Parent job ' || NEW.status,
+        completed_at = now()
+    WHERE parent_job_id = NEW.id AND status IN ('pending', 'queued', 'paused');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER settle_research_job_children
+  AFTER UPDATE OF status ON research_jobs
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION settle_research_job_children();
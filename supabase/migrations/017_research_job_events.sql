@@ -0,0 +1,29 @@
+-- Migration: Create research_job_events
+-- Progress and status events published by the research job queue. Each
+-- insert is announced on the research_job_events NOTIFY channel; stored rows
+-- let SSE clients resume from their Last-Event-ID.
+
+CREATE TABLE IF NOT EXISTS research_job_events (
+  id BIGSERIAL PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES research_jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('progress', 'status')),
+  payload JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Replay: a user's events after an id
+CREATE INDEX idx_research_job_events_user ON research_job_events(user_id, id);
+CREATE INDEX idx_research_job_events_created ON research_job_events(created_at);
+
+-- Events only matter for resuming a stream; drop them after a day
+CREATE OR REPLACE FUNCTION prune_research_job_events(keep INTERVAL DEFAULT INTERVAL '1 day')
+RETURNS INTEGER AS $$
+DECLARE
+  removed INTEGER;
+BEGIN
+  DELETE FROM research_job_events WHERE created_at < now() - keep;
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  RETURN removed;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,237 @@
+/**
+ * Unit Tests - Alert Rules
+ *
+ * Tests the declarative alert engine:
+ * - Conditions, aggregations and message templates
+ * - "for" durations (pending → firing)
+ * - Resolve notifications
+ * - Silences
+ * - QueueMonitor integration (default rules, persisted history)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AlertRuleEngine, renderMessage } from '@/lib/alert-rules';
+import type { AlertRule } from '@/lib/alert-rules';
+import { InMemoryMetricsStore } from '@/lib/metrics-store';
+import type { MetricSample } from '@/lib/metrics-store';
+import { QueueMonitor, createDefaultAlertRules } from '@/lib/queue-monitor';
+import type { Alert } from '@/lib/queue-monitor';
+import { EmailRateLimiter } from '@/lib/rate-limiter';
+import { EmailProcessor, createSimulatedProvider } from '@/lib/email-processor';
+import { getEmailQueueService, resetEmailQueueService } from '@/lib/email-queue';
+
+const START = new Date('2026-03-10T15:00:00Z').getTime();
+
+const errorRateRule: AlertRule = {
+  id: 'error-rate',
+  component: 'processor',
+  severity: 'error',
+  conditions: [{ metric: 'email_error_rate', op: '>', threshold: 0.1 }],
+  forMs: 2 * 60 * 1000,
+  message: 'Error rate {{value:pct}} exceeds {{threshold:pct}}',
+};
+
+describe('Alert Rules - Engine', () => {
+  let clock: number;
+  let engine: AlertRuleEngine;
+
+  const at = (minutes: number) => {
+    clock = START + minutes * 60 * 1000;
+    return new Date(clock);
+  };
+  const errorRate = (minutes: number, value: number): MetricSample[] => [
+    { series: 'email_error_rate', type: 'gauge', timestamp: at(minutes), value },
+  ];
+
+  beforeEach(() => {
+    clock = START;
+    engine = new AlertRuleEngine({ rules: [errorRateRule], now: () => new Date(clock) });
+  });
+
+  it('should stay pending until the for duration has elapsed', () => {
+    expect(engine.evaluate(errorRate(0, 0.2))).toEqual([]);
+    expect(engine.getStatus()[0]).toMatchObject({ state: 'pending', activeSince: new Date(START) });
+
+    expect(engine.evaluate(errorRate(1, 0.25))).toEqual([]);
+
+    const [notification] = engine.evaluate(errorRate(2, 0.3));
+    expect(notification.status).toBe('firing');
+    expect(notification.alert).toMatchObject({
+      severity: 'error',
+      component: 'processor',
+      ruleId: 'error-rate',
+      message: 'Error rate 30.0% exceeds 10.0%',
+    });
+    expect(engine.getFiring()).toHaveLength(1);
+  });
+
+  it('should reset pending rules when the condition clears', () => {
+    engine.evaluate(errorRate(0, 0.2));
+    engine.evaluate(errorRate(1, 0.05));
+    expect(engine.evaluate(errorRate(2, 0.2))).toEqual([]);
+    expect(engine.getStatus()[0].activeSince).toEqual(at(2));
+  });
+
+  it('should send a resolve notification when a firing rule clears', () => {
+    engine.evaluate(errorRate(0, 0.2));
+    engine.evaluate(errorRate(2, 0.2));
+
+    const [resolved] = engine.evaluate(errorRate(3, 0.01));
+    expect(resolved.status).toBe('resolved');
+    expect(resolved.alert.resolvedAt).toEqual(at(3));
+    expect(engine.getFiring()).toHaveLength(0);
+  });
+
+  it('should aggregate over a window and require every condition', () => {
+    engine = new AlertRuleEngine({
+      now: () => new Date(clock),
+      rules: [{
+        id: 'stalled',
+        component: 'processor',
+        severity: 'critical',
+        conditions: [
+          { metric: 'email_throughput', op: '<', threshold: 1, aggregation: 'avg', windowMs: 5 * 60 * 1000 },
+          { metric: 'email_queue_depth', op: '>', threshold: 10 },
+        ],
+        message: 'Stalled with {{values.email_queue_depth}} jobs',
+      }],
+    });
+    const pass = (minutes: number, throughput: number, depths: number[]): MetricSample[] => [
+      { series: 'email_throughput', type: 'gauge', timestamp: at(minutes), value: throughput },
+      ...depths.map((value, i) => ({ series: 'email_queue_depth', type: 'gauge' as const, timestamp: at(minutes), value, labels: { queue: `q${i}` } })),
+    ];
+
+    expect(engine.evaluate(pass(0, 3, [6, 6]))).toEqual([]);
+    expect(engine.evaluate(pass(1, 0, [6, 6]))).toEqual([]);
+
+    // Window average is now (3 + 0 + 0) / 3 = 1, then 0.75 once more zeros arrive
+    expect(engine.evaluate(pass(2, 0, [6, 6]))).toEqual([]);
+    const [notification] = engine.evaluate(pass(3, 0, [6, 6]));
+    expect(notification.alert.message).toBe('Stalled with 12 jobs');
+
+    // First sample ages out of the window; depth drops below the threshold
+    expect(engine.evaluate(pass(9, 0, [4, 4]))[0].status).toBe('resolved');
+  });
+
+  it('should hold notifications while silenced and fire once the silence ends', () => {
+    engine.silence({ matchers: { component: 'processor' }, endsAt: new Date(START + 5 * 60 * 1000), comment: 'Provider maintenance' });
+
+    engine.evaluate(errorRate(0, 0.2));
+    expect(engine.evaluate(errorRate(2, 0.2))).toEqual([]);
+    expect(engine.getFiring()).toHaveLength(1);
+    expect(engine.getStatus()[0]).toMatchObject({ state: 'firing', silenced: true });
+
+    const [notification] = engine.evaluate(errorRate(5, 0.2));
+    expect(notification.status).toBe('firing');
+    expect(engine.getSilences()).toHaveLength(0);
+  });
+
+  it('should not send resolve notifications for alerts that never notified', () => {
+    const silence = engine.silence({ matchers: { ruleId: 'error-rate' }, endsAt: new Date(START + 60 * 60 * 1000) });
+    engine.evaluate(errorRate(0, 0.2));
+    engine.evaluate(errorRate(2, 0.2));
+
+    expect(engine.evaluate(errorRate(3, 0))).toEqual([]);
+    expect(engine.unsilence(silence.id)).toBe(true);
+  });
+
+  it('should skip disabled rules and reject rules without conditions', () => {
+    engine.addRule({ ...errorRateRule, enabled: false });
+    expect(engine.evaluate(errorRate(0, 1))).toEqual([]);
+    expect(engine.getStatus()[0].state).toBe('inactive');
+
+    expect(() => engine.addRule({ ...errorRateRule, id: 'empty', conditions: [] })).toThrow('has no conditions');
+  });
+
+  it('should render templates with missing values', () => {
+    expect(renderMessage(errorRateRule, {})).toBe('Error rate n/a exceeds 10.0%');
+    expect(renderMessage({ ...errorRateRule, message: '{{metric}} at {{value}} ({{unknown}})' }, { email_error_rate: 0.126 }))
+      .toBe('email_error_rate at 0.13 ({{unknown}})');
+  });
+});
+
+describe('Alert Rules - QueueMonitor', () => {
+  let store: InMemoryMetricsStore;
+  let monitor: QueueMonitor;
+
+  beforeEach(() => {
+    resetEmailQueueService();
+    store = new InMemoryMetricsStore();
+    monitor = new QueueMonitor(
+      getEmailQueueService(),
+      new EmailRateLimiter(),
+      new EmailProcessor({ provider: createSimulatedProvider(), logLevel: 'error' }),
+      { metricsStore: store, queueDepthWarning: 0 }
+    );
+  });
+
+  const sample = () => (monitor as unknown as { sample: () => Promise<void> }).sample();
+
+  it('should build default rules from the monitor thresholds', () => {
+    const rules = createDefaultAlertRules({
+      queueDepthWarning: 500,
+      errorRateThreshold: 0.05,
+      latencyThresholdMs: 2000,
+      rateLimitUtilization: 0.9,
+    });
+
+    expect(rules.map(r => r.id)).toEqual(['queue-depth', 'error-rate', 'no-throughput', 'latency', 'rate-limit-utilization']);
+    expect(rules[0].conditions[0].threshold).toBe(500);
+  });
+
+  it('should fire and resolve rule alerts from samples', async () => {
+    const events: Alert[] = [];
+    monitor.subscribe(alert => events.push({ ...alert }));
+
+    getEmailQueueService().pauseAll();
+    await getEmailQueueService().addEmail({
+      jobId: 'job-1',
+      to: 'jordan@acme.com',
+      from: 'rep@adzeta.io',
+      subject: 'Hi',
+      text: 'Hello',
+      accountId: 'default',
+      accountAgeInDays: 30,
+    });
+    await sample();
+
+    expect(events.map(e => e.ruleId).sort()).toEqual(['no-throughput', 'queue-depth']);
+    expect(monitor.getAlerts()).toHaveLength(2);
+    expect(events.find(e => e.ruleId === 'queue-depth')?.message).toBe('Queue depth exceeded 0 jobs (current: 1)');
+
+    await getEmailQueueService().removeJob('job-1');
+    await sample();
+
+    expect(events.filter(e => e.resolvedAt).map(e => e.ruleId).sort()).toEqual(['no-throughput', 'queue-depth']);
+    expect(monitor.getAlerts()).toHaveLength(0);
+  });
+
+  it('should keep silenced alerts active without notifying', async () => {
+    const events: Alert[] = [];
+    monitor.subscribe(alert => events.push(alert));
+    monitor.getAlertEngine().silence({ matchers: { ruleId: 'latency' }, endsAt: new Date(Date.now() + 60000) });
+
+    monitor.recordLatency(60000);
+    await sample();
+
+    expect(events.some(e => e.ruleId === 'latency')).toBe(false);
+    expect(monitor.getAlerts().map(a => a.ruleId)).toContain('latency');
+  });
+
+  it('should serve historical metrics from the store', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(START + 10 * 1000));
+    await sample();
+    vi.setSystemTime(new Date(START + 20 * 1000));
+    await sample();
+
+    // 24h window reads 1m rollups, short windows read raw samples
+    const history = await monitor.getHistoricalMetrics('24h');
+    const recent = await monitor.getHistoricalMetrics('15m');
+    vi.useRealTimers();
+
+    expect(history.throughput).toEqual([{ timestamp: new Date(START), value: 0, labels: {} }]);
+    expect(history.errors).toHaveLength(1);
+    expect(recent.throughput).toHaveLength(2);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Unit Tests - Email Approval Workflow
+ *
+ * Tests the review lifecycle on email_approval_queue:
+ * - Per-recipient previews from the stored template
+ * - Approve (release into EmailQueueService), reject, request changes
+ * - Edits re-score the batch and return it to pending
+ * - Auto-approval thresholds from autonomy settings
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  ApprovalError,
+  ApprovalQueue,
+  InMemoryApprovalQueueStore,
+  autoApprovalPolicyFromSettings,
+  type ApprovalRequestInput,
+} from '@/lib/approval-queue';
+import { getEmailQueueService, resetEmailQueueService } from '@/lib/email-queue';
+import { DEFAULT_SETTINGS, type SettingsData } from '@/lib/settings-types';
+
+const BATCH: ApprovalRequestInput = {
+  batchId: 'batch-7',
+  subject: 'Question about {{company}}',
+  bodyHtml: '<p>Hi {{first_name}},</p><p>Noticed {{company}} is hiring. Worth a chat?</p><p><a href="{{unsubscribe_url|#}}">Unsubscribe</a></p>',
+  bodyText: 'Hi {{first_name}}, noticed {{company}} is hiring. Worth a chat? Unsubscribe: {{unsubscribe_url|#}}',
+  recipients: [
+    { to: 'jordan@acme.com', prospect_id: 'p-1', prospect: { first_name: 'Jordan', company: 'Acme' } },
+    { to: 'sam@globex.com', prospect_id: 'p-2', prospect: { first_name: 'Sam', company: { name: 'Globex' } } },
+    { to: 'lee@initech.com', prospect: { company: 'Initech' } },
+  ],
+  sendOptions: { from: 'rep@adzeta.io', account_id: 'acct-1', account_age_in_days: 60 },
+  requestedBy: 'user-1',
+};
+
+describe('Approval Workflow - Review', () => {
+  let queue: ApprovalQueue;
+  const addEmail = vi.fn(async (data: { jobId: string }) => ({ id: data.jobId, queue: 'email-normal' }));
+
+  beforeEach(() => {
+    addEmail.mockClear();
+    queue = new ApprovalQueue({
+      store: new InMemoryApprovalQueueStore(),
+      emailQueue: { addEmail },
+      now: () => new Date('2026-03-02T10:00:00Z'),
+    });
+  });
+
+  it('should store the batch and render the first recipient as the sample', async () => {
+    const entry = await queue.submit(BATCH);
+
+    expect(entry).toMatchObject({
+      status: 'pending',
+      emails_count: 3,
+      risk_score: 0,
+      sample_subject: 'Question about Acme',
+      auto_approved: false,
+    });
+    expect(entry.recipients_preview).toEqual([
+      { email: 'jordan@acme.com', name: 'Jordan', company: 'Acme' },
+      { email: 'sam@globex.com', name: 'Sam', company: 'Globex' },
+      { email: 'lee@initech.com', name: null, company: 'Initech' },
+    ]);
+    expect(entry.review_history).toEqual([{ action: 'submitted', by: 'user-1', at: '2026-03-02T10:00:00.000Z' }]);
+  });
+
+  it('should preview a page of recipients with missing tokens', async () => {
+    const entry = await queue.submit(BATCH);
+    const { total, previews } = await queue.previewRecipients(entry.id, { offset: 1, limit: 5 });
+
+    expect(total).toBe(3);
+    expect(previews.map(p => p.subject)).toEqual(['Question about Globex', 'Question about Initech']);
+    expect(previews[1]).toMatchObject({ to: 'lee@initech.com', prospect_id: null, missing: ['first_name', 'unsubscribe_url'] });
+    expect(previews[0].text).toContain('Hi Sam, noticed Globex is hiring');
+  });
+
+  it('should release an approved batch into the email queue', async () => {
+    const entry = await queue.submit(BATCH);
+    const approved = await queue.approve(entry.id, { reviewer: 'ops-1', comment: 'Looks good' });
+
+    expect(approved).toMatchObject({
+      status: 'approved',
+      reviewed_by: 'ops-1',
+      decision_note: 'Looks good',
+      released_count: 3,
+      released_at: '2026-03-02T10:00:00.000Z',
+    });
+    expect(approved.review_history.map(e => e.action)).toEqual(['submitted', 'approved', 'released']);
+    expect(addEmail).toHaveBeenCalledTimes(3);
+    expect(addEmail.mock.calls[1][0]).toMatchObject({
+      jobId: `${entry.id}-1`,
+      to: 'sam@globex.com',
+      from: 'rep@adzeta.io',
+      subject: 'Question about Globex',
+      accountId: 'acct-1',
+      prospectId: 'p-2',
+      metadata: { approvalId: entry.id, batchId: 'batch-7' },
+    });
+
+    await expect(queue.approve(entry.id, { reviewer: 'ops-2' })).rejects.toThrow('already approved');
+  });
+
+  it('should resume a release that failed part-way', async () => {
+    addEmail.mockImplementationOnce(async d => ({ id: d.jobId, queue: 'email-normal' }));
+    addEmail.mockRejectedValueOnce(new Error('queue unavailable'));
+    const entry = await queue.submit(BATCH);
+
+    await expect(queue.approve(entry.id, { reviewer: 'ops-1' })).rejects.toThrow('queue unavailable');
+    expect(await queue.get(entry.id)).toMatchObject({ status: 'approved', released_count: 1, released_at: null });
+
+    const released = await queue.release(entry.id);
+    expect(released.released_count).toBe(3);
+    expect(addEmail.mock.calls.map(c => c[0].jobId)).toEqual([`${entry.id}-0`, `${entry.id}-1`, `${entry.id}-1`, `${entry.id}-2`]);
+  });
+
+  it('should reject and request changes with comments', async () => {
+    const first = await queue.submit(BATCH);
+    const second = await queue.submit(BATCH);
+
+    const rejected = await queue.reject(first.id, { reviewer: 'ops-1', comment: 'Wrong segment' });
+    const changes = await queue.requestChanges(second.id, { reviewer: 'ops-1', comment: 'Shorten the intro' });
+
+    expect(rejected).toMatchObject({ status: 'rejected', decision_note: 'Wrong segment' });
+    expect(changes).toMatchObject({ status: 'modifications_requested', decision_note: 'Shorten the intro' });
+    expect(addEmail).not.toHaveBeenCalled();
+    expect(await queue.list({ status: ['pending', 'modifications_requested'] })).toHaveLength(1);
+    await expect(queue.reject('approval-99', { reviewer: 'ops-1' })).rejects.toBeInstanceOf(ApprovalError);
+  });
+
+  it('should re-score edits and return the batch to pending', async () => {
+    const entry = await queue.submit(BATCH);
+    await queue.requestChanges(entry.id, { reviewer: 'ops-1', comment: 'Subject is too bland' });
+
+    const edited = await queue.edit(entry.id, {
+      reviewer: 'user-1',
+      subject: 'ACT NOW, LAST CALL {{company}}',
+      removeRecipients: ['LEE@initech.com'],
+      comment: 'Punchier subject',
+    });
+
+    expect(edited).toMatchObject({
+      status: 'pending',
+      emails_count: 2,
+      subject_template: 'ACT NOW, LAST CALL {{company}}',
+      sample_subject: 'ACT NOW, LAST CALL Acme',
+      decision_note: 'Punchier subject',
+    });
+    expect(edited.risk_score).toBe(30);
+    expect(edited.risk_factors).toEqual(['Spam phrase "act now" in subject', 'Subject is in all caps']);
+    expect(edited.review_history.map(e => e.action)).toEqual(['submitted', 'modifications_requested', 'edited']);
+  });
+});
+
+describe('Approval Workflow - Auto-Approval', () => {
+  afterEach(() => {
+    resetEmailQueueService();
+  });
+
+  it('should derive the policy from autonomy settings', () => {
+    const optedIn = { ...DEFAULT_SETTINGS, email_auto_approve_max_risk: 20 };
+
+    expect(autoApprovalPolicyFromSettings(DEFAULT_SETTINGS)).toEqual({ enabled: false, maxRiskScore: 0, maxBatchSize: 100 });
+    expect(autoApprovalPolicyFromSettings({})).toMatchObject({ enabled: false });
+    expect(autoApprovalPolicyFromSettings(optedIn)).toEqual({ enabled: true, maxRiskScore: 20, maxBatchSize: 100 });
+    expect(autoApprovalPolicyFromSettings({ ...optedIn, autonomy_level: 'conservative' }).enabled).toBe(false);
+    expect(autoApprovalPolicyFromSettings({ ...optedIn, auto_execute_enabled: false }).enabled).toBe(false);
+  });
+
+  it('should treat the stored low autonomy level as conservative', () => {
+    // preference_models.autonomy_level is 'low' | 'medium' | 'high'
+    const stored = (level: string) => ({ email_auto_approve_max_risk: 20, autonomy_level: level }) as Partial<SettingsData>;
+
+    expect(autoApprovalPolicyFromSettings(stored('low')).enabled).toBe(false);
+    expect(autoApprovalPolicyFromSettings(stored('medium')).enabled).toBe(true);
+  });
+
+  it('should auto-approve low-risk batches into EmailQueueService', async () => {
+    const emailQueue = getEmailQueueService();
+    emailQueue.pauseAll();
+    const policy = autoApprovalPolicyFromSettings({ ...DEFAULT_SETTINGS, email_auto_approve_max_risk: 20 });
+    const queue = new ApprovalQueue({ policy, emailQueue });
+
+    const entry = await queue.submit(BATCH);
+
+    expect(entry).toMatchObject({ status: 'approved', auto_approved: true, reviewed_by: null, released_count: 3 });
+    expect(entry.review_history[1].comment).toBe('Risk score 0 within auto-approval limit 20');
+    expect((await emailQueue.getJob(`${entry.id}-0`))?.data).toMatchObject({ to: 'jordan@acme.com', subject: 'Question about Acme' });
+  });
+
+  it('should keep risky or oversized batches for review', async () => {
+    const addEmail = vi.fn();
+    const queue = new ApprovalQueue({
+      policy: { enabled: true, maxRiskScore: 20, maxBatchSize: 2 },
+      emailQueue: { addEmail },
+    });
+
+    const oversized = await queue.submit(BATCH);
+    const risky = await queue.submit({ ...BATCH, recipients: BATCH.recipients!.slice(0, 1), subject: 'FREE TRIAL' });
+
+    expect(oversized.status).toBe('pending');
+    expect(risky.status).toBe('pending');
+    expect(addEmail).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Unit Tests - Bandit Allocation
+ *
+ * Tests Thompson sampling traffic allocation for A/B tests:
+ * - Beta posteriors and probability-of-best
+ * - Exploration floor
+ * - Re-weighting on new events and on the interval
+ * - Allocation history and resume from a persisted snapshot
+ */
+
+import { describe, it, expect } from 'vitest';
+import { betaPosterior, probabilityOfBeingBest } from '@/src/lib/testing/significance';
+import { BanditAllocator, thompsonWeights } from '@/src/lib/testing/bandit';
+
+describe('Bandit Allocation - Posteriors', () => {
+  it('should build beta posteriors from a uniform prior', () => {
+    expect(betaPosterior(100, 12)).toEqual({ alpha: 13, beta: 89 });
+    expect(betaPosterior(0, 0)).toEqual({ alpha: 1, beta: 1 });
+  });
+
+  it('should estimate the probability each arm is best', () => {
+    const [weak, strong] = probabilityOfBeingBest([betaPosterior(400, 8), betaPosterior(400, 60)], 4000);
+
+    expect(strong).toBeGreaterThan(0.99);
+    expect(weak + strong).toBeCloseTo(1, 10);
+  });
+
+  it('should keep every arm at or above the exploration floor', () => {
+    const { weights, probabilityBest } = thompsonWeights([
+      { variantId: 'a', trials: 400, successes: 8 },
+      { variantId: 'b', trials: 400, successes: 60 },
+      { variantId: 'c', trials: 400, successes: 10 },
+    ], { explorationFloor: 0.1, simulations: 4000 });
+
+    expect(weights.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 10);
+    expect(Math.min(...weights)).toBeGreaterThanOrEqual(0.1);
+    expect(weights[1]).toBeGreaterThan(0.75);
+    expect(probabilityBest[1]).toBeGreaterThan(0.99);
+  });
+
+  it('should cap the floor at an equal split', () => {
+    const { weights } = thompsonWeights([
+      { variantId: 'a', trials: 50, successes: 1 },
+      { variantId: 'b', trials: 50, successes: 20 },
+    ], { explorationFloor: 0.8, simulations: 1000 });
+
+    expect(weights).toEqual([0.5, 0.5]);
+  });
+});
+
+describe('Bandit Allocation - Allocator', () => {
+  const clock = (start: string) => {
+    let now = new Date(start).getTime();
+    return { now: () => new Date(now), advance: (ms: number) => { now += ms; } };
+  };
+
+  it('should re-weight only after enough new trials', () => {
+    const time = clock('2026-03-02T10:00:00Z');
+    const allocator = new BanditAllocator('test-1', ['a', 'b'], {
+      explorationFloor: 0.05,
+      reweightEvery: 100,
+      simulations: 2000,
+      now: time.now,
+    });
+
+    expect(allocator.getWeights()).toEqual({ a: 0.5, b: 0.5 });
+    expect(allocator.observe([{ variantId: 'a', trials: 30, successes: 1 }, { variantId: 'b', trials: 30, successes: 6 }])).toBeNull();
+
+    const snapshot = allocator.observe([{ variantId: 'a', trials: 200, successes: 4 }, { variantId: 'b', trials: 200, successes: 30 }]);
+
+    expect(snapshot).toMatchObject({ testId: 'test-1', reason: 'events', totalTrials: 400 });
+    expect(snapshot!.variants[1]).toMatchObject({ variantId: 'b', alpha: 31, beta: 171, previousWeight: 0.5 });
+    expect(allocator.getWeights().b).toBeGreaterThan(0.9);
+    expect(allocator.getWeights().a).toBeGreaterThanOrEqual(0.05);
+    expect(allocator.weightsFor(['b', 'a'])).toEqual([allocator.getWeights().b, allocator.getWeights().a]);
+  });
+
+  it('should re-weight on the interval when a few trials arrived', () => {
+    const time = clock('2026-03-02T10:00:00Z');
+    const allocator = new BanditAllocator('test-1', ['a', 'b'], {
+      reweightEvery: 1000,
+      reweightIntervalMs: 60_000,
+      simulations: 500,
+      now: time.now,
+    });
+    const results = [{ variantId: 'a', trials: 10, successes: 1 }, { variantId: 'b', trials: 10, successes: 2 }];
+
+    expect(allocator.observe(results)).toBeNull();
+    time.advance(60_000);
+    expect(allocator.observe(results)?.reason).toBe('interval');
+
+    // No new trials: nothing to re-weight even after the interval
+    time.advance(120_000);
+    expect(allocator.observe(results)).toBeNull();
+  });
+
+  it('should keep a full history and resume from the last snapshot', () => {
+    const allocator = new BanditAllocator('test-1', ['a', 'b'], { reweightEvery: 10, simulations: 500 });
+    allocator.observe([{ variantId: 'a', trials: 20, successes: 2 }, { variantId: 'b', trials: 20, successes: 8 }]);
+    allocator.reweight();
+
+    const history = allocator.getHistory();
+    expect(history.map(h => h.reason)).toEqual(['initial', 'events', 'manual']);
+    expect(history[0].variants.map(v => v.weight)).toEqual([0.5, 0.5]);
+
+    const resumed = new BanditAllocator('test-1', ['a', 'b'], { reweightEvery: 10, lastSnapshot: history[2] });
+    expect(resumed.getWeights()).toEqual(allocator.getWeights());
+    expect(resumed.observe([{ variantId: 'a', trials: 22, successes: 2 }, { variantId: 'b', trials: 22, successes: 9 }])).toBeNull();
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Unit Tests - Bulk Prospect Import
+ *
+ * Tests CSV/XLSX imports for bulk_import research jobs:
+ * - Streaming CSV parsing and XLSX worksheet reading
+ * - Column mapping suggestions and validation
+ * - Row validation with per-row errors
+ * - Dedupe against existing prospects through the identity resolver
+ */
+
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import { detectFormat, parseCsv, readRows, readXlsx, toCsv } from '@/src/lib/research/spreadsheet';
+import {
+  mappingFromSuggestions,
+  runBulkImport,
+  suggestColumnMapping,
+  validateColumnMapping,
+  validateRow,
+} from '@/src/lib/research/bulk-import';
+import { IdentityResolver, InMemoryIdentityStore } from '@/src/lib/identity/resolver';
+
+async function collect<T>(rows: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const row of rows) result.push(row);
+  return result;
+}
+
+async function* chunked(text: string, size: number): AsyncGenerator<Uint8Array> {
+  const bytes = new TextEncoder().encode(text);
+  for (let i = 0; i < bytes.length; i += size) yield bytes.subarray(i, i + size);
+}
+
+/**
+ * Minimal ZIP writer: sharedStrings and .bin parts deflated, everything else
+ * stored. `declaredSizes` overrides the uncompressed size in the directory.
+ */
+function zip(files: Record<string, string | Buffer>, declaredSizes: Record<string, number> = {}): Uint8Array {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const raw = Buffer.from(content);
+    const deflate = name.endsWith('sharedStrings.xml') || name.endsWith('.bin');
+    const data = deflate ? deflateRawSync(raw) : raw;
+    const nameBytes = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(deflate ? 8 : 0, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(deflate ? 8 : 0, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(declaredSizes[name] ?? raw.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, nameBytes);
+
+    offset += 30 + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe('Spreadsheet Reading', () => {
+  it('should parse CSV across chunk boundaries', async () => {
+    const csv = '﻿Name,Email,Notes\r\n"Doe, Jane",jane@acme.io,"Said ""hi""\nthen left"\r\n\r\nBob,bob@acme.io,';
+
+    const rows = await collect(parseCsv(chunked(csv, 3)));
+
+    expect(rows).toEqual([
+      ['Name', 'Email', 'Notes'],
+      ['Doe, Jane', 'jane@acme.io', 'Said "hi"\nthen left'],
+      [''],
+      ['Bob', 'bob@acme.io', ''],
+    ]);
+  });
+
+  it('should detect semicolon and tab delimiters', async () => {
+    expect(await collect(parseCsv(new TextEncoder().encode('a;b;"c;d"\n1;2;3')))).toEqual([['a', 'b', 'c;d'], ['1', '2', '3']]);
+    expect(await collect(parseCsv(new TextEncoder().encode('a\tb\n1\t2\n')))).toEqual([['a', 'b'], ['1', '2']]);
+    expect(detectFormat('leads.XLSX')).toBe('xlsx');
+    expect(detectFormat('upload', 'text/csv')).toBe('csv');
+    expect(detectFormat('leads.pdf', 'application/pdf')).toBeNull();
+  });
+
+  it('should read the first worksheet of an XLSX file', async () => {
+    const workbook = zip({
+      'xl/workbook.xml': '<workbook><sheets><sheet name="Leads" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/leads.xml"/></Relationships>',
+      'xl/sharedStrings.xml': '<sst><si><t>Email</t></si><si><r><t>Ja</t></r><r><t>ne &amp; co</t></r></si></sst>',
+      'xl/worksheets/leads.xml': [
+        '<worksheet><sheetData>',
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="inlineStr"><is><t>Employees</t></is></c></row>',
+        '<row r="3"><c r="A3" t="s"><v>1</v></c><c r="C3" t="b"><v>1</v></c></row>',
+        '<row r="4"><c r="B4"><v>250</v></c></row>',
+        '</sheetData></worksheet>',
+      ].join(''),
+    });
+
+    expect(Array.from(readXlsx(workbook))).toEqual([['Email', 'Employees'], [], ['Jane & co', '', 'TRUE'], ['', '250']]);
+    expect(await collect(readRows(workbook, 'xlsx'))).toHaveLength(4);
+  });
+
+  it('should only inflate the parts it reads and cap their size', () => {
+    const bomb = Buffer.alloc(60 * 1024 * 1024);
+    const parts = {
+      'xl/workbook.xml': '<workbook><sheets><sheet name="Leads" sheetId="1"/></sheets></workbook>',
+      'xl/worksheets/sheet1.xml': '<worksheet><sheetData><row r="1"><c t="inlineStr"><is><t>Email</t></is></c></row></sheetData></worksheet>',
+    };
+
+    expect(Array.from(readXlsx(zip({ ...parts, 'xl/media/padding.bin': bomb }, { 'xl/media/padding.bin': 10 })))).toEqual([['Email']]);
+    expect(() => Array.from(readXlsx(zip({ ...parts, 'xl/sharedStrings.xml': bomb })))).toThrow(/larger than 50 MB/);
+    // A directory that understates the size is caught while inflating
+    expect(() => Array.from(readXlsx(zip({ ...parts, 'xl/sharedStrings.xml': bomb }, { 'xl/sharedStrings.xml': 100 }))))
+      .toThrow(/larger than 50 MB/);
+  });
+
+  it('should quote CSV output where needed', () => {
+    expect(toCsv([['row', 'error'], [2, 'Invalid email, "x"'], [3, null]])).toBe('row,error\r\n2,"Invalid email, ""x"""\r\n3,');
+  });
+
+  it('should neutralize cells that would run as formulas', () => {
+    expect(toCsv([['=HYPERLINK("http://x")', '+1', '-2+3', '@SUM(A1)', 'a=b', -4]])).toBe(
+      `"'=HYPERLINK(""http://x"")",'+1,'-2+3,'@SUM(A1),a=b,-4`
+    );
+  });
+});
+
+describe('Column Mapping', () => {
+  it('should suggest fields from headers and sample values', () => {
+    const suggestions = suggestColumnMapping(
+      ['First Name', 'Surname', 'Contact Email Address', 'Company', 'Website', 'Profile', 'Notes'],
+      [['Jane', 'Doe', 'jane@acme.io', 'Acme', 'https://acme.io', 'linkedin.com/in/janedoe', 'met at expo']]
+    );
+
+    expect(mappingFromSuggestions(suggestions)).toEqual([
+      'person_first_name',
+      'person_last_name',
+      'person_email',
+      'company_name',
+      'company_website',
+      'person_linkedin_url',
+      null,
+    ]);
+    expect(suggestions[5]).toMatchObject({ reason: 'content', confidence: 0.9 });
+    expect(suggestions[0]).toMatchObject({ reason: 'header', confidence: 1 });
+  });
+
+  it('should reject mappings that cannot identify a person', () => {
+    expect(validateColumnMapping(['person_email', null], 2)).toEqual([]);
+    expect(validateColumnMapping(['person_title', 'company_name'], 2)).toEqual(['map an email, a LinkedIn URL, or a name with a company']);
+    expect(validateColumnMapping(['person_email', 'person_email', 'nickname'], 2)).toEqual([
+      'mapping has 3 entries for 2 columns',
+      'unknown fields: nickname',
+      'fields mapped more than once: person_email',
+    ]);
+  });
+});
+
+describe('Bulk Import', () => {
+  const headers = ['Name', 'Email', 'Company', 'Domain'];
+  const mapping = ['person_name', 'person_email', 'company_name', 'company_domain'] as const;
+
+  it('should validate emails and domains per row', () => {
+    const { record, errors } = validateRow(['Jane Doe', 'jane@', 'Acme', 'acme .io'], 7, headers, [...mapping]);
+
+    expect(record).toBeNull();
+    expect(errors).toEqual([
+      { row: 7, column: 'Email', field: 'person_email', value: 'jane@', message: 'Invalid email address' },
+      { row: 7, column: 'Domain', field: 'company_domain', value: 'acme .io', message: 'Invalid domain' },
+    ]);
+    expect(validateRow(['Jane Doe', '', '', ''], 8, headers, [...mapping]).errors[0].message)
+      .toBe('Row needs an email, a LinkedIn URL, or a name with a company');
+    expect(validateRow(['Jane Doe', '', 'Acme', ''], 9, headers, [...mapping]).record).toMatchObject({
+      source: 'bulk_import',
+      sourceId: 'row-9',
+      fields: { person_name: 'Jane Doe', company_name: 'Acme' },
+    });
+  });
+
+  it('should dedupe against existing prospects and report row errors', async () => {
+    const resolver = new IdentityResolver({ store: new InMemoryIdentityStore() });
+    await resolver.ingest('user-1', { source: 'apollo', sourceId: 'apollo-1', fields: { person_name: 'Jane Doe', person_email: 'jane@acme.io' } });
+
+    const csv = [
+      'Name,Email,Company,Domain',
+      'Jane Doe,JANE@acme.io,Acme,acme.io',
+      'Bob Jones,bob@,Acme,acme.io',
+      '',
+      'Carol King,carol@globex.com,Globex,globex.com',
+      'Carol King,,Globex,globex.com',
+    ].join('\n');
+    const progress: number[] = [];
+
+    const result = await runBulkImport({
+      userId: 'user-1',
+      jobId: 'job-1',
+      rows: parseCsv(chunked(csv, 16)),
+      resolver,
+      total: 4,
+      progressEvery: 2,
+      onProgress: p => { progress.push(p.processed); },
+    });
+
+    expect(result).toMatchObject({ processed: 4, created: 1, merged: 2, failed: 1, skipped: 1, queuedForReview: 0 });
+    expect(result.mapping).toEqual(mapping);
+    expect(result.errors).toEqual([{ row: 3, column: 'Email', field: 'person_email', value: 'bob@', message: 'Invalid email address' }]);
+    expect(progress).toEqual([2, 4, 4]);
+  });
+});
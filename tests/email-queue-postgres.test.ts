@@ -0,0 +1,285 @@
+/**
+ * Unit Tests - Postgres Email Queue Backend
+ *
+ * Tests the email_sends-backed queue against a fake query client:
+ * - Backend selection
+ * - Job insertion and scheduling
+ * - SKIP LOCKED claiming and completion
+ * - Retry rescheduling and dead letter moves
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  EmailQueueService,
+  QUEUE_NAMES,
+  RETRY_DELAYS,
+} from '@/lib/email-queue';
+import type { EmailJobData, QueueDatabase, QueueEvent } from '@/lib/email-queue';
+
+interface RecordedQuery {
+  text: string;
+  params: unknown[];
+}
+
+const baseJob: EmailJobData = {
+  jobId: 'pg-job-1',
+  to: 'recipient@example.com',
+  from: 'sender@example.com',
+  subject: 'Hello',
+  text: 'Hi there',
+  accountId: 'account-1',
+  accountAgeInDays: 30,
+};
+
+function makeRow(overrides: Record<string, unknown> = {}) {
+  return {
+    job_id: 'pg-job-1',
+    queue_name: QUEUE_NAMES.NORMAL,
+    status: 'sending',
+    priority: 50,
+    job_data: { ...baseJob, maxRetries: 3 },
+    retry_count: 0,
+    error_message: null,
+    queued_at: new Date().toISOString(),
+    scheduled_for: null,
+    locked_at: new Date().toISOString(),
+    sent_at: null,
+    failed_at: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Fake pg client: hands out claimable rows once and records every query
+ */
+function createFakeDb(claimable: ReturnType<typeof makeRow>[] = [], selectRows: ReturnType<typeof makeRow>[] = []) {
+  const queries: RecordedQuery[] = [];
+  let pending = [...claimable];
+
+  const db: QueueDatabase = {
+    async query(text: string, params: unknown[] = []) {
+      queries.push({ text, params });
+
+      if (text.includes('INSERT INTO email_sends')) {
+        return {
+          rows: [makeRow({ job_id: params[0], queue_name: params[1], status: params[2], priority: params[3], job_data: JSON.parse(params[4] as string) })],
+          rowCount: 1,
+        };
+      }
+      if (text.includes('SKIP LOCKED')) {
+        const rows = pending.filter(row => row.queue_name === params[0]);
+        pending = pending.filter(row => row.queue_name !== params[0]);
+        return { rows, rowCount: rows.length };
+      }
+      if (text.trim().startsWith('SELECT * FROM email_sends')) {
+        const rows = selectRows.filter(row => row.queue_name === params[0] || row.queue_name === params[1]);
+        return { rows, rowCount: rows.length };
+      }
+      return { rows: [], rowCount: 1 };
+    },
+  };
+
+  return { db, queries };
+}
+
+describe('EmailQueueService - Backend Selection', () => {
+  const originalUrl = process.env.DATABASE_URL;
+
+  afterEach(() => {
+    if (originalUrl === undefined) {
+      delete process.env.DATABASE_URL;
+    } else {
+      process.env.DATABASE_URL = originalUrl;
+    }
+  });
+
+  it('should default to the in-memory backend without a database', () => {
+    delete process.env.DATABASE_URL;
+    expect(new EmailQueueService().backend).toBe('memory');
+  });
+
+  it('should use postgres when a database client is provided', () => {
+    const { db } = createFakeDb();
+    expect(new EmailQueueService({ database: db }).backend).toBe('postgres');
+  });
+
+  it('should keep memory selectable even when DATABASE_URL is set', () => {
+    process.env.DATABASE_URL = 'postgres://localhost:5432/test';
+    expect(new EmailQueueService({ backend: 'memory' }).backend).toBe('memory');
+  });
+});
+
+describe('EmailQueueService - Postgres Backend', () => {
+  let service: EmailQueueService;
+
+  afterEach(async () => {
+    await service?.close();
+  });
+
+  describe('Add Email', () => {
+    it('should insert jobs into email_sends for the priority queue', async () => {
+      const { db, queries } = createFakeDb();
+      service = new EmailQueueService({ database: db, pollIntervalMs: 60000 });
+
+      const result = await service.addEmail({ ...baseJob, priority: 'high' });
+
+      const insert = queries.find(q => q.text.includes('INSERT INTO email_sends'));
+      expect(result.queue).toBe(QUEUE_NAMES.HIGH_PRIORITY);
+      expect(insert?.params.slice(0, 4)).toEqual(['pg-job-1', QUEUE_NAMES.HIGH_PRIORITY, 'queued', 75]);
+    });
+
+    it('should store scheduled emails with a delay', async () => {
+      const { db, queries } = createFakeDb();
+      service = new EmailQueueService({ database: db, pollIntervalMs: 60000 });
+
+      await service.addEmail({ ...baseJob, scheduledFor: new Date(Date.now() + 60000) });
+
+      const insert = queries.find(q => q.text.includes('INSERT INTO email_sends'));
+      expect(insert?.params[2]).toBe('scheduled');
+      expect(insert?.params[10]).toBeGreaterThan(0);
+    });
+
+    it('should bind delays beyond the int4 range as bigint', async () => {
+      const { db, queries } = createFakeDb();
+      service = new EmailQueueService({ database: db, pollIntervalMs: 60000 });
+
+      await service.addEmail({ ...baseJob, scheduledFor: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) });
+
+      const insert = queries.find(q => q.text.includes('INSERT INTO email_sends'));
+      expect(insert?.params[10]).toBeGreaterThan(2 ** 31);
+      expect(insert?.text).toContain('$11::bigint * INTERVAL');
+      expect(insert?.text).not.toMatch(/::int\b/);
+    });
+
+    it('should not requeue a job id that was already sent', async () => {
+      const sentRow = makeRow({ status: 'sent', locked_at: null, sent_at: new Date().toISOString() });
+      const queries: RecordedQuery[] = [];
+      const db: QueueDatabase = {
+        async query(text: string, params: unknown[] = []) {
+          queries.push({ text, params });
+          // The conflict update only applies to cancelled/failed rows
+          if (text.includes('INSERT INTO email_sends')) return { rows: [], rowCount: 0 };
+          if (text.includes('WHERE job_id = $1')) return { rows: [sentRow], rowCount: 1 };
+          return { rows: [], rowCount: 0 };
+        },
+      };
+      service = new EmailQueueService({ database: db, pollIntervalMs: 60000 });
+      const events: QueueEvent[] = [];
+      service.subscribe(evt => events.push(evt));
+
+      const result = await service.addEmail(baseJob);
+
+      expect(result.id).toBe('pg-job-1');
+      const insert = queries.find(q => q.text.includes('INSERT INTO email_sends'));
+      expect(insert?.text).toMatch(/WHERE email_sends\.status IN \('cancelled', 'failed'\)/);
+      expect(queries.some(q => q.text.includes('WHERE job_id = $1'))).toBe(true);
+      expect(events.some(e => e.type === 'job:added')).toBe(false);
+      expect(queries.some(q => q.text.includes('SKIP LOCKED'))).toBe(false);
+    });
+  });
+
+  describe('Processing', () => {
+    it('should claim jobs with SKIP LOCKED and mark them sent', async () => {
+      const { db, queries } = createFakeDb([makeRow()]);
+      service = new EmailQueueService({ database: db, pollIntervalMs: 60000, workerId: 'worker-a' });
+
+      const processor = vi.fn().mockResolvedValue({ success: true, messageId: 'msg-1', sentAt: new Date() });
+      service.process(processor);
+
+      await vi.waitFor(() => {
+        expect(queries.some(q => q.text.includes("status = 'sent'"))).toBe(true);
+      });
+
+      const claim = queries.find(q => q.text.includes('SKIP LOCKED'));
+      const sent = queries.find(q => q.text.includes("status = 'sent'"));
+      expect(claim?.params[1]).toBe('worker-a');
+      expect(processor).toHaveBeenCalledWith({ data: expect.objectContaining({ jobId: 'pg-job-1' }) });
+      expect(sent?.params).toEqual(['pg-job-1', 'worker-a', expect.any(Date), 'msg-1', null]);
+    });
+
+    it('should reschedule failed jobs with backoff', async () => {
+      const { db, queries } = createFakeDb([makeRow()]);
+      service = new EmailQueueService({ database: db, pollIntervalMs: 60000, workerId: 'worker-a' });
+
+      const events: QueueEvent[] = [];
+      service.subscribe(evt => events.push(evt));
+      service.process(vi.fn().mockRejectedValue(new Error('SMTP timeout')));
+
+      await vi.waitFor(() => {
+        expect(events.some(e => e.type === 'job:retry')).toBe(true);
+      });
+
+      const retry = queries.find(q => q.text.includes("status = 'scheduled'"));
+      expect(retry?.params).toEqual(['pg-job-1', 'worker-a', 1, 'SMTP timeout', RETRY_DELAYS[0]]);
+    });
+
+    it('should move exhausted jobs to the dead letter queue', async () => {
+      const { db, queries } = createFakeDb([makeRow({ retry_count: 2 })]);
+      service = new EmailQueueService({ database: db, pollIntervalMs: 60000, workerId: 'worker-a' });
+
+      const events: QueueEvent[] = [];
+      service.subscribe(evt => events.push(evt));
+      service.process(vi.fn().mockRejectedValue(new Error('Mailbox unavailable')));
+
+      await vi.waitFor(() => {
+        expect(events.some(e => e.type === 'dead:letter:moved')).toBe(true);
+      });
+
+      const failed = queries.find(q => q.text.includes("status = 'failed'") && q.text.includes('queue_name = $5'));
+      expect(failed?.params).toEqual(['pg-job-1', 'worker-a', 3, 'Mailbox unavailable', QUEUE_NAMES.DEAD_LETTER]);
+      expect(events.some(e => e.type === 'job:failed')).toBe(true);
+    });
+
+    it('should dead-letter permanent failures on the first attempt', async () => {
+      const { db, queries } = createFakeDb([makeRow()]);
+      service = new EmailQueueService({ database: db, pollIntervalMs: 60000, workerId: 'worker-a' });
+
+      const events: QueueEvent[] = [];
+      service.subscribe(evt => events.push(evt));
+      const rejected = Object.assign(new Error('RCPT TO failed: 550 5.1.1 User unknown'), { permanent: true });
+      service.process(vi.fn().mockRejectedValue(rejected));
+
+      await vi.waitFor(() => {
+        expect(events.some(e => e.type === 'dead:letter:moved')).toBe(true);
+      });
+
+      const failed = queries.find(q => q.text.includes("status = 'failed'") && q.text.includes('queue_name = $5'));
+      expect(failed?.params).toEqual(['pg-job-1', 'worker-a', 1, rejected.message, QUEUE_NAMES.DEAD_LETTER]);
+      expect(queries.some(q => q.text.includes("status = 'scheduled'"))).toBe(false);
+    });
+  });
+
+  describe('Dead Letter', () => {
+    it('should read failed jobs from the dead letter queue', async () => {
+      const deadRow = makeRow({
+        queue_name: QUEUE_NAMES.DEAD_LETTER,
+        status: 'failed',
+        retry_count: 3,
+        error_message: 'Mailbox unavailable',
+      });
+      const { db } = createFakeDb([], [deadRow]);
+      service = new EmailQueueService({ database: db, pollIntervalMs: 60000 });
+
+      const failed = await service.getFailedJobs();
+
+      expect(failed).toHaveLength(1);
+      expect(failed[0].status).toBe('failed');
+      expect(failed[0].attemptsMade).toBe(3);
+      expect(failed[0].failedReason).toBe('Mailbox unavailable');
+    });
+
+    it('should requeue a dead letter job and cancel the original row', async () => {
+      const deadRow = makeRow({ queue_name: QUEUE_NAMES.DEAD_LETTER, status: 'failed' });
+      const { db, queries } = createFakeDb([], [deadRow]);
+      service = new EmailQueueService({ database: db, pollIntervalMs: 60000 });
+
+      const retried = await service.retryJob('pg-job-1');
+
+      expect(retried).toBe(true);
+      const insert = queries.find(q => q.text.includes('INSERT INTO email_sends'));
+      const cancel = queries.find(q => q.text.includes("status = 'cancelled'"));
+      expect(insert?.params[0]).toBe('pg-job-1-retry');
+      expect(cancel?.params).toEqual(['pg-job-1', QUEUE_NAMES.DEAD_LETTER]);
+    });
+  });
+});
@@ -23,7 +23,7 @@ import {
   generateJobId,
   validateEmailJob,
 } from '@/lib/email-queue';
-import type { EmailJobData } from '@/lib/email-queue';
+import type { EmailJobData, QueueEvent } from '@/lib/email-queue';
 
 describe('Email Queue - Constants', () => {
   describe('QUEUE_NAMES', () => {
@@ -162,6 +162,28 @@ describe('EmailQueueService - Queue Management', () => {
       expect(result.id).toContain('email');
       expect(result.id.length).toBeGreaterThan(10);
     });
+
+    it('should not requeue a job id that is already queued or sent', async () => {
+      const email: EmailJobData = {
+        jobId: 'seq-enrollment-1-1',
+        to: 'recipient@example.com',
+        from: 'sender@example.com',
+        subject: 'Test',
+        text: 'Test',
+        accountId: 'account-1',
+        accountAgeInDays: 30,
+      };
+      const processor = vi.fn().mockResolvedValue({ success: true, messageId: 'msg-1', sentAt: new Date() });
+
+      await queueService.addEmail(email);
+      queueService.process(processor);
+      await vi.waitFor(() => expect(processor).toHaveBeenCalledTimes(1));
+      await queueService.addEmail({ ...email, subject: 'Resent' });
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(processor).toHaveBeenCalledTimes(1);
+      expect((await queueService.getJob(email.jobId!))?.data.subject).toBe('Test');
+    });
   });
 
   describe('Queue Stats', () => {
@@ -331,6 +353,29 @@ describe('EmailQueueService - Queue Management', () => {
       const result = await queueService.retryJob('non-existent');
       expect(result).toBe(false);
     });
+
+    it('should dead-letter permanent failures without retrying', async () => {
+      const rejected = Object.assign(new Error('RCPT TO failed: 550 5.1.1 User unknown'), { permanent: true });
+      const processor = vi.fn().mockRejectedValue(rejected);
+      const events: QueueEvent[] = [];
+      queueService.subscribe(evt => events.push(evt));
+
+      await queueService.addEmail({
+        jobId: 'bounce-1',
+        to: 'nobody@example.com',
+        from: 'sender@example.com',
+        subject: 'Test',
+        text: 'Test',
+        accountId: 'account-1',
+        accountAgeInDays: 30,
+      });
+      queueService.process(processor);
+
+      await vi.waitFor(() => expect(events.some(e => e.type === 'dead:letter:moved')).toBe(true));
+      expect(processor).toHaveBeenCalledTimes(1);
+      expect(events.some(e => e.type === 'job:retry')).toBe(false);
+      expect(events.find(e => e.type === 'dead:letter:moved')?.data).toEqual({ reason: 'permanent failure' });
+    });
   });
 
   describe('Obliterate', () => {
@@ -0,0 +1,245 @@
+/**
+ * Unit Tests - Email Tracking
+ *
+ * Tests open/click tracking:
+ * - Token signing and verification
+ * - Pixel and link injection
+ * - User agent parsing
+ * - Bot, prefetch and Apple MPP filtering
+ * - Recording hits
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  EmailTracker,
+  createTrackingToken,
+  verifyTrackingToken,
+  injectTracking,
+  parseUserAgent,
+  detectAutomatedRequest,
+} from '@/lib/email-tracking';
+import type {
+  TrackingStore,
+  TrackedSend,
+  TrackingEventInsert,
+  AnalyticsIncrement,
+} from '@/lib/email-tracking';
+import type { EngagementScoreRow } from '@/lib/inbound-email';
+
+const SECRET = 'test-secret';
+const BASE_URL = 'https://gtm.adzeta.io';
+
+const SENT_AT = new Date('2026-03-04T15:00:00Z');
+const LATER = new Date('2026-03-04T16:30:00Z');
+
+const CHROME_UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36';
+const APPLE_MAIL_UA = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko)';
+const IPHONE_UA = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_3 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148';
+
+function extractToken(html: string, path: string): string {
+  const match = html.match(new RegExp(`${path}\\?t=([^"']+)`));
+  return match?.[1] ?? '';
+}
+
+class FakeTrackingStore implements TrackingStore {
+  send: TrackedSend = {
+    id: 'send-1',
+    enrollment_id: 'enr-1',
+    prospect_id: 'prospect-1',
+    sequence_id: 'seq-1',
+    status: 'sent',
+    sent_at: SENT_AT.toISOString(),
+    opened_at: null,
+    clicked_at: null,
+  };
+  events: TrackingEventInsert[] = [];
+  sendUpdates: Array<Record<string, unknown>> = [];
+  analytics: AnalyticsIncrement[] = [];
+  score: EngagementScoreRow | null = null;
+
+  async findSend(sendId: string): Promise<TrackedSend | null> {
+    return sendId === 'seq-enr-1-1' ? this.send : null;
+  }
+  async recordEvent(event: TrackingEventInsert): Promise<void> {
+    this.events.push(event);
+  }
+  async updateSend(_id: string, update: Record<string, unknown>): Promise<void> {
+    this.sendUpdates.push(update);
+  }
+  async incrementAnalytics(increment: AnalyticsIncrement): Promise<void> {
+    this.analytics.push(increment);
+  }
+  async getEngagementScore(): Promise<EngagementScoreRow | null> {
+    return this.score;
+  }
+  async saveEngagementScore(row: EngagementScoreRow): Promise<void> {
+    this.score = row;
+  }
+}
+
+describe('Email Tracking - Tokens', () => {
+  it('should round-trip signed tokens', () => {
+    const token = createTrackingToken({ sendId: 'send-1', type: 'click', url: 'https://adzeta.io/?a=1&b=2', position: 2 }, SECRET);
+
+    expect(verifyTrackingToken(token, SECRET)).toEqual({
+      sendId: 'send-1',
+      type: 'click',
+      url: 'https://adzeta.io/?a=1&b=2',
+      position: 2,
+    });
+  });
+
+  it('should reject tampered tokens and wrong secrets', () => {
+    const token = createTrackingToken({ sendId: 'send-1', type: 'open' }, SECRET);
+    const [, signature] = token.split('.');
+    const forged = `${Buffer.from(JSON.stringify({ s: 'send-2', k: 'o' })).toString('base64url')}.${signature}`;
+
+    expect(verifyTrackingToken(forged, SECRET)).toBeNull();
+    expect(verifyTrackingToken(token, 'other-secret')).toBeNull();
+    expect(verifyTrackingToken('garbage', SECRET)).toBeNull();
+    expect(verifyTrackingToken(null, SECRET)).toBeNull();
+  });
+});
+
+describe('Email Tracking - HTML Injection', () => {
+  const options = { sendId: 'send-1', baseUrl: BASE_URL, secret: SECRET };
+
+  it('should rewrite http links with their position', () => {
+    const html = '<a href="https://adzeta.io/a?x=1&amp;y=2">A</a> <a class="b" href=\'https://adzeta.io/b\'>B</a>';
+    const result = injectTracking(html, { ...options, trackOpens: false });
+
+    const tokens = [...result.matchAll(/click\?t=([^"']+)/g)].map(m => verifyTrackingToken(m[1], SECRET));
+    expect(tokens.map(t => t?.url)).toEqual(['https://adzeta.io/a?x=1&y=2', 'https://adzeta.io/b']);
+    expect(tokens.map(t => t?.position)).toEqual([1, 2]);
+  });
+
+  it('should leave mailto, unsubscribe and opted-out links alone', () => {
+    const html = [
+      '<a href="mailto:rep@adzeta.io">Mail</a>',
+      '<a href="https://adzeta.io/unsubscribe?id=1">Unsubscribe</a>',
+      '<a data-no-track href="https://adzeta.io/private">Private</a>',
+    ].join('');
+
+    expect(injectTracking(html, { ...options, trackOpens: false })).toBe(html);
+  });
+
+  it('should place the open pixel before </body>', () => {
+    const result = injectTracking('<html><body><p>Hi</p></body></html>', options);
+
+    expect(result).toMatch(/<img src="https:\/\/gtm\.adzeta\.io\/api\/email\/track\/open\?t=[^"]+"[^>]*\/><\/body>/);
+    expect(verifyTrackingToken(extractToken(result, '/api/email/track/open'), SECRET)?.type).toBe('open');
+  });
+
+  it('should do nothing without a secret', () => {
+    const previous = process.env.EMAIL_TRACKING_SECRET;
+    delete process.env.EMAIL_TRACKING_SECRET;
+
+    const html = '<a href="https://adzeta.io">A</a>';
+    expect(injectTracking(html, { sendId: 'send-1', baseUrl: BASE_URL })).toBe(html);
+
+    if (previous !== undefined) process.env.EMAIL_TRACKING_SECRET = previous;
+  });
+});
+
+describe('Email Tracking - User Agents', () => {
+  it('should identify clients and devices', () => {
+    expect(parseUserAgent(CHROME_UA)).toEqual({ client: 'Chrome', device: 'desktop' });
+    expect(parseUserAgent(APPLE_MAIL_UA)).toEqual({ client: 'Apple Mail', device: 'desktop' });
+    expect(parseUserAgent(IPHONE_UA)).toEqual({ client: 'Apple Mail', device: 'mobile' });
+    expect(parseUserAgent('Mozilla/5.0 (Windows NT 10.0; Microsoft Outlook 16.0.17328)')).toEqual({ client: 'Outlook', device: 'desktop' });
+    expect(parseUserAgent('Mozilla/5.0 (via ggpht.com GoogleImageProxy)')).toEqual({ client: 'Gmail', device: 'proxy' });
+    expect(parseUserAgent(null)).toEqual({ client: 'Unknown', device: 'unknown' });
+  });
+});
+
+describe('Email Tracking - Bot Filtering', () => {
+  const base = { userAgent: CHROME_UA, ip: '203.0.113.10', sentAt: SENT_AT, occurredAt: LATER };
+
+  it('should accept normal human hits', () => {
+    expect(detectAutomatedRequest({ ...base, type: 'open' })).toEqual({ automated: false });
+    expect(detectAutomatedRequest({ ...base, type: 'click' })).toEqual({ automated: false });
+  });
+
+  it('should flag Apple Mail Privacy Protection opens', () => {
+    expect(detectAutomatedRequest({ ...base, type: 'open', ip: '17.58.100.1', userAgent: APPLE_MAIL_UA }).reason).toBe('apple_mpp');
+    expect(detectAutomatedRequest({ ...base, type: 'open', userAgent: 'Mozilla/5.0' }).reason).toBe('apple_mpp');
+  });
+
+  it('should flag security scanners and prefetches', () => {
+    expect(detectAutomatedRequest({ ...base, type: 'click', userAgent: 'Barracuda Sentinel (EE)' }).reason).toBe('security_scanner');
+    expect(detectAutomatedRequest({ ...base, type: 'click', userAgent: 'python-requests/2.31' }).reason).toBe('security_scanner');
+    expect(detectAutomatedRequest({ ...base, type: 'click', method: 'HEAD' }).reason).toBe('prefetch');
+    expect(detectAutomatedRequest({ ...base, type: 'open', purpose: 'prefetch' }).reason).toBe('prefetch');
+    expect(detectAutomatedRequest({ ...base, type: 'open', userAgent: null }).reason).toBe('missing_user_agent');
+  });
+
+  it('should flag clicks within seconds of sending', () => {
+    const fast = new Date(SENT_AT.getTime() + 3000);
+    expect(detectAutomatedRequest({ ...base, type: 'click', occurredAt: fast }).reason).toBe('too_fast');
+    expect(detectAutomatedRequest({ ...base, type: 'open', occurredAt: fast }).automated).toBe(false);
+  });
+});
+
+describe('Email Tracking - Recording', () => {
+  let store: FakeTrackingStore;
+  let tracker: EmailTracker;
+  const human = { userAgent: CHROME_UA, ip: '203.0.113.10', method: 'GET', occurredAt: LATER };
+
+  beforeEach(() => {
+    store = new FakeTrackingStore();
+    tracker = new EmailTracker(store);
+  });
+
+  it('should record human opens everywhere', async () => {
+    const result = await tracker.record({ sendId: 'seq-enr-1-1', type: 'open' }, human);
+
+    expect(result).toEqual({ matched: true, automated: false, sendId: 'send-1' });
+    expect(store.events[0]).toMatchObject({
+      event_type: 'open',
+      email_client: 'Chrome',
+      device_type: 'desktop',
+      ip_address: '203.0.113.10',
+      is_automated: false,
+    });
+    expect(store.sendUpdates[0]).toEqual({ opened_at: LATER.toISOString(), status: 'opened' });
+    expect(store.analytics).toEqual([{ sequenceId: 'seq-1', day: '2026-03-04', type: 'open', unique: true }]);
+    expect(store.score?.total_opens).toBe(1);
+  });
+
+  it('should count a click without an open as both', async () => {
+    await tracker.record({ sendId: 'seq-enr-1-1', type: 'click', url: 'https://adzeta.io', position: 1 }, human);
+
+    expect(store.events[0]).toMatchObject({ event_type: 'click', link_url: 'https://adzeta.io', link_position: '1' });
+    expect(store.sendUpdates[0]).toMatchObject({ status: 'clicked', clicked_at: LATER.toISOString(), opened_at: LATER.toISOString() });
+    expect(store.analytics.map(a => [a.type, a.unique])).toEqual([['open', true], ['click', true]]);
+  });
+
+  it('should not count repeat opens as unique', async () => {
+    store.send.opened_at = SENT_AT.toISOString();
+    store.send.status = 'opened';
+
+    await tracker.record({ sendId: 'seq-enr-1-1', type: 'open' }, human);
+
+    expect(store.sendUpdates[0]).toEqual({});
+    expect(store.analytics[0].unique).toBe(false);
+  });
+
+  it('should keep automated hits out of analytics and scores', async () => {
+    const result = await tracker.record(
+      { sendId: 'seq-enr-1-1', type: 'open' },
+      { ...human, ip: '17.58.100.1', userAgent: APPLE_MAIL_UA }
+    );
+
+    expect(result).toMatchObject({ automated: true, reason: 'apple_mpp' });
+    expect(store.events[0]).toMatchObject({ is_automated: true, event_data: { automated_reason: 'apple_mpp' } });
+    expect(store.sendUpdates).toHaveLength(0);
+    expect(store.analytics).toHaveLength(0);
+    expect(store.score).toBeNull();
+  });
+
+  it('should report unknown sends', async () => {
+    const result = await tracker.record({ sendId: 'missing', type: 'open' }, human);
+    expect(result.matched).toBe(false);
+    expect(store.events).toHaveLength(0);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Unit Tests - Experiment Analysis
+ *
+ * Tests the unified A/B experiment model:
+ * - ab_test_config validation and defaults
+ * - Event counts with daily periods
+ * - Consistent results across frequentist, chi-square, Bayesian and sequential modes
+ * - Winner selection
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_AB_TEST_CONFIG,
+  parseABTestConfig,
+  toABTestConfig,
+  validateABTestConfig,
+} from '@/src/lib/testing/experiment-config';
+import { analyzeExperiment, countVariantEvents, selectWinner, type VariantCounts } from '@/src/lib/testing/analysis';
+import type { ABAnalysisMode, ABTest } from '@/src/types/sequences';
+
+const counts = (variantId: string, sent: number, replied: number, isControl = false): VariantCounts => ({
+  variantId,
+  variantKey: variantId,
+  isControl,
+  sent,
+  opened: Math.round(sent * 0.4),
+  clicked: 0,
+  replied,
+  booked: 0,
+  bounced: 0,
+  unsubscribed: 0,
+  complained: 0,
+});
+
+describe('Experiment Config', () => {
+  it('should read legacy empty configs as disabled', () => {
+    expect(validateABTestConfig({})).toEqual({ valid: true, errors: [], config: DEFAULT_AB_TEST_CONFIG });
+    expect(validateABTestConfig(null).valid).toBe(true);
+  });
+
+  it('should default weights to an equal split', () => {
+    const { valid, config } = validateABTestConfig({ enabled: true, variants: ['a', 'b'], analysisMode: 'bayesian' });
+
+    expect(valid).toBe(true);
+    expect(config).toMatchObject({ weights: [1, 1], analysisMode: 'bayesian', primaryMetric: 'replyRate' });
+  });
+
+  it('should reject malformed configs', () => {
+    const { valid, errors } = validateABTestConfig({
+      enabled: true,
+      level: 'campaign',
+      variants: ['a', 'a'],
+      weights: [50, 0.5],
+      confidenceThreshold: 95,
+    });
+
+    expect(valid).toBe(false);
+    expect(errors).toEqual([
+      'level must be one of sequence, touch, template',
+      'confidenceThreshold must be between 0 and 1',
+      'variants must be unique',
+      'weights must be non-negative integers',
+    ]);
+    expect(validateABTestConfig({ enabled: true, variants: ['a'] }).errors).toContain('enabled tests need at least two variants');
+    expect(validateABTestConfig([]).valid).toBe(false);
+    expect(parseABTestConfig({ enabled: 'yes' })).toEqual(DEFAULT_AB_TEST_CONFIG);
+  });
+
+  it('should derive the config from a running test', () => {
+    const test = {
+      id: 'test-1',
+      type: 'template',
+      status: 'running',
+      primaryMetric: 'replyRate',
+      analysisMode: 'sequential',
+      confidenceThreshold: 0.9,
+      minSample: 200,
+      variants: [
+        { variantKey: 'a', weight: 0.6 },
+        { variantKey: 'b', weight: 0.4 },
+      ],
+    } as ABTest;
+    const config = toABTestConfig(test);
+
+    expect(config).toMatchObject({ enabled: true, testId: 'test-1', level: 'template', variants: ['a', 'b'], weights: [60, 40] });
+    expect(validateABTestConfig(config).valid).toBe(true);
+    expect(toABTestConfig({ ...test, status: 'winner_selected' }).enabled).toBe(false);
+  });
+});
+
+describe('Experiment Analysis', () => {
+  it('should count events per variant and day', () => {
+    const [control, variant] = countVariantEvents([
+      { variantId: 'a', eventType: 'sent', createdAt: '2026-03-01T09:00:00Z' },
+      { variantId: 'a', eventType: 'replied', createdAt: '2026-03-02T09:00:00Z' },
+      { variantId: 'b', eventType: 'sent', createdAt: '2026-03-02T10:00:00Z' },
+      { variantId: 'b', eventType: 'meeting_booked', createdAt: '2026-03-02T11:00:00Z' },
+      { variantId: 'c', eventType: 'sent', createdAt: '2026-03-02T11:00:00Z' },
+    ], [
+      { id: 'a', variantKey: 'a', isControl: true },
+      { id: 'b', variantKey: 'b', isControl: false },
+    ], 'replyRate');
+
+    expect(control).toMatchObject({ sent: 1, replied: 1, periods: [{ sent: 1, conversions: 0 }, { sent: 0, conversions: 1 }] });
+    expect(variant).toMatchObject({ sent: 1, booked: 1, periods: [{ sent: 0, conversions: 0 }, { sent: 1, conversions: 0 }] });
+  });
+
+  it('should agree across modes on a clear winner', () => {
+    const variants = [counts('a', 1000, 30, true), counts('b', 1000, 70)];
+    const modes: ABAnalysisMode[] = ['frequentist', 'chi_square', 'bayesian', 'sequential'];
+
+    for (const mode of modes) {
+      const [control, variant] = analyzeExperiment(variants, { testId: 't', metric: 'replyRate', mode, simulations: 4000 });
+
+      expect(control).toMatchObject({ isControl: true, conversions: 30, statistics: { mode, significant: false } });
+      expect(variant.statistics).toMatchObject({ mode, significant: true });
+      expect(variant.statistics.liftVsControl).toBeCloseTo(133.33, 1);
+      expect(variant.statistics.confidenceInterval[0]).toBeGreaterThan(0);
+      expect(variant.metrics.replyRate).toBeCloseTo(7, 10);
+    }
+  });
+
+  it('should fill the statistics each mode computes', () => {
+    const variants = [counts('a', 1000, 30, true), counts('b', 1000, 70)];
+    const run = (mode: ABAnalysisMode) =>
+      analyzeExperiment(variants, { testId: 't', metric: 'replyRate', mode, simulations: 4000 })[1].statistics;
+
+    expect(run('frequentist').power).toBeGreaterThan(0.9);
+    expect(run('chi_square').chi2).toBeGreaterThan(10);
+    expect(run('bayesian').probabilityBeatsControl).toBeGreaterThan(0.99);
+    expect(run('sequential').shouldStop).toBe(true);
+  });
+
+  it('should not call a winner on noise or before the minimum sample', () => {
+    const noisy = analyzeExperiment([counts('a', 500, 20, true), counts('b', 500, 22)], {
+      testId: 't',
+      metric: 'replyRate',
+      mode: 'chi_square',
+    });
+    expect(noisy[1].statistics.significant).toBe(false);
+    expect(selectWinner(noisy)).toBeNull();
+
+    const clear = analyzeExperiment([counts('a', 1000, 30, true), counts('b', 1000, 70)], {
+      testId: 't',
+      metric: 'replyRate',
+      mode: 'frequentist',
+    });
+    expect(selectWinner(clear)?.variantId).toBe('b');
+    expect(selectWinner(clear, 2000)).toBeNull();
+  });
+
+  it('should spend alpha across sequential looks', () => {
+    const daily = (sent: number, conversions: number) => Array.from({ length: 10 }, () => ({ sent, conversions }));
+    const variants: VariantCounts[] = [
+      { ...counts('a', 1000, 30, true), periods: daily(100, 3) },
+      { ...counts('b', 1000, 50), periods: daily(100, 5) },
+    ];
+
+    const single = analyzeExperiment(variants.map(v => ({ ...v, periods: undefined })), { testId: 't', metric: 'replyRate', mode: 'sequential' });
+    const looks = analyzeExperiment(variants, { testId: 't', metric: 'replyRate', mode: 'sequential' });
+
+    expect(single[1].statistics.significant).toBe(true);
+    expect(looks[1].statistics.significant).toBe(false);
+    expect(looks[1].statistics.pValue).toBeCloseTo(single[1].statistics.pValue!, 10);
+  });
+});
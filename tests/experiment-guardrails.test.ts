@@ -0,0 +1,155 @@
+/**
+ * Unit Tests - Experiment Guardrails
+ *
+ * Tests multi-metric experiment analysis:
+ * - Holm correction across variant comparisons
+ * - Guardrail ceilings and significant increases over control
+ * - Stop / rollback decisions that override a primary-metric win
+ * - The analytics.experiment_results skill insight
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeMultiMetric,
+  checkGuardrail,
+  holmAdjust,
+  type VariantCounts,
+} from '@/src/lib/testing/analysis';
+import { skillRegistry } from '@/lib/skills/registry';
+import { experimentInsight } from '@/lib/skills/handlers/analytics-experiments';
+
+const variant = (variantId: string, sent: number, replied: number, extra: Partial<VariantCounts> = {}): VariantCounts => ({
+  variantId,
+  variantKey: variantId,
+  isControl: variantId === 'a',
+  sent,
+  opened: 0,
+  clicked: 0,
+  replied,
+  booked: 0,
+  bounced: 0,
+  unsubscribed: 0,
+  complained: 0,
+  ...extra,
+});
+
+describe('Experiment Guardrails - Correction', () => {
+  it('should compute Holm-adjusted p-values in input order', () => {
+    const adjusted = holmAdjust([0.04, 0.01, 0.03]);
+
+    expect(adjusted[1]).toBeCloseTo(0.03, 10);
+    expect(adjusted[2]).toBeCloseTo(0.06, 10);
+    expect(adjusted[0]).toBeCloseTo(0.06, 10); // Monotone: never below an earlier step
+    expect(holmAdjust([0.6, 0.5])).toEqual([1, 1]);
+  });
+
+  it('should keep a single comparison unadjusted', () => {
+    const { results, comparisons } = analyzeMultiMetric([variant('a', 1000, 30), variant('b', 1000, 70)], {
+      testId: 't',
+      metric: 'replyRate',
+      mode: 'frequentist',
+    });
+
+    expect(comparisons).toBe(1);
+    expect(results[1].statistics.adjustedPValue).toBeCloseTo(results[1].statistics.pValue!, 10);
+    expect(results[1].statistics.significant).toBe(true);
+  });
+
+  it('should withhold a marginal win once several variants are compared', () => {
+    // b alone is significant at 0.05, but not after correcting for 4 comparisons
+    const counts = [
+      variant('a', 1000, 40),
+      variant('b', 1000, 60),
+      variant('c', 1000, 41),
+      variant('d', 1000, 42),
+      variant('e', 1000, 39),
+    ];
+    const single = analyzeMultiMetric(counts.slice(0, 2), { testId: 't', metric: 'replyRate', mode: 'frequentist' });
+    const multi = analyzeMultiMetric(counts, { testId: 't', metric: 'replyRate', mode: 'frequentist' });
+
+    expect(single.winnerId).toBe('b');
+    expect(multi.results[1].statistics.adjustedPValue).toBeGreaterThan(0.05);
+    expect(multi.winnerId).toBeNull();
+    expect(multi.decisions).toEqual({ a: 'continue', b: 'continue', c: 'continue', d: 'continue', e: 'continue' });
+  });
+});
+
+describe('Experiment Guardrails - Breaches', () => {
+  it('should breach on the ceiling only after the minimum sample', () => {
+    const control = variant('a', 80, 3);
+    const guardrail = { metric: 'spamComplaintRate' as const, maxRate: 0.003, action: 'rollback' as const };
+
+    expect(checkGuardrail(control, variant('b', 80, 3, { complained: 1 }), guardrail).breached).toBe(false);
+    expect(checkGuardrail(control, variant('b', 400, 3, { complained: 2 }), guardrail)).toMatchObject({
+      breached: true,
+      rate: 0.005,
+      reason: 'Spam complaint rate 0.5% above the 0.3% limit',
+    });
+  });
+
+  it('should breach on a significant increase over control', () => {
+    const guardrail = { metric: 'bounceRate' as const, maxIncrease: 0.01, action: 'stop' as const };
+
+    const noisy = checkGuardrail(variant('a', 100, 3, { bounced: 1 }), variant('b', 100, 3, { bounced: 3 }), guardrail);
+    const clear = checkGuardrail(variant('a', 1000, 30, { bounced: 15 }), variant('b', 1000, 30, { bounced: 45 }), guardrail);
+
+    expect(noisy.breached).toBe(false);
+    expect(clear.pValue).toBeLessThan(0.05);
+    expect(clear).toMatchObject({ breached: true, reason: 'Bounce rate up 3.0% vs control (4.5% vs 1.5%)' });
+  });
+
+  it('should stop a variant that wins on replies but breaches bounces', () => {
+    const analysis = analyzeMultiMetric([
+      variant('a', 1000, 30, { bounced: 15 }),
+      variant('b', 1000, 80, { bounced: 60 }),
+      variant('c', 1000, 65, { bounced: 14 }),
+    ], { testId: 't', metric: 'replyRate', mode: 'frequentist', minSample: 500 });
+
+    expect(analysis.results[1].statistics.significant).toBe(true);
+    expect(analysis.decisions).toEqual({ a: 'continue', b: 'stop', c: 'winner' });
+    expect(analysis.winnerId).toBe('c');
+  });
+
+  it('should roll back when a rollback guardrail is breached', () => {
+    const analysis = analyzeMultiMetric([
+      variant('a', 1000, 30),
+      variant('b', 1000, 80, { complained: 5 }),
+    ], { testId: 't', metric: 'replyRate', mode: 'bayesian', simulations: 4000 });
+
+    expect(analysis.decisions.b).toBe('rollback');
+    expect(analysis.winnerId).toBeNull();
+    expect(analysis.guardrails.filter(c => c.breached).map(c => c.metric)).toEqual(['spamComplaintRate']);
+  });
+});
+
+describe('Experiment Guardrails - Insight', () => {
+  it('should rank guardrail breaches above a primary-metric win', () => {
+    const stopped = analyzeMultiMetric([
+      variant('a', 1000, 30, { bounced: 15 }),
+      variant('b', 1000, 80, { bounced: 60 }),
+      variant('c', 1000, 65, { bounced: 14 }),
+    ], { testId: 't', metric: 'replyRate', mode: 'frequentist' });
+    const insight = experimentInsight('Opener test', stopped);
+
+    expect(insight).toMatchObject({ type: 'insight', title: 'Opener test: variant B stopped on guardrails', severity: 'warning' });
+    expect(insight.description).toContain('Variant B: Bounce rate 6.0% above the 5.0% limit.');
+    expect(insight.description).toContain('Variant C wins on reply rate');
+
+    const clean = analyzeMultiMetric([variant('a', 1000, 30), variant('b', 1000, 70)], {
+      testId: 't',
+      metric: 'replyRate',
+      mode: 'frequentist',
+    });
+    expect(experimentInsight('Opener test', clean)).toMatchObject({ title: 'Opener test: variant B wins', severity: 'success' });
+  });
+
+  it('should register the analytics skill with a demo readout', async () => {
+    const skill = skillRegistry.get('analytics.experiment_results');
+    const output = await skill!.handler({ skillId: skill!.id, params: {}, context: { source: 'ui' } });
+
+    expect(skillRegistry.findByPattern('check experiment guardrails')?.skill.id).toBe('analytics.experiment_results');
+    expect(output).toMatchObject({ status: 'success', dataFreshness: 'mock' });
+    expect(output.blocks.map(b => b.type)).toEqual(['table', 'insight']);
+    expect(output.blocks[1]).toMatchObject({ severity: 'warning', title: 'Q3 opener test: variant C stopped on guardrails' });
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * Unit Tests - Inbound Email Ingestion
+ *
+ * Tests reply and bounce handling:
+ * - RFC 822 reply and DSN parsing
+ * - Resend webhook parsing and signature verification
+ * - Matching, event recording and enrollment exits
+ * - Engagement score updates
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createHmac } from 'crypto';
+import {
+  InboundEmailProcessor,
+  parseRawEmail,
+  parseResendWebhook,
+  verifyWebhookSignature,
+  applyEngagementSignal,
+  classifyReplySentiment,
+  categorizeBounce,
+  extractMessageIds,
+} from '@/lib/inbound-email';
+import type {
+  InboundStore,
+  MatchedSend,
+  EmailEventInsert,
+  InboundEnrollment,
+  EngagementScoreRow,
+  InboundEmailEvent,
+} from '@/lib/inbound-email';
+import type { EnrollmentUpdate } from '@/lib/sequence-engine';
+
+const REPLY = [
+  'From: Jordan Lee <Jordan@acme.com>',
+  'To: rep@adzeta.io',
+  'Subject: Re: Quick question',
+  'Message-ID: <reply-1@acme.com>',
+  'In-Reply-To: <msg-123@resend.dev>',
+  'References: <msg-000@resend.dev> <msg-123@resend.dev>',
+  'Date: Wed, 04 Mar 2026 15:00:00 +0000',
+  'Content-Type: multipart/alternative; boundary="b1"',
+  '',
+  '--b1',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Sounds good =E2=80=94 can we schedule a call Thursday?',
+  '',
+  'On Tue, Mar 3, 2026 at 9:00 AM Rep <rep@adzeta.io> wrote:',
+  '> Hi Jordan',
+  '--b1',
+  'Content-Type: text/html',
+  '',
+  '<p>Sounds good</p>',
+  '--b1--',
+].join('\r\n');
+
+const BOUNCE = [
+  'From: Mail Delivery Subsystem <MAILER-DAEMON@mx.acme.com>',
+  'Subject: Undelivered Mail Returned to Sender',
+  'Message-ID: <dsn-1@mx.acme.com>',
+  'Content-Type: multipart/report; report-type=delivery-status; boundary="r1"',
+  '',
+  '--r1',
+  'Content-Type: text/plain',
+  '',
+  'Your message could not be delivered.',
+  '--r1',
+  'Content-Type: message/delivery-status',
+  '',
+  'Reporting-MTA: dns; mx.acme.com',
+  '',
+  'Final-Recipient: rfc822; ghost@acme.com',
+  'Action: failed',
+  'Status: 5.1.1',
+  'Diagnostic-Code: smtp; 550 5.1.1 User unknown',
+  '--r1',
+  'Content-Type: text/rfc822-headers',
+  '',
+  'From: rep@adzeta.io',
+  'To: ghost@acme.com',
+  'Message-ID: <msg-456@resend.dev>',
+  '--r1--',
+].join('\n');
+
+class FakeInboundStore implements InboundStore {
+  sends: MatchedSend[] = [
+    { id: 'send-1', enrollment_id: 'enr-1', prospect_id: 'prospect-1', recipient_email: 'jordan@acme.com' },
+  ];
+  providerIds: Record<string, string> = { 'msg-123': 'send-1' };
+  enrollment: InboundEnrollment = { id: 'enr-1', status: 'active', abort_on_reply: true };
+  events: EmailEventInsert[] = [];
+  sendUpdates: Array<Record<string, unknown>> = [];
+  enrollmentUpdates: EnrollmentUpdate[] = [];
+  score: EngagementScoreRow | null = null;
+
+  async findSendByMessageIds(ids: string[]): Promise<MatchedSend | null> {
+    const id = ids.map(i => this.providerIds[i]).find(Boolean);
+    return this.sends.find(s => s.id === id) ?? null;
+  }
+  async findLatestSendTo(email: string): Promise<MatchedSend | null> {
+    return this.sends.find(s => s.recipient_email === email) ?? null;
+  }
+  async hasEvent(key: string): Promise<boolean> {
+    return this.events.some(e => e.event_data.event_key === key);
+  }
+  async recordEvent(event: EmailEventInsert): Promise<void> {
+    this.events.push(event);
+  }
+  async updateSend(_id: string, update: Record<string, unknown>): Promise<void> {
+    this.sendUpdates.push(update);
+  }
+  async getEnrollment(): Promise<InboundEnrollment | null> {
+    return this.enrollment;
+  }
+  async updateEnrollment(_id: string, update: EnrollmentUpdate): Promise<void> {
+    this.enrollmentUpdates.push(update);
+  }
+  async getEngagementScore(): Promise<EngagementScoreRow | null> {
+    return this.score;
+  }
+  async saveEngagementScore(row: EngagementScoreRow): Promise<void> {
+    this.score = row;
+  }
+}
+
+describe('Inbound Email - RFC 822 Parsing', () => {
+  it('should parse a reply with threading headers', () => {
+    const event = parseRawEmail(REPLY);
+
+    expect(event?.type).toBe('reply');
+    expect(event?.from).toBe('jordan@acme.com');
+    expect(event?.messageIds).toEqual(['msg-123@resend.dev', 'msg-000@resend.dev']);
+    expect(event?.eventKey).toBe('reply-1@acme.com');
+    expect(event?.autoReply).toBe(false);
+  });
+
+  it('should decode quoted-printable text and strip quoted history', () => {
+    const event = parseRawEmail(REPLY);
+    expect(event?.body).toBe('Sounds good — can we schedule a call Thursday?');
+  });
+
+  it('should detect auto-replies', () => {
+    const raw = REPLY.replace('Subject: Re: Quick question', 'Subject: Automatic reply: Quick question');
+    expect(parseRawEmail(raw)?.autoReply).toBe(true);
+
+    const withHeader = `Auto-Submitted: auto-replied\r\n${REPLY}`;
+    expect(parseRawEmail(withHeader)?.autoReply).toBe(true);
+  });
+
+  it('should treat unsubscribe replies as unsubscribes', () => {
+    const raw = REPLY.replace('Sounds good =E2=80=94 can we schedule a call Thursday?', 'Unsubscribe me please');
+    expect(parseRawEmail(raw)?.type).toBe('unsubscribe');
+  });
+
+  it('should parse delivery status notifications as bounces', () => {
+    const event = parseRawEmail(BOUNCE);
+
+    expect(event?.type).toBe('bounce');
+    expect(event?.recipient).toBe('ghost@acme.com');
+    expect(event?.messageIds).toContain('msg-456@resend.dev');
+    expect(event?.bounceCategory).toBe('invalid');
+    expect(event?.bounceReason).toContain('User unknown');
+  });
+
+  it('should extract bracketed message IDs', () => {
+    expect(extractMessageIds('<a@x> <b@y>', 'c@z')).toEqual(['a@x', 'b@y', 'c@z']);
+  });
+});
+
+describe('Inbound Email - Classification', () => {
+  it('should categorize bounces by enhanced status code', () => {
+    expect(categorizeBounce('4.2.2')).toBe('soft_bounce');
+    expect(categorizeBounce('5.1.1')).toBe('invalid');
+    expect(categorizeBounce('5.7.1')).toBe('spam');
+    expect(categorizeBounce('5.2.1')).toBe('hard_bounce');
+    expect(categorizeBounce('5.0.0', '554 rejected due to spam content')).toBe('spam');
+  });
+
+  it('should classify reply sentiment', () => {
+    expect(classifyReplySentiment('Sounds good, send a calendar invite')).toBe('positive');
+    expect(classifyReplySentiment('Not interested, thanks')).toBe('negative');
+    expect(classifyReplySentiment('What does pricing look like?')).toBe('question');
+    expect(classifyReplySentiment('Forwarding to my colleague')).toBe('neutral');
+  });
+});
+
+describe('Inbound Email - Resend Webhooks', () => {
+  it('should parse bounce webhooks', () => {
+    const event = parseResendWebhook({
+      type: 'email.bounced',
+      created_at: '2026-03-04T15:00:00Z',
+      data: {
+        email_id: 'msg-123',
+        to: ['jordan@acme.com'],
+        bounce: { type: 'Transient', subType: 'MailboxFull', message: 'Mailbox full' },
+      },
+    }, 'evt_1');
+
+    expect(event).toMatchObject({
+      type: 'bounce',
+      provider: 'resend',
+      messageIds: ['msg-123'],
+      recipient: 'jordan@acme.com',
+      bounceCategory: 'soft_bounce',
+      eventKey: 'evt_1',
+    });
+  });
+
+  it('should parse complaints as spam reports', () => {
+    const event = parseResendWebhook({ type: 'email.complained', data: { email_id: 'msg-123' } });
+    expect(event?.type).toBe('spam_report');
+  });
+
+  it('should ignore non-inbound webhook types', () => {
+    expect(parseResendWebhook({ type: 'email.sent', data: { email_id: 'msg-123' } })).toBeNull();
+  });
+
+  it('should verify svix signatures', () => {
+    const secret = `whsec_${Buffer.from('test-secret').toString('base64')}`;
+    const body = '{"type":"email.bounced"}';
+    const now = new Date('2026-03-04T15:00:00Z');
+    const timestamp = String(Math.floor(now.getTime() / 1000));
+    const signature = createHmac('sha256', Buffer.from('test-secret'))
+      .update(`msg_1.${timestamp}.${body}`)
+      .digest('base64');
+
+    const headers = { id: 'msg_1', timestamp, signature: `v1,${signature}` };
+    expect(verifyWebhookSignature(body, headers, secret, now)).toBe(true);
+    expect(verifyWebhookSignature(`${body} `, headers, secret, now)).toBe(false);
+    expect(verifyWebhookSignature(body, headers, secret, new Date(now.getTime() + 10 * 60 * 1000))).toBe(false);
+  });
+});
+
+describe('Inbound Email - Ingestion', () => {
+  let store: FakeInboundStore;
+  let processor: InboundEmailProcessor;
+
+  beforeEach(() => {
+    store = new FakeInboundStore();
+    processor = new InboundEmailProcessor(store);
+  });
+
+  it('should match replies by In-Reply-To and complete the enrollment', async () => {
+    const result = await processor.ingest(parseRawEmail(REPLY) as InboundEmailEvent);
+
+    expect(result).toMatchObject({ matched: true, sendId: 'send-1', enrollmentStatus: 'completed' });
+    expect(store.events[0]).toMatchObject({ event_type: 'reply', email_send_id: 'send-1', reply_sentiment: 'positive' });
+    expect(store.sendUpdates[0]).toMatchObject({ status: 'replied' });
+    expect(store.enrollmentUpdates[0]).toMatchObject({ status: 'completed', exit_reason: 'replied' });
+  });
+
+  it('should leave the enrollment running when abort_on_reply is off', async () => {
+    store.enrollment.abort_on_reply = false;
+
+    const result = await processor.ingest(parseRawEmail(REPLY) as InboundEmailEvent);
+
+    expect(result.enrollmentStatus).toBe('active');
+    expect(store.enrollmentUpdates).toHaveLength(0);
+  });
+
+  it('should not exit on auto-replies', async () => {
+    const raw = `Auto-Submitted: auto-replied\r\n${REPLY}`;
+    await processor.ingest(parseRawEmail(raw) as InboundEmailEvent);
+
+    expect(store.events[0].event_data.auto_reply).toBe(true);
+    expect(store.enrollmentUpdates).toHaveLength(0);
+    expect(store.score).toBeNull();
+  });
+
+  it('should fall back to the recipient address for bounces', async () => {
+    store.sends[0].recipient_email = 'ghost@acme.com';
+
+    const result = await processor.ingest(parseRawEmail(BOUNCE) as InboundEmailEvent);
+
+    expect(result.matched).toBe(true);
+    expect(store.sendUpdates[0]).toMatchObject({ status: 'bounced', bounce_category: 'invalid' });
+    expect(store.enrollmentUpdates[0]).toMatchObject({ status: 'bounced', exit_reason: 'bounced' });
+  });
+
+  it('should pause enrollments on soft bounces', async () => {
+    const event = parseResendWebhook({
+      type: 'email.bounced',
+      data: { email_id: 'msg-123', bounce: { type: 'Transient' } },
+    }) as InboundEmailEvent;
+
+    const result = await processor.ingest(event);
+    expect(result.enrollmentStatus).toBe('paused');
+  });
+
+  it('should cancel enrollments on spam complaints', async () => {
+    const event = parseResendWebhook({ type: 'email.complained', data: { email_id: 'msg-123' } }) as InboundEmailEvent;
+
+    await processor.ingest(event);
+    expect(store.enrollmentUpdates[0]).toMatchObject({ status: 'cancelled', exit_reason: 'unsubscribed' });
+  });
+
+  it('should skip duplicate webhook deliveries', async () => {
+    const event = parseResendWebhook({ type: 'email.complained', data: { email_id: 'msg-123' } }, 'evt_1') as InboundEmailEvent;
+
+    await processor.ingest(event);
+    const second = await processor.ingest(event);
+
+    expect(second.duplicate).toBe(true);
+    expect(store.events).toHaveLength(1);
+  });
+
+  it('should report unmatched events', async () => {
+    store.sends = [];
+    const result = await processor.ingest(parseRawEmail(REPLY) as InboundEmailEvent);
+    expect(result.matched).toBe(false);
+  });
+
+  it('should update engagement scores for replies', async () => {
+    await processor.ingest(parseRawEmail(REPLY) as InboundEmailEvent);
+
+    expect(store.score).toMatchObject({ prospect_id: 'prospect-1', total_replies: 1, email_score: 25, heat_level: 'warm' });
+  });
+});
+
+describe('Inbound Email - Engagement Scores', () => {
+  it('should accumulate signals and clamp scores', () => {
+    const at = new Date('2026-03-04T15:00:00Z');
+    let row = applyEngagementSignal(null, 'p1', 'open', at);
+    row = applyEngagementSignal(row, 'p1', 'click', at);
+    row = applyEngagementSignal(row, 'p1', 'reply', at);
+    row = applyEngagementSignal(row, 'p1', 'reply', at);
+
+    expect(row).toMatchObject({ total_opens: 1, total_clicks: 1, total_replies: 2, email_score: 57, heat_level: 'warm' });
+
+    const unsubscribed = applyEngagementSignal(row, 'p1', 'unsubscribe', at);
+    expect(unsubscribed.email_score).toBe(0);
+    expect(unsubscribed.heat_level).toBe('cold');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Unit Tests - Metrics Registry
+ *
+ * Tests the server-wide instruments behind /api/metrics:
+ * - Counters, gauges and histograms
+ * - OpenMetrics rendering and escaping
+ * - Scrape-time collectors (queue monitor)
+ * - executeSkill latency / error metrics
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  MetricsRegistry,
+  getMetricsRegistry,
+  resetMetricsRegistry,
+  renderOpenMetrics,
+} from '@/lib/metrics-registry';
+import { QueueMonitor } from '@/lib/queue-monitor';
+import { EmailRateLimiter } from '@/lib/rate-limiter';
+import { EmailProcessor, createSimulatedProvider } from '@/lib/email-processor';
+import { getEmailQueueService, resetEmailQueueService } from '@/lib/email-queue';
+import { executeSkill } from '@/lib/skills/executor';
+import { skillRegistry } from '@/lib/skills/registry';
+import type { SkillDefinition } from '@/lib/skills/types';
+
+describe('Metrics Registry - Instruments', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  it('should count per label set and render the _total suffix', async () => {
+    const counter = registry.counter('jobs_created', { help: 'Jobs created' });
+    counter.inc({ type: 'prospect_search' });
+    counter.inc({ type: 'prospect_search' }, 2);
+    counter.inc({ type: 'bulk_import' });
+
+    expect(counter.get({ type: 'prospect_search' })).toBe(3);
+    expect(await registry.render()).toBe([
+      '# TYPE jobs_created counter',
+      '# HELP jobs_created Jobs created',
+      'jobs_created_total{type="prospect_search"} 3',
+      'jobs_created_total{type="bulk_import"} 1',
+      '# EOF',
+      '',
+    ].join('\n'));
+    expect(() => counter.inc({}, -1)).toThrow('cannot decrease');
+  });
+
+  it('should return the same instrument for a name and reject kind clashes', () => {
+    const first = registry.gauge('running', { help: 'Running' });
+    expect(registry.gauge('running', { help: 'Running' })).toBe(first);
+    expect(() => registry.counter('running', { help: 'Running' })).toThrow('already registered as a gauge');
+    expect(() => registry.counter('bad-name', { help: 'Bad' })).toThrow('Invalid metric name');
+  });
+
+  it('should track gauges up and down', () => {
+    const gauge = registry.gauge('running', { help: 'Running' });
+    gauge.inc({ type: 'a' });
+    gauge.inc({ type: 'a' });
+    gauge.dec({ type: 'a' });
+    gauge.set({ type: 'b' }, 7);
+
+    expect(gauge.get({ type: 'a' })).toBe(1);
+    expect(gauge.get({ type: 'b' })).toBe(7);
+  });
+
+  it('should render cumulative histogram buckets', async () => {
+    const histogram = registry.histogram('latency_seconds', { help: 'Latency', unit: 'seconds', buckets: [0.1, 1] });
+    histogram.observe({ route: '/a' }, 0.05);
+    histogram.observe({ route: '/a' }, 0.5);
+    histogram.observe({ route: '/a' }, 3);
+
+    const text = await registry.render();
+    expect(text).toContain('# UNIT latency_seconds seconds');
+    expect(text).toContain('latency_seconds_bucket{route="/a",le="0.1"} 1');
+    expect(text).toContain('latency_seconds_bucket{route="/a",le="1"} 2');
+    expect(text).toContain('latency_seconds_bucket{route="/a",le="+Inf"} 3');
+    expect(text).toContain('latency_seconds_count{route="/a"} 3');
+    expect(text).toContain('latency_seconds_sum{route="/a"} 3.55');
+    expect(histogram.get({ route: '/a' })).toEqual({ count: 3, sum: 3.55 });
+  });
+
+  it('should escape label values and merge families from collectors', () => {
+    const text = renderOpenMetrics([
+      { name: 'up', help: 'Up', type: 'gauge', samples: [{ labels: { name: 'a"b\\c' }, value: 1 }] },
+      { name: 'up', help: 'Up', type: 'gauge', samples: [{ labels: { name: 'd' }, value: 0 }] },
+    ]);
+
+    expect(text.match(/# TYPE up gauge/g)).toHaveLength(1);
+    expect(text).toContain('up{name="a\\"b\\\\c"} 1');
+    expect(text).toContain('up{name="d"} 0');
+  });
+
+  it('should skip failing collectors', async () => {
+    registry.registerCollector('broken', () => {
+      throw new Error('database unavailable');
+    });
+    registry.registerCollector('ok', () => [{ name: 'ok', help: 'OK', type: 'gauge', samples: [{ value: 1 }] }]);
+
+    const text = await registry.render();
+    expect(text).toContain('ok 1');
+    expect(text.endsWith('# EOF\n')).toBe(true);
+  });
+});
+
+describe('Metrics Registry - Queue Monitor', () => {
+  it('should expose queue gauges as OpenMetrics families', async () => {
+    resetEmailQueueService();
+    const monitor = new QueueMonitor(
+      getEmailQueueService(),
+      new EmailRateLimiter(),
+      new EmailProcessor({ provider: createSimulatedProvider(), logLevel: 'error' })
+    );
+    const registry = new MetricsRegistry();
+    registry.registerCollector('email-queue', () => monitor.collectMetrics());
+
+    const text = await registry.render();
+    expect(text).toContain('# TYPE email_queue_depth gauge');
+    expect(text).toMatch(/^email_queue_depth\{queue="[^"]+"\} 0$/m);
+    expect(text).toMatch(/^email_throughput 0$/m);
+    expect(text).toContain('email_health{component="queue-service"}');
+    expect(await monitor.exportPrometheusMetrics()).not.toContain('\\n');
+  });
+});
+
+describe('Metrics Registry - Skill Execution', () => {
+  const skill = (id: string, handler: SkillDefinition['handler']): SkillDefinition => ({
+    id,
+    name: id,
+    description: 'Test skill',
+    domain: 'system',
+    inputSchema: {},
+    responseType: ['text'],
+    triggerPatterns: [],
+    estimatedMs: 1,
+    examples: [],
+    handler,
+  });
+
+  beforeEach(() => {
+    resetMetricsRegistry();
+  });
+
+  it('should record latency and errors per skill id', async () => {
+    skillRegistry.register(skill('test.ok', async () => ({
+      skillId: 'test.ok', status: 'success', blocks: [], followUps: [], executionMs: 0, dataFreshness: 'mock',
+    })));
+    skillRegistry.register(skill('test.throws', async () => {
+      throw new Error('boom');
+    }));
+
+    await executeSkill({ skillId: 'test.ok', params: {}, context: { source: 'api' } });
+    await executeSkill({ skillId: 'test.throws', params: {}, context: { source: 'api' } });
+    await executeSkill({ skillId: 'no such skill', params: {}, context: { source: 'api' } });
+
+    const registry = getMetricsRegistry();
+    const duration = registry.histogram('skill_execution_duration_seconds', { help: '' });
+    const errors = registry.counter('skill_execution_errors', { help: '' });
+
+    expect(duration.get({ skill_id: 'test.ok', status: 'success' }).count).toBe(1);
+    expect(duration.get({ skill_id: 'test.throws', status: 'error' }).count).toBe(1);
+    expect(errors.get({ skill_id: 'test.throws', reason: 'exception' })).toBe(1);
+    expect(errors.get({ skill_id: 'unknown', reason: 'unknown_skill' })).toBe(1);
+  });
+});
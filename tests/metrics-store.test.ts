@@ -0,0 +1,168 @@
+/**
+ * Unit Tests - Metrics Store
+ *
+ * Tests persisted monitor history:
+ * - Downsampling into 1m / 1h rollups
+ * - Resolution selection by window
+ * - In-memory store queries and retention
+ * - Postgres store SQL against a fake query client
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  InMemoryMetricsStore,
+  PostgresMetricsStore,
+  createMetricsStore,
+  downsample,
+  pickResolution,
+  labelsKey,
+} from '@/lib/metrics-store';
+import type { MetricSample } from '@/lib/metrics-store';
+import type { QueueDatabase } from '@/lib/email-queue';
+
+const NOW = new Date('2026-03-10T15:00:00Z');
+const minutesAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60 * 1000);
+
+const sample = (minutes: number, value: number, overrides: Partial<MetricSample> = {}): MetricSample => ({
+  series: 'email_throughput',
+  type: 'gauge',
+  timestamp: minutesAgo(minutes),
+  value,
+  ...overrides,
+});
+
+describe('Metrics Store - Helpers', () => {
+  it('should build stable label keys', () => {
+    expect(labelsKey({ queue: 'email:normal', a: '1' })).toBe('a=1,queue=email:normal');
+    expect(labelsKey()).toBe('');
+  });
+
+  it('should downsample samples into buckets', () => {
+    const buckets = downsample([
+      sample(0.5, 10),
+      sample(0.25, 30),
+      sample(0, 20),
+    ], '1m');
+
+    expect(buckets).toHaveLength(2);
+    expect(buckets[0]).toMatchObject({ count: 2, sum: 40, min: 10, max: 30, last: 30 });
+    expect(buckets[1]).toMatchObject({ count: 1, last: 20, bucket: NOW });
+  });
+
+  it('should pick coarser resolutions for longer windows', () => {
+    expect(pickResolution(minutesAgo(15), NOW, NOW)).toBe('raw');
+    expect(pickResolution(minutesAgo(24 * 60), NOW, NOW)).toBe('1m');
+    expect(pickResolution(minutesAgo(7 * 24 * 60), NOW, NOW)).toBe('1h');
+    // Raw data past retention falls back to rollups
+    expect(pickResolution(minutesAgo(8 * 60), minutesAgo(7 * 60 + 30), NOW)).toBe('1m');
+  });
+});
+
+describe('Metrics Store - In Memory', () => {
+  it('should answer raw and rollup queries', async () => {
+    const store = new InMemoryMetricsStore();
+    await store.write([sample(2, 10), sample(1.5, 20), sample(1, 30)]);
+
+    const raw = await store.query({ series: 'email_throughput', from: minutesAgo(5), to: NOW, resolution: 'raw' });
+    expect(raw.map(p => p.value)).toEqual([10, 20, 30]);
+
+    const minute = await store.query({ series: 'email_throughput', from: minutesAgo(5), to: NOW, resolution: '1m' });
+    expect(minute.map(p => p.value)).toEqual([15, 30]);
+
+    const max = await store.query({ series: 'email_throughput', from: minutesAgo(5), to: NOW, resolution: '1h', aggregation: 'max' });
+    expect(max).toEqual([{ timestamp: new Date('2026-03-10T14:00:00Z'), value: 30, labels: {} }]);
+  });
+
+  it('should sum counters and filter by labels', async () => {
+    const store = new InMemoryMetricsStore();
+    await store.write([
+      sample(1, 5, { series: 'sends', type: 'counter', labels: { queue: 'a' } }),
+      sample(1, 7, { series: 'sends', type: 'counter', labels: { queue: 'a' } }),
+      sample(1, 100, { series: 'sends', type: 'counter', labels: { queue: 'b' } }),
+    ]);
+
+    const points = await store.query({ series: 'sends', from: minutesAgo(5), to: NOW, resolution: '1m', labels: { queue: 'a' } });
+    expect(points).toHaveLength(1);
+    expect(points[0].value).toBe(12);
+  });
+
+  it('should prune by retention', async () => {
+    const store = new InMemoryMetricsStore({ retention: { raw: 60 * 1000, '1m': 10 * 60 * 1000 } });
+    await store.write([sample(30, 1), sample(0.5, 2)]);
+    await store.prune(NOW);
+
+    const raw = await store.query({ series: 'email_throughput', from: minutesAgo(60), to: NOW, resolution: 'raw' });
+    const minute = await store.query({ series: 'email_throughput', from: minutesAgo(60), to: NOW, resolution: '1m' });
+    const hour = await store.query({ series: 'email_throughput', from: minutesAgo(60), to: NOW, resolution: '1h' });
+    expect(raw.map(p => p.value)).toEqual([2]);
+    expect(minute.map(p => p.value)).toEqual([2]);
+    expect(hour.map(p => p.value)).toEqual([1.5]);
+  });
+});
+
+describe('Metrics Store - Postgres', () => {
+  function createFakeDb(rows: unknown[] = []) {
+    const queries: Array<{ text: string; params: unknown[] }> = [];
+    const db: QueueDatabase = {
+      async query(text: string, params: unknown[] = []) {
+        queries.push({ text, params });
+        return { rows, rowCount: rows.length };
+      },
+    };
+    return { db, queries };
+  }
+
+  it('should insert raw samples and upsert both rollups', async () => {
+    const { db, queries } = createFakeDb();
+    const store = new PostgresMetricsStore(db);
+    await store.write([sample(2, 10, { labels: { queue: 'email:normal' } }), sample(1, 20, { labels: { queue: 'email:normal' } })]);
+
+    expect(queries).toHaveLength(3);
+    expect(queries[0].text).toContain('INSERT INTO metric_samples');
+    expect(queries[0].params).toHaveLength(12);
+    expect(queries[0].params.slice(0, 6)).toEqual([
+      'email_throughput', 'gauge', '{"queue":"email:normal"}', 'queue=email:normal', 10, minutesAgo(2).toISOString(),
+    ]);
+    expect(queries[1].text).toContain('ON CONFLICT (series, labels_key, resolution, bucket) DO UPDATE');
+    expect(queries[1].params.slice(4, 11)).toEqual(['1m', minutesAgo(2).toISOString(), 1, 10, 10, 10, 10]);
+    expect(queries[2].params.slice(4, 11)).toEqual(['1h', '2026-03-10T14:00:00.000Z', 2, 30, 10, 20, 20]);
+  });
+
+  it('should skip empty writes', async () => {
+    const { db, queries } = createFakeDb();
+    await new PostgresMetricsStore(db).write([]);
+    expect(queries).toHaveLength(0);
+  });
+
+  it('should read rollups with the requested aggregation', async () => {
+    const { db, queries } = createFakeDb([
+      { metric_type: 'gauge', labels: {}, bucket: '2026-03-10T14:00:00Z', count: '4', sum: '40', min: '1', max: '25', last: '8' },
+    ]);
+    const store = new PostgresMetricsStore(db);
+
+    const avg = await store.query({ series: 'email_throughput', from: minutesAgo(6 * 24 * 60), to: NOW });
+    expect(queries[0].params.slice(0, 2)).toEqual(['email_throughput', '1h']);
+    expect(avg[0]).toEqual({ timestamp: new Date('2026-03-10T14:00:00Z'), value: 10, labels: {} });
+
+    const max = await store.query({ series: 'email_throughput', from: minutesAgo(60), to: NOW, resolution: '1m', aggregation: 'max' });
+    expect(max[0].value).toBe(25);
+  });
+
+  it('should prune each resolution by its retention', async () => {
+    const { db, queries } = createFakeDb();
+    await new PostgresMetricsStore(db).prune(NOW);
+
+    expect(queries.map(q => q.text)).toEqual([
+      'DELETE FROM metric_samples WHERE recorded_at < $1',
+      'DELETE FROM metric_rollups WHERE resolution = $1 AND bucket < $2',
+      'DELETE FROM metric_rollups WHERE resolution = $1 AND bucket < $2',
+    ]);
+    expect(queries[0].params).toEqual(['2026-03-10T09:00:00.000Z']);
+  });
+
+  it('should pick the backend from the configuration', () => {
+    const { db } = createFakeDb();
+    expect(createMetricsStore({ database: db })).toBeInstanceOf(PostgresMetricsStore);
+    expect(createMetricsStore({ backend: 'memory', database: db })).toBeInstanceOf(InMemoryMetricsStore);
+  });
+});
@@ -0,0 +1,427 @@
+/**
+ * Unit Tests - Notifications
+ *
+ * Tests alert delivery against a local HTTP sink:
+ * - Slack-compatible webhook payloads
+ * - Per-user routing by severity, source and component
+ * - Dedup and grouping windows
+ * - Quiet hours
+ * - Escalation of unresolved alerts
+ * - Email and in-app channels
+ * - Critical anomalies from the anomalies route reaching a channel
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { NextRequest } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  NotificationDispatcher,
+  WebhookChannel,
+  EmailNotificationChannel,
+  ActivityFeedChannel,
+  InMemoryNotificationFeed,
+  alertToNotification,
+  isQuietHours,
+  resetNotificationDispatcher,
+} from '@/lib/notifications';
+import type { NotificationRoute, NotificationStore } from '@/lib/notifications';
+import type { Alert } from '@/lib/queue-monitor';
+import type { AnomalyResult } from '@/lib/predictions/types';
+import type { EmailProvider } from '@/lib/email-processor';
+import type { EmailJobData } from '@/lib/email-queue';
+import { getServerSupabase } from '@/lib/supabase-server';
+import { GET as getAnomalies } from '@/app/api/predictions/anomalies/route';
+
+vi.mock('@/lib/api-auth', () => ({
+  authenticate: vi.fn(async () => ({ ok: true, userId: 'user-ops' })),
+}));
+
+vi.mock('@/lib/supabase-server', () => ({
+  getServerSupabase: vi.fn(() => null),
+}));
+
+const START = new Date('2026-03-10T15:00:00Z').getTime();
+
+interface SlackPayload {
+  text: string;
+  attachments: Array<{ color: string; title: string; text: string; fields: Array<{ title: string; value: string }> }>;
+}
+
+let server: Server;
+let sinkUrl: string;
+let received: Array<{ path: string; body: SlackPayload }> = [];
+let failNext = false;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      if (failNext) {
+        failNext = false;
+        res.writeHead(500).end();
+        return;
+      }
+      received.push({ path: req.url ?? '', body: JSON.parse(body) });
+      res.writeHead(200, { 'Content-Type': 'text/plain' }).end('ok');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  sinkUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+const alert = (overrides: Partial<Alert> = {}): Alert => ({
+  id: 'alert-1',
+  severity: 'error',
+  component: 'processor',
+  message: 'Error rate 25.0% exceeds threshold 10.0%',
+  timestamp: new Date(START),
+  ruleId: 'error-rate',
+  ...overrides,
+});
+
+class RecordingProvider implements EmailProvider {
+  name = 'recording';
+  sent: EmailJobData[] = [];
+
+  async send(data: EmailJobData): Promise<{ messageId: string; response: unknown }> {
+    this.sent.push(data);
+    return { messageId: `msg-${this.sent.length}`, response: {} };
+  }
+  async validate(): Promise<{ valid: boolean }> {
+    return { valid: true };
+  }
+  async health(): Promise<{ healthy: boolean; latency: number }> {
+    return { healthy: true, latency: 0 };
+  }
+}
+
+describe('Notifications - Dispatcher', () => {
+  let clock: number;
+  let dispatcher: NotificationDispatcher;
+  const route = (overrides: Partial<NotificationRoute> = {}): NotificationRoute => ({
+    id: 'ops-slack',
+    userId: 'user-ops',
+    channel: 'webhook',
+    target: `${sinkUrl}/ops`,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    received = [];
+    clock = START;
+    dispatcher = new NotificationDispatcher({
+      channels: [new WebhookChannel()],
+      routes: [route()],
+      groupWindowMs: 0,
+      now: () => new Date(clock),
+    });
+  });
+
+  it('should post Slack-compatible JSON to the route webhook', async () => {
+    const results = await dispatcher.notifyAlert(alert());
+
+    expect(results).toEqual([{ routeId: 'ops-slack', userId: 'user-ops', channel: 'webhook', count: 1, success: true, escalation: undefined }]);
+    expect(received).toHaveLength(1);
+    expect(received[0].path).toBe('/ops');
+    expect(received[0].body.text).toBe('processor error: Error rate 25.0% exceeds threshold 10.0%');
+    expect(received[0].body.attachments[0]).toMatchObject({
+      color: '#dc2626',
+      title: 'processor error',
+      fields: [{ title: 'Severity', value: 'error' }, { title: 'Source', value: 'processor' }],
+    });
+  });
+
+  it('should route by severity, source and component', async () => {
+    dispatcher.addRoute(route({ id: 'lead-critical', userId: 'user-lead', target: `${sinkUrl}/lead`, minSeverity: 'critical' }));
+    dispatcher.addRoute(route({ id: 'queue-only', userId: 'user-eng', target: `${sinkUrl}/eng`, components: ['queue'] }));
+    dispatcher.addRoute(route({ id: 'anomalies', userId: 'user-rev', target: `${sinkUrl}/rev`, sources: ['anomaly'], enabled: false }));
+
+    await dispatcher.notifyAlert(alert({ severity: 'info', ruleId: 'info-rule' }));
+    await dispatcher.notifyAlert(alert());
+    await dispatcher.notifyAlert(alert({ severity: 'critical', component: 'queue', ruleId: 'queue-depth' }));
+
+    expect(received.map(r => r.path)).toEqual(['/ops', '/ops', '/lead', '/eng']);
+    expect(dispatcher.getRoutes('user-eng').map(r => r.id)).toEqual(['queue-only']);
+  });
+
+  it('should dedup repeats within the window unless severity rises', async () => {
+    await dispatcher.notifyAlert(alert());
+    await dispatcher.notifyAlert(alert({ id: 'alert-2' }));
+    await dispatcher.notifyAlert(alert({ id: 'alert-3', severity: 'critical' }));
+
+    clock = START + 61 * 60 * 1000;
+    await dispatcher.notifyAlert(alert({ id: 'alert-4', severity: 'critical' }));
+
+    expect(received).toHaveLength(3);
+    expect(dispatcher.getStats()).toMatchObject({ received: 4, deduplicated: 1, delivered: 3 });
+  });
+
+  it('should send resolutions only for alerts that were delivered', async () => {
+    await dispatcher.notifyAlert(alert({ resolvedAt: new Date(START) }));
+    expect(received).toHaveLength(0);
+
+    await dispatcher.notifyAlert(alert());
+    await dispatcher.notifyAlert(alert({ resolvedAt: new Date(START + 1000) }));
+
+    expect(received[1].body.text).toBe('Resolved: processor: Error rate 25.0% exceeds threshold 10.0%');
+    expect(received[1].body.attachments[0].color).toBe('#16a34a');
+
+    // A re-fire after resolution is not deduplicated
+    await dispatcher.notifyAlert(alert({ id: 'alert-2' }));
+    expect(received).toHaveLength(3);
+  });
+
+  it('should group notifications per route within the window', async () => {
+    dispatcher = new NotificationDispatcher({
+      channels: [new WebhookChannel()],
+      routes: [route()],
+      groupWindowMs: 60 * 1000,
+      now: () => new Date(clock),
+    });
+
+    await dispatcher.notifyAlert(alert());
+    await dispatcher.notifyAlert(alert({ ruleId: 'queue-depth', component: 'queue', severity: 'warning', message: 'Queue depth exceeded 1000 jobs' }));
+    expect(await dispatcher.flush()).toEqual([]);
+    expect(dispatcher.getStats().pending).toBe(2);
+
+    clock = START + 60 * 1000;
+    const [result] = await dispatcher.flush();
+    expect(result).toMatchObject({ count: 2, success: true });
+    expect(received).toHaveLength(1);
+    expect(received[0].body.text).toBe('2 notifications (1 error, 1 warning)');
+    expect(received[0].body.attachments).toHaveLength(2);
+  });
+
+  it('should deliver critical notifications without waiting for the window', async () => {
+    dispatcher = new NotificationDispatcher({
+      channels: [new WebhookChannel()],
+      routes: [route()],
+      groupWindowMs: 60 * 1000,
+      now: () => new Date(clock),
+    });
+
+    await dispatcher.notifyAlert(alert({ ruleId: 'queue-depth', component: 'queue', severity: 'warning' }));
+    expect(received).toHaveLength(0);
+
+    const [result] = await dispatcher.notifyAlert(alert({ ruleId: 'no-throughput', severity: 'critical', message: 'No throughput' }));
+    expect(result).toMatchObject({ count: 2, success: true });
+    expect(received).toHaveLength(1);
+  });
+
+  it('should hold non-critical notifications during quiet hours', async () => {
+    dispatcher.removeRoute('ops-slack');
+    dispatcher.addRoute(route({ quietHours: { start: '22:00', end: '07:00', timezone: 'America/New_York' } }));
+
+    // 15:00Z is 11:00 in New York; 03:00Z next day is 23:00
+    clock = START + 12 * 60 * 60 * 1000;
+    await dispatcher.notifyAlert(alert());
+    expect(received).toHaveLength(0);
+
+    await dispatcher.notifyAlert(alert({ ruleId: 'no-throughput', severity: 'critical', message: 'No throughput' }));
+    expect(received).toHaveLength(1);
+    expect(received[0].body.attachments).toHaveLength(2);
+  });
+
+  it('should check quiet hours across midnight and time zones', () => {
+    const quiet = { start: '22:00', end: '07:00' };
+    expect(isQuietHours(quiet, new Date('2026-03-10T23:30:00Z'))).toBe(true);
+    expect(isQuietHours(quiet, new Date('2026-03-10T06:59:00Z'))).toBe(true);
+    expect(isQuietHours(quiet, new Date('2026-03-10T07:00:00Z'))).toBe(false);
+    expect(isQuietHours({ start: '12:00', end: '13:00', timezone: 'Europe/London' }, new Date('2026-07-01T11:30:00Z'))).toBe(true);
+  });
+
+  it('should escalate alerts that stay unresolved', async () => {
+    dispatcher = new NotificationDispatcher({
+      channels: [new WebhookChannel()],
+      routes: [route(), route({ id: 'oncall', userId: 'user-oncall', target: `${sinkUrl}/oncall`, minSeverity: 'critical' })],
+      groupWindowMs: 0,
+      escalation: [
+        { afterMs: 15 * 60 * 1000, userIds: ['user-oncall'] },
+        { afterMs: 60 * 60 * 1000, userIds: ['user-oncall'], minSeverity: 'critical' },
+      ],
+      now: () => new Date(clock),
+    });
+
+    await dispatcher.notifyAlert(alert());
+    clock = START + 10 * 60 * 1000;
+    expect(await dispatcher.flush()).toEqual([]);
+
+    clock = START + 2 * 60 * 60 * 1000;
+    const results = await dispatcher.flush();
+    expect(results).toEqual([expect.objectContaining({ routeId: 'oncall', escalation: 1, success: true })]);
+    expect(received.map(r => r.path)).toEqual(['/ops', '/oncall']);
+    expect(received[1].body.text).toBe('Escalated (level 1): processor error: Error rate 25.0% exceeds threshold 10.0%');
+
+    // Resolved alerts stop escalating
+    await dispatcher.notifyAlert(alert({ resolvedAt: new Date(clock) }));
+    clock = START + 5 * 60 * 60 * 1000;
+    expect(await dispatcher.flush()).toEqual([]);
+    expect(dispatcher.getStats().escalated).toBe(1);
+  });
+
+  it('should dispatch only critical anomalies by default', async () => {
+    const anomaly = (severity: AnomalyResult['severity']): AnomalyResult => ({
+      id: `anomaly-reply_rate-${severity}`,
+      metric: 'Reply Rate',
+      detectedAt: new Date(START).toISOString(),
+      severity,
+      type: 'drop',
+      value: 1.2,
+      expectedRange: { min: 4, max: 9 },
+      zScore: -3.4,
+      message: 'Reply Rate dropped to 1.2 (expected 6.5 ± 1.2)',
+      display_message: 'Reply Rate is 3.4 standard deviations below normal',
+    });
+
+    const results = await dispatcher.notifyAnomalies([anomaly('warning'), anomaly('critical')]);
+
+    expect(results).toHaveLength(1);
+    expect(received[0].body.text).toBe('Reply Rate drop: Reply Rate dropped to 1.2 (expected 6.5 ± 1.2)');
+  });
+
+  it('should report failed deliveries without throwing', async () => {
+    dispatcher.addRoute(route({ id: 'email-ops', channel: 'email', target: 'ops@adzeta.io' }));
+    failNext = true;
+
+    const results = await dispatcher.notifyAlert(alert());
+    expect(results.map(r => [r.routeId, r.success, r.error])).toEqual([
+      ['ops-slack', false, 'Webhook responded with 500'],
+      ['email-ops', false, 'No email channel configured'],
+    ]);
+    expect(dispatcher.getStats().failed).toBe(2);
+  });
+
+  it('should load routes from the store once', async () => {
+    let loads = 0;
+    const store: NotificationStore = {
+      async loadRoutes() {
+        loads++;
+        return [route({ id: 'db-route', target: `${sinkUrl}/db` })];
+      },
+    };
+    dispatcher.setStore(store);
+
+    await dispatcher.notifyAlert(alert());
+    await dispatcher.notifyAlert(alert({ ruleId: 'other' }));
+
+    expect(loads).toBe(1);
+    expect(received.filter(r => r.path === '/db')).toHaveLength(2);
+  });
+});
+
+describe('Notifications - Channels', () => {
+  it('should email notifications through the provider', async () => {
+    const provider = new RecordingProvider();
+    const dispatcher = new NotificationDispatcher({
+      channels: [new EmailNotificationChannel({ provider, from: 'alerts@adzeta.io' })],
+      routes: [{ id: 'email', userId: 'user-ops', channel: 'email', target: 'ops@adzeta.io' }],
+      groupWindowMs: 0,
+    });
+
+    await dispatcher.notifyAlert(alert({ message: 'Queue <email:bulk> backed up' }));
+
+    expect(provider.sent[0]).toMatchObject({
+      to: 'ops@adzeta.io',
+      from: 'alerts@adzeta.io',
+      subject: 'processor error: Queue <email:bulk> backed up',
+      text: '[ERROR] processor error\nQueue <email:bulk> backed up',
+      tags: ['notification'],
+    });
+    expect(provider.sent[0].html).toContain('Queue &lt;email:bulk&gt; backed up');
+  });
+
+  it('should write in-app entries to the activity feed', async () => {
+    const feed = new InMemoryNotificationFeed();
+    const dispatcher = new NotificationDispatcher({
+      channels: [new ActivityFeedChannel(feed)],
+      routes: [{ id: 'feed', userId: 'user-ops', channel: 'in_app', minSeverity: 'info' }],
+      groupWindowMs: 0,
+    });
+
+    await dispatcher.notify({ ...alertToNotification(alert()), actionCommand: 'show queue health' });
+
+    expect(feed.entries).toEqual([expect.objectContaining({
+      userId: 'user-ops',
+      severity: 'error',
+      title: 'processor error',
+      source: 'queue-monitor',
+      actionCommand: 'show queue health',
+      resolved: false,
+    })]);
+  });
+
+  it('should forward monitor alerts once attached', async () => {
+    const feed = new InMemoryNotificationFeed();
+    const dispatcher = new NotificationDispatcher({
+      channels: [new ActivityFeedChannel(feed)],
+      routes: [{ id: 'feed', userId: 'user-ops', channel: 'in_app' }],
+      groupWindowMs: 0,
+    });
+    const listeners: Array<(alert: Alert) => void> = [];
+    const detach = dispatcher.attach({
+      subscribe: (listener: (alert: Alert) => void) => {
+        listeners.push(listener);
+        return () => listeners.splice(listeners.indexOf(listener), 1);
+      },
+    });
+
+    listeners[0](alert());
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(feed.entries).toHaveLength(1);
+    detach();
+    expect(listeners).toHaveLength(0);
+  });
+});
+
+describe('Notifications - Anomalies Route', () => {
+  afterEach(() => {
+    resetNotificationDispatcher();
+  });
+
+  it('should deliver a critical anomaly to the routed channel', async () => {
+    const day = (offset: number) => new Date(Date.now() - offset * 86400000).toISOString().split('T')[0];
+    const performance = [[4, 100], [3, 110], [2, 90], [1, 100], [0, 1000]].map(([offset, sent]) => ({
+      date: day(offset),
+      channel: 'email',
+      messages_sent: sent,
+      replies: 0,
+      meetings_booked: 0,
+      reply_rate: 0,
+    }));
+    const routes = [{
+      id: 'ops-feed', user_id: 'user-ops', channel: 'in_app', target: null, min_severity: 'critical',
+      sources: null, components: null, quiet_hours: null, enabled: true,
+    }];
+    const inserted: Array<Record<string, unknown>> = [];
+
+    const table = (data: unknown[]) => {
+      const query = {
+        select: () => query,
+        gte: () => query,
+        order: () => query,
+        insert: (rows: Array<Record<string, unknown>>) => { inserted.push(...rows); return query; },
+        then: (resolve: (result: { data: unknown[]; error: null }) => void) => resolve({ data, error: null }),
+      };
+      return query;
+    };
+    const client = {
+      from: (name: string) => table(name === 'channel_performance' ? performance : name === 'notification_routes' ? routes : []),
+    };
+    vi.mocked(getServerSupabase).mockReturnValueOnce(client as unknown as SupabaseClient);
+
+    const response = await getAnomalies(new NextRequest('http://localhost/api/predictions/anomalies'));
+    const body = await response.json();
+
+    expect(body).toMatchObject({ dataSource: 'live', summary: { criticalCount: 1 } });
+    expect(inserted).toEqual([expect.objectContaining({ user_id: 'user-ops', severity: 'critical', source: 'anomaly' })]);
+  });
+});
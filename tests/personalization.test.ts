@@ -278,6 +278,18 @@ describe('personalizeEmail', () => {
     expect(result.missing).toContain('unknown');
     expect(result.missing).not.toContain('first_name');
   });
+
+  it('should inject tracking into the body when requested', () => {
+    const body = '<p>Hi {{first_name}}, see <a href="https://adzeta.io/demo">the demo</a></p>';
+    const result = personalizeEmail('Hello {{first_name}}', body, createMockContext(), {
+      tracking: { sendId: 'send-1', baseUrl: 'https://gtm.adzeta.io', secret: 'test-secret' },
+    });
+
+    expect(result.subject).toBe('Hello John');
+    expect(result.body).toContain('Hi John');
+    expect(result.body).toContain('href="https://gtm.adzeta.io/api/email/track/click?t=');
+    expect(result.body).toContain('src="https://gtm.adzeta.io/api/email/track/open?t=');
+  });
 });
 
 // ============================================================================
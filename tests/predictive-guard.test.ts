@@ -13,7 +13,8 @@ import {
   type BlockerPattern,
   type PredictedBlocker,
   type PredictionOptions,
-} from '../../lib/autonomy/predictive-guard';
+} from '@/lib/autonomy/predictive-guard';
+import { AutonomousTaskGenerator } from '@/lib/autonomy/task-generator';
 
 describe('PredictiveGuard - Pattern Detection', () => {
   let guard: PredictiveGuard;
@@ -642,4 +643,75 @@ describe('PredictiveGuard - Pattern Detection', () => {
       });
     });
   });
+  describe('Outcome Tracking', () => {
+    const criticalTask: Task = {
+      id: 'task-outcome',
+      title: 'Critical Task',
+      status: 'pending',
+      priority: 'critical',
+      createdAt: new Date(),
+    };
+
+    beforeEach(() => {
+      guard = new PredictiveGuard({ taskGenerator: null });
+      guard.analyzePatterns(mockHistoricalTasks);
+    });
+
+    it('should not duplicate predictions for the same task and pattern', () => {
+      guard.predictBlockers([criticalTask]);
+      const firstCount = guard.getPredictions().length;
+
+      guard.predictBlockers([criticalTask]);
+
+      expect(guard.getPredictions().length).toBe(firstCount);
+    });
+
+    it('should map outcomes to prediction statuses', () => {
+      const [first] = guard.predictBlockers([criticalTask], { minConfidence: 0.1 });
+
+      const resolved = guard.recordOutcome(first.id, 'blocked');
+
+      expect(resolved?.status).toBe('occurred');
+      expect(resolved?.resolvedAt).toBeDefined();
+    });
+
+    it('should compute accuracy from resolved predictions', () => {
+      const predictions = guard.predictBlockers([
+        criticalTask,
+        { ...criticalTask, id: 'task-outcome-2' },
+      ], { minConfidence: 0.1 });
+      const [a, b] = predictions.filter(p => p.patternId === 'pattern-high-priority-no-deps');
+
+      guard.recordOutcome(a.id, 'unblocked');
+      guard.recordOutcome(b.id, 'no_issue');
+      const metrics = guard.getMetrics();
+
+      expect(metrics.preventedCount).toBe(1);
+      expect(metrics.falsePositiveCount).toBe(1);
+      expect(metrics.accuracyRate).toBe(50);
+      expect(metrics.avgConfidence).toBeGreaterThan(1);
+    });
+
+    it('should reconcile predictions when tasks become blocked', () => {
+      guard.predictBlockers([criticalTask], { minConfidence: 0.1 });
+
+      const resolved = guard.reconcile([{ ...criticalTask, status: 'blocked' }]);
+
+      expect(resolved.length).toBeGreaterThan(0);
+      expect(resolved.every(p => p.status === 'occurred')).toBe(true);
+    });
+
+    it('should create mitigation tasks through the task generator', () => {
+      const taskGenerator = new AutonomousTaskGenerator();
+      const mitigatingGuard = new PredictiveGuard({ taskGenerator, autoMitigateThreshold: 0.5 });
+      mitigatingGuard.analyzePatterns(mockHistoricalTasks);
+
+      const predictions = mitigatingGuard.predictBlockers([criticalTask]);
+      const mitigated = predictions.filter(p => p.autoMitigate);
+
+      expect(mitigated.length).toBeGreaterThan(0);
+      expect(mitigated[0].mitigationTask?.type).toBe('proactive_mitigation');
+      expect(taskGenerator.getTasksByType('proactive_mitigation')).toHaveLength(mitigated.length);
+    });
+  });
 });
@@ -0,0 +1,211 @@
+/**
+ * Unit Tests - Prospect Identity Resolution
+ *
+ * Tests matching prospects across sources:
+ * - Email, LinkedIn, domain and company name normalization
+ * - Match scoring and batch clustering
+ * - Field-level merges with source attribution and merge history
+ * - The review queue for ambiguous matches
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  nameSimilarity,
+  normalizeCompanyName,
+  normalizeDomain,
+  normalizeEmail,
+  normalizeLinkedInUrl,
+  normalizePersonName,
+} from '@/src/lib/identity/normalize';
+import {
+  clusterRecords,
+  fromApolloPerson,
+  fromMCPProspect,
+  identityKeys,
+  mergeFields,
+  scoreMatch,
+  type ProspectRecord,
+} from '@/src/lib/identity/matching';
+import { IdentityError, IdentityResolver, InMemoryIdentityStore } from '@/src/lib/identity/resolver';
+
+const record = (source: ProspectRecord['source'], fields: ProspectRecord['fields'], sourceId?: string): ProspectRecord => ({
+  source,
+  sourceId,
+  observedAt: '2026-03-01T00:00:00.000Z',
+  fields,
+});
+
+const apolloJane = fromApolloPerson({
+  id: 'apollo-1',
+  first_name: 'Jane',
+  last_name: 'Doe',
+  name: 'Jane Doe',
+  title: 'VP Engineering',
+  email: 'Jane.Doe@Acme.io',
+  linkedin_url: 'https://www.linkedin.com/in/janedoe/',
+  seniority: 'vp',
+  organization: { id: 'org-1', name: 'Acme, Inc.', domain: 'acme.io', industry: 'SaaS', size: '51-200' },
+});
+
+describe('Identity Normalization', () => {
+  it('should normalize emails and LinkedIn URLs', () => {
+    expect(normalizeEmail(' Jane.Doe+crm@Acme.io ')).toBe('jane.doe@acme.io');
+    expect(normalizeEmail('j.a.n.e@googlemail.com')).toBe('jane@gmail.com');
+    expect(normalizeEmail('not-an-email')).toBeNull();
+    expect(normalizeLinkedInUrl('https://uk.linkedin.com/in/JaneDoe/?trk=abc')).toBe('in/janedoe');
+    expect(normalizeLinkedInUrl('linkedin.com/company/acme-inc')).toBe('company/acme-inc');
+  });
+
+  it('should canonicalize company domains and names', () => {
+    expect(normalizeDomain('https://www.Acme.io/about?x=1')).toBe('acme.io');
+    expect(normalizeDomain('jane@fb.com')).toBe('meta.com');
+    expect(normalizeDomain('acme-europe.com', { 'acme-europe.com': 'acme.io' })).toBe('acme.io');
+    expect(normalizeCompanyName('The Acme Group, Inc.')).toBe('acme');
+    expect(normalizeCompanyName('Smith & Co LLC')).toBe('smith and');
+  });
+
+  it('should fold nicknames and score similar names', () => {
+    expect(normalizePersonName('Bob', 'Jones')).toBe('robert jones');
+    expect(normalizePersonName(undefined, undefined, 'José Q. García')).toBe('jose garcia');
+    expect(nameSimilarity('martha', 'marhta')).toBeCloseTo(0.961, 3);
+    expect(nameSimilarity('doe', 'smith')).toBe(0);
+  });
+});
+
+describe('Identity Matching', () => {
+  it('should match on email, LinkedIn and fuzzy name at the same domain', () => {
+    const jane = identityKeys(apolloJane.fields);
+
+    expect(scoreMatch(jane, identityKeys({ person_email: 'jane.doe+x@acme.io' }))).toMatchObject({ score: 1, matchedOn: ['email'] });
+    expect(scoreMatch(jane, identityKeys({ person_linkedin_url: 'linkedin.com/in/janedoe' })).score).toBe(0.98);
+    expect(scoreMatch(jane, identityKeys({ person_name: 'Jane Doe', company_website: 'www.acme.io' }))).toMatchObject({
+      score: 1,
+      matchedOn: ['name_domain'],
+    });
+    expect(scoreMatch(jane, identityKeys({ person_name: 'Jane Doe', company_domain: 'other.com' })).score).toBe(0);
+    expect(scoreMatch(jane, identityKeys({ person_name: 'Jane Doe', person_linkedin_url: 'linkedin.com/in/jane-doe-2' }))).toMatchObject({
+      score: 0,
+      conflicts: ['linkedin'],
+    });
+  });
+
+  it('should score near-miss names and different emails as ambiguous', () => {
+    const jane = identityKeys(apolloJane.fields);
+    const typo = scoreMatch(jane, identityKeys({ person_name: 'Jane Dow', company_domain: 'acme.io' }));
+    const otherEmail = scoreMatch(jane, identityKeys({ person_name: 'Jane Doe', person_email: 'jdoe@acme.io' }));
+
+    expect(typo.score).toBeGreaterThanOrEqual(0.8);
+    expect(typo.score).toBeLessThan(0.95);
+    expect(otherEmail).toMatchObject({ score: 0.85, conflicts: ['email'] });
+  });
+
+  it('should cluster a mixed batch into one group per person', () => {
+    const clusters = clusterRecords([
+      apolloJane,
+      fromMCPProspect({ id: 'mcp-9', firstName: 'Jane', lastName: 'Doe', name: 'Jane Doe', title: 'VP Eng', company: 'Acme', email: 'JANE.DOE@acme.io' }),
+      record('openclaw', { person_name: 'Robert Jones', company_domain: 'acme.io' }),
+      record('bulk_import', { person_first_name: 'Bob', person_last_name: 'Jones', company_website: 'https://acme.io' }),
+      record('openclaw', { person_name: 'Robert Jones', company_domain: 'globex.com' }),
+    ]);
+
+    expect(clusters).toEqual([[0, 1], [2, 3], [4]]);
+  });
+
+  it('should merge fields by source priority and attribute each field', () => {
+    const base = mergeFields({ fields: {}, fieldSources: {} }, apolloJane);
+    const imported = mergeFields(base, record('bulk_import', { person_title: 'CTO', person_phone: '+1 555 0100', company_name: 'ACME, INC.' }, 'row-4'));
+    const scraped = mergeFields(imported, record('openclaw', { person_title: 'Engineer', company_industry: 'Software' }));
+
+    expect(scraped.fields).toMatchObject({ person_title: 'CTO', person_phone: '+1 555 0100', company_name: 'Acme, Inc.', company_industry: 'SaaS' });
+    expect(scraped.fieldSources.person_title).toMatchObject({ source: 'bulk_import', sourceId: 'row-4' });
+    expect(scraped.fieldSources.person_email).toMatchObject({ source: 'apollo', sourceId: 'apollo-1' });
+    expect(imported.changes.map(c => c.field)).toEqual(['person_phone', 'person_title']);
+    expect(scraped.changes).toEqual([]);
+  });
+});
+
+describe('Identity Resolver', () => {
+  it('should create, auto-merge and record merge history', async () => {
+    const resolver = new IdentityResolver({ store: new InMemoryIdentityStore() });
+
+    const created = await resolver.ingest('user-1', apolloJane);
+    const merged = await resolver.ingest('user-1', record('bulk_import', { person_email: 'jane.doe@ACME.io', person_phone: '+1 555 0100' }, 'row-1'));
+    const otherUser = await resolver.ingest('user-2', apolloJane);
+
+    expect(created.action).toBe('created');
+    expect(otherUser.action).toBe('created');
+    expect(merged).toMatchObject({ action: 'merged', match: { score: 1, matchedOn: ['email'] } });
+    if (merged.action !== 'merged' || created.action !== 'created') return;
+
+    expect(merged.prospect.id).toBe(created.prospect.id);
+    expect(merged.prospect.fields.person_phone).toBe('+1 555 0100');
+    expect(merged.prospect.sources).toEqual([{ source: 'apollo', sourceId: 'apollo-1' }, { source: 'bulk_import', sourceId: 'row-1' }]);
+
+    const history = await resolver.getMergeHistory(created.prospect.id);
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({ decidedBy: 'auto', source: 'bulk_import', changes: [{ field: 'person_phone', from: null }] });
+  });
+
+  it('should canonicalize domains through stored aliases', async () => {
+    const resolver = new IdentityResolver({ store: new InMemoryIdentityStore({ 'acme-labs.com': 'acme.io' }) });
+
+    await resolver.ingest('user-1', apolloJane);
+    const outcome = await resolver.ingest('user-1', record('openclaw', { person_name: 'Jane Doe', company_domain: 'acme-labs.com' }));
+
+    expect(outcome).toMatchObject({ action: 'merged', match: { matchedOn: ['name_domain'] } });
+  });
+
+  it('should queue ambiguous matches and apply review decisions', async () => {
+    const resolver = new IdentityResolver({ store: new InMemoryIdentityStore() });
+    await resolver.ingest('user-1', apolloJane);
+
+    const ambiguous = record('openclaw', { person_name: 'Jane Doe', person_email: 'jdoe@acme.io', person_title: 'VP Eng' }, 'oc-1');
+    const queued = await resolver.ingest('user-1', ambiguous);
+    const again = await resolver.ingest('user-1', ambiguous);
+
+    expect(queued.action).toBe('review');
+    if (queued.action !== 'review' || again.action !== 'review') throw new Error('expected a review');
+    expect(again.review.id).toBe(queued.review.id);
+    expect(await resolver.listReviews({ userId: 'user-1' })).toHaveLength(1);
+
+    const { review, prospect } = await resolver.resolveReview(queued.review.id, 'merge', 'reviewer-1');
+    expect(review).toMatchObject({ status: 'merged', reviewedBy: 'reviewer-1', resolvedProspectId: prospect.id });
+    expect(prospect.fields.person_email).toBe('Jane.Doe@Acme.io'); // Apollo outranks OpenClaw
+    expect((await resolver.getMergeHistory(prospect.id))[0]).toMatchObject({ decidedBy: 'reviewer-1', reviewId: review.id });
+    expect(await resolver.listReviews({ userId: 'user-1' })).toEqual([]);
+
+    await expect(resolver.resolveReview(queued.review.id, 'separate', 'reviewer-1')).rejects.toMatchObject({ code: 'invalid_state' });
+    await expect(resolver.resolveReview('missing', 'merge', 'reviewer-1')).rejects.toBeInstanceOf(IdentityError);
+  });
+
+  it('should create a separate prospect when a review is rejected', async () => {
+    const resolver = new IdentityResolver({ store: new InMemoryIdentityStore() });
+    const { outcomes } = await resolver.ingestMany('user-1', [
+      apolloJane,
+      record('openclaw', { person_name: 'Jane Dow', company_domain: 'acme.io' }, 'oc-2'),
+    ]);
+    if (outcomes[1].action !== 'review') throw new Error('expected a review');
+
+    const { prospect } = await resolver.resolveReview(outcomes[1].review.id, 'separate', 'reviewer-1');
+    expect(prospect.fields).toMatchObject({ person_name: 'Jane Dow', company_domain: 'acme.io' });
+    expect(prospect.id).not.toBe(outcomes[0].action === 'created' ? outcomes[0].prospect.id : '');
+  });
+
+  it("should hide another user's reviews and merge history", async () => {
+    const resolver = new IdentityResolver({ store: new InMemoryIdentityStore() });
+    const { outcomes } = await resolver.ingestMany('user-1', [
+      apolloJane,
+      record('openclaw', { person_name: 'Jane Dow', company_domain: 'acme.io' }, 'oc-2'),
+    ]);
+    if (outcomes[0].action !== 'created' || outcomes[1].action !== 'review') throw new Error('expected a prospect and a review');
+    const reviewId = outcomes[1].review.id;
+
+    await expect(resolver.resolveReview(reviewId, 'merge', 'user-2', 'user-2')).rejects.toMatchObject({ code: 'not_found' });
+    await expect(resolver.getMergeHistory(outcomes[0].prospect.id, 'user-2')).rejects.toMatchObject({ code: 'not_found' });
+    expect((await resolver.listReviews({ userId: 'user-1' }))[0]).toMatchObject({ id: reviewId, status: 'pending' });
+
+    const { review } = await resolver.resolveReview(reviewId, 'merge', 'user-1', 'user-1');
+    expect(review.status).toBe('merged');
+    expect(await resolver.getMergeHistory(outcomes[0].prospect.id, 'user-1')).toHaveLength(1);
+  });
+});
@@ -37,6 +37,7 @@ import {
 } from '@/lib/email-processor';
 import type { HealthStatus, SystemMetrics, Alert } from '@/lib/queue-monitor';
 import type { EmailJobData } from '@/lib/email-queue';
+import type { MetricSample } from '@/lib/metrics-store';
 
 describe('Queue Monitor - Formatting', () => {
   describe('formatBytes', () => {
@@ -226,7 +227,11 @@ describe('Queue Monitor - Core Functionality', () => {
       }
 
       // Manually trigger alert creation
-      (monitor as unknown as { checkAlerts: (depth: number, errorRate: number, throughput: number) => void }).checkAlerts(1000, 0, 0);
+      const now = new Date();
+      (monitor as unknown as { checkAlerts: (samples: MetricSample[]) => void }).checkAlerts([
+        { series: 'email_queue_waiting', type: 'gauge', timestamp: now, value: 1000 },
+        { series: 'email_throughput', type: 'gauge', timestamp: now, value: 0 },
+      ]);
 
       expect(alerts.length).toBeGreaterThan(0);
     });
@@ -7,6 +7,7 @@
  * - Hard limit enforcement
  * - Window-based counters
  * - Failure tracking
+ * - Recipient domain / provider throttling and deferral backoff
  * Target: >80% coverage
  */
 
@@ -18,7 +19,18 @@ import {
   getRateLimitTier,
   extractDomain,
   RATE_TIERS,
+  classifyMxHost,
+  parseDeferral,
 } from '@/lib/rate-limiter';
+import { EmailProcessor, createEmailJob, isRateLimitError } from '@/lib/email-processor';
+import type { EmailProvider } from '@/lib/email-processor';
+import { resetEmailQueueService, getRetryDelay } from '@/lib/email-queue';
+import type { EmailJobData } from '@/lib/email-queue';
+import { SenderPool } from '@/lib/sender-pool';
+import { SuppressionList } from '@/lib/suppression';
+import { SmtpError } from '@/lib/email-providers/smtp-provider';
+import { QueueMonitor } from '@/lib/queue-monitor';
+import { getEmailQueueService } from '@/lib/email-queue';
 
 describe('Rate Limiter - Warm-up Tiers', () => {
   describe('Tier Calculation', () => {
@@ -510,3 +522,253 @@ describe('EmailRateLimiter - Singleton', () => {
     expect(instance1).not.toBe(instance2);
   });
 });
+
+describe('EmailRateLimiter - Destinations', () => {
+  let limiter: EmailRateLimiter;
+  const mx: Record<string, string[]> = {
+    'acme.com': ['acme-com.mail.protection.outlook.com.'],
+    'globex.com': ['aspmx.l.google.com'],
+    'initech.com': ['mx0a-001.pphosted.com'],
+    'contoso.com': ['contoso-com.mail.protection.outlook.com'],
+  };
+
+  beforeEach(() => {
+    limiter = new EmailRateLimiter({
+      resolveMx: async domain => mx[domain] ?? [],
+      destinationLimits: { recipientDomain: { maxPerHour: 3, maxPerMinute: 2 } },
+    });
+  });
+
+  describe('Provider Detection', () => {
+    it('should classify MX hosts', () => {
+      expect(classifyMxHost('alt1.aspmx.l.google.com.')).toBe('google');
+      expect(classifyMxHost('acme-com.mail.protection.outlook.com')).toBe('microsoft');
+      expect(classifyMxHost('mta7.am0.yahoodns.net')).toBe('yahoo');
+      expect(classifyMxHost('us-smtp-inbound-1.mimecast.com')).toBe('mimecast');
+      expect(classifyMxHost('mail.example.org')).toBe('other');
+    });
+
+    it('should resolve consumer domains without MX lookups', async () => {
+      const lookups: string[] = [];
+      limiter = new EmailRateLimiter({ resolveMx: async domain => { lookups.push(domain); return []; } });
+
+      expect(await limiter.resolveDestination('a@gmail.com')).toEqual({ domain: 'gmail.com', provider: 'google' });
+      expect(await limiter.resolveDestination('b@Hotmail.com')).toEqual({ domain: 'hotmail.com', provider: 'microsoft' });
+      expect(lookups).toEqual([]);
+    });
+
+    it('should resolve and cache business domains by MX', async () => {
+      let lookups = 0;
+      limiter = new EmailRateLimiter({ resolveMx: async domain => { lookups++; return mx[domain] ?? []; } });
+
+      expect((await limiter.resolveDestination('jordan@acme.com')).provider).toBe('microsoft');
+      expect((await limiter.resolveDestination('casey@acme.com')).provider).toBe('microsoft');
+      expect((await limiter.resolveDestination('x@unknown.dev')).provider).toBe('other');
+      expect(lookups).toBe(2);
+    });
+
+    it('should fall back to other when lookups fail or are disabled', async () => {
+      limiter = new EmailRateLimiter({ resolveMx: async () => { throw new Error('ENOTFOUND'); } });
+      expect((await limiter.resolveDestination('x@acme.com')).provider).toBe('other');
+
+      limiter = new EmailRateLimiter({ resolveMx: null });
+      expect((await limiter.resolveDestination('x@acme.com')).provider).toBe('other');
+    });
+  });
+
+  describe('Destination Limits', () => {
+    it('should limit sends per recipient domain', async () => {
+      const acme = await limiter.resolveDestination('jordan@acme.com');
+      limiter.recordDestinationSuccess(acme);
+      limiter.recordDestinationSuccess(acme);
+
+      const check = limiter.checkDestination(acme);
+      expect(check.allowed).toBe(false);
+      expect(check.reason).toBe('Per-minute limit for domain acme.com exceeded: 2/2');
+      expect(check.retryAfterMs).toBeGreaterThan(0);
+      expect(limiter.checkDestination(await limiter.resolveDestination('a@globex.com')).allowed).toBe(true);
+    });
+
+    it('should limit sends per provider across its domains', async () => {
+      limiter = new EmailRateLimiter({
+        resolveMx: async domain => mx[domain] ?? [],
+        destinationLimits: { providers: { google: { maxPerHour: 2, maxPerMinute: 10 } } },
+      });
+      limiter.recordDestinationSuccess(await limiter.resolveDestination('a@gmail.com'));
+      limiter.recordDestinationSuccess(await limiter.resolveDestination('b@globex.com'));
+
+      const check = limiter.checkDestination(await limiter.resolveDestination('c@googlemail.com'));
+      expect(check.reason).toBe('Hourly limit for provider google exceeded: 2/2');
+      expect(limiter.checkDestination(await limiter.resolveDestination('d@acme.com')).allowed).toBe(true);
+    });
+
+    it('should not apply the domain limit to consumer domains', async () => {
+      const gmail = await limiter.resolveDestination('a@gmail.com');
+      for (let i = 0; i < 5; i++) limiter.recordDestinationSuccess(gmail);
+      expect(limiter.checkDestination(gmail).allowed).toBe(true);
+    });
+  });
+
+  describe('Deferrals', () => {
+    it('should parse provider deferral responses', () => {
+      expect(parseDeferral('RCPT TO failed: 421 4.7.28 Gmail has detected an unusual rate of unsolicited mail', 421)).toMatchObject({
+        code: 421,
+        enhancedCode: '4.7.28',
+        kind: 'reputation',
+      });
+      expect(parseDeferral('451 4.7.500 Server busy. Please try again later')?.kind).toBe('rate_limited');
+      expect(parseDeferral('450 4.2.0 Greylisted, please try again in 5 minutes')).toMatchObject({
+        kind: 'greylisted',
+        retryAfterMs: 5 * 60 * 1000,
+      });
+      expect(parseDeferral('421 4.7.0 [TS01] Messages from 203.0.113.5 temporarily deferred')?.kind).toBe('reputation');
+      expect(parseDeferral('452 4.3.1 Insufficient system storage')?.kind).toBe('temporary');
+      expect(parseDeferral('550 5.1.1 User unknown')).toBeNull();
+      expect(parseDeferral('Network timeout')).toBeNull();
+      expect(parseDeferral('RCPT TO failed: 550 5.1.1 User unknown', 550)).toBeNull();
+    });
+
+    it('should ignore 4xx numbers that are not SMTP replies', () => {
+      expect(parseDeferral('connect ECONNREFUSED 1.2.3.4:465')).toBeNull();
+      expect(parseDeferral('connect ETIMEDOUT 10.0.0.7:443 after 30000ms')).toBeNull();
+      expect(parseDeferral('Request failed with status 403 Forbidden')).toBeNull();
+      expect(parseDeferral('SendGrid API error: 422 Unprocessable Entity')).toBeNull();
+      expect(parseDeferral('Failed to load attachment report.pdf: 403')).toBeNull();
+    });
+
+    it('should back off greylisted domains only', async () => {
+      const acme = await limiter.resolveDestination('jordan@acme.com');
+      const backoff = limiter.recordDeferral(acme, parseDeferral('450 4.2.0 Greylisted')!);
+
+      expect(backoff).toBe(5 * 60 * 1000);
+      expect(limiter.checkDestination(acme).reason).toBe('Backing off domain acme.com after greylisted (450)');
+      expect(limiter.checkDestination({ domain: 'contoso.com', provider: 'microsoft' }).allowed).toBe(true);
+    });
+
+    it('should back off the whole provider on rate deferrals, doubling each time', async () => {
+      const acme = await limiter.resolveDestination('jordan@acme.com');
+      const deferral = parseDeferral('451 4.7.500 Server busy. Please try again later')!;
+
+      expect(limiter.recordDeferral(acme, deferral)).toBe(15 * 60 * 1000);
+      expect(limiter.recordDeferral(acme, deferral)).toBe(30 * 60 * 1000);
+      expect(limiter.checkDestination({ domain: 'contoso.com', provider: 'microsoft' }).reason).toContain('provider microsoft');
+    });
+
+    it('should cap backoff and honour longer retry hints', async () => {
+      const acme = await limiter.resolveDestination('jordan@acme.com');
+      expect(limiter.recordDeferral(acme, parseDeferral('421 4.4.5 Try again in 2 hours')!)).toBe(2 * 60 * 60 * 1000);
+      for (let i = 0; i < 10; i++) limiter.recordDeferral(acme, parseDeferral('421 4.7.0 Too many connections')!);
+      expect(limiter.recordDeferral(acme, parseDeferral('421 4.7.0 Too many connections')!)).toBe(4 * 60 * 60 * 1000);
+    });
+
+    it('should reset the deferral streak after a delivery', async () => {
+      const acme = await limiter.resolveDestination('jordan@acme.com');
+      limiter.recordDeferral(acme, parseDeferral('450 4.2.0 Greylisted')!);
+      limiter.recordDestinationSuccess(acme);
+
+      expect(limiter.recordDeferral(acme, parseDeferral('450 4.2.0 Greylisted')!)).toBe(5 * 60 * 1000);
+    });
+  });
+
+  describe('EmailProcessor Integration', () => {
+    class ScriptedProvider implements EmailProvider {
+      name = 'scripted';
+      errors: Array<string | Error> = [];
+      sent: EmailJobData[] = [];
+
+      async send(data: EmailJobData): Promise<{ messageId: string; response: unknown }> {
+        const error = this.errors.shift();
+        if (error) throw typeof error === 'string' ? new Error(error) : error;
+        this.sent.push(data);
+        return { messageId: `msg-${this.sent.length}`, response: {} };
+      }
+      async validate(): Promise<{ valid: boolean; error?: string }> {
+        return { valid: true };
+      }
+      async health(): Promise<{ healthy: boolean; latency: number }> {
+        return { healthy: true, latency: 0 };
+      }
+    }
+
+    let provider: ScriptedProvider;
+    let processor: EmailProcessor;
+    const job = (to: string) => createEmailJob({ to, from: 'rep@adzeta.io', subject: 'Hi', text: 'Hello', accountAgeInDays: 60 });
+
+    beforeEach(() => {
+      resetEmailQueueService();
+      provider = new ScriptedProvider();
+      processor = new EmailProcessor({
+        provider,
+        rateLimiter: limiter,
+        senderPool: new SenderPool({ rateLimiter: limiter }),
+        suppressionList: new SuppressionList(),
+        logLevel: 'error',
+      });
+    });
+
+    it('should turn deferrals into rate limit errors with backoff', async () => {
+      provider.errors.push(new SmtpError('RCPT TO failed: 451 4.7.500 Server busy. Please try again later', 451, 'RCPT TO'));
+
+      const error = await processor.processJob(job('jordan@acme.com')).catch(err => err);
+
+      expect(isRateLimitError(error)).toBe(true);
+      expect(error.retryAfterMs).toBe(15 * 60 * 1000);
+      expect(error.deferral).toMatchObject({ code: 451, kind: 'rate_limited' });
+      expect(getRetryDelay(error, 1)).toBe(15 * 60 * 1000);
+    });
+
+    it('should hold later sends to a backed-off provider', async () => {
+      provider.errors.push('451 4.7.500 Server busy');
+      await processor.processJob(job('jordan@acme.com')).catch(() => {});
+
+      const error = await processor.processJob(job('casey@contoso.com')).catch(err => err);
+      expect(isRateLimitError(error)).toBe(true);
+      expect(error.message).toContain('provider microsoft');
+      expect(provider.sent).toHaveLength(0);
+
+      await processor.processJob(job('jane@globex.com'));
+      expect(provider.sent.map(s => s.to)).toEqual(['jane@globex.com']);
+    });
+
+    it('should rethrow permanent and non-SMTP errors unchanged', async () => {
+      provider.errors.push('550 5.1.1 User unknown');
+      const error = await processor.processJob(job('jordan@acme.com')).catch(err => err);
+
+      expect(isRateLimitError(error)).toBe(false);
+      expect(getRetryDelay(error, 1)).toBe(5000);
+    });
+
+    it('should not back off a destination for connection or attachment errors', async () => {
+      provider.errors.push('connect ECONNREFUSED 1.2.3.4:465', 'Failed to load attachment report.pdf: 403');
+      await processor.processJob(job('jordan@acme.com')).catch(() => {});
+      const error = await processor.processJob(job('jordan@acme.com')).catch(err => err);
+
+      expect(isRateLimitError(error)).toBe(false);
+      await processor.processJob(job('casey@contoso.com'));
+      expect(provider.sent.map(s => s.to)).toEqual(['casey@contoso.com']);
+    });
+
+    it('should expose destination metrics via QueueMonitor', async () => {
+      await processor.processJob(job('jordan@acme.com'));
+      provider.errors.push('450 4.2.0 Greylisted');
+      await processor.processJob(job('jane@globex.com')).catch(() => {});
+
+      const monitor = new QueueMonitor(getEmailQueueService(), limiter, processor);
+      const metrics = monitor.getDestinationMetrics();
+
+      expect(metrics.find(m => m.scope === 'domain' && m.name === 'acme.com')).toMatchObject({
+        provider: 'microsoft',
+        sentThisHour: 1,
+        maxPerHour: 3,
+        deferrals: 0,
+        backoffUntil: null,
+      });
+      expect(metrics.find(m => m.scope === 'domain' && m.name === 'globex.com')).toMatchObject({
+        deferrals: 1,
+        lastDeferral: { code: 450, kind: 'greylisted' },
+      });
+      expect(metrics.find(m => m.scope === 'provider' && m.name === 'google')?.deferrals).toBe(0);
+      expect(await monitor.exportPrometheusMetrics()).toContain('email_destination_backoff{scope="domain",name="globex.com",provider="google"} 1');
+    });
+  });
+});
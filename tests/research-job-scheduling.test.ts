@@ -0,0 +1,127 @@
+/**
+ * Unit Tests - Research Job Scheduling
+ *
+ * Tests cron schedules for recurring research jobs and the claim order
+ * for chained jobs:
+ * - Cron fields, names, steps and aliases; invalid expressions
+ * - Next run times in UTC and IANA timezones, including DST changes
+ * - Parent dependencies and per-user concurrency limits when claiming
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { JobStatus } from '@/src/lib/research/job-queue';
+import {
+  ScheduleError,
+  dependencyState,
+  nextRunAt,
+  parseCron,
+  pickClaimableJob,
+  validateSchedule,
+} from '@/src/lib/research/schedule';
+
+// ============================================================================
+// Cron parsing
+// ============================================================================
+
+describe('parseCron', () => {
+  it('should expand lists, ranges, steps and names', () => {
+    const cron = parseCron('*/20 9-17/4 1,15 jan-mar mon-fri');
+
+    expect([...cron.minutes]).toEqual([0, 20, 40]);
+    expect([...cron.hours]).toEqual([9, 13, 17]);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect([...cron.months]).toEqual([1, 2, 3]);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(cron.anyDayOfMonth).toBe(false);
+  });
+
+  it('should accept aliases and 7 as Sunday', () => {
+    expect(parseCron('@weekly')).toMatchObject({ minutes: new Set([0]), hours: new Set([0]), daysOfWeek: new Set([0]) });
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    expect([...parseCron('5/20 * * * *').minutes]).toEqual([5, 25, 45]);
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(() => parseCron('0 9 * *')).toThrow(ScheduleError);
+    expect(() => parseCron('60 * * * *')).toThrow(/minute "60"/);
+    expect(() => parseCron('0 9 * * funday')).toThrow(/day of week/);
+    expect(() => parseCron('*/0 * * * *')).toThrow(/step/);
+    expect(() => validateSchedule({ cron: '0 9 * * 1', timezone: 'Mars/Olympus' })).toThrow(/timezone/);
+  });
+});
+
+// ============================================================================
+// Next run times
+// ============================================================================
+
+describe('nextRunAt', () => {
+  const weekly = { cron: '0 9 * * mon' };
+
+  it('should find the next matching minute strictly after the given time', () => {
+    // 2026-10-14 is a Wednesday
+    expect(nextRunAt(weekly, new Date('2026-10-14T12:34:56Z')).toISOString()).toBe('2026-10-19T09:00:00.000Z');
+    expect(nextRunAt(weekly, new Date('2026-10-19T09:00:00Z')).toISOString()).toBe('2026-10-26T09:00:00.000Z');
+    expect(nextRunAt({ cron: '*/15 9-10 * * *' }, new Date('2026-10-14T10:50:00Z')).toISOString()).toBe('2026-10-15T09:00:00.000Z');
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // Friday 2026-10-16 comes before the 1st of November
+    expect(nextRunAt({ cron: '0 0 1 * fri' }, new Date('2026-10-14T00:00:00Z')).toISOString()).toBe('2026-10-16T00:00:00.000Z');
+    expect(nextRunAt({ cron: '0 0 1 * *' }, new Date('2026-10-14T00:00:00Z')).toISOString()).toBe('2026-11-01T00:00:00.000Z');
+  });
+
+  it('should read the fields in the schedule timezone across DST changes', () => {
+    const newYork = { cron: '0 9 * * mon', timezone: 'America/New_York' };
+    expect(nextRunAt(newYork, new Date('2026-10-14T00:00:00Z')).toISOString()).toBe('2026-10-19T13:00:00.000Z');
+    // Clocks go back on 2026-11-01
+    expect(nextRunAt(newYork, new Date('2026-10-30T00:00:00Z')).toISOString()).toBe('2026-11-02T14:00:00.000Z');
+    // 02:30 doesn't exist on 2026-03-08, so that day is skipped
+    expect(nextRunAt({ cron: '30 2 * * *', timezone: 'America/New_York' }, new Date('2026-03-07T12:00:00Z')).toISOString())
+      .toBe('2026-03-09T06:30:00.000Z');
+  });
+
+  it('should give up on schedules that never run', () => {
+    expect(() => nextRunAt({ cron: '0 0 31 2 *' }, new Date('2026-01-01T00:00:00Z'))).toThrow(/no run/);
+  });
+});
+
+// ============================================================================
+// Claim order
+// ============================================================================
+
+describe('pickClaimableJob', () => {
+  const job = (id: string, createdBy: string, parentJobId?: string) => ({ id, createdBy, parentJobId });
+  const statuses = (entries: Array<[string, JobStatus]>) => new Map(entries);
+
+  it('should wait for a parent to complete and block on a failed or cancelled one', () => {
+    const parents = statuses([['search', 'running'], ['enrich', 'completed'], ['broken', 'failed']]);
+
+    expect(dependencyState(job('a', 'u1'), parents)).toBe('ready');
+    expect(dependencyState(job('b', 'u1', 'search'), parents)).toBe('waiting');
+    expect(dependencyState(job('c', 'u1', 'enrich'), parents)).toBe('ready');
+    expect(dependencyState(job('d', 'u1', 'broken'), parents)).toBe('blocked');
+    expect(dependencyState(job('e', 'u1', 'deleted'), parents)).toBe('ready');
+  });
+
+  it('should pick the oldest ready job and report blocked ones', () => {
+    const candidates = [job('waiting', 'u1', 'search'), job('blocked', 'u1', 'broken'), job('next', 'u1', 'enrich'), job('later', 'u1')];
+
+    const selection = pickClaimableJob(candidates, {
+      parentStatuses: statuses([['search', 'queued'], ['enrich', 'completed'], ['broken', 'cancelled']]),
+      runningByUser: new Map(),
+      maxJobsPerUser: 2,
+    });
+
+    expect(selection.job?.id).toBe('next');
+    expect(selection.blocked.map(j => j.id)).toEqual(['blocked']);
+  });
+
+  it('should skip users at their concurrency limit', () => {
+    const candidates = [job('busy-1', 'u1'), job('busy-2', 'u1'), job('free', 'u2')];
+    const options = { parentStatuses: new Map(), maxJobsPerUser: 2 };
+
+    expect(pickClaimableJob(candidates, { ...options, runningByUser: new Map([['u1', 2]]) }).job?.id).toBe('free');
+    expect(pickClaimableJob(candidates, { ...options, runningByUser: new Map([['u1', 1]]) }).job?.id).toBe('busy-1');
+    expect(pickClaimableJob(candidates.slice(0, 2), { ...options, runningByUser: new Map([['u1', 2]]) }).job).toBeNull();
+  });
+});
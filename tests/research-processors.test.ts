@@ -0,0 +1,384 @@
+/**
+ * Unit Tests - Research Pipelines
+ *
+ * Tests the data_cleansing, list_building, company_enrichment,
+ * signal_detection and competitor_research processors against a local
+ * Apollo stand-in:
+ * - Title, seniority and company name normalization; email verification
+ * - Per-segment quotas, grading against the ICP and identity dedupe
+ * - Missing company details, limited to a chain's source job
+ * - New funding, hiring and tech signals against the stored snapshot
+ * - Competitor profiles and prospects at companies using their product
+ * - Granular JobProgress reporting
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LocalApolloClient } from '@/src/lib/apollo/local-client';
+import type { ApolloOrganization, ApolloPerson } from '@/src/lib/apollo/client';
+import { IdentityResolver, InMemoryIdentityStore } from '@/src/lib/identity/resolver';
+import type { JobProgress, ResearchJob } from '@/src/lib/research/job-queue';
+import { InMemoryResearchProspectStore } from '@/src/lib/research/prospect-store';
+import {
+  DnsEmailVerifier,
+  cleanCompanyName,
+  normalizeSeniority,
+  normalizeTitle,
+  seniorityFromTitle,
+} from '@/src/lib/research/cleansing';
+import {
+  listSegments,
+  runCompanyEnrichment,
+  runCompetitorResearch,
+  runDataCleansing,
+  runListBuilding,
+  runSignalDetection,
+  type ResearchProcessorContext,
+} from '@/src/lib/research/processors';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const ORGANIZATIONS: ApolloOrganization[] = [
+  {
+    id: 'org-acme', name: 'Acme', domain: 'acme.io', industry: 'Software', size: '51-200', employee_count: 120,
+    funding_stage: 'series_b', funding_amount: 20_000_000, technologies: ['AWS', 'Kubernetes', 'Salesforce'],
+  },
+  {
+    id: 'org-globex', name: 'Globex', domain: 'globex.com', industry: 'Financial Services', size: '201-500',
+    employee_count: 300, technologies: ['Stripe', 'HubSpot'],
+  },
+  { id: 'org-initech', name: 'Initech', domain: 'initech.com', industry: 'Software', employee_count: 40, technologies: ['HubSpot'] },
+  { id: 'org-hubspot', name: 'HubSpot', domain: 'hubspot.com', industry: 'Software', employee_count: 7000, technologies: ['HubSpot', 'AWS'] },
+];
+
+function person(id: string, name: string, title: string, email: string): ApolloPerson {
+  const [first_name, last_name] = name.split(' ');
+  return { id, name, first_name, last_name, title, email };
+}
+
+const PEOPLE: ApolloPerson[] = [
+  person('p-jane', 'Jane Doe', 'VP Engineering', 'jane@acme.io'),
+  person('p-bill', 'Bill Lumbergh', 'VP Sales', 'bill@initech.com'),
+  person('p-raj', 'Raj Patel', 'Director of Engineering', 'raj@acme.io'),
+  person('p-sam', 'Sam Lee', 'Head of Platform', 'sam@globex.com'),
+  person('p-ana', 'Ana Gomez', 'Software Engineer', 'ana@initech.com'),
+  person('p-tom', 'Tom Hall', 'Account Executive', 'tom@hubspot.com'),
+];
+
+function makeJob(type: ResearchJob['type'], searchParams: ResearchJob['searchParams'] = {}): ResearchJob {
+  const now = new Date();
+  return {
+    id: `job-${type}`,
+    name: type,
+    type,
+    status: 'running',
+    searchParams,
+    progressPercentage: 0,
+    totalRecords: 0,
+    processedRecords: 0,
+    successCount: 0,
+    errorCount: 0,
+    skipCount: 0,
+    retryCount: 0,
+    maxRetries: 3,
+    createdAt: now,
+    updatedAt: now,
+    createdBy: 'user-1',
+  };
+}
+
+let apollo: LocalApolloClient;
+let prospects: InMemoryResearchProspectStore;
+let resolver: IdentityResolver;
+let progress: JobProgress[];
+let context: ResearchProcessorContext;
+const onProgress = (p: JobProgress) => { progress.push(p); };
+
+beforeEach(() => {
+  apollo = new LocalApolloClient({ people: PEOPLE, organizations: ORGANIZATIONS });
+  prospects = new InMemoryResearchProspectStore();
+  resolver = new IdentityResolver({ store: new InMemoryIdentityStore() });
+  progress = [];
+  context = {
+    apollo: () => apollo,
+    prospects,
+    resolver,
+    emailVerifier: new DnsEmailVerifier({
+      resolveMx: async domain => (domain === 'gone.example' ? [] : [{ exchange: `mx.${domain}`, priority: 10 }]),
+    }),
+    now: () => new Date('2026-03-01T00:00:00Z'),
+  };
+});
+
+// ============================================================================
+// Local Apollo stand-in
+// ============================================================================
+
+describe('LocalApolloClient', () => {
+  it('should filter, paginate and enrich like the API', async () => {
+    const page = await apollo.searchProspects({ organization_industries: ['software'], per_page: 2, page: 2 });
+
+    expect(page.pagination).toEqual({ page: 2, per_page: 2, total_entries: 5, total_pages: 3 });
+    expect(page.people.map(p => p.id)).toEqual(['p-raj', 'p-ana']);
+    expect(page.people[0].organization?.id).toBe('org-acme');
+
+    const titled = await apollo.searchProspects({ person_titles: ['vp'], organization_technologies: ['hubspot'] });
+    expect(titled.people.map(p => p.id)).toEqual(['p-bill']);
+
+    await expect(apollo.enrichOrganizationByDomain('https://www.globex.com/')).resolves.toMatchObject({ id: 'org-globex' });
+    await expect(apollo.enrichOrganizationByDomain('unknown.io')).rejects.toMatchObject({ statusCode: 404 });
+    expect(apollo.calls.map(c => c.method)).toEqual([
+      'searchProspects', 'searchProspects', 'enrichOrganizationByDomain', 'enrichOrganizationByDomain',
+    ]);
+  });
+});
+
+// ============================================================================
+// Data cleansing
+// ============================================================================
+
+describe('Data Cleansing', () => {
+  it('should normalize titles, seniorities and company names', () => {
+    expect(normalizeTitle('  sr. vp of sales & mktg ')).toBe('Senior VP of Sales & Marketing');
+    expect(normalizeTitle('DIRECTOR, DEVOPS/IT')).toBe('Director, DevOps/IT');
+    expect(normalizeTitle('iOS engineer')).toBe('iOS Engineer');
+
+    expect(seniorityFromTitle('Vice President, Marketing')).toBe('vp');
+    expect(seniorityFromTitle('Chief Revenue Officer')).toBe('c_suite');
+    expect(seniorityFromTitle('Sr. Data Engineer')).toBe('senior');
+    expect(seniorityFromTitle('Software Engineer')).toBeNull();
+    expect(normalizeSeniority('C-Suite')).toBe('c_suite');
+    expect(normalizeSeniority('Executive')).toBe('c_suite');
+    expect(normalizeSeniority('Director')).toBe('director');
+
+    expect(cleanCompanyName('GLOBEX CORPORATION')).toBe('Globex');
+    expect(cleanCompanyName('Acme, Inc.')).toBe('Acme');
+    expect(cleanCompanyName('IBM')).toBe('IBM');
+    expect(cleanCompanyName('initech llc')).toBe('Initech');
+  });
+
+  it('should verify emails by syntax, disposable domain, MX and role address', async () => {
+    const lookups: string[] = [];
+    const verifier = new DnsEmailVerifier({
+      resolveMx: async domain => {
+        lookups.push(domain);
+        if (domain === 'nxdomain.example') throw Object.assign(new Error('not found'), { code: 'ENOTFOUND' });
+        if (domain === 'flaky.example') throw Object.assign(new Error('timeout'), { code: 'ETIMEOUT' });
+        return [{ exchange: 'mx.example', priority: 10 }];
+      },
+    });
+
+    expect((await verifier.verify('jane@acme.io')).status).toBe('valid');
+    expect(await verifier.verify('sales@acme.io')).toMatchObject({ status: 'risky', reason: 'role_address' });
+    expect(await verifier.verify('jane@')).toMatchObject({ status: 'invalid', reason: 'syntax' });
+    expect(await verifier.verify('x@mailinator.com')).toMatchObject({ status: 'invalid', reason: 'disposable' });
+    expect(await verifier.verify('x@nxdomain.example')).toMatchObject({ status: 'invalid', reason: 'no_mx' });
+    expect(await verifier.verify('x@flaky.example')).toMatchObject({ status: 'unknown', reason: 'dns_error' });
+    expect(lookups).toEqual(['acme.io', 'nxdomain.example', 'flaky.example']);
+  });
+
+  it('should update changed prospects and report progress without calling Apollo', async () => {
+    prospects.add({
+      id: 'a', userId: 'user-1',
+      fields: { person_title: 'vp engineering', company_name: 'ACME SYSTEMS CORP', person_email: 'jane@acme.io' },
+    });
+    prospects.add({
+      id: 'b', userId: 'user-1', emailStatus: 'valid',
+      fields: { person_title: 'Director', person_seniority: 'director', company_name: 'Globex', person_email: 'sam@globex.com' },
+    });
+    prospects.add({ id: 'c', userId: 'user-1', fields: { person_email: 'old@gone.example' } });
+    prospects.add({ id: 'd', userId: 'user-2', fields: { person_title: 'ceo' } });
+
+    const summary = await runDataCleansing(
+      makeJob('data_cleansing'),
+      { ...context, apollo: () => { throw new Error('Apollo should not be called'); } },
+      onProgress
+    );
+
+    expect(summary).toEqual({
+      prospectsUpdated: 2,
+      emailVerification: { valid: 2, risky: 0, invalid: 1, unknown: 0 },
+    });
+    expect(prospects.get('a')).toMatchObject({
+      emailStatus: 'valid',
+      fields: { person_title: 'VP Engineering', person_seniority: 'vp', company_name: 'Acme Systems' },
+    });
+    expect(prospects.get('c')?.emailStatus).toBe('invalid');
+    expect(prospects.get('d')?.fields.person_title).toBe('ceo');
+
+    expect(progress[0]).toMatchObject({ percentage: 0, total: 3, message: 'Cleansing 3 prospects...' });
+    expect(progress[progress.length - 1]).toMatchObject({
+      jobId: 'job-data_cleansing',
+      percentage: 100,
+      processed: 3,
+      successCount: 2,
+      skipCount: 1,
+      errorCount: 0,
+    });
+  });
+});
+
+// ============================================================================
+// List building
+// ============================================================================
+// Company enrichment
+// ============================================================================
+
+describe('Company Enrichment', () => {
+  it("should fill missing company details for the source job's prospects only", async () => {
+    prospects.add({ id: 'c1', userId: 'user-1', sourceJobId: 'job-search', fields: { person_email: 'jane@acme.io' } });
+    prospects.add({
+      id: 'c2',
+      userId: 'user-1',
+      sourceJobId: 'job-search',
+      fields: { company_domain: 'initech.com', company_name: 'Initech LLC' },
+    });
+    prospects.add({ id: 'c3', userId: 'user-1', sourceJobId: 'job-search', fields: { company_domain: 'unknown.io' } });
+    prospects.add({ id: 'c4', userId: 'user-1', sourceJobId: 'job-other', fields: { person_email: 'sam@globex.com' } });
+
+    const summary = await runCompanyEnrichment(
+      makeJob('company_enrichment', { sourceJobId: 'job-search' }),
+      context,
+      onProgress
+    );
+
+    expect(summary).toEqual({ companiesFound: 3, prospectsUpdated: 2, enrichmentRate: 2 / 3 });
+    expect(prospects.get('c1')?.fields).toMatchObject({ company_name: 'Acme', company_domain: 'acme.io', company_industry: 'Software', company_size: '51-200' });
+    expect(prospects.get('c2')?.fields).toMatchObject({ company_name: 'Initech LLC', company_industry: 'Software' });
+    expect(prospects.get('c4')?.fields).toEqual({ person_email: 'sam@globex.com' });
+    expect(progress[progress.length - 1]).toMatchObject({ percentage: 100, processed: 3, successCount: 2, skipCount: 1 });
+  });
+});
+
+// ============================================================================
+
+describe('List Building', () => {
+  it('should fill segment quotas with ICP-graded prospects, reusing existing ones', async () => {
+    await resolver.ingest('user-1', { source: 'manual', fields: { person_name: 'Jane Doe', person_email: 'jane@acme.io' } });
+
+    const job = makeJob('list_building', {
+      filters: { jobTitles: ['VP', 'Director', 'Head'] },
+      list: {
+        segments: [
+          { name: 'Software', quota: 2, filters: { industries: ['Software'] } },
+          { name: 'Financial', quota: 2, filters: { industries: ['Financial'] } },
+        ],
+      },
+    });
+
+    const summary = await runListBuilding(job, context, onProgress);
+
+    expect(prospects.getList(job.id).map(m => [m.segment, m.grade, m.rank])).toEqual([
+      ['Software', 'A', 1],
+      ['Software', 'A', 2],
+      ['Financial', 'E', 3],
+    ]);
+    expect(summary).toMatchObject({
+      prospectsCreated: 2,
+      prospectsMerged: 1,
+      queuedForReview: 0,
+      companiesFound: 2,
+      listSegments: { Software: 2, Financial: 1 },
+      topIndustries: { Software: 2, 'Financial Services': 1 },
+    });
+
+    // Bill (VP Sales at a small, signal-less company) grades F and is skipped
+    expect(progress[progress.length - 1]).toMatchObject({ percentage: 100, total: 4, successCount: 3, skipCount: 1 });
+    expect(progress.some(p => p.message === 'Segment "Software": 2 of 2')).toBe(true);
+  });
+
+  it('should split the limit across filtered industries when no segments are given', () => {
+    const job = makeJob('list_building', { limit: 10, filters: { industries: ['Software', 'Fintech', 'Retail'] } });
+
+    expect(listSegments(job)).toEqual([
+      { name: 'Software', quota: 4, filters: { industries: ['Software'] } },
+      { name: 'Fintech', quota: 4, filters: { industries: ['Fintech'] } },
+      { name: 'Retail', quota: 4, filters: { industries: ['Retail'] } },
+    ]);
+    expect(listSegments(makeJob('list_building', { limit: 50 }))).toEqual([{ name: 'All', quota: 50 }]);
+  });
+});
+
+// ============================================================================
+// Signal detection
+// ============================================================================
+
+describe('Signal Detection', () => {
+  beforeEach(() => {
+    const acmeSnapshot = { companyEmployeeCount: 100, companyFundingStage: 'series_a', technologies: ['AWS'] };
+    prospects.add({ id: 'a1', userId: 'user-1', fields: { company_domain: 'acme.io' }, ...acmeSnapshot });
+    prospects.add({ id: 'a2', userId: 'user-1', fields: { person_email: 'raj@acme.io' }, ...acmeSnapshot });
+    prospects.add({ id: 'i1', userId: 'user-1', fields: { company_website: 'https://initech.com' }, companyEmployeeCount: 40, technologies: ['HubSpot'] });
+    prospects.add({ id: 'u1', userId: 'user-1', fields: { company_domain: 'unknown.io' } });
+    prospects.add({ id: 'g1', userId: 'user-1', fields: { person_email: 'someone@gmail.com' } });
+  });
+
+  it('should record new funding, hiring and tech signals per company', async () => {
+    const summary = await runSignalDetection(makeJob('signal_detection'), context, onProgress);
+
+    expect(summary).toEqual({ companiesFound: 3, signalsDetected: { funding: 1, hiring: 1, tech: 1 } });
+    expect(prospects.get('a2')).toMatchObject({
+      companyEmployeeCount: 120,
+      companyFundingStage: 'series_b',
+      technologies: ['AWS', 'Kubernetes', 'Salesforce'],
+      signalsCheckedAt: '2026-03-01T00:00:00.000Z',
+      signals: {
+        isHiring: true,
+        hiringCount: 20,
+        raisedFunding: true,
+        fundingStage: 'series_b',
+        techStackMatch: ['AWS', 'Kubernetes'],
+        intentData: true,
+        recentEvent: true,
+        eventType: 'funding',
+      },
+    });
+    expect(prospects.get('i1')?.signals).toMatchObject({ isHiring: false, raisedFunding: false, recentEvent: false });
+    expect(progress[progress.length - 1]).toMatchObject({ percentage: 100, processed: 3, successCount: 2, skipCount: 1 });
+  });
+
+  it('should only report signals that are new since the last scan', async () => {
+    await runSignalDetection(makeJob('signal_detection'), context, onProgress);
+    const again = await runSignalDetection(makeJob('signal_detection'), context, onProgress);
+    expect(again.signalsDetected).toEqual({ funding: 0, hiring: 0, tech: 0 });
+
+    apollo.upsertOrganization({ ...ORGANIZATIONS[0], funding_stage: 'series_c', employee_count: 150, technologies: ['AWS', 'Kubernetes', 'Datadog'] });
+    const fundingOnly = await runSignalDetection(
+      makeJob('signal_detection', { filters: { signalTypes: ['funding'] } }),
+      context,
+      onProgress
+    );
+    expect(fundingOnly.signalsDetected).toEqual({ funding: 1, hiring: 0, tech: 0 });
+  });
+});
+
+// ============================================================================
+// Competitor research
+// ============================================================================
+
+describe('Competitor Research', () => {
+  it('should profile competitors and find prospects at companies using them', async () => {
+    const job = makeJob('competitor_research', {
+      competitors: ['hubspot.com'],
+      filters: { excludeCompanies: ['Initech'] },
+    });
+
+    const summary = await runCompetitorResearch(job, context, onProgress);
+
+    expect(summary).toMatchObject({
+      prospectsCreated: 1,
+      companiesFound: 1,
+      signalsDetected: { HubSpot: 1 },
+      competitorProfiles: [{ name: 'HubSpot', domain: 'hubspot.com', industry: 'Software', employeeCount: 7000 }],
+    });
+    // Bill and Ana are at an excluded company, Tom works for the competitor
+    expect(progress[progress.length - 1]).toMatchObject({ percentage: 100, successCount: 1, skipCount: 3 });
+    expect(progress[0].message).toBe('Researching hubspot.com (1 of 1)...');
+  });
+
+  it('should reject jobs without competitors', async () => {
+    await expect(runCompetitorResearch(makeJob('competitor_research'), context, onProgress))
+      .rejects.toThrow('competitor_research job has no competitors');
+  });
+});
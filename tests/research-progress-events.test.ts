@@ -0,0 +1,296 @@
+/**
+ * Unit Tests - Research Job Progress Events
+ *
+ * Tests the push channel for research job progress:
+ * - In-memory bus: per-user fan-out and replay after an event id
+ * - Postgres bus: publish statement and NOTIFY fan-out
+ * - SSE streams: snapshot, Last-Event-ID resume, per-job filtering and
+ *   de-duplication of events that arrive during a replay
+ * - Client watcher: streaming with resume, polling only as a fallback
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { parseSSEBuffer, type SSEEvent } from '@/lib/sse/parse-sse';
+import { watchJobProgress, type JobProgress } from '@/lib/sse/job-progress';
+import {
+  InMemoryJobEventBus,
+  JOB_EVENTS_CHANNEL,
+  PostgresJobEventBus,
+  createJobEventStream,
+  sseFrame,
+  type EventDatabase,
+  type EventListenClient,
+  type EventNotification,
+  type JobEvent,
+  type JobEventInput,
+} from '@/src/lib/research/progress-events';
+
+const progress = (jobId: string, userId = 'u1', percentage = 50): JobEventInput => ({
+  type: 'progress',
+  jobId,
+  userId,
+  status: 'running',
+  percentage,
+});
+
+/**
+ * Read frames from a stream until `count` events (comments and retry
+ * frames excluded) have arrived
+ */
+async function readEvents(stream: ReadableStream<Uint8Array>, count: number): Promise<SSEEvent[]> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  const events: SSEEvent[] = [];
+  let buffer = '';
+
+  while (events.length < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    const parsed = parseSSEBuffer(buffer + decoder.decode(value, { stream: true }));
+    events.push(...parsed.events);
+    buffer = parsed.remaining;
+  }
+
+  reader.releaseLock();
+  return events;
+}
+
+// ============================================================================
+// In-memory bus
+// ============================================================================
+
+describe('InMemoryJobEventBus', () => {
+  it('should deliver events only to the job owner', async () => {
+    const bus = new InMemoryJobEventBus();
+    const u1: JobEvent[] = [];
+    const u2: JobEvent[] = [];
+    bus.subscribe('u1', event => u1.push(event));
+    const unsubscribe = bus.subscribe('u2', event => u2.push(event));
+
+    await bus.publish(progress('a', 'u1'));
+    await bus.publish(progress('b', 'u2'));
+    unsubscribe();
+    await bus.publish(progress('c', 'u2'));
+
+    expect(u1.map(e => e.jobId)).toEqual(['a']);
+    expect(u2.map(e => e.jobId)).toEqual(['b']);
+  });
+
+  it('should replay events after an id with increasing ids', async () => {
+    const bus = new InMemoryJobEventBus();
+    const first = await bus.publish(progress('a', 'u1', 10));
+    const second = await bus.publish(progress('a', 'u1', 20));
+    await bus.publish(progress('b', 'u2'));
+    const third = await bus.publish({ type: 'status', jobId: 'a', userId: 'u1', status: 'completed', percentage: 100 });
+
+    expect(Number(second.id)).toBeGreaterThan(Number(first.id));
+    expect((await bus.eventsSince('u1', first.id)).map(e => e.id)).toEqual([second.id, third.id]);
+    expect(await bus.eventsSince('u1', 'not-an-id')).toEqual([]);
+  });
+});
+
+// ============================================================================
+// Postgres bus
+// ============================================================================
+
+describe('PostgresJobEventBus', () => {
+  function fakeDatabase() {
+    type NotificationListener = (message: EventNotification) => void;
+    type ErrorListener = (error: Error) => void;
+    const handlers: { notification?: NotificationListener; error?: ErrorListener } = {};
+    const client: EventListenClient = {
+      query: vi.fn().mockResolvedValue({}),
+      on: (event: 'notification' | 'error', listener: NotificationListener | ErrorListener) => {
+        if (event === 'notification') handlers.notification = listener as NotificationListener;
+        else handlers.error = listener as ErrorListener;
+        return client;
+      },
+      release: vi.fn(),
+    };
+    const db: EventDatabase = {
+      query: vi.fn().mockResolvedValue({
+        rows: [{ id: 7, job_id: 'a', user_id: 'u1', type: 'progress', payload: { status: 'running', percentage: 50 }, created_at: '2026-10-18T09:00:00Z' }],
+      }),
+      connect: vi.fn().mockResolvedValue(client),
+    };
+    return { db, client, handlers };
+  }
+
+  it('should store and NOTIFY events in one statement', async () => {
+    const { db } = fakeDatabase();
+    const bus = new PostgresJobEventBus(db);
+
+    const event = await bus.publish(progress('a'));
+
+    const [sql, params] = (db.query as ReturnType<typeof vi.fn>).mock.calls[0];
+    expect(sql).toContain('INSERT INTO research_job_events');
+    expect(sql).toContain(`pg_notify('${JOB_EVENTS_CHANNEL}'`);
+    expect(params.slice(0, 3)).toEqual(['a', 'u1', 'progress']);
+    expect(JSON.parse(params[3])).toEqual({ status: 'running', percentage: 50 });
+    expect(event).toMatchObject({ id: '7', jobId: 'a', userId: 'u1', percentage: 50, at: '2026-10-18T09:00:00.000Z' });
+  });
+
+  it('should LISTEN once and fan notifications out by user', async () => {
+    const { db, client, handlers } = fakeDatabase();
+    const bus = new PostgresJobEventBus(db);
+    const u1: JobEvent[] = [];
+    bus.subscribe('u1', event => u1.push(event));
+    bus.subscribe('u2', () => { throw new Error('wrong user'); });
+    await vi.waitFor(() => expect(client.query).toHaveBeenCalledWith(`LISTEN ${JOB_EVENTS_CHANNEL}`));
+
+    const row = { id: 8, job_id: 'a', user_id: 'u1', type: 'status', payload: { status: 'completed' }, created_at: '2026-10-18T09:00:00Z' };
+    handlers.notification!({ channel: JOB_EVENTS_CHANNEL, payload: JSON.stringify(row) });
+    handlers.notification!({ channel: 'other', payload: JSON.stringify(row) });
+
+    expect(db.connect).toHaveBeenCalledTimes(1);
+    expect(u1).toEqual([expect.objectContaining({ id: '8', type: 'status', status: 'completed' })]);
+
+    await bus.close();
+    expect(client.release).toHaveBeenCalled();
+  });
+});
+
+// ============================================================================
+// SSE streams
+// ============================================================================
+
+describe('createJobEventStream', () => {
+  it('should write frames parse-sse can read, including the id', () => {
+    const { events } = parseSSEBuffer(sseFrame('progress', { percentage: 40 }, '12') + sseFrame('snapshot', {}));
+
+    expect(events).toEqual([
+      { event: 'progress', id: '12', data: '{"percentage":40}' },
+      { event: 'snapshot', data: '{}' },
+    ]);
+  });
+
+  it('should start a fresh connection with the snapshot, then stream live events', async () => {
+    const bus = new InMemoryJobEventBus();
+    const controller = new AbortController();
+    const stream = createJobEventStream(bus, {
+      userId: 'u1',
+      snapshot: async () => [{ event: 'snapshot', data: { id: 'a', status: 'running' } }],
+      signal: controller.signal,
+    });
+
+    // Published before the snapshot resolves; held back until it is sent
+    const first = await bus.publish(progress('a', 'u1', 60));
+    const events = await readEvents(stream, 2);
+    const second = await bus.publish(progress('b', 'u1', 10));
+    events.push(...await readEvents(stream, 1));
+
+    expect(events[0]).toEqual({ event: 'snapshot', data: '{"id":"a","status":"running"}' });
+    expect(events.slice(1).map(e => [e.event, e.id])).toEqual([['progress', first.id], ['progress', second.id]]);
+    controller.abort();
+  });
+
+  it('should resume after Last-Event-ID for one job without repeating events', async () => {
+    const bus = new InMemoryJobEventBus();
+    const seen = await bus.publish(progress('a', 'u1', 10));
+    const missed = await bus.publish(progress('a', 'u1', 20));
+    await bus.publish(progress('b', 'u1', 30));
+
+    // Hold the replay so a live event lands during it
+    let release = () => {};
+    const replay = bus.eventsSince.bind(bus);
+    vi.spyOn(bus, 'eventsSince').mockImplementation(async (userId, lastEventId) => {
+      await new Promise<void>(resolve => { release = resolve; });
+      return replay(userId, lastEventId);
+    });
+
+    const controller = new AbortController();
+    const snapshot = vi.fn().mockResolvedValue([]);
+    const stream = createJobEventStream(bus, { userId: 'u1', jobId: 'a', lastEventId: seen.id, snapshot, signal: controller.signal });
+    const reading = readEvents(stream, 2);
+
+    await vi.waitFor(() => expect(bus.eventsSince).toHaveBeenCalled());
+    const live = await bus.publish({ type: 'status', jobId: 'a', userId: 'u1', status: 'completed', percentage: 100 });
+    release();
+    const events = await reading;
+
+    expect(events.map(e => e.id)).toEqual([missed.id, live.id]);
+    expect(JSON.parse(events[1].data)).toMatchObject({ type: 'status', status: 'completed' });
+    expect(snapshot).not.toHaveBeenCalled();
+    controller.abort();
+  });
+
+  it('should close and unsubscribe when the request is aborted', async () => {
+    const bus = new InMemoryJobEventBus();
+    const subscribe = vi.spyOn(bus, 'subscribe');
+    const controller = new AbortController();
+    const reader = createJobEventStream(bus, { userId: 'u1', signal: controller.signal }).getReader();
+
+    await reader.read(); // retry frame
+    controller.abort();
+
+    expect(subscribe).toHaveBeenCalledTimes(1);
+    expect((await reader.read()).done).toBe(true);
+  });
+});
+
+// ============================================================================
+// Client watcher
+// ============================================================================
+
+describe('watchJobProgress', () => {
+  const snapshot = {
+    status: 'running',
+    progress: { percentage: 10, processed: 1, total: 10 },
+    counts: { error: 0 },
+  };
+
+  it('should stream progress and resume with Last-Event-ID after a dropped connection', async () => {
+    const bus = new InMemoryJobEventBus();
+    const requests: Headers[] = [];
+    const connections: AbortController[] = [];
+    const fetchImpl = vi.fn(async (_url: RequestInfo | URL, init?: RequestInit) => {
+      const headers = new Headers(init?.headers);
+      const connection = new AbortController();
+      requests.push(headers);
+      connections.push(connection);
+      return new Response(createJobEventStream(bus, {
+        userId: 'u1',
+        jobId: 'a',
+        lastEventId: headers.get('Last-Event-ID') ?? undefined,
+        snapshot: async () => [{ event: 'snapshot', data: snapshot }],
+        signal: connection.signal,
+      }));
+    });
+    const updates: JobProgress[] = [];
+    const stop = watchJobProgress('a', p => updates.push(p), { fetchImpl, retryDelayMs: 1 });
+
+    await vi.waitFor(() => expect(updates).toHaveLength(1));
+    const seen = await bus.publish(progress('a', 'u1', 40));
+    await vi.waitFor(() => expect(updates).toHaveLength(2));
+
+    connections[0].abort();
+    await bus.publish(progress('a', 'u1', 70));
+    await vi.waitFor(() => expect(updates.at(-1)?.percentage).toBe(70));
+    await bus.publish({ type: 'status', jobId: 'a', userId: 'u1', status: 'completed', percentage: 100 });
+    await vi.waitFor(() => expect(updates.at(-1)?.status).toBe('completed'));
+
+    expect(updates[0]).toEqual({ status: 'running', percentage: 10, processed: 1, total: 10, errorCount: 0 });
+    expect(updates[1]).toMatchObject({ percentage: 40, processed: 1, total: 10 });
+    expect(requests.map(h => h.get('Accept'))).toEqual(['text/event-stream', 'text/event-stream']);
+    expect(requests[1].get('Last-Event-ID')).toBe(seen.id);
+    stop();
+  });
+
+  it('should poll the JSON endpoint only while the stream is unavailable', async () => {
+    const fetchImpl = vi.fn(async (_url: RequestInfo | URL, init?: RequestInit) => {
+      if (new Headers(init?.headers).get('Accept') === 'text/event-stream') {
+        return new Response('unavailable', { status: 503 });
+      }
+      return Response.json(snapshot);
+    });
+    const updates: JobProgress[] = [];
+    const stop = watchJobProgress('a', p => updates.push(p), { fetchImpl, pollIntervalMs: 5, retryDelayMs: 60000 });
+
+    await vi.waitFor(() => expect(updates.length).toBeGreaterThanOrEqual(2));
+    stop();
+
+    const streamed = fetchImpl.mock.calls.filter(([, init]) => new Headers(init?.headers).has('Accept'));
+    expect(streamed).toHaveLength(1);
+    expect(updates[0]).toEqual({ status: 'running', percentage: 10, processed: 1, total: 10, errorCount: 0 });
+  });
+});
@@ -10,8 +10,9 @@ import {
   SelfHealingEngine,
   type HealingEvent,
   type HealingAttempt,
+  type HealingEventStore,
   type SelfHealingConfig,
-} from '../../lib/autonomy/self-healing';
+} from '@/lib/autonomy/self-healing';
 
 describe('SelfHealingEngine - Retry Logic', () => {
   let engine: SelfHealingEngine;
@@ -20,6 +21,7 @@ describe('SelfHealingEngine - Retry Logic', () => {
   beforeEach(() => {
     events = [];
     engine = new SelfHealingEngine({
+      simulate: true,
       baseDelayMs: 100,
       maxDelayMs: 1000,
       maxAttempts: 3,
@@ -75,6 +77,7 @@ describe('SelfHealingEngine - Retry Logic', () => {
       let escalationCalled = false;
 
       const engineWithEscalation = new SelfHealingEngine({
+        simulate: true,
         baseDelayMs: 10,
         maxAttempts: 3,
         onEvent: (e) => events.push(e),
@@ -129,6 +132,7 @@ describe('SelfHealingEngine - Retry Logic', () => {
       const attemptNumbers: number[] = [];
 
       const trackingEngine = new SelfHealingEngine({
+        simulate: true,
         baseDelayMs: 10,
         maxAttempts: 3,
         onEvent: (e) => {
@@ -145,6 +149,48 @@ describe('SelfHealingEngine - Retry Logic', () => {
     });
   });
 
+  describe('Recovery Handlers', () => {
+    const fakeStore = () => ({ save: vi.fn().mockResolvedValue(undefined) }) satisfies HealingEventStore;
+
+    it('should escalate without attempting recovery when no handler is configured', async () => {
+      const store = fakeStore();
+      const noHandlerEngine = new SelfHealingEngine({ baseDelayMs: 1, store, onEvent: (e) => events.push(e) });
+
+      const record = await noHandlerEngine.monitorTask('task-no-handler', new Error('Something went wrong'));
+
+      expect(record).toMatchObject({ status: 'escalated', strategy: 'operator_escalation', attempts: [] });
+      expect(record.error).toBe('No recovery handler configured: Something went wrong');
+      expect(events.some(e => e.type === 'retrying')).toBe(false);
+      expect(store.save).toHaveBeenCalledWith(expect.objectContaining({ status: 'escalated' }), expect.anything());
+    });
+
+    it('should persist outcomes of a real recovery handler', async () => {
+      const store = fakeStore();
+      const recover = vi.fn().mockResolvedValue(undefined);
+      const handlerEngine = new SelfHealingEngine({ baseDelayMs: 1, store, recover, simulate: true });
+
+      const record = await handlerEngine.monitorTask('task-handler', new Error('Something went wrong'));
+
+      expect(recover).toHaveBeenCalledWith(expect.objectContaining({ taskId: 'task-handler', attemptNumber: 1 }));
+      expect(record.status).toBe('healed');
+      expect(store.save).toHaveBeenCalledTimes(1);
+    });
+
+    it('should never persist simulated outcomes', async () => {
+      const store = fakeStore();
+      const demoEngine = new SelfHealingEngine({ baseDelayMs: 1, maxAttempts: 1, store, simulate: true });
+
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      expect((await demoEngine.monitorTask('task-demo-healed', new Error('Test'))).status).toBe('healed');
+      vi.spyOn(Math, 'random').mockReturnValue(0.9);
+      await demoEngine.monitorTask('task-demo-failed', new Error('Test'));
+      await demoEngine.monitorTask('task-demo-failed', new Error('Test'));
+
+      expect(demoEngine.getHealingRecord('task-demo-failed')?.status).toBe('escalated');
+      expect(store.save).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Exponential Backoff', () => {
     it('should calculate backoff using exponential formula', () => {
       // Retry with backoff formula: baseDelayMs * (multiplier ^ (attempt - 1)) + jitter
@@ -375,6 +421,7 @@ describe('SelfHealingEngine - Retry Logic', () => {
   describe('Error Handling', () => {
     it('should handle errors in event listeners gracefully', async () => {
       const errorEngine = new SelfHealingEngine({
+        simulate: true,
         baseDelayMs: 10,
         onEvent: () => {
           throw new Error('Listener error');
@@ -387,6 +434,7 @@ describe('SelfHealingEngine - Retry Logic', () => {
 
     it('should handle errors in escalation callback gracefully', async () => {
       const errorEngine = new SelfHealingEngine({
+        simulate: true,
         baseDelayMs: 10,
         maxAttempts: 1,
         onEscalate: () => {
@@ -409,6 +457,7 @@ describe('SelfHealingEngine - Retry Logic', () => {
       const localEvents: HealingEvent[] = [];
       
       const trackingEngine = new SelfHealingEngine({
+        simulate: true,
         baseDelayMs: 10,
         onEvent: (e) => localEvents.push(e),
       });
@@ -432,6 +481,7 @@ describe('SelfHealingEngine - Retry Logic', () => {
   describe('Retry Limits and Timeouts', () => {
     it('should complete within reasonable time with fast delays', async () => {
       const fastEngine = new SelfHealingEngine({
+        simulate: true,
         baseDelayMs: 1,
         maxDelayMs: 10,
         maxAttempts: 3,
@@ -450,6 +500,7 @@ describe('SelfHealingEngine - Retry Logic', () => {
     it('should support custom max attempts', async () => {
       const customEvents: HealingEvent[] = [];
       const customEngine = new SelfHealingEngine({
+        simulate: true,
         baseDelayMs: 1,
         maxAttempts: 5,
         onEvent: (e) => customEvents.push(e),
@@ -0,0 +1,292 @@
+/**
+ * Unit Tests - Sender Pool
+ *
+ * Tests multi-mailbox rotation:
+ * - Warmup ramps
+ * - Headroom-based mailbox selection
+ * - Auto-pause on consecutive failures
+ * - EmailProcessor integration
+ * - QueueMonitor domain metrics
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  SenderPool,
+  DEFAULT_WARMUP_RAMP,
+  getWarmupDay,
+  getWarmupTier,
+  resetSenderPool,
+} from '@/lib/sender-pool';
+import type { SenderPoolStore, SenderMailbox, MailboxStatus } from '@/lib/sender-pool';
+import { EmailRateLimiter } from '@/lib/rate-limiter';
+import { EmailProcessor, createEmailJob, isRateLimitError } from '@/lib/email-processor';
+import type { EmailProvider } from '@/lib/email-processor';
+import { getEmailQueueService, resetEmailQueueService } from '@/lib/email-queue';
+import type { EmailJobData } from '@/lib/email-queue';
+import { SuppressionList } from '@/lib/suppression';
+import { QueueMonitor } from '@/lib/queue-monitor';
+import { getServerSupabase } from '@/lib/supabase-server';
+
+vi.mock('@/lib/supabase-server', () => ({
+  getServerSupabase: vi.fn(() => null),
+}));
+
+const NOW = new Date('2026-03-10T15:00:00Z');
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+
+class RecordingProvider implements EmailProvider {
+  name = 'recording';
+  sent: EmailJobData[] = [];
+  failing = false;
+
+  async send(data: EmailJobData): Promise<{ messageId: string; response: unknown }> {
+    if (this.failing) throw new Error('535 5.7.8 Authentication credentials invalid');
+    this.sent.push(data);
+    return { messageId: `msg-${this.sent.length}`, response: {} };
+  }
+  async validate(): Promise<{ valid: boolean; error?: string }> {
+    return { valid: true };
+  }
+  async health(): Promise<{ healthy: boolean; latency: number }> {
+    return { healthy: true, latency: 0 };
+  }
+}
+
+class FakePoolStore implements SenderPoolStore {
+  statuses: Array<{ id: string; status: MailboxStatus; reason: string | null }> = [];
+
+  constructor(private mailboxes: SenderMailbox[]) {}
+
+  async loadMailboxes(): Promise<SenderMailbox[]> {
+    return this.mailboxes;
+  }
+  async loadAssignments() {
+    return this.mailboxes.map(m => ({ campaignId: 'seq-1', mailboxId: m.id }));
+  }
+  async saveStatus(id: string, status: MailboxStatus, reason: string | null): Promise<void> {
+    this.statuses.push({ id, status, reason });
+  }
+}
+
+describe('Sender Pool - Warmup Ramps', () => {
+  it('should count warmup days from the start date', () => {
+    expect(getWarmupDay(NOW, NOW)).toBe(1);
+    expect(getWarmupDay(daysAgo(6), NOW)).toBe(7);
+    expect(getWarmupDay(new Date(NOW.getTime() + 1000), NOW)).toBe(1);
+  });
+
+  it('should ramp linearly up to the cap', () => {
+    expect(getWarmupTier(DEFAULT_WARMUP_RAMP, 1)).toEqual({
+      maxPerDay: 10,
+      maxPerHour: 2,
+      maxPerMinute: 1,
+      description: 'Warmup day 1 (10/day)',
+    });
+    expect(getWarmupTier(DEFAULT_WARMUP_RAMP, 5).maxPerDay).toBe(30);
+    expect(getWarmupTier(DEFAULT_WARMUP_RAMP, 30)).toMatchObject({ maxPerDay: 50, maxPerHour: 10, description: 'Warm (50/day)' });
+  });
+
+  it('should honour custom ramps', () => {
+    const ramp = { startPerDay: 20, dailyIncrease: 20, maxPerDay: 100, hourlyShare: 0.5 };
+    expect(getWarmupTier(ramp, 3)).toMatchObject({ maxPerDay: 60, maxPerHour: 30 });
+  });
+});
+
+describe('Sender Pool - Selection', () => {
+  let limiter: EmailRateLimiter;
+  let pool: SenderPool;
+
+  beforeEach(() => {
+    limiter = new EmailRateLimiter();
+    pool = new SenderPool({ rateLimiter: limiter, now: () => NOW });
+    pool.addMailbox({ id: 'mb-new', email: 'ava@adzeta.io', warmupStartedAt: NOW });
+    pool.addMailbox({ id: 'mb-warm', email: 'sam@adzeta.io', warmupStartedAt: daysAgo(60) });
+    pool.assign('seq-1', ['mb-new', 'mb-warm']);
+  });
+
+  it('should return null for campaigns without a pool', async () => {
+    expect(await pool.select('seq-unknown')).toBeNull();
+  });
+
+  it('should pick the mailbox with the most headroom', async () => {
+    for (let i = 0; i < 45; i++) limiter.recordSuccess('adzeta.io', 'mb-warm');
+
+    // Warm mailbox has 5 left today, the new one has 10
+    const selection = await pool.select('seq-1');
+    expect(selection?.mailbox?.id).toBe('mb-new');
+    expect(selection?.warmupDay).toBe(1);
+    expect(selection?.check.limits.maxPerDay).toBe(10);
+  });
+
+  it('should skip paused and exhausted mailboxes', async () => {
+    await pool.pause('mb-warm', 'manual');
+    for (let i = 0; i < 10; i++) limiter.recordSuccess('adzeta.io', 'mb-new');
+
+    const selection = await pool.select('seq-1');
+    expect(selection?.mailbox).toBeNull();
+    expect(selection?.check.allowed).toBe(false);
+    expect(selection?.check.reason).toContain('All mailboxes at limit');
+    expect(selection?.check.retryAfterMs).toBeGreaterThan(0);
+  });
+
+  it('should report a fully paused pool', async () => {
+    await pool.pause('mb-new', 'manual');
+    await pool.pause('mb-warm', 'manual');
+
+    expect((await pool.select('seq-1'))?.check.reason).toBe('All 2 mailboxes in pool are paused');
+  });
+
+  it('should auto-pause after consecutive failures and resume cleanly', async () => {
+    const paused: string[] = [];
+    pool = new SenderPool({ rateLimiter: limiter, failureThreshold: 3, onPause: m => paused.push(m.id), now: () => NOW });
+    const mailbox = pool.addMailbox({ id: 'mb-1', email: 'ava@adzeta.io', warmupStartedAt: NOW });
+
+    expect(await pool.recordFailure(mailbox)).toBe(false);
+    expect(await pool.recordFailure(mailbox)).toBe(false);
+    expect(await pool.recordFailure(mailbox)).toBe(true);
+    expect(paused).toEqual(['mb-1']);
+    expect(pool.getMailboxMetrics()[0]).toMatchObject({ status: 'paused', pausedReason: 'Auto-paused after 3 consecutive failures' });
+
+    await pool.resume('mb-1');
+    expect(pool.getMailboxMetrics()[0]).toMatchObject({ status: 'active', consecutiveFailures: 0 });
+  });
+
+  it('should load pools from the store and persist status changes', async () => {
+    const store = new FakePoolStore([
+      { id: 'mb-db', email: 'lee@adzeta.io', accountId: 'mb-db', warmupStartedAt: daysAgo(2), status: 'active' },
+    ]);
+    pool = new SenderPool({ rateLimiter: limiter, store, now: () => NOW });
+
+    expect((await pool.select('seq-1'))?.mailbox?.email).toBe('lee@adzeta.io');
+
+    await pool.pause('mb-db', 'Spam folder placement');
+    expect(store.statuses).toEqual([{ id: 'mb-db', status: 'paused', reason: 'Spam folder placement' }]);
+  });
+});
+
+describe('Sender Pool - EmailProcessor', () => {
+  let limiter: EmailRateLimiter;
+  let pool: SenderPool;
+  let provider: RecordingProvider;
+  let processor: EmailProcessor;
+
+  const job = (overrides: Partial<EmailJobData> = {}) => createEmailJob({
+    to: 'jordan@acme.com',
+    from: 'rep@adzeta.io',
+    subject: 'Hi',
+    text: 'Hello',
+    accountId: 'default',
+    accountAgeInDays: 30,
+    campaignId: 'seq-1',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    resetEmailQueueService();
+    limiter = new EmailRateLimiter();
+    pool = new SenderPool({ rateLimiter: limiter, failureThreshold: 2, now: () => NOW });
+    pool.addMailbox({ id: 'mb-1', email: 'ava@adzeta.io', warmupStartedAt: daysAgo(60) });
+    pool.addMailbox({ id: 'mb-2', email: 'sam@adzeta.co', warmupStartedAt: daysAgo(60) });
+    pool.assign('seq-1', ['mb-1', 'mb-2']);
+    provider = new RecordingProvider();
+    processor = new EmailProcessor({
+      provider,
+      rateLimiter: limiter,
+      senderPool: pool,
+      suppressionList: new SuppressionList(),
+      logLevel: 'error',
+    });
+  });
+
+  it('should rotate campaign sends across mailboxes', async () => {
+    const results = [];
+    for (let i = 0; i < 4; i++) results.push(await processor.processJob(job()));
+
+    expect(provider.sent.map(s => s.from)).toEqual(['ava@adzeta.io', 'sam@adzeta.co', 'ava@adzeta.io', 'sam@adzeta.co']);
+    expect(results.map(r => r.senderEmail)).toEqual(provider.sent.map(s => s.from));
+    expect(provider.sent[0]).toMatchObject({ accountId: 'mb-1', accountAgeInDays: 61 });
+  });
+
+  it('should keep the job sender for jobs outside a pool', async () => {
+    await processor.processJob(job({ campaignId: undefined }));
+    await processor.processJob(job({ campaignId: 'seq-other' }));
+
+    expect(provider.sent.map(s => s.from)).toEqual(['rep@adzeta.io', 'rep@adzeta.io']);
+  });
+
+  it('should rate limit when every mailbox is out of headroom', async () => {
+    await pool.pause('mb-1', 'manual');
+    await pool.pause('mb-2', 'manual');
+
+    const error = await processor.processJob(job()).catch(err => err);
+    expect(isRateLimitError(error)).toBe(true);
+    expect(provider.sent).toHaveLength(0);
+  });
+
+  it('should pause a failing mailbox and move on', async () => {
+    provider.failing = true;
+    for (let i = 0; i < 4; i++) await processor.processJob(job()).catch(() => {});
+
+    expect(pool.getMailboxMetrics().map(m => m.status)).toEqual(['paused', 'paused']);
+
+    provider.failing = false;
+    await pool.resume('mb-2');
+    await processor.processJob(job());
+    expect(provider.sent[0].from).toBe('sam@adzeta.co');
+  });
+
+  it('should rotate through mailboxes stored in Supabase by default', async () => {
+    const tables: Record<string, unknown[]> = {
+      sender_mailboxes: [{
+        id: 'mb-db', workspace_id: null, email: 'Lee@adzeta.io', account_id: null,
+        warmup_started_at: daysAgo(60).toISOString(), warmup_ramp: null, status: 'active', paused_reason: null, paused_at: null,
+      }],
+      campaign_mailboxes: [{ campaign_id: 'seq-1', mailbox_id: 'mb-db' }],
+    };
+    const client = {
+      from: (table: string) => ({
+        select: async () => ({ data: tables[table], error: null }),
+      }),
+    };
+    vi.mocked(getServerSupabase).mockReturnValueOnce(client as unknown as SupabaseClient);
+    resetSenderPool();
+
+    try {
+      const defaults = new EmailProcessor({ provider, rateLimiter: limiter, suppressionList: new SuppressionList(), logLevel: 'error' });
+      await defaults.processJob(job());
+
+      expect(provider.sent[0]).toMatchObject({ from: 'lee@adzeta.io', accountId: 'mb-db' });
+    } finally {
+      resetSenderPool();
+    }
+  });
+});
+
+describe('Sender Pool - QueueMonitor', () => {
+  it('should report pool mailboxes with their warmup tier', async () => {
+    resetEmailQueueService();
+    const limiter = new EmailRateLimiter();
+    const pool = new SenderPool({ rateLimiter: limiter, now: () => NOW });
+    pool.addMailbox({ id: 'mb-1', email: 'ava@adzeta.io', warmupStartedAt: daysAgo(2) });
+    pool.assign('seq-1', ['mb-1']);
+    limiter.recordSuccess('adzeta.io', 'mb-1');
+    limiter.recordSuccess('legacy.io', 'default');
+
+    const processor = new EmailProcessor({ provider: new RecordingProvider(), rateLimiter: limiter, senderPool: pool, logLevel: 'error' });
+    const monitor = new QueueMonitor(getEmailQueueService(), limiter, processor, { senderPool: pool });
+    const metrics = monitor.getDomainMetrics();
+
+    expect(metrics).toHaveLength(2);
+    expect(metrics.find(m => m.mailbox)).toMatchObject({
+      domain: 'adzeta.io',
+      accountId: 'mb-1',
+      sentToday: 1,
+      tier: 'Warmup day 3 (20/day)',
+      maxDaily: 20,
+      utilization: 0.05,
+      mailbox: { id: 'mb-1', status: 'active', warmupDay: 3, campaignIds: ['seq-1'] },
+    });
+    expect(metrics.find(m => !m.mailbox)).toMatchObject({ domain: 'legacy.io', accountId: 'default', tier: 'New' });
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * Unit Tests - Sequence Engine
+ *
+ * Tests enrollment advancement:
+ * - Send windows and timezone handling
+ * - TouchCondition evaluation
+ * - Enqueuing personalized steps
+ * - Exit on reply, meeting and bounce
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  SequenceEngine,
+  SupabaseSequenceStore,
+  applySendWindow,
+  evaluateTouchCondition,
+} from '@/lib/sequence-engine';
+import type {
+  SequenceStore,
+  SequenceRow,
+  SequenceStepRow,
+  EnrollmentRow,
+  EnrollmentUpdate,
+  EnrollmentEngagement,
+  ProspectRow,
+  TemplateRow,
+} from '@/lib/sequence-engine';
+import { EmailQueueService } from '@/lib/email-queue';
+
+// Wednesday 10:00 in New York (EST)
+const NOW = new Date('2026-03-04T15:00:00Z');
+
+const NY_WINDOW = { start: '09:00', end: '17:00', respectWeekends: true, timezone: 'America/New_York' };
+
+function makeStep(overrides: Partial<SequenceStepRow> = {}): SequenceStepRow {
+  return {
+    id: 'step-1',
+    sequence_id: 'seq-1',
+    step_number: 1,
+    template_id: 'tpl-1',
+    subject_override: null,
+    body_override: null,
+    wait_days: 0,
+    wait_hours: 0,
+    wait_minutes: 0,
+    send_window_start: '09:00:00',
+    send_window_end: '17:00:00',
+    respect_weekends: true,
+    condition_config: {},
+    variant_for: null,
+    is_active: true,
+    ...overrides,
+  };
+}
+
+function makeEnrollment(overrides: Partial<EnrollmentRow> = {}): EnrollmentRow {
+  return {
+    id: 'enr-1',
+    sequence_id: 'seq-1',
+    prospect_id: 'prospect-1',
+    status: 'pending',
+    current_step: 0,
+    assigned_variant: 'control',
+    enrolled_at: '2026-03-03T15:00:00Z',
+    started_at: null,
+    next_step_due_at: null,
+    personalization_context: {},
+    ...overrides,
+  };
+}
+
+class FakeSequenceStore implements SequenceStore {
+  sequence: SequenceRow = {
+    id: 'seq-1',
+    name: 'Cold outreach',
+    status: 'active',
+    abort_on_reply: true,
+    abort_on_meeting: true,
+    default_send_timezone: 'America/New_York',
+    business_hours_only: true,
+  };
+  steps: SequenceStepRow[] = [
+    makeStep(),
+    makeStep({ id: 'step-2', step_number: 2, wait_days: 3, condition_config: { type: 'if_not_replied' } }),
+  ];
+  enrollments: EnrollmentRow[] = [makeEnrollment()];
+  engagement: EnrollmentEngagement = { events: [], sends: [] };
+  meetingBooked = false;
+  updates: Array<{ id: string; update: EnrollmentUpdate }> = [];
+
+  async listDueEnrollments(): Promise<EnrollmentRow[]> {
+    return this.enrollments;
+  }
+  async getSequence(): Promise<SequenceRow | null> {
+    return this.sequence;
+  }
+  async getSteps(): Promise<SequenceStepRow[]> {
+    return this.steps;
+  }
+  async getTemplate(): Promise<TemplateRow | null> {
+    return { id: 'tpl-1', subject: 'Quick question, {{first_name}}', body_html: '<p>Hi {{first_name}} at {{company}}</p>', body_text: null };
+  }
+  async getProspect(): Promise<ProspectRow | null> {
+    return {
+      id: 'prospect-1',
+      person_email: 'jordan@acme.com',
+      person_first_name: 'Jordan',
+      person_last_name: 'Lee',
+      person_title: 'VP Sales',
+      company_name: 'Acme',
+      company_industry: 'SaaS',
+      technologies: ['Salesforce'],
+    };
+  }
+  async getEngagement(): Promise<EnrollmentEngagement> {
+    return this.engagement;
+  }
+  async hasMeetingSince(): Promise<boolean> {
+    return this.meetingBooked;
+  }
+  async updateEnrollment(id: string, update: EnrollmentUpdate): Promise<void> {
+    this.updates.push({ id, update });
+  }
+}
+
+describe('Sequence Engine - Send Windows', () => {
+  it('should keep times already inside the window', () => {
+    expect(applySendWindow(NOW, NY_WINDOW)).toEqual(NOW);
+  });
+
+  it('should move early sends to the window start in the sequence timezone', () => {
+    // 07:00 EST -> 09:00 EST
+    const result = applySendWindow(new Date('2026-03-04T12:00:00Z'), NY_WINDOW);
+    expect(result.toISOString()).toBe('2026-03-04T14:00:00.000Z');
+  });
+
+  it('should roll late sends to the next day', () => {
+    // 18:00 EST Wednesday -> 09:00 EST Thursday
+    const result = applySendWindow(new Date('2026-03-04T23:00:00Z'), NY_WINDOW);
+    expect(result.toISOString()).toBe('2026-03-05T14:00:00.000Z');
+  });
+
+  it('should skip weekends across a DST change', () => {
+    // Saturday 10:00 EST -> Monday 09:00 EDT
+    const result = applySendWindow(new Date('2026-03-07T15:00:00Z'), NY_WINDOW);
+    expect(result.toISOString()).toBe('2026-03-09T13:00:00.000Z');
+  });
+
+  it('should allow weekends when not respected', () => {
+    const saturday = new Date('2026-03-07T15:00:00Z');
+    expect(applySendWindow(saturday, { ...NY_WINDOW, respectWeekends: false })).toEqual(saturday);
+  });
+});
+
+describe('Sequence Engine - Touch Conditions', () => {
+  const engagement: EnrollmentEngagement = {
+    sends: [
+      { id: 'send-1', sequence_step_id: 'step-1' },
+      { id: 'send-2', sequence_step_id: 'step-2' },
+    ],
+    events: [
+      { email_send_id: 'send-1', event_type: 'open', occurred_at: '2026-03-04T10:00:00Z' },
+      { email_send_id: 'send-2', event_type: 'click', occurred_at: '2026-03-05T10:00:00Z' },
+    ],
+  };
+
+  it('should pass when no condition is configured', () => {
+    expect(evaluateTouchCondition({}, engagement)).toBe(true);
+    expect(evaluateTouchCondition(null, engagement)).toBe(true);
+  });
+
+  it('should scope events to the referenced step', () => {
+    expect(evaluateTouchCondition({ type: 'if_clicked' }, engagement, 'step-1')).toBe(false);
+    expect(evaluateTouchCondition({ type: 'if_clicked' }, engagement, 'step-2')).toBe(true);
+  });
+
+  it('should prefer previousTouchId over the default reference', () => {
+    expect(evaluateTouchCondition({ type: 'if_clicked', previousTouchId: 'step-2' }, engagement, 'step-1')).toBe(true);
+  });
+
+  it('should treat clicks as opens', () => {
+    expect(evaluateTouchCondition({ type: 'if_opened' }, engagement, 'step-2')).toBe(true);
+    expect(evaluateTouchCondition({ type: 'if_not_opened' }, engagement, 'step-2')).toBe(false);
+  });
+
+  it('should evaluate reply conditions', () => {
+    expect(evaluateTouchCondition({ type: 'if_not_replied' }, engagement)).toBe(true);
+    expect(evaluateTouchCondition({ type: 'if_replied' }, engagement)).toBe(false);
+  });
+
+  it('should ignore automated opens and clicks', () => {
+    const scanned: EnrollmentEngagement = {
+      sends: [{ id: 'send-1', sequence_step_id: 'step-1' }],
+      events: [
+        { email_send_id: 'send-1', event_type: 'open', occurred_at: '2026-03-04T10:00:00Z', event_data: { automated: true, automated_reason: 'apple_mpp' } },
+        { email_send_id: 'send-1', event_type: 'click', occurred_at: '2026-03-04T10:00:01Z', event_data: { automated: true, automated_reason: 'security_scanner' } },
+      ],
+    };
+
+    expect(evaluateTouchCondition({ type: 'if_opened' }, scanned, 'step-1')).toBe(false);
+    expect(evaluateTouchCondition({ type: 'if_not_opened' }, scanned, 'step-1')).toBe(true);
+    expect(evaluateTouchCondition({ type: 'if_clicked' }, scanned, 'step-1')).toBe(false);
+  });
+
+  it('should only load human events from email_events', async () => {
+    const filters: Array<[string, string, unknown]> = [];
+    const client = {
+      from: (table: string) => {
+        const query = {
+          select: () => query,
+          eq: (column: string, value: unknown) => { filters.push([table, column, value]); return query; },
+          then: (resolve: (result: { data: unknown[]; error: null }) => void) => resolve({ data: [], error: null }),
+        };
+        return query;
+      },
+    };
+
+    await new SupabaseSequenceStore(client as unknown as SupabaseClient).getEngagement('enr-1');
+
+    expect(filters.filter(([table]) => table === 'email_events')).toEqual([
+      ['email_events', 'enrollment_id', 'enr-1'],
+      ['email_events', 'is_automated', false],
+    ]);
+  });
+});
+
+describe('Sequence Engine - Advancing Enrollments', () => {
+  let store: FakeSequenceStore;
+  let queue: EmailQueueService;
+  let engine: SequenceEngine;
+
+  beforeEach(() => {
+    store = new FakeSequenceStore();
+    queue = new EmailQueueService({ backend: 'memory' });
+    engine = new SequenceEngine({
+      store,
+      queueService: queue,
+      sender: { from: 'rep@adzeta.io' },
+      now: () => NOW,
+    });
+  });
+
+  it('should enqueue the first step with personalized content', async () => {
+    const summary = await engine.runOnce();
+
+    expect(summary.enqueued).toBe(1);
+    const job = await queue.getJob('seq-enr-1-1');
+    expect(job?.data.to).toBe('jordan@acme.com');
+    expect(job?.data.subject).toBe('Quick question, Jordan');
+    expect(job?.data.html).toBe('<p>Hi Jordan at Acme</p>');
+    expect(job?.data.enrollmentId).toBe('enr-1');
+    expect(job?.data.sequenceStepId).toBe('step-1');
+  });
+
+  it('should schedule the next step after its wait inside the window', async () => {
+    await engine.runOnce();
+
+    const update = store.updates[0].update;
+    expect(update.status).toBe('active');
+    expect(update.current_step).toBe(1);
+    // Wednesday + 3 days = Saturday -> Monday 09:00 EDT
+    expect(update.next_step_due_at).toBe('2026-03-09T13:00:00.000Z');
+  });
+
+  it('should wait when the first step is not yet due', async () => {
+    store.steps[0] = makeStep({ wait_days: 2 });
+    store.enrollments = [makeEnrollment({ enrolled_at: NOW.toISOString() })];
+
+    const summary = await engine.runOnce();
+
+    expect(summary.results[0].action).toBe('waiting');
+    expect(store.updates[0].update.next_step_due_at).toBe('2026-03-06T15:00:00.000Z');
+  });
+
+  it('should exit on reply when abort_on_reply is set', async () => {
+    store.engagement.events = [{ email_send_id: 'send-1', event_type: 'reply', occurred_at: NOW.toISOString() }];
+
+    const summary = await engine.runOnce();
+
+    expect(summary.exited).toBe(1);
+    expect(store.updates[0].update).toMatchObject({ status: 'completed', exit_reason: 'replied' });
+  });
+
+  it('should keep going after a reply when abort_on_reply is off', async () => {
+    store.sequence.abort_on_reply = false;
+    store.engagement.events = [{ email_send_id: 'send-1', event_type: 'reply', occurred_at: NOW.toISOString() }];
+
+    const summary = await engine.runOnce();
+    expect(summary.enqueued).toBe(1);
+  });
+
+  it('should exit when a meeting is booked', async () => {
+    store.meetingBooked = true;
+
+    await engine.runOnce();
+    expect(store.updates[0].update).toMatchObject({ status: 'completed', exit_reason: 'meeting_booked' });
+  });
+
+  it('should mark bounced enrollments', async () => {
+    store.engagement.events = [{ email_send_id: 'send-1', event_type: 'bounce', occurred_at: NOW.toISOString() }];
+
+    await engine.runOnce();
+    expect(store.updates[0].update).toMatchObject({ status: 'bounced', exit_reason: 'bounced' });
+  });
+
+  it('should skip steps whose condition is not met', async () => {
+    store.sequence.abort_on_reply = false;
+    store.steps = [
+      makeStep(),
+      makeStep({ id: 'step-2', step_number: 2, condition_config: { type: 'if_opened' } }),
+      makeStep({ id: 'step-3', step_number: 3, wait_days: 1 }),
+    ];
+    store.enrollments = [makeEnrollment({ status: 'active', current_step: 1, next_step_due_at: NOW.toISOString() })];
+    store.engagement = { sends: [{ id: 'send-1', sequence_step_id: 'step-1' }], events: [] };
+
+    const summary = await engine.runOnce();
+
+    expect(summary.skipped).toBe(1);
+    expect(await queue.getJob('seq-enr-1-2')).toBeUndefined();
+    expect(store.updates[0].update.current_step).toBe(2);
+  });
+
+  it('should complete the enrollment after the last step', async () => {
+    store.enrollments = [makeEnrollment({ status: 'active', current_step: 1, next_step_due_at: NOW.toISOString() })];
+
+    await engine.runOnce();
+
+    expect(await queue.getJob('seq-enr-1-2')).toBeDefined();
+    expect(store.updates[0].update).toMatchObject({ status: 'completed', exit_reason: 'sequence_complete', current_step: 2 });
+  });
+
+  it('should pause enrollments without a recipient', async () => {
+    store.getProspect = async () => null;
+
+    const summary = await engine.runOnce();
+
+    expect(summary.results[0]).toMatchObject({ action: 'paused', reason: 'missing_recipient' });
+  });
+
+  it('should ignore inactive sequences', async () => {
+    store.sequence.status = 'paused';
+
+    const summary = await engine.runOnce();
+    expect(summary.processed).toBe(0);
+  });
+});
@@ -0,0 +1,327 @@
+/**
+ * Unit Tests - SMTP Provider
+ *
+ * Tests the SMTP provider against an in-process SMTP server:
+ * - MIME building (alternative parts, attachments, encoded headers)
+ * - AUTH PLAIN and AUTH LOGIN
+ * - Connection pooling
+ * - Permanent vs transient failures
+ * - STARTTLS enforcement
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import net from 'net';
+import type { AddressInfo } from 'net';
+import {
+  SmtpEmailProvider,
+  SmtpError,
+  buildMimeMessage,
+  encodeHeaderValue,
+  encodeQuotedPrintable,
+  htmlToText,
+} from '@/lib/email-providers/smtp-provider';
+import type { SmtpConfig } from '@/lib/email-providers/smtp-provider';
+import type { EmailJobData } from '@/lib/email-queue';
+
+interface ReceivedMessage {
+  from: string;
+  to: string;
+  data: string;
+}
+
+interface TestServerOptions {
+  extensions?: string[];
+  rcptReply?: string;
+}
+
+/**
+ * Minimal SMTP server (MailHog stand-in) that records sessions
+ */
+class TestSmtpServer {
+  messages: ReceivedMessage[] = [];
+  authLines: string[] = [];
+  connections = 0;
+  private server = net.createServer(socket => this.handle(socket));
+
+  constructor(private options: TestServerOptions = {}) {}
+
+  async start(): Promise<number> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private handle(socket: net.Socket): void {
+    this.connections++;
+    let buffer = '';
+    let mode: 'command' | 'data' | 'login-user' | 'login-pass' = 'command';
+    let current: Partial<ReceivedMessage> = {};
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    reply('220 test.local ESMTP');
+    socket.on('error', () => {});
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+
+      if (mode === 'data') {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end < 0) return;
+        const data = buffer.slice(0, end + 2).replace(/^\.\./gm, '.');
+        buffer = buffer.slice(end + 5);
+        this.messages.push({ ...current, data } as ReceivedMessage);
+        mode = 'command';
+        reply('250 2.0.0 Ok: queued as ABC123');
+      }
+
+      let index: number;
+      while (mode !== 'data' && (index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (mode === 'login-user') {
+          this.authLines.push(line);
+          mode = 'login-pass';
+          reply('334 UGFzc3dvcmQ6');
+          continue;
+        }
+        if (mode === 'login-pass') {
+          this.authLines.push(line);
+          mode = 'command';
+          reply('235 2.7.0 Authentication successful');
+          continue;
+        }
+
+        const verb = line.split(' ')[0].toUpperCase();
+        if (verb === 'EHLO') {
+          const extensions = this.options.extensions ?? ['AUTH PLAIN LOGIN'];
+          reply(extensions.length ? '250-test.local' : '250 test.local');
+          extensions.forEach((ext, i) => reply(`250${i === extensions.length - 1 ? ' ' : '-'}${ext}`));
+        } else if (line.startsWith('AUTH PLAIN ')) {
+          this.authLines.push(line);
+          reply('235 2.7.0 Authentication successful');
+        } else if (line === 'AUTH LOGIN') {
+          mode = 'login-user';
+          reply('334 VXNlcm5hbWU6');
+        } else if (verb === 'MAIL') {
+          current = { from: line.match(/<(.*)>/)?.[1] };
+          reply('250 2.1.0 Ok');
+        } else if (verb === 'RCPT') {
+          current.to = line.match(/<(.*)>/)?.[1];
+          reply(this.options.rcptReply ?? '250 2.1.5 Ok');
+        } else if (verb === 'DATA') {
+          mode = 'data';
+          reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (verb === 'RSET' || verb === 'NOOP') {
+          reply('250 2.0.0 Ok');
+        } else if (verb === 'QUIT') {
+          reply('221 2.0.0 Bye');
+          socket.end();
+        } else {
+          reply('502 5.5.2 Command not recognized');
+        }
+      }
+    });
+  }
+}
+
+const job = (overrides: Partial<EmailJobData> = {}): EmailJobData => ({
+  jobId: 'job-1',
+  to: 'Jordan Lee <jordan@acme.com>',
+  from: 'Rep <rep@adzeta.io>',
+  subject: 'Quick question',
+  html: '<p>Hi Jordan,</p><p><a href="https://adzeta.io">See this</a></p>',
+  text: 'Hi Jordan,\n\nSee this: https://adzeta.io',
+  accountId: 'account-1',
+  accountAgeInDays: 30,
+  ...overrides,
+});
+
+describe('SMTP Provider - MIME', () => {
+  const NOW = new Date('2026-03-04T15:00:00Z');
+
+  it('should build multipart/alternative with text and html', () => {
+    const { raw, messageId } = buildMimeMessage(job(), [], NOW);
+
+    expect(messageId).toMatch(/^<\d+\.[0-9a-f]+@adzeta\.io>$/);
+    expect(raw).toContain('From: "Rep" <rep@adzeta.io>\r\n');
+    expect(raw).toContain('Date: Wed, 04 Mar 2026 15:00:00 GMT\r\n');
+    expect(raw).toMatch(/Content-Type: multipart\/alternative; boundary="([^"]+)"/);
+    expect(raw.indexOf('text/plain')).toBeLessThan(raw.indexOf('text/html'));
+    expect(raw).toContain('<a href=3D"https://adzeta.io">');
+  });
+
+  it('should wrap attachments in multipart/mixed', () => {
+    const { raw } = buildMimeMessage(job(), [
+      { filename: 'deck.pdf', contentType: 'application/pdf', content: Buffer.from('%PDF-1.4 test') },
+    ], NOW);
+
+    expect(raw).toMatch(/^Content-Type: multipart\/mixed/m);
+    expect(raw).toContain('Content-Disposition: attachment; filename="deck.pdf"');
+    expect(raw).toContain(Buffer.from('%PDF-1.4 test').toString('base64'));
+  });
+
+  it('should generate a text part for html-only emails', () => {
+    const { raw } = buildMimeMessage(job({ text: undefined }), [], NOW);
+    expect(raw).toContain('See this (https://adzeta.io)');
+    expect(htmlToText('<p>One &amp; two</p><br>three')).toBe('One & two\n\nthree');
+  });
+
+  it('should forward custom headers without allowing injection', () => {
+    const { raw } = buildMimeMessage(job({
+      headers: { 'List-Unsubscribe': '<https://x>\r\nBcc: evil@x.com', 'Bad Name': 'x' },
+    }), [], NOW);
+
+    expect(raw).toContain('List-Unsubscribe: <https://x> Bcc: evil@x.com\r\n');
+    expect(raw).not.toMatch(/^Bcc:/m);
+    expect(raw).not.toContain('Bad Name');
+  });
+
+  it('should encode non-ASCII headers and bodies', () => {
+    expect(encodeHeaderValue('Plain subject')).toBe('Plain subject');
+    expect(encodeHeaderValue('Café ☕')).toBe(`=?UTF-8?B?${Buffer.from('Café ☕').toString('base64')}?=`);
+    expect(encodeQuotedPrintable('a=b café ')).toBe('a=3Db caf=C3=A9=20');
+    expect(encodeQuotedPrintable('x'.repeat(100)).split('\r\n').every(line => line.length <= 76)).toBe(true);
+  });
+});
+
+describe('SMTP Provider - Sending', () => {
+  let server: TestSmtpServer;
+  let provider: SmtpEmailProvider;
+
+  const config = (port: number, overrides: Partial<SmtpConfig> = {}): SmtpConfig => ({
+    host: '127.0.0.1',
+    port,
+    ignoreTLS: true,
+    clientName: 'client.test',
+    auth: { user: 'rep@adzeta.io', pass: 'secret' },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    server = new TestSmtpServer();
+  });
+
+  afterEach(async () => {
+    await provider?.close();
+    await server.stop();
+  });
+
+  it('should send through AUTH PLAIN with envelope addresses', async () => {
+    provider = new SmtpEmailProvider(config(await server.start()));
+
+    const result = await provider.send(job());
+
+    expect(server.authLines).toEqual([`AUTH PLAIN ${Buffer.from('\0rep@adzeta.io\0secret').toString('base64')}`]);
+    expect(server.messages[0]).toMatchObject({ from: 'rep@adzeta.io', to: 'jordan@acme.com' });
+    expect(server.messages[0].data).toContain(`Message-ID: ${result.messageId}`);
+    expect(result.response).toMatchObject({ code: 250 });
+  });
+
+  it('should support AUTH LOGIN', async () => {
+    provider = new SmtpEmailProvider(config(await server.start(), {
+      auth: { user: 'rep@adzeta.io', pass: 'secret', method: 'LOGIN' },
+    }));
+
+    await provider.send(job());
+
+    expect(server.authLines).toEqual([
+      Buffer.from('rep@adzeta.io').toString('base64'),
+      Buffer.from('secret').toString('base64'),
+    ]);
+  });
+
+  it('should dot-stuff message bodies', async () => {
+    provider = new SmtpEmailProvider(config(await server.start()));
+
+    await provider.send(job({ html: undefined, text: 'first\n.second\n.' }));
+
+    expect(server.messages[0].data).toContain('first\r\n.second\r\n.\r\n');
+  });
+
+  it('should attach files loaded from TouchContent attachments', async () => {
+    const loaded: string[] = [];
+    provider = new SmtpEmailProvider(config(await server.start(), {
+      loadAttachment: async attachment => {
+        loaded.push(attachment.url);
+        return Buffer.from('deck');
+      },
+    }));
+
+    await provider.send(job({
+      attachments: [{ id: 'a-1', filename: 'deck.pdf', contentType: 'application/pdf', size: 4, url: 'https://cdn.adzeta.io/deck.pdf' }],
+    }));
+
+    expect(loaded).toEqual(['https://cdn.adzeta.io/deck.pdf']);
+    expect(server.messages[0].data).toContain('filename="deck.pdf"');
+  });
+
+  it('should reuse pooled connections', async () => {
+    provider = new SmtpEmailProvider(config(await server.start(), { pool: { maxConnections: 1 } }));
+
+    await Promise.all([provider.send(job()), provider.send(job()), provider.send(job())]);
+
+    expect(server.messages).toHaveLength(3);
+    expect(server.connections).toBe(1);
+  });
+
+  it('should mark 5xx rejections as permanent and keep the connection', async () => {
+    await server.stop();
+    server = new TestSmtpServer({ rcptReply: '550 5.1.1 User unknown' });
+    provider = new SmtpEmailProvider(config(await server.start(), { pool: { maxConnections: 1 } }));
+
+    const error = await provider.send(job()).catch(err => err);
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error).toMatchObject({ responseCode: 550, permanent: true, command: 'RCPT' });
+    expect((await provider.health()).healthy).toBe(true);
+    expect(server.connections).toBe(1);
+  });
+
+  it('should treat 4xx rejections as transient', async () => {
+    await server.stop();
+    server = new TestSmtpServer({ rcptReply: '451 4.7.1 Try again later' });
+    provider = new SmtpEmailProvider(config(await server.start()));
+
+    await expect(provider.send(job())).rejects.toMatchObject({ responseCode: 451, permanent: false });
+  });
+
+  it('should refuse to send without STARTTLS unless TLS is ignored', async () => {
+    provider = new SmtpEmailProvider(config(await server.start(), { ignoreTLS: false }));
+
+    expect(await provider.validate()).toEqual({ valid: false, error: '127.0.0.1 does not support STARTTLS' });
+  });
+
+  it('should validate and report health against a live server', async () => {
+    provider = new SmtpEmailProvider(config(await server.start()));
+
+    expect(await provider.validate()).toEqual({ valid: true });
+    expect((await provider.health()).healthy).toBe(true);
+  });
+
+  it('should report unhealthy when the server is unreachable', async () => {
+    const port = await server.start();
+    await server.stop();
+    provider = new SmtpEmailProvider(config(port));
+
+    expect((await provider.health()).healthy).toBe(false);
+  });
+});
+
+describe('SMTP Provider - Configuration', () => {
+  it('should read SMTP_* environment variables', () => {
+    expect(SmtpEmailProvider.fromEnv({ SMTP_HOST: 'smtp.office365.com', SMTP_USER: 'rep@adzeta.io', SMTP_PASS: 'pw', SMTP_AUTH_METHOD: 'login' })).toMatchObject({
+      host: 'smtp.office365.com',
+      secure: false,
+      auth: { user: 'rep@adzeta.io', pass: 'pw', method: 'LOGIN' },
+    });
+    expect(SmtpEmailProvider.fromEnv({ SMTP_HOST: 'smtp.gmail.com', SMTP_PORT: '465' })?.secure).toBe(true);
+    expect(SmtpEmailProvider.fromEnv({})).toBeNull();
+  });
+
+  it('should require a host', () => {
+    expect(() => new SmtpEmailProvider({ host: '' })).toThrow('SMTP_HOST');
+  });
+});
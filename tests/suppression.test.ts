@@ -0,0 +1,309 @@
+/**
+ * Unit Tests - Suppression List
+ *
+ * Tests suppression handling:
+ * - Address, domain and workspace matching
+ * - Expiry
+ * - CSV import and export
+ * - Unsubscribe tokens and RFC 8058 headers
+ * - EmailProcessor enforcement, including persisted suppressions
+ * - Inbound bounce/complaint suppressions
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  SuppressionList,
+  createUnsubscribeToken,
+  resetSuppressionList,
+  verifyUnsubscribeToken,
+} from '@/lib/suppression';
+import type { SuppressionEntry } from '@/lib/suppression';
+import {
+  EmailProcessor,
+  createEmailJob,
+  isSuppressedResult,
+} from '@/lib/email-processor';
+import type { EmailProvider, ProcessingEvent } from '@/lib/email-processor';
+import { resetEmailRateLimiter } from '@/lib/rate-limiter';
+import { resetEmailQueueService } from '@/lib/email-queue';
+import type { EmailJobData } from '@/lib/email-queue';
+import { InboundEmailProcessor, parseResendWebhook } from '@/lib/inbound-email';
+import type { InboundStore, InboundEmailEvent } from '@/lib/inbound-email';
+import { getServerSupabase } from '@/lib/supabase-server';
+
+vi.mock('@/lib/supabase-server', () => ({
+  getServerSupabase: vi.fn(() => null),
+}));
+
+const NOW = new Date('2026-03-04T15:00:00Z');
+const SECRET = 'test-secret';
+
+class RecordingProvider implements EmailProvider {
+  name = 'recording';
+  sent: EmailJobData[] = [];
+
+  async send(data: EmailJobData): Promise<{ messageId: string; response: unknown }> {
+    this.sent.push(data);
+    return { messageId: `msg-${this.sent.length}`, response: {} };
+  }
+  async validate(): Promise<{ valid: boolean; error?: string }> {
+    return { valid: true };
+  }
+  async health(): Promise<{ healthy: boolean; latency: number }> {
+    return { healthy: true, latency: 0 };
+  }
+}
+
+describe('Suppression List - Matching', () => {
+  let list: SuppressionList;
+
+  beforeEach(() => {
+    list = new SuppressionList({ now: () => NOW });
+  });
+
+  it('should match suppressed addresses case-insensitively', async () => {
+    await list.suppress({ value: 'Jordan@Acme.com', reason: 'unsubscribe' });
+
+    const check = await list.check('jordan@acme.com');
+    expect(check.suppressed).toBe(true);
+    expect(check.entry).toMatchObject({ suppression_type: 'address', value: 'jordan@acme.com', reason: 'unsubscribe' });
+    expect((await list.check('casey@acme.com')).suppressed).toBe(false);
+  });
+
+  it('should match domains and their subdomains', async () => {
+    await list.suppress({ value: '@acme.com' });
+
+    expect((await list.check('anyone@acme.com')).entry?.suppression_type).toBe('domain');
+    expect((await list.check('ops@eu.acme.com')).suppressed).toBe(true);
+    expect((await list.check('ops@notacme.com')).suppressed).toBe(false);
+  });
+
+  it('should scope workspace entries to their workspace', async () => {
+    await list.suppress({ value: 'jordan@acme.com', workspaceId: 'ws-1' });
+
+    expect((await list.check('jordan@acme.com', 'ws-1')).suppressed).toBe(true);
+    expect((await list.check('jordan@acme.com', 'ws-2')).suppressed).toBe(false);
+    expect((await list.check('jordan@acme.com')).suppressed).toBe(false);
+  });
+
+  it('should apply global entries to every workspace', async () => {
+    await list.suppress({ value: 'jordan@acme.com', reason: 'hard_bounce' });
+    expect((await list.check('jordan@acme.com', 'ws-1')).suppressed).toBe(true);
+  });
+
+  it('should ignore expired entries', async () => {
+    await list.suppress({ value: 'jordan@acme.com', expiresAt: new Date('2026-03-01T00:00:00Z') });
+    expect((await list.check('jordan@acme.com')).suppressed).toBe(false);
+  });
+
+  it('should reject invalid values', async () => {
+    await expect(list.suppress({ value: 'not an address@' })).rejects.toThrow('Invalid');
+  });
+
+  it('should remove suppressions', async () => {
+    await list.suppress({ value: 'jordan@acme.com' });
+
+    expect(await list.unsuppress('JORDAN@acme.com')).toBe(true);
+    expect((await list.check('jordan@acme.com')).suppressed).toBe(false);
+  });
+});
+
+describe('Suppression List - Import & Export', () => {
+  let list: SuppressionList;
+
+  beforeEach(() => {
+    list = new SuppressionList({ now: () => NOW });
+  });
+
+  it('should import a bare list of addresses and domains', async () => {
+    const result = await list.importCsv('jordan@acme.com\nglobex.com\n\njordan@acme.com\n');
+
+    expect(result).toEqual({ imported: 2, skipped: 1, errors: [] });
+    expect((await list.check('x@globex.com')).entry?.reason).toBe('import');
+  });
+
+  it('should import CSV with headers and report bad rows', async () => {
+    const csv = [
+      'email,reason,notes',
+      'jordan@acme.com,unsubscribe,"Asked by phone, twice"',
+      'broken,manual,',
+      'casey@acme.com,wrong_reason,',
+    ].join('\n');
+
+    const result = await list.importCsv(csv, { workspaceId: 'ws-1' });
+
+    expect(result.imported).toBe(1);
+    expect(result.errors).toEqual([
+      { line: 3, error: 'Invalid address: broken' },
+      { line: 4, error: 'Unknown reason: wrong_reason' },
+    ]);
+    expect((await list.check('jordan@acme.com', 'ws-1')).entry).toMatchObject({
+      reason: 'unsubscribe',
+      notes: 'Asked by phone, twice',
+      workspace_id: 'ws-1',
+    });
+  });
+
+  it('should round-trip through export', async () => {
+    await list.suppress({ value: 'jordan@acme.com', reason: 'spam_complaint', notes: 'said "stop"' });
+    await list.suppress({ value: 'globex.com', workspaceId: 'ws-1' });
+
+    const csv = await list.exportCsv();
+    expect(csv.split('\n')[0]).toBe('type,value,workspace_id,reason,source,notes,created_at,expires_at');
+
+    const copy = new SuppressionList({ now: () => NOW });
+    const result = await copy.importCsv(csv);
+
+    const fields = ({ suppression_type, value, workspace_id, reason, notes }: SuppressionEntry) =>
+      ({ suppression_type, value, workspace_id, reason, notes });
+    expect(result.imported).toBe(2);
+    expect((await copy.list()).map(fields)).toEqual((await list.list()).map(fields));
+  });
+});
+
+describe('Suppression List - Unsubscribe', () => {
+  it('should round-trip unsubscribe tokens', () => {
+    const token = createUnsubscribeToken({ email: 'Jordan@acme.com', workspaceId: 'ws-1', sendId: 'seq-enr-1-1' }, SECRET);
+
+    expect(verifyUnsubscribeToken(token, SECRET)).toEqual({ email: 'jordan@acme.com', workspaceId: 'ws-1', sendId: 'seq-enr-1-1' });
+    expect(verifyUnsubscribeToken(token, 'other')).toBeNull();
+  });
+
+  it('should build RFC 8058 headers', () => {
+    const list = new SuppressionList({ secret: SECRET, baseUrl: 'https://gtm.adzeta.io/', mailto: 'unsubscribe@adzeta.io' });
+    const headers = list.buildUnsubscribeHeaders('jordan@acme.com', { workspaceId: 'ws-1' });
+
+    expect(headers['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+    expect(headers['List-Unsubscribe']).toMatch(
+      /^<https:\/\/gtm\.adzeta\.io\/api\/email\/unsubscribe\?t=[^>]+>, <mailto:unsubscribe@adzeta\.io\?subject=unsubscribe>$/
+    );
+
+    const token = headers['List-Unsubscribe'].match(/t=([^>]+)>/)?.[1] ?? null;
+    expect(list.verifyToken(token)?.email).toBe('jordan@acme.com');
+  });
+
+  it('should skip headers without a secret', () => {
+    const list = new SuppressionList({ secret: '', baseUrl: 'https://gtm.adzeta.io' });
+    expect(list.buildUnsubscribeHeaders('jordan@acme.com')).toEqual({});
+  });
+});
+
+describe('Suppression List - EmailProcessor', () => {
+  let provider: RecordingProvider;
+  let list: SuppressionList;
+  let processor: EmailProcessor;
+
+  beforeEach(() => {
+    resetEmailRateLimiter();
+    resetEmailQueueService();
+    provider = new RecordingProvider();
+    list = new SuppressionList({ secret: SECRET, baseUrl: 'https://gtm.adzeta.io' });
+    processor = new EmailProcessor({ provider, suppressionList: list, logLevel: 'error' });
+  });
+
+  const job = (overrides: Partial<EmailJobData> = {}) => createEmailJob({
+    to: 'jordan@acme.com',
+    from: 'rep@adzeta.io',
+    subject: 'Hi',
+    text: 'Hello',
+    accountId: 'account-1',
+    accountAgeInDays: 30,
+    ...overrides,
+  });
+
+  it('should block suppressed recipients without sending', async () => {
+    const events: ProcessingEvent[] = [];
+    processor.subscribe(event => events.push(event));
+    await list.suppress({ value: 'jordan@acme.com', reason: 'hard_bounce' });
+
+    const result = await processor.processJob(job());
+
+    expect(result).toMatchObject({ success: false, error: 'SUPPRESSED: hard_bounce' });
+    expect(isSuppressedResult(result)).toBe(true);
+    expect(provider.sent).toHaveLength(0);
+    expect(events.map(e => e.stage)).toEqual(['validating', 'suppression_check', 'suppressed']);
+  });
+
+  it('should honour workspace suppressions per job', async () => {
+    await list.suppress({ value: 'acme.com', workspaceId: 'ws-1' });
+
+    expect((await processor.processJob(job({ workspaceId: 'ws-1' }))).success).toBe(false);
+    expect((await processor.processJob(job({ workspaceId: 'ws-2' }))).success).toBe(true);
+  });
+
+  it('should pass List-Unsubscribe headers to the provider', async () => {
+    await processor.processJob(job({ workspaceId: 'ws-1', headers: { 'X-Campaign': 'c-1' } }));
+
+    const headers = provider.sent[0].headers ?? {};
+    expect(headers['X-Campaign']).toBe('c-1');
+    expect(headers['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+    expect(headers['List-Unsubscribe']).toContain('/api/email/unsubscribe?t=');
+  });
+
+  it('should block suppressions persisted in email_suppressions by default', async () => {
+    const entry: SuppressionEntry = {
+      suppression_type: 'address',
+      value: 'jordan@acme.com',
+      workspace_id: null,
+      reason: 'unsubscribe',
+      source: 'one_click',
+      notes: null,
+      created_at: NOW.toISOString(),
+      expires_at: null,
+    };
+    const tables: string[] = [];
+    const query = {
+      select: () => query,
+      in: () => query,
+      is: () => query,
+      or: () => query,
+      then: (resolve: (result: { data: SuppressionEntry[]; error: null }) => void) => resolve({ data: [entry], error: null }),
+    };
+    const client = { from: (table: string) => { tables.push(table); return query; } };
+    vi.mocked(getServerSupabase).mockReturnValueOnce(client as unknown as SupabaseClient);
+    resetSuppressionList();
+
+    try {
+      const result = await new EmailProcessor({ provider, logLevel: 'error' }).processJob(job());
+
+      expect(result).toMatchObject({ success: false, error: 'SUPPRESSED: unsubscribe' });
+      expect(tables).toEqual(['email_suppressions']);
+      expect(provider.sent).toHaveLength(0);
+    } finally {
+      resetSuppressionList();
+    }
+  });
+});
+
+describe('Suppression List - Inbound Events', () => {
+  const store: InboundStore = {
+    findSendByMessageIds: async () => ({ id: 'send-1', enrollment_id: null, prospect_id: null, recipient_email: 'jordan@acme.com' }),
+    findLatestSendTo: async () => null,
+    hasEvent: async () => false,
+    recordEvent: async () => {},
+    updateSend: async () => {},
+    getEnrollment: async () => null,
+    updateEnrollment: async () => {},
+    getEngagementScore: async () => null,
+    saveEngagementScore: async () => {},
+  };
+
+  it('should suppress hard bounces and complaints but not soft bounces', async () => {
+    const list = new SuppressionList();
+    const processor = new InboundEmailProcessor(store, list);
+    const bounce = (type: string) => parseResendWebhook({
+      type: 'email.bounced',
+      data: { email_id: 'msg-1', bounce: { type } },
+    }) as InboundEmailEvent;
+
+    await processor.ingest(bounce('Transient'));
+    expect((await list.check('jordan@acme.com')).suppressed).toBe(false);
+
+    await processor.ingest(bounce('Permanent'));
+    expect((await list.check('jordan@acme.com')).entry?.reason).toBe('hard_bounce');
+
+    await processor.ingest(parseResendWebhook({ type: 'email.complained', data: { email_id: 'msg-1' } }) as InboundEmailEvent);
+    expect((await list.check('jordan@acme.com')).entry?.reason).toBe('spam_complaint');
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit Tests - Template Linter
+ *
+ * Tests deliverability and correctness checks:
+ * - Spam phrases, links, images, all-caps subjects
+ * - Plain-text alternative and unsubscribe link
+ * - Broken tokens and required_fields coverage
+ * - Risk columns written to the approval queue
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TemplateLinter, riskLevel } from '@/lib/template-linter';
+import { ApprovalQueue, InMemoryApprovalQueueStore } from '@/lib/approval-queue';
+
+const CLEAN_HTML = `<p>Hi {{first_name}},</p>
+<p>Noticed {{company}} is hiring data engineers. We help teams like yours cut onboarding time in half.</p>
+<p>Worth a quick chat next week?</p>
+<p><a href="{{unsubscribe_url}}">Unsubscribe</a></p>`;
+
+const CLEAN_TEXT = 'Hi {{first_name}}, noticed {{company}} is hiring data engineers. Worth a quick chat? Unsubscribe: {{unsubscribe_url}}';
+
+describe('Template Linter - Content Checks', () => {
+  let linter: TemplateLinter;
+
+  beforeEach(() => {
+    linter = new TemplateLinter();
+  });
+
+  it('should pass a clean template', () => {
+    const result = linter.lint({
+      subject: 'Question about {{company}}',
+      bodyHtml: CLEAN_HTML,
+      bodyText: CLEAN_TEXT,
+      requiredFields: ['company', 'unsubscribe_url'],
+    });
+
+    expect(result.findings).toEqual([]);
+    expect(result).toMatchObject({ score: 0, level: 'low', passed: true });
+  });
+
+  it('should flag spam phrases and cap their weight', () => {
+    const result = linter.lint({
+      subject: 'URGENT: act now for a free trial',
+      bodyText: 'Click here, guaranteed results, limited time. Unsubscribe anytime.',
+    });
+
+    const spam = result.findings.filter(f => f.rule === 'spam_phrase');
+    expect(spam.map(f => f.message)).toContain('Spam phrase "act now" in subject');
+    expect(spam.length).toBeGreaterThan(3);
+    expect(spam.reduce((sum, f) => sum + f.weight, 0)).toBe(30);
+  });
+
+  it('should flag link and image heavy bodies', () => {
+    const links = Array.from({ length: 5 }, (_, i) => `<a href="https://example.com/${i}">link</a>`).join(' ');
+    const result = linter.lint({ subject: 'Hello', bodyHtml: `${links} <img src="a.png"><img src="b.png"><img src="c.png"> unsubscribe`, bodyText: 'Hello. Unsubscribe' });
+
+    expect(result.findings.map(f => f.rule)).toEqual(expect.arrayContaining(['too_many_links', 'too_many_images']));
+    expect(linter.lint({ subject: 'Hello', bodyHtml: '<img src="banner.png"><p>See above. Unsubscribe</p>', bodyText: 'x unsubscribe' }).findings.map(f => f.rule))
+      .toEqual(['image_heavy']);
+  });
+
+  it('should flag all-caps subjects but not short acronyms', () => {
+    expect(linter.lint({ subject: 'LAST CHANCE TO SAVE', bodyText: 'unsubscribe' }).findings.map(f => f.rule)).toEqual(['all_caps_subject']);
+    expect(linter.lint({ subject: 'SOC2 + GDPR for {{company|you}}', bodyText: 'unsubscribe' }).findings).toEqual([]);
+  });
+
+  it('should require a plain-text alternative and an unsubscribe link', () => {
+    const rules = linter.lint({ subject: 'Hello', bodyHtml: '<p>Hi there, quick question about your stack.</p>' }).findings.map(f => f.rule);
+
+    expect(rules).toEqual(['missing_plain_text', 'missing_unsubscribe']);
+  });
+});
+
+describe('Template Linter - Tokens', () => {
+  const linter = new TemplateLinter();
+
+  it('should report syntax errors with positions as errors', () => {
+    const result = linter.lint({ subject: 'Hi', bodyText: 'Hi {{first_name}}\n{{#if company}}at {{company}}\nUnsubscribe' });
+
+    expect(result.passed).toBe(false);
+    expect(result.findings[0]).toMatchObject({ rule: 'template_syntax', severity: 'error', part: 'text', line: 2, column: 1 });
+    expect(result.factors[0]).toContain('Text body: Unmatched {{#if}}');
+  });
+
+  it('should check required_fields against the tokens used', () => {
+    const result = linter.lint({ subject: 'Hi {{first_name}}', bodyText: 'Unsubscribe', requiredFields: ['first_name', 'title'] });
+
+    expect(result.findings).toEqual([expect.objectContaining({
+      rule: 'missing_required_field',
+      severity: 'error',
+      message: 'Required field "title" is not used in the template',
+    })]);
+  });
+
+  it('should warn about tokens that can render raw', () => {
+    const result = linter.lint({
+      subject: 'Re: {{hiring_role}}',
+      bodyText: '{{#if funding_round}}Congrats on the {{funding_round}}.{{/if}} {{first_name}} {{city|your city}} {{#each tech_stack}}{{name}}{{/each}} Unsubscribe',
+    });
+
+    const unguarded = result.findings.filter(f => f.rule === 'unguarded_token');
+    expect(unguarded).toHaveLength(1);
+    expect(unguarded[0]).toMatchObject({ part: 'subject', line: 1, column: 5 });
+    expect(unguarded[0].message).toContain('{{hiring_role}}');
+  });
+});
+
+describe('Template Linter - Approval Queue', () => {
+  it('should populate risk_score and risk_factors on submit', async () => {
+    const store = new InMemoryApprovalQueueStore();
+    const queue = new ApprovalQueue({ store, now: () => new Date('2026-03-02T10:00:00Z') });
+
+    const entry = await queue.submit({
+      batchId: 'batch-1',
+      emailsCount: 250,
+      subject: 'FREE TRIAL FOR {{company}} TEAMS',
+      bodyHtml: '<p>Hi {{first_name}}, act now!</p>',
+      requiredFields: ['first_name'],
+      recipientsPreview: [{ email: 'jordan@acme.com' }],
+    });
+
+    expect(entry.status).toBe('pending');
+    expect(entry.risk_score).toBe(65);
+    expect(riskLevel(entry.risk_score!)).toBe('high');
+    expect(entry.risk_factors).toEqual([
+      'Spam phrase "act now" in body',
+      'Spam phrase "free trial" in subject',
+      'Subject is in all caps',
+      'HTML body has no plain-text alternative',
+      'No unsubscribe or opt-out link in the body',
+    ]);
+    expect(entry.sample_body).toBe('<p>Hi {{first_name}}, act now!</p>');
+    expect(await queue.list({ status: 'pending' })).toHaveLength(1);
+  });
+});
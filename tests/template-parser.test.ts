@@ -0,0 +1,287 @@
+/**
+ * Tests for the Template Parser
+ *
+ * Covers tokenizing, AST construction, positioned syntax errors and the
+ * Handlebars features rendered by personalize()
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseTemplate,
+  tokenize,
+  collectRootPaths,
+  countPermutations,
+  TemplateSyntaxError,
+  type BlockNode,
+  type SpinNode,
+} from '@/lib/template-parser';
+import {
+  personalize,
+  previewTemplate,
+  validateTemplate,
+  PersonalizationContext,
+} from '@/lib/personalization';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+function createContext(overrides: Record<string, unknown> = {}): PersonalizationContext {
+  return {
+    prospect: {
+      first_name: 'jordan',
+      company: { name: 'Acme', employee_count: 250 },
+      tech_stack: ['React', 'Node.js', 'PostgreSQL'],
+      hiringRoles: [
+        { title: 'Data Engineer', location: 'Remote' },
+        { title: 'SRE', location: 'Berlin' },
+      ],
+      funding_date: '2026-03-14T12:00:00Z',
+      ...overrides,
+    },
+    days_since_research: 3,
+  };
+}
+
+function syntaxError(template: string): TemplateSyntaxError {
+  try {
+    parseTemplate(template);
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) return error;
+    throw error;
+  }
+  throw new Error('expected a syntax error');
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+describe('parseTemplate', () => {
+  it('should nest blocks and attach else branches', () => {
+    const ast = parseTemplate('{{#if a}}{{#each b}}x{{/each}}{{else}}y{{/if}}');
+    const outer = ast.body[0] as BlockNode;
+
+    expect(outer.type).toBe('block');
+    expect(outer.helper).toBe('if');
+    expect((outer.program[0] as BlockNode).helper).toBe('each');
+    expect(outer.inverse).toEqual([expect.objectContaining({ type: 'text', value: 'y' })]);
+  });
+
+  it('should chain else if into a nested block', () => {
+    const ast = parseTemplate('{{#if a}}1{{else if b}}2{{else}}3{{/if}}');
+    const inverse = (ast.body[0] as BlockNode).inverse!;
+
+    expect(inverse).toHaveLength(1);
+    expect((inverse[0] as BlockNode).helper).toBe('if');
+    expect((inverse[0] as BlockNode).inverse).toHaveLength(1);
+  });
+
+  it('should report the line and column of unclosed blocks', () => {
+    const error = syntaxError('Hi {{first_name}},\n\n  {{#if company}}\n  at {{company.name}}');
+
+    expect(error.line).toBe(3);
+    expect(error.column).toBe(3);
+    expect(error.message).toBe('Unmatched {{#if}}: missing {{/if}} (line 3, column 3)');
+  });
+
+  it('should point at the mismatched close tag', () => {
+    const error = syntaxError('{{#if a}}\n{{#each b}}\n{{/if}}');
+
+    expect(error.line).toBe(3);
+    expect(error.message).toContain('expected {{/each}} for the block opened at line 2, column 1');
+  });
+
+  it('should reject malformed tags with positions', () => {
+    expect(syntaxError('Hello {{first_name').message).toMatch(/Unclosed tag.*line 1, column 7/);
+    expect(syntaxError('{{else}}').message).toContain('{{else}} outside of a block');
+    expect(syntaxError('{{#if a}}1{{else}}2{{else}}3{{/if}}').message).toContain('Duplicate {{else}}');
+    expect(syntaxError('{{#loop items}}{{/loop}}').message).toContain('loop');
+    expect(syntaxError('{{> footer}}').message).toContain('Partials are not supported');
+  });
+
+  it('should collect root paths from values, helpers and blocks', () => {
+    const ast = parseTemplate('{{#each tech_stack}}{{this}} {{../company.name}}{{/each}}{{#if (gt company.employee_count 100)}}{{capitalize first_name}}{{/if}}');
+
+    expect(collectRootPaths(ast).sort()).toEqual(['company.employee_count', 'company.name', 'first_name', 'tech_stack']);
+  });
+});
+
+describe('tokenize', () => {
+  it('should treat escaped mustaches as text', () => {
+    const tokens = tokenize('Use \\{{first_name}} literally');
+
+    expect(tokens.every(t => t.kind === 'text')).toBe(true);
+    expect(tokens.map(t => (t.kind === 'text' ? t.value : '')).join('')).toBe('Use {{first_name}} literally');
+  });
+});
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+describe('personalize - blocks', () => {
+  it('should render nested conditionals with else', () => {
+    const template = '{{#if company}}{{#if company.funding}}Congrats on the raise{{else}}Saw {{company.name}}{{/if}}{{else}}Hi{{/if}}';
+
+    expect(personalize(template, createContext()).text).toBe('Saw Acme');
+    expect(personalize(template, createContext({ company: { name: 'Acme', funding: 'Series B' } })).text).toBe('Congrats on the raise');
+  });
+
+  it('should iterate arrays with @index, @first and @last', () => {
+    const template = '{{#each tech_stack}}{{#if @first}}{{else if @last}} and {{else}}, {{/if}}{{this}}{{/each}}';
+
+    expect(personalize(template, createContext()).text).toBe('React, Node.js and PostgreSQL');
+  });
+
+  it('should iterate objects and reach the parent scope', () => {
+    const template = '{{#each hiringRoles}}{{@index}}. {{title}} ({{location}}) at {{../company.name}}\n{{/each}}';
+
+    expect(personalize(template, createContext()).text).toBe('0. Data Engineer (Remote) at Acme\n1. SRE (Berlin) at Acme\n');
+  });
+
+  it('should split comma-separated strings and render else for empty lists', () => {
+    const template = '{{#each tech_stack}}[{{this}}]{{else}}none{{/each}}';
+
+    expect(personalize(template, createContext({ tech_stack: 'React, Go' })).text).toBe('[React][Go]');
+    expect(personalize(template, createContext({ tech_stack: [] })).text).toBe('none');
+  });
+
+  it('should strip standalone block lines', () => {
+    const template = 'Hi,\n{{#if company}}\nLoved {{company.name}}.\n{{/if}}\nBest';
+
+    expect(personalize(template, createContext()).text).toBe('Hi,\nLoved Acme.\nBest');
+  });
+
+  it('should scope #with to the value', () => {
+    expect(personalize('{{#with company}}{{name}}{{/with}}', createContext()).text).toBe('Acme');
+  });
+});
+
+describe('personalize - helpers', () => {
+  it('should compare values', () => {
+    const context = createContext();
+
+    expect(personalize('{{#if (eq company.name "Acme")}}yes{{/if}}', context).text).toBe('yes');
+    expect(personalize('{{#if (gt company.employee_count 500)}}big{{else}}small{{/if}}', context).text).toBe('small');
+    expect(personalize('{{#if (contains tech_stack "react")}}React shop{{/if}}', context).text).toBe('React shop');
+    expect(personalize('{{#unless (contains tech_stack "Rust")}}no Rust{{/unless}}', context).text).toBe('no Rust');
+  });
+
+  it('should format values', () => {
+    const context = createContext();
+
+    expect(personalize('{{capitalize first_name}}', context).text).toBe('Jordan');
+    expect(personalize('{{date funding_date "MMM d, yyyy"}}', context).text).toBe('Mar 14, 2026');
+    expect(personalize('{{length hiringRoles}} open {{pluralize hiringRoles "role"}}', context).text).toBe('2 open roles');
+    expect(personalize('{{pluralize 1 "company"}} / {{pluralize 3 "company"}}', context).text).toBe('company / companies');
+    expect(personalize('{{join tech_stack " + "}}', context).text).toBe('React + Node.js + PostgreSQL');
+  });
+
+  it('should throw on unknown helpers', () => {
+    expect(() => personalize('{{shout first_name}}', createContext())).toThrow(TemplateSyntaxError);
+  });
+});
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+describe('validateTemplate - diagnostics', () => {
+  it('should return positioned syntax errors', () => {
+    const result = validateTemplate('Hi {{first_name}}\n{{#each tech_stack}}{{this}}');
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics[0]).toMatchObject({ severity: 'error', line: 2, column: 1 });
+    expect(result.errors[0]).toContain('(line 2, column 1)');
+  });
+
+  it('should flag unknown helpers and wrong arity', () => {
+    const result = validateTemplate('{{#if (eq first_name)}}x{{/if}}\n{{shout company}}');
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors[0]).toMatch(/eq.*line 1, column 7/);
+    expect(result.errors[1]).toMatch(/shout.*line 2, column 3/);
+  });
+
+  it('should flag @data variables outside #each', () => {
+    const result = validateTemplate('{{@index}}');
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain('@index');
+  });
+
+  it('should accept well-formed templates', () => {
+    const result = validateTemplate(
+      '{{#if (gt company.employee_count 100)}}{{#each tech_stack}}{{this}}{{/each}}{{else}}{{capitalize first_name}}{{/if}}',
+      ['first_name', 'tech_stack']
+    );
+
+    expect(result).toEqual({ valid: true, errors: [], diagnostics: [], permutations: 1 });
+  });
+});
+
+// ============================================================================
+// SPINTAX
+// ============================================================================
+
+describe('spintax', () => {
+  const greeting = '{Hi|Hey|Hello} {{first_name}}, {saw|noticed} {{company.name}} is {hiring|growing {fast|quickly}}.';
+
+  it('should parse nested groups that contain tags', () => {
+    const ast = parseTemplate('{Hi {{first_name}}|Hey {there|you}}!');
+    const spin = ast.body[0] as SpinNode;
+
+    expect(spin.type).toBe('spin');
+    expect(spin.options).toHaveLength(2);
+    expect(spin.options[0][1]).toMatchObject({ type: 'mustache' });
+    expect((spin.options[1][1] as SpinNode).options).toHaveLength(2);
+    expect(countPermutations(ast)).toBe(3);
+  });
+
+  it('should leave braces without options alone', () => {
+    const template = '<style>p { color: red; }</style>{{first_name}} \\{a|b\\} | done';
+
+    expect(personalize(template, createContext()).text).toBe('<style>p { color: red; }</style>jordan {a|b} | done');
+  });
+
+  it('should render the same variant for the same seed', () => {
+    const first = personalize(greeting, { ...createContext(), seed: 'prospect-1:2' }).text;
+
+    expect(personalize(greeting, { ...createContext(), seed: 'prospect-1:2' }).text).toBe(first);
+    expect(first).toMatch(/^(Hi|Hey|Hello) jordan, (saw|noticed) Acme is (hiring|growing fast|growing quickly)\.$/);
+  });
+
+  it('should vary across seeds', () => {
+    const variants = new Set(
+      Array.from({ length: 40 }, (_, i) => personalize(greeting, { ...createContext(), seed: `p-${i}:1` }).text)
+    );
+
+    expect(variants.size).toBeGreaterThan(5);
+  });
+
+  it('should reject groups that cross block boundaries', () => {
+    expect(syntaxError('{{#if a}}{x|y{{/if}}}').message).toContain('spintax group opened at line 1, column 10 is still open');
+    expect(syntaxError('{x{{#if a}}|y{{/if}}}').message).toMatch(/Spintax \| inside the \{\{#if\}\} block/);
+    expect(syntaxError('Hi\n{Hey|Hello').message).toBe('Unclosed spintax group: missing } (line 2, column 1)');
+  });
+
+  it('should count permutations per recipient', () => {
+    expect(validateTemplate(greeting).permutations).toBe(18);
+    expect(validateTemplate('{{#if a}}{x|y|z}{{else}}{p|q}{{/if}}').permutations).toBe(3);
+    expect(validateTemplate('{{#if a}}').permutations).toBe(0);
+  });
+
+  it('should report variation across a preview batch', () => {
+    const flat = previewTemplate('Quick question', 'Hi {{first_name}}, loved the {{title}} post.').variation;
+    expect(flat).toMatchObject({ recipients: 20, uniqueBodies: 1, uniqueness: 0, maxSimilarity: 1 });
+
+    const spun = previewTemplate(
+      '{Quick question|Idea for {{company.name}}|{{first_name}}, a thought}',
+      '{Hi|Hey|Hello} {{first_name}}, {loved|enjoyed|read} your {post|article|talk} on {scaling|hiring|tooling}.'
+    ).variation;
+    expect(spun.uniqueBodies).toBeGreaterThan(10);
+    expect(spun.averageSimilarity).toBeLessThan(flat.averageSimilarity);
+  });
+});
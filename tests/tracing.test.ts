@@ -0,0 +1,239 @@
+/**
+ * Unit Tests - Tracing
+ *
+ * Tests the OpenTelemetry-style tracer:
+ * - Span parenting through async context
+ * - traceparent parsing and propagation
+ * - Route → skill → Supabase span chain
+ * - OTLP/HTTP JSON export to a local collector
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  Tracer,
+  InMemorySpanExporter,
+  OTLPHttpExporter,
+  createTracerFromEnv,
+  formatTraceparent,
+  getTracer,
+  parseTraceparent,
+  resetTracer,
+  setTracer,
+  toOtlpPayload,
+  tracedFetch,
+  withRouteTelemetry,
+} from '@/lib/tracing';
+import { getMetricsRegistry, resetMetricsRegistry } from '@/lib/metrics-registry';
+import { executeSkill } from '@/lib/skills/executor';
+import { skillRegistry } from '@/lib/skills/registry';
+
+let server: Server;
+let collectorUrl: string;
+let received: Array<{ path: string; headers: Record<string, string | string[] | undefined>; body: string }> = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ path: req.url ?? '', headers: req.headers, body });
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end('[]');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  collectorUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+describe('Tracing - Tracer', () => {
+  let exporter: InMemorySpanExporter;
+  let tracer: Tracer;
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    tracer = new Tracer({ exporter, flushIntervalMs: 0 });
+  });
+
+  it('should parent spans through async context', async () => {
+    await tracer.withSpan('outer', {}, async () => {
+      await new Promise(resolve => setTimeout(resolve, 1));
+      await tracer.withSpan('inner', { attributes: { step: 1 } }, async () => undefined);
+    });
+    await tracer.flush();
+
+    const [inner, outer] = exporter.spans;
+    expect(inner.name).toBe('inner');
+    expect(inner.parentSpanId).toBe(outer.spanId);
+    expect(inner.traceId).toBe(outer.traceId);
+    expect(inner.attributes).toEqual({ step: 1 });
+    expect(outer.parentSpanId).toBeUndefined();
+    expect(outer.endTime).toBeGreaterThanOrEqual(inner.endTime);
+  });
+
+  it('should record exceptions and rethrow', async () => {
+    await expect(tracer.withSpan('failing', {}, () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+    await tracer.flush();
+
+    expect(exporter.spans[0].status).toEqual({ code: 'error', message: 'boom' });
+    expect(exporter.spans[0].events[0]).toMatchObject({ name: 'exception', attributes: { 'exception.message': 'boom' } });
+  });
+
+  it('should propagate but not record spans without an exporter', async () => {
+    const disabled = new Tracer();
+    const span = disabled.startSpan('noop');
+    expect(span.recording).toBe(false);
+    expect(span.context.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(formatTraceparent(span.context)).toMatch(/-00$/);
+  });
+
+  it('should follow the sampling decision of a remote parent', () => {
+    const parent = parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00')!;
+    expect(tracer.startSpan('child', { parent }).recording).toBe(false);
+
+    const sampled = tracer.startSpan('child', { parent: { ...parent, sampled: true } });
+    expect(sampled.recording).toBe(true);
+    expect(sampled.context.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    expect(sampled.parentSpanId).toBe('00f067aa0ba902b7');
+  });
+
+  it('should reject malformed traceparent headers', () => {
+    expect(parseTraceparent('garbage')).toBeNull();
+    expect(parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01')).toBeNull();
+    expect(parseTraceparent(undefined)).toBeNull();
+  });
+});
+
+describe('Tracing - Request Chain', () => {
+  let exporter: InMemorySpanExporter;
+
+  beforeEach(() => {
+    received = [];
+    resetMetricsRegistry();
+    exporter = new InMemorySpanExporter();
+    setTracer(new Tracer({ exporter, flushIntervalMs: 0 }));
+  });
+
+  afterEach(() => {
+    resetTracer();
+  });
+
+  it('should follow a command from the route through the skill to Supabase', async () => {
+    const supabaseFetch = tracedFetch({
+      attributes: { 'db.system': 'postgresql' },
+      spanName: (method, url) => `supabase ${method} ${url.pathname.replace(/^\/rest\/v1\//, '')}`,
+    });
+    skillRegistry.register({
+      id: 'test.query',
+      name: 'Test query',
+      description: 'Reads prospects',
+      domain: 'research',
+      inputSchema: {},
+      responseType: ['text'],
+      triggerPatterns: [],
+      estimatedMs: 1,
+      examples: [],
+      handler: async () => {
+        await supabaseFetch(`${collectorUrl}/rest/v1/prospects?email=eq.jordan@acme.com`);
+        return { skillId: 'test.query', status: 'success', blocks: [], followUps: [], executionMs: 0, dataFreshness: 'live' };
+      },
+    });
+
+    const POST = withRouteTelemetry('/api/agent/command', async (req: Request) => {
+      const body = await req.json();
+      const output = await executeSkill({ skillId: body.skillId, params: {}, context: { source: 'api' } });
+      return Response.json(output);
+    });
+
+    const response = await POST(new Request('http://localhost/api/agent/command', {
+      method: 'POST',
+      headers: { traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01' },
+      body: JSON.stringify({ skillId: 'test.query' }),
+    }));
+    expect(response.status).toBe(200);
+
+    await getTracer().flush();
+
+    const byName = Object.fromEntries(exporter.spans.map(s => [s.name, s]));
+    const route = byName['POST /api/agent/command'];
+    const skill = byName['skill.execute'];
+    const query = byName['supabase GET prospects'];
+
+    expect(route.parentSpanId).toBe('00f067aa0ba902b7');
+    expect(route.attributes['http.response.status_code']).toBe(200);
+    expect(skill.parentSpanId).toBe(route.spanId);
+    expect(skill.attributes).toMatchObject({ 'skill.id': 'test.query', 'skill.status': 'success' });
+    expect(query.parentSpanId).toBe(skill.spanId);
+    expect(query.kind).toBe('client');
+    expect(query.attributes).toMatchObject({ 'db.system': 'postgresql', 'url.path': '/rest/v1/prospects' });
+    expect(JSON.stringify(query.attributes)).not.toContain('jordan@acme.com');
+
+    // Outgoing request carries the client span's context
+    expect(received[0].headers.traceparent).toBe(`00-${query.traceId}-${query.spanId}-01`);
+
+    const latency = getMetricsRegistry().histogram('http_server_request_duration_seconds', { help: '' });
+    expect(latency.get({ route: '/api/agent/command', method: 'POST', status: '200' }).count).toBe(1);
+  });
+});
+
+describe('Tracing - OTLP Export', () => {
+  beforeEach(() => {
+    received = [];
+  });
+
+  it('should post batches to a local collector as OTLP JSON', async () => {
+    const tracer = new Tracer({
+      serviceName: 'gtmos-test',
+      exporter: new OTLPHttpExporter({ endpoint: `${collectorUrl}/v1/traces`, serviceName: 'gtmos-test' }),
+      maxBatchSize: 2,
+      flushIntervalMs: 0,
+    });
+
+    await tracer.withSpan('a', { kind: 'server', attributes: { 'http.route': '/x', ratio: 0.5, ok: true } }, () => undefined);
+    await tracer.withSpan('b', {}, () => undefined);
+    await tracer.shutdown();
+
+    expect(received).toHaveLength(1);
+    expect(received[0].path).toBe('/v1/traces');
+    const payload = JSON.parse(received[0].body);
+    const resource = payload.resourceSpans[0];
+    expect(resource.resource.attributes).toEqual([{ key: 'service.name', value: { stringValue: 'gtmos-test' } }]);
+
+    const [a, b] = resource.scopeSpans[0].spans;
+    expect(a).toMatchObject({ name: 'a', kind: 2, status: { code: 0 } });
+    expect(a.attributes).toEqual([
+      { key: 'http.route', value: { stringValue: '/x' } },
+      { key: 'ratio', value: { doubleValue: 0.5 } },
+      { key: 'ok', value: { boolValue: true } },
+    ]);
+    expect(a.startTimeUnixNano).toMatch(/^\d{19}$/);
+    expect(BigInt(a.endTimeUnixNano) >= BigInt(a.startTimeUnixNano)).toBe(true);
+    expect(b.name).toBe('b');
+  });
+
+  it('should convert timestamps to nanoseconds', () => {
+    const payload = toOtlpPayload([{
+      name: 's', kind: 'internal', traceId: 't', spanId: 's', startTime: 1767225600000.25, endTime: 1767225600001,
+      attributes: { count: 3 }, events: [], status: { code: 'ok' },
+    }], 'svc') as { resourceSpans: Array<{ scopeSpans: Array<{ spans: Array<Record<string, unknown>> }> }> };
+    const span = payload.resourceSpans[0].scopeSpans[0].spans[0];
+
+    expect(span.startTimeUnixNano).toBe('1767225600000250000');
+    expect(span.endTimeUnixNano).toBe('1767225600001000000');
+    expect(span.attributes).toEqual([{ key: 'count', value: { intValue: '3' } }]);
+  });
+
+  it('should configure the exporter from OTEL_* variables', () => {
+    expect(createTracerFromEnv({}).enabled).toBe(false);
+    expect(createTracerFromEnv({ OTEL_EXPORTER_OTLP_ENDPOINT: 'http://localhost:4318' }).enabled).toBe(true);
+    expect(createTracerFromEnv({ OTEL_EXPORTER_OTLP_ENDPOINT: 'http://localhost:4318', OTEL_SDK_DISABLED: 'true' }).enabled).toBe(false);
+    expect(createTracerFromEnv({ OTEL_SERVICE_NAME: 'worker' }).serviceName).toBe('worker');
+  });
+});